@@ -0,0 +1,124 @@
+/**
+ * @jest-environment node
+ */
+import type { NextApiRequest, NextApiResponse } from 'next'
+import handler from '../../pages/api/users/me/drafts/[postId]'
+import { getUserFromRequest } from '../../lib/auth'
+import { parseForm } from '../../lib/upload'
+import { getDraft, publishPost } from '../../lib/postPublishing'
+import { findQuoteTarget } from '../../lib/repostStorage'
+
+const posts = { updateOne: jest.fn() }
+
+jest.mock('../../lib/mongodb', () => ({
+  Collections: { POSTS: 'posts' },
+  getCollection: jest.fn(async () => posts),
+  withRetry: (fn: () => unknown) => fn(),
+}))
+jest.mock('../../lib/auth', () => ({ getUserFromRequest: jest.fn() }))
+jest.mock('../../lib/upload', () => ({
+  parseForm: jest.fn(),
+  uploadToCloudinary: jest.fn(),
+  getFileType: jest.fn(() => 'image'),
+}))
+jest.mock('../../lib/permissions', () => ({ getRoleForUser: jest.fn() }))
+jest.mock('../../lib/placeCatalog', () => ({ getTaggablePlace: jest.fn() }))
+jest.mock('../../lib/postTagging', () => ({
+  deletePostTags: jest.fn(),
+  findUntaggableUsers: jest.fn(async () => []),
+  getPostTags: jest.fn(async () => new Map()),
+  replacePostTags: jest.fn(),
+}))
+jest.mock('../../lib/postPublishing', () => ({
+  buildDraftViews: jest.fn(async (drafts: unknown[]) => drafts),
+  getDraft: jest.fn(),
+  publishPost: jest.fn(),
+}))
+jest.mock('../../lib/postViews', () => ({
+  buildPostViews: jest.fn(async (items: unknown[]) => items),
+  findPostsInOrder: jest.fn(async () => []),
+}))
+jest.mock('../../lib/repostStorage', () => ({
+  findQuoteTarget: jest.fn(),
+  resolveReposts: jest.fn(async (items: unknown[]) => items),
+}))
+
+function mockResponse() {
+  const res: any = {}
+  res.status = jest.fn(() => res)
+  res.json = jest.fn(() => res)
+  res.setHeader = jest.fn(() => res)
+  return res as NextApiResponse & { status: jest.Mock; json: jest.Mock }
+}
+
+const update = (fields: Record<string, string>) => {
+  ;(parseForm as jest.Mock).mockResolvedValue({ fields, files: {} })
+  return { method: 'PUT', query: { postId: '5' }, headers: {} } as unknown as NextApiRequest
+}
+
+const draft = {
+  id: 5,
+  user_id: 7,
+  caption: 'Worth a read',
+  category: 'GENERAL',
+  media: [],
+  media_url: '',
+  media_type: 'NONE',
+  status: 'draft',
+}
+
+describe('PUT /api/users/me/drafts/[postId]', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(getUserFromRequest as jest.Mock).mockResolvedValue({ userId: 7 })
+    posts.updateOne.mockResolvedValue({ matchedCount: 1 })
+    ;(findQuoteTarget as jest.Mock).mockResolvedValue({ post: { id: 3, user_id: 9 } })
+    ;(publishPost as jest.Mock).mockResolvedValue(true)
+  })
+
+  it('publishes a quote draft without media', async () => {
+    ;(getDraft as jest.Mock).mockResolvedValue({ ...draft, quote_of: 3 })
+    const res = mockResponse()
+
+    await handler(update({ publish: 'true' }), res)
+
+    expect(res.status).toHaveBeenCalledWith(200)
+    expect(publishPost).toHaveBeenCalledWith(5)
+  })
+
+  it('rejects a quote draft once the quoted post can no longer be quoted', async () => {
+    ;(getDraft as jest.Mock).mockResolvedValue({ ...draft, quote_of: 3 })
+    ;(findQuoteTarget as jest.Mock).mockResolvedValue({ reason: 'not_public', error: 'Only public posts can be quoted' })
+    const res = mockResponse()
+
+    await handler(update({ publish: 'true' }), res)
+
+    expect(findQuoteTarget).toHaveBeenCalledWith(7, 3)
+    expect(res.status).toHaveBeenCalledWith(400)
+    expect(res.json).toHaveBeenCalledWith({ error: 'Only public posts can be quoted' })
+    expect(publishPost).not.toHaveBeenCalled()
+  })
+
+  it('still requires media on other drafts', async () => {
+    ;(getDraft as jest.Mock).mockResolvedValue(draft)
+    const res = mockResponse()
+
+    await handler(update({ publish: 'true' }), res)
+
+    expect(res.status).toHaveBeenCalledWith(400)
+    expect(res.json).toHaveBeenCalledWith({ error: 'Media file is required for posts' })
+    expect(publishPost).not.toHaveBeenCalled()
+  })
+
+  it('rejects scheduling past the closing time of the poll the draft already has', async () => {
+    const closesAt = new Date(Date.now() + 2 * 60 * 60 * 1000)
+    ;(getDraft as jest.Mock).mockResolvedValue({ ...draft, quote_of: 3, poll: { options: [], multiple: false, anonymous: false, closes_at: closesAt } })
+    const res = mockResponse()
+
+    await handler(update({ scheduled_at: new Date(closesAt.getTime() + 60 * 60 * 1000).toISOString() }), res)
+
+    expect(res.status).toHaveBeenCalledWith(400)
+    expect(res.json).toHaveBeenCalledWith({ error: 'The poll must close after the post goes up' })
+    expect(posts.updateOne).not.toHaveBeenCalled()
+  })
+})
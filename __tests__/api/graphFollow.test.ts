@@ -0,0 +1,70 @@
+/**
+ * @jest-environment node
+ */
+import type { NextApiRequest, NextApiResponse } from 'next'
+import handler from '../../pages/api/graph/follow'
+import { getUserFromRequest } from '../../lib/auth'
+import { socialGraph, getGraphUserId } from '../../lib/socialGraph'
+import { pruneHiddenSaves } from '../../lib/savedPostStorage'
+import { removeCloseFriend } from '../../lib/closeFriends'
+
+const targetId = '64b7f0c2a1b2c3d4e5f60718'
+const users = { findOne: jest.fn() }
+const followers = { deleteOne: jest.fn() }
+
+jest.mock('../../lib/mongodb', () => ({
+  Collections: { USERS: 'users', FOLLOWERS: 'followers' },
+  getCollection: jest.fn(async (name: string) => (name === 'users' ? users : followers)),
+  withRetry: (fn: () => unknown) => fn(),
+}))
+jest.mock('../../lib/auth', () => ({ getUserFromRequest: jest.fn() }))
+jest.mock('../../lib/socialGraph', () => ({
+  socialGraph: { unfollowUser: jest.fn() },
+  getGraphUserId: jest.fn(),
+}))
+jest.mock('../../lib/savedPostStorage', () => ({ pruneHiddenSaves: jest.fn() }))
+jest.mock('../../lib/closeFriends', () => ({ removeCloseFriend: jest.fn() }))
+
+function mockResponse() {
+  const res: any = {}
+  res.status = jest.fn(() => res)
+  res.json = jest.fn(() => res)
+  res.setHeader = jest.fn()
+  return res as NextApiResponse & { status: jest.Mock; json: jest.Mock }
+}
+
+const unfollow = () =>
+  ({ method: 'DELETE', body: { targetUserId: targetId }, query: {}, headers: {} }) as unknown as NextApiRequest
+
+describe('DELETE /api/graph/follow', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(getUserFromRequest as jest.Mock).mockResolvedValue({ userId: 7 })
+    ;(getGraphUserId as jest.Mock).mockResolvedValue('64b7f0c2a1b2c3d4e5f60700')
+    users.findOne.mockResolvedValue({ id: 3 })
+    ;(socialGraph.unfollowUser as jest.Mock).mockResolvedValue(true)
+  })
+
+  it('ends the follow the same way the profile unfollow does', async () => {
+    followers.deleteOne.mockResolvedValue({ deletedCount: 1 })
+    const res = mockResponse()
+
+    await handler(unfollow(), res)
+
+    expect(followers.deleteOne).toHaveBeenCalledWith({ follower_id: 7, following_id: 3 })
+    expect(pruneHiddenSaves).toHaveBeenCalledWith(3, [7])
+    expect(removeCloseFriend).toHaveBeenCalledWith(3, 7)
+    expect(res.status).toHaveBeenCalledWith(200)
+  })
+
+  it('says so when there was nothing to unfollow', async () => {
+    ;(socialGraph.unfollowUser as jest.Mock).mockResolvedValue(false)
+    followers.deleteOne.mockResolvedValue({ deletedCount: 0 })
+    const res = mockResponse()
+
+    await handler(unfollow(), res)
+
+    expect(pruneHiddenSaves).not.toHaveBeenCalled()
+    expect(res.status).toHaveBeenCalledWith(400)
+  })
+})
@@ -0,0 +1,93 @@
+/**
+ * @jest-environment node
+ */
+import type { NextApiRequest, NextApiResponse } from 'next'
+import handler from '../../pages/api/auth/mfa/verify'
+import { verifyMfaPendingToken, rateLimitMiddleware, createSessionToken } from '../../lib/auth'
+import { verifyMfaCode } from '../../lib/mfa'
+import {
+  checkLoginThrottle,
+  recordFailedLogin,
+  recordFailedLoginHistory,
+  clearFailedLogins,
+  recordSuccessfulLogin,
+} from '../../lib/loginSecurity'
+
+const users = { findOne: jest.fn() }
+
+jest.mock('../../lib/mongodb', () => ({
+  Collections: { USERS: 'users' },
+  getCollection: jest.fn(async () => users),
+  withRetry: (fn: () => unknown) => fn(),
+  serializeDoc: (doc: unknown) => doc,
+}))
+jest.mock('../../lib/auth', () => ({
+  verifyMfaPendingToken: jest.fn(),
+  rateLimitMiddleware: jest.fn(),
+  createSessionToken: jest.fn(),
+}))
+jest.mock('../../lib/mfa', () => ({ verifyMfaCode: jest.fn() }))
+jest.mock('../../lib/loginSecurity', () => ({
+  checkLoginThrottle: jest.fn(),
+  recordFailedLogin: jest.fn(),
+  recordFailedLoginHistory: jest.fn(),
+  clearFailedLogins: jest.fn(),
+  recordSuccessfulLogin: jest.fn(),
+}))
+jest.mock('../../lib/accountStatus', () => ({ reactivateAccount: jest.fn() }))
+
+function mockResponse() {
+  const res: any = {}
+  res.status = jest.fn(() => res)
+  res.json = jest.fn(() => res)
+  res.setHeader = jest.fn()
+  return res as NextApiResponse & { status: jest.Mock; json: jest.Mock }
+}
+
+const verify = (code: string) =>
+  ({ method: 'POST', body: { mfa_token: 'pending', code }, headers: {} }) as unknown as NextApiRequest
+
+describe('POST /api/auth/mfa/verify', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(verifyMfaPendingToken as jest.Mock).mockReturnValue(7)
+    ;(rateLimitMiddleware as jest.Mock).mockResolvedValue({ allowed: true, remaining: 4, resetTime: Date.now() })
+    ;(checkLoginThrottle as jest.Mock).mockResolvedValue({ allowed: true, locked: false, retryAfterMs: 0 })
+    users.findOne.mockResolvedValue({ id: 7, college_id: 'CS2021', password_hash: 'hash' })
+  })
+
+  it('counts a wrong code against the account throttle', async () => {
+    ;(verifyMfaCode as jest.Mock).mockResolvedValue(null)
+    const res = mockResponse()
+
+    await handler(verify('000000'), res)
+
+    expect(res.status).toHaveBeenCalledWith(401)
+    expect(recordFailedLogin).toHaveBeenCalledWith('CS2021')
+    expect(recordFailedLoginHistory).toHaveBeenCalledWith(expect.anything(), 7, 'bad_mfa_code')
+    expect(clearFailedLogins).not.toHaveBeenCalled()
+  })
+
+  it('refuses to check codes while the account is locked', async () => {
+    ;(checkLoginThrottle as jest.Mock).mockResolvedValue({ allowed: false, locked: true, retryAfterMs: 60000 })
+    const res = mockResponse()
+
+    await handler(verify('123456'), res)
+
+    expect(res.status).toHaveBeenCalledWith(429)
+    expect(verifyMfaCode).not.toHaveBeenCalled()
+    expect(recordFailedLoginHistory).toHaveBeenCalledWith(expect.anything(), 7, 'locked')
+  })
+
+  it('clears the failures once the code is right', async () => {
+    ;(verifyMfaCode as jest.Mock).mockResolvedValue('totp')
+    ;(createSessionToken as jest.Mock).mockResolvedValue('session-token')
+    const res = mockResponse()
+
+    await handler(verify('123456'), res)
+
+    expect(res.status).toHaveBeenCalledWith(200)
+    expect(clearFailedLogins).toHaveBeenCalledWith('CS2021')
+    expect(recordSuccessfulLogin).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,127 @@
+/**
+ * @jest-environment node
+ */
+import type { NextApiRequest, NextApiResponse } from 'next'
+import handler from '../../pages/api/posts/[postId]'
+import { getUserFromRequest } from '../../lib/auth'
+import { parseForm } from '../../lib/upload'
+import { notifyUser } from '../../lib/notifications'
+
+const people = [
+  { id: 7, name: 'Ada', username: 'ada' },
+  { id: 11, name: 'Grace', username: 'grace' },
+  { id: 12, name: 'Linus', username: 'linus' },
+  { id: 13, name: 'Barbara', username: 'barbara' },
+]
+
+const posts = { findOne: jest.fn(), updateOne: jest.fn() }
+const users = {
+  findOne: jest.fn(async ({ id }: { id: number }) => people.find(user => user.id === id) || null),
+  find: jest.fn(({ username, id }: { username: { $in: string[] }; id: { $ne: number } }) => {
+    const found = people.filter(user => username.$in.includes(user.username) && user.id !== id.$ne)
+    return { project: () => ({ toArray: async () => found }) }
+  }),
+}
+const blocks = { find: jest.fn(() => ({ toArray: async () => [] })) }
+const counts = { countDocuments: jest.fn(async () => 0) }
+
+jest.mock('../../lib/mongodb', () => ({
+  Collections: { POSTS: 'posts', USERS: 'users', BLOCKS: 'blocks', AURAS: 'auras', COMMENTS: 'comments' },
+  getCollection: jest.fn(async (name: string) => ({ posts, users, blocks } as any)[name] || counts),
+  withRetry: (fn: () => unknown) => fn(),
+  serializeDoc: (doc: unknown) => doc,
+}))
+jest.mock('../../lib/auth', () => ({ getUserFromRequest: jest.fn() }))
+jest.mock('../../lib/upload', () => ({
+  parseForm: jest.fn(),
+  uploadToCloudinary: jest.fn(),
+  getFileType: jest.fn(() => 'image'),
+}))
+jest.mock('../../lib/permissions', () => ({ getRoleForUser: jest.fn(), userHasPermission: jest.fn() }))
+jest.mock('../../lib/placeCatalog', () => ({ getPlace: jest.fn(), getTaggablePlace: jest.fn(), toPlaceSummary: jest.fn() }))
+jest.mock('../../lib/postTagging', () => ({
+  deletePostTags: jest.fn(),
+  findUntaggableUsers: jest.fn(async () => []),
+  getPostTags: jest.fn(async () => new Map()),
+  notifyTaggedUsers: jest.fn(),
+  replacePostTags: jest.fn(async () => []),
+}))
+jest.mock('../../lib/savedPostStorage', () => ({ deleteSavesOfPost: jest.fn() }))
+jest.mock('../../lib/hashtagIndex', () => ({ recordHashtagChanges: jest.fn() }))
+jest.mock('../../lib/postRevisions', () => ({ deletePostRevisions: jest.fn(), recordPostRevision: jest.fn() }))
+jest.mock('../../lib/eventAttendance', () => ({ applyEventChange: jest.fn(), deleteEventRsvps: jest.fn() }))
+jest.mock('../../lib/internshipTracking', () => ({ deleteInternshipTracking: jest.fn() }))
+jest.mock('../../lib/closeFriends', () => ({ filterAudienceMembers: jest.fn(async (_post: unknown, ids: number[]) => ids) }))
+jest.mock('../../lib/pollVotes', () => ({ countPollVoters: jest.fn(), deletePollVotes: jest.fn() }))
+jest.mock('../../lib/postViews', () => ({ buildPostViews: jest.fn(), findPostsInOrder: jest.fn() }))
+jest.mock('../../lib/repostStorage', () => ({
+  deleteRepostsOf: jest.fn(),
+  resolveReposts: jest.fn(async (items: unknown[]) => items),
+}))
+jest.mock('../../lib/notifications', () => ({ notifyUser: jest.fn() }))
+
+function mockResponse() {
+  const res: any = {}
+  res.status = jest.fn(() => res)
+  res.json = jest.fn(() => res)
+  res.setHeader = jest.fn(() => res)
+  return res as NextApiResponse & { status: jest.Mock; json: jest.Mock }
+}
+
+const edit = (fields: Record<string, string>) => {
+  ;(parseForm as jest.Mock).mockResolvedValue({ fields, files: {} })
+  return { method: 'PUT', query: { postId: '5' }, headers: {} } as unknown as NextApiRequest
+}
+
+const post = {
+  id: 5,
+  user_id: 7,
+  caption: 'Study group with @grace and @linus',
+  category: 'GENERAL',
+  media: [{ url: 'https://example.com/a.jpg', type: 'IMAGE' }],
+  media_url: 'https://example.com/a.jpg',
+  media_type: 'IMAGE',
+  hashtags: [],
+  mentions: [11, 12],
+  created_at: new Date('2026-01-01T00:00:00Z'),
+}
+
+describe('PUT /api/posts/[postId] mentions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(getUserFromRequest as jest.Mock).mockResolvedValue({ userId: 7 })
+    posts.findOne.mockResolvedValue(post)
+    posts.updateOne.mockResolvedValue({ matchedCount: 1 })
+  })
+
+  it('replaces the old mentions with the new ones and only notifies the added', async () => {
+    const res = mockResponse()
+
+    await handler(edit({ caption: 'Study group with @grace and @barbara' }), res)
+
+    expect(res.status).toHaveBeenCalledWith(200)
+    expect(posts.updateOne.mock.calls[0][1].$set.mentions).toEqual([11, 13])
+    expect(notifyUser).toHaveBeenCalledTimes(1)
+    expect(notifyUser).toHaveBeenCalledWith(13, expect.objectContaining({
+      type: 'mention',
+      meta: { kind: 'post_mention', postId: 5, actorId: 7 },
+    }))
+  })
+
+  it('clears the mentions when the caption no longer has any', async () => {
+    const res = mockResponse()
+
+    await handler(edit({ caption: 'Study group moved to Friday' }), res)
+
+    expect(posts.updateOne.mock.calls[0][1].$set.mentions).toEqual([])
+    expect(notifyUser).not.toHaveBeenCalled()
+  })
+
+  it("doesn't mention the author or unknown usernames", async () => {
+    const res = mockResponse()
+
+    await handler(edit({ caption: 'Ask @ada or @nobody, or mail ada@uni.edu' }), res)
+
+    expect(posts.updateOne.mock.calls[0][1].$set.mentions).toEqual([])
+  })
+})
@@ -0,0 +1,83 @@
+/**
+ * @jest-environment node
+ */
+import type { NextApiRequest, NextApiResponse } from 'next'
+import handler from '../../pages/api/users/[userId]/follow'
+import { getUserFromRequest } from '../../lib/auth'
+import { pruneHiddenSaves } from '../../lib/savedPostStorage'
+import { removeCloseFriend } from '../../lib/closeFriends'
+
+const followers = {
+  findOne: jest.fn(),
+  deleteOne: jest.fn(),
+  countDocuments: jest.fn(),
+}
+const followRequests = {
+  findOne: jest.fn(),
+  deleteOne: jest.fn(),
+}
+
+jest.mock('../../lib/mongodb', () => ({
+  Collections: { USERS: 'users', FOLLOWERS: 'followers', FOLLOW_REQUESTS: 'follow_requests' },
+  getCollection: jest.fn(async (name: string) => (name === 'follow_requests' ? followRequests : followers)),
+  withRetry: (fn: () => unknown) => fn(),
+  getNextSequenceValue: jest.fn(),
+}))
+jest.mock('../../lib/auth', () => ({ getUserFromRequest: jest.fn() }))
+jest.mock('../../lib/savedPostStorage', () => ({ pruneHiddenSaves: jest.fn() }))
+jest.mock('../../lib/closeFriends', () => ({ removeCloseFriend: jest.fn() }))
+
+function mockResponse() {
+  const res: any = {}
+  res.status = jest.fn(() => res)
+  res.json = jest.fn(() => res)
+  return res as NextApiResponse & { status: jest.Mock; json: jest.Mock }
+}
+
+const unfollow = (userId: string) =>
+  ({ method: 'DELETE', query: { userId }, headers: {} }) as unknown as NextApiRequest
+
+describe('DELETE /api/users/[userId]/follow', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(getUserFromRequest as jest.Mock).mockResolvedValue({ userId: 7 })
+    followRequests.findOne.mockResolvedValue(null)
+    followers.countDocuments.mockResolvedValue(0)
+  })
+
+  it('drops the saves the unfollower can no longer see', async () => {
+    followers.findOne.mockResolvedValue({ follower_id: 7, following_id: 3 })
+    followers.deleteOne.mockResolvedValue({ deletedCount: 1 })
+    const res = mockResponse()
+
+    await handler(unfollow('3'), res)
+
+    expect(followers.deleteOne).toHaveBeenCalledWith({ follower_id: 7, following_id: 3 })
+    expect(pruneHiddenSaves).toHaveBeenCalledWith(3, [7])
+    expect(removeCloseFriend).toHaveBeenCalledWith(3, 7)
+    expect(res.status).toHaveBeenCalledWith(200)
+    expect(res.json.mock.calls[0][0]).toMatchObject({ is_following: false })
+  })
+
+  it('leaves saves alone when there was no follow to remove', async () => {
+    followers.findOne.mockResolvedValue(null)
+    const res = mockResponse()
+
+    await handler(unfollow('3'), res)
+
+    expect(followers.deleteOne).not.toHaveBeenCalled()
+    expect(pruneHiddenSaves).not.toHaveBeenCalled()
+    expect(removeCloseFriend).not.toHaveBeenCalled()
+  })
+
+  it('only cancels a pending request', async () => {
+    followRequests.findOne.mockResolvedValue({ id: 11, requester_id: 7, target_id: 3 })
+    const res = mockResponse()
+
+    await handler(unfollow('3'), res)
+
+    expect(followRequests.deleteOne).toHaveBeenCalledWith({ id: 11 })
+    expect(pruneHiddenSaves).not.toHaveBeenCalled()
+    expect(res.json.mock.calls[0][0]).toMatchObject({ requested: false })
+  })
+})
@@ -1,4 +1,10 @@
-import { hashPassword, verifyPassword, generateToken, verifyToken } from '@/lib/auth'
+/**
+ * @jest-environment node
+ */
+import { hashPassword, verifyPassword, generateToken, verifyToken, verifySessionToken } from '@/lib/auth'
+import { getActiveSession } from '@/lib/sessions'
+
+jest.mock('@/lib/sessions', () => ({ getActiveSession: jest.fn() }))
 
 describe('Authentication Library', () => {
   describe('Password Hashing', () => {
@@ -52,6 +58,20 @@ describe('Authentication Library', () => {
       expect(decoded?.jti).toBeDefined()
     })
     
+    it('should keep the session jti when re-issuing a token', () => {
+      const token = generateToken(321, 'a'.repeat(32))
+      const decoded = verifyToken(token)
+      
+      expect(decoded?.jti).toBe('a'.repeat(32))
+    })
+    
+    it('should issue short-lived access tokens', () => {
+      const jwt = require('jsonwebtoken')
+      const decoded = jwt.decode(generateToken(654))
+      
+      expect(decoded.exp - decoded.iat).toBe(15 * 60)
+    })
+    
     it('should reject an invalid token', () => {
       const invalidToken = 'invalid.token.here'
       const decoded = verifyToken(invalidToken)
@@ -68,4 +88,26 @@ describe('Authentication Library', () => {
       expect(decoded).toBeNull()
     })
   })
+
+  describe('Session Tokens', () => {
+    it('should accept a token while its session is live', async () => {
+      ;(getActiveSession as jest.Mock).mockResolvedValue({ user_id: 42 })
+      const token = generateToken(42, 'b'.repeat(32))
+
+      expect((await verifySessionToken(token))?.userId).toBe(42)
+      expect(getActiveSession).toHaveBeenCalledWith('b'.repeat(32))
+    })
+
+    it('should reject a token once its session is revoked', async () => {
+      ;(getActiveSession as jest.Mock).mockResolvedValue(null)
+
+      expect(await verifySessionToken(generateToken(42))).toBeNull()
+    })
+
+    it('should reject a session that belongs to someone else', async () => {
+      ;(getActiveSession as jest.Mock).mockResolvedValue({ user_id: 7 })
+
+      expect(await verifySessionToken(generateToken(42))).toBeNull()
+    })
+  })
 })
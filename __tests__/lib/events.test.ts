@@ -0,0 +1,167 @@
+import {
+  buildICalendar,
+  eventEndsAt,
+  eventTitle,
+  hasEventEnded,
+  isEventCategory,
+  isRegistrationOpen,
+  isRsvpChoice,
+  validateEventInput,
+  DEFAULT_EVENT_DURATION_MINUTES,
+  MAX_EVENT_CAPACITY,
+  MAX_EVENT_DURATION_DAYS,
+  MAX_VENUE_LENGTH,
+} from '../../lib/events'
+
+const NOW = new Date('2026-03-02T10:00:00Z')
+const hours = (n: number) => new Date(NOW.getTime() + n * 60 * 60 * 1000)
+
+describe('isEventCategory', () => {
+  it('accepts both event categories', () => {
+    expect(isEventCategory('EVENT')).toBe(true)
+    expect(isEventCategory('EVENTS')).toBe(true)
+    expect(isEventCategory('CLUBS')).toBe(false)
+    expect(isEventCategory(undefined)).toBe(false)
+  })
+})
+
+describe('isRsvpChoice', () => {
+  it('only accepts answers people can pick', () => {
+    expect(isRsvpChoice('going')).toBe(true)
+    expect(isRsvpChoice('not_going')).toBe(true)
+    expect(isRsvpChoice('waitlisted')).toBe(false)
+    expect(isRsvpChoice(1)).toBe(false)
+  })
+})
+
+describe('validateEventInput', () => {
+  const base = { starts_at: hours(24).toISOString(), venue: 'Main Auditorium' }
+
+  it('accepts the minimum and parses JSON text', () => {
+    expect(validateEventInput(base, NOW)).toEqual({ valid: true, value: { starts_at: hours(24), venue: 'Main Auditorium' } })
+    expect(validateEventInput(JSON.stringify(base), NOW).valid).toBe(true)
+  })
+
+  it('keeps the optional details', () => {
+    const result = validateEventInput({
+      ...base,
+      ends_at: hours(26).toISOString(),
+      capacity: '40',
+      registration_deadline: hours(20).toISOString(),
+      organizer_club: '  Robotics   Club ',
+    }, NOW)
+    expect(result.value).toEqual({
+      starts_at: hours(24),
+      ends_at: hours(26),
+      venue: 'Main Auditorium',
+      capacity: 40,
+      registration_deadline: hours(20),
+      organizer_club: 'Robotics Club',
+    })
+  })
+
+  it('treats blank optional fields as unset', () => {
+    const result = validateEventInput({ ...base, ends_at: '', capacity: null, organizer_club: '' }, NOW)
+    expect(result.value).toEqual({ starts_at: hours(24), venue: 'Main Auditorium' })
+  })
+
+  it('needs a future start time and a venue', () => {
+    expect(validateEventInput({ venue: 'Hall' }, NOW).valid).toBe(false)
+    expect(validateEventInput({ ...base, starts_at: hours(-1).toISOString() }, NOW)).toEqual({ valid: false, message: 'Events must start in the future' })
+    expect(validateEventInput({ ...base, venue: '   ' }, NOW)).toEqual({ valid: false, message: 'Events need a venue' })
+    expect(validateEventInput({ ...base, venue: 'x'.repeat(MAX_VENUE_LENGTH + 1) }, NOW).valid).toBe(false)
+  })
+
+  it('lets an edit keep a start time that has passed', () => {
+    const started = { ...base, starts_at: hours(-1).toISOString() }
+    expect(validateEventInput(started, NOW, { starts_at: hours(-1) }).valid).toBe(true)
+    expect(validateEventInput(started, NOW, { starts_at: hours(-2) }).valid).toBe(false)
+  })
+
+  it('checks the end time', () => {
+    expect(validateEventInput({ ...base, ends_at: hours(24).toISOString() }, NOW).valid).toBe(false)
+    expect(validateEventInput({ ...base, ends_at: hours(24 + MAX_EVENT_DURATION_DAYS * 24 + 1).toISOString() }, NOW).valid).toBe(false)
+  })
+
+  it('checks capacity and the registration deadline', () => {
+    expect(validateEventInput({ ...base, capacity: 0 }, NOW).valid).toBe(false)
+    expect(validateEventInput({ ...base, capacity: 2.5 }, NOW).valid).toBe(false)
+    expect(validateEventInput({ ...base, capacity: MAX_EVENT_CAPACITY + 1 }, NOW).valid).toBe(false)
+    expect(validateEventInput({ ...base, registration_deadline: hours(25).toISOString() }, NOW)).toEqual({
+      valid: false,
+      message: 'Registration must close before the event starts',
+    })
+  })
+
+  it('rejects anything that is not an object', () => {
+    expect(validateEventInput('not json', NOW)).toEqual({ valid: false, message: 'Invalid event details' })
+    expect(validateEventInput([base], NOW).valid).toBe(false)
+    expect(validateEventInput(null, NOW).valid).toBe(false)
+  })
+})
+
+describe('event timing', () => {
+  it('falls back to the default duration without an end time', () => {
+    expect(eventEndsAt({ starts_at: hours(1) })).toEqual(new Date(hours(1).getTime() + DEFAULT_EVENT_DURATION_MINUTES * 60 * 1000))
+    expect(eventEndsAt({ starts_at: hours(1), ends_at: hours(3) })).toEqual(hours(3))
+    expect(hasEventEnded({ starts_at: hours(-3), ends_at: hours(-1) }, NOW)).toBe(true)
+    expect(hasEventEnded({ starts_at: hours(-3), ends_at: hours(1) }, NOW)).toBe(false)
+  })
+
+  it('closes registration at the deadline, or the start without one', () => {
+    expect(isRegistrationOpen({ starts_at: hours(2) }, NOW)).toBe(true)
+    expect(isRegistrationOpen({ starts_at: hours(-1) }, NOW)).toBe(false)
+    expect(isRegistrationOpen({ starts_at: hours(2), registration_deadline: hours(-1) }, NOW)).toBe(false)
+  })
+})
+
+describe('eventTitle', () => {
+  it('uses the first line of the caption', () => {
+    expect(eventTitle('\n  Hackathon kickoff  \nBring laptops')).toBe('Hackathon kickoff')
+    expect(eventTitle('')).toBe('Event')
+    expect(eventTitle('x'.repeat(100))).toHaveLength(80)
+  })
+})
+
+describe('buildICalendar', () => {
+  const entry = {
+    uid: 'event-7@uni.example',
+    title: 'Talk; Q&A, part 1',
+    starts_at: new Date('2026-03-05T14:00:00Z'),
+    ends_at: new Date('2026-03-05T15:30:00Z'),
+    location: 'Hall A',
+    description: 'Line one\nLine two',
+    url: 'https://uni.example/post/7',
+    status: 'CONFIRMED' as const,
+  }
+
+  it('writes one VEVENT per entry with CRLF line endings', () => {
+    const ics = buildICalendar([entry], { name: 'My events', now: NOW })
+    const lines = ics.split('\r\n')
+    expect(lines[0]).toBe('BEGIN:VCALENDAR')
+    expect(lines).toContain('X-WR-CALNAME:My events')
+    expect(lines).toContain('DTSTAMP:20260302T100000Z')
+    expect(lines).toContain('DTSTART:20260305T140000Z')
+    expect(lines).toContain('DTEND:20260305T153000Z')
+    expect(lines).toContain('STATUS:CONFIRMED')
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true)
+  })
+
+  it('escapes text values', () => {
+    const lines = buildICalendar([entry], { now: NOW }).split('\r\n')
+    expect(lines).toContain('SUMMARY:Talk\\; Q&A\\, part 1')
+    expect(lines).toContain('DESCRIPTION:Line one\\nLine two')
+  })
+
+  it('folds long lines at 75 octets', () => {
+    const ics = buildICalendar([{ ...entry, description: 'é'.repeat(100) }], { now: NOW })
+    const folded = ics.split('\r\n').filter(line => line.startsWith('DESCRIPTION:') || line.startsWith(' é'))
+    expect(folded.length).toBeGreaterThan(1)
+    folded.forEach(line => expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75))
+    expect(ics.replace(/\r\n /g, '')).toContain(`DESCRIPTION:${'é'.repeat(100)}`)
+  })
+
+  it('writes an empty calendar without entries', () => {
+    expect(buildICalendar([], { now: NOW }).split('\r\n').filter(line => line.startsWith('BEGIN:VEVENT'))).toHaveLength(0)
+  })
+})
@@ -0,0 +1,118 @@
+import {
+  auraVelocityScore,
+  categoryShares,
+  parseFeedMode,
+  parseRankingWeights,
+  rankCandidates,
+  recencyScore,
+  scorePost,
+  RankingSignals,
+  DEFAULT_RANKING_WEIGHTS,
+  RECENCY_HALF_LIFE_HOURS,
+  AURA_VELOCITY_MIDPOINT,
+} from '../../lib/feedRanking'
+
+const signals = (overrides: Partial<RankingSignals> = {}): RankingSignals => ({
+  edge_weight: 0,
+  age_hours: 0,
+  aura_velocity: 0,
+  category_share: 0,
+  same_department: false,
+  ...overrides,
+})
+
+describe('parseFeedMode', () => {
+  it('defaults to chronological', () => {
+    expect(parseFeedMode('for_you')).toBe('for_you')
+    expect(parseFeedMode('chronological')).toBe('chronological')
+    expect(parseFeedMode(undefined)).toBe('chronological')
+    expect(parseFeedMode(['for_you'])).toBe('chronological')
+  })
+})
+
+describe('parseRankingWeights', () => {
+  it('uses the defaults when unset', () => {
+    expect(parseRankingWeights(undefined)).toEqual(DEFAULT_RANKING_WEIGHTS)
+    expect(parseRankingWeights('  ')).toEqual(DEFAULT_RANKING_WEIGHTS)
+  })
+
+  it('overrides only valid entries', () => {
+    expect(parseRankingWeights('{"edge": 5, "recency": -1, "same_department": "2", "other": 9}')).toEqual({
+      ...DEFAULT_RANKING_WEIGHTS,
+      edge: 5,
+    })
+  })
+
+  it('ignores malformed JSON', () => {
+    const spy = jest.spyOn(console, 'error').mockImplementation(() => {})
+    expect(parseRankingWeights('{edge: 5')).toEqual(DEFAULT_RANKING_WEIGHTS)
+    expect(parseRankingWeights('[1, 2]')).toEqual(DEFAULT_RANKING_WEIGHTS)
+    spy.mockRestore()
+  })
+})
+
+describe('categoryShares', () => {
+  it('is the fraction of history in each category', () => {
+    const shares = categoryShares(['EVENTS', 'EVENTS', 'GENERAL', 'EVENTS'])
+    expect(shares.get('EVENTS')).toBe(0.75)
+    expect(shares.get('GENERAL')).toBe(0.25)
+    expect(categoryShares([]).size).toBe(0)
+  })
+})
+
+describe('signal scales', () => {
+  it('halves recency every half-life', () => {
+    expect(recencyScore(0)).toBe(1)
+    expect(recencyScore(RECENCY_HALF_LIFE_HOURS)).toBeCloseTo(0.5)
+    expect(recencyScore(2 * RECENCY_HALF_LIFE_HOURS)).toBeCloseTo(0.25)
+    expect(recencyScore(-3)).toBe(1)
+  })
+
+  it('saturates aura velocity', () => {
+    expect(auraVelocityScore(0)).toBe(0)
+    expect(auraVelocityScore(AURA_VELOCITY_MIDPOINT)).toBe(0.5)
+    expect(auraVelocityScore(1000)).toBeLessThan(1)
+  })
+})
+
+describe('scorePost', () => {
+  it('adds up the weighted signals and explains each one', () => {
+    const weights = { edge: 2, recency: 1, aura_velocity: 1, category_affinity: 4, same_department: 0.5 }
+    const result = scorePost(signals({ edge_weight: 0.5, category_share: 0.25, same_department: true }), weights)
+    expect(result.components).toEqual({
+      edge: 1,
+      recency: 1,
+      aura_velocity: 0,
+      category_affinity: 1,
+      same_department: 0.5,
+    })
+    expect(result.score).toBe(3.5)
+  })
+
+  it('clamps out-of-range signals', () => {
+    const result = scorePost(signals({ edge_weight: 3, category_share: -1 }), DEFAULT_RANKING_WEIGHTS)
+    expect(result.components.edge).toBe(DEFAULT_RANKING_WEIGHTS.edge)
+    expect(result.components.category_affinity).toBe(0)
+  })
+})
+
+describe('rankCandidates', () => {
+  it('puts authors the viewer interacts with and fresh posts first', () => {
+    const ranked = rankCandidates([
+      { item: 'old stranger', signals: signals({ age_hours: 48 }) },
+      { item: 'frequent contact', signals: signals({ age_hours: 24, edge_weight: 0.9 }) },
+      { item: 'fresh stranger', signals: signals({ age_hours: 1 }) },
+      { item: 'fresher stranger', signals: signals({ age_hours: 1, same_department: true }) },
+    ], DEFAULT_RANKING_WEIGHTS)
+    expect(ranked.map(({ item }) => item)).toEqual(['frequent contact', 'fresher stranger', 'fresh stranger', 'old stranger'])
+  })
+
+  it('breaks equal scores by age', () => {
+    const zero = { ...DEFAULT_RANKING_WEIGHTS, recency: 0 }
+    const ranked = rankCandidates([
+      { item: 'older', signals: signals({ age_hours: 5 }) },
+      { item: 'newer', signals: signals({ age_hours: 2 }) },
+    ], zero)
+    expect(ranked.map(({ item }) => item)).toEqual(['newer', 'older'])
+  })
+})
@@ -0,0 +1,60 @@
+import {
+  extractHashtags,
+  normalizeHashtag,
+  splitHashtags,
+  MAX_HASHTAG_LENGTH,
+  MAX_HASHTAGS_PER_POST,
+} from '../../lib/hashtags'
+
+describe('normalizeHashtag', () => {
+  it('drops the # and lowercases', () => {
+    expect(normalizeHashtag('#TechFest')).toBe('techfest')
+    expect(normalizeHashtag('  exam_week ')).toBe('exam_week')
+  })
+
+  it('rejects empty, digit-only, symbol and overlong tags', () => {
+    expect(normalizeHashtag('#')).toBeNull()
+    expect(normalizeHashtag('#2024')).toBeNull()
+    expect(normalizeHashtag('tech-fest')).toBeNull()
+    expect(normalizeHashtag('x'.repeat(MAX_HASHTAG_LENGTH + 1))).toBeNull()
+    expect(normalizeHashtag(42)).toBeNull()
+  })
+
+  it('keeps letters from any script', () => {
+    expect(normalizeHashtag('#दिवाली')).toBe('दिवाली')
+  })
+})
+
+describe('extractHashtags', () => {
+  it('finds distinct tags in order of first use', () => {
+    expect(extractHashtags('Day one of #TechFest! #hackathon #techfest')).toEqual(['techfest', 'hackathon'])
+  })
+
+  it('ignores # in the middle of words and URLs', () => {
+    expect(extractHashtags('C# notes at https://uni.example/page#intro and a#b')).toEqual([])
+  })
+
+  it('caps the number of tags per post', () => {
+    const caption = Array.from({ length: MAX_HASHTAGS_PER_POST + 5 }, (_, i) => `#tag${i}`).join(' ')
+    expect(extractHashtags(caption)).toHaveLength(MAX_HASHTAGS_PER_POST)
+  })
+
+  it('handles empty captions', () => {
+    expect(extractHashtags('')).toEqual([])
+    expect(extractHashtags(undefined)).toEqual([])
+  })
+})
+
+describe('splitHashtags', () => {
+  it('splits a caption into text and linkable tags', () => {
+    expect(splitHashtags('Go #Team, go!')).toEqual([
+      { text: 'Go ' },
+      { text: '#Team', tag: 'team' },
+      { text: ', go!' },
+    ])
+  })
+
+  it('leaves unusable tags as plain text', () => {
+    expect(splitHashtags('Room #101')).toEqual([{ text: 'Room #101' }])
+  })
+})
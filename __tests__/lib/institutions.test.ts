@@ -0,0 +1,71 @@
+import {
+  parseInstitutions,
+  getEmailDomain,
+  findInstitutionForEmail,
+  isRegistrationOpen,
+  isValidCollegeId
+} from '@/lib/institutions'
+
+describe('Institutions Library', () => {
+  const institutions = parseInstitutions(JSON.stringify([
+    { id: 'state', name: 'State University', email_domains: ['@State.edu'], college_id_pattern: '^[0-9]{8}$' },
+    { id: 'tech', name: 'Tech Institute', email_domains: ['tech.ac.in'] }
+  ]))
+
+  describe('parseInstitutions', () => {
+    it('should normalize configured domains', () => {
+      expect(institutions).toHaveLength(2)
+      expect(institutions[0].email_domains).toEqual(['state.edu'])
+    })
+
+    it('should return an empty list for missing or invalid config', () => {
+      expect(parseInstitutions(undefined)).toEqual([])
+      expect(parseInstitutions('not json')).toEqual([])
+      expect(parseInstitutions('{"id":"x"}')).toEqual([])
+      expect(parseInstitutions('[{"name":"No ID"}]')).toEqual([])
+    })
+  })
+
+  describe('getEmailDomain', () => {
+    it('should extract the lowercased domain', () => {
+      expect(getEmailDomain('Student@State.EDU')).toBe('state.edu')
+      expect(getEmailDomain('no-at-sign')).toBe('')
+    })
+  })
+
+  describe('findInstitutionForEmail', () => {
+    it('should match exact domains and subdomains', () => {
+      expect(findInstitutionForEmail('a@state.edu', institutions)?.id).toBe('state')
+      expect(findInstitutionForEmail('a@students.state.edu', institutions)?.id).toBe('state')
+      expect(findInstitutionForEmail('a@tech.ac.in', institutions)?.id).toBe('tech')
+    })
+
+    it('should reject look-alike domains', () => {
+      expect(findInstitutionForEmail('a@gmail.com', institutions)).toBeNull()
+      expect(findInstitutionForEmail('a@notstate.edu', institutions)).toBeNull()
+      expect(findInstitutionForEmail('a@state.edu.evil.com', institutions)).toBeNull()
+    })
+  })
+
+  describe('isRegistrationOpen', () => {
+    it('should stay open with an allowlist', () => {
+      expect(isRegistrationOpen(institutions, 'production')).toBe(true)
+    })
+
+    it('should only accept any domain outside production', () => {
+      expect(isRegistrationOpen([], 'development')).toBe(true)
+      expect(isRegistrationOpen([], 'production')).toBe(false)
+    })
+  })
+
+  describe('isValidCollegeId', () => {
+    it('should enforce the institution pattern when configured', () => {
+      expect(isValidCollegeId('12345678', institutions[0])).toBe(true)
+      expect(isValidCollegeId('ABC123', institutions[0])).toBe(false)
+    })
+
+    it('should accept any ID when no pattern is configured', () => {
+      expect(isValidCollegeId('anything', institutions[1])).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,143 @@
+import {
+  eligibilityFilter,
+  formatEligibleYears,
+  isEligible,
+  isInternshipCategory,
+  isListingOpen,
+  isTrackingStatus,
+  openListingFilter,
+  validateInternshipInput,
+  MAX_COMPANY_LENGTH,
+  MAX_ELIGIBLE_DEPARTMENTS,
+  STUDY_YEARS,
+} from '../../lib/internships'
+
+const NOW = new Date('2026-03-02T10:00:00Z')
+const days = (n: number) => new Date(NOW.getTime() + n * 24 * 60 * 60 * 1000)
+
+describe('isInternshipCategory', () => {
+  it('only accepts the internship category', () => {
+    expect(isInternshipCategory('INTERNSHIP')).toBe(true)
+    expect(isInternshipCategory('WORKSHOP')).toBe(false)
+    expect(isInternshipCategory(undefined)).toBe(false)
+  })
+})
+
+describe('isTrackingStatus', () => {
+  it('accepts interested and applied', () => {
+    expect(isTrackingStatus('interested')).toBe(true)
+    expect(isTrackingStatus('applied')).toBe(true)
+    expect(isTrackingStatus('going')).toBe(false)
+    expect(isTrackingStatus(null)).toBe(false)
+  })
+})
+
+describe('validateInternshipInput', () => {
+  const base = {
+    company: 'Acme',
+    role: 'Frontend Intern',
+    apply_url: 'https://acme.example/jobs/1',
+    deadline: days(7).toISOString(),
+  }
+
+  it('accepts the minimum and parses JSON text', () => {
+    expect(validateInternshipInput(base, NOW)).toEqual({
+      valid: true,
+      value: { company: 'Acme', role: 'Frontend Intern', apply_url: 'https://acme.example/jobs/1', deadline: days(7) },
+    })
+    expect(validateInternshipInput(JSON.stringify(base), NOW).valid).toBe(true)
+  })
+
+  it('keeps the optional details, cleaned up', () => {
+    const result = validateInternshipInput({
+      ...base,
+      stipend: ' ₹15,000  / month ',
+      departments: ['Computer Science', ' computer science ', '', 'Design'],
+      years: [3, '2', 3],
+    }, NOW)
+    expect(result.value).toEqual({
+      ...base,
+      deadline: days(7),
+      stipend: '₹15,000 / month',
+      departments: ['Computer Science', 'Design'],
+      years: [2, 3],
+    })
+  })
+
+  it('treats empty or all-inclusive eligibility as no limit', () => {
+    const result = validateInternshipInput({ ...base, stipend: '', departments: [], years: STUDY_YEARS }, NOW)
+    expect(result.value).toEqual({ ...base, deadline: days(7) })
+  })
+
+  it('needs a company, role, http(s) apply link and future deadline', () => {
+    expect(validateInternshipInput({ ...base, company: ' ' }, NOW)).toEqual({ valid: false, message: 'Internships need a company' })
+    expect(validateInternshipInput({ ...base, role: '' }, NOW)).toEqual({ valid: false, message: 'Internships need a role' })
+    expect(validateInternshipInput({ ...base, company: 'x'.repeat(MAX_COMPANY_LENGTH + 1) }, NOW).valid).toBe(false)
+    expect(validateInternshipInput({ ...base, apply_url: 'javascript:alert(1)' }, NOW).valid).toBe(false)
+    expect(validateInternshipInput({ ...base, apply_url: 'acme.example' }, NOW).valid).toBe(false)
+    expect(validateInternshipInput({ ...base, deadline: days(-1).toISOString() }, NOW)).toEqual({
+      valid: false,
+      message: 'The deadline must be in the future',
+    })
+    expect(validateInternshipInput({ ...base, deadline: 'soon' }, NOW).valid).toBe(false)
+  })
+
+  it('lets an edit keep a deadline that has passed', () => {
+    const expired = { ...base, deadline: days(-1).toISOString() }
+    expect(validateInternshipInput(expired, NOW, { deadline: days(-1) }).valid).toBe(true)
+    expect(validateInternshipInput(expired, NOW, { deadline: days(-2) }).valid).toBe(false)
+  })
+
+  it('checks eligibility lists', () => {
+    expect(validateInternshipInput({ ...base, departments: 'CS' }, NOW).valid).toBe(false)
+    expect(validateInternshipInput({ ...base, departments: Array.from({ length: MAX_ELIGIBLE_DEPARTMENTS + 1 }, (_, i) => `Dept ${i}`) }, NOW).valid).toBe(false)
+    expect(validateInternshipInput({ ...base, years: [0] }, NOW)).toEqual({ valid: false, message: 'Invalid years' })
+    expect(validateInternshipInput({ ...base, years: [2.5] }, NOW).valid).toBe(false)
+  })
+
+  it('rejects anything that is not an object', () => {
+    expect(validateInternshipInput('not json', NOW)).toEqual({ valid: false, message: 'Invalid internship details' })
+    expect(validateInternshipInput([base], NOW).valid).toBe(false)
+  })
+})
+
+describe('isListingOpen', () => {
+  it('closes at the deadline', () => {
+    expect(isListingOpen({ deadline: days(1) }, NOW)).toBe(true)
+    expect(isListingOpen({ deadline: NOW.toISOString() }, NOW)).toBe(false)
+  })
+})
+
+describe('isEligible', () => {
+  it('matches departments case-insensitively and years exactly', () => {
+    const listing = { departments: ['Computer Science'], years: [3, 4] }
+    expect(isEligible(listing, { department: 'computer science', year: 3 })).toBe(true)
+    expect(isEligible(listing, { department: 'Design', year: 3 })).toBe(false)
+    expect(isEligible(listing, { department: 'Computer Science', year: 1 })).toBe(false)
+    expect(isEligible({}, { department: 'Design', year: 1 })).toBe(true)
+  })
+})
+
+describe('feed filters', () => {
+  it('leaves out listings whose deadline has passed', () => {
+    expect(openListingFilter(NOW)).toEqual({ 'internship.deadline': { $not: { $lte: NOW } } })
+  })
+
+  it('matches listings open to a department and year, including unrestricted ones', () => {
+    const filter = eligibilityFilter({ department: ' C++ Dev ', year: 2 }) as any
+    expect(filter.internship).toEqual({ $exists: true })
+    const [pattern, unrestricted] = filter['internship.departments'].$in
+    expect(pattern.test('c++ dev')).toBe(true)
+    expect(pattern.test('C++ Developers')).toBe(false)
+    expect(unrestricted).toBeNull()
+    expect(filter['internship.years']).toEqual({ $in: [2, null] })
+    expect(eligibilityFilter({})).toEqual({ internship: { $exists: true } })
+  })
+})
+
+describe('formatEligibleYears', () => {
+  it('lists the years or says all', () => {
+    expect(formatEligibleYears([2, 6])).toBe('2nd Year, Graduate')
+    expect(formatEligibleYears(null)).toBe('All years')
+  })
+})
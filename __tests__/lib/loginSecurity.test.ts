@@ -0,0 +1,28 @@
+/**
+ * @jest-environment node
+ */
+import { getLoginDelayMs, getThrottleKey } from '../../lib/loginSecurity'
+
+describe('getLoginDelayMs', () => {
+  it('allows the first few attempts without delay', () => {
+    expect(getLoginDelayMs(0)).toBe(0)
+    expect(getLoginDelayMs(2)).toBe(0)
+  })
+
+  it('doubles the delay after each further failure', () => {
+    expect(getLoginDelayMs(3)).toBe(1000)
+    expect(getLoginDelayMs(4)).toBe(2000)
+    expect(getLoginDelayMs(6)).toBe(8000)
+  })
+
+  it('caps the delay at 30 seconds', () => {
+    expect(getLoginDelayMs(9)).toBe(30000)
+    expect(getLoginDelayMs(50)).toBe(30000)
+  })
+})
+
+describe('getThrottleKey', () => {
+  it('normalizes case and whitespace so variants share a counter', () => {
+    expect(getThrottleKey('  CS2024-001 ')).toBe('cs2024-001')
+  })
+})
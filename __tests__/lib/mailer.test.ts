@@ -0,0 +1,121 @@
+/**
+ * @jest-environment node
+ */
+import {
+  renderEmail,
+  escapeHtml,
+  setMailTransport,
+  enqueueMail,
+  drainMailQueue,
+  getPendingMailCount,
+  MailMessage,
+} from '../../lib/mailer'
+import { getRetryDelayMs } from '../../lib/mailer/queue'
+import { resolveTransportName } from '../../lib/mailer/transports'
+
+describe('renderEmail', () => {
+  it('renders HTML and a plain-text fallback with the link in both', () => {
+    const email = renderEmail('password_reset', {
+      name: 'Asha',
+      resetUrl: 'https://unix.example/reset-password?token=abc',
+      expiresInMinutes: 60,
+    })
+
+    expect(email.subject).toContain('Password Reset')
+    expect(email.html).toContain('https://unix.example/reset-password?token=abc')
+    expect(email.text).toContain('https://unix.example/reset-password?token=abc')
+    expect(email.text).not.toContain('<')
+  })
+
+  it('escapes user-supplied values in HTML', () => {
+    const email = renderEmail('new_login', {
+      name: '<script>alert(1)</script>',
+      device: 'Chrome on Windows',
+      ip: '203.0.113.7',
+      time: new Date('2024-01-01T00:00:00Z'),
+      settingsUrl: 'https://unix.example/settings',
+    })
+
+    expect(email.html).not.toContain('<script>')
+    expect(email.html).toContain('&lt;script&gt;')
+  })
+
+  it('lists digest highlights and handles an empty week', () => {
+    const base = {
+      name: 'Asha',
+      periodLabel: 'this week',
+      newFollowers: 1,
+      unreadMessages: 3,
+      feedUrl: 'https://unix.example/',
+      settingsUrl: 'https://unix.example/settings',
+    }
+
+    const busy = renderEmail('weekly_digest', {
+      ...base,
+      highlights: [{ title: 'Hackathon results', url: 'https://unix.example/post/1', author: 'CS Club' }],
+    })
+    expect(busy.text).toContain('1 new follower and 3 unread messages')
+    expect(busy.text).toContain('- Hackathon results by CS Club: https://unix.example/post/1')
+
+    const quiet = renderEmail('weekly_digest', { ...base, highlights: [] })
+    expect(quiet.text).toContain('It was a quiet week on campus.')
+  })
+})
+
+describe('escapeHtml', () => {
+  it('escapes markup and quotes', () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;')
+  })
+})
+
+describe('resolveTransportName', () => {
+  it('accepts known transports', () => {
+    expect(resolveTransportName('file')).toBe('file')
+    expect(resolveTransportName('smtp')).toBe('smtp')
+  })
+
+  it('falls back to console outside production', () => {
+    expect(resolveTransportName(undefined)).toBe('console')
+  })
+})
+
+describe('mail queue', () => {
+  const message: MailMessage = { to: 'a@college.edu', subject: 'Hi', html: '<p>Hi</p>', text: 'Hi' }
+
+  afterEach(() => {
+    setMailTransport(null)
+    jest.restoreAllMocks()
+  })
+
+  it('backs off exponentially between retries', () => {
+    expect(getRetryDelayMs(1)).toBe(2000)
+    expect(getRetryDelayMs(2)).toBe(4000)
+    expect(getRetryDelayMs(20)).toBe(5 * 60 * 1000)
+  })
+
+  it('retries a failed send once it is due', async () => {
+    const sent: MailMessage[] = []
+    let failures = 1
+    setMailTransport({
+      name: 'test',
+      async send(queued) {
+        if (failures-- > 0) throw new Error('SMTP unavailable')
+        sent.push(queued)
+      },
+    })
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const start = Date.now()
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(start)
+
+    enqueueMail(message)
+    await drainMailQueue()
+    expect(sent).toHaveLength(0)
+    expect(getPendingMailCount()).toBe(1)
+
+    nowSpy.mockReturnValue(start + getRetryDelayMs(1))
+    await drainMailQueue()
+    expect(sent).toEqual([message])
+    expect(getPendingMailCount()).toBe(0)
+  })
+})
@@ -0,0 +1,35 @@
+import { extractMentions, newMentions, MAX_MENTIONS_PER_POST } from '../../lib/mentions'
+
+describe('extractMentions', () => {
+  it('finds distinct usernames in order of first mention, lowercased', () => {
+    expect(extractMentions('Thanks @Grace and @linus_t! cc @grace')).toEqual(['grace', 'linus_t'])
+  })
+
+  it('ignores email addresses and handles that are too short or too long', () => {
+    expect(extractMentions('mail ada@uni.edu')).toEqual([])
+    expect(extractMentions('hi @ab')).toEqual([])
+    expect(extractMentions(`@${'x'.repeat(31)}`)).toEqual([])
+  })
+
+  it('stops at punctuation', () => {
+    expect(extractMentions('(@grace), @linus.')).toEqual(['grace', 'linus'])
+  })
+
+  it('caps how many count', () => {
+    const caption = Array.from({ length: MAX_MENTIONS_PER_POST + 5 }, (_, i) => `@user${i}`).join(' ')
+    expect(extractMentions(caption)).toHaveLength(MAX_MENTIONS_PER_POST)
+  })
+
+  it('handles empty captions', () => {
+    expect(extractMentions(null)).toEqual([])
+    expect(extractMentions('')).toEqual([])
+  })
+})
+
+describe('newMentions', () => {
+  it('keeps only people not mentioned before', () => {
+    expect(newMentions([11, 12], [11, 13])).toEqual([13])
+    expect(newMentions([], [4])).toEqual([4])
+    expect(newMentions([4], [])).toEqual([])
+  })
+})
@@ -0,0 +1,39 @@
+import { isPlaceKind, placeNameKey, validatePlaceInput, MAX_PLACE_NAME_LENGTH } from '../../lib/places'
+
+describe('placeNameKey', () => {
+  it('ignores case and extra spacing', () => {
+    expect(placeNameKey('  Central   Library ')).toBe('central library')
+    expect(placeNameKey('CENTRAL LIBRARY')).toBe(placeNameKey('central library'))
+  })
+})
+
+describe('isPlaceKind', () => {
+  it('accepts only catalog kinds', () => {
+    expect(isPlaceKind('hostel')).toBe(true)
+    expect(isPlaceKind('sports_ground')).toBe(true)
+    expect(isPlaceKind('parking')).toBe(false)
+    expect(isPlaceKind(undefined)).toBe(false)
+  })
+})
+
+describe('validatePlaceInput', () => {
+  it('requires a name and kind when creating', () => {
+    expect(validatePlaceInput({ kind: 'canteen' }).valid).toBe(false)
+    expect(validatePlaceInput({ name: 'Main Canteen' }).valid).toBe(false)
+    expect(validatePlaceInput({ name: 'Main Canteen', kind: 'canteen' })).toEqual({
+      valid: true,
+      value: { name: 'Main Canteen', kind: 'canteen' },
+    })
+  })
+
+  it('normalises the name and rejects long ones', () => {
+    expect(validatePlaceInput({ name: '  Block   A ', kind: 'building' }).value?.name).toBe('Block A')
+    expect(validatePlaceInput({ name: 'x'.repeat(MAX_PLACE_NAME_LENGTH + 1), kind: 'building' }).valid).toBe(false)
+  })
+
+  it('only checks the fields given in a partial update', () => {
+    expect(validatePlaceInput({ description: '' }, true)).toEqual({ valid: true, value: { description: '' } })
+    expect(validatePlaceInput({ kind: 'parking' }, true).valid).toBe(false)
+    expect(validatePlaceInput({ name: ' ' }, true).valid).toBe(false)
+  })
+})
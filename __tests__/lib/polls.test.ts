@@ -0,0 +1,120 @@
+import {
+  foldBreakdown,
+  isPollOpen,
+  lockedPollChange,
+  optionPercent,
+  validatePollInput,
+  validateVoteInput,
+} from '../../lib/polls'
+
+const now = new Date('2026-03-01T12:00:00Z')
+
+const poll = (overrides = {}) => ({
+  options: [{ id: 1, text: 'Yes' }, { id: 2, text: 'No' }, { id: 3, text: 'Maybe' }],
+  multiple: false,
+  anonymous: false,
+  ...overrides,
+})
+
+const group = (name: string | null, voters: number, counts: Record<number, number> = { 1: voters }) => ({
+  group: name,
+  voters,
+  counts,
+})
+
+describe('validatePollInput', () => {
+  it('numbers the options and reads flags, from JSON text too', () => {
+    expect(validatePollInput('{"options":[" Yes ","No  way"],"multiple":"true","anonymous":true}', now)).toEqual({
+      valid: true,
+      value: { options: [{ id: 1, text: 'Yes' }, { id: 2, text: 'No way' }], multiple: true, anonymous: true },
+    })
+  })
+
+  it('checks the number, length and uniqueness of options', () => {
+    expect(validatePollInput({ options: ['Only'] }, now).message).toBe('Polls need 2 to 6 options')
+    expect(validatePollInput({ options: ['1', '2', '3', '4', '5', '6', '7'] }, now).valid).toBe(false)
+    expect(validatePollInput({ options: ['Yes', ' '] }, now).message).toBe('Poll options cannot be empty')
+    expect(validatePollInput({ options: ['Yes', 'x'.repeat(81)] }, now).valid).toBe(false)
+    expect(validatePollInput({ options: ['Yes', 'yes'] }, now).message).toBe('Poll options must be different')
+    expect(validatePollInput('not json', now).message).toBe('Invalid poll')
+  })
+
+  it('needs the closing time within 30 days from now', () => {
+    const input = (closes_at: string) => ({ options: ['Yes', 'No'], closes_at })
+    expect(validatePollInput(input('2026-03-02T12:00:00Z'), now).value?.closes_at).toEqual(new Date('2026-03-02T12:00:00Z'))
+    expect(validatePollInput(input(''), now).value?.closes_at).toBeUndefined()
+    expect(validatePollInput(input('soon'), now).message).toBe('Invalid closing time')
+    expect(validatePollInput(input('2026-03-01T11:00:00Z'), now).message).toBe('Polls must close in the future')
+    expect(validatePollInput(input('2026-04-15T12:00:00Z'), now).message).toBe('Polls can run for at most 30 days')
+  })
+
+  it('keeps an unchanged closing time that has already passed', () => {
+    const current = { closes_at: new Date('2026-02-28T12:00:00Z') }
+    expect(validatePollInput({ options: ['Yes', 'No'], closes_at: '2026-02-28T12:00:00Z' }, now, current).valid).toBe(true)
+    expect(validatePollInput({ options: ['Yes', 'No'], closes_at: '2026-02-27T12:00:00Z' }, now, current).valid).toBe(false)
+  })
+})
+
+describe('lockedPollChange', () => {
+  it('only lets the closing time change', () => {
+    expect(lockedPollChange(poll(), poll({ closes_at: now }))).toBeNull()
+    expect(lockedPollChange(poll(), poll({ options: poll().options.slice(0, 2) }))).toMatch(/options/)
+    expect(lockedPollChange(poll(), poll({ multiple: true }))).toMatch(/multiple/)
+    expect(lockedPollChange(poll({ anonymous: true }), poll())).toMatch(/Anonymous/)
+  })
+})
+
+describe('validateVoteInput', () => {
+  it('dedupes and sorts the picked options', () => {
+    expect(validateVoteInput(poll({ multiple: true }), [3, '1', 3])).toEqual({ valid: true, value: [1, 3] })
+    expect(validateVoteInput(poll(), [2])).toEqual({ valid: true, value: [2] })
+  })
+
+  it('rejects empty, unknown and extra picks', () => {
+    expect(validateVoteInput(poll(), [])).toEqual({ valid: false, message: 'Pick an option' })
+    expect(validateVoteInput(poll(), 2)).toEqual({ valid: false, message: 'Pick an option' })
+    expect(validateVoteInput(poll(), [4])).toEqual({ valid: false, message: 'Invalid option' })
+    expect(validateVoteInput(poll(), [1, 2])).toEqual({ valid: false, message: 'This poll allows one option' })
+  })
+})
+
+describe('optionPercent', () => {
+  it('divides by voters, not picks', () => {
+    const results = { voters: 3, counts: { 1: 2, 2: 3 } }
+    expect(optionPercent(results, 1)).toBe(67)
+    expect(optionPercent(results, 2)).toBe(100)
+    expect(optionPercent(results, 3)).toBe(0)
+    expect(optionPercent({ voters: 0, counts: {} }, 1)).toBe(0)
+  })
+})
+
+describe('isPollOpen', () => {
+  it('is open until the closing time', () => {
+    expect(isPollOpen({}, now)).toBe(true)
+    expect(isPollOpen({ closes_at: '2026-03-01T12:00:01Z' }, now)).toBe(true)
+    expect(isPollOpen({ closes_at: now }, now)).toBe(false)
+  })
+})
+
+describe('foldBreakdown', () => {
+  it('orders groups by size and keeps small ones on named polls', () => {
+    const groups = foldBreakdown([group('Design', 1), group('Law', 5), group(null, 2)], false)
+    expect(groups.map(g => g.group)).toEqual(['Law', null, 'Design'])
+  })
+
+  it('folds small and unknown groups into "Other" on anonymous polls', () => {
+    const groups = foldBreakdown([
+      group('Design', 1, { 1: 1 }),
+      group('Law', 5),
+      group(null, 2, { 2: 2 }),
+      group('Physics', 3),
+    ], true)
+    expect(groups).toEqual([group('Law', 5), group('Physics', 3), { group: null, voters: 3, counts: { 1: 1, 2: 2 } }])
+  })
+
+  it('pulls in the smallest named groups until "Other" is big enough', () => {
+    const groups = foldBreakdown([group('Law', 5), group('Physics', 3), group('Design', 1)], true)
+    expect(groups).toEqual([group('Law', 5), { group: null, voters: 4, counts: { 1: 4 } }])
+    expect(foldBreakdown([group('Law', 1), group('Design', 1)], true)).toEqual([{ group: null, voters: 2, counts: { 1: 2 } }])
+  })
+})
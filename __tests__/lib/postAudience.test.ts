@@ -0,0 +1,122 @@
+import {
+  audienceFilter,
+  canSeeAudience,
+  describeAudience,
+  isAudienceType,
+  validateAudienceInput,
+  ANONYMOUS_VIEWER,
+} from '../../lib/postAudience'
+
+const viewer = (overrides = {}) => ({
+  userId: 7,
+  department: 'Computer Science',
+  year: 2,
+  following: [] as number[],
+  closeFriendOf: [] as number[],
+  ...overrides,
+})
+
+describe('isAudienceType', () => {
+  it('accepts the four audiences', () => {
+    expect(isAudienceType('public')).toBe(true)
+    expect(isAudienceType('close_friends')).toBe(true)
+    expect(isAudienceType('friends')).toBe(false)
+    expect(isAudienceType(undefined)).toBe(false)
+  })
+})
+
+describe('validateAudienceInput', () => {
+  it('stores nothing for public posts', () => {
+    expect(validateAudienceInput({ type: 'public' })).toEqual({ valid: true, value: null })
+  })
+
+  it('accepts followers and close friends, from JSON text too', () => {
+    expect(validateAudienceInput('{"type":"followers"}')).toEqual({ valid: true, value: { type: 'followers' } })
+    expect(validateAudienceInput({ type: 'close_friends', department: 'ignored' })).toEqual({
+      valid: true,
+      value: { type: 'close_friends' },
+    })
+  })
+
+  it('needs a department for department posts and checks the year', () => {
+    expect(validateAudienceInput({ type: 'department', department: '  Computer   Science ', year: '2' })).toEqual({
+      valid: true,
+      value: { type: 'department', department: 'Computer Science', year: 2 },
+    })
+    expect(validateAudienceInput({ type: 'department', department: 'Design', year: '' }).value).toEqual({
+      type: 'department',
+      department: 'Design',
+    })
+    expect(validateAudienceInput({ type: 'department', department: ' ' })).toEqual({ valid: false, message: 'Choose a department' })
+    expect(validateAudienceInput({ type: 'department', department: 'Design', year: 9 })).toEqual({ valid: false, message: 'Invalid year' })
+  })
+
+  it('rejects anything else', () => {
+    expect(validateAudienceInput('not json')).toEqual({ valid: false, message: 'Invalid audience' })
+    expect(validateAudienceInput({ type: 'everyone' }).valid).toBe(false)
+    expect(validateAudienceInput([{ type: 'public' }]).valid).toBe(false)
+  })
+})
+
+describe('canSeeAudience', () => {
+  it('shows public posts to everyone', () => {
+    expect(canSeeAudience({ user_id: 1 }, ANONYMOUS_VIEWER)).toBe(true)
+  })
+
+  it('always shows authors their own posts and hides limited posts from signed-out viewers', () => {
+    const post = { user_id: 7, audience: { type: 'close_friends' as const } }
+    expect(canSeeAudience(post, viewer())).toBe(true)
+    expect(canSeeAudience({ ...post, user_id: 1 }, ANONYMOUS_VIEWER)).toBe(false)
+  })
+
+  it('checks follows and close friends lists against the author', () => {
+    const followers = { user_id: 1, audience: { type: 'followers' as const } }
+    const closeFriends = { user_id: 1, audience: { type: 'close_friends' as const } }
+    expect(canSeeAudience(followers, viewer({ following: [1] }))).toBe(true)
+    expect(canSeeAudience(followers, viewer({ following: [2] }))).toBe(false)
+    expect(canSeeAudience(closeFriends, viewer({ following: [1] }))).toBe(false)
+    expect(canSeeAudience(closeFriends, viewer({ following: [1], closeFriendOf: [1] }))).toBe(true)
+    // Left on the list after unfollowing
+    expect(canSeeAudience(closeFriends, viewer({ closeFriendOf: [1] }))).toBe(false)
+  })
+
+  it('matches departments case-insensitively and the year when set', () => {
+    const post = { user_id: 1, audience: { type: 'department' as const, department: 'Computer Science' } }
+    expect(canSeeAudience(post, viewer({ department: ' computer science ' }))).toBe(true)
+    expect(canSeeAudience(post, viewer({ department: 'Design' }))).toBe(false)
+    expect(canSeeAudience(post, viewer({ department: null }))).toBe(false)
+    expect(canSeeAudience({ ...post, audience: { ...post.audience, year: 3 } }, viewer())).toBe(false)
+    expect(canSeeAudience({ ...post, audience: { ...post.audience, year: 2 } }, viewer())).toBe(true)
+  })
+})
+
+describe('audienceFilter', () => {
+  it('only matches public posts for signed-out viewers', () => {
+    expect(audienceFilter(ANONYMOUS_VIEWER)).toEqual({ $or: [{ audience: { $exists: false } }] })
+  })
+
+  it('adds the viewer\'s own posts, follows, lists and department', () => {
+    const { $or } = audienceFilter(viewer({ department: 'C++ Dev', following: [1, 2], closeFriendOf: [2] })) as any
+    expect($or).toHaveLength(5)
+    expect($or[1]).toEqual({ user_id: 7 })
+    expect($or[2]).toEqual({ 'audience.type': 'followers', user_id: { $in: [1, 2] } })
+    expect($or[3]).toEqual({ 'audience.type': 'close_friends', user_id: { $in: [2] } })
+    expect($or[4]['audience.department'].test('c++ dev')).toBe(true)
+    expect($or[4]['audience.department'].test('C++ Developers')).toBe(false)
+    expect($or[4]['audience.year']).toEqual({ $in: [2, null] })
+  })
+
+  it('skips close friends lists of authors the viewer no longer follows', () => {
+    const { $or } = audienceFilter(viewer({ following: [1], closeFriendOf: [1, 2] })) as any
+    expect($or).toContainEqual({ 'audience.type': 'close_friends', user_id: { $in: [1] } })
+  })
+})
+
+describe('describeAudience', () => {
+  it('labels each audience', () => {
+    expect(describeAudience(null)).toBe('Everyone')
+    expect(describeAudience({ type: 'close_friends' })).toBe('Close friends')
+    expect(describeAudience({ type: 'department', department: 'Design' })).toBe('Design')
+    expect(describeAudience({ type: 'department', department: 'Design', year: 2 })).toBe('Design · 2nd Year')
+  })
+})
@@ -0,0 +1,99 @@
+import { getPostMedia, inferMediaType, moveItem, parseMediaLayout, videoThumbnailUrl, MAX_POST_MEDIA } from '../../lib/postMedia'
+
+describe('inferMediaType', () => {
+  it('uses the declared type regardless of case', () => {
+    expect(inferMediaType('https://cdn.example.com/a', 'VIDEO')).toBe('video')
+    expect(inferMediaType('https://cdn.example.com/a.mp4', 'image')).toBe('image')
+  })
+
+  it('falls back to the URL when the type is missing or unknown', () => {
+    expect(inferMediaType('https://cdn.example.com/clip.MOV')).toBe('video')
+    expect(inferMediaType('https://res.cloudinary.com/x/video/upload/abc', 'NONE')).toBe('video')
+    expect(inferMediaType('https://cdn.example.com/photo.jpg')).toBe('image')
+  })
+})
+
+describe('getPostMedia', () => {
+  it('returns carousel items in order with lowercase types', () => {
+    const media = getPostMedia({
+      media: [
+        { url: '/b.mp4', type: 'VIDEO' },
+        { url: '/a.jpg', type: 'IMAGE' },
+      ],
+      media_url: '/b.mp4',
+      media_type: 'VIDEO',
+    })
+    expect(media).toEqual([
+      { url: '/b.mp4', type: 'video' },
+      { url: '/a.jpg', type: 'image' },
+    ])
+  })
+
+  it('falls back to the legacy single media fields', () => {
+    expect(getPostMedia({ media_url: '/a.jpg', media_type: 'IMAGE' })).toEqual([{ url: '/a.jpg', type: 'image' }])
+    expect(getPostMedia({ media: [], media_url: '/a.jpg', media_type: 'IMAGE' })).toHaveLength(1)
+  })
+
+  it('returns nothing for text-only posts', () => {
+    expect(getPostMedia({ media_url: null, media_type: 'NONE' })).toEqual([])
+    expect(getPostMedia({ media_url: '/stale.jpg', media_type: 'NONE' })).toEqual([])
+  })
+})
+
+describe('videoThumbnailUrl', () => {
+  it('asks Cloudinary for a still', () => {
+    expect(videoThumbnailUrl('https://res.cloudinary.com/uni/video/upload/v1/posts/clip.mp4'))
+      .toBe('https://res.cloudinary.com/uni/video/upload/v1/posts/clip.jpg')
+    expect(videoThumbnailUrl('https://res.cloudinary.com/uni/video/upload/v1/posts/clip'))
+      .toBe('https://res.cloudinary.com/uni/video/upload/v1/posts/clip.jpg')
+  })
+
+  it('has no still for videos stored elsewhere', () => {
+    expect(videoThumbnailUrl('/uploads/clip.mp4')).toBeNull()
+    expect(videoThumbnailUrl('https://cdn.example.com/video/upload/clip.mp4')).toBeNull()
+  })
+})
+
+describe('moveItem', () => {
+  it('moves an item without mutating the input', () => {
+    const items = ['a', 'b', 'c']
+    expect(moveItem(items, 0, 2)).toEqual(['b', 'c', 'a'])
+    expect(moveItem(items, 2, 1)).toEqual(['a', 'c', 'b'])
+    expect(items).toEqual(['a', 'b', 'c'])
+  })
+
+  it('ignores out-of-range moves', () => {
+    const items = ['a', 'b']
+    expect(moveItem(items, 0, 2)).toBe(items)
+    expect(moveItem(items, -1, 0)).toBe(items)
+  })
+})
+
+describe('parseMediaLayout', () => {
+  it('keeps, reorders and drops existing items', () => {
+    expect(parseMediaLayout([2, 0], 3, 0)).toEqual({ valid: true, layout: [2, 0] })
+    expect(parseMediaLayout('[1]', 3, 0)).toEqual({ valid: true, layout: [1] })
+  })
+
+  it('marks where uploaded files go', () => {
+    expect(parseMediaLayout([0, 'new', 2], 3, 1)).toEqual({ valid: true, layout: [0, null, 2] })
+  })
+
+  it('needs every uploaded file placed, and no more', () => {
+    expect(parseMediaLayout([0], 1, 1).valid).toBe(false)
+    expect(parseMediaLayout([0, 'new'], 1, 0).valid).toBe(false)
+  })
+
+  it('rejects missing, repeated and malformed entries', () => {
+    expect(parseMediaLayout([3], 3, 0).valid).toBe(false)
+    expect(parseMediaLayout([0, 0], 3, 0).valid).toBe(false)
+    expect(parseMediaLayout(['0'], 3, 0).valid).toBe(false)
+    expect(parseMediaLayout('not json', 3, 0).valid).toBe(false)
+    expect(parseMediaLayout({}, 3, 0).valid).toBe(false)
+  })
+
+  it('keeps at least one and at most MAX_POST_MEDIA items', () => {
+    expect(parseMediaLayout([], 3, 0).valid).toBe(false)
+    expect(parseMediaLayout(Array(MAX_POST_MEDIA + 1).fill('new'), 0, MAX_POST_MEDIA + 1).valid).toBe(false)
+  })
+})
@@ -0,0 +1,54 @@
+import { postPreviewMetadata, privatePostMetadata } from '../../lib/postPreview'
+
+const post = (overrides = {}) => ({
+  id: 7,
+  content: 'Robotics club  demo\nday is on!',
+  created_at: '2026-03-01T12:00:00.000Z',
+  media: [] as { url: string; type: 'image' | 'video' }[],
+  author: { name: 'Asha Rao' },
+  ...overrides,
+})
+
+describe('postPreviewMetadata', () => {
+  it('titles the post by its author and uses the caption', () => {
+    const metadata = postPreviewMetadata(post(), 'https://unix.example')
+    expect(metadata.title).toBe('Asha Rao on UNIX')
+    expect(metadata.description).toBe('Robotics club demo day is on!')
+    expect(metadata.metadataBase?.toString()).toBe('https://unix.example/')
+    expect(metadata.alternates?.canonical).toBe('/post/7')
+    expect(metadata.openGraph).toMatchObject({ type: 'article', url: '/post/7', publishedTime: '2026-03-01T12:00:00.000Z' })
+    expect(metadata.twitter).toMatchObject({ card: 'summary' })
+  })
+
+  it('shortens long captions and falls back when there is none', () => {
+    expect(String(postPreviewMetadata(post({ content: 'word '.repeat(100) }), 'https://unix.example').description))
+      .toHaveLength(200)
+    expect(postPreviewMetadata(post({ content: '' }), 'https://unix.example').description).toBe('A post by Asha Rao')
+    expect(postPreviewMetadata(post({ content: '', event: { venue: 'Main Hall' } }), 'https://unix.example').description)
+      .toBe('Event at Main Hall')
+  })
+
+  it('previews images and video stills as large cards', () => {
+    const metadata = postPreviewMetadata(post({
+      media: [
+        { url: 'https://res.cloudinary.com/uni/video/upload/v1/clip.mp4', type: 'video' },
+        { url: '/uploads/photo.jpg', type: 'image' },
+        { url: '/uploads/clip.webm', type: 'video' },
+      ],
+    }), 'https://unix.example')
+    expect(metadata.openGraph).toMatchObject({
+      images: ['https://res.cloudinary.com/uni/video/upload/v1/clip.jpg', '/uploads/photo.jpg'],
+      videos: [{ url: 'https://res.cloudinary.com/uni/video/upload/v1/clip.mp4' }, { url: '/uploads/clip.webm' }],
+    })
+    expect(metadata.twitter).toMatchObject({ card: 'summary_large_image' })
+  })
+})
+
+describe('privatePostMetadata', () => {
+  it('says nothing about the post and keeps it out of search', () => {
+    const metadata = privatePostMetadata()
+    expect(metadata.title).toBe('This post is private')
+    expect(metadata.robots).toEqual({ index: false, follow: false })
+    expect(metadata.openGraph).not.toHaveProperty('images')
+  })
+})
@@ -0,0 +1,80 @@
+/**
+ * @jest-environment node
+ */
+import { publishPost } from '../../lib/postPublishing'
+import { findQuoteTarget, notifyRepost, recordShare } from '../../lib/repostStorage'
+import { notifyUser } from '../../lib/notifications'
+
+const posts = { findOne: jest.fn(), findOneAndUpdate: jest.fn(), updateOne: jest.fn() }
+const postTags = { updateMany: jest.fn() }
+const users = { findOne: jest.fn() }
+
+jest.mock('../../lib/mongodb', () => ({
+  Collections: { POSTS: 'posts', POST_TAGS: 'post_tags', USERS: 'users' },
+  getCollection: jest.fn(async (name: string) => ({ posts, post_tags: postTags, users } as any)[name]),
+  withRetry: (fn: () => unknown) => fn(),
+  serializeDoc: (doc: unknown) => doc,
+}))
+jest.mock('../../lib/hashtagIndex', () => ({ recordHashtagChanges: jest.fn() }))
+jest.mock('../../lib/placeCatalog', () => ({ getPlaceSummaries: jest.fn() }))
+jest.mock('../../lib/postTagging', () => ({
+  getPostTags: jest.fn(async () => new Map()),
+  notifyTaggedUsers: jest.fn(),
+}))
+jest.mock('../../lib/closeFriends', () => ({ filterAudienceMembers: jest.fn() }))
+jest.mock('../../lib/repostStorage', () => ({
+  findQuoteTarget: jest.fn(),
+  notifyRepost: jest.fn(),
+  recordShare: jest.fn(async () => undefined),
+}))
+jest.mock('../../lib/notifications', () => ({ notifyUser: jest.fn() }))
+
+describe('publishPost', () => {
+  const quote = { id: 5, user_id: 7, quote_of: 3, hashtags: [] }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    posts.findOne.mockResolvedValue(quote)
+    posts.findOneAndUpdate.mockResolvedValue({ ...quote, status: 'published' })
+    users.findOne.mockResolvedValue({ id: 7, name: 'Ada' })
+  })
+
+  it('credits and notifies the quoted author when a quote goes live', async () => {
+    ;(findQuoteTarget as jest.Mock).mockResolvedValue({ post: { id: 3, user_id: 9 } })
+
+    expect(await publishPost(5)).toBe(true)
+    expect(findQuoteTarget).toHaveBeenCalledWith(7, 3)
+    expect(recordShare).toHaveBeenCalledWith(7, 9)
+    expect(notifyRepost).toHaveBeenCalledWith(9, { id: 7, name: 'Ada' }, 3, true)
+  })
+
+  it('sends a quote back to the drafts when its post can no longer be quoted', async () => {
+    ;(findQuoteTarget as jest.Mock).mockResolvedValue({ reason: 'not_public', error: 'Only public posts can be quoted' })
+    posts.updateOne.mockResolvedValue({ modifiedCount: 1 })
+
+    expect(await publishPost(5)).toBe(false)
+    expect(posts.findOneAndUpdate).not.toHaveBeenCalled()
+    expect(posts.updateOne.mock.calls[0][1]).toMatchObject({ $set: { status: 'draft' }, $unset: { scheduled_at: '' } })
+    expect(notifyRepost).not.toHaveBeenCalled()
+    expect(notifyUser).toHaveBeenCalledWith(7, expect.objectContaining({
+      message: expect.stringContaining('Only public posts can be quoted'),
+      meta: { kind: 'quote_unpublished', postId: 5, reason: 'not_public' },
+    }))
+  })
+
+  it("doesn't tell the author twice when another run already moved it back", async () => {
+    ;(findQuoteTarget as jest.Mock).mockResolvedValue({ reason: 'not_found', error: 'Quoted post not found' })
+    posts.updateOne.mockResolvedValue({ modifiedCount: 0 })
+
+    expect(await publishPost(5)).toBe(false)
+    expect(notifyUser).not.toHaveBeenCalled()
+  })
+
+  it('does nothing for posts that already went out', async () => {
+    posts.findOne.mockResolvedValue(null)
+
+    expect(await publishPost(5)).toBe(false)
+    expect(posts.findOneAndUpdate).not.toHaveBeenCalled()
+    expect(findQuoteTarget).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,72 @@
+import {
+  isPublished,
+  toLocalInputValue,
+  validatePollSchedule,
+  validateScheduledAt,
+  MAX_SCHEDULE_AHEAD_DAYS,
+  MIN_SCHEDULE_LEAD_MINUTES,
+} from '../../lib/postSchedule'
+
+const NOW = new Date('2026-03-02T10:00:00Z')
+const minutes = (n: number) => new Date(NOW.getTime() + n * 60 * 1000)
+
+describe('isPublished', () => {
+  it('treats posts from before drafts as published', () => {
+    expect(isPublished({})).toBe(true)
+    expect(isPublished({ status: null })).toBe(true)
+    expect(isPublished({ status: 'published' })).toBe(true)
+  })
+
+  it('hides drafts and scheduled posts', () => {
+    expect(isPublished({ status: 'draft' })).toBe(false)
+    expect(isPublished({ status: 'scheduled' })).toBe(false)
+  })
+})
+
+describe('validateScheduledAt', () => {
+  it('accepts a time within the window', () => {
+    const when = minutes(60)
+    expect(validateScheduledAt(when.toISOString(), NOW)).toEqual({ valid: true, value: when })
+    expect(validateScheduledAt(when.getTime(), NOW).valid).toBe(true)
+  })
+
+  it('needs some lead time', () => {
+    expect(validateScheduledAt(minutes(MIN_SCHEDULE_LEAD_MINUTES - 1).toISOString(), NOW).valid).toBe(false)
+    expect(validateScheduledAt(minutes(MIN_SCHEDULE_LEAD_MINUTES).toISOString(), NOW).valid).toBe(true)
+    expect(validateScheduledAt(minutes(-60).toISOString(), NOW).valid).toBe(false)
+  })
+
+  it('caps how far ahead a post can go', () => {
+    const limit = MAX_SCHEDULE_AHEAD_DAYS * 24 * 60
+    expect(validateScheduledAt(minutes(limit).toISOString(), NOW).valid).toBe(true)
+    expect(validateScheduledAt(minutes(limit + 1).toISOString(), NOW).valid).toBe(false)
+  })
+
+  it('rejects anything that is not a date', () => {
+    expect(validateScheduledAt('next friday', NOW)).toEqual({ valid: false, message: 'Invalid publish time' })
+    expect(validateScheduledAt(undefined, NOW).valid).toBe(false)
+    expect(validateScheduledAt({}, NOW).valid).toBe(false)
+  })
+})
+
+describe('toLocalInputValue', () => {
+  it('formats local time for a datetime-local input', () => {
+    expect(toLocalInputValue(new Date(2026, 0, 5, 9, 7))).toBe('2026-01-05T09:07')
+  })
+})
+
+describe('validatePollSchedule', () => {
+  it('needs the poll to close after the post goes up', () => {
+    expect(validatePollSchedule({ closes_at: minutes(120) }, minutes(60))).toEqual({ valid: true })
+    expect(validatePollSchedule({ closes_at: minutes(60) }, minutes(60)).valid).toBe(false)
+    expect(validatePollSchedule({ closes_at: minutes(30) }, minutes(60))).toEqual({
+      valid: false,
+      message: 'The poll must close after the post goes up',
+    })
+  })
+
+  it('allows polls without a closing time and posts without polls', () => {
+    expect(validatePollSchedule({}, minutes(60)).valid).toBe(true)
+    expect(validatePollSchedule(null, minutes(60)).valid).toBe(true)
+  })
+})
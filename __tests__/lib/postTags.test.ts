@@ -0,0 +1,68 @@
+import { allowsTagging, parseTagInput, remapTags, MAX_TAGS_PER_POST } from '../../lib/postTags'
+
+const photoAndVideo = [{ type: 'image' as const }, { type: 'video' as const }]
+
+describe('allowsTagging', () => {
+  it('follows the tagged user\'s setting', () => {
+    expect(allowsTagging(undefined, { isSelf: false, followsTarget: false })).toBe(true)
+    expect(allowsTagging('followers', { isSelf: false, followsTarget: true })).toBe(true)
+    expect(allowsTagging('followers', { isSelf: false, followsTarget: false })).toBe(false)
+    expect(allowsTagging('no_one', { isSelf: false, followsTarget: true })).toBe(false)
+  })
+
+  it('always lets people tag themselves', () => {
+    expect(allowsTagging('no_one', { isSelf: true, followsTarget: false })).toBe(true)
+  })
+})
+
+describe('parseTagInput', () => {
+  it('treats a missing or empty field as no tags', () => {
+    expect(parseTagInput(undefined, photoAndVideo)).toEqual({ valid: true, tags: [] })
+    expect(parseTagInput('', photoAndVideo)).toEqual({ valid: true, tags: [] })
+  })
+
+  it('reads the JSON form field and keeps positions on photos', () => {
+    const result = parseTagInput(JSON.stringify([
+      { user_id: 4, media_index: 0, x: 0.25, y: 0.123456 },
+      { user_id: 4, media_index: 1 },
+    ]), photoAndVideo)
+    expect(result).toEqual({
+      valid: true,
+      tags: [
+        { user_id: 4, media_index: 0, x: 0.25, y: 0.1235 },
+        { user_id: 4, media_index: 1 },
+      ],
+    })
+  })
+
+  it('rejects positions on videos and out of range', () => {
+    expect(parseTagInput([{ user_id: 4, media_index: 1, x: 0.5, y: 0.5 }], photoAndVideo).valid).toBe(false)
+    expect(parseTagInput([{ user_id: 4, media_index: 0, x: 1.5, y: 0.5 }], photoAndVideo).valid).toBe(false)
+    expect(parseTagInput([{ user_id: 4, media_index: 0, x: 0.5 }], photoAndVideo).valid).toBe(false)
+  })
+
+  it('rejects unknown items, duplicates and too many tags', () => {
+    expect(parseTagInput([{ user_id: 4, media_index: 2 }], photoAndVideo).valid).toBe(false)
+    expect(parseTagInput([{ user_id: 4 }, { user_id: 4 }], photoAndVideo).valid).toBe(false)
+    expect(parseTagInput([{ user_id: 'x' }], photoAndVideo).valid).toBe(false)
+    expect(parseTagInput('{not json', photoAndVideo).valid).toBe(false)
+
+    const many = Array.from({ length: MAX_TAGS_PER_POST + 1 }, (_, i) => ({ user_id: i + 1 }))
+    expect(parseTagInput(many, photoAndVideo).valid).toBe(false)
+  })
+})
+
+describe('remapTags', () => {
+  it('moves tags with their items and drops tags on removed ones', () => {
+    const tags = [
+      { user_id: 1, media_index: 0, x: 0.5, y: 0.5 },
+      { user_id: 2, media_index: 1 },
+      { user_id: 3, media_index: 2 },
+    ]
+    // Item 1 removed, item 2 moved first, a new upload last
+    expect(remapTags(tags, [2, 0, null])).toEqual([
+      { user_id: 1, media_index: 1, x: 0.5, y: 0.5 },
+      { user_id: 3, media_index: 0 },
+    ])
+  })
+})
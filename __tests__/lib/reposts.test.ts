@@ -0,0 +1,48 @@
+import { isRepost, repostBlockReason, repostTargetId, REPOST_BLOCK_MESSAGES, QUOTE_BLOCK_MESSAGES } from '../../lib/reposts'
+
+const author = (overrides = {}) => ({ is_private: false, ...overrides })
+
+describe('repostTargetId', () => {
+  it('points reposts of reposts at the original', () => {
+    expect(repostTargetId({ id: 7 })).toBe(7)
+    expect(repostTargetId({ id: 9, repost_of: 7 })).toBe(7)
+  })
+})
+
+describe('repostBlockReason', () => {
+  it('allows published public posts by default', () => {
+    expect(repostBlockReason({}, author())).toBeNull()
+    expect(repostBlockReason({ status: 'published' }, author({ allow_reposts: true }))).toBeNull()
+  })
+
+  it('treats deleted, unpublished and deactivated posts as not found', () => {
+    expect(repostBlockReason(null, author())).toBe('not_found')
+    expect(repostBlockReason({}, null)).toBe('not_found')
+    expect(repostBlockReason({ status: 'draft' }, author())).toBe('not_found')
+    expect(repostBlockReason({ status: 'scheduled' }, author())).toBe('not_found')
+    expect(repostBlockReason({}, author({ is_deactivated: true }))).toBe('not_found')
+  })
+
+  it('only allows public posts', () => {
+    expect(repostBlockReason({}, author({ is_private: true }))).toBe('not_public')
+    expect(repostBlockReason({ audience: { type: 'followers' } }, author())).toBe('not_public')
+  })
+
+  it('respects the author turning reposts off', () => {
+    expect(repostBlockReason({}, author({ allow_reposts: false }))).toBe('reposts_off')
+  })
+
+  it('words each reason for reposts and for quotes', () => {
+    expect(REPOST_BLOCK_MESSAGES.not_public).toBe('Only public posts can be reposted')
+    expect(QUOTE_BLOCK_MESSAGES.not_public).toBe('Only public posts can be quoted')
+    expect(Object.keys(QUOTE_BLOCK_MESSAGES).sort()).toEqual(Object.keys(REPOST_BLOCK_MESSAGES).sort())
+  })
+})
+
+describe('isRepost', () => {
+  it('is true only for posts pointing at an original', () => {
+    expect(isRepost({ repost_of: 3 })).toBe(true)
+    expect(isRepost({ repost_of: null })).toBe(false)
+    expect(isRepost({})).toBe(false)
+  })
+})
@@ -0,0 +1,54 @@
+import {
+  getUserRole,
+  hasPermission,
+  canPostInCategory,
+  isRequestableRole,
+} from '../../lib/roles'
+
+describe('getUserRole', () => {
+  it('treats users without a verified role as students', () => {
+    expect(getUserRole({})).toBe('student')
+    expect(getUserRole(null)).toBe('student')
+    expect(getUserRole({ role: 'faculty' })).toBe('faculty')
+  })
+})
+
+describe('hasPermission', () => {
+  it('lets faculty and staff post announcements', () => {
+    expect(hasPermission('faculty', 'post_announcements')).toBe(true)
+    expect(hasPermission('staff', 'post_announcements')).toBe(true)
+    expect(hasPermission('student', 'post_announcements')).toBe(false)
+    expect(hasPermission('alumni', 'post_announcements')).toBe(false)
+  })
+
+  it('limits moderation and role review to admins', () => {
+    expect(hasPermission('admin', 'moderate_content')).toBe(true)
+    expect(hasPermission('admin', 'review_roles')).toBe(true)
+    expect(hasPermission('admin', 'manage_places')).toBe(true)
+    expect(hasPermission('staff', 'manage_places')).toBe(false)
+    expect(hasPermission('faculty', 'moderate_content')).toBe(false)
+    expect(hasPermission(undefined, 'review_roles')).toBe(false)
+  })
+})
+
+describe('canPostInCategory', () => {
+  it('restricts ACADEMIC posts regardless of case', () => {
+    expect(canPostInCategory('student', 'ACADEMIC')).toBe(false)
+    expect(canPostInCategory('student', 'academic')).toBe(false)
+    expect(canPostInCategory('faculty', 'academic')).toBe(true)
+  })
+
+  it('leaves other categories open', () => {
+    expect(canPostInCategory('student', 'GENERAL')).toBe(true)
+    expect(canPostInCategory(undefined, 'events')).toBe(true)
+  })
+})
+
+describe('isRequestableRole', () => {
+  it('never allows requesting admin or student', () => {
+    expect(isRequestableRole('alumni')).toBe(true)
+    expect(isRequestableRole('admin')).toBe(false)
+    expect(isRequestableRole('student')).toBe(false)
+    expect(isRequestableRole(42)).toBe(false)
+  })
+})
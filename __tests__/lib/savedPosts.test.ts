@@ -0,0 +1,59 @@
+import {
+  collectionNameKey,
+  parseCollectionId,
+  positionBetween,
+  validateCollectionName,
+  MAX_COLLECTION_NAME_LENGTH,
+} from '../../lib/savedPosts'
+
+describe('validateCollectionName', () => {
+  it('trims and collapses spacing', () => {
+    expect(validateCollectionName('  Exam   notes ')).toEqual({ valid: true, name: 'Exam notes' })
+  })
+
+  it('rejects empty, non-text and overlong names', () => {
+    expect(validateCollectionName('   ').valid).toBe(false)
+    expect(validateCollectionName(42).valid).toBe(false)
+    expect(validateCollectionName('x'.repeat(MAX_COLLECTION_NAME_LENGTH + 1)).valid).toBe(false)
+  })
+})
+
+describe('collectionNameKey', () => {
+  it('ignores case and extra spacing', () => {
+    expect(collectionNameKey('Internships  to Apply')).toBe(collectionNameKey('internships to apply'))
+  })
+})
+
+describe('parseCollectionId', () => {
+  it('tells a missing id apart from "no collection"', () => {
+    expect(parseCollectionId(undefined)).toEqual({ valid: true, value: undefined })
+    expect(parseCollectionId(null)).toEqual({ valid: true, value: null })
+    expect(parseCollectionId('none')).toEqual({ valid: true, value: null })
+  })
+
+  it('accepts positive integer ids from bodies and query strings', () => {
+    expect(parseCollectionId(7)).toEqual({ valid: true, value: 7 })
+    expect(parseCollectionId('7')).toEqual({ valid: true, value: 7 })
+  })
+
+  it('rejects anything else', () => {
+    expect(parseCollectionId(0).valid).toBe(false)
+    expect(parseCollectionId('abc').valid).toBe(false)
+    expect(parseCollectionId(1.5).valid).toBe(false)
+    expect(parseCollectionId({}).valid).toBe(false)
+  })
+})
+
+describe('positionBetween', () => {
+  it('lands strictly between two neighbours', () => {
+    const position = positionBetween(4, 3)
+    expect(position).toBeGreaterThan(3)
+    expect(position).toBeLessThan(4)
+  })
+
+  it('goes past the end when a neighbour is missing', () => {
+    expect(positionBetween(null, 5)).toBeGreaterThan(5)
+    expect(positionBetween(5, null)).toBeLessThan(5)
+    expect(positionBetween(null, null)).toBe(0)
+  })
+})
@@ -0,0 +1,83 @@
+import {
+  activeStorySince,
+  isStoryLive,
+  orderReels,
+  parseStoryIds,
+  storyExpiresAt,
+  validateHighlightTitle,
+  StoryReel,
+  MAX_STORIES_PER_HIGHLIGHT,
+  STORY_LIFETIME_MS,
+} from '../../lib/stories'
+
+const now = new Date('2026-03-02T12:00:00Z')
+
+const reel = (authorId: number, latest: string, hasUnseen: boolean): StoryReel => ({
+  author: { id: authorId, name: `User ${authorId}`, username: null, profile_image: null },
+  stories: [{ id: authorId * 10, media_url: 'https://example.com/a.jpg', media_type: 'image', created_at: latest, viewed: !hasUnseen }],
+  has_unseen: hasUnseen,
+})
+
+describe('story lifetime', () => {
+  it('expires a day after posting', () => {
+    expect(storyExpiresAt(now).getTime() - now.getTime()).toBe(STORY_LIFETIME_MS)
+    expect(activeStorySince(now).toISOString()).toBe('2026-03-01T12:00:00.000Z')
+  })
+
+  it('is live for 24 hours', () => {
+    expect(isStoryLive({ created_at: '2026-03-02T08:00:00Z' }, now)).toBe(true)
+    expect(isStoryLive({ created_at: new Date('2026-03-01T12:00:01Z') }, now)).toBe(true)
+    expect(isStoryLive({ created_at: '2026-03-01T12:00:00Z' }, now)).toBe(false)
+  })
+})
+
+describe('orderReels', () => {
+  it('puts the viewer first, then unseen reels, each by latest story', () => {
+    const reels = [
+      reel(2, '2026-03-02T09:00:00Z', false),
+      reel(3, '2026-03-02T08:00:00Z', true),
+      reel(1, '2026-03-02T07:00:00Z', false),
+      reel(4, '2026-03-02T10:00:00Z', true),
+      reel(5, '2026-03-02T11:00:00Z', false),
+    ]
+    expect(orderReels(reels, 1).map(r => r.author.id)).toEqual([1, 4, 3, 5, 2])
+  })
+
+  it('leaves the input alone', () => {
+    const reels = [reel(2, '2026-03-02T09:00:00Z', false), reel(3, '2026-03-02T08:00:00Z', true)]
+    orderReels(reels, null)
+    expect(reels.map(r => r.author.id)).toEqual([2, 3])
+  })
+})
+
+describe('validateHighlightTitle', () => {
+  it('trims and collapses whitespace', () => {
+    expect(validateHighlightTitle('  Fest   2026 ')).toEqual({ valid: true, title: 'Fest 2026' })
+  })
+
+  it('rejects empty and overlong titles', () => {
+    expect(validateHighlightTitle('   ').valid).toBe(false)
+    expect(validateHighlightTitle(undefined).valid).toBe(false)
+    expect(validateHighlightTitle('x'.repeat(31)).valid).toBe(false)
+  })
+})
+
+describe('parseStoryIds', () => {
+  it('dedupes ids in the order given', () => {
+    expect(parseStoryIds([3, '1', 3, 2])).toEqual({ valid: true, ids: [3, 1, 2] })
+  })
+
+  it('rejects empty lists and bad ids', () => {
+    expect(parseStoryIds([]).valid).toBe(false)
+    expect(parseStoryIds('1,2').valid).toBe(false)
+    expect(parseStoryIds([1, 0]).valid).toBe(false)
+    expect(parseStoryIds([1.5]).valid).toBe(false)
+    expect(parseStoryIds(['abc']).valid).toBe(false)
+  })
+
+  it('caps how many stories a highlight holds', () => {
+    const ids = Array.from({ length: MAX_STORIES_PER_HIGHLIGHT + 1 }, (_, i) => i + 1)
+    expect(parseStoryIds(ids).valid).toBe(false)
+    expect(parseStoryIds(ids.slice(1)).valid).toBe(true)
+  })
+})
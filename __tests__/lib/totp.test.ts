@@ -0,0 +1,74 @@
+import {
+  base32Encode,
+  base32Decode,
+  generateTotpSecret,
+  generateTotp,
+  verifyTotp,
+  getTimeStep,
+  buildOtpauthUri
+} from '@/lib/totp'
+
+// RFC 6238 appendix B test secret ("12345678901234567890")
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'))
+
+describe('TOTP Library', () => {
+  describe('Base32', () => {
+    it('should round-trip arbitrary bytes', () => {
+      const bytes = Buffer.from([0, 1, 2, 250, 255, 128, 64])
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes)
+    })
+
+    it('should encode the RFC 4648 example', () => {
+      expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI')
+    })
+
+    it('should reject invalid characters', () => {
+      expect(() => base32Decode('ABC1')).toThrow()
+    })
+  })
+
+  describe('Code generation', () => {
+    it('should match the RFC 6238 SHA-1 test vectors', () => {
+      expect(generateTotp(RFC_SECRET, 59 * 1000)).toBe('287082')
+      expect(generateTotp(RFC_SECRET, 1111111109 * 1000)).toBe('081804')
+      expect(generateTotp(RFC_SECRET, 1234567890 * 1000)).toBe('005924')
+      expect(generateTotp(RFC_SECRET, 20000000000 * 1000)).toBe('353130')
+    })
+
+    it('should generate 160-bit base32 secrets', () => {
+      const secret = generateTotpSecret()
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/)
+      expect(base32Decode(secret)).toHaveLength(20)
+    })
+  })
+
+  describe('Verification', () => {
+    const now = 1700000000 * 1000
+
+    it('should accept the current code and return its step', () => {
+      const code = generateTotp(RFC_SECRET, now)
+      expect(verifyTotp(RFC_SECRET, code, now)).toBe(getTimeStep(now))
+    })
+
+    it('should tolerate one step of clock drift', () => {
+      const previous = generateTotp(RFC_SECRET, now - 30 * 1000)
+      expect(verifyTotp(RFC_SECRET, previous, now)).toBe(getTimeStep(now) - 1)
+    })
+
+    it('should reject codes outside the window or malformed input', () => {
+      const old = generateTotp(RFC_SECRET, now - 5 * 60 * 1000)
+      expect(verifyTotp(RFC_SECRET, old, now)).toBeNull()
+      expect(verifyTotp(RFC_SECRET, 'abcdef', now)).toBeNull()
+      expect(verifyTotp(RFC_SECRET, '', now)).toBeNull()
+    })
+  })
+
+  describe('Provisioning URI', () => {
+    it('should build an otpauth URI for authenticator apps', () => {
+      const uri = buildOtpauthUri('JBSWY3DPEHPK3PXP', 'jane')
+      expect(uri.startsWith('otpauth://totp/UNIX%3Ajane?')).toBe(true)
+      expect(uri).toContain('secret=JBSWY3DPEHPK3PXP')
+      expect(uri).toContain('issuer=UNIX')
+    })
+  })
+})
@@ -124,6 +124,16 @@ describe('Validation Library', () => {
       expect(result.valid).toBe(false)
     })
     
+    it('should accept only known who_can_tag values', () => {
+      expect(validatePrivacySettings({ who_can_tag: 'no_one' }).valid).toBe(true)
+      expect(validatePrivacySettings({ who_can_tag: 'friends' }).valid).toBe(false)
+    })
+
+    it('should accept allow_reposts only as a boolean', () => {
+      expect(validatePrivacySettings({ allow_reposts: false }).valid).toBe(true)
+      expect(validatePrivacySettings({ allow_reposts: 'no' }).valid).toBe(false)
+    })
+    
     it('should reject non-boolean values for boolean fields', () => {
       const settings = { is_private: 'yes' }
       const result = validatePrivacySettings(settings)
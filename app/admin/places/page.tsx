@@ -0,0 +1,253 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '../../../contexts/AuthContext';
+import { fetchAPI } from '../../../lib/dataFetcher';
+import { hasPermission } from '../../../lib/roles';
+import {
+  MAX_PLACE_DESCRIPTION_LENGTH,
+  MAX_PLACE_NAME_LENGTH,
+  PLACE_KINDS,
+  PLACE_KIND_LABELS,
+  PlaceKind,
+} from '../../../lib/places';
+
+interface PlaceItem {
+  id: number;
+  name: string;
+  kind: PlaceKind;
+  description: string | null;
+  is_archived: boolean;
+  post_count: number;
+}
+
+interface PlaceForm {
+  name: string;
+  kind: PlaceKind;
+  description: string;
+}
+
+const EMPTY_FORM: PlaceForm = { name: '', kind: 'building', description: '' };
+
+export default function AdminPlacesPage() {
+  const { user, token } = useAuth();
+  const [places, setPlaces] = useState<PlaceItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<PlaceForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const canManage = hasPermission(user?.role, 'manage_places');
+
+  const loadPlaces = useCallback(async () => {
+    if (!token || !canManage) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await fetchAPI<{ places: PlaceItem[] }>(
+        '/api/places?include_archived=true',
+        { token, skipCache: true }
+      );
+      setPlaces(data.places || []);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load places');
+    } finally {
+      setLoading(false);
+    }
+  }, [token, canManage]);
+
+  useEffect(() => {
+    loadPlaces();
+  }, [loadPlaces]);
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const startEditing = (place: PlaceItem) => {
+    setEditingId(place.id);
+    setForm({ name: place.name, kind: place.kind, description: place.description || '' });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      await fetchAPI(editingId ? `/api/places/${editingId}` : '/api/places', {
+        method: editingId ? 'PATCH' : 'POST',
+        token,
+        skipCache: true,
+        retries: 0,
+        body: JSON.stringify(form),
+      });
+      resetForm();
+      await loadPlaces();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save place');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setArchived = async (place: PlaceItem, archived: boolean) => {
+    if (!token) return;
+    if (archived && !confirm(`Archive ${place.name}? Existing posts keep the location, but it can't be picked for new ones.`)) return;
+
+    setBusyId(place.id);
+    setError(null);
+    try {
+      await fetchAPI(`/api/places/${place.id}`, archived
+        ? { method: 'DELETE', token, skipCache: true, retries: 0 }
+        : { method: 'PATCH', token, skipCache: true, retries: 0, body: JSON.stringify({ is_archived: false }) });
+      setPlaces((prev) => prev.map((p) => (p.id === place.id ? { ...p, is_archived: archived } : p)));
+    } catch (err: any) {
+      setError(err.message || 'Failed to update place');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="w-16 h-16 border-4 border-[#FFAF50] border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!canManage) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-8 text-center space-y-4 max-w-md">
+          <h1 className="text-xl font-bold text-gray-900">Admins only</h1>
+          <p className="text-sm text-gray-600">You don&apos;t have permission to manage campus places.</p>
+          <Link href="/" className="text-[#FFAF50] hover:text-orange-600 font-semibold text-sm">Back to UNIX</Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Campus places</h1>
+          <p className="text-gray-600 mt-1">Buildings, hostels, canteens and sports grounds students can tag posts with</p>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 text-red-700 rounded-xl text-sm">{error}</div>
+        )}
+
+        <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-sm border border-gray-200 p-5 mb-6 space-y-4">
+          <h2 className="font-semibold text-gray-900">{editingId ? 'Edit place' : 'Add a place'}</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-[1fr_180px] gap-3">
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="Name, e.g. Central Library"
+              maxLength={MAX_PLACE_NAME_LENGTH}
+              required
+              className="px-3 py-2 border border-gray-200 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-1 focus:ring-[#FFAF50]"
+            />
+            <select
+              value={form.kind}
+              onChange={(e) => setForm({ ...form, kind: e.target.value as PlaceKind })}
+              className="px-3 py-2 border border-gray-200 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-1 focus:ring-[#FFAF50]"
+            >
+              {PLACE_KINDS.map((kind) => (
+                <option key={kind} value={kind}>{PLACE_KIND_LABELS[kind]}</option>
+              ))}
+            </select>
+          </div>
+          <textarea
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+            placeholder="Description (optional)"
+            maxLength={MAX_PLACE_DESCRIPTION_LENGTH}
+            rows={2}
+            className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm text-gray-900 resize-none focus:outline-none focus:ring-1 focus:ring-[#FFAF50]"
+          />
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={saving || !form.name.trim()}
+              className="px-4 py-2 bg-[#FFAF50] hover:bg-orange-500 text-black text-sm font-semibold rounded-lg transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : editingId ? 'Save changes' : 'Add place'}
+            </button>
+            {editingId && (
+              <button
+                type="button"
+                onClick={resetForm}
+                className="px-4 py-2 bg-white hover:bg-gray-50 text-gray-700 text-sm font-semibold rounded-lg border border-gray-200"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </form>
+
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-200 divide-y divide-gray-100">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-4 border-orange-500 border-t-transparent"></div>
+            </div>
+          ) : places.length === 0 ? (
+            <p className="p-8 text-center text-gray-500 text-sm">No places yet</p>
+          ) : (
+            places.map((place) => (
+              <div key={place.id} className={`p-5 flex flex-col sm:flex-row sm:items-center gap-4 ${place.is_archived ? 'opacity-60' : ''}`}>
+                <div className="flex-1 min-w-0">
+                  <div className="font-semibold text-gray-900 truncate">
+                    <Link href={`/explore/locations/${place.id}`} className="hover:underline">{place.name}</Link>
+                    {place.is_archived && <span className="ml-2 text-xs font-medium text-gray-500">Archived</span>}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {PLACE_KIND_LABELS[place.kind]} · {place.post_count} {place.post_count === 1 ? 'post' : 'posts'}
+                  </div>
+                  {place.description && <p className="text-sm text-gray-600 mt-1">{place.description}</p>}
+                </div>
+
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    onClick={() => startEditing(place)}
+                    disabled={busyId === place.id}
+                    className="px-4 py-2 bg-white hover:bg-gray-50 text-gray-700 text-sm font-semibold rounded-lg border border-gray-200 disabled:opacity-50"
+                  >
+                    Edit
+                  </button>
+                  {place.is_archived ? (
+                    <button
+                      onClick={() => setArchived(place, false)}
+                      disabled={busyId === place.id}
+                      className="px-4 py-2 bg-[#FFAF50] hover:bg-orange-500 text-black text-sm font-semibold rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      Restore
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => setArchived(place, true)}
+                      disabled={busyId === place.id}
+                      className="px-4 py-2 bg-white hover:bg-red-50 text-red-600 text-sm font-semibold rounded-lg border border-red-200 disabled:opacity-50"
+                    >
+                      Archive
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useAuth } from '../../../contexts/AuthContext';
+import { fetchAPI } from '../../../lib/dataFetcher';
+import { ROLE_LABELS, RequestableRole, UserRole, hasPermission } from '../../../lib/roles';
+import RoleBadge from '../../../components/RoleBadge';
+
+type RequestStatus = 'pending' | 'approved' | 'rejected';
+
+interface RoleRequestItem {
+  id: number;
+  requested_role: RequestableRole;
+  note: string | null;
+  status: RequestStatus;
+  created_at: string;
+  reviewed_at: string | null;
+  review_note: string | null;
+  user: {
+    id: number;
+    name: string;
+    college_id: string;
+    email: string | null;
+    department: string;
+    year: number;
+    profile_image: string | null;
+    role: UserRole;
+  } | null;
+}
+
+export default function AdminRolesPage() {
+  const { user, token } = useAuth();
+  const [status, setStatus] = useState<RequestStatus>('pending');
+  const [requests, setRequests] = useState<RoleRequestItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const canReview = hasPermission(user?.role, 'review_roles');
+
+  const loadRequests = useCallback(async () => {
+    if (!token || !canReview) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await fetchAPI<{ requests: RoleRequestItem[] }>(
+        `/api/admin/role-requests?status=${status}`,
+        { token, skipCache: true }
+      );
+      setRequests(data.requests || []);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load requests');
+    } finally {
+      setLoading(false);
+    }
+  }, [token, canReview, status]);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  const handleReview = async (requestId: number, decision: 'approve' | 'reject') => {
+    if (!token) return;
+    const note = decision === 'reject' ? prompt('Reason (optional, shown to admins only):') : '';
+    if (note === null) return;
+
+    setBusyId(requestId);
+    try {
+      await fetchAPI(`/api/admin/role-requests/${requestId}`, {
+        method: 'POST',
+        token,
+        skipCache: true,
+        retries: 0,
+        body: JSON.stringify({ decision, note }),
+      });
+      setRequests((prev) => prev.filter((request) => request.id !== requestId));
+    } catch (err: any) {
+      setError(err.message || 'Failed to review request');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="w-16 h-16 border-4 border-[#FFAF50] border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!canReview) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-8 text-center space-y-4 max-w-md">
+          <h1 className="text-xl font-bold text-gray-900">Admins only</h1>
+          <p className="text-sm text-gray-600">You don&apos;t have permission to review role requests.</p>
+          <Link href="/" className="text-[#FFAF50] hover:text-orange-600 font-semibold text-sm">Back to UNIX</Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        <div className="flex items-center justify-between mb-8 flex-wrap gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Role requests</h1>
+            <p className="text-gray-600 mt-1">Verify faculty, staff and alumni</p>
+          </div>
+
+          <div className="flex bg-gray-100 rounded-lg p-1">
+            {(['pending', 'approved', 'rejected'] as RequestStatus[]).map((option) => (
+              <button
+                key={option}
+                onClick={() => setStatus(option)}
+                className={`px-4 py-2 rounded-md text-sm font-medium capitalize transition-colors ${status === option
+                    ? 'bg-[#FFAF50] text-black'
+                    : 'text-gray-600 hover:text-gray-900'
+                  }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 text-red-700 rounded-xl text-sm">{error}</div>
+        )}
+
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-200 divide-y divide-gray-100">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-4 border-orange-500 border-t-transparent"></div>
+            </div>
+          ) : requests.length === 0 ? (
+            <p className="p-8 text-center text-gray-500 text-sm">No {status} requests</p>
+          ) : (
+            requests.map((request) => (
+              <div key={request.id} className="p-5 flex flex-col sm:flex-row sm:items-center gap-4">
+                <div className="flex items-center gap-3 flex-1 min-w-0">
+                  <Image
+                    src={request.user?.profile_image || '/uploads/DefaultProfile.jpg'}
+                    alt={request.user?.name || 'User'}
+                    width={44}
+                    height={44}
+                    className="w-11 h-11 rounded-full object-cover border border-gray-200"
+                  />
+                  <div className="min-w-0">
+                    <div className="font-semibold text-gray-900 truncate">
+                      {request.user ? (
+                        <Link href={`/profile/${request.user.id}`} className="hover:underline">{request.user.name}</Link>
+                      ) : 'Deleted user'}
+                      <RoleBadge role={request.user?.role} className="ml-2" />
+                    </div>
+                    {request.user && (
+                      <div className="text-xs text-gray-500 truncate">
+                        {request.user.college_id}{request.user.email ? ` · ${request.user.email}` : ''} · {request.user.department}
+                      </div>
+                    )}
+                    <div className="text-sm text-gray-700 mt-1">
+                      Wants <strong>{ROLE_LABELS[request.requested_role]}</strong>
+                      <span className="text-gray-400"> · {new Date(request.created_at).toLocaleDateString()}</span>
+                    </div>
+                    {request.note && <p className="text-sm text-gray-600 mt-1 whitespace-pre-line">&ldquo;{request.note}&rdquo;</p>}
+                    {request.review_note && <p className="text-xs text-gray-500 mt-1">Review note: {request.review_note}</p>}
+                  </div>
+                </div>
+
+                {request.status === 'pending' && (
+                  <div className="flex gap-2 shrink-0">
+                    <button
+                      onClick={() => handleReview(request.id, 'approve')}
+                      disabled={busyId === request.id}
+                      className="px-4 py-2 bg-[#FFAF50] hover:bg-orange-500 text-black text-sm font-semibold rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => handleReview(request.id, 'reject')}
+                      disabled={busyId === request.id}
+                      className="px-4 py-2 bg-white hover:bg-red-50 text-red-600 text-sm font-semibold rounded-lg border border-red-200 disabled:opacity-50"
+                    >
+                      Reject
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
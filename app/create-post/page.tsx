@@ -4,56 +4,76 @@ import React, { useState, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '../../contexts/AuthContext';
 import { dataFetcher } from '../../lib/dataFetcher';
+import { canPostInCategory } from '../../lib/roles';
+import { MAX_POST_MEDIA, moveItem } from '../../lib/postMedia';
+import type { PlaceSummary } from '../../lib/places';
+import PlacePicker from '../../components/PlacePicker';
+import TagPeoplePicker, { type TaggedUser } from '../../components/TagPeoplePicker';
+import EventFields, { EMPTY_EVENT_FORM, isEventFormEmpty, toEventPayload, type EventFormValue } from '../../components/EventFields';
+import InternshipFields, { EMPTY_INTERNSHIP_FORM, isInternshipFormEmpty, toInternshipPayload, type InternshipFormValue } from '../../components/InternshipFields';
+import AudienceFields, { PUBLIC_AUDIENCE_FORM, toAudiencePayload, type AudienceFormValue } from '../../components/AudienceFields';
+import PollFields, { isPollFormEmpty, toPollPayload, type PollFormValue } from '../../components/PollFields';
 import Image from 'next/image'
 
 export default function CreatePostPage() {
+  const router = useRouter();
+  const { user, token } = useAuth();
+  // Academic announcements are for verified faculty and staff
+  const defaultCategory = canPostInCategory(user?.role, 'academic') ? 'academic' : 'general';
+
   const [caption, setCaption] = useState('');
-  const [category, setCategory] = useState('academic');
-  const [mediaFile, setMediaFile] = useState<File | null>(null);
+  const [category, setCategory] = useState(defaultCategory);
+  const [place, setPlace] = useState<PlaceSummary | null>(null);
+  const [eventForm, setEventForm] = useState<EventFormValue>(EMPTY_EVENT_FORM);
+  const [internshipForm, setInternshipForm] = useState<InternshipFormValue>(EMPTY_INTERNSHIP_FORM);
+  const [audienceForm, setAudienceForm] = useState<AudienceFormValue>(PUBLIC_AUDIENCE_FORM);
+  const [pollForm, setPollForm] = useState<PollFormValue | null>(null);
+  const [tagged, setTagged] = useState<TaggedUser[]>([]);
+  // Ordered carousel items; preview is an object URL revoked on removal
+  const [media, setMedia] = useState<{ file: File; preview: string }[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [mediaPreview, setMediaPreview] = useState<string | null>(null);
   const [captionTouched, setCaptionTouched] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const router = useRouter();
-  const { user, token } = useAuth();
-
   const categories = [
     { id: 'academic', name: 'Academic', emoji: '📚', color: 'from-blue-500 to-blue-600' },
     { id: 'events', name: 'Events', emoji: '🎉', color: 'from-purple-500 to-purple-600' },
+    { id: 'internship', name: 'Internship', emoji: '💼', color: 'from-teal-500 to-teal-600' },
     { id: 'clubs', name: 'Clubs', emoji: '👥', color: 'from-green-500 to-green-600' },
     { id: 'sports', name: 'Sports', emoji: '⚽', color: 'from-orange-500 to-orange-600' },
     { id: 'social', name: 'Social', emoji: '💬', color: 'from-pink-500 to-pink-600' },
     { id: 'general', name: 'General', emoji: '💭', color: 'from-gray-500 to-gray-600' },
-  ];
+  ].filter((cat) => canPostInCategory(user?.role, cat.id));
 
   const handleMediaChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      // Check file size (max 10MB)
-      if (file.size > 10 * 1024 * 1024) {
-        alert('File size must be less than 10MB');
-        return;
-      }
+    const files = Array.from(e.target.files || []);
+    // Allow picking the same file again after removing it
+    e.target.value = '';
+    if (files.length === 0) return;
 
-      setMediaFile(file);
+    // Check file size (max 10MB each)
+    if (files.some((file) => file.size > 10 * 1024 * 1024)) {
+      alert('Each file must be less than 10MB');
+      return;
+    }
 
-      // Create preview
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        setMediaPreview(e.target?.result as string);
-      };
-      reader.readAsDataURL(file);
+    const room = MAX_POST_MEDIA - media.length;
+    if (files.length > room) {
+      alert(`You can add up to ${MAX_POST_MEDIA} photos and videos to a post`);
     }
+
+    const added = files.slice(0, Math.max(0, room)).map((file) => ({ file, preview: URL.createObjectURL(file) }));
+    setMedia((prev) => [...prev, ...added]);
   };
 
-  const removeMedia = () => {
-    setMediaFile(null);
-    setMediaPreview(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
+  const removeMedia = (index: number) => {
+    URL.revokeObjectURL(media[index].preview);
+    setMedia((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const moveMedia = (from: number, to: number) => {
+    setMedia((prev) => moveItem(prev, from, to));
   };
 
   const handleSubmit = async (e?: React.FormEvent) => {
@@ -63,6 +83,26 @@ export default function CreatePostPage() {
       setCaptionTouched(true);
       return;
     }
+    const eventPayload = category === 'events' ? toEventPayload(eventForm) : null;
+    if (category === 'events' && !eventPayload && !isEventFormEmpty(eventForm)) {
+      alert('Add a start time and venue, or clear the event details');
+      return;
+    }
+    const internshipPayload = category === 'internship' ? toInternshipPayload(internshipForm) : null;
+    if (category === 'internship' && !internshipPayload && !isInternshipFormEmpty(internshipForm)) {
+      alert('Add the company, role, apply link and deadline, or clear the internship details');
+      return;
+    }
+    const audiencePayload = toAudiencePayload(audienceForm);
+    if (!audiencePayload) {
+      alert('Choose the department this post is for');
+      return;
+    }
+    const pollPayload = toPollPayload(pollForm);
+    if (!pollPayload && !isPollFormEmpty(pollForm)) {
+      alert('Give the poll at least two options, or remove it');
+      return;
+    }
 
     setIsSubmitting(true);
 
@@ -70,11 +110,19 @@ export default function CreatePostPage() {
       const formData = new FormData();
       formData.append('caption', caption);
       formData.append('category', category);
-
-      if (mediaFile) {
-        formData.append('media', mediaFile);
+      if (place) formData.append('place_id', String(place.id));
+      if (eventPayload) formData.append('event', eventPayload);
+      if (internshipPayload) formData.append('internship', internshipPayload);
+      formData.append('audience', audiencePayload);
+      if (pollPayload) formData.append('poll', pollPayload);
+      // This form tags people on the post as a whole, i.e. its first item
+      if (tagged.length > 0 && media.length > 0) {
+        formData.append('tags', JSON.stringify(tagged.map((u) => ({ user_id: u.id, media_index: 0 }))));
       }
 
+      // Appended in carousel order; the server keeps the order of the `media` parts
+      media.forEach((item) => formData.append('media', item.file));
+
       const response = await fetch('/api/posts', {
         method: 'POST',
         headers: {
@@ -97,13 +145,16 @@ export default function CreatePostPage() {
 
         // Reset form
         setCaption('');
-        setCategory('academic');
-        setMediaFile(null);
-        setMediaPreview(null);
+        setCategory(defaultCategory);
+        setPlace(null);
+        setEventForm(EMPTY_EVENT_FORM);
+        setInternshipForm(EMPTY_INTERNSHIP_FORM);
+        setAudienceForm(PUBLIC_AUDIENCE_FORM);
+        setPollForm(null);
+        setTagged([]);
+        media.forEach((item) => URL.revokeObjectURL(item.preview));
+        setMedia([]);
         setCaptionTouched(false);
-        if (fileInputRef.current) {
-          fileInputRef.current.value = '';
-        }
 
         // Redirect to home after a short delay
         setTimeout(() => {
@@ -234,36 +285,62 @@ export default function CreatePostPage() {
               )}
 
               {/* Media Preview */}
-              {mediaPreview && (
-                <div className="relative mb-6 animate-fade-in-up">
-                  <div className="relative rounded-xl overflow-hidden border-2 border-gray-200 bg-gray-50">
-                    {mediaFile?.type.startsWith('image/') ? (
-                      <Image
-                        src={mediaPreview}
-                        alt="Preview"
-                        className="w-full max-h-[400px] md:max-h-[500px] object-contain bg-gray-900"
-                      />
-                    ) : (
-                      <video
-                        src={mediaPreview}
-                        controls
-                        className="w-full max-h-[400px] md:max-h-[500px]"
-                      />
-                    )}
-                  </div>
-                  <button
-                    type="button"
-                    onClick={removeMedia}
-                    className="absolute top-3 right-3 p-2 bg-red-500 text-white rounded-full hover:bg-red-600 transition-all shadow-lg active:scale-95"
-                    disabled={isSubmitting}
-                  >
-                    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                      <path d="M18 6L6 18M6 6L18 18" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
-                    </svg>
-                  </button>
-                  <div className="absolute bottom-3 left-3 bg-black bg-opacity-60 backdrop-blur-sm text-white text-xs px-3 py-1 rounded-full">
-                    {mediaFile?.type.startsWith('image/') ? '📷 Image' : '🎥 Video'}
-                  </div>
+              {media.length > 0 && (
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mb-6 animate-fade-in-up">
+                  {media.map((item, index) => (
+                    <div key={item.preview} className="relative aspect-square rounded-xl overflow-hidden border-2 border-gray-200 bg-gray-900">
+                      {item.file.type.startsWith('image/') ? (
+                        <Image
+                          src={item.preview}
+                          alt={`Preview ${index + 1}`}
+                          fill
+                          className="object-cover"
+                        />
+                      ) : (
+                        <video
+                          src={item.preview}
+                          muted
+                          className="w-full h-full object-cover"
+                        />
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => removeMedia(index)}
+                        className="absolute top-2 right-2 p-1.5 bg-red-500 text-white rounded-full hover:bg-red-600 transition-all shadow-lg active:scale-95"
+                        disabled={isSubmitting}
+                        aria-label={`Remove item ${index + 1}`}
+                      >
+                        <svg width="14" height="14" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                          <path d="M18 6L6 18M6 6L18 18" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+                        </svg>
+                      </button>
+                      <div className="absolute bottom-2 left-2 bg-black bg-opacity-60 backdrop-blur-sm text-white text-xs px-2 py-0.5 rounded-full">
+                        {index + 1} {item.file.type.startsWith('image/') ? '📷' : '🎥'}
+                      </div>
+                      {media.length > 1 && (
+                        <div className="absolute bottom-2 right-2 flex gap-1">
+                          <button
+                            type="button"
+                            onClick={() => moveMedia(index, index - 1)}
+                            disabled={isSubmitting || index === 0}
+                            className="w-6 h-6 bg-white/90 text-gray-900 rounded-full text-xs shadow disabled:opacity-40"
+                            aria-label="Move earlier"
+                          >
+                            ←
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => moveMedia(index, index + 1)}
+                            disabled={isSubmitting || index === media.length - 1}
+                            className="w-6 h-6 bg-white/90 text-gray-900 rounded-full text-xs shadow disabled:opacity-40"
+                            aria-label="Move later"
+                          >
+                            →
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
                 </div>
               )}
 
@@ -303,14 +380,69 @@ export default function CreatePostPage() {
                 </div>
               </div>
 
+              {category === 'events' && (
+                <div className="mb-6">
+                  <label className="text-sm font-semibold text-gray-700 mb-3 block">Event Details</label>
+                  <EventFields value={eventForm} onChange={setEventForm} disabled={isSubmitting} />
+                </div>
+              )}
+
+              {category === 'internship' && (
+                <div className="mb-6">
+                  <label className="text-sm font-semibold text-gray-700 mb-3 block">Internship Details</label>
+                  <InternshipFields value={internshipForm} onChange={setInternshipForm} disabled={isSubmitting} />
+                </div>
+              )}
+
+              {/* Location */}
+              <div className="mb-6">
+                <label className="text-sm font-semibold text-gray-700 mb-3 flex items-center gap-2">
+                  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                    <path d="M12 21C12 21 19 15.5 19 10C19 6.13 15.87 3 12 3C8.13 3 5 6.13 5 10C5 15.5 12 21 12 21Z" stroke="currentColor" strokeWidth="2" strokeLinejoin="round" />
+                    <circle cx="12" cy="10" r="2.5" stroke="currentColor" strokeWidth="2" />
+                  </svg>
+                  Add Location
+                </label>
+                <PlacePicker value={place} onChange={setPlace} disabled={isSubmitting} />
+              </div>
+
+              {/* Poll */}
+              <div className="mb-6">
+                <label className="text-sm font-semibold text-gray-700 mb-3 block">Poll</label>
+                <PollFields value={pollForm} onChange={setPollForm} disabled={isSubmitting} />
+              </div>
+
+              {/* Audience */}
+              <div className="mb-6">
+                <label className="text-sm font-semibold text-gray-700 mb-3 block">Audience</label>
+                <AudienceFields value={audienceForm} onChange={setAudienceForm} disabled={isSubmitting} />
+              </div>
+
+              {/* Tag People */}
+              <div className="mb-6">
+                <label className="text-sm font-semibold text-gray-700 mb-3 flex items-center gap-2">
+                  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                    <circle cx="12" cy="8" r="4" stroke="currentColor" strokeWidth="2" />
+                    <path d="M4 21C4 17.13 7.58 14 12 14C16.42 14 20 17.13 20 21" stroke="currentColor" strokeWidth="2" strokeLinecap="round" />
+                  </svg>
+                  Tag People
+                </label>
+                <TagPeoplePicker
+                  tagged={tagged}
+                  onAdd={(u) => setTagged((prev) => [...prev, u])}
+                  onRemove={(userId) => setTagged((prev) => prev.filter((u) => u.id !== userId))}
+                  disabled={isSubmitting}
+                />
+              </div>
+
               {/* Media Upload */}
               <div className="mb-6">
-                <label className={`flex items-center justify-center gap-3 px-6 py-4 border-2 border-dashed rounded-xl cursor-pointer transition-all group ${mediaPreview
+                <label className={`flex items-center justify-center gap-3 px-6 py-4 border-2 border-dashed rounded-xl cursor-pointer transition-all group ${media.length > 0
                   ? 'border-[#FFAF50] bg-[#FFAF50]/5'
                   : 'border-gray-300 hover:border-[#FFAF50] hover:bg-gray-50'
                   }`}>
                   <div className="flex items-center gap-3">
-                    <div className={`p-2 rounded-lg transition-colors ${mediaPreview
+                    <div className={`p-2 rounded-lg transition-colors ${media.length > 0
                       ? 'bg-[#FFAF50] text-white'
                       : 'bg-gray-100 text-gray-600 group-hover:bg-[#FFAF50] group-hover:text-white'
                       }`}>
@@ -320,18 +452,19 @@ export default function CreatePostPage() {
                     </div>
                     <div className="text-left">
                       <span className="block text-sm font-semibold text-gray-900">
-                        {mediaPreview ? 'Change Media' : 'Add Photo or Video'}
+                        {media.length > 0 ? `Add More (${media.length}/${MAX_POST_MEDIA})` : 'Add Photos or Videos'}
                       </span>
-                      <span className="block text-xs text-gray-500">Max size: 10MB</span>
+                      <span className="block text-xs text-gray-500">Up to {MAX_POST_MEDIA} files, 10MB each</span>
                     </div>
                   </div>
                   <input
                     ref={fileInputRef}
                     type="file"
                     accept="image/*,video/*"
+                    multiple
                     onChange={handleMediaChange}
                     className="hidden"
-                    disabled={isSubmitting}
+                    disabled={isSubmitting || media.length >= MAX_POST_MEDIA}
                   />
                 </label>
               </div>
@@ -0,0 +1,265 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import PostCard from '../../../../components/PostCard';
+import PostModal from '../../../../components/PostModal';
+import { usePosts } from '../../../../hooks/usePosts';
+import { useAuth } from '../../../../contexts/AuthContext';
+import { fetchAPI } from '../../../../lib/dataFetcher';
+import { PLACE_KIND_LABELS, PlaceKind, PlaceSummary } from '../../../../lib/places';
+import type { EventView } from '../../../../lib/events';
+import type { InternshipView } from '../../../../lib/internships';
+import type { AudienceView } from '../../../../lib/postAudience';
+import type { PollView } from '../../../../lib/polls';
+import type { MediaItem } from '../../../../lib/postMedia';
+
+interface PlaceDetails {
+  id: number;
+  name: string;
+  kind: PlaceKind;
+  description: string | null;
+  is_archived: boolean;
+  post_count: number;
+}
+
+// PostModal expected type
+interface PostModalData {
+  id: number;
+  authorName: string;
+  authorDept: string;
+  authorYear: number;
+  content: string;
+  category?: string;
+  auraCount: number;
+  commentCount: number;
+  timestamp: string;
+  profilePic?: string;
+  mediaUrl?: string;
+  mediaType?: 'image' | 'video';
+  location?: string;
+  place?: PlaceSummary | null;
+  editedAt?: string | null;
+  event?: EventView | null;
+  internship?: InternshipView | null;
+  audience?: AudienceView | null;
+  poll?: PollView | null;
+  userLiked?: boolean;
+  mediaCarousel?: MediaItem[];
+}
+
+interface PostCardData {
+  id: number;
+  authorName: string;
+  authorDept: string;
+  authorYear: number;
+  content: string;
+  category?: string;
+  auraCount: number;
+  commentCount: number;
+  timestamp: string;
+  editedAt?: string | null;
+  event?: EventView | null;
+  internship?: InternshipView | null;
+  audience?: AudienceView | null;
+  poll?: PollView | null;
+  profilePic?: string;
+  mediaUrl?: string;
+  mediaType?: 'image' | 'video';
+  media?: MediaItem[];
+  place?: PlaceSummary | null;
+  userLiked?: boolean;
+}
+
+export default function LocationFeedPage() {
+  const params = useParams();
+  const router = useRouter();
+  const placeId = parseInt(String(params?.placeId ?? ''), 10);
+  const validId = Number.isInteger(placeId) && placeId > 0;
+
+  const { user, token, isLoading } = useAuth();
+  const [place, setPlace] = useState<PlaceDetails | null>(null);
+  const [placeError, setPlaceError] = useState<string | null>(null);
+  const [selectedPost, setSelectedPost] = useState<PostModalData | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const { posts, loading, error, refetch, loadMore, hasMore } = usePosts(
+    undefined,
+    20,
+    validId ? placeId : undefined
+  );
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      router.push('/landing');
+    }
+  }, [user, isLoading, router]);
+
+  useEffect(() => {
+    if (!token || !validId) return;
+    let cancelled = false;
+    setPlaceError(null);
+    fetchAPI<{ place: PlaceDetails }>(`/api/places/${placeId}`, { token, cacheTTL: 60000 })
+      .then((data) => {
+        if (!cancelled) setPlace(data.place);
+      })
+      .catch((err: any) => {
+        if (!cancelled) setPlaceError(err.message || 'Place not found');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token, placeId, validId]);
+
+  const handlePostClick = useCallback((postCardData: PostCardData) => {
+    setSelectedPost({
+      id: postCardData.id,
+      authorName: postCardData.authorName,
+      authorDept: postCardData.authorDept,
+      authorYear: postCardData.authorYear,
+      content: postCardData.content,
+      category: postCardData.category,
+      auraCount: postCardData.auraCount,
+      commentCount: postCardData.commentCount,
+      timestamp: postCardData.timestamp,
+      profilePic: postCardData.profilePic,
+      mediaUrl: postCardData.mediaUrl,
+      mediaType: postCardData.mediaType,
+      mediaCarousel: postCardData.media,
+      userLiked: postCardData.userLiked,
+      location: postCardData.place?.name,
+      place: postCardData.place,
+      editedAt: postCardData.editedAt,
+      event: postCardData.event,
+      internship: postCardData.internship,
+      audience: postCardData.audience,
+      poll: postCardData.poll,
+    });
+    setIsModalOpen(true);
+  }, []);
+
+  const handleCloseModal = useCallback(() => {
+    setIsModalOpen(false);
+    setSelectedPost(null);
+  }, []);
+
+  if (isLoading || !user) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="w-16 h-16 border-4 border-accent border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!validId || placeError) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center px-4">
+        <div className="text-center space-y-3">
+          <h1 className="text-xl font-bold text-text">Place not found</h1>
+          <p className="text-sm text-text-secondary">This location isn&apos;t in the campus catalog.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-[630px] mx-auto px-0 md:px-0 py-0 md:py-6">
+        {/* Place header */}
+        <div className="bg-white border-b md:border md:rounded-xl border-border-light px-4 py-5 mb-4 flex items-start gap-4">
+          <div className="w-16 h-16 rounded-full bg-gray-100 flex items-center justify-center flex-shrink-0">
+            <svg className="w-8 h-8 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
+            </svg>
+          </div>
+          {place ? (
+            <div className="min-w-0">
+              <h1 className="text-xl font-bold text-text truncate">{place.name}</h1>
+              <p className="text-sm text-text-secondary">
+                {PLACE_KIND_LABELS[place.kind]} · {place.post_count} {place.post_count === 1 ? 'post' : 'posts'}
+              </p>
+              {place.description && (
+                <p className="text-sm text-gray-700 mt-2 whitespace-pre-line">{place.description}</p>
+              )}
+            </div>
+          ) : (
+            <div className="flex-1 space-y-2 pt-2">
+              <div className="h-4 w-40 bg-gray-200 rounded animate-pulse" />
+              <div className="h-3 w-24 bg-gray-100 rounded animate-pulse" />
+            </div>
+          )}
+        </div>
+
+        {/* Feed */}
+        <div className="space-y-4">
+          {loading && posts.length === 0 ? (
+            <div className="flex justify-center items-center py-12">
+              <div className="w-8 h-8 border-4 border-gray-200 border-t-text rounded-full animate-spin"></div>
+            </div>
+          ) : error ? (
+            <div className="text-center py-12 px-4">
+              <p className="text-text-secondary mb-4">Unable to load posts</p>
+              <button onClick={refetch} className="btn-secondary">
+                Try Again
+              </button>
+            </div>
+          ) : posts.length > 0 ? (
+            <>
+              {posts.map((post) => (
+                <PostCard
+                  key={post.id}
+                  id={post.id}
+                  authorId={post.author.id}
+                  authorName={post.author.name}
+                  authorDept={post.author.department}
+                  authorYear={post.author.year}
+                  authorRole={post.author.role}
+                  content={post.content}
+                  category={post.category}
+                  auraCount={post.aura_count}
+                  commentCount={0}
+                  timestamp={new Date(post.created_at).toLocaleDateString()}
+                  editedAt={post.edited_at}
+                  event={post.event}
+                  internship={post.internship}
+                  audience={post.audience}
+                  poll={post.poll}
+                  profilePic={post.author.profile_image}
+                  mediaUrl={post.media_url}
+                  mediaType={post.media_type as 'image' | 'video'}
+                  media={post.media}
+                  place={post.place}
+                  tags={post.tags}
+                  userLiked={post.user_liked}
+                  userSaved={post.user_saved}
+                  isFollowingUser={post.is_following_author}
+                  onPostClick={handlePostClick}
+                />
+              ))}
+              {hasMore && (
+                <div className="flex justify-center py-4">
+                  <button onClick={loadMore} disabled={loading} className="btn-secondary disabled:opacity-50">
+                    {loading ? 'Loading...' : 'Load more'}
+                  </button>
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="text-center py-12 px-4">
+              <h3 className="text-lg font-semibold text-text mb-2">No posts here yet</h3>
+              <p className="text-text-secondary">Posts tagged with this place will show up here.</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {selectedPost && (
+        <PostModal
+          isOpen={isModalOpen}
+          onClose={handleCloseModal}
+          post={selectedPost}
+        />
+      )}
+    </div>
+  );
+}
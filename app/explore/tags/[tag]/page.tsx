@@ -0,0 +1,355 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import PostCard from '../../../../components/PostCard';
+import PostModal from '../../../../components/PostModal';
+import { useAuth } from '../../../../contexts/AuthContext';
+import { useToast } from '../../../../contexts/ToastContext';
+import { fetchAPI } from '../../../../lib/dataFetcher';
+import { normalizeHashtag } from '../../../../lib/hashtags';
+import type { UserRole } from '../../../../lib/roles';
+import type { MediaItem } from '../../../../lib/postMedia';
+import type { PlaceSummary } from '../../../../lib/places';
+import type { EventView } from '../../../../lib/events';
+import type { InternshipView } from '../../../../lib/internships';
+import type { AudienceView } from '../../../../lib/postAudience';
+import type { PollView } from '../../../../lib/polls';
+import type { PostTagView } from '../../../../lib/postTags';
+import type { QuotedPostView } from '../../../../lib/reposts';
+
+const PAGE_SIZE = 20;
+
+interface HashtagDetails {
+  tag: string;
+  post_count: number;
+  last_used_at: string | null;
+  is_following: boolean;
+}
+
+interface Post {
+  id: number;
+  content: string;
+  category: string;
+  media_url?: string;
+  media_type?: string;
+  media?: MediaItem[];
+  place?: PlaceSummary | null;
+  tags?: PostTagView[];
+  aura_count: number;
+  user_liked: boolean;
+  user_saved?: boolean;
+  created_at: string;
+  edited_at?: string | null;
+  event?: EventView | null;
+  internship?: InternshipView | null;
+  audience?: AudienceView | null;
+  poll?: PollView | null;
+  quote_of?: number | null;
+  quoted_post?: QuotedPostView | null;
+  repost_count?: number;
+  user_reposted?: boolean;
+  author: {
+    id: number;
+    name: string;
+    department: string;
+    year: number;
+    profile_image?: string;
+    role?: UserRole;
+  };
+}
+
+// PostModal expected type
+interface PostModalData {
+  id: number;
+  authorId?: number;
+  authorName: string;
+  authorDept: string;
+  authorYear: number;
+  content: string;
+  category?: string;
+  auraCount: number;
+  commentCount: number;
+  timestamp: string;
+  profilePic?: string;
+  mediaUrl?: string;
+  mediaType?: 'image' | 'video';
+  location?: string;
+  place?: PlaceSummary | null;
+  editedAt?: string | null;
+  event?: EventView | null;
+  internship?: InternshipView | null;
+  audience?: AudienceView | null;
+  poll?: PollView | null;
+  quoteOf?: number | null;
+  quotedPost?: QuotedPostView | null;
+  repostCount?: number;
+  userReposted?: boolean;
+  userLiked?: boolean;
+  userSaved?: boolean;
+  mediaCarousel?: MediaItem[];
+}
+
+interface PostCardData {
+  id: number;
+  authorId?: number;
+  authorName: string;
+  authorDept: string;
+  authorYear: number;
+  content: string;
+  category?: string;
+  auraCount: number;
+  commentCount: number;
+  timestamp: string;
+  editedAt?: string | null;
+  event?: EventView | null;
+  internship?: InternshipView | null;
+  audience?: AudienceView | null;
+  poll?: PollView | null;
+  quoteOf?: number | null;
+  quotedPost?: QuotedPostView | null;
+  repostCount?: number;
+  userReposted?: boolean;
+  profilePic?: string;
+  mediaUrl?: string;
+  mediaType?: 'image' | 'video';
+  media?: MediaItem[];
+  place?: PlaceSummary | null;
+  userLiked?: boolean;
+  userSaved?: boolean;
+}
+
+export default function HashtagFeedPage() {
+  const params = useParams();
+  const router = useRouter();
+  const tag = normalizeHashtag(decodeURIComponent(String(params?.tag ?? '')));
+
+  const { user, token, isLoading } = useAuth();
+  const { showToast } = useToast();
+  const [hashtag, setHashtag] = useState<HashtagDetails | null>(null);
+  const [posts, setPosts] = useState<Post[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  // Can run ahead of posts.length when some posts are hidden from this viewer
+  const [nextOffset, setNextOffset] = useState(0);
+  const [followBusy, setFollowBusy] = useState(false);
+  const [selectedPost, setSelectedPost] = useState<PostModalData | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      router.push('/landing');
+    }
+  }, [user, isLoading, router]);
+
+  const loadPosts = useCallback(async (offset: number) => {
+    if (!token || !tag) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await fetchAPI<{ hashtag: HashtagDetails; posts: Post[]; has_more: boolean }>(
+        `/api/hashtags/${encodeURIComponent(tag)}?limit=${PAGE_SIZE}&offset=${offset}`,
+        { token, skipCache: true }
+      );
+      setHashtag(data.hashtag);
+      setPosts((prev) => {
+        if (offset === 0) return data.posts || [];
+        const seen = new Set(prev.map((p) => p.id));
+        return [...prev, ...(data.posts || []).filter((p) => !seen.has(p.id))];
+      });
+      setHasMore(!!data.has_more);
+      setNextOffset(offset + PAGE_SIZE);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load posts');
+    } finally {
+      setLoading(false);
+    }
+  }, [token, tag]);
+
+  useEffect(() => {
+    loadPosts(0);
+  }, [loadPosts]);
+
+  const handleFollowToggle = async () => {
+    if (!token || !hashtag || followBusy) return;
+    const following = !hashtag.is_following;
+    setFollowBusy(true);
+    try {
+      await fetchAPI(`/api/hashtags/${encodeURIComponent(hashtag.tag)}/follow`, {
+        method: following ? 'POST' : 'DELETE',
+        token,
+        skipCache: true,
+        retries: 0,
+      });
+      setHashtag({ ...hashtag, is_following: following });
+      if (following) showToast(`Posts with #${hashtag.tag} will show up in your feed`, 'success');
+    } catch (err: any) {
+      showToast(err.message || 'Failed to update hashtag', 'error');
+    } finally {
+      setFollowBusy(false);
+    }
+  };
+
+  const handlePostClick = useCallback((postCardData: PostCardData) => {
+    setSelectedPost({
+      id: postCardData.id,
+      authorId: postCardData.authorId,
+      authorName: postCardData.authorName,
+      authorDept: postCardData.authorDept,
+      authorYear: postCardData.authorYear,
+      content: postCardData.content,
+      category: postCardData.category,
+      auraCount: postCardData.auraCount,
+      commentCount: postCardData.commentCount,
+      timestamp: postCardData.timestamp,
+      profilePic: postCardData.profilePic,
+      mediaUrl: postCardData.mediaUrl,
+      mediaType: postCardData.mediaType,
+      mediaCarousel: postCardData.media,
+      userLiked: postCardData.userLiked,
+      userSaved: postCardData.userSaved,
+      location: postCardData.place?.name,
+      place: postCardData.place,
+      editedAt: postCardData.editedAt,
+      event: postCardData.event,
+      internship: postCardData.internship,
+      audience: postCardData.audience,
+      poll: postCardData.poll,
+      quoteOf: postCardData.quoteOf,
+      quotedPost: postCardData.quotedPost,
+      repostCount: postCardData.repostCount,
+      userReposted: postCardData.userReposted,
+    });
+    setIsModalOpen(true);
+  }, []);
+
+  const handleCloseModal = useCallback(() => {
+    setIsModalOpen(false);
+    setSelectedPost(null);
+  }, []);
+
+  if (isLoading || !user) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="w-16 h-16 border-4 border-accent border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!tag) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center px-4">
+        <div className="text-center space-y-3">
+          <h1 className="text-xl font-bold text-text">Hashtag not found</h1>
+          <p className="text-sm text-text-secondary">That isn&apos;t a valid hashtag.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-[630px] mx-auto px-0 md:px-0 py-0 md:py-6">
+        {/* Hashtag header */}
+        <div className="bg-white border-b md:border md:rounded-xl border-border-light px-4 py-5 mb-4 flex items-center gap-4">
+          <div className="w-16 h-16 rounded-full bg-gray-100 flex items-center justify-center flex-shrink-0 text-2xl font-bold text-gray-600">
+            #
+          </div>
+          <div className="min-w-0 flex-1">
+            <h1 className="text-xl font-bold text-text truncate">#{tag}</h1>
+            {hashtag ? (
+              <p className="text-sm text-text-secondary">
+                {hashtag.post_count} {hashtag.post_count === 1 ? 'post' : 'posts'}
+              </p>
+            ) : (
+              <div className="h-3 w-24 mt-2 bg-gray-100 rounded animate-pulse" />
+            )}
+          </div>
+          {hashtag && (
+            <button
+              onClick={handleFollowToggle}
+              disabled={followBusy}
+              className={`${hashtag.is_following ? 'btn-secondary' : 'btn-primary'} disabled:opacity-50`}
+            >
+              {hashtag.is_following ? 'Following' : 'Follow'}
+            </button>
+          )}
+        </div>
+
+        {/* Feed */}
+        <div className="space-y-4">
+          {loading && posts.length === 0 ? (
+            <div className="flex justify-center items-center py-12">
+              <div className="w-8 h-8 border-4 border-gray-200 border-t-text rounded-full animate-spin"></div>
+            </div>
+          ) : error ? (
+            <div className="text-center py-12 px-4">
+              <p className="text-text-secondary mb-4">Unable to load posts</p>
+              <button onClick={() => loadPosts(0)} className="btn-secondary">
+                Try Again
+              </button>
+            </div>
+          ) : posts.length > 0 ? (
+            <>
+              {posts.map((post) => (
+                <PostCard
+                  key={post.id}
+                  id={post.id}
+                  authorId={post.author.id}
+                  authorName={post.author.name}
+                  authorDept={post.author.department}
+                  authorYear={post.author.year}
+                  authorRole={post.author.role}
+                  content={post.content}
+                  category={post.category}
+                  auraCount={post.aura_count}
+                  commentCount={0}
+                  timestamp={new Date(post.created_at).toLocaleDateString()}
+                  editedAt={post.edited_at}
+                  event={post.event}
+                  internship={post.internship}
+                  audience={post.audience}
+                  poll={post.poll}
+                  quoteOf={post.quote_of}
+                  quotedPost={post.quoted_post}
+                  repostCount={post.repost_count}
+                  userReposted={post.user_reposted}
+                  profilePic={post.author.profile_image}
+                  mediaUrl={post.media_url}
+                  mediaType={post.media_type as 'image' | 'video'}
+                  media={post.media}
+                  place={post.place}
+                  tags={post.tags}
+                  userLiked={post.user_liked}
+                  userSaved={post.user_saved}
+                  onPostClick={handlePostClick}
+                />
+              ))}
+              {hasMore && (
+                <div className="flex justify-center py-4">
+                  <button onClick={() => loadPosts(nextOffset)} disabled={loading} className="btn-secondary disabled:opacity-50">
+                    {loading ? 'Loading...' : 'Load more'}
+                  </button>
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="text-center py-12 px-4">
+              <h3 className="text-lg font-semibold text-text mb-2">No posts yet</h3>
+              <p className="text-text-secondary">Posts with #{tag} in their caption will show up here.</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {selectedPost && (
+        <PostModal
+          isOpen={isModalOpen}
+          onClose={handleCloseModal}
+          post={selectedPost}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,10 @@
 'use client';
 
 import React, { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import { useAuth } from '../../contexts/AuthContext';
+import { useAuth, getReactivationNotice } from '../../contexts/AuthContext';
+import { useToast } from '../../contexts/ToastContext';
 
 export default function LandingPage() {
   const [showLogin, setShowLogin] = useState(true);
@@ -20,8 +22,11 @@ export default function LandingPage() {
   });
   const [isSubmitLoading, setIsSubmitLoading] = useState(false);
   const [error, setError] = useState('');
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  const [mfaCode, setMfaCode] = useState('');
 
-  const { login, register, user, isLoading } = useAuth();
+  const { login, verifyMfa, register, user, isLoading } = useAuth();
+  const { showToast } = useToast();
 
   // Move all hooks before any conditional logic
   const handleLogin = useCallback(async (e: React.FormEvent) => {
@@ -29,16 +34,44 @@ export default function LandingPage() {
     setIsSubmitLoading(true);
     setError('');
 
-    const success = await login(loginForm.college_id, loginForm.password);
+    const result = await login(loginForm.college_id, loginForm.password);
     
-    if (success) {
+    if (result.success) {
+      const notice = getReactivationNotice(result);
+      if (notice) showToast(notice, 'success', 6000);
       router.push('/');
+    } else if (result.mfaRequired && result.mfaToken) {
+      setMfaToken(result.mfaToken);
+      setMfaCode('');
     } else {
-      setError('Invalid college ID or password');
+      setError(result.message || 'Invalid college ID or password');
     }
     
     setIsSubmitLoading(false);
-  }, [login, loginForm.college_id, loginForm.password, router]);
+  }, [login, loginForm.college_id, loginForm.password, router, showToast]);
+
+  const handleVerifyMfa = useCallback(async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!mfaToken) return;
+    setIsSubmitLoading(true);
+    setError('');
+
+    const result = await verifyMfa(mfaToken, mfaCode.trim());
+
+    if (result.success) {
+      const notice = getReactivationNotice(result);
+      if (notice) showToast(notice, 'success', 6000);
+      router.push('/');
+    } else {
+      setError(result.message || 'Invalid authentication code');
+      // The pending token expires after a few minutes; start over from the password step
+      if (result.message?.includes('expired')) {
+        setMfaToken(null);
+      }
+    }
+
+    setIsSubmitLoading(false);
+  }, [verifyMfa, mfaToken, mfaCode, router, showToast]);
 
   const handleRegister = useCallback(async (e: React.FormEvent) => {
     e.preventDefault();
@@ -171,7 +204,48 @@ export default function LandingPage() {
                 </div>
               )}
 
-              {showLogin ? (
+              {showLogin && mfaToken ? (
+                /* Two-factor code step */
+                <form onSubmit={handleVerifyMfa} className="space-y-6">
+                  <h2 className="text-2xl font-bold text-gray-900 mb-2">Two-factor authentication</h2>
+                  <p className="text-sm text-gray-600">Enter the 6-digit code from your authenticator app, or one of your backup codes.</p>
+
+                  <div>
+                    <label htmlFor="login-mfa-code" className="block text-sm font-medium text-gray-700 mb-2">
+                      Authentication Code
+                    </label>
+                    <input
+                      id="login-mfa-code"
+                      name="code"
+                      type="text"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      autoFocus
+                      required
+                      value={mfaCode}
+                      onChange={(e) => setMfaCode(e.target.value)}
+                      className="w-full text-gray-500 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#FFAF50] focus:border-transparent outline-none transition-all tracking-widest"
+                      placeholder="123456"
+                    />
+                  </div>
+
+                  <button
+                    type="submit"
+                    disabled={isSubmitLoading}
+                    className="w-full bg-[#FFAF50] hover:bg-orange-500 text-black font-semibold py-3 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isSubmitLoading ? 'Verifying...' : 'Verify'}
+                  </button>
+
+                  <button
+                    type="button"
+                    onClick={() => { setMfaToken(null); setError(''); }}
+                    className="w-full text-sm text-gray-600 hover:text-gray-900"
+                  >
+                    Back to sign in
+                  </button>
+                </form>
+              ) : showLogin ? (
                 /* Login Form */
                 <form onSubmit={handleLogin} className="space-y-6">
                   <h2 className="text-2xl font-bold text-gray-900 mb-6">Welcome Back!</h2>
@@ -206,6 +280,11 @@ export default function LandingPage() {
                       className="w-full text-gray-500 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#FFAF50] focus:border-transparent outline-none transition-all"
                       placeholder="Enter password"
                     />
+                    <div className="mt-2 text-right">
+                      <Link href="/reset-password" className="text-sm text-[#FFAF50] hover:text-orange-600 font-medium">
+                        Forgot password?
+                      </Link>
+                    </div>
                   </div>
 
                   <button
@@ -49,6 +49,12 @@ interface Message {
     text: string;
     senderName: string;
   } | null;
+  // Set on replies to a story; the media is null once the story is gone
+  storyReply?: {
+    id: number;
+    mediaUrl: string | null;
+    mediaType: 'image' | 'video' | null;
+  } | null;
   deleted_for?: number[];
 }
 
@@ -1188,6 +1194,26 @@ const MessagesPageInner = () => {
                     <div className={`flex ${isFromMe ? 'flex-row-reverse' : 'flex-row'} items-end gap-2 max-w-[70%]`}>
                       {/* Message Bubble */}
                       <div className="relative">
+                        {/* Story Reply Preview */}
+                        {message.storyReply && (
+                          <div className={`mb-1 flex flex-col ${isFromMe ? 'items-end' : 'items-start'}`}>
+                            <div className="text-xs text-gray-500 mb-1">
+                              {isFromMe ? 'You replied to their story' : 'Replied to your story'}
+                            </div>
+                            {message.storyReply.mediaUrl ? (
+                              <div className="w-20 h-32 rounded-lg overflow-hidden bg-gray-200">
+                                {message.storyReply.mediaType === 'video' ? (
+                                  <video src={message.storyReply.mediaUrl} muted playsInline preload="metadata" className="w-full h-full object-cover" />
+                                ) : (
+                                  <Image src={message.storyReply.mediaUrl} alt="Story" width={80} height={128} className="w-full h-full object-cover" />
+                                )}
+                              </div>
+                            ) : (
+                              <div className="text-xs px-3 py-1.5 rounded-lg bg-gray-100 text-gray-500">Story unavailable</div>
+                            )}
+                          </div>
+                        )}
+
                         {/* Reply Preview */}
                         {message.replyTo && (
                           <div className={`text-xs px-3 py-1.5 mb-1 rounded-lg border-l-2 ${isFromMe
@@ -50,6 +50,32 @@ export default function NotificationsPage() {
     } catch { }
   }, []);
 
+  // Load saved notifications (ones sent while this page wasn't open) and merge
+  // them with the locally kept list
+  useEffect(() => {
+    const loadNotifications = async () => {
+      if (!token) return;
+      try {
+        const data = await fetchAPI<{ notifications: Notification[] }>(
+          '/api/notifications',
+          { token, skipCache: true }
+        );
+        const saved = data.notifications || [];
+        setNotifications(prev => {
+          const savedIds = new Set(saved.map(n => n.id));
+          const next = [...saved, ...prev.filter(n => !savedIds.has(n.id))]
+            .sort((a, b) => new Date(b.time).getTime() - new Date(a.time).getTime())
+            .slice(0, 200);
+          try { localStorage.setItem('notifications', JSON.stringify(next)); } catch { }
+          return next;
+        });
+      } catch (err: any) {
+        console.error('Failed to load notifications:', err);
+      }
+    };
+    loadNotifications();
+  }, [token]);
+
   // Load follow requests
   useEffect(() => {
     const loadRequests = async () => {
@@ -74,11 +100,12 @@ export default function NotificationsPage() {
   useEffect(() => {
     const unsubGeneric = onNotification?.((notif: any) => {
       setNotifications(prev => {
+        if (notif.id && prev.some(n => n.id === notif.id)) return prev;
         const next = [{
           id: notif.id || `${Date.now()}`,
           type: notif.type || 'system',
           message: notif.message || 'Notification',
-          time: new Date().toISOString(),
+          time: notif.time || new Date().toISOString(),
           read: false,
           meta: notif.meta,
         } as Notification, ...prev].slice(0, 200);
@@ -137,18 +164,30 @@ export default function NotificationsPage() {
     }
   };
 
+  const saveReadState = (ids?: string[]) => {
+    setNotifications(prev => {
+      const next = prev.map(notif =>
+        !ids || ids.includes(notif.id) ? { ...notif, read: true } : notif
+      );
+      try { localStorage.setItem('notifications', JSON.stringify(next)); } catch { }
+      return next;
+    });
+
+    if (!token) return;
+    fetchAPI('/api/notifications', {
+      method: 'POST',
+      token,
+      body: JSON.stringify(ids ? { ids } : {}),
+      skipCache: true
+    }).catch(err => console.error('Failed to mark notifications read:', err));
+  };
+
   const markAsRead = (id: string) => {
-    setNotifications(prev =>
-      prev.map(notif =>
-        notif.id === id ? { ...notif, read: true } : notif
-      )
-    );
+    saveReadState([id]);
   };
 
   const markAllAsRead = () => {
-    setNotifications(prev =>
-      prev.map(notif => ({ ...notif, read: true }))
-    );
+    saveReadState();
   };
 
   if (!user) {
@@ -5,11 +5,23 @@ import { useRouter } from 'next/navigation';
 import PostCard from '../components/PostCard';
 import PostModal from '../components/PostModal';
 import SwipeButton from '../components/SwipeButton';
+import StoriesTray from '../components/StoriesTray';
 import { usePosts } from '../hooks/usePosts';
 import { useAuth } from '../contexts/AuthContext';
 import Link from 'next/link';
+import type { MediaItem } from '../lib/postMedia';
+import type { PlaceSummary } from '../lib/places';
+import type { EventView } from '../lib/events';
+import type { InternshipView } from '../lib/internships';
+import type { AudienceView } from '../lib/postAudience';
+import type { PollView } from '../lib/polls';
+import type { QuotedPostView } from '../lib/reposts';
+import { parseFeedMode, type FeedMode } from '../lib/feedRanking';
 
 // Lazy load suggestion components to speed up initial load
+// Remembers whether the home feed was last on "For you" or "Latest"
+const FEED_MODE_KEY = 'homeFeedMode';
+
 const SuggestionsSection = lazy(() => import('../components/SuggestionsSection'));
 const SuggestedUsers = lazy(() => import('../components/SuggestedUsers'));
 
@@ -29,6 +41,16 @@ interface PostModalData {
   mediaUrl?: string;
   mediaType?: 'image' | 'video';
   location?: string;
+  place?: PlaceSummary | null;
+  editedAt?: string | null;
+  event?: EventView | null;
+  internship?: InternshipView | null;
+  audience?: AudienceView | null;
+  poll?: PollView | null;
+  quoteOf?: number | null;
+  quotedPost?: QuotedPostView | null;
+  repostCount?: number;
+  userReposted?: boolean;
   userLiked?: boolean;
   mediaCarousel?: Array<{
     url: string;
@@ -48,9 +70,20 @@ interface PostCardProps {
   auraCount: number;
   commentCount: number;
   timestamp: string;
+  editedAt?: string | null;
+  event?: EventView | null;
+  internship?: InternshipView | null;
+  audience?: AudienceView | null;
+  poll?: PollView | null;
+  quoteOf?: number | null;
+  quotedPost?: QuotedPostView | null;
+  repostCount?: number;
+  userReposted?: boolean;
   profilePic?: string;
   mediaUrl?: string;
   mediaType?: 'image' | 'video';
+  media?: MediaItem[];
+  place?: PlaceSummary | null;
   userLiked?: boolean;
   onPostClick?: (post: PostCardProps) => void;
 }
@@ -60,10 +93,30 @@ export default function HomePage() {
   const [selectedPost, setSelectedPost] = useState<PostModalData | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const { user, isLoading } = useAuth();
+  // "Hashtags" isn't a category: it's the posts carrying hashtags you follow
+  const showingHashtags = selectedCategory === 'hashtags';
+  const [feedMode, setFeedMode] = useState<FeedMode>(() => {
+    try {
+      const saved = typeof window !== 'undefined' ? localStorage.getItem(FEED_MODE_KEY) : null;
+      return saved ? parseFeedMode(saved) : 'for_you';
+    } catch {
+      return 'for_you';
+    }
+  });
   const { posts, loading, error, refetch } = usePosts(
-    selectedCategory === 'all' ? undefined : selectedCategory,
-    20
+    selectedCategory === 'all' || showingHashtags ? undefined : selectedCategory,
+    20,
+    undefined,
+    showingHashtags,
+    undefined,
+    feedMode
   );
+
+  const changeFeedMode = (mode: FeedMode) => {
+    setFeedMode(mode);
+    try { localStorage.setItem(FEED_MODE_KEY, mode); } catch { }
+  };
+
   const router = useRouter();
 
   // Move all hooks before any conditional logic
@@ -71,6 +124,7 @@ export default function HomePage() {
     // Convert PostCard props to PostModal expected type
     const modalPost: PostModalData = {
       id: postCardData.id,
+      authorId: postCardData.authorId,
       authorName: postCardData.authorName,
       authorDept: postCardData.authorDept,
       authorYear: postCardData.authorYear,
@@ -82,8 +136,19 @@ export default function HomePage() {
       profilePic: postCardData.profilePic,
       mediaUrl: postCardData.mediaUrl,
       mediaType: postCardData.mediaType,
+      mediaCarousel: postCardData.media,
       userLiked: postCardData.userLiked,
-      location: undefined // PostCard doesn't provide location
+      location: postCardData.place?.name,
+      place: postCardData.place,
+      editedAt: postCardData.editedAt,
+      event: postCardData.event,
+      internship: postCardData.internship,
+      audience: postCardData.audience,
+      poll: postCardData.poll,
+      quoteOf: postCardData.quoteOf,
+      quotedPost: postCardData.quotedPost,
+      repostCount: postCardData.repostCount,
+      userReposted: postCardData.userReposted
     };
     setSelectedPost(modalPost);
     setIsModalOpen(true);
@@ -108,6 +173,7 @@ export default function HomePage() {
     { id: 'clubs', name: 'Clubs', emoji: '👥' },
     { id: 'sports', name: 'Sports', emoji: '⚽' },
     { id: 'social', name: 'Social', emoji: '💬' },
+    { id: 'hashtags', name: 'Hashtags', emoji: '#️⃣' },
   ];
 
   // Show loading while checking auth
@@ -137,9 +203,29 @@ export default function HomePage() {
         <div className="grid grid-cols-1 lg:grid-cols-[630px_1fr] gap-6">
           {/* Feed column */}
           <div className="lg:col-span-2">
+            {/* Stories */}
+            <StoriesTray />
+
             {/* Category Filter (sticky) */}
             <div className="bg-white/95 backdrop-blur-sm supports-[backdrop-filter]:bg-white/95 top-0 z-sticky border-b border-border-light">
               <div className="px-4 md:px-0 py-4">
+                {/* Ranked or chronological */}
+                <div className="flex items-center gap-6 mb-3 text-sm font-semibold" role="tablist">
+                  {([['for_you', 'For you'], ['chronological', 'Latest']] as const).map(([mode, label]) => (
+                    <button
+                      key={mode}
+                      role="tab"
+                      aria-selected={feedMode === mode}
+                      onClick={() => changeFeedMode(mode)}
+                      className={`pb-1 border-b-2 transition-colors ${feedMode === mode
+                        ? 'border-text text-text'
+                        : 'border-transparent text-text-secondary hover:text-text'
+                        }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
                 <div className="flex items-center gap-2 overflow-x-auto scrollbar-hide pb-1">
                   {categories.map((category) => (
                     <button
@@ -194,15 +280,31 @@ export default function HomePage() {
                     authorName={post.author.name}
                     authorDept={post.author.department}
                     authorYear={post.author.year}
+                    authorRole={post.author.role}
                     content={post.content}
                     category={post.category}
                     auraCount={post.aura_count}
                     commentCount={0}
                     timestamp={new Date(post.created_at).toLocaleDateString()}
+                    editedAt={post.edited_at}
+                    event={post.event}
+                    internship={post.internship}
+                    audience={post.audience}
+                    poll={post.poll}
+                    repostedBy={post.reposted_by}
+                    quoteOf={post.quote_of}
+                    quotedPost={post.quoted_post}
+                    repostCount={post.repost_count}
+                    userReposted={post.user_reposted}
                     profilePic={post.author.profile_image}
                     mediaUrl={post.media_url}
                     mediaType={post.media_type as 'image' | 'video'}
+                    media={post.media}
+                    place={post.place}
+                    tags={post.tags}
                     userLiked={post.user_liked}
+                    userSaved={post.user_saved}
+                    followedHashtags={post.followed_hashtags}
                     isFollowingUser={post.is_following_author}
                     onPostClick={handlePostClick}
                     isFirstPost={index === 0 && post.media_type === 'video'}
@@ -215,6 +317,8 @@ export default function HomePage() {
                   <p className="text-text-secondary mb-6">
                     {selectedCategory === 'all'
                       ? 'Be the first to share something!'
+                      : showingHashtags
+                      ? 'Posts with hashtags you follow show up here. Tap a #hashtag on any post to follow it.'
                       : `No posts in ${categories.find(c => c.id === selectedCategory)?.name} category yet.`}
                   </p>
                   {user && (
@@ -0,0 +1,44 @@
+import type { Metadata } from 'next';
+import { cache } from 'react';
+import { notFound } from 'next/navigation';
+import PostPermalink, { type PermalinkPost } from '../../../components/PostPermalink';
+import { getPostPreview } from '../../../lib/postLinks';
+import { postPreviewMetadata, privatePostMetadata } from '../../../lib/postPreview';
+import { getAppUrl } from '../../../lib/mailer';
+
+interface PostPageProps {
+  params: Promise<{ id: string }>;
+}
+
+// Who may see a post changes (private accounts, audiences, deletion), so never cache the page
+export const dynamic = 'force-dynamic';
+
+// generateMetadata and the page both need the post; load it once per request
+const loadPreview = cache(getPostPreview);
+
+function parsePostId(raw: string): number | null {
+  return /^\d+$/.test(raw) ? parseInt(raw, 10) : null;
+}
+
+export async function generateMetadata({ params }: PostPageProps): Promise<Metadata> {
+  const postId = parsePostId((await params).id);
+  const preview = postId ? await loadPreview(postId) : null;
+  if (!preview || preview.status === 'missing') return { title: 'Post not found' };
+  if (preview.status === 'private') return privatePostMetadata();
+  return postPreviewMetadata(preview.post, getAppUrl());
+}
+
+export default async function PostPage({ params }: PostPageProps) {
+  const postId = parsePostId((await params).id);
+  if (!postId) notFound();
+
+  const preview = await loadPreview(postId);
+  if (preview.status === 'missing') notFound();
+
+  // Round-trip through JSON so the client gets exactly what the API would send
+  const initialPost = preview.status === 'public'
+    ? JSON.parse(JSON.stringify(preview.post)) as PermalinkPost
+    : null;
+
+  return <PostPermalink postId={postId} initialPost={initialPost} />;
+}
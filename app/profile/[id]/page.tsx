@@ -9,7 +9,19 @@ import PostModal from '../../../components/PostModal';
 import FollowButton from '../../../components/FollowButton';
 import FollowersListModal from '../../../components/FollowersListModal';
 import MiniChatWindow from '../../../components/MiniChatWindow';
+import SavedPostsPanel from '../../../components/SavedPostsPanel';
 import { fetchAPI, dataFetcher } from '../../../lib/dataFetcher';
+import RoleBadge from '../../../components/RoleBadge';
+import StoryHighlights from '../../../components/StoryHighlights';
+import type { UserRole } from '../../../lib/roles';
+import type { MediaItem } from '../../../lib/postMedia';
+import type { PlaceSummary } from '../../../lib/places';
+import type { EventView } from '../../../lib/events';
+import type { InternshipView } from '../../../lib/internships';
+import type { AudienceView } from '../../../lib/postAudience';
+import type { PollView } from '../../../lib/polls';
+import type { QuotedPostView } from '../../../lib/reposts';
+import type { PostTagView } from '../../../lib/postTags';
 
 // User profile from API
 interface UserProfile {
@@ -22,6 +34,7 @@ interface UserProfile {
   created_at: string;
   bio?: string | null;
   profile_image?: string | null;
+  role?: UserRole;
   posts?: Post[];
   follower_count?: number;
   following_count?: number;
@@ -39,13 +52,78 @@ interface Post {
   category: string;
   media_url?: string;
   media_type?: string;
+  media?: MediaItem[];
+  place?: PlaceSummary | null;
+  tags?: PostTagView[];
   aura_count: number;
   comment_count: number;
   user_liked: boolean;
+  user_saved?: boolean;
   created_at: string;
+  edited_at?: string | null;
+  event?: EventView | null;
+  internship?: InternshipView | null;
+  audience?: AudienceView | null;
+  poll?: PollView | null;
+  quote_of?: number | null;
+  quoted_post?: QuotedPostView | null;
+  repost_count?: number;
+  user_reposted?: boolean;
   user_id: number;
+  // Set on tagged posts, which can be by someone else
+  author?: {
+    id: number;
+    name: string;
+    department: string;
+    year: number;
+    profile_image: string | null;
+  };
 }
 
+// Grid tile for posts gathered from many authors (Saved and Tagged tabs)
+const CoverTile = ({ post, showAuthor, onClick }: { post: Post; showAuthor?: boolean; onClick: () => void }) => {
+  const cover = post.media?.[0];
+  return (
+    <div
+      className="aspect-square bg-gradient-to-br from-gray-100 to-gray-200 rounded-none md:rounded-lg overflow-hidden group cursor-pointer relative"
+      onClick={onClick}
+    >
+      {cover ? (
+        cover.type === 'video' ? (
+          <video
+            src={cover.url}
+            className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+            muted
+            preload="metadata"
+          />
+        ) : (
+          <Image
+            src={cover.url}
+            alt={post.content || 'Post image'}
+            fill
+            sizes="(max-width: 768px) 33vw, 25vw"
+            className="object-cover group-hover:scale-105 transition-transform duration-300"
+          />
+        )
+      ) : (
+        <div className="w-full h-full bg-gradient-to-br from-[#FFAF50]/20 to-orange-200 flex flex-col items-center justify-center p-4">
+          <p className="text-gray-700 text-sm text-center line-clamp-3">{post.content}</p>
+        </div>
+      )}
+      {(post.media?.length ?? 0) > 1 && (
+        <div className="absolute top-2 right-2 bg-black/60 text-white text-xs px-1.5 py-0.5 rounded">
+          1/{post.media!.length}
+        </div>
+      )}
+      {showAuthor && post.author && (
+        <div className="absolute bottom-0 left-0 right-0 px-2 py-1 bg-gradient-to-t from-black/60 to-transparent text-white text-xs truncate">
+          {post.author.name}
+        </div>
+      )}
+    </div>
+  );
+};
+
 const ProfilePage = () => {
   const params = useParams();
   const router = useRouter();
@@ -61,6 +139,8 @@ const ProfilePage = () => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [showMiniChat, setShowMiniChat] = useState(false);
   const [isBlocked, setIsBlocked] = useState(false);
+  const [taggedPosts, setTaggedPosts] = useState<Post[] | null>(null);
+  const [taggedVisible, setTaggedVisible] = useState(true);
 
   useEffect(() => {
     if (id && token) {
@@ -68,6 +148,28 @@ const ProfilePage = () => {
     }
   }, [id, token]);
 
+  useEffect(() => {
+    setTaggedPosts(null);
+  }, [id]);
+
+  useEffect(() => {
+    if (activeTab !== 'tagged' || !userProfile || !token || taggedPosts) return;
+    let cancelled = false;
+    fetchAPI<{ posts: Post[]; can_view: boolean }>(`/api/users/${userProfile.id}/tagged`, { token, cacheTTL: 60000 })
+      .then((data) => {
+        if (cancelled) return;
+        setTaggedPosts(data.posts || []);
+        setTaggedVisible(data.can_view);
+      })
+      .catch((error: any) => {
+        console.error('Error fetching tagged posts:', error.message);
+        if (!cancelled) setTaggedPosts([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeTab, userProfile, token, taggedPosts]);
+
   // Handle opening post from query parameter
   useEffect(() => {
     const postIdParam = searchParams?.get('post');
@@ -76,6 +178,7 @@ const ProfilePage = () => {
       if (post) {
         const modalPost: any = {
           id: post.id,
+          authorId: userProfile.id,
           authorName: userProfile.name,
           authorDept: userProfile.department,
           authorYear: userProfile.year,
@@ -87,7 +190,20 @@ const ProfilePage = () => {
           profilePic: userProfile.profile_image || undefined,
           mediaUrl: post.media_url,
           mediaType: post.media_type?.toLowerCase() as 'image' | 'video',
-          userLiked: post.user_liked
+          mediaCarousel: post.media,
+          userLiked: post.user_liked,
+          userSaved: post.user_saved,
+          location: post.place?.name,
+          place: post.place,
+          editedAt: post.edited_at,
+          event: post.event,
+          internship: post.internship,
+          audience: post.audience,
+          poll: post.poll,
+          quoteOf: post.quote_of,
+          quotedPost: post.quoted_post,
+          repostCount: post.repost_count,
+          userReposted: post.user_reposted
         };
         setSelectedPost(modalPost);
         setIsModalOpen(true);
@@ -143,21 +259,35 @@ const ProfilePage = () => {
   };
 
   const handlePostClick = (post: Post) => {
+    const author = post.author || userProfile;
     const modalPost = {
       id: post.id,
-      authorId: userProfile?.id,
-      authorName: userProfile?.name || '',
-      authorDept: userProfile?.department || '',
-      authorYear: userProfile?.year || 1,
+      authorId: author?.id,
+      authorName: author?.name || '',
+      authorDept: author?.department || '',
+      authorYear: author?.year || 1,
       content: post.content,
       category: post.category,
       auraCount: post.aura_count,
       commentCount: post.comment_count || 0,
       timestamp: new Date(post.created_at).toLocaleDateString(),
-      profilePic: userProfile?.profile_image || undefined,
+      profilePic: author?.profile_image || undefined,
       mediaUrl: post.media_url,
       mediaType: post.media_type?.toLowerCase() as 'image' | 'video',
-      userLiked: post.user_liked
+      mediaCarousel: post.media,
+      userLiked: post.user_liked,
+      userSaved: post.user_saved,
+      location: post.place?.name,
+      place: post.place,
+      editedAt: post.edited_at,
+      event: post.event,
+      internship: post.internship,
+      audience: post.audience,
+      poll: post.poll,
+      quoteOf: post.quote_of,
+      quotedPost: post.quoted_post,
+      repostCount: post.repost_count,
+      userReposted: post.user_reposted
     };
     setSelectedPost(modalPost);
     setIsModalOpen(true);
@@ -308,7 +438,10 @@ const ProfilePage = () => {
 
               {/* Bio */}
               <div className="text-center md:text-left">
-                <h2 className="font-semibold text-gray-900 mb-1">{userProfile.name}</h2>
+                <h2 className="font-semibold text-gray-900 mb-1">
+                  {userProfile.name}
+                  <RoleBadge role={userProfile.role} className="ml-2" />
+                </h2>
                 <p className="text-gray-600 text-sm mb-1">{userProfile.department} • {userProfile.year}rd Year</p>
                 {userProfile.bio && (
                   <p className="text-gray-800 text-sm leading-relaxed mb-2">{userProfile.bio}</p>
@@ -318,6 +451,19 @@ const ProfilePage = () => {
           </div>
         </div>
 
+        {/* Story and highlights, gated like the posts */}
+        {(!userProfile.is_private || isOwnProfile || userProfile.can_view) && (
+          <StoryHighlights
+            author={{
+              id: userProfile.id,
+              name: userProfile.name,
+              username: userProfile.username || null,
+              profile_image: userProfile.profile_image || null,
+            }}
+            isOwnProfile={!!isOwnProfile}
+          />
+        )}
+
         {/* Tabs */}
         <div className="border-t border-gray-200">
           <div className="flex items-center justify-center gap-16 pt-4">
@@ -337,9 +483,8 @@ const ProfilePage = () => {
               Posts
             </button>
 
-            {/* Only show saved/tagged tabs for own profile */}
+            {/* Saved is only shown on your own profile */}
             {isOwnProfile && (
-              <>
                 <button
                   onClick={() => setActiveTab('saved')}
                   className={`flex items-center gap-2 pb-3 px-1 text-xs font-medium uppercase tracking-wide ${activeTab === 'saved'
@@ -352,22 +497,21 @@ const ProfilePage = () => {
                   </svg>
                   Saved
                 </button>
-
-                <button
-                  onClick={() => setActiveTab('tagged')}
-                  className={`flex items-center gap-2 pb-3 px-1 text-xs font-medium uppercase tracking-wide ${activeTab === 'tagged'
-                    ? 'border-t-2 border-gray-900 text-gray-900'
-                    : 'text-gray-500 hover:text-gray-700'
-                    }`}
-                >
-                  <svg width="12" height="12" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                    <path d="M17.25 6.75L22.5 12L17.25 17.25H4.5V6.75H17.25Z" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" />
-                    <path d="M9 9.75L12 12.75L15 9.75" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" />
-                  </svg>
-                  Tagged
-                </button>
-              </>
             )}
+
+            <button
+              onClick={() => setActiveTab('tagged')}
+              className={`flex items-center gap-2 pb-3 px-1 text-xs font-medium uppercase tracking-wide ${activeTab === 'tagged'
+                ? 'border-t-2 border-gray-900 text-gray-900'
+                : 'text-gray-500 hover:text-gray-700'
+                }`}
+            >
+              <svg width="12" height="12" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                <path d="M17.25 6.75L22.5 12L17.25 17.25H4.5V6.75H17.25Z" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" />
+                <path d="M9 9.75L12 12.75L15 9.75" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" />
+              </svg>
+              Tagged
+            </button>
           </div>
         </div>
 
@@ -456,6 +600,11 @@ const ProfilePage = () => {
                                 <p className="text-gray-700 text-sm text-center line-clamp-3">{post.content}</p>
                               </div>
                             )}
+                            {(post.media?.length ?? 0) > 1 && (
+                              <div className="absolute top-2 right-2 bg-black/60 text-white text-xs px-1.5 py-0.5 rounded">
+                                1/{post.media!.length}
+                              </div>
+                            )}
                             <div className="absolute inset-0 bg-black/0 group-hover:bg-black/30 transition-all duration-300 flex items-center justify-center">
                               <div className="opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-center gap-6 text-white">
                                 <div className="flex items-center gap-1.5">
@@ -492,14 +641,28 @@ const ProfilePage = () => {
                             authorName={userProfile.name}
                             authorDept={userProfile.department}
                             authorYear={userProfile.year}
+                            authorRole={userProfile.role}
                             content={post.content}
                             category={post.category}
                             auraCount={post.aura_count}
                             commentCount={post.comment_count || 0}
                             timestamp={new Date(post.created_at).toLocaleDateString()}
+                            editedAt={post.edited_at}
+                            event={post.event}
+                            internship={post.internship}
+                            audience={post.audience}
+                            poll={post.poll}
+                            quoteOf={post.quote_of}
+                            quotedPost={post.quoted_post}
+                            repostCount={post.repost_count}
+                            userReposted={post.user_reposted}
                             mediaUrl={post.media_url}
                             mediaType={post.media_type as 'image' | 'video'}
+                            media={post.media}
+                            place={post.place}
+                            tags={post.tags}
                             userLiked={post.user_liked}
+                            userSaved={post.user_saved}
                             isFollowingUser={!isOwnProfile && userProfile.is_following}
                             profilePic={userProfile.profile_image || undefined}
                             onPostClick={(postData) => handlePostClick(post)}
@@ -518,17 +681,35 @@ const ProfilePage = () => {
             </div>
           )}
 
-          {activeTab === 'saved' && (
+          {activeTab === 'saved' && isOwnProfile && (
+            <SavedPostsPanel<Post>
+              renderTile={(post) => <CoverTile post={post} showAuthor onClick={() => handlePostClick(post)} />}
+            />
+          )}
+
+          {activeTab === 'tagged' && taggedPosts === null && (
+            <div className="flex justify-center py-16">
+              <div className="animate-spin rounded-full h-8 w-8 border-4 border-orange-500 border-t-transparent"></div>
+            </div>
+          )}
+
+          {activeTab === 'tagged' && taggedPosts !== null && !taggedVisible && (
             <div className="text-center py-16">
-              <svg width="64" height="64" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg" className="mx-auto mb-4 text-gray-300">
-                <path d="M5 7.8C5 6.11984 5 5.27976 5.32698 4.63803C5.6146 4.07354 6.07354 3.6146 6.63803 3.32698C7.27976 3 8.11984 3 9.8 3H14.2C15.8802 3 16.7202 3 17.362 3.32698C17.9265 3.6146 18.3854 4.07354 18.673 4.63803C19 5.27976 19 6.11984 19 7.8V21L12 17L5 21V7.8Z" stroke="currentColor" strokeWidth="1.5" />
-              </svg>
-              <h3 className="text-xl font-semibold text-gray-900 mb-2">No saved posts yet</h3>
-              <p className="text-gray-600">Save posts to see them here</p>
+              <div className="text-4xl mb-3">🔒</div>
+              <div className="text-gray-900 text-lg font-semibold mb-1">This account is private</div>
+              <div className="text-gray-500 text-sm">Follow to see the posts they&apos;re tagged in.</div>
+            </div>
+          )}
+
+          {activeTab === 'tagged' && taggedVisible && taggedPosts && taggedPosts.length > 0 && (
+            <div className="grid grid-cols-3 gap-1 md:gap-4">
+              {taggedPosts.map(post => (
+                <CoverTile key={post.id} post={post} showAuthor onClick={() => handlePostClick(post)} />
+              ))}
             </div>
           )}
 
-          {activeTab === 'tagged' && (
+          {activeTab === 'tagged' && taggedVisible && taggedPosts && taggedPosts.length === 0 && (
             <div className="text-center py-16">
               <svg width="64" height="64" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg" className="mx-auto mb-4 text-gray-300">
                 <path d="M17.25 6.75L22.5 12L17.25 17.25H4.5V6.75H17.25Z" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" />
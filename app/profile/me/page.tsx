@@ -6,9 +6,24 @@ import { useRouter } from 'next/navigation';
 import { useAuth } from '@/../../contexts/AuthContext';
 import PostCard from '@/../../components/PostCard';
 import PostModal from '@/../../components/PostModal';
+import SavedPostsPanel from '@/../../components/SavedPostsPanel';
+import DraftsPanel from '@/../../components/DraftsPanel';
+import InternshipTrackerPanel from '@/../../components/InternshipTrackerPanel';
+import EditPostModal from '@/../../components/EditPostModal';
 import FollowersListModal from '@/../../components/FollowersListModal';
 import { useIsMobile } from '@/../../hooks/useIsMobile';
 import { fetchAPI, dataFetcher } from '@/../../lib/dataFetcher';
+import RoleBadge from '@/../../components/RoleBadge';
+import StoryHighlights from '@/../../components/StoryHighlights';
+import type { UserRole } from '@/../../lib/roles';
+import { getPostMedia, type MediaItem } from '@/../../lib/postMedia';
+import type { PlaceSummary } from '@/../../lib/places';
+import type { EventView } from '@/../../lib/events';
+import type { InternshipView } from '@/../../lib/internships';
+import type { AudienceView } from '@/../../lib/postAudience';
+import type { PollView } from '@/../../lib/polls';
+import type { PostTagView } from '@/../../lib/postTags';
+import type { QuotedPostView } from '@/../../lib/reposts';
 
 // User profile from API
 interface UserProfile {
@@ -21,6 +36,7 @@ interface UserProfile {
   created_at: string;
   bio?: string | null;
   profile_image?: string | null;
+  role?: UserRole;
   posts?: Post[];
   _count?: {
     posts: number;
@@ -40,14 +56,29 @@ interface Post {
   category: string;
   media_url?: string;
   media_type?: string;
+  media?: MediaItem[];
+  place?: PlaceSummary | null;
+  tags?: PostTagView[];
   aura_count: number;
   user_liked: boolean;
+  user_saved?: boolean;
   created_at: string;
+  edited_at?: string | null;
+  event?: EventView | null;
+  internship?: InternshipView | null;
+  audience?: AudienceView | null;
+  poll?: PollView | null;
+  quote_of?: number | null;
+  quoted_post?: QuotedPostView | null;
+  repost_count?: number;
+  user_reposted?: boolean;
   author: {
     id: number;
     name: string;
     department: string;
     year: number;
+    profile_image?: string | null;
+    role?: UserRole;
   };
 }
 
@@ -64,6 +95,7 @@ function inferPostType(post: Post): 'image' | 'video' {
 // PostModal expected type
 interface PostModalData {
   id: number;
+  authorId?: number;
   authorName: string;
   authorDept: string;
   authorYear: number;
@@ -76,7 +108,18 @@ interface PostModalData {
   mediaUrl?: string;
   mediaType?: 'image' | 'video';
   location?: string;
+  place?: PlaceSummary | null;
+  editedAt?: string | null;
+  event?: EventView | null;
+  internship?: InternshipView | null;
+  audience?: AudienceView | null;
+  poll?: PollView | null;
+  quoteOf?: number | null;
+  quotedPost?: QuotedPostView | null;
+  repostCount?: number;
+  userReposted?: boolean;
   userLiked?: boolean;
+  userSaved?: boolean;
   mediaCarousel?: Array<{
     url: string;
     type: 'image' | 'video';
@@ -183,6 +226,12 @@ const VideoGridTile: React.FC<VideoGridTileProps> = ({ post, onClick }) => {
       ) : (
         <div className="w-full h-full flex items-center justify-center text-gray-400 text-sm p-4 rounded-2xl">{post.content}</div>
       )}
+      {/* Carousel badge */}
+      {(post.media?.length ?? 0) > 1 && (
+        <div className="absolute top-2 right-2 bg-black/60 text-white text-xs px-1.5 py-0.5 rounded">
+          1/{post.media!.length}
+        </div>
+      )}
     </button>
   );
 };
@@ -196,7 +245,7 @@ export default function ProfilePage() {
   const [posts, setPosts] = useState<Post[]>([]);
   const [savedPosts, setSavedPosts] = useState<Post[]>([]);
   const [taggedPosts, setTaggedPosts] = useState<Post[]>([]);
-  const [activeTab, setActiveTab] = useState<'posts' | 'saved' | 'tagged'>('posts');
+  const [activeTab, setActiveTab] = useState<'posts' | 'saved' | 'tagged' | 'drafts' | 'internships'>('posts');
   const [loading, setLoading] = useState(true);
   const [tabLoading, setTabLoading] = useState(false);
   const [selectedPost, setSelectedPost] = useState<PostModalData | null>(null);
@@ -226,7 +275,7 @@ export default function ProfilePage() {
   const isMountedRef = useRef(true);
   const [optionsPostId, setOptionsPostId] = useState<number | null>(null);
   const [isDeletingId, setIsDeletingId] = useState<number | null>(null);
-  const [isSavingId, setIsSavingId] = useState<number | null>(null);
+  const [editingPost, setEditingPost] = useState<Post | null>(null);
 
   // Scroll to tapped post when overlay opens (must be before any early returns)
   useEffect(() => {
@@ -321,23 +370,6 @@ export default function ProfilePage() {
     }
   };
 
-  const fetchSavedPosts = async () => {
-    setTabLoading(true);
-    try {
-      const data = await fetchAPI('/api/users/me/saved', {
-        token: token || '',
-        cacheTTL: 30000 // 30 seconds cache for saved posts
-      }) as { posts: Post[] };
-
-      setSavedPosts(data.posts || []);
-    } catch (error) {
-      console.error('Error fetching saved posts:', error);
-      setSavedPosts([]);
-    } finally {
-      setTabLoading(false);
-    }
-  };
-
   const fetchTaggedPosts = async () => {
     setTabLoading(true);
     try {
@@ -355,11 +387,11 @@ export default function ProfilePage() {
     }
   };
 
-  const handleTabChange = (tab: 'posts' | 'saved' | 'tagged') => {
+  const handleTabChange = (tab: 'posts' | 'saved' | 'tagged' | 'drafts' | 'internships') => {
     setActiveTab(tab);
-    if (tab === 'saved' && savedPosts.length === 0) {
-      fetchSavedPosts();
-    } else if (tab === 'tagged' && taggedPosts.length === 0) {
+    // The Saved, Drafts and Internships tabs load their own posts (SavedPostsPanel,
+    // DraftsPanel, InternshipTrackerPanel)
+    if (tab === 'tagged' && taggedPosts.length === 0) {
       fetchTaggedPosts();
     }
   };
@@ -370,6 +402,16 @@ export default function ProfilePage() {
     return () => window.removeEventListener('followCountsChanged', handler as any);
   }, []);
 
+  // Edits made from the post modal or the mobile menu
+  useEffect(() => {
+    const handlePostUpdated = (event: Event) => {
+      const { id, content, post: updated } = (event as CustomEvent).detail || {};
+      setPosts(prev => prev.map(p => p.id === id ? { ...p, ...(updated && { ...updated, author: p.author }), content } : p));
+    };
+    window.addEventListener('postUpdated', handlePostUpdated);
+    return () => window.removeEventListener('postUpdated', handlePostUpdated);
+  }, []);
+
   // Listen for new post creation
   useEffect(() => {
     const handlePostCreated = (event: CustomEvent) => {
@@ -509,6 +551,7 @@ export default function ProfilePage() {
 
   const handlePostClick = (postCardData: {
     id: number;
+    authorId?: number;
     authorName: string;
     authorDept: string;
     authorYear: number;
@@ -517,13 +560,25 @@ export default function ProfilePage() {
     auraCount: number;
     commentCount: number;
     timestamp: string;
+    editedAt?: string | null;
+    event?: EventView | null;
+    internship?: InternshipView | null;
+    audience?: AudienceView | null;
+    poll?: PollView | null;
+    quoteOf?: number | null;
+    quotedPost?: QuotedPostView | null;
+    repostCount?: number;
+    userReposted?: boolean;
     profilePic?: string;
     mediaUrl?: string;
     mediaType?: 'image' | 'video';
+    media?: MediaItem[];
+    place?: PlaceSummary | null;
     userLiked?: boolean;
   }) => {
     const modalPost: PostModalData = {
       id: postCardData.id,
+      authorId: postCardData.authorId,
       authorName: postCardData.authorName,
       authorDept: postCardData.authorDept,
       authorYear: postCardData.authorYear,
@@ -535,8 +590,19 @@ export default function ProfilePage() {
       profilePic: postCardData.profilePic,
       mediaUrl: postCardData.mediaUrl,
       mediaType: postCardData.mediaType,
+      mediaCarousel: postCardData.media,
       userLiked: postCardData.userLiked,
-      location: undefined
+      location: postCardData.place?.name,
+      place: postCardData.place,
+      editedAt: postCardData.editedAt,
+      event: postCardData.event,
+      internship: postCardData.internship,
+      audience: postCardData.audience,
+      poll: postCardData.poll,
+      quoteOf: postCardData.quoteOf,
+      quotedPost: postCardData.quotedPost,
+      repostCount: postCardData.repostCount,
+      userReposted: postCardData.userReposted
     };
     setSelectedPost(modalPost);
     setIsModalOpen(true);
@@ -553,22 +619,37 @@ export default function ProfilePage() {
       setFullscreenStartPostId(postId);
       setIsFullscreenListOpen(true);
     } else {
-      const p = posts.find((pp) => pp.id === postId);
+      const p = currentPosts.find((pp) => pp.id === postId);
       if (!p) return;
+      const author = activeTab !== 'posts' ? p.author : null;
       const modalPost: PostModalData = {
         id: p.id,
-        authorName: userProfile?.name || user.name,
-        authorDept: userProfile?.department || user.department,
-        authorYear: userProfile?.year || user.year,
+        authorId: author ? author.id : userProfile?.id,
+        authorName: author?.name || userProfile?.name || user.name,
+        authorDept: author?.department || userProfile?.department || user.department,
+        authorYear: author?.year || userProfile?.year || user.year,
         content: p.content,
         category: p.category,
         auraCount: p.aura_count || 0,
         commentCount: 0,
         timestamp: new Date(p.created_at).toLocaleDateString(),
-        profilePic: userProfile?.profile_image || undefined,
+        profilePic: (author ? author.profile_image : userProfile?.profile_image) || undefined,
         mediaUrl: p.media_url,
         mediaType: (p.media_type as 'image' | 'video') || undefined,
+        mediaCarousel: p.media,
         userLiked: p.user_liked,
+        userSaved: p.user_saved,
+        location: p.place?.name,
+        place: p.place,
+        editedAt: p.edited_at,
+        event: p.event,
+        internship: p.internship,
+        audience: p.audience,
+        poll: p.poll,
+        quoteOf: p.quote_of,
+        quotedPost: p.quoted_post,
+        repostCount: p.repost_count,
+        userReposted: p.user_reposted,
       } as any;
       setSelectedPost(modalPost);
       setIsModalOpen(true);
@@ -622,40 +703,6 @@ export default function ProfilePage() {
     }
   };
 
-  const handleEditCaptionMobile = async (postId: number, current: string) => {
-    if (!token) return;
-    const next = window.prompt('Edit caption', current || '');
-    if (next === null) return; // cancelled
-    const trimmed = next.trim();
-    if (!trimmed) {
-      alert('Caption cannot be empty');
-      return;
-    }
-    setIsSavingId(postId);
-    try {
-      await fetchAPI(`/api/posts/${postId}`, {
-        method: 'PUT',
-        token,
-        body: JSON.stringify({ caption: trimmed }),
-        skipCache: true
-      });
-
-      setPosts(prev => prev.map(p => p.id === postId ? { ...p, content: trimmed } : p));
-
-      // Clear relevant caches
-      dataFetcher.clearCache('/api/users/me');
-      dataFetcher.clearCache(`/api/posts/${postId}`);
-      dataFetcher.clearCache('/api/posts');
-
-      window.dispatchEvent(new CustomEvent('postUpdated', { detail: { id: postId, content: trimmed } }));
-    } catch (error: any) {
-      alert(error.message || 'Failed to update caption');
-    } finally {
-      setIsSavingId(null);
-      setOptionsPostId(null);
-    }
-  };
-
   const followerCount = userProfile?.follower_count ?? userProfile?._count?.followers ?? 0;
   const followingCount = userProfile?.following_count ?? userProfile?._count?.following ?? 0;
 
@@ -702,7 +749,10 @@ export default function ProfilePage() {
               </div>
 
               <div className="text-sm">
-                <div className="font-semibold text-gray-600">{userProfile?.name || user.name}</div>
+                <div className="font-semibold text-gray-600">
+                  {userProfile?.name || user.name}
+                  <RoleBadge role={userProfile?.role ?? user.role} className="ml-2" />
+                </div>
                 {userProfile?.bio && <div className="text-gray-700 whitespace-pre-line">{userProfile.bio}</div>}
               </div>
             </div>
@@ -844,6 +894,18 @@ export default function ProfilePage() {
           )}
         </div>
 
+        {userProfile && (
+          <StoryHighlights
+            author={{
+              id: userProfile.id,
+              name: userProfile.name,
+              username: userProfile.username || null,
+              profile_image: userProfile.profile_image || null,
+            }}
+            isOwnProfile
+          />
+        )}
+
         {/* Grid posts like Instagram */}
         <div className="bg-white rounded-lg">
           <div className="flex items-center justify-center gap-8 px-8 pt-3 border border-gray-200 rounded-2xl text-xs font-semibold tracking-wider text-gray-500">
@@ -854,17 +916,29 @@ export default function ProfilePage() {
               POSTS
             </button>
             <button
-              onClick={() => setActiveTab('saved')}
+              onClick={() => handleTabChange('saved')}
               className={`py-3 border-t-2 ${activeTab === 'saved' ? 'border-gray-900 text-gray-900' : 'border-transparent hover:text-gray-700'} transition-colors`}
             >
               SAVED
             </button>
             <button
-              onClick={() => setActiveTab('tagged')}
+              onClick={() => handleTabChange('tagged')}
               className={`py-3 border-t-2 ${activeTab === 'tagged' ? 'border-gray-900 text-gray-900' : 'border-transparent hover:text-gray-700'} transition-colors`}
             >
               TAGGED
             </button>
+            <button
+              onClick={() => handleTabChange('drafts')}
+              className={`py-3 border-t-2 ${activeTab === 'drafts' ? 'border-gray-900 text-gray-900' : 'border-transparent hover:text-gray-700'} transition-colors`}
+            >
+              DRAFTS &amp; SCHEDULED
+            </button>
+            <button
+              onClick={() => handleTabChange('internships')}
+              className={`py-3 border-t-2 ${activeTab === 'internships' ? 'border-gray-900 text-gray-900' : 'border-transparent hover:text-gray-700'} transition-colors`}
+            >
+              INTERNSHIPS
+            </button>
           </div>
 
           <div className="p-4 md:p-6">
@@ -891,7 +965,18 @@ export default function ProfilePage() {
               </div>
             )}
 
-            {tabLoading ? (
+            {activeTab === 'saved' ? (
+              <SavedPostsPanel<Post>
+                renderTile={(p) => (
+                  <VideoGridTile post={p} onClick={() => openFullscreenFromGrid(p.id)} />
+                )}
+                onPostsChange={setSavedPosts}
+              />
+            ) : activeTab === 'drafts' ? (
+              <DraftsPanel />
+            ) : activeTab === 'internships' ? (
+              <InternshipTrackerPanel />
+            ) : tabLoading ? (
               <div className="flex items-center justify-center py-16">
                 <div className="w-8 h-8 border-4 border-gray-200 border-t-[#FFAF50] rounded-full animate-spin"></div>
               </div>
@@ -909,15 +994,11 @@ export default function ProfilePage() {
                   </div>
                 );
               } else {
-                const emptyMessage =
-                  activeTab === 'posts' ? 'No posts yet' :
-                    activeTab === 'saved' ? 'No saved posts yet' :
-                      'No tagged posts yet';
+                const emptyMessage = activeTab === 'posts' ? 'No posts yet' : 'No tagged posts yet';
 
-                const emptyDescription =
-                  activeTab === 'posts' ? 'Share photos and videos to see them on your profile.' :
-                    activeTab === 'saved' ? 'Save posts you want to see again. Only you can see what you\'ve saved.' :
-                      'When people tag you in photos, they\'ll appear here.';
+                const emptyDescription = activeTab === 'posts'
+                  ? 'Share photos and videos to see them on your profile.'
+                  : 'When people tag you in photos, they\'ll appear here.';
 
                 return (
                   <div className="text-center py-16">
@@ -941,6 +1022,14 @@ export default function ProfilePage() {
           />
         )}
 
+        {editingPost && (
+          <EditPostModal
+            isOpen={!!editingPost}
+            onClose={() => setEditingPost(null)}
+            post={{ ...editingPost, media: getPostMedia(editingPost) }}
+          />
+        )}
+
         {showFollowModal?.open && (
           <FollowersListModal
             isOpen={showFollowModal.open}
@@ -968,27 +1057,45 @@ export default function ProfilePage() {
 
           {/* Scrollable feed */}
           <div ref={scrollRef} className="h-[calc(100%-48px)] overflow-y-auto snap-y snap-mandatory">
-            {currentPosts?.map((p) => (
+            {currentPosts?.map((p) => {
+              // Saved and tagged posts are usually someone else's
+              const author = activeTab !== 'posts' ? p.author : null;
+              return (
               <div key={p.id} data-post-id={p.id} className="snap-start">
                 <div className="relative">
                   <PostCard
                     id={p.id}
-                    authorId={userProfile?.id}
-                    authorName={userProfile?.name || user.name}
-                    authorDept={userProfile?.department || user.department}
-                    authorYear={userProfile?.year || user.year}
+                    authorId={author ? author.id : userProfile?.id}
+                    authorName={author?.name || userProfile?.name || user.name}
+                    authorDept={author?.department || userProfile?.department || user.department}
+                    authorYear={author?.year || userProfile?.year || user.year}
+                    authorRole={author ? author.role : userProfile?.role ?? user.role}
                     content={p.content}
                     category={p.category}
                     auraCount={p.aura_count || 0}
                     commentCount={0}
                     timestamp={new Date(p.created_at).toLocaleDateString()}
-                    profilePic={userProfile?.profile_image || undefined}
+                    editedAt={p.edited_at}
+                    event={p.event}
+                    internship={p.internship}
+                    audience={p.audience}
+                    poll={p.poll}
+                    quoteOf={p.quote_of}
+                    quotedPost={p.quoted_post}
+                    repostCount={p.repost_count}
+                    userReposted={p.user_reposted}
+                    profilePic={(author ? author.profile_image : userProfile?.profile_image) || undefined}
                     mediaUrl={p.media_url}
                     mediaType={(p.media_type as 'image' | 'video') || undefined}
+                    media={p.media}
+                    place={p.place}
+                    tags={p.tags}
                     userLiked={p.user_liked}
+                    userSaved={p.user_saved}
                     onPostClick={(pc) => {
                       const modalPost: PostModalData = {
                         id: pc.id,
+                        authorId: pc.authorId,
                         authorName: pc.authorName,
                         authorDept: pc.authorDept,
                         authorYear: pc.authorYear,
@@ -1000,7 +1107,19 @@ export default function ProfilePage() {
                         profilePic: pc.profilePic,
                         mediaUrl: pc.mediaUrl,
                         mediaType: pc.mediaType,
+                        mediaCarousel: pc.media,
                         userLiked: pc.userLiked,
+                        location: pc.place?.name,
+                        place: pc.place,
+                        editedAt: pc.editedAt,
+                        event: pc.event,
+                        internship: pc.internship,
+                        audience: pc.audience,
+                        poll: pc.poll,
+                        quoteOf: pc.quoteOf,
+                        quotedPost: pc.quotedPost,
+                        repostCount: pc.repostCount,
+                        userReposted: pc.userReposted,
                       };
                       setSelectedPost(modalPost);
                       setIsModalOpen(true);
@@ -1009,6 +1128,7 @@ export default function ProfilePage() {
                   />
 
                   {/* Mobile options menu (three dots) */}
+                  {!author && (
                   <div className="absolute top-2 right-2 z-[62] md:hidden">
                     <button
                       onClick={(e) => { e.stopPropagation(); setOptionsPostId(optionsPostId === p.id ? null : p.id); }}
@@ -1020,11 +1140,10 @@ export default function ProfilePage() {
                     {optionsPostId === p.id && (
                       <div className="absolute right-0 mt-2 w-44 bg-white border border-gray-100 rounded-xl shadow-lg z-[63]">
                         <button
-                          onClick={(e) => { e.stopPropagation(); handleEditCaptionMobile(p.id, p.content); }}
-                          disabled={isSavingId === p.id}
-                          className="w-full text-left px-4 py-2 text-sm text-black hover:bg-gray-50 disabled:opacity-50"
+                          onClick={(e) => { e.stopPropagation(); setEditingPost(p); setOptionsPostId(null); }}
+                          className="w-full text-left px-4 py-2 text-sm text-black hover:bg-gray-50"
                         >
-                          {isSavingId === p.id ? 'Saving...' : 'Edit caption'}
+                          Edit post
                         </button>
                         <button
                           onClick={(e) => { e.stopPropagation(); handleDeletePostMobile(p.id); }}
@@ -1036,9 +1155,11 @@ export default function ProfilePage() {
                       </div>
                     )}
                   </div>
+                  )}
                 </div>
               </div>
-            ))}
+              );
+            })}
             <div className="h-10" />
           </div>
         </div>
@@ -0,0 +1,206 @@
+'use client';
+
+import React, { Suspense, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+
+const inputClassName = 'w-full text-gray-500 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#FFAF50] focus:border-transparent outline-none transition-all';
+const buttonClassName = 'w-full bg-[#FFAF50] hover:bg-orange-500 text-black font-semibold py-3 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+function RequestResetForm() {
+  const [email, setEmail] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError('');
+    setMessage('');
+
+    try {
+      const response = await fetch('/api/auth/forgot-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (response.ok) {
+        setMessage(data.message || 'If this email exists in our system, you will receive a password reset link.');
+      } else {
+        setError(data.error || 'Failed to send reset link. Please try again.');
+      }
+    } catch {
+      setError('Network error. Please check your connection.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <h2 className="text-2xl font-bold text-gray-900 mb-2">Forgot your password?</h2>
+      <p className="text-sm text-gray-600">Enter the email linked to your account and we&apos;ll send you a reset link.</p>
+
+      {message && (
+        <div className="p-3 bg-green-100 border border-green-300 text-green-700 rounded-lg text-sm">{message}</div>
+      )}
+      {error && (
+        <div className="p-3 bg-red-100 border border-red-300 text-red-700 rounded-lg text-sm">{error}</div>
+      )}
+
+      <div>
+        <label htmlFor="reset-email" className="block text-sm font-medium text-gray-700 mb-2">
+          Email
+        </label>
+        <input
+          id="reset-email"
+          name="email"
+          type="email"
+          required
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          className={inputClassName}
+          placeholder="you@example.com"
+        />
+      </div>
+
+      <button type="submit" disabled={isSubmitting} className={buttonClassName}>
+        {isSubmitting ? 'Sending...' : 'Send Reset Link'}
+      </button>
+    </form>
+  );
+}
+
+function NewPasswordForm({ token }: { token: string }) {
+  const router = useRouter();
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isDone, setIsDone] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch('/api/auth/reset-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, password }),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (response.ok) {
+        // Any session on this device belonged to the old password
+        localStorage.removeItem('token');
+        localStorage.removeItem('user');
+        setIsDone(true);
+      } else {
+        setError(data.error || 'Failed to reset password. Please try again.');
+      }
+    } catch {
+      setError('Network error. Please check your connection.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isDone) {
+    return (
+      <div className="space-y-6 text-center">
+        <h2 className="text-2xl font-bold text-gray-900">Password updated</h2>
+        <p className="text-sm text-gray-600">You&apos;ve been signed out everywhere. Sign in with your new password to continue.</p>
+        <button onClick={() => router.push('/landing')} className={buttonClassName}>
+          Go to Sign In
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <h2 className="text-2xl font-bold text-gray-900 mb-2">Choose a new password</h2>
+      <p className="text-sm text-gray-600">Use at least 8 characters with uppercase and lowercase letters and a number.</p>
+
+      {error && (
+        <div className="p-3 bg-red-100 border border-red-300 text-red-700 rounded-lg text-sm">{error}</div>
+      )}
+
+      <div>
+        <label htmlFor="reset-password" className="block text-sm font-medium text-gray-700 mb-2">
+          New Password
+        </label>
+        <input
+          id="reset-password"
+          name="password"
+          type="password"
+          required
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className={inputClassName}
+          placeholder="Enter new password"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="reset-confirm-password" className="block text-sm font-medium text-gray-700 mb-2">
+          Confirm Password
+        </label>
+        <input
+          id="reset-confirm-password"
+          name="confirmPassword"
+          type="password"
+          required
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          className={inputClassName}
+          placeholder="Re-enter new password"
+        />
+      </div>
+
+      <button type="submit" disabled={isSubmitting} className={buttonClassName}>
+        {isSubmitting ? 'Updating...' : 'Reset Password'}
+      </button>
+    </form>
+  );
+}
+
+function ResetPasswordContent() {
+  const searchParams = useSearchParams();
+  const token = searchParams?.get('token');
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#FFAF50] via-orange-400 to-orange-400 flex items-center justify-center px-4 py-12">
+      <div className="w-full max-w-md">
+        <div className="bg-white rounded-2xl shadow-xl p-8">
+          {token ? <NewPasswordForm token={token} /> : <RequestResetForm />}
+
+          <div className="mt-8 text-center text-sm text-gray-600">
+            <Link href="/landing" className="text-[#FFAF50] hover:text-orange-600 font-semibold">
+              Back to Sign In
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function ResetPasswordPage() {
+  // useSearchParams needs a Suspense boundary for static rendering
+  return (
+    <Suspense fallback={null}>
+      <ResetPasswordContent />
+    </Suspense>
+  );
+}
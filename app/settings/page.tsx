@@ -6,6 +6,13 @@ import { useAuth } from '../../contexts/AuthContext';
 import { useRouter } from 'next/navigation';
 import { useIsMobile } from '../../hooks/useIsMobile';
 import { fetchAPI, dataFetcher } from '../../lib/dataFetcher';
+import TwoFactorSettings from '../../components/TwoFactorSettings';
+import RoleVerificationSettings from '../../components/RoleVerificationSettings';
+import CalendarFeedSettings from '../../components/CalendarFeedSettings';
+import CloseFriendsSettings from '../../components/CloseFriendsSettings';
+import DeactivateAccountModal from '../../components/DeactivateAccountModal';
+import DeleteAccountModal from '../../components/DeleteAccountModal';
+import type { TagPermission } from '../../lib/postTags';
 
 type SettingsSection = 'account-privacy' | 'edit-profile' | 'notifications' | 'password';
 
@@ -21,6 +28,25 @@ interface BlockedUser {
   created_at: string;
 }
 
+interface ActiveSession {
+  id: number;
+  device: string;
+  ip: string;
+  created_at: string;
+  last_seen_at: string;
+  current: boolean;
+}
+
+interface LoginHistoryEntry {
+  id: number;
+  device: string;
+  ip: string;
+  success: boolean;
+  reason: 'bad_password' | 'bad_mfa_code' | 'locked' | null;
+  new_device: boolean;
+  created_at: string;
+}
+
 export default function SettingsPage() {
   const { token, user, logout } = useAuth();
   const router = useRouter();
@@ -37,11 +63,18 @@ export default function SettingsPage() {
   const [showReadReceipts, setShowReadReceipts] = useState<boolean>(true);
   const [whoCanMessage, setWhoCanMessage] = useState<'everyone' | 'followers'>('everyone');
   const [whoCanComment, setWhoCanComment] = useState<'everyone' | 'followers'>('everyone');
+  const [whoCanTag, setWhoCanTag] = useState<TagPermission>('everyone');
+  const [allowReposts, setAllowReposts] = useState(true);
 
   // Blocked users
   const [blockedUsers, setBlockedUsers] = useState<BlockedUser[]>([]);
   const [loadingBlocked, setLoadingBlocked] = useState(false);
 
+  // Active sessions ("Where you're logged in")
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [loadingSessions, setLoadingSessions] = useState(false);
+  const [loginHistory, setLoginHistory] = useState<LoginHistoryEntry[]>([]);
+
   // Edit Profile Modal States
   const [isEditing, setIsEditing] = useState(false);
   const [editForm, setEditForm] = useState({
@@ -55,6 +88,8 @@ export default function SettingsPage() {
   const [savingProfile, setSavingProfile] = useState(false);
   const [uploadingPfp, setUploadingPfp] = useState(false);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  const [showDeactivateModal, setShowDeactivateModal] = useState(false);
+  const [showDeleteModal, setShowDeleteModal] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
@@ -79,6 +114,14 @@ export default function SettingsPage() {
           setWhoCanMessage(parsed.whoCanMessage ?? 'everyone');
           setWhoCanComment(parsed.whoCanComment ?? 'everyone');
         }
+
+        // Tagging and reposts are enforced server-side, so they live with the account
+        const privacy = await fetchAPI<{ privacy: { who_can_tag?: TagPermission; allow_reposts?: boolean } }>(
+          '/api/users/privacy',
+          { token, skipCache: true }
+        );
+        setWhoCanTag(privacy.privacy?.who_can_tag || 'everyone');
+        setAllowReposts(privacy.privacy?.allow_reposts !== false);
       } catch (err: any) {
         setError(err.message || 'Failed to load settings');
       } finally {
@@ -130,6 +173,82 @@ export default function SettingsPage() {
     }
   };
 
+  useEffect(() => {
+    // Load active sessions
+    const loadSessions = async () => {
+      if (!token) return;
+      setLoadingSessions(true);
+      try {
+        const data = await fetchAPI<{ sessions: ActiveSession[] }>(
+          '/api/auth/sessions',
+          { token, skipCache: true }
+        );
+        setSessions(data.sessions || []);
+      } catch (err: any) {
+        console.error('Failed to load sessions:', err);
+      } finally {
+        setLoadingSessions(false);
+      }
+    };
+    loadSessions();
+  }, [token]);
+
+  useEffect(() => {
+    // Load recent sign-in attempts
+    const loadLoginHistory = async () => {
+      if (!token) return;
+      try {
+        const data = await fetchAPI<{ history: LoginHistoryEntry[] }>(
+          '/api/auth/login-history',
+          { token, skipCache: true }
+        );
+        setLoginHistory(data.history || []);
+      } catch (err: any) {
+        console.error('Failed to load login history:', err);
+      }
+    };
+    loadLoginHistory();
+  }, [token]);
+
+  const handleRevokeSession = async (sessionId: number) => {
+    if (!token) return;
+    try {
+      await fetchAPI(`/api/auth/sessions?id=${sessionId}`, {
+        method: 'DELETE',
+        token,
+        skipCache: true
+      });
+
+      setSessions(prev => prev.filter(session => session.id !== sessionId));
+      setMessage('Device signed out');
+      setTimeout(() => setMessage(null), 3000);
+    } catch (err: any) {
+      console.error('Error revoking session:', err);
+      setError(err.message || 'Failed to sign out device');
+      setTimeout(() => setError(null), 3000);
+    }
+  };
+
+  const handleRevokeOtherSessions = async () => {
+    if (!token) return;
+    if (!confirm('Sign out of all other devices?')) return;
+    try {
+      await fetchAPI('/api/auth/sessions?scope=others', {
+        method: 'DELETE',
+        token,
+        skipCache: true
+      });
+
+      setSessions(prev => prev.filter(session => session.current));
+      setMessage('Signed out of all other devices');
+      setTimeout(() => setMessage(null), 3000);
+    } catch (err: any) {
+      console.error('Error revoking sessions:', err);
+      setError(err.message || 'Failed to sign out other devices');
+      setTimeout(() => setError(null), 3000);
+    }
+  };
+
   const savePrivacySettings = () => {
     // Save to localStorage (in production, you'd save to backend)
     // TODO: Migrate to backend API when privacy settings schema is added to User model
@@ -147,6 +266,45 @@ export default function SettingsPage() {
     localStorage.setItem('privacySettings', JSON.stringify(settings));
   };
 
+  const saveWhoCanTag = async (value: TagPermission) => {
+    if (!token) return;
+    const previous = whoCanTag;
+    setWhoCanTag(value);
+    try {
+      await fetchAPI('/api/users/privacy', {
+        method: 'PUT',
+        token,
+        body: JSON.stringify({ who_can_tag: value }),
+        skipCache: true
+      });
+      setMessage('Settings saved');
+      setTimeout(() => setMessage(null), 3000);
+    } catch (err: any) {
+      setWhoCanTag(previous);
+      setError(err.message || 'Failed to save settings');
+      setTimeout(() => setError(null), 3000);
+    }
+  };
+
+  const saveAllowReposts = async (value: boolean) => {
+    if (!token) return;
+    setAllowReposts(value);
+    try {
+      await fetchAPI('/api/users/privacy', {
+        method: 'PUT',
+        token,
+        body: JSON.stringify({ allow_reposts: value }),
+        skipCache: true
+      });
+      setMessage('Settings saved');
+      setTimeout(() => setMessage(null), 3000);
+    } catch (err: any) {
+      setAllowReposts(!value);
+      setError(err.message || 'Failed to save settings');
+      setTimeout(() => setError(null), 3000);
+    }
+  };
+
   const onSave = async () => {
     if (!token) return;
     setSaving(true);
@@ -620,6 +778,52 @@ export default function SettingsPage() {
                             </select>
                           </div>
                         </div>
+
+                        <div className="border-t border-gray-100"></div>
+
+                        {/* Who Can Tag */}
+                        <div className="flex items-start justify-between gap-6">
+                          <div className="flex-1">
+                            <div className="font-semibold text-gray-900 mb-2">Who can tag you</div>
+                            <div className="text-sm text-gray-600">
+                              Control who can tag you in their posts
+                            </div>
+                          </div>
+                          <div className="flex-shrink-0">
+                            <select
+                              value={whoCanTag}
+                              onChange={(e) => saveWhoCanTag(e.target.value as TagPermission)}
+                              className="bg-white text-gray-900 border border-gray-300 rounded-lg px-4 py-2.5 text-sm font-medium focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-orange-500 hover:border-gray-400 transition-colors"
+                            >
+                              <option value="everyone">Everyone</option>
+                              <option value="followers">Followers only</option>
+                              <option value="no_one">No one</option>
+                            </select>
+                          </div>
+                        </div>
+
+                        <div className="border-t border-gray-100"></div>
+
+                        {/* Allow Reposts */}
+                        <div className="flex items-start justify-between gap-6">
+                          <div className="flex-1">
+                            <div className="font-semibold text-gray-900 mb-2">Allow reposts</div>
+                            <div className="text-sm text-gray-600">
+                              Let others repost and quote your public posts. Turning this off also hides existing reposts
+                            </div>
+                          </div>
+                          <div className="flex-shrink-0">
+                            <label className="relative inline-flex items-center cursor-pointer">
+                              <input
+                                type="checkbox"
+                                checked={allowReposts}
+                                onChange={(e) => saveAllowReposts(e.target.checked)}
+                                className="sr-only peer"
+                              />
+                              <div className="w-14 h-7 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-orange-100 rounded-full peer peer-checked:after:translate-x-7 peer-checked:after:border-white after:content-[''] after:absolute after:top-0.5 after:left-[4px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-6 after:w-6 after:transition-all peer-checked:bg-orange-600"></div>
+                            </label>
+                          </div>
+                        </div>
                       </div>
                     </div>
 
@@ -751,6 +955,119 @@ export default function SettingsPage() {
                       </div>
                     </div>
 
+                    {/* Close Friends Section */}
+                    <CloseFriendsSettings
+                      token={token}
+                      onMessage={(text) => { setMessage(text); setTimeout(() => setMessage(null), 3000); }}
+                      onError={(text) => { setError(text); setTimeout(() => setError(null), 3000); }}
+                    />
+
+                    {/* Two-Factor Authentication Section */}
+                    <TwoFactorSettings
+                      token={token}
+                      onMessage={(text) => { setMessage(text); setTimeout(() => setMessage(null), 3000); }}
+                      onError={(text) => { setError(text); setTimeout(() => setError(null), 3000); }}
+                    />
+
+                    {/* Campus Role Section */}
+                    <RoleVerificationSettings
+                      token={token}
+                      onMessage={(text) => { setMessage(text); setTimeout(() => setMessage(null), 3000); }}
+                      onError={(text) => { setError(text); setTimeout(() => setError(null), 3000); }}
+                    />
+
+                    {/* Event Calendar Section */}
+                    <CalendarFeedSettings
+                      token={token}
+                      onMessage={(text) => { setMessage(text); setTimeout(() => setMessage(null), 3000); }}
+                      onError={(text) => { setError(text); setTimeout(() => setError(null), 3000); }}
+                    />
+
+                    {/* Where You're Logged In Section */}
+                    <div className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden">
+                      <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+                        <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                          <svg className="w-5 h-5 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+                          </svg>
+                          Where you&apos;re logged in
+                        </h3>
+                        {sessions.some(session => !session.current) && (
+                          <button
+                            onClick={handleRevokeOtherSessions}
+                            className="text-sm font-semibold text-red-600 hover:text-red-700"
+                          >
+                            Log out of all other devices
+                          </button>
+                        )}
+                      </div>
+
+                      <div className="p-6">
+                        {loadingSessions ? (
+                          <div className="flex items-center justify-center py-12">
+                            <div className="animate-spin rounded-full h-8 w-8 border-4 border-orange-500 border-t-transparent"></div>
+                          </div>
+                        ) : sessions.length === 0 ? (
+                          <div className="text-center py-12">
+                            <p className="text-gray-500 font-medium">No active sessions</p>
+                          </div>
+                        ) : (
+                          <div className="space-y-3">
+                            {sessions.map((session) => (
+                              <div key={session.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-xl border border-gray-100 hover:border-gray-200 transition-colors">
+                                <div className="min-w-0 flex-1">
+                                  <div className="font-semibold text-gray-900 truncate flex items-center gap-2">
+                                    {session.device}
+                                    {session.current && (
+                                      <span className="px-2 py-0.5 text-xs font-medium bg-green-100 text-green-700 rounded-full">
+                                        This device
+                                      </span>
+                                    )}
+                                  </div>
+                                  <div className="text-sm text-gray-500 truncate">{session.ip}</div>
+                                  <div className="text-xs text-gray-400 mt-0.5">
+                                    Last active {new Date(session.last_seen_at).toLocaleString()} · Signed in {new Date(session.created_at).toLocaleDateString()}
+                                  </div>
+                                </div>
+                                {!session.current && (
+                                  <button
+                                    onClick={() => handleRevokeSession(session.id)}
+                                    className="px-5 py-2 bg-white hover:bg-gray-50 text-gray-700 text-sm font-semibold rounded-lg transition-colors border border-gray-300 shadow-sm ml-4"
+                                  >
+                                    Log out
+                                  </button>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        )}
+
+                        {loginHistory.length > 0 && (
+                          <div className="mt-6 pt-6 border-t border-gray-100">
+                            <h4 className="text-sm font-semibold text-gray-900 mb-3">Recent login activity</h4>
+                            <div className="divide-y divide-gray-100">
+                              {loginHistory.map((entry) => (
+                                <div key={entry.id} className="flex items-center justify-between py-2.5 text-sm">
+                                  <div className="min-w-0">
+                                    <div className="text-gray-900 truncate flex items-center gap-2">
+                                      {entry.device}
+                                      {entry.new_device && entry.success && (
+                                        <span className="px-2 py-0.5 text-xs font-medium bg-orange-100 text-orange-700 rounded-full">New device</span>
+                                      )}
+                                    </div>
+                                    <div className="text-xs text-gray-400">{entry.ip} · {new Date(entry.created_at).toLocaleString()}</div>
+                                  </div>
+                                  <span className={`ml-4 text-xs font-medium ${entry.success ? 'text-green-600' : 'text-red-600'}`}>
+                                    {entry.success ? 'Signed in' : entry.reason === 'locked' ? 'Blocked (locked)' : entry.reason === 'bad_mfa_code' ? 'Wrong 2FA code' : 'Wrong password'}
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+
                     {/* Data & History Section */}
                     <div className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden">
                       <div className="p-6 border-b border-gray-100">
@@ -802,18 +1119,13 @@ export default function SettingsPage() {
 
                       <div className="p-6 space-y-3">
                         <button
-                          onClick={() => {
-                            if (confirm('Are you sure you want to deactivate your account? You can reactivate it anytime by logging in.')) {
-                              // Implement deactivation logic
-                              alert('Account deactivation feature coming soon');
-                            }
-                          }}
+                          onClick={() => setShowDeactivateModal(true)}
                           className="w-full flex items-center justify-between p-4 bg-gray-50 hover:bg-gray-100 rounded-xl transition-colors text-left border border-gray-300"
                         >
                           <div>
                             <div className="font-semibold text-gray-900 mb-1">Deactivate account</div>
                             <div className="text-sm text-gray-600">
-                              Temporarily disable your account
+                              Hide your account until you log in again
                             </div>
                           </div>
                           <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -822,18 +1134,13 @@ export default function SettingsPage() {
                         </button>
 
                         <button
-                          onClick={() => {
-                            if (confirm('⚠️ WARNING: This will permanently delete your account and all your data. This action cannot be undone. Are you absolutely sure?')) {
-                              // Implement deletion logic
-                              alert('Account deletion feature coming soon');
-                            }
-                          }}
+                          onClick={() => setShowDeleteModal(true)}
                           className="w-full flex items-center justify-between p-4 bg-red-50 hover:bg-red-100 rounded-xl transition-colors text-left border border-red-300"
                         >
                           <div>
                             <div className="font-semibold text-red-700 mb-1">Delete account</div>
                             <div className="text-sm text-red-600">
-                              Permanently delete your account and data
+                              Permanently delete your account and data after 30 days
                             </div>
                           </div>
                           <svg className="w-5 h-5 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -850,6 +1157,26 @@ export default function SettingsPage() {
         </div>
       </div>
 
+      <DeactivateAccountModal
+        isOpen={showDeactivateModal}
+        token={token}
+        onClose={() => setShowDeactivateModal(false)}
+        onDeactivated={() => {
+          alert('Your account is deactivated. Log in again at any time to reactivate it.');
+          logout();
+        }}
+      />
+
+      <DeleteAccountModal
+        isOpen={showDeleteModal}
+        token={token}
+        onClose={() => setShowDeleteModal(false)}
+        onDeleted={(purgeAt) => {
+          alert(`Your account will be permanently deleted on ${new Date(purgeAt).toLocaleDateString()}. Log in before then to cancel.`);
+          logout();
+        }}
+      />
+
       {/* Edit Profile Modal */}
       {isEditing && (
         <div className={`fixed inset-0 z-50 ${isMobile ? '' : 'bg-black/50 flex items-center justify-center p-4'}`}>
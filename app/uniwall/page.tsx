@@ -8,6 +8,15 @@ import { EmbeddedSearch } from '../../components/SearchModal';
 import { usePosts } from '../../hooks/usePosts';
 import { useAuth } from '../../contexts/AuthContext';
 import { useIsMobile } from '../../hooks/useIsMobile';
+import type { UserRole } from '../../lib/roles';
+import type { MediaItem } from '../../lib/postMedia';
+import type { PlaceSummary } from '../../lib/places';
+import type { EventView } from '../../lib/events';
+import { STUDY_YEARS, YEAR_LABELS, type InternshipView } from '../../lib/internships';
+import type { AudienceView } from '../../lib/postAudience';
+import type { PollView } from '../../lib/polls';
+import type { PostTagView } from '../../lib/postTags';
+import type { QuotedPostView, RepostedBy } from '../../lib/reposts';
 
 // PostModal expected type
 interface PostModalData {
@@ -25,7 +34,18 @@ interface PostModalData {
   mediaUrl?: string;
   mediaType?: 'image' | 'video';
   location?: string;
+  place?: PlaceSummary | null;
+  editedAt?: string | null;
+  event?: EventView | null;
+  internship?: InternshipView | null;
+  audience?: AudienceView | null;
+  poll?: PollView | null;
+  quoteOf?: number | null;
+  quotedPost?: QuotedPostView | null;
+  repostCount?: number;
+  userReposted?: boolean;
   userLiked?: boolean;
+  userSaved?: boolean;
   mediaCarousel?: Array<{
     url: string;
     type: 'image' | 'video';
@@ -39,15 +59,30 @@ interface Post {
   category: string;
   media_url?: string;
   media_type?: string;
+  media?: MediaItem[];
+  place?: PlaceSummary | null;
+  tags?: PostTagView[];
   aura_count: number;
   user_liked: boolean;
+  user_saved?: boolean;
   created_at: string;
+  edited_at?: string | null;
+  event?: EventView | null;
+  internship?: InternshipView | null;
+  audience?: AudienceView | null;
+  poll?: PollView | null;
+  reposted_by?: RepostedBy | null;
+  quote_of?: number | null;
+  quoted_post?: QuotedPostView | null;
+  repost_count?: number;
+  user_reposted?: boolean;
   author: {
     id: number;
     name: string;
     department: string;
     year: number;
     profile_image?: string;
+    role?: UserRole;
   };
 }
 
@@ -159,6 +194,12 @@ const VideoGridTile: React.FC<VideoGridTileProps> = ({ post, onClick }) => {
       ) : (
         <div className="w-full h-full flex items-center justify-center text-gray-400 text-sm p-4">{post.content}</div>
       )}
+      {/* Carousel badge */}
+      {(post.media?.length ?? 0) > 1 && (
+        <div className="absolute top-2 right-2 bg-black/60 text-white text-xs px-1.5 py-0.5 rounded">
+          1/{post.media!.length}
+        </div>
+      )}
     </button>
   );
 };
@@ -169,10 +210,23 @@ export default function UniWallPage() {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const { user } = useAuth();
   const isMobile = useIsMobile();
+  // Internship eligibility filters; the department is applied once typing pauses
+  const [departmentInput, setDepartmentInput] = useState('');
+  const [department, setDepartment] = useState('');
+  const [year, setYear] = useState<number | ''>('');
+  const filteringInternships = selectedCategory === 'internship';
   const { posts, loading, error, refetch } = usePosts(
     selectedCategory === 'all' ? undefined : selectedCategory,
-    50
+    50,
+    undefined,
+    false,
+    filteringInternships ? { department: department || undefined, year: year || undefined } : undefined
   );
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDepartment(departmentInput.trim()), 400);
+    return () => clearTimeout(timer);
+  }, [departmentInput]);
   
   // Mobile fullscreen overlay state
   const [isFullscreenListOpen, setIsFullscreenListOpen] = useState(false);
@@ -238,6 +292,7 @@ export default function UniWallPage() {
     // On desktop, open modal
     const modalPost: PostModalData = {
       id: post.id,
+      authorId: post.author.id,
       authorName: post.author.name,
       authorDept: post.author.department,
       authorYear: post.author.year,
@@ -249,7 +304,20 @@ export default function UniWallPage() {
       profilePic: post.author.profile_image,
       mediaUrl: post.media_url,
       mediaType: post.media_type as 'image' | 'video',
+      mediaCarousel: post.media,
       userLiked: post.user_liked,
+      userSaved: post.user_saved,
+      location: post.place?.name,
+      place: post.place,
+      editedAt: post.edited_at,
+      event: post.event,
+      internship: post.internship,
+      audience: post.audience,
+      poll: post.poll,
+      quoteOf: post.quote_of,
+      quotedPost: post.quoted_post,
+      repostCount: post.repost_count,
+      userReposted: post.user_reposted,
     };
     setSelectedPost(modalPost);
     setIsModalOpen(true);
@@ -264,6 +332,7 @@ export default function UniWallPage() {
     { id: 'all', name: 'All', emoji: '🔥' },
     { id: 'academic', name: 'Academic', emoji: '📚' },
     { id: 'events', name: 'Events', emoji: '🎉' },
+    { id: 'internship', name: 'Internships', emoji: '💼' },
     { id: 'clubs', name: 'Clubs', emoji: '👥' },
     { id: 'sports', name: 'Sports', emoji: '⚽' },
     { id: 'social', name: 'Social', emoji: '💬' },
@@ -312,6 +381,44 @@ export default function UniWallPage() {
           </div>
         </div>
 
+        {filteringInternships && (
+          <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+            <input
+              type="text"
+              value={departmentInput}
+              onChange={(e) => setDepartmentInput(e.target.value)}
+              placeholder="Any department"
+              className="px-3 py-1.5 border border-gray-200 rounded-full focus:outline-none focus:ring-1 focus:ring-[#FFAF50]"
+              aria-label="Department"
+            />
+            <select
+              value={year}
+              onChange={(e) => setYear(e.target.value ? parseInt(e.target.value) : '')}
+              className="px-3 py-1.5 border border-gray-200 rounded-full focus:outline-none focus:ring-1 focus:ring-[#FFAF50] bg-white"
+              aria-label="Year"
+            >
+              <option value="">Any year</option>
+              {STUDY_YEARS.map((y) => (
+                <option key={y} value={y}>{YEAR_LABELS[y]}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => { setDepartmentInput(user.department || ''); setYear(user.year || ''); }}
+              className="px-3 py-1.5 rounded-full border border-gray-200 text-gray-600 hover:border-gray-300 hover:bg-gray-50"
+            >
+              Open to me
+            </button>
+            {(departmentInput || year) && (
+              <button
+                onClick={() => { setDepartmentInput(''); setYear(''); }}
+                className="text-xs text-gray-500 hover:text-gray-900"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+        )}
+
         {loading ? (
           <div className="flex justify-center items-center py-12">
             <div className="w-8 h-8 border-4 border-[#FFAF50] border-t-transparent rounded-full animate-spin"></div>
@@ -349,6 +456,7 @@ export default function UniWallPage() {
                     id={post.id}
                     mediaUrl={post.media_url!}
                     mediaType={(post.media_type?.toLowerCase() as 'image' | 'video') || 'image'}
+                    media={post.media}
                     title={post.content}
                     onClick={() => openPost(post)}
                   />
@@ -401,18 +509,34 @@ export default function UniWallPage() {
                   authorName={post.author.name}
                   authorDept={post.author.department}
                   authorYear={post.author.year}
+                  authorRole={post.author.role}
                   content={post.content}
                   category={post.category}
                   auraCount={post.aura_count || 0}
                   commentCount={0}
                   timestamp={new Date(post.created_at).toLocaleDateString()}
+                  editedAt={post.edited_at}
+                  event={post.event}
+                  internship={post.internship}
+                  audience={post.audience}
+                  poll={post.poll}
+                  repostedBy={post.reposted_by}
+                  quoteOf={post.quote_of}
+                  quotedPost={post.quoted_post}
+                  repostCount={post.repost_count}
+                  userReposted={post.user_reposted}
                   profilePic={post.author.profile_image || undefined}
                   mediaUrl={post.media_url}
                   mediaType={(post.media_type as 'image' | 'video') || undefined}
+                  media={post.media}
+                  place={post.place}
+                  tags={post.tags}
                   userLiked={post.user_liked}
+                  userSaved={post.user_saved}
                   onPostClick={(pc) => {
                     const modalPost: PostModalData = {
                       id: pc.id,
+                      authorId: pc.authorId,
                       authorName: pc.authorName,
                       authorDept: pc.authorDept,
                       authorYear: pc.authorYear,
@@ -424,7 +548,19 @@ export default function UniWallPage() {
                       profilePic: pc.profilePic,
                       mediaUrl: pc.mediaUrl,
                       mediaType: pc.mediaType,
+                      mediaCarousel: pc.media,
                       userLiked: pc.userLiked,
+                      location: pc.place?.name,
+                      place: pc.place,
+                      editedAt: pc.editedAt,
+                      event: pc.event,
+                      internship: pc.internship,
+                      audience: pc.audience,
+                      poll: pc.poll,
+                      quoteOf: pc.quoteOf,
+                      quotedPost: pc.quotedPost,
+                      repostCount: pc.repostCount,
+                      userReposted: pc.userReposted,
                     };
                     setSelectedPost(modalPost);
                     setIsModalOpen(true);
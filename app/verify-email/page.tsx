@@ -0,0 +1,101 @@
+'use client';
+
+import React, { Suspense, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { useAuth } from '../../contexts/AuthContext';
+
+type VerifyStatus = 'verifying' | 'verified' | 'failed';
+
+function VerifyEmailContent() {
+  const searchParams = useSearchParams();
+  const token = searchParams?.get('token');
+  const { user, updateUser } = useAuth();
+  const [status, setStatus] = useState<VerifyStatus>(token ? 'verifying' : 'failed');
+  const [error, setError] = useState(token ? '' : 'This verification link is missing its token.');
+  const hasSubmitted = useRef(false);
+
+  useEffect(() => {
+    // Tokens are single-use, so never submit twice (e.g. StrictMode double effects)
+    if (!token || hasSubmitted.current) return;
+    hasSubmitted.current = true;
+
+    const verify = async () => {
+      try {
+        const response = await fetch('/api/auth/verify-email', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token }),
+        });
+        const data = await response.json().catch(() => ({}));
+
+        if (response.ok) {
+          setStatus('verified');
+        } else {
+          setStatus('failed');
+          setError(data.error || 'Failed to verify email. Please try again.');
+        }
+      } catch {
+        setStatus('failed');
+        setError('Network error. Please check your connection.');
+      }
+    };
+
+    verify();
+  }, [token]);
+
+  // Unlock posting right away if the verified account is the one signed in here
+  useEffect(() => {
+    if (status === 'verified' && user && user.email_verified === false) {
+      updateUser({ email_verified: true });
+    }
+  }, [status, user, updateUser]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#FFAF50] via-orange-400 to-orange-400 flex items-center justify-center px-4 py-12">
+      <div className="w-full max-w-md">
+        <div className="bg-white rounded-2xl shadow-xl p-8 text-center space-y-6">
+          {status === 'verifying' && (
+            <>
+              <h2 className="text-2xl font-bold text-gray-900">Verifying your email...</h2>
+              <div className="w-8 h-8 mx-auto border-4 border-[#FFAF50] border-t-transparent rounded-full animate-spin" />
+            </>
+          )}
+
+          {status === 'verified' && (
+            <>
+              <h2 className="text-2xl font-bold text-gray-900">Email verified</h2>
+              <p className="text-sm text-gray-600">Thanks for confirming. You can now post and send messages.</p>
+              <Link
+                href={user ? '/' : '/landing'}
+                className="block w-full bg-[#FFAF50] hover:bg-orange-500 text-black font-semibold py-3 px-4 rounded-lg transition-colors"
+              >
+                {user ? 'Go to UNIX' : 'Sign In'}
+              </Link>
+            </>
+          )}
+
+          {status === 'failed' && (
+            <>
+              <h2 className="text-2xl font-bold text-gray-900">Verification failed</h2>
+              <div className="p-3 bg-red-100 border border-red-300 text-red-700 rounded-lg text-sm">{error}</div>
+              <p className="text-sm text-gray-600">Sign in and use &quot;Resend email&quot; to get a new link.</p>
+              <Link href={user ? '/' : '/landing'} className="text-[#FFAF50] hover:text-orange-600 font-semibold text-sm">
+                {user ? 'Back to UNIX' : 'Back to Sign In'}
+              </Link>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function VerifyEmailPage() {
+  // useSearchParams needs a Suspense boundary for static rendering
+  return (
+    <Suspense fallback={null}>
+      <VerifyEmailContent />
+    </Suspense>
+  );
+}
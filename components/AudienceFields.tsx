@@ -0,0 +1,117 @@
+'use client';
+
+import Link from 'next/link';
+import React from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { MAX_DEPARTMENT_LENGTH, STUDY_YEARS, YEAR_LABELS } from '../lib/internships';
+import { AUDIENCE_LABELS, AUDIENCE_TYPES, type AudienceType, type AudienceView } from '../lib/postAudience';
+
+// The audience picker as chosen; department and year only count for department posts
+export interface AudienceFormValue {
+  type: AudienceType;
+  department: string;
+  year: number | null;
+}
+
+export const PUBLIC_AUDIENCE_FORM: AudienceFormValue = { type: 'public', department: '', year: null };
+
+export function toAudienceForm(audience?: AudienceView | null): AudienceFormValue {
+  if (!audience) return PUBLIC_AUDIENCE_FORM;
+  return { type: audience.type, department: audience.department || '', year: audience.year ?? null };
+}
+
+// The `audience` field the post routes take, or null while a department post has no department
+export function toAudiencePayload(value: AudienceFormValue): string | null {
+  if (value.type !== 'department') return JSON.stringify({ type: value.type });
+  if (!value.department.trim()) return null;
+  return JSON.stringify({ type: 'department', department: value.department, year: value.year });
+}
+
+const AUDIENCE_HINTS: Record<AudienceType, string> = {
+  public: 'Anyone who can see your profile.',
+  followers: 'Only people who follow you.',
+  close_friends: 'Only people on your close friends list.',
+  department: 'Only students in one department, or one year of it.',
+};
+
+interface AudienceFieldsProps {
+  value: AudienceFormValue;
+  onChange: (value: AudienceFormValue) => void;
+  disabled?: boolean;
+}
+
+const inputClass = 'w-full text-sm border border-gray-200 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-[#FFAF50]';
+
+/**
+ * Who a post is for: everyone, followers, close friends or one department.
+ * Department posts start out aimed at the author's own department.
+ */
+const AudienceFields: React.FC<AudienceFieldsProps> = ({ value, onChange, disabled }) => {
+  const { user } = useAuth();
+  const choose = (type: AudienceType) => onChange({
+    ...value,
+    type,
+    department: type === 'department' && !value.department.trim() ? user?.department || '' : value.department,
+  });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-1.5">
+        {AUDIENCE_TYPES.map((type) => (
+          <button
+            key={type}
+            type="button"
+            onClick={() => choose(type)}
+            disabled={disabled}
+            className={`px-3 py-1 rounded-full text-xs border transition-colors ${value.type === type
+              ? 'bg-[#FFAF50] border-[#FFAF50] text-white'
+              : 'border-gray-300 text-gray-700 hover:border-gray-400'
+            }`}
+          >
+            {AUDIENCE_LABELS[type]}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">
+        {AUDIENCE_HINTS[value.type]}
+        {value.type === 'close_friends' && (
+          <>
+            {' '}
+            <Link href="/settings" className="underline hover:text-gray-700">Edit the list</Link>
+          </>
+        )}
+      </p>
+      {value.type === 'department' && (
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-xs text-gray-600 space-y-1">
+            <span>Department *</span>
+            <input
+              type="text"
+              value={value.department}
+              onChange={(e) => onChange({ ...value, department: e.target.value })}
+              maxLength={MAX_DEPARTMENT_LENGTH}
+              disabled={disabled}
+              className={inputClass}
+            />
+          </label>
+          <label className="text-xs text-gray-600 space-y-1">
+            <span>Year</span>
+            <select
+              value={value.year ?? ''}
+              onChange={(e) => onChange({ ...value, year: e.target.value ? Number(e.target.value) : null })}
+              disabled={disabled}
+              className={inputClass}
+            >
+              <option value="">Any year</option>
+              {STUDY_YEARS.map((year) => (
+                <option key={year} value={year}>{YEAR_LABELS[year]}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AudienceFields;
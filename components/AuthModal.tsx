@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState, useCallback } from 'react';
-import { useAuth } from '../contexts/AuthContext';
+import { useAuth, getReactivationNotice, LoginResult } from '../contexts/AuthContext';
 
 interface AuthModalProps {
   isOpen: boolean;
@@ -24,8 +24,11 @@ const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose, initialMode = 'l
   });
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  const [mfaCode, setMfaCode] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
 
-  const { login, register } = useAuth();
+  const { login, verifyMfa, register } = useAuth();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -34,9 +37,33 @@ const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose, initialMode = 'l
 
     try {
       let success = false;
+      let loginResult: LoginResult | null = null;
       
-      if (mode === 'login') {
-        success = await login(formData.college_id, formData.password);
+      if (mode === 'login' && mfaToken) {
+        const result = await verifyMfa(mfaToken, mfaCode.trim());
+        loginResult = result;
+        if (!result.success) {
+          setError(result.message || 'Invalid authentication code');
+          if (result.message?.includes('expired')) {
+            setMfaToken(null);
+          }
+          return;
+        }
+        success = true;
+        setMfaToken(null);
+        setMfaCode('');
+      } else if (mode === 'login') {
+        const result = await login(formData.college_id, formData.password);
+        loginResult = result;
+        if (result.mfaRequired && result.mfaToken) {
+          setMfaToken(result.mfaToken);
+          return;
+        }
+        success = result.success;
+        if (!success && result.message) {
+          setError(result.message);
+          return;
+        }
       } else {
         const result = await register({
           name: formData.name,
@@ -55,7 +82,12 @@ const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose, initialMode = 'l
         }
       }
 
-      if (success) {
+      // A reactivated account gets told so before the modal closes
+      const reactivationNotice = loginResult ? getReactivationNotice(loginResult) : null;
+      if (success && reactivationNotice) {
+        setNotice(reactivationNotice);
+        setFormData({ name: '', username: '', email: '', college_id: '', password: '', department: '', year: '', bio: '', profile_image: '' });
+      } else if (success) {
         onClose();
         setFormData({ name: '', username: '', email: '', college_id: '', password: '', department: '', year: '', bio: '', profile_image: '' });
       } else {
@@ -75,6 +107,11 @@ const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose, initialMode = 'l
     }));
   }, []);
 
+  const handleClose = () => {
+    setNotice(null);
+    onClose();
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -86,7 +123,7 @@ const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose, initialMode = 'l
             {mode === 'login' ? 'Sign In to UNI-X' : 'Join UNI-X'}
           </h2>
           <button
-            onClick={onClose}
+            onClick={handleClose}
             className="btn-icon"
           >
             <svg width="20" height="20" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
@@ -97,6 +134,17 @@ const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose, initialMode = 'l
 
         {/* Content */}
         <div className="modal-body">
+          {notice ? (
+            <div className="space-y-4 text-center">
+              <div className="text-sm bg-green-50 text-green-700 border border-green-200 py-3 px-4 rounded-lg">
+                {notice}
+              </div>
+              <button onClick={handleClose} className="btn-primary w-full">
+                Continue
+              </button>
+            </div>
+          ) : (
+          <>
           <form onSubmit={handleSubmit} className="space-y-4">
             {mode === 'register' && (
               <div>
@@ -132,6 +180,26 @@ const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose, initialMode = 'l
               </div>
             )}
 
+            {mfaToken ? (
+              <div>
+                <label className="block text-sm font-medium text-text mb-1.5">
+                  Authentication Code
+                </label>
+                <input
+                  type="text"
+                  name="code"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  autoFocus
+                  value={mfaCode}
+                  onChange={(e) => setMfaCode(e.target.value)}
+                  required
+                  className="input tracking-widest"
+                  placeholder="Code from your authenticator app or a backup code"
+                />
+              </div>
+            ) : (
+            <>
             <div>
               <label className="block text-sm font-medium text-text mb-1.5">
                 College ID
@@ -161,6 +229,8 @@ const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose, initialMode = 'l
                 placeholder="Enter your password"
               />
             </div>
+            </>
+            )}
 
             {mode === 'register' && (
               <>
@@ -224,19 +294,21 @@ const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose, initialMode = 'l
                   {mode === 'login' ? 'Signing In...' : 'Creating Account...'}
                 </>
               ) : (
-                mode === 'login' ? 'Sign In' : 'Create Account'
+                mode === 'login' ? (mfaToken ? 'Verify' : 'Sign In') : 'Create Account'
               )}
             </button>
           </form>
 
           <div className="mt-6 text-center">
             <button
-              onClick={() => setMode(mode === 'login' ? 'register' : 'login')}
+              onClick={() => { setMode(mode === 'login' ? 'register' : 'login'); setMfaToken(null); }}
               className="link text-sm font-semibold"
             >
               {mode === 'login' ? 'Need an account? Sign up' : 'Already have an account? Sign in'}
             </button>
           </div>
+          </>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,140 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { fetchAPI } from '../lib/dataFetcher';
+
+interface CalendarFeedSettingsProps {
+  token: string | null;
+  onMessage: (message: string) => void;
+  onError: (error: string) => void;
+}
+
+/**
+ * Settings card for the personal iCal feed of events the user RSVPed to.
+ * Anyone with the URL can read the feed, so it can be replaced or turned off.
+ */
+const CalendarFeedSettings: React.FC<CalendarFeedSettingsProps> = ({ token, onMessage, onError }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    const loadFeed = async () => {
+      if (!token) return;
+      try {
+        const data = await fetchAPI<{ url: string | null }>('/api/users/me/calendar', { token, skipCache: true });
+        setUrl(data.url);
+      } catch (err: any) {
+        console.error('Failed to load calendar feed:', err);
+      } finally {
+        setLoaded(true);
+      }
+    };
+    loadFeed();
+  }, [token]);
+
+  const handleRotate = async () => {
+    if (!token) return;
+    if (url && !confirm('Calendar apps subscribed with the current link will stop updating. Create a new link?')) return;
+    setBusy(true);
+    try {
+      const data = await fetchAPI<{ url: string }>('/api/users/me/calendar', { method: 'POST', token, skipCache: true, retries: 0 });
+      onMessage(url ? 'New calendar link created' : 'Calendar feed turned on');
+      setUrl(data.url);
+    } catch (err: any) {
+      onError(err.message || 'Failed to update calendar feed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    if (!token) return;
+    setBusy(true);
+    try {
+      await fetchAPI('/api/users/me/calendar', { method: 'DELETE', token, skipCache: true, retries: 0 });
+      setUrl(null);
+      onMessage('Calendar feed turned off');
+    } catch (err: any) {
+      onError(err.message || 'Failed to turn off calendar feed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!url) return;
+    try {
+      await navigator.clipboard.writeText(url);
+      onMessage('Link copied');
+    } catch {
+      onError('Failed to copy link');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-6 border-b border-gray-100">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <svg className="w-5 h-5 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+          </svg>
+          Event calendar
+        </h3>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {!loaded ? (
+          <div className="flex items-center justify-center py-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-4 border-orange-500 border-t-transparent"></div>
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              Subscribe from Google Calendar, Apple Calendar or Outlook to see the events you&apos;re going to, waitlisted for or interested in.
+            </p>
+
+            {url ? (
+              <>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={url}
+                    readOnly
+                    onFocus={(e) => e.target.select()}
+                    className="flex-1 min-w-0 px-4 py-2.5 border border-gray-300 rounded-lg text-sm text-gray-700 bg-gray-50 outline-none"
+                  />
+                  <button
+                    onClick={handleCopy}
+                    className="px-4 py-2.5 bg-[#FFAF50] hover:bg-orange-500 text-black text-sm font-semibold rounded-lg transition-colors"
+                  >
+                    Copy
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500">Anyone with this link can see these events. Keep it private.</p>
+                <div className="flex items-center gap-4 text-sm font-semibold">
+                  <button onClick={handleRotate} disabled={busy} className="text-gray-700 hover:text-gray-900 disabled:opacity-50">
+                    Create new link
+                  </button>
+                  <button onClick={handleDisable} disabled={busy} className="text-red-600 hover:text-red-700 disabled:opacity-50">
+                    Turn off
+                  </button>
+                </div>
+              </>
+            ) : (
+              <button
+                onClick={handleRotate}
+                disabled={busy || !token}
+                className="px-5 py-2 bg-[#FFAF50] hover:bg-orange-500 text-black text-sm font-semibold rounded-lg transition-colors disabled:opacity-50"
+              >
+                {busy ? 'Turning on...' : 'Turn on calendar feed'}
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CalendarFeedSettings;
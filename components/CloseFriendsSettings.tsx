@@ -0,0 +1,166 @@
+'use client';
+
+import Image from 'next/image'
+import React, { useEffect, useMemo, useState } from 'react';
+import { fetchAPI } from '../lib/dataFetcher';
+
+interface ListedUser {
+  id: number;
+  name: string;
+  username: string | null;
+  department: string;
+  profile_image: string | null;
+}
+
+interface CloseFriendsSettingsProps {
+  token: string | null;
+  onMessage: (message: string) => void;
+  onError: (error: string) => void;
+}
+
+/**
+ * Settings card for the close friends list that close-friends posts are
+ * shown to. Picked from the user's followers; nobody is told they're on it.
+ */
+const CloseFriendsSettings: React.FC<CloseFriendsSettingsProps> = ({ token, onMessage, onError }) => {
+  const [followers, setFollowers] = useState<ListedUser[]>([]);
+  const [friendIds, setFriendIds] = useState<Set<number>>(new Set());
+  const [query, setQuery] = useState('');
+  const [loaded, setLoaded] = useState(false);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  useEffect(() => {
+    const loadLists = async () => {
+      if (!token) return;
+      try {
+        const [followerData, friendData] = await Promise.all([
+          fetchAPI<{ users: ListedUser[] }>('/api/users/me/followers?limit=200', { token, skipCache: true }),
+          fetchAPI<{ users: ListedUser[] }>('/api/users/me/close-friends', { token, skipCache: true }),
+        ]);
+        // Close friends first, then everyone else who follows you
+        const friends = friendData.users || [];
+        const listed = new Set(friends.map((user) => user.id));
+        setFollowers([...friends, ...(followerData.users || []).filter((user) => !listed.has(user.id))]);
+        setFriendIds(listed);
+      } catch (err: any) {
+        console.error('Failed to load close friends:', err);
+      } finally {
+        setLoaded(true);
+      }
+    };
+    loadLists();
+  }, [token]);
+
+  const shown = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return followers;
+    return followers.filter((user) =>
+      user.name.toLowerCase().includes(q) || (user.username || '').toLowerCase().includes(q)
+    );
+  }, [followers, query]);
+
+  const handleToggle = async (user: ListedUser) => {
+    if (!token) return;
+    const adding = !friendIds.has(user.id);
+    setBusyId(user.id);
+    try {
+      await fetchAPI(`/api/users/me/close-friends/${user.id}`, {
+        method: adding ? 'PUT' : 'DELETE',
+        token,
+        skipCache: true,
+        retries: 0,
+      });
+      setFriendIds((prev) => {
+        const next = new Set(prev);
+        if (adding) next.add(user.id); else next.delete(user.id);
+        return next;
+      });
+      onMessage(adding ? `Added ${user.name} to close friends` : `Removed ${user.name} from close friends`);
+    } catch (err: any) {
+      onError(err.message || 'Failed to update close friends');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-6 border-b border-gray-100">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <svg className="w-5 h-5 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11.48 3.5a.56.56 0 011.04 0l2.12 5.11a.56.56 0 00.48.35l5.52.44c.5.04.7.66.32.99l-4.2 3.6a.56.56 0 00-.18.56l1.28 5.38a.56.56 0 01-.84.61l-4.73-2.88a.56.56 0 00-.58 0l-4.73 2.88a.56.56 0 01-.84-.61l1.28-5.38a.56.56 0 00-.18-.56l-4.2-3.6a.56.56 0 01.32-.99l5.52-.44a.56.56 0 00.48-.35L11.48 3.5z" />
+          </svg>
+          Close Friends
+          {friendIds.size > 0 && (
+            <span className="px-2 py-0.5 text-xs font-medium bg-green-100 text-green-700 rounded-full">
+              {friendIds.size}
+            </span>
+          )}
+        </h3>
+      </div>
+
+      <div className="p-6 space-y-4">
+        <p className="text-sm text-gray-600">
+          Posts shared with close friends are only shown to the people on this list. They aren&apos;t told when you add or remove them.
+        </p>
+
+        {!loaded ? (
+          <div className="flex items-center justify-center py-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-4 border-orange-500 border-t-transparent"></div>
+          </div>
+        ) : followers.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">Only people who follow you can be added.</p>
+        ) : (
+          <>
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search followers"
+              className="w-full px-4 py-2.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:border-transparent outline-none"
+            />
+            <div className="max-h-80 overflow-y-auto space-y-2">
+              {shown.map((user) => {
+                const isFriend = friendIds.has(user.id);
+                return (
+                  <div key={user.id} className="flex items-center justify-between gap-3 p-3 bg-gray-50 rounded-xl border border-gray-100">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <Image
+                        src={user.profile_image || '/uploads/DefaultProfile.jpg'}
+                        alt={user.name}
+                        width={40}
+                        height={40}
+                        className="w-10 h-10 rounded-full object-cover"
+                      />
+                      <div className="min-w-0">
+                        <div className="font-semibold text-sm text-gray-900 truncate">{user.name}</div>
+                        <div className="text-xs text-gray-500 truncate">
+                          {user.username ? `@${user.username}` : user.department}
+                        </div>
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => handleToggle(user)}
+                      disabled={busyId === user.id}
+                      className={`px-4 py-1.5 text-sm font-semibold rounded-lg transition-colors disabled:opacity-50 ${isFriend
+                        ? 'bg-white hover:bg-gray-50 text-gray-700 border border-gray-300'
+                        : 'bg-[#FFAF50] hover:bg-orange-500 text-black'
+                      }`}
+                    >
+                      {isFriend ? 'Remove' : 'Add'}
+                    </button>
+                  </div>
+                );
+              })}
+              {shown.length === 0 && (
+                <p className="text-sm text-gray-500 text-center py-4">No followers match &quot;{query}&quot;</p>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CloseFriendsSettings;
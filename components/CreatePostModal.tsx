@@ -1,21 +1,71 @@
 'use client';
 
 import Image from 'next/image'
-import React, { useState, useRef, useMemo, useCallback } from 'react';
+import React, { useState, useRef, useMemo, useCallback, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
+import { canPostInCategory } from '../lib/roles';
+import { MAX_POST_MEDIA, moveItem } from '../lib/postMedia';
+import { MIN_SCHEDULE_LEAD_MINUTES, toLocalInputValue } from '../lib/postSchedule';
+import type { PlaceSummary } from '../lib/places';
+import PlacePicker from './PlacePicker';
+import TagPeoplePicker, { type TaggedUser } from './TagPeoplePicker';
+import EventFields, { EMPTY_EVENT_FORM, isEventFormEmpty, toEventPayload, type EventFormValue } from './EventFields';
+import InternshipFields, { EMPTY_INTERNSHIP_FORM, isInternshipFormEmpty, toInternshipPayload, type InternshipFormValue } from './InternshipFields';
+import AudienceFields, { PUBLIC_AUDIENCE_FORM, toAudiencePayload, type AudienceFormValue } from './AudienceFields';
+import PollFields, { isPollFormEmpty, toPollPayload, type PollFormValue } from './PollFields';
 
 interface CreatePostModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
+type EditSettings = {
+  cropAspect: 'original' | '1:1' | '4:5' | '16:9';
+  zoom: number;
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  hue: number;
+  blur: number;
+  offsetX: number;
+  offsetY: number;
+  activePreset: string;
+};
+
+// One selected file in the carousel; edits are kept per item so switching back restores them
+type DraftMedia = {
+  file: File;
+  previewUrl: string;
+  editedBlob: Blob | null;
+  editedPreviewUrl: string;
+  edits: EditSettings | null;
+};
+
+// A person tagged on one item, optionally at a point on the photo (fractions of its size)
+type DraftTag = {
+  user: TaggedUser;
+  x?: number;
+  y?: number;
+};
+
 const CreatePostModal: React.FC<CreatePostModalProps> = ({ isOpen, onClose }) => {
-  const [selectedMedia, setSelectedMedia] = useState<File | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string>('');
-  const [editedPreviewUrl, setEditedPreviewUrl] = useState<string>('');
-  const [editedBlob, setEditedBlob] = useState<Blob | null>(null);
+  const [mediaItems, setMediaItems] = useState<DraftMedia[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [shareIndex, setShareIndex] = useState(0);
+  const activeItem = mediaItems[activeIndex];
+  const selectedMedia = activeItem?.file ?? null;
+  const previewUrl = activeItem?.previewUrl ?? '';
+  const shareItem = mediaItems[shareIndex];
   const [caption, setCaption] = useState('');
   const [category, setCategory] = useState('general');
+  const [place, setPlace] = useState<PlaceSummary | null>(null);
+  const [eventForm, setEventForm] = useState<EventFormValue>(EMPTY_EVENT_FORM);
+  const [internshipForm, setInternshipForm] = useState<InternshipFormValue>(EMPTY_INTERNSHIP_FORM);
+  const [audienceForm, setAudienceForm] = useState<AudienceFormValue>(PUBLIC_AUDIENCE_FORM);
+  const [pollForm, setPollForm] = useState<PollFormValue | null>(null);
+  // Keyed by preview URL so tags follow their item when the carousel is reordered
+  const [tagsByItem, setTagsByItem] = useState<Record<string, DraftTag[]>>({});
+  const [tagPoint, setTagPoint] = useState<{ x: number; y: number } | null>(null);
   const [captionTouched, setCaptionTouched] = useState(false);
   const [step, setStep] = useState<'upload' | 'edit' | 'share'>('upload');
   const [isUploading, setIsUploading] = useState(false);
@@ -23,6 +73,13 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ isOpen, onClose }) =>
   const imageRef = useRef<HTMLImageElement>(null);
   const rafRef = useRef<number | null>(null);
   const [showDiscardConfirm, setShowDiscardConfirm] = useState(false);
+  // The share step autosaves to a draft; later saves update it in place
+  const draftIdRef = useRef<number | null>(null);
+  const savedMediaKeyRef = useRef('');
+  const saveChainRef = useRef<Promise<void>>(Promise.resolve());
+  const [draftState, setDraftState] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const [scheduleOn, setScheduleOn] = useState(false);
+  const [scheduledAt, setScheduledAt] = useState('');
 
   // Edit state (images only)
   const [editTab, setEditTab] = useState<'filters' | 'adjust'>('filters');
@@ -238,92 +295,275 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ isOpen, onClose }) =>
     }
   }
 
-  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      if (previewUrl) URL.revokeObjectURL(previewUrl);
+  const captureEdits = (): EditSettings => ({
+    cropAspect, zoom, brightness, contrast, saturation, hue, blur, offsetX, offsetY, activePreset,
+  });
+
+  const restoreEdits = (edits: EditSettings | null) => {
+    if (!edits) { resetEdits(); return; }
+    setCropAspect(edits.cropAspect);
+    setZoom(edits.zoom);
+    setBrightness(edits.brightness);
+    setContrast(edits.contrast);
+    setSaturation(edits.saturation);
+    setHue(edits.hue);
+    setBlur(edits.blur);
+    setOffsetX(edits.offsetX);
+    setOffsetY(edits.offsetY);
+    setActivePreset(edits.activePreset);
+  };
+
+  // Render the current edits into the active image so it can be uploaded or revisited
+  const commitActiveEdits = async (): Promise<DraftMedia[]> => {
+    const item = mediaItems[activeIndex];
+    if (!item || !item.file.type.startsWith('image/')) return mediaItems;
+    const blob = await applyEditsToImage(item.previewUrl);
+    if (!blob) return mediaItems;
+    if (item.editedPreviewUrl) URL.revokeObjectURL(item.editedPreviewUrl);
+    const updated = mediaItems.map((m, i) => i === activeIndex
+      ? { ...m, editedBlob: blob, editedPreviewUrl: URL.createObjectURL(blob), edits: captureEdits() }
+      : m);
+    setMediaItems(updated);
+    return updated;
+  };
+
+  const selectItem = async (index: number) => {
+    if (index === activeIndex) return;
+    const updated = await commitActiveEdits();
+    setActiveIndex(index);
+    setImgNatural(null);
+    restoreEdits(updated[index]?.edits ?? null);
+  };
+
+  const moveActiveItem = (direction: -1 | 1) => {
+    const target = activeIndex + direction;
+    if (target < 0 || target >= mediaItems.length) return;
+    setMediaItems(moveItem(mediaItems, activeIndex, target));
+    setActiveIndex(target);
+  };
+
+  const revokeItem = (item: DraftMedia) => {
+    URL.revokeObjectURL(item.previewUrl);
+    if (item.editedPreviewUrl) URL.revokeObjectURL(item.editedPreviewUrl);
+  };
+
+  const removeItem = (index: number) => {
+    const item = mediaItems[index];
+    if (!item) return;
+    revokeItem(item);
+    const remaining = mediaItems.filter((_, i) => i !== index);
+    if (remaining.length === 0) {
+      reset();
+      return;
+    }
+    setMediaItems(remaining);
+    if (index === activeIndex) {
+      const next = Math.min(index, remaining.length - 1);
+      setActiveIndex(next);
+      setImgNatural(null);
+      restoreEdits(remaining[next].edits);
+    } else if (index < activeIndex) {
+      setActiveIndex(activeIndex - 1);
+    }
+  };
+
+  const addFiles = async (files: File[]) => {
+    const accepted = files.filter(file => file.type.startsWith('image/') || file.type.startsWith('video/'));
+    const room = MAX_POST_MEDIA - mediaItems.length;
+    if (accepted.length > room) {
+      alert(`You can add up to ${MAX_POST_MEDIA} photos and videos to a post`);
+    }
+    const toAdd = accepted.slice(0, Math.max(0, room));
+    if (toAdd.length === 0) return;
+
+    const added: DraftMedia[] = [];
+    for (const file of toAdd) {
       const processed = file.type.startsWith('image/') ? await downscaleImageFile(file, 2048) : file;
-      setSelectedMedia(processed);
-      const url = URL.createObjectURL(processed);
-      setPreviewUrl(url);
+      added.push({ file: processed, previewUrl: URL.createObjectURL(processed), editedBlob: null, editedPreviewUrl: '', edits: null });
+    }
+
+    setMediaItems(prev => [...prev, ...added]);
+    if (step === 'upload') {
+      setActiveIndex(0);
       setStep('edit');
       resetEdits();
     }
   };
 
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    // Allow picking the same file again after removing it
+    event.target.value = '';
+    await addFiles(files);
+  };
+
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
   };
 
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
-    const file = e.dataTransfer.files[0];
-    if (file && (file.type.startsWith('image/') || file.type.startsWith('video/'))) {
-      if (previewUrl) URL.revokeObjectURL(previewUrl);
-      setSelectedMedia(file);
-      const url = URL.createObjectURL(file);
-      setPreviewUrl(url);
-      setStep('edit');
-      resetEdits();
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const authHeaders = (): Record<string, string> => {
+    const authToken = token || localStorage.getItem('token');
+    return authToken ? { Authorization: `Bearer ${authToken}` } : {};
+  };
+
+  // Identifies the media as it would be uploaded, so unchanged media isn't sent again
+  const mediaKey = mediaItems.map(item => item.editedPreviewUrl || item.previewUrl).join('|');
+
+  // Everything the server needs to create or update the post; drafts send
+  // every field so clearing one (like the place) sticks
+  const buildPostForm = (includeMedia: boolean) => {
+    const formData = new FormData();
+    formData.append('caption', caption);
+    formData.append('category', category);
+    if (place) formData.append('place_id', String(place.id));
+    else if (draftIdRef.current) formData.append('place_id', '');
+    const eventPayload = category === 'events' ? toEventPayload(eventForm) : null;
+    if (eventPayload) formData.append('event', eventPayload);
+    else if (draftIdRef.current) formData.append('event', '');
+    const internshipPayload = category === 'internship' ? toInternshipPayload(internshipForm) : null;
+    if (internshipPayload) formData.append('internship', internshipPayload);
+    else if (draftIdRef.current) formData.append('internship', '');
+    const audiencePayload = toAudiencePayload(audienceForm);
+    if (audiencePayload) formData.append('audience', audiencePayload);
+    const pollPayload = toPollPayload(pollForm);
+    if (pollPayload) formData.append('poll', pollPayload);
+    else if (draftIdRef.current) formData.append('poll', '');
+
+    const tags = mediaItems.flatMap((item, index) => (tagsByItem[item.previewUrl] || []).map((tag) => ({
+      user_id: tag.user.id,
+      media_index: index,
+      ...(tag.x !== undefined && { x: tag.x, y: tag.y }),
+    })));
+    if (tags.length > 0 || draftIdRef.current) formData.append('tags', JSON.stringify(tags));
+
+    if (includeMedia) {
+      // Appended in carousel order; the server keeps the order of the `media` parts
+      for (const item of mediaItems) {
+        if (item.file.type.startsWith('image/') && item.editedBlob) {
+          const editedFile = new File([item.editedBlob], `edited-${item.file.name.replace(/\.(\w+)$/i, '.jpg')}`, { type: 'image/jpeg' });
+          formData.append('media', editedFile);
+        } else {
+          formData.append('media', item.file);
+        }
+      }
+    }
+    return formData;
+  };
+
+  const saveDraft = async () => {
+    const key = mediaKey;
+    const includeMedia = key !== savedMediaKeyRef.current;
+    const formData = buildPostForm(includeMedia);
+    setDraftState('saving');
+
+    try {
+      let response: Response;
+      if (draftIdRef.current) {
+        response = await fetch(`/api/users/me/drafts/${draftIdRef.current}`, {
+          method: 'PUT',
+          headers: authHeaders(),
+          body: formData,
+        });
+      } else {
+        formData.append('draft', 'true');
+        response = await fetch('/api/posts', {
+          method: 'POST',
+          headers: authHeaders(),
+          body: formData,
+        });
+      }
+
+      if (!response.ok) {
+        setDraftState('error');
+        return;
+      }
+      const result = await response.json();
+      if (!draftIdRef.current) draftIdRef.current = result.post?.id ?? null;
+      if (includeMedia) savedMediaKeyRef.current = key;
+      setDraftState('saved');
+      window.dispatchEvent(new CustomEvent('draftsChanged'));
+    } catch (error) {
+      console.error('Draft save error:', error);
+      setDraftState('error');
     }
   };
 
+  // Saves run one at a time so the first one's draft id is there for the next
+  const queueDraftSave = () => {
+    const next = saveChainRef.current.then(saveDraft);
+    saveChainRef.current = next;
+    return next;
+  };
+
+  useEffect(() => {
+    if (!isOpen || step !== 'share' || isUploading || mediaItems.length === 0) return;
+    const timer = setTimeout(queueDraftSave, 1500);
+    return () => clearTimeout(timer);
+    // queueDraftSave reads the latest state when it runs
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, step, caption, category, place, eventForm, internshipForm, audienceForm, pollForm, tagsByItem, mediaKey]);
+
+  const minScheduleValue = () => toLocalInputValue(new Date(Date.now() + MIN_SCHEDULE_LEAD_MINUTES * 60 * 1000));
+  const scheduling = scheduleOn && !!scheduledAt;
+
   const handleShare = async () => {
     if (!caption.trim()) { setCaptionTouched(true); return; }
+    if (category === 'events' && !isEventFormEmpty(eventForm) && !toEventPayload(eventForm)) {
+      alert('Add a start time and venue, or clear the event details');
+      return;
+    }
+    if (category === 'internship' && !isInternshipFormEmpty(internshipForm) && !toInternshipPayload(internshipForm)) {
+      alert('Add the company, role, apply link and deadline, or clear the internship details');
+      return;
+    }
+    if (!toAudiencePayload(audienceForm)) {
+      alert('Choose the department this post is for');
+      return;
+    }
+    if (!isPollFormEmpty(pollForm) && !toPollPayload(pollForm)) {
+      alert('Give the poll at least two options, or remove it');
+      return;
+    }
 
     setIsUploading(true);
 
     try {
-      const formData = new FormData();
-      formData.append('caption', caption);
-      formData.append('category', category);
-
-      if (selectedMedia) {
-        if (selectedMedia.type.startsWith('image/')) {
-          // Use the already edited image blob stored in state
-          if (editedBlob) {
-            const editedFile = new File([editedBlob], `edited-${selectedMedia.name.replace(/\.(\w+)$/i, '.jpg')}`, { type: 'image/jpeg' });
-            formData.append('media', editedFile);
-          } else {
-            // Fallback: apply edits if somehow blob is not set
-            const blob = await applyEditsToImage(previewUrl);
-            if (blob) {
-              const editedFile = new File([blob], `edited-${selectedMedia.name.replace(/\.(\w+)$/i, '.jpg')}`, { type: 'image/jpeg' });
-              formData.append('media', editedFile);
-            } else {
-              formData.append('media', selectedMedia);
-            }
-          }
-        } else {
-          formData.append('media', selectedMedia);
-        }
+      // Let an autosave in flight finish so the draft it made is reused
+      await saveChainRef.current;
+
+      const draftId = draftIdRef.current;
+      const formData = buildPostForm(!draftId || mediaKey !== savedMediaKeyRef.current);
+      if (scheduling) {
+        formData.append('scheduled_at', new Date(scheduledAt).toISOString());
+      } else if (draftId) {
+        formData.append('publish', 'true');
       }
 
-      // Get token from localStorage (you'll need to implement auth context)
-      const authToken = token || localStorage.getItem('token');
-
-      const response = await fetch('/api/posts', {
-        method: 'POST',
-        headers: {
-          ...(authToken && { Authorization: `Bearer ${authToken}` }),
-        },
+      const response = await fetch(draftId ? `/api/users/me/drafts/${draftId}` : '/api/posts', {
+        method: draftId ? 'PUT' : 'POST',
+        headers: authHeaders(),
         body: formData,
       });
 
       if (response.ok) {
         const result = await response.json();
-        console.log('Post created successfully:', result);
 
         // Reset modal
-        setSelectedMedia(null);
-        setPreviewUrl('');
-        setCaption('');
+        reset();
         setCategory('general');
-        setStep('upload');
         onClose();
 
-        // You could emit an event here to refresh the feed
-        window.dispatchEvent(new CustomEvent('postCreated', { detail: result.post }));
+        if (scheduling) {
+          window.dispatchEvent(new CustomEvent('draftsChanged'));
+        } else if (result.post) {
+          window.dispatchEvent(new CustomEvent('postCreated', { detail: result.post }));
+          if (draftId) window.dispatchEvent(new CustomEvent('draftsChanged'));
+        }
       } else {
         const error = await response.json();
         alert(error.error || 'Failed to create post');
@@ -336,44 +576,102 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ isOpen, onClose }) =>
     }
   };
 
+  const keepDraft = async () => {
+    setShowDiscardConfirm(false);
+    await queueDraftSave();
+    reset();
+    onClose();
+  };
+
+  const discardDraft = async () => {
+    await saveChainRef.current;
+    const draftId = draftIdRef.current;
+    reset();
+    setShowDiscardConfirm(false);
+    onClose();
+    if (!draftId) return;
+
+    try {
+      await fetch(`/api/users/me/drafts/${draftId}`, { method: 'DELETE', headers: authHeaders() });
+      window.dispatchEvent(new CustomEvent('draftsChanged'));
+    } catch (error) {
+      console.error('Draft delete error:', error);
+    }
+  };
+
   const handleBack = () => {
     if (step === 'edit') {
-      setStep('upload');
-      setSelectedMedia(null);
-      if (previewUrl) URL.revokeObjectURL(previewUrl);
-      if (editedPreviewUrl) URL.revokeObjectURL(editedPreviewUrl);
-      setPreviewUrl('');
-      setEditedPreviewUrl('');
-      resetEdits();
+      reset();
     } else if (step === 'share') {
       setStep('edit');
     }
   };
 
   const handleNext = async () => {
-    // Apply edits to image and create edited preview for share step
-    if (selectedMedia?.type.startsWith('image/')) {
-      const blob = await applyEditsToImage(previewUrl);
-      if (blob) {
-        if (editedPreviewUrl) URL.revokeObjectURL(editedPreviewUrl);
-        const editedUrl = URL.createObjectURL(blob);
-        setEditedPreviewUrl(editedUrl);
-        setEditedBlob(blob);
-      }
-    }
+    // Apply edits to the active image; the others were committed when switching away
+    await commitActiveEdits();
+    setShareIndex(activeIndex);
     setStep('share');
   };
 
+  const shareKey = shareItem?.previewUrl;
+  const shareIsImage = !!shareItem?.file.type.startsWith('image/');
+  const shareTags = (shareKey && tagsByItem[shareKey]) || [];
+
+  const showShareItem = (index: number) => {
+    setShareIndex(index);
+    setTagPoint(null);
+  };
+
+  const handleTagPointClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    setTagPoint({
+      x: clamp((e.clientX - rect.left) / rect.width),
+      y: clamp((e.clientY - rect.top) / rect.height),
+    });
+  };
+
+  const addTag = (taggedUser: TaggedUser) => {
+    if (!shareKey) return;
+    // Photos get a label where the author last clicked (the centre by default)
+    const point = shareIsImage ? (tagPoint || { x: 0.5, y: 0.5 }) : null;
+    setTagsByItem((prev) => ({
+      ...prev,
+      [shareKey]: [...(prev[shareKey] || []), { user: taggedUser, ...(point || {}) }],
+    }));
+    setTagPoint(null);
+  };
+
+  const removeTag = (userId: number) => {
+    if (!shareKey) return;
+    setTagsByItem((prev) => ({
+      ...prev,
+      [shareKey]: (prev[shareKey] || []).filter((tag) => tag.user.id !== userId),
+    }));
+  };
+
   const reset = () => {
-    setSelectedMedia(null);
-    if (previewUrl) URL.revokeObjectURL(previewUrl);
-    if (editedPreviewUrl) URL.revokeObjectURL(editedPreviewUrl);
-    setPreviewUrl('');
-    setEditedPreviewUrl('');
-    setEditedBlob(null);
+    mediaItems.forEach(revokeItem);
+    setMediaItems([]);
+    setActiveIndex(0);
+    setShareIndex(0);
+    setImgNatural(null);
     setCaption('');
+    setPlace(null);
+    setEventForm(EMPTY_EVENT_FORM);
+    setInternshipForm(EMPTY_INTERNSHIP_FORM);
+    setAudienceForm(PUBLIC_AUDIENCE_FORM);
+    setPollForm(null);
+    setTagsByItem({});
+    setTagPoint(null);
     setStep('upload');
     resetEdits();
+    draftIdRef.current = null;
+    savedMediaKeyRef.current = '';
+    setDraftState('idle');
+    setScheduleOn(false);
+    setScheduledAt('');
   };
 
   if (!isOpen) return null;
@@ -429,10 +727,10 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ isOpen, onClose }) =>
               {isUploading ? (
                 <>
                   <div className="w-4 h-4 border-2 border-accent border-t-transparent rounded-full animate-spin"></div>
-                  Sharing...
+                  {scheduling ? 'Scheduling...' : 'Sharing...'}
                 </>
               ) : (
-                'Share'
+                scheduling ? 'Schedule' : 'Share'
               )}
             </button>
           )}
@@ -475,17 +773,19 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ isOpen, onClose }) =>
                   </button>
                 </div>
               </div>
-
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept="image/*,video/*"
-                onChange={handleFileSelect}
-                className="hidden"
-              />
+              <p className="text-xs text-gray-500 text-center mt-3">Up to {MAX_POST_MEDIA} photos and videos</p>
             </div>
           )}
 
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*,video/*"
+            multiple
+            onChange={handleFileSelect}
+            className="hidden"
+          />
+
           {step === 'edit' && previewUrl && (
             <div className="flex flex-col md:flex-row max-h-[70vh]">
               {/* Preview with crop/aspect on the left */}
@@ -503,6 +803,7 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ isOpen, onClose }) =>
                 >
                   {selectedMedia?.type.startsWith('image/') ? (
                     <Image
+                      key={previewUrl}
                       ref={imageRef}
                       src={previewUrl}
                       alt="Preview"
@@ -527,6 +828,7 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ isOpen, onClose }) =>
                     />
                   ) : (
                     <video
+                      key={previewUrl}
                       src={previewUrl}
                       controls
                       className="max-w-full max-h-full object-contain"
@@ -535,6 +837,65 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ isOpen, onClose }) =>
                   {/* Grid overlay */}
                   <div className="absolute inset-0 pointer-events-none" style={{ backgroundImage: 'linear-gradient(rgba(255,255,255,0.08) 1px, transparent 1px), linear-gradient(90deg, rgba(255,255,255,0.08) 1px, transparent 1px)', backgroundSize: '33.333% 33.333%' }} />
                 </div>
+
+                {/* Carousel order: select to edit, arrows reorder the selected item */}
+                <div className="mt-3 flex items-center gap-2 overflow-x-auto pb-1">
+                  {mediaItems.map((item, index) => (
+                    <div key={item.previewUrl} className="relative flex-shrink-0">
+                      <button
+                        type="button"
+                        onClick={() => selectItem(index)}
+                        className={`block w-14 h-14 rounded-lg overflow-hidden bg-gray-100 ${index === activeIndex ? 'ring-2 ring-[#FFAF50]' : 'opacity-70 hover:opacity-100'}`}
+                        aria-label={`Select item ${index + 1}`}
+                      >
+                        {item.file.type.startsWith('image/') ? (
+                          <Image src={item.editedPreviewUrl || item.previewUrl} alt={`Item ${index + 1}`} width={56} height={56} className="w-full h-full object-cover" />
+                        ) : (
+                          <video src={item.previewUrl} muted className="w-full h-full object-cover" />
+                        )}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => removeItem(index)}
+                        className="absolute -top-1.5 -right-1.5 w-5 h-5 rounded-full bg-black/70 text-white text-xs leading-none flex items-center justify-center"
+                        aria-label={`Remove item ${index + 1}`}
+                      >
+                        ×
+                      </button>
+                    </div>
+                  ))}
+                  {mediaItems.length < MAX_POST_MEDIA && (
+                    <button
+                      type="button"
+                      onClick={() => fileInputRef.current?.click()}
+                      className="flex-shrink-0 w-14 h-14 rounded-lg border-2 border-dashed border-gray-300 text-gray-400 hover:border-[#FFAF50] hover:text-[#FFAF50] text-2xl"
+                      aria-label="Add photos or videos"
+                    >
+                      +
+                    </button>
+                  )}
+                </div>
+                {mediaItems.length > 1 && (
+                  <div className="mt-2 flex items-center justify-between text-xs text-gray-500">
+                    <button
+                      type="button"
+                      onClick={() => moveActiveItem(-1)}
+                      disabled={activeIndex === 0}
+                      className="px-2 py-1 rounded hover:bg-gray-100 disabled:opacity-40"
+                    >
+                      ← Move earlier
+                    </button>
+                    <span>{activeIndex + 1} / {mediaItems.length}</span>
+                    <button
+                      type="button"
+                      onClick={() => moveActiveItem(1)}
+                      disabled={activeIndex === mediaItems.length - 1}
+                      className="px-2 py-1 rounded hover:bg-gray-100 disabled:opacity-40"
+                    >
+                      Move later →
+                    </button>
+                  </div>
+                )}
               </div>
 
               {/* Controls on the right */}
@@ -666,21 +1027,68 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ isOpen, onClose }) =>
           {step === 'share' && (
             <div className="flex flex-col md:flex-row">
               {/* Preview */}
-              <div className="aspect-square md:w-1/2 bg-black flex items-center justify-center rounded-2xl shadow-lg overflow-hidden">
-                {selectedMedia?.type.startsWith('image/') ? (
-                  <Image
-                    src={editedPreviewUrl || previewUrl}
-                    alt="Preview"
-                    width={600}
-                    height={600}
-                    className="max-w-full max-h-full object-contain"
-                  />
+              <div className="relative aspect-square md:w-1/2 bg-black flex items-center justify-center rounded-2xl shadow-lg overflow-hidden">
+                {shareItem && (shareIsImage ? (
+                  <div className="relative max-w-full max-h-full cursor-crosshair" onClick={handleTagPointClick}>
+                    <Image
+                      src={shareItem.editedPreviewUrl || shareItem.previewUrl}
+                      alt="Preview"
+                      width={600}
+                      height={600}
+                      className="max-w-full max-h-full object-contain"
+                    />
+                    {shareTags.map((tag) => tag.x !== undefined && tag.y !== undefined && (
+                      <span
+                        key={tag.user.id}
+                        className="absolute -translate-x-1/2 -translate-y-1/2 px-2 py-1 rounded bg-black/75 text-white text-xs whitespace-nowrap pointer-events-none"
+                        style={{ left: `${tag.x * 100}%`, top: `${tag.y * 100}%` }}
+                      >
+                        {tag.user.username || tag.user.name}
+                      </span>
+                    ))}
+                    {tagPoint && (
+                      <span
+                        className="absolute w-3 h-3 -translate-x-1/2 -translate-y-1/2 rounded-full bg-white border-2 border-[#FFAF50] pointer-events-none"
+                        style={{ left: `${tagPoint.x * 100}%`, top: `${tagPoint.y * 100}%` }}
+                      />
+                    )}
+                  </div>
                 ) : (
                   <video
-                    src={previewUrl}
+                    key={shareItem.previewUrl}
+                    src={shareItem.previewUrl}
                     controls
                     className="max-w-full max-h-full object-contain"
                   />
+                ))}
+                {mediaItems.length > 1 && (
+                  <>
+                    {shareIndex > 0 && (
+                      <button
+                        type="button"
+                        onClick={() => showShareItem(shareIndex - 1)}
+                        className="absolute left-2 top-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-white/80 text-gray-900 shadow flex items-center justify-center"
+                        aria-label="Previous"
+                      >
+                        ‹
+                      </button>
+                    )}
+                    {shareIndex < mediaItems.length - 1 && (
+                      <button
+                        type="button"
+                        onClick={() => showShareItem(shareIndex + 1)}
+                        className="absolute right-2 top-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-white/80 text-gray-900 shadow flex items-center justify-center"
+                        aria-label="Next"
+                      >
+                        ›
+                      </button>
+                    )}
+                    <div className="absolute bottom-2 left-1/2 -translate-x-1/2 flex gap-1">
+                      {mediaItems.map((item, index) => (
+                        <span key={item.previewUrl} className={`w-1.5 h-1.5 rounded-full ${index === shareIndex ? 'bg-white' : 'bg-white/50'}`} />
+                      ))}
+                    </div>
+                  </>
                 )}
               </div>
 
@@ -702,8 +1110,13 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ isOpen, onClose }) =>
                   maxLength={1000}
                 />
 
-                <div className="text-xs text-gray-400 text-right mb-4">
-                  {caption.length}/2,200
+                <div className="flex items-center justify-between text-xs text-gray-400 mb-4">
+                  <span>
+                    {draftState === 'saving' && 'Saving draft...'}
+                    {draftState === 'saved' && 'Draft saved'}
+                    {draftState === 'error' && <span className="text-red-600">Couldn&apos;t save draft</span>}
+                  </span>
+                  <span>{caption.length}/2,200</span>
                 </div>
                 {captionTouched && !caption.trim() && (
                   <div className="text-xs text-red-600 mb-3">Caption is required.</div>
@@ -718,29 +1131,83 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ isOpen, onClose }) =>
                       className="text-sm border border-gray-200 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-[#FFAF50]"
                     >
                       <option value="general">General</option>
-                      <option value="academic">Academic</option>
+                      {canPostInCategory(user?.role, 'academic') && (
+                        <option value="academic">Academic</option>
+                      )}
                       <option value="events">Events</option>
+                      <option value="internship">Internship</option>
                       <option value="clubs">Clubs</option>
                       <option value="sports">Sports</option>
                       <option value="social">Social</option>
                     </select>
                   </div>
 
-                  <div className="flex items-center justify-between py-2 opacity-50">
-                    <span className="text-sm text-gray-900">Add location</span>
-                    <div className="flex items-center gap-2">
-                      <span className="text-xs text-gray-400">Coming soon</span>
-                      <svg width="20" height="20" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg" className="text-gray-400">
-                        <path d="M9 12L11 14L15 10M21 12C21 16.418 16.97 20 12 20C7.03 20 3 16.418 3 12C3 7.582 7.03 4 12 4C16.97 4 21 7.582 21 12Z" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" />
-                      </svg>
+                  {category === 'events' && (
+                    <div className="py-2 space-y-2">
+                      <span className="text-sm text-gray-900">Event details</span>
+                      <EventFields value={eventForm} onChange={setEventForm} disabled={isUploading} />
+                    </div>
+                  )}
+
+                  {category === 'internship' && (
+                    <div className="py-2 space-y-2">
+                      <span className="text-sm text-gray-900">Internship details</span>
+                      <InternshipFields value={internshipForm} onChange={setInternshipForm} disabled={isUploading} />
                     </div>
+                  )}
+
+                  <div className="py-2 space-y-2">
+                    <span className="text-sm text-gray-900">Add location</span>
+                    <PlacePicker value={place} onChange={setPlace} disabled={isUploading} />
                   </div>
 
-                  <div className="flex items-center justify-between py-2">
+                  <div className="py-2 space-y-2">
+                    <span className="text-sm text-gray-900 block">Poll</span>
+                    <PollFields value={pollForm} onChange={setPollForm} disabled={isUploading} />
+                  </div>
+
+                  <div className="py-2 space-y-2">
+                    <span className="text-sm text-gray-900">Audience</span>
+                    <AudienceFields value={audienceForm} onChange={setAudienceForm} disabled={isUploading} />
+                  </div>
+
+                  <div className="py-2 space-y-2">
                     <span className="text-sm text-gray-900">Tag people</span>
-                    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg" className="text-gray-400">
-                      <path d="M9 12L11 14L15 10M21 12C21 16.418 16.97 20 12 20C7.03 20 3 16.418 3 12C3 7.582 7.03 4 12 4C16.97 4 21 7.582 21 12Z" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" />
-                    </svg>
+                    <TagPeoplePicker
+                      tagged={shareTags.map((tag) => tag.user)}
+                      onAdd={addTag}
+                      onRemove={removeTag}
+                      disabled={isUploading}
+                      hint={shareIsImage ? 'Tap the photo to choose where the next tag goes' : undefined}
+                    />
+                  </div>
+
+                  <div className="py-2 space-y-2">
+                    <label className="flex items-center justify-between text-sm text-gray-900">
+                      <span>Schedule for later</span>
+                      <input
+                        type="checkbox"
+                        checked={scheduleOn}
+                        onChange={(e) => {
+                          setScheduleOn(e.target.checked);
+                          if (e.target.checked && !scheduledAt) {
+                            setScheduledAt(toLocalInputValue(new Date(Date.now() + 60 * 60 * 1000)));
+                          }
+                        }}
+                        disabled={isUploading}
+                        className="accent-[#FFAF50]"
+                      />
+                    </label>
+                    {scheduleOn && (
+                      <input
+                        type="datetime-local"
+                        value={scheduledAt}
+                        min={minScheduleValue()}
+                        onChange={(e) => setScheduledAt(e.target.value)}
+                        disabled={isUploading}
+                        className="w-full text-sm border border-gray-200 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-[#FFAF50]"
+                      />
+                    )}
                   </div>
                 </div>
               </div>
@@ -754,7 +1221,11 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ isOpen, onClose }) =>
           <div className="absolute inset-0 bg-black/50" />
           <div className="relative bg-white rounded-2xl shadow-xl w-full max-w-sm mx-4 p-5">
             <h3 className="text-lg font-semibold mb-1">Discard post?</h3>
-            <p className="text-sm text-gray-600 mb-4">If you leave, your edits won’t be saved.</p>
+            <p className="text-sm text-gray-600 mb-4">
+              {step === 'share'
+                ? 'Keep it as a draft to finish it later from Drafts & scheduled on your profile.'
+                : 'If you leave, your edits won’t be saved.'}
+            </p>
             <div className="flex items-center justify-end gap-2">
               <button
                 onClick={() => setShowDiscardConfirm(false)}
@@ -762,8 +1233,16 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ isOpen, onClose }) =>
               >
                 Cancel
               </button>
+              {step === 'share' && (
+                <button
+                  onClick={keepDraft}
+                  className="px-4 py-2 rounded-lg text-gray-900 font-medium hover:bg-gray-100"
+                >
+                  Keep draft
+                </button>
+              )}
               <button
-                onClick={() => { reset(); setShowDiscardConfirm(false); onClose(); }}
+                onClick={discardDraft}
                 className="px-4 py-2 rounded-lg bg-red-500 text-white hover:bg-red-600"
               >
                 Discard
@@ -0,0 +1,100 @@
+'use client';
+
+import React, { useState } from 'react';
+import { fetchAPI } from '../lib/dataFetcher';
+
+interface DeactivateAccountModalProps {
+  isOpen: boolean;
+  token: string | null;
+  onClose: () => void;
+  onDeactivated: () => void;
+}
+
+const inputClassName = 'w-full px-4 py-2.5 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-[#FFAF50] focus:border-transparent outline-none';
+
+/**
+ * Confirms the password before hiding the account. Logging in again reactivates it.
+ */
+const DeactivateAccountModal: React.FC<DeactivateAccountModalProps> = ({ isOpen, token, onClose, onDeactivated }) => {
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  if (!isOpen) return null;
+
+  const handleClose = () => {
+    setPassword('');
+    setError(null);
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await fetchAPI('/api/users/deactivate', {
+        method: 'POST',
+        token,
+        skipCache: true,
+        retries: 0,
+        body: JSON.stringify({ password }),
+      });
+      onDeactivated();
+    } catch (err: any) {
+      setError(err.message || 'Failed to deactivate account');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4" onClick={handleClose}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 space-y-4"
+      >
+        <h2 className="text-xl font-bold text-gray-900">Deactivate your account?</h2>
+        <p className="text-sm text-gray-600">
+          Your profile, posts and follows will be hidden from everyone and you&apos;ll be signed out on all devices.
+          Nothing is deleted. Log in again at any time to reactivate.
+        </p>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 text-red-700 rounded-lg text-sm">{error}</div>
+        )}
+
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className={inputClassName}
+          placeholder="Password"
+          autoComplete="current-password"
+          required
+        />
+
+        <div className="flex gap-3 pt-2">
+          <button
+            type="button"
+            onClick={handleClose}
+            className="flex-1 px-4 py-2.5 bg-white hover:bg-gray-50 text-gray-700 text-sm font-semibold rounded-lg border border-gray-300"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={busy || !password}
+            className="flex-1 px-4 py-2.5 bg-gray-900 hover:bg-black text-white text-sm font-semibold rounded-lg transition-colors disabled:opacity-50"
+          >
+            {busy ? 'Deactivating...' : 'Deactivate'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default DeactivateAccountModal;
@@ -0,0 +1,130 @@
+'use client';
+
+import React, { useState } from 'react';
+import { fetchAPI } from '../lib/dataFetcher';
+
+interface DeleteAccountModalProps {
+  isOpen: boolean;
+  token: string | null;
+  onClose: () => void;
+  onDeleted: (purgeAt: string) => void;
+}
+
+const CONFIRMATION_TEXT = 'DELETE MY ACCOUNT';
+
+const inputClassName = 'w-full px-4 py-2.5 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-red-400 focus:border-transparent outline-none';
+
+/**
+ * Asks for the password and a typed confirmation before scheduling deletion.
+ * The account is only purged after the 30-day grace period.
+ */
+const DeleteAccountModal: React.FC<DeleteAccountModalProps> = ({ isOpen, token, onClose, onDeleted }) => {
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [anonymizeMessages, setAnonymizeMessages] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  if (!isOpen) return null;
+
+  const handleClose = () => {
+    setPassword('');
+    setConfirmation('');
+    setAnonymizeMessages(false);
+    setError(null);
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const data = await fetchAPI<{ purge_at: string }>('/api/users/delete', {
+        method: 'DELETE',
+        token,
+        skipCache: true,
+        retries: 0,
+        body: JSON.stringify({ password, confirmation, anonymize_messages: anonymizeMessages }),
+      });
+      onDeleted(data.purge_at);
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete account');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4" onClick={handleClose}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 space-y-4"
+      >
+        <h2 className="text-xl font-bold text-red-700">Delete your account?</h2>
+        <p className="text-sm text-gray-600">
+          Your account will be hidden and you&apos;ll be signed out everywhere. After 30 days your profile, posts,
+          comments, followers and messages are permanently deleted. Log in before then to cancel.
+        </p>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 text-red-700 rounded-lg text-sm">{error}</div>
+        )}
+
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className={inputClassName}
+          placeholder="Password"
+          autoComplete="current-password"
+          required
+        />
+
+        <div>
+          <label className="block text-sm text-gray-700 mb-1">
+            Type <strong>{CONFIRMATION_TEXT}</strong> to confirm
+          </label>
+          <input
+            type="text"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            className={inputClassName}
+            autoComplete="off"
+          />
+        </div>
+
+        <label className="flex items-start gap-3 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={anonymizeMessages}
+            onChange={(e) => setAnonymizeMessages(e.target.checked)}
+            className="mt-0.5 w-4 h-4 accent-red-600"
+          />
+          <span>Keep my sent messages for the people I talked to, shown as from a deleted user</span>
+        </label>
+
+        <div className="flex gap-3 pt-2">
+          <button
+            type="button"
+            onClick={handleClose}
+            className="flex-1 px-4 py-2.5 bg-white hover:bg-gray-50 text-gray-700 text-sm font-semibold rounded-lg border border-gray-300"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={busy || !password || confirmation !== CONFIRMATION_TEXT}
+            className="flex-1 px-4 py-2.5 bg-red-600 hover:bg-red-700 text-white text-sm font-semibold rounded-lg transition-colors disabled:opacity-50"
+          >
+            {busy ? 'Deleting...' : 'Delete account'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default DeleteAccountModal;
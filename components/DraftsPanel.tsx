@@ -0,0 +1,270 @@
+'use client';
+
+import Image from 'next/image'
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { fetchAPI } from '../lib/dataFetcher';
+import { canPostInCategory } from '../lib/roles';
+import type { MediaItem } from '../lib/postMedia';
+import { MIN_SCHEDULE_LEAD_MINUTES, toLocalInputValue, type PostStatus } from '../lib/postSchedule';
+
+interface DraftView {
+  id: number;
+  caption: string;
+  category: string;
+  status: PostStatus;
+  scheduled_at?: string | null;
+  updated_at?: string | null;
+  created_at: string;
+  media: MediaItem[];
+}
+
+const CATEGORY_OPTIONS = ['general', 'academic', 'events', 'internship', 'clubs', 'sports', 'social'];
+
+const formatWhen = (value?: string | null) => value
+  ? new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+  : '';
+
+/**
+ * The Drafts & scheduled view of your own profile: posts autosaved from the
+ * create dialog and posts waiting for their publish time. Only the author
+ * sees these.
+ */
+const DraftsPanel: React.FC = () => {
+  const { user, token } = useAuth();
+  const { showToast } = useToast();
+  const [drafts, setDrafts] = useState<DraftView[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editCaption, setEditCaption] = useState('');
+  const [editCategory, setEditCategory] = useState('general');
+  const [editSchedule, setEditSchedule] = useState('');
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const loadDrafts = useCallback(async () => {
+    if (!token) return;
+    setLoading(true);
+    try {
+      const data = await fetchAPI<{ drafts: DraftView[] }>('/api/users/me/drafts', { token, skipCache: true });
+      setDrafts(data.drafts || []);
+    } catch (error) {
+      console.error('Error fetching drafts:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    loadDrafts();
+  }, [loadDrafts]);
+
+  // The create dialog autosaves in the background
+  useEffect(() => {
+    window.addEventListener('draftsChanged', loadDrafts);
+    return () => window.removeEventListener('draftsChanged', loadDrafts);
+  }, [loadDrafts]);
+
+  const startEditing = (draft: DraftView) => {
+    setEditingId(draft.id);
+    setEditCaption(draft.caption || '');
+    setEditCategory((draft.category || 'general').toLowerCase());
+    setEditSchedule(draft.scheduled_at ? toLocalInputValue(new Date(draft.scheduled_at)) : '');
+  };
+
+  // Fields are sent as multipart, the same as when the draft was created
+  const updateDraft = async (draft: DraftView, fields: Record<string, string>, successMessage: string) => {
+    if (!token) return;
+    const formData = new FormData();
+    Object.entries(fields).forEach(([name, value]) => formData.append(name, value));
+
+    setBusyId(draft.id);
+    try {
+      const data = await fetchAPI<{ draft?: DraftView | null; post?: unknown }>(`/api/users/me/drafts/${draft.id}`, {
+        method: 'PUT',
+        token,
+        skipCache: true,
+        retries: 0,
+        body: formData,
+      });
+      if (data.post) {
+        setDrafts((prev) => prev.filter((d) => d.id !== draft.id));
+        window.dispatchEvent(new CustomEvent('postCreated', { detail: data.post }));
+      } else {
+        // Scheduling moves it up the list
+        await loadDrafts();
+      }
+      setEditingId(null);
+      showToast(successMessage, 'success');
+    } catch (error: any) {
+      showToast(error.message || 'Failed to update draft', 'error');
+      // It may have gone out in the meantime
+      loadDrafts();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSave = (draft: DraftView) => {
+    const fields: Record<string, string> = { caption: editCaption, category: editCategory };
+    if (editSchedule) {
+      fields.scheduled_at = new Date(editSchedule).toISOString();
+    } else if (draft.status === 'scheduled') {
+      fields.scheduled_at = '';
+    }
+    updateDraft(draft, fields, editSchedule ? `Scheduled for ${formatWhen(fields.scheduled_at)}` : 'Draft saved');
+  };
+
+  const handleUnschedule = (draft: DraftView) => {
+    updateDraft(draft, { scheduled_at: '' }, 'Moved back to drafts');
+  };
+
+  const handlePublish = (draft: DraftView) => {
+    updateDraft(draft, { publish: 'true' }, 'Post published');
+  };
+
+  const handleDelete = async (draft: DraftView) => {
+    if (!token) return;
+    const what = draft.status === 'scheduled' ? 'this scheduled post' : 'this draft';
+    if (!confirm(`Delete ${what}? This can't be undone.`)) return;
+
+    setBusyId(draft.id);
+    try {
+      await fetchAPI(`/api/users/me/drafts/${draft.id}`, { method: 'DELETE', token, skipCache: true, retries: 0 });
+      setDrafts((prev) => prev.filter((d) => d.id !== draft.id));
+    } catch (error: any) {
+      showToast(error.message || 'Failed to delete draft', 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading && drafts.length === 0) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="w-8 h-8 border-4 border-gray-200 border-t-[#FFAF50] rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (drafts.length === 0) {
+    return (
+      <div className="text-center py-16">
+        <div className="text-gray-600 text-lg font-light mb-2">No drafts or scheduled posts</div>
+        <div className="text-gray-500 text-sm">Posts you start are saved here as drafts until you share them.</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="text-xs text-gray-500">Only you can see your drafts and scheduled posts.</div>
+      {drafts.map((draft) => {
+        const cover = draft.media[0];
+        const isEditing = editingId === draft.id;
+        const busy = busyId === draft.id;
+        const categoryOptions = CATEGORY_OPTIONS.filter((c) => c !== 'academic' || canPostInCategory(user?.role, 'academic'));
+        if (!categoryOptions.includes(editCategory) && isEditing) categoryOptions.push(editCategory);
+
+        return (
+          <div key={draft.id} className="flex gap-3 p-3 border border-gray-200 rounded-2xl">
+            <div className="relative w-20 h-20 shrink-0 rounded-xl overflow-hidden bg-gray-100 flex items-center justify-center">
+              {cover ? (cover.type === 'video' ? (
+                <video src={cover.url} muted className="w-full h-full object-cover" />
+              ) : (
+                <Image src={cover.url} alt="" fill sizes="80px" className="object-cover" />
+              )) : (
+                <span className="text-xs text-gray-400">No media</span>
+              )}
+              {draft.media.length > 1 && (
+                <span className="absolute top-1 right-1 px-1.5 rounded bg-black/60 text-white text-[10px]">{draft.media.length}</span>
+              )}
+            </div>
+
+            <div className="flex-1 min-w-0 space-y-2">
+              <div className="text-xs font-semibold">
+                {draft.status === 'scheduled' ? (
+                  <span className="text-[#FFAF50]">Scheduled for {formatWhen(draft.scheduled_at)}</span>
+                ) : (
+                  <span className="text-gray-500">Draft · edited {formatWhen(draft.updated_at || draft.created_at)}</span>
+                )}
+              </div>
+
+              {isEditing ? (
+                <>
+                  <textarea
+                    value={editCaption}
+                    onChange={(e) => setEditCaption(e.target.value)}
+                    placeholder="Write a caption..."
+                    className="w-full h-20 resize-none border border-gray-200 rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-[#FFAF50] text-sm text-gray-700"
+                    maxLength={1000}
+                  />
+                  <div className="flex flex-wrap items-center gap-2">
+                    <select
+                      value={editCategory}
+                      onChange={(e) => setEditCategory(e.target.value)}
+                      className="text-sm border border-gray-200 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-[#FFAF50]"
+                    >
+                      {categoryOptions.map((c) => (
+                        <option key={c} value={c}>{c.charAt(0).toUpperCase() + c.slice(1).replace('_', ' ')}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="datetime-local"
+                      value={editSchedule}
+                      min={toLocalInputValue(new Date(Date.now() + MIN_SCHEDULE_LEAD_MINUTES * 60 * 1000))}
+                      onChange={(e) => setEditSchedule(e.target.value)}
+                      className="text-sm border border-gray-200 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-[#FFAF50]"
+                      aria-label="Publish time"
+                    />
+                    {editSchedule && (
+                      <button onClick={() => setEditSchedule('')} className="text-xs text-gray-500 hover:text-gray-900">
+                        Clear time
+                      </button>
+                    )}
+                  </div>
+                  <div className="flex items-center justify-end gap-3 text-sm">
+                    <button onClick={() => setEditingId(null)} disabled={busy} className="text-gray-600 hover:text-gray-900">
+                      Cancel
+                    </button>
+                    <button onClick={() => handleSave(draft)} disabled={busy} className="font-semibold text-[#FFAF50] disabled:opacity-50">
+                      {busy ? 'Saving...' : editSchedule ? 'Schedule' : 'Save'}
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <p className="text-sm text-gray-900 line-clamp-2 break-words">
+                    {draft.caption || <span className="text-gray-400">No caption yet</span>}
+                  </p>
+                  <div className="flex flex-wrap items-center gap-3 text-xs font-semibold">
+                    <button onClick={() => startEditing(draft)} disabled={busy} className="text-gray-900 hover:text-gray-600">
+                      {draft.status === 'scheduled' ? 'Edit or reschedule' : 'Edit'}
+                    </button>
+                    {draft.status === 'scheduled' && (
+                      <button onClick={() => handleUnschedule(draft)} disabled={busy} className="text-gray-600 hover:text-gray-900">
+                        Unschedule
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handlePublish(draft)}
+                      disabled={busy || !draft.caption || draft.media.length === 0}
+                      className="text-[#FFAF50] disabled:opacity-40"
+                    >
+                      Post now
+                    </button>
+                    <button onClick={() => handleDelete(draft)} disabled={busy} className="text-red-600 hover:text-red-700">
+                      {draft.status === 'scheduled' ? 'Cancel' : 'Delete'}
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default DraftsPanel;
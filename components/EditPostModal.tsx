@@ -0,0 +1,352 @@
+'use client';
+
+import Image from 'next/image'
+import React, { useEffect, useRef, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { fetchAPI, dataFetcher } from '../lib/dataFetcher';
+import { canPostInCategory } from '../lib/roles';
+import { MAX_POST_MEDIA, moveItem, type MediaItem } from '../lib/postMedia';
+import type { PlaceSummary } from '../lib/places';
+import type { EventView } from '../lib/events';
+import type { InternshipView } from '../lib/internships';
+import type { AudienceView } from '../lib/postAudience';
+import type { PollView } from '../lib/polls';
+import PlacePicker from './PlacePicker';
+import EventFields, { isEventFormEmpty, toEventForm, toEventPayload, type EventFormValue } from './EventFields';
+import InternshipFields, { isInternshipFormEmpty, toInternshipForm, toInternshipPayload, type InternshipFormValue } from './InternshipFields';
+import AudienceFields, { toAudienceForm, toAudiencePayload, type AudienceFormValue } from './AudienceFields';
+import PollFields, { isPollFormEmpty, toPollForm, toPollPayload, type PollFormValue } from './PollFields';
+
+export interface EditablePost {
+  id: number;
+  content: string;
+  category?: string;
+  place?: PlaceSummary | null;
+  event?: EventView | null;
+  internship?: InternshipView | null;
+  audience?: AudienceView | null;
+  poll?: PollView | null;
+  media: MediaItem[];
+}
+
+interface EditPostModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  post: EditablePost;
+  // Gets the updated post in the API shape
+  onSaved?: (post: any) => void;
+}
+
+// One carousel slot while editing: an item the post already has, or a new file
+type EditItem = {
+  key: string;
+  existingIndex: number | null;
+  url: string;
+  type: 'image' | 'video';
+  file?: File;
+};
+
+const CATEGORY_OPTIONS = ['general', 'academic', 'events', 'internship', 'clubs', 'sports', 'social'];
+
+/**
+ * Edit a published post: caption, category, location, audience, poll and media.
+ * Every save that changes what people see keeps the previous version in the
+ * post's edit history.
+ */
+const EditPostModal: React.FC<EditPostModalProps> = ({ isOpen, onClose, post, onSaved }) => {
+  const { user, token } = useAuth();
+  const { showToast } = useToast();
+  const [caption, setCaption] = useState(post.content || '');
+  const [category, setCategory] = useState((post.category || 'general').toLowerCase());
+  const [place, setPlace] = useState<PlaceSummary | null>(post.place || null);
+  const [eventForm, setEventForm] = useState<EventFormValue>(toEventForm(post.event));
+  const [internshipForm, setInternshipForm] = useState<InternshipFormValue>(toInternshipForm(post.internship));
+  const [audienceForm, setAudienceForm] = useState<AudienceFormValue>(toAudienceForm(post.audience));
+  const [pollForm, setPollForm] = useState<PollFormValue | null>(toPollForm(post.poll));
+  // Set once anyone has voted: only the closing time can change then
+  const [pollLocked, setPollLocked] = useState(false);
+  const [items, setItems] = useState<EditItem[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  // Previews of picked files, released when the dialog closes
+  const objectUrlsRef = useRef<string[]>([]);
+
+  // Start from the post as it is each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setCaption(post.content || '');
+    setCategory((post.category || 'general').toLowerCase());
+    setPlace(post.place || null);
+    setEventForm(toEventForm(post.event));
+    setInternshipForm(toInternshipForm(post.internship));
+    setAudienceForm(toAudienceForm(post.audience));
+    setPollForm(toPollForm(post.poll));
+    setPollLocked(false);
+    if (post.poll) {
+      fetchAPI<{ results: { voters: number } }>(`/api/posts/${post.id}/poll`, { token: token || undefined, skipCache: true })
+        .then((data) => setPollLocked(data.results.voters > 0))
+        .catch((error) => console.error('Error fetching poll:', error));
+    }
+    setItems(post.media.map((item, index) => ({ key: `existing-${index}`, existingIndex: index, url: item.url, type: item.type })));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, post.id]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    return () => {
+      objectUrlsRef.current.forEach((url) => URL.revokeObjectURL(url));
+      objectUrlsRef.current = [];
+    };
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const isEvent = category === 'events' || category === 'event';
+  const isInternship = category === 'internship';
+  const categoryOptions = CATEGORY_OPTIONS.filter((c) => c !== 'academic' || canPostInCategory(user?.role, 'academic'));
+  if (!categoryOptions.includes(category)) categoryOptions.push(category);
+
+  const fromFile = (file: File): EditItem => {
+    const url = URL.createObjectURL(file);
+    objectUrlsRef.current.push(url);
+    return { key: url, existingIndex: null, url, type: file.type.startsWith('video/') ? 'video' : 'image', file };
+  };
+
+  const pickFile = (onPicked: (file: File) => void) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'image/*,video/*';
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (file) onPicked(file);
+    };
+    input.click();
+  };
+
+  const replaceItem = (index: number) => {
+    pickFile((file) => {
+      const replacement = fromFile(file);
+      setItems((prev) => prev.map((item, i) => i === index ? replacement : item));
+    });
+  };
+
+  const addItem = () => {
+    pickFile((file) => {
+      const added = fromFile(file);
+      setItems((prev) => [...prev, added].slice(0, MAX_POST_MEDIA));
+    });
+  };
+
+  const removeItem = (index: number) => {
+    setItems((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = async () => {
+    if (!token) return;
+    const trimmed = caption.trim();
+    if (!trimmed) {
+      showToast('Caption cannot be empty', 'error');
+      return;
+    }
+    const eventPayload = isEvent ? toEventPayload(eventForm) : null;
+    if (isEvent && !eventPayload && !isEventFormEmpty(eventForm)) {
+      showToast('Add a start time and venue, or clear the event details', 'error');
+      return;
+    }
+    // Dropping the details (or the Events category) clears everyone's RSVPs
+    if (post.event && !eventPayload && !confirm('Remove the event details? Everyone\'s RSVPs will be cleared.')) {
+      return;
+    }
+    const internshipPayload = isInternship ? toInternshipPayload(internshipForm) : null;
+    if (isInternship && !internshipPayload && !isInternshipFormEmpty(internshipForm)) {
+      showToast('Add the company, role, apply link and deadline, or clear the internship details', 'error');
+      return;
+    }
+    if (post.internship && !internshipPayload && !confirm('Remove the internship details? It will drop off everyone\'s tracked internships.')) {
+      return;
+    }
+
+    const audiencePayload = toAudiencePayload(audienceForm);
+    if (!audiencePayload) {
+      showToast('Choose the department this post is for', 'error');
+      return;
+    }
+    const pollPayload = toPollPayload(pollForm);
+    if (!pollPayload && !isPollFormEmpty(pollForm)) {
+      showToast('Give the poll at least two options, or remove it', 'error');
+      return;
+    }
+    if (post.poll && !pollPayload && pollLocked && !confirm('Remove the poll? Everyone\'s votes will be cleared.')) {
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append('caption', trimmed);
+    formData.append('category', category);
+    formData.append('place_id', place ? String(place.id) : '');
+    if (isEvent) formData.append('event', eventPayload || '');
+    if (isInternship) formData.append('internship', internshipPayload || '');
+    formData.append('audience', audiencePayload);
+    formData.append('poll', pollPayload || '');
+    formData.append('media_layout', JSON.stringify(items.map((item) => item.existingIndex ?? 'new')));
+    items.forEach((item) => { if (item.file) formData.append('media', item.file); });
+
+    setIsSaving(true);
+    try {
+      const data = await fetchAPI<{ post: any }>(`/api/posts/${post.id}`, {
+        method: 'PUT',
+        token,
+        skipCache: true,
+        retries: 0,
+        body: formData,
+      });
+
+      dataFetcher.clearCache('/api/posts');
+      dataFetcher.clearCache(`/api/posts/${post.id}`);
+      dataFetcher.clearCache('/api/users/me');
+
+      window.dispatchEvent(new CustomEvent('postUpdated', { detail: { id: post.id, content: data.post?.content ?? trimmed, post: data.post } }));
+      showToast('Post updated', 'success');
+      onSaved?.(data.post);
+      onClose();
+    } catch (error: any) {
+      showToast(error.message || 'Failed to update post', 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/65 backdrop-blur-md flex items-center justify-center z-modal p-4" onClick={(e) => { if (e.target === e.currentTarget && !isSaving) onClose(); }}>
+      <div className="bg-white rounded-2xl w-full max-w-lg max-h-[90vh] overflow-auto shadow-modal ring-1 ring-black/5">
+        <div className="sticky top-0 z-10 flex items-center justify-between px-6 py-4 border-b border-gray-200 bg-white">
+          <button onClick={onClose} disabled={isSaving} className="text-sm text-gray-600 hover:text-gray-900">
+            Cancel
+          </button>
+          <h2 className="text-lg font-semibold text-gray-900">Edit post</h2>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !caption.trim() || items.length === 0}
+            className="text-accent font-semibold hover:text-accent/80 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? 'Saving...' : 'Done'}
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div>
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              {items.map((item, index) => (
+                <div key={item.key} className="relative w-24 h-24 shrink-0 rounded-lg overflow-hidden bg-gray-100">
+                  {item.type === 'video' ? (
+                    <video src={item.url} muted className="w-full h-full object-cover" />
+                  ) : (
+                    <Image src={item.url} alt="" fill sizes="96px" className="object-cover" unoptimized={!!item.file} />
+                  )}
+                  <div className="absolute inset-x-0 bottom-0 flex items-center justify-between p-1 bg-black/50">
+                    <button
+                      onClick={() => setItems((prev) => moveItem(prev, index, index - 1))}
+                      disabled={index === 0 || isSaving}
+                      className="w-5 h-5 rounded bg-white/90 text-[10px] disabled:opacity-40"
+                      aria-label="Move earlier"
+                    >
+                      ‹
+                    </button>
+                    <button
+                      onClick={() => replaceItem(index)}
+                      disabled={isSaving}
+                      className="px-1 rounded bg-white/90 text-[10px]"
+                    >
+                      Replace
+                    </button>
+                    <button
+                      onClick={() => setItems((prev) => moveItem(prev, index, index + 1))}
+                      disabled={index === items.length - 1 || isSaving}
+                      className="w-5 h-5 rounded bg-white/90 text-[10px] disabled:opacity-40"
+                      aria-label="Move later"
+                    >
+                      ›
+                    </button>
+                  </div>
+                  <button
+                    onClick={() => removeItem(index)}
+                    disabled={items.length === 1 || isSaving}
+                    className="absolute top-1 right-1 w-5 h-5 rounded-full bg-black/70 text-white text-xs disabled:opacity-40"
+                    aria-label="Remove"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+              {items.length < MAX_POST_MEDIA && (
+                <button
+                  onClick={addItem}
+                  disabled={isSaving}
+                  className="w-24 h-24 shrink-0 rounded-lg border border-dashed border-gray-300 text-gray-500 text-2xl hover:text-gray-900"
+                  aria-label="Add photo or video"
+                >
+                  +
+                </button>
+              )}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">People tagged on removed or replaced items are untagged.</p>
+          </div>
+
+          <textarea
+            value={caption}
+            onChange={(e) => setCaption(e.target.value)}
+            placeholder="Write a caption..."
+            className="w-full h-28 resize-none border border-gray-200 rounded-lg p-3 focus:outline-none focus:ring-2 focus:ring-[#FFAF50] text-sm text-gray-700"
+            maxLength={2200}
+          />
+
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-900">Category</span>
+            <select
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              className="text-sm border border-gray-200 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-[#FFAF50]"
+            >
+              {categoryOptions.map((c) => (
+                <option key={c} value={c}>{c.charAt(0).toUpperCase() + c.slice(1).replace('_', ' ')}</option>
+              ))}
+            </select>
+          </div>
+
+          {isEvent && (
+            <div className="space-y-2">
+              <span className="text-sm text-gray-900">Event details</span>
+              <EventFields value={eventForm} onChange={setEventForm} disabled={isSaving} />
+            </div>
+          )}
+
+          {isInternship && (
+            <div className="space-y-2">
+              <span className="text-sm text-gray-900">Internship details</span>
+              <InternshipFields value={internshipForm} onChange={setInternshipForm} disabled={isSaving} />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <span className="text-sm text-gray-900">Location</span>
+            <PlacePicker value={place} onChange={setPlace} disabled={isSaving} />
+          </div>
+
+          <div className="space-y-2">
+            <span className="text-sm text-gray-900 block">Poll</span>
+            <PollFields value={pollForm} onChange={setPollForm} disabled={isSaving} locked={pollLocked && !!post.poll} />
+          </div>
+
+          <div className="space-y-2">
+            <span className="text-sm text-gray-900">Audience</span>
+            <AudienceFields value={audienceForm} onChange={setAudienceForm} disabled={isSaving} />
+          </div>
+
+          <p className="text-xs text-gray-500">Anyone who can see this post can see its earlier versions.</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EditPostModal;
@@ -0,0 +1,52 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { fetchAPI } from '../lib/dataFetcher';
+
+/**
+ * Reminds newly registered users to confirm their email.
+ * Posting and messaging stay disabled on the server until they do.
+ */
+const EmailVerificationBanner: React.FC = () => {
+  const { user, token } = useAuth();
+  const { showToast } = useToast();
+  const [isSending, setIsSending] = useState(false);
+
+  if (!user || user.email_verified !== false) return null;
+
+  const handleResend = async () => {
+    if (!token) return;
+    setIsSending(true);
+    try {
+      const data = await fetchAPI<{ message: string }>('/api/auth/resend-verification', {
+        method: 'POST',
+        token,
+        retries: 0,
+      });
+      showToast(data.message || 'Verification email sent', 'success');
+    } catch (error: any) {
+      showToast(error.message || 'Failed to send verification email', 'error');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-orange-50 border-b border-orange-200 px-4 py-3 text-sm text-gray-800 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+      <p>
+        Verify your email{user.email ? <> (<span className="font-medium">{user.email}</span>)</> : null} to start posting and messaging.
+      </p>
+      <button
+        onClick={handleResend}
+        disabled={isSending}
+        className="self-start sm:self-auto px-4 py-1.5 bg-[#FFAF50] hover:bg-orange-500 text-black font-semibold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isSending ? 'Sending...' : 'Resend email'}
+      </button>
+    </div>
+  );
+};
+
+export default EmailVerificationBanner;
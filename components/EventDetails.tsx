@@ -0,0 +1,271 @@
+'use client';
+
+import Image from 'next/image'
+import React, { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { fetchAPI } from '../lib/dataFetcher';
+import { RSVP_LABELS, type EventRsvpStatus, type EventView } from '../lib/events';
+
+interface RsvpState {
+  rsvp: {
+    going: number;
+    waitlisted: number;
+    interested: number;
+    not_going: number;
+    my_status: EventRsvpStatus | null;
+    waitlist_position: number | null;
+  };
+  capacity: number | null;
+  registration_open: boolean;
+  ended: boolean;
+}
+
+interface Attendee {
+  id: number;
+  name: string;
+  username: string | null;
+  profile_image: string | null;
+  department?: string;
+}
+
+interface RsvpChangedDetail {
+  postId: number;
+  state: RsvpState;
+}
+
+interface EventDetailsProps {
+  postId: number;
+  event: EventView;
+  // The author also sees the waitlist and who declined
+  isOrganizer?: boolean;
+  className?: string;
+}
+
+const formatWhen = (value: string) => new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+const formatTime = (value: string) => new Date(value).toLocaleTimeString(undefined, { timeStyle: 'short' });
+const sameDay = (a: string, b: string) => new Date(a).toDateString() === new Date(b).toDateString();
+
+const CHOICES: { status: EventRsvpStatus; label: string }[] = [
+  { status: 'going', label: 'Going' },
+  { status: 'interested', label: 'Interested' },
+  { status: 'not_going', label: "Can't go" },
+];
+
+/**
+ * The structured part of an event post: when and where, spots left and the
+ * viewer's RSVP, plus who's going and an .ics download. The card and the open
+ * modal for the same post stay in sync through the `eventRsvpChanged` event.
+ */
+const EventDetails: React.FC<EventDetailsProps> = ({ postId, event, isOrganizer, className = '' }) => {
+  const router = useRouter();
+  const { token } = useAuth();
+  const { showToast } = useToast();
+  const [state, setState] = useState<RsvpState | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [listOpen, setListOpen] = useState(false);
+  const [listStatus, setListStatus] = useState<EventRsvpStatus>('going');
+  const [attendees, setAttendees] = useState<Attendee[]>([]);
+  const [listLoading, setListLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchAPI<RsvpState>(`/api/posts/${postId}/rsvp`, { token: token || undefined, skipCache: true })
+      .then((data) => { if (!cancelled) setState(data); })
+      .catch((error) => console.error('Error fetching RSVPs:', error));
+    return () => { cancelled = true; };
+  }, [postId, token, event.capacity]);
+
+  useEffect(() => {
+    const handleChanged = (e: Event) => {
+      const detail = (e as CustomEvent<RsvpChangedDetail>).detail;
+      if (detail?.postId === postId) setState(detail.state);
+    };
+    window.addEventListener('eventRsvpChanged', handleChanged);
+    return () => window.removeEventListener('eventRsvpChanged', handleChanged);
+  }, [postId]);
+
+  useEffect(() => {
+    if (!listOpen) return;
+    let cancelled = false;
+    setListLoading(true);
+    fetchAPI<{ attendees: Attendee[] }>(`/api/posts/${postId}/attendees?status=${listStatus}`, { token: token || undefined, skipCache: true })
+      .then((data) => { if (!cancelled) setAttendees(data.attendees || []); })
+      .catch((error) => console.error('Error fetching attendees:', error))
+      .finally(() => { if (!cancelled) setListLoading(false); });
+    return () => { cancelled = true; };
+  }, [listOpen, listStatus, postId, token]);
+
+  const respond = useCallback(async (status: EventRsvpStatus) => {
+    if (!token) {
+      showToast('Sign in to RSVP', 'error');
+      return;
+    }
+    const clearing = state?.rsvp.my_status === status || (status === 'going' && state?.rsvp.my_status === 'waitlisted');
+    setBusy(true);
+    try {
+      const data = await fetchAPI<RsvpState>(`/api/posts/${postId}/rsvp`, {
+        method: clearing ? 'DELETE' : 'PUT',
+        token,
+        skipCache: true,
+        retries: 0,
+        ...(!clearing && { body: JSON.stringify({ status }) }),
+      });
+      setState(data);
+      window.dispatchEvent(new CustomEvent<RsvpChangedDetail>('eventRsvpChanged', { detail: { postId, state: data } }));
+      if (!clearing && data.rsvp.my_status === 'waitlisted') {
+        showToast(`It's full, so you're on the waitlist (#${data.rsvp.waitlist_position})`, 'success');
+      }
+    } catch (error: any) {
+      showToast(error.message || 'Failed to update RSVP', 'error');
+    } finally {
+      setBusy(false);
+    }
+  }, [postId, state, token, showToast]);
+
+  // The route needs the viewer's token for private posts, so fetch it rather than link to it
+  const downloadIcs = async () => {
+    try {
+      const response = await fetch(`/api/posts/${postId}/calendar`, {
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      });
+      if (!response.ok) throw new Error('Failed to export event');
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `event-${postId}.ics`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      showToast(error.message || 'Failed to export event', 'error');
+    }
+  };
+
+  const counts = state?.rsvp;
+  const myStatus = counts?.my_status || null;
+  const spotsLeft = state?.capacity ? Math.max(state.capacity - (counts?.going || 0), 0) : null;
+  const lists: EventRsvpStatus[] = isOrganizer ? ['going', 'interested', 'waitlisted', 'not_going'] : ['going', 'interested'];
+
+  return (
+    <div className={`rounded-xl border border-gray-200 p-3 space-y-2 text-sm ${className}`} onClick={(e) => e.stopPropagation()}>
+      <div className="space-y-1 text-gray-900">
+        <div className="font-semibold">
+          {formatWhen(event.starts_at)}
+          {event.ends_at && ` – ${sameDay(event.starts_at, event.ends_at) ? formatTime(event.ends_at) : formatWhen(event.ends_at)}`}
+        </div>
+        <div className="text-gray-700">{event.venue}</div>
+        {event.organizer_club && <div className="text-xs text-gray-500">Organized by {event.organizer_club}</div>}
+        {event.registration_deadline && state?.registration_open && (
+          <div className="text-xs text-gray-500">Registration closes {formatWhen(event.registration_deadline)}</div>
+        )}
+      </div>
+
+      {state && (
+        <div className="text-xs text-gray-600">
+          {counts?.going || 0} going
+          {state.capacity ? ` of ${state.capacity}` : ''}
+          {counts?.interested ? ` · ${counts.interested} interested` : ''}
+          {counts?.waitlisted ? ` · ${counts.waitlisted} on the waitlist` : ''}
+          {spotsLeft !== null && spotsLeft > 0 && !state.ended && ` · ${spotsLeft} ${spotsLeft === 1 ? 'spot' : 'spots'} left`}
+        </div>
+      )}
+
+      {state?.ended ? (
+        <div className="text-xs font-semibold text-gray-500">This event has ended</div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          {CHOICES.map(({ status, label }) => {
+            const selected = myStatus === status || (status === 'going' && myStatus === 'waitlisted');
+            const closed = status === 'going' && !selected && state && !state.registration_open;
+            return (
+              <button
+                key={status}
+                onClick={() => respond(status)}
+                disabled={busy || !state || !!closed}
+                className={`px-3 py-1 rounded-full text-xs font-semibold border transition-colors disabled:opacity-50 ${selected
+                  ? 'bg-[#FFAF50] border-[#FFAF50] text-white'
+                  : 'border-gray-300 text-gray-700 hover:border-gray-400'
+                }`}
+              >
+                {status === 'going' && myStatus === 'waitlisted'
+                  ? `Waitlisted #${counts?.waitlist_position}`
+                  : status === 'going' && !selected && spotsLeft === 0 ? 'Join waitlist' : label}
+              </button>
+            );
+          })}
+          {state && !state.registration_open && myStatus !== 'going' && myStatus !== 'waitlisted' && (
+            <span className="text-xs text-gray-500">Registration closed</span>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center gap-3 text-xs font-semibold">
+        <button onClick={() => setListOpen(true)} className="text-gray-900 hover:text-gray-600">
+          See who&apos;s going
+        </button>
+        <button onClick={downloadIcs} className="text-gray-900 hover:text-gray-600">
+          Add to calendar
+        </button>
+      </div>
+
+      {listOpen && (
+        <div
+          className="fixed inset-0 bg-black/50 flex items-center justify-center z-popover p-4"
+          onClick={(e) => { e.stopPropagation(); if (e.target === e.currentTarget) setListOpen(false); }}
+        >
+          <div className="bg-white rounded-2xl shadow-xl w-full max-w-sm max-h-[80vh] flex flex-col">
+            <div className="flex items-center justify-between px-5 py-3 border-b border-gray-100">
+              <h3 className="font-semibold text-gray-900">People</h3>
+              <button onClick={() => setListOpen(false)} className="text-sm text-gray-600 hover:text-gray-900">Close</button>
+            </div>
+            <div className="flex gap-3 px-5 pt-3 text-xs font-semibold border-b border-gray-100">
+              {lists.map((status) => (
+                <button
+                  key={status}
+                  onClick={() => setListStatus(status)}
+                  className={`pb-2 border-b-2 ${listStatus === status ? 'border-gray-900 text-gray-900' : 'border-transparent text-gray-500'}`}
+                >
+                  {RSVP_LABELS[status]}{counts ? ` (${counts[status]})` : ''}
+                </button>
+              ))}
+            </div>
+            <div className="overflow-auto">
+              {listLoading ? (
+                <div className="flex items-center justify-center py-10">
+                  <div className="w-6 h-6 border-4 border-gray-200 border-t-[#FFAF50] rounded-full animate-spin"></div>
+                </div>
+              ) : attendees.length === 0 ? (
+                <div className="text-center text-sm text-gray-500 py-10">Nobody yet</div>
+              ) : (
+                <ul className="divide-y divide-gray-100">
+                  {attendees.map((person, index) => (
+                    <li key={person.id}>
+                      <button
+                        onClick={() => router.push(`/profile/${person.id}`)}
+                        className="w-full flex items-center gap-3 px-5 py-2.5 text-left hover:bg-gray-50"
+                      >
+                        <div className="relative w-8 h-8 rounded-full overflow-hidden bg-gray-200 shrink-0">
+                          {person.profile_image && <Image src={person.profile_image} alt="" fill sizes="32px" className="object-cover" />}
+                        </div>
+                        <div className="min-w-0">
+                          <div className="text-sm font-semibold text-gray-900 truncate">
+                            {listStatus === 'waitlisted' && <span className="text-gray-500 mr-1">#{index + 1}</span>}
+                            {person.name}
+                          </div>
+                          {person.username && <div className="text-xs text-gray-500 truncate">@{person.username}</div>}
+                        </div>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EventDetails;
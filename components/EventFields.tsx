@@ -0,0 +1,144 @@
+'use client';
+
+import React from 'react';
+import { MAX_EVENT_CAPACITY, MAX_ORGANIZER_LENGTH, MAX_VENUE_LENGTH, type EventView } from '../lib/events';
+import { toLocalInputValue } from '../lib/postSchedule';
+
+// The event form as typed; times are datetime-local values in the browser's time zone
+export interface EventFormValue {
+  startsAt: string;
+  endsAt: string;
+  venue: string;
+  capacity: string;
+  registrationDeadline: string;
+  organizerClub: string;
+}
+
+export const EMPTY_EVENT_FORM: EventFormValue = {
+  startsAt: '',
+  endsAt: '',
+  venue: '',
+  capacity: '',
+  registrationDeadline: '',
+  organizerClub: '',
+};
+
+const toInput = (value?: string | null) => value ? toLocalInputValue(new Date(value)) : '';
+const toIso = (value: string) => value ? new Date(value).toISOString() : '';
+
+export function toEventForm(event?: EventView | null): EventFormValue {
+  if (!event) return EMPTY_EVENT_FORM;
+  return {
+    startsAt: toInput(event.starts_at),
+    endsAt: toInput(event.ends_at),
+    venue: event.venue || '',
+    capacity: event.capacity ? String(event.capacity) : '',
+    registrationDeadline: toInput(event.registration_deadline),
+    organizerClub: event.organizer_club || '',
+  };
+}
+
+export function isEventFormEmpty(value: EventFormValue): boolean {
+  return Object.values(value).every((field) => !field.trim());
+}
+
+// The `event` field the post routes take, or null until it has a start and a venue
+export function toEventPayload(value: EventFormValue): string | null {
+  if (!value.startsAt || !value.venue.trim()) return null;
+  return JSON.stringify({
+    starts_at: toIso(value.startsAt),
+    ends_at: toIso(value.endsAt),
+    venue: value.venue,
+    capacity: value.capacity,
+    registration_deadline: toIso(value.registrationDeadline),
+    organizer_club: value.organizerClub,
+  });
+}
+
+interface EventFieldsProps {
+  value: EventFormValue;
+  onChange: (value: EventFormValue) => void;
+  disabled?: boolean;
+}
+
+const inputClass = 'w-full text-sm border border-gray-200 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-[#FFAF50]';
+
+/**
+ * Start/end time, venue, capacity, registration deadline and organizer club
+ * for posts in the Events category
+ */
+const EventFields: React.FC<EventFieldsProps> = ({ value, onChange, disabled }) => {
+  const set = (name: keyof EventFormValue) => (e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...value, [name]: e.target.value });
+  const now = toLocalInputValue(new Date());
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs text-gray-600 space-y-1">
+          <span>Starts *</span>
+          <input type="datetime-local" value={value.startsAt} min={now} onChange={set('startsAt')} disabled={disabled} className={inputClass} />
+        </label>
+        <label className="text-xs text-gray-600 space-y-1">
+          <span>Ends</span>
+          <input type="datetime-local" value={value.endsAt} min={value.startsAt || now} onChange={set('endsAt')} disabled={disabled} className={inputClass} />
+        </label>
+      </div>
+      <label className="block text-xs text-gray-600 space-y-1">
+        <span>Venue *</span>
+        <input
+          type="text"
+          value={value.venue}
+          onChange={set('venue')}
+          maxLength={MAX_VENUE_LENGTH}
+          placeholder="e.g. Seminar Hall 2, Main Block"
+          disabled={disabled}
+          className={inputClass}
+        />
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs text-gray-600 space-y-1">
+          <span>Capacity</span>
+          <input
+            type="number"
+            value={value.capacity}
+            min={1}
+            max={MAX_EVENT_CAPACITY}
+            onChange={set('capacity')}
+            placeholder="No limit"
+            disabled={disabled}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-xs text-gray-600 space-y-1">
+          <span>Registration closes</span>
+          <input
+            type="datetime-local"
+            value={value.registrationDeadline}
+            min={now}
+            max={value.startsAt || undefined}
+            onChange={set('registrationDeadline')}
+            disabled={disabled}
+            className={inputClass}
+          />
+        </label>
+      </div>
+      <label className="block text-xs text-gray-600 space-y-1">
+        <span>Organizer club</span>
+        <input
+          type="text"
+          value={value.organizerClub}
+          onChange={set('organizerClub')}
+          maxLength={MAX_ORGANIZER_LENGTH}
+          placeholder="e.g. Robotics Club"
+          disabled={disabled}
+          className={inputClass}
+        />
+      </label>
+      <p className="text-xs text-gray-500">
+        Once it&apos;s full, people who want to go join a waitlist. Everyone going or interested gets a reminder before it starts.
+      </p>
+    </div>
+  );
+};
+
+export default EventFields;
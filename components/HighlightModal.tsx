@@ -0,0 +1,201 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import Image from 'next/image';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { fetchAPI } from '../lib/dataFetcher';
+import {
+  validateHighlightTitle,
+  HighlightView,
+  StoryItem,
+  MAX_HIGHLIGHT_TITLE_LENGTH,
+} from '../lib/stories';
+
+interface HighlightModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Editing an existing highlight; otherwise a new one is made
+  highlight?: HighlightView;
+  // Stories picked to start with when making a new one
+  initialStoryIds?: number[];
+}
+
+/**
+ * Make or edit a highlight: a title and stories picked from everything the
+ * user still has. Profiles showing highlights reload on the
+ * `storyHighlightsChanged` event.
+ */
+export default function HighlightModal({ isOpen, onClose, highlight, initialStoryIds }: HighlightModalProps) {
+  const { token } = useAuth();
+  const { showToast } = useToast();
+  const [title, setTitle] = useState('');
+  const [selected, setSelected] = useState<number[]>([]);
+  const [stories, setStories] = useState<StoryItem[] | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setTitle(highlight?.title || '');
+    setSelected(highlight ? highlight.stories.map((story) => story.id) : initialStoryIds || []);
+    setStories(null);
+    if (!token) return;
+
+    let cancelled = false;
+    fetchAPI<{ stories: StoryItem[] }>('/api/users/me/stories', { token, skipCache: true, retries: 0 })
+      .then((data) => {
+        if (!cancelled) setStories(data.stories);
+      })
+      .catch(() => {
+        if (!cancelled) setStories([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+    // Reset only when opened
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, token]);
+
+  const toggle = (storyId: number) => {
+    setSelected((previous) =>
+      previous.includes(storyId) ? previous.filter((id) => id !== storyId) : [...previous, storyId]
+    );
+  };
+
+  const notifyChanged = () => {
+    window.dispatchEvent(new CustomEvent('storyHighlightsChanged'));
+  };
+
+  const handleSave = async () => {
+    if (!token || saving) return;
+    const validation = validateHighlightTitle(title);
+    if (!validation.valid) {
+      showToast(validation.message || 'Invalid highlight title', 'error');
+      return;
+    }
+    if (selected.length === 0) {
+      showToast('Pick at least one story', 'error');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await fetchAPI(highlight ? `/api/users/me/highlights/${highlight.id}` : '/api/users/me/highlights', {
+        method: highlight ? 'PATCH' : 'POST',
+        token,
+        body: JSON.stringify({ title: validation.title, story_ids: selected }),
+        skipCache: true,
+        retries: 0,
+      });
+      notifyChanged();
+      showToast(highlight ? 'Highlight updated' : 'Added to your highlights', 'success');
+      onClose();
+    } catch (error: any) {
+      showToast(error.message || 'Failed to save highlight', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!token || !highlight || !confirm(`Delete "${highlight.title}"? Its stories won't be kept past 24 hours.`)) return;
+    try {
+      await fetchAPI(`/api/users/me/highlights/${highlight.id}`, { method: 'DELETE', token, skipCache: true, retries: 0 });
+      notifyChanged();
+      showToast('Highlight deleted', 'success');
+      onClose();
+    } catch (error: any) {
+      showToast(error.message || 'Failed to delete highlight', 'error');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const modalContent = (
+    <div className="fixed inset-0 z-[10000] flex items-center justify-center p-4 bg-black/50" onClick={(e) => e.stopPropagation()}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md max-h-[80vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-gray-100 rounded-full transition-colors"
+            aria-label="Close"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+          <h2 className="text-lg font-semibold text-gray-900">{highlight ? 'Edit highlight' : 'New highlight'}</h2>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className={`text-sm font-semibold px-3 py-1 rounded-lg transition-colors ${
+              saving ? 'text-gray-400 cursor-not-allowed' : 'text-[#FFAF50] hover:text-orange-600'
+            }`}
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Highlight title"
+            maxLength={MAX_HIGHLIGHT_TITLE_LENGTH}
+            autoFocus
+            className="w-full p-2 border border-gray-200 rounded-lg text-sm text-gray-900 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-[#FFAF50]"
+          />
+
+          {stories === null ? (
+            <div className="flex justify-center py-8">
+              <div className="w-6 h-6 border-2 border-gray-300 border-t-gray-900 rounded-full animate-spin"></div>
+            </div>
+          ) : stories.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">Share a story to start a highlight</p>
+          ) : (
+            <div className="grid grid-cols-3 gap-1">
+              {stories.map((story) => {
+                const position = selected.indexOf(story.id);
+                return (
+                  <button
+                    key={story.id}
+                    type="button"
+                    onClick={() => toggle(story.id)}
+                    className="relative aspect-[9/16] bg-gray-100 overflow-hidden rounded"
+                    aria-pressed={position !== -1}
+                  >
+                    {story.media_type === 'video' ? (
+                      <video src={story.media_url} muted playsInline preload="metadata" className="w-full h-full object-cover" />
+                    ) : (
+                      <Image src={story.media_url} alt="Story" width={160} height={284} className="w-full h-full object-cover" />
+                    )}
+                    <span
+                      className={`absolute top-1 right-1 w-5 h-5 rounded-full border-2 border-white text-[10px] font-semibold flex items-center justify-center ${
+                        position !== -1 ? 'bg-[#FFAF50] text-white' : 'bg-black/20'
+                      }`}
+                    >
+                      {position !== -1 ? position + 1 : ''}
+                    </span>
+                    <span className="absolute bottom-1 left-1 text-[10px] text-white bg-black/50 px-1 rounded">
+                      {new Date(story.created_at).toLocaleDateString()}
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {highlight && (
+            <button onClick={handleDelete} className="w-full py-2 text-sm font-semibold text-red-600 hover:bg-red-50 rounded-lg">
+              Delete highlight
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
+  return typeof document !== 'undefined' ? createPortal(modalContent, document.body) : null;
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { fetchAPI } from '../lib/dataFetcher';
+import { formatEligibleYears, isEligible, isListingOpen, TRACKING_LABELS, TRACKING_STATUSES, type InternshipTrackingStatus, type InternshipView } from '../lib/internships';
+
+interface TrackingState {
+  status: InternshipTrackingStatus | null;
+  updated_at: string | null;
+  open: boolean;
+}
+
+interface TrackingChangedDetail {
+  postId: number;
+  state: TrackingState;
+}
+
+interface InternshipDetailsProps {
+  postId: number;
+  internship: InternshipView;
+  className?: string;
+}
+
+const formatWhen = (value: string) => new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * The structured part of an internship post: company and role, stipend, who
+ * can apply and by when, the apply link and the viewer's own tracking. The
+ * card and the open modal for the same post stay in sync through the
+ * `internshipTrackingChanged` event.
+ */
+const InternshipDetails: React.FC<InternshipDetailsProps> = ({ postId, internship, className = '' }) => {
+  const { user, token } = useAuth();
+  const { showToast } = useToast();
+  const [state, setState] = useState<TrackingState | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchAPI<TrackingState>(`/api/posts/${postId}/tracking`, { token: token || undefined, skipCache: true })
+      .then((data) => { if (!cancelled) setState(data); })
+      .catch((error) => console.error('Error fetching internship tracking:', error));
+    return () => { cancelled = true; };
+  }, [postId, token, internship.deadline]);
+
+  useEffect(() => {
+    const handleChanged = (e: Event) => {
+      const detail = (e as CustomEvent<TrackingChangedDetail>).detail;
+      if (detail?.postId === postId) setState(detail.state);
+    };
+    window.addEventListener('internshipTrackingChanged', handleChanged);
+    return () => window.removeEventListener('internshipTrackingChanged', handleChanged);
+  }, [postId]);
+
+  const track = useCallback(async (status: InternshipTrackingStatus) => {
+    if (!token) {
+      showToast('Sign in to track internships', 'error');
+      return;
+    }
+    const clearing = state?.status === status;
+    setBusy(true);
+    try {
+      const data = await fetchAPI<TrackingState>(`/api/posts/${postId}/tracking`, {
+        method: clearing ? 'DELETE' : 'PUT',
+        token,
+        skipCache: true,
+        retries: 0,
+        ...(!clearing && { body: JSON.stringify({ status }) }),
+      });
+      setState(data);
+      window.dispatchEvent(new CustomEvent<TrackingChangedDetail>('internshipTrackingChanged', { detail: { postId, state: data } }));
+    } catch (error: any) {
+      showToast(error.message || 'Failed to update tracking', 'error');
+    } finally {
+      setBusy(false);
+    }
+  }, [postId, state, token, showToast]);
+
+  const open = state ? state.open : isListingOpen(internship);
+  const eligible = user ? isEligible(internship, user) : null;
+
+  return (
+    <div className={`rounded-xl border border-gray-200 p-3 space-y-2 text-sm ${className}`} onClick={(e) => e.stopPropagation()}>
+      <div className="space-y-1 text-gray-900">
+        <div className="font-semibold">{internship.role} · {internship.company}</div>
+        {internship.stipend && <div className="text-gray-700">Stipend: {internship.stipend}</div>}
+        <div className="text-xs text-gray-500">
+          {internship.departments?.length ? internship.departments.join(', ') : 'All departments'} · {formatEligibleYears(internship.years)}
+        </div>
+        <div className={`text-xs font-semibold ${open ? 'text-gray-700' : 'text-gray-500'}`}>
+          {open ? `Apply by ${formatWhen(internship.deadline)}` : 'Applications closed'}
+        </div>
+        {eligible === false && open && (
+          <div className="text-xs text-orange-600">Your department or year isn&apos;t listed as eligible</div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {open && (
+          <a
+            href={internship.apply_url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="px-3 py-1 rounded-full text-xs font-semibold bg-gray-900 text-white hover:bg-gray-700"
+          >
+            Apply
+          </a>
+        )}
+        {TRACKING_STATUSES.map((status) => {
+          const selected = state?.status === status;
+          const closed = status === 'interested' && !open && !selected;
+          return (
+            <button
+              key={status}
+              onClick={() => track(status)}
+              disabled={busy || !state || closed}
+              className={`px-3 py-1 rounded-full text-xs font-semibold border transition-colors disabled:opacity-50 ${selected
+                ? 'bg-[#FFAF50] border-[#FFAF50] text-white'
+                : 'border-gray-300 text-gray-700 hover:border-gray-400'
+              }`}
+            >
+              {TRACKING_LABELS[status]}
+            </button>
+          );
+        })}
+      </div>
+      {state?.status === 'interested' && open && (
+        <div className="text-xs text-gray-500">We&apos;ll remind you a day before applications close.</div>
+      )}
+    </div>
+  );
+};
+
+export default InternshipDetails;
@@ -0,0 +1,175 @@
+'use client';
+
+import React from 'react';
+import {
+  MAX_APPLY_URL_LENGTH,
+  MAX_COMPANY_LENGTH,
+  MAX_ROLE_LENGTH,
+  MAX_STIPEND_LENGTH,
+  STUDY_YEARS,
+  YEAR_LABELS,
+  type InternshipView,
+} from '../lib/internships';
+import { toLocalInputValue } from '../lib/postSchedule';
+
+// The internship form as typed; departments are comma-separated and the
+// deadline is a datetime-local value in the browser's time zone
+export interface InternshipFormValue {
+  company: string;
+  role: string;
+  stipend: string;
+  departments: string;
+  years: number[];
+  applyUrl: string;
+  deadline: string;
+}
+
+export const EMPTY_INTERNSHIP_FORM: InternshipFormValue = {
+  company: '',
+  role: '',
+  stipend: '',
+  departments: '',
+  years: [],
+  applyUrl: '',
+  deadline: '',
+};
+
+export function toInternshipForm(internship?: InternshipView | null): InternshipFormValue {
+  if (!internship) return EMPTY_INTERNSHIP_FORM;
+  return {
+    company: internship.company || '',
+    role: internship.role || '',
+    stipend: internship.stipend || '',
+    departments: (internship.departments || []).join(', '),
+    years: internship.years || [],
+    applyUrl: internship.apply_url || '',
+    deadline: internship.deadline ? toLocalInputValue(new Date(internship.deadline)) : '',
+  };
+}
+
+export function isInternshipFormEmpty(value: InternshipFormValue): boolean {
+  return value.years.length === 0
+    && [value.company, value.role, value.stipend, value.departments, value.applyUrl, value.deadline].every((field) => !field.trim());
+}
+
+// The `internship` field the post routes take, or null until the required parts are filled in
+export function toInternshipPayload(value: InternshipFormValue): string | null {
+  if (!value.company.trim() || !value.role.trim() || !value.applyUrl.trim() || !value.deadline) return null;
+  return JSON.stringify({
+    company: value.company,
+    role: value.role,
+    stipend: value.stipend,
+    departments: value.departments.split(',').map((d) => d.trim()).filter(Boolean),
+    years: value.years,
+    apply_url: value.applyUrl.trim(),
+    deadline: new Date(value.deadline).toISOString(),
+  });
+}
+
+interface InternshipFieldsProps {
+  value: InternshipFormValue;
+  onChange: (value: InternshipFormValue) => void;
+  disabled?: boolean;
+}
+
+const inputClass = 'w-full text-sm border border-gray-200 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-[#FFAF50]';
+
+/**
+ * Company, role, stipend, eligibility, apply link and deadline for posts in
+ * the Internship category
+ */
+const InternshipFields: React.FC<InternshipFieldsProps> = ({ value, onChange, disabled }) => {
+  const set = (name: Exclude<keyof InternshipFormValue, 'years'>) => (e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...value, [name]: e.target.value });
+  const toggleYear = (year: number) => onChange({
+    ...value,
+    years: value.years.includes(year) ? value.years.filter((y) => y !== year) : [...value.years, year].sort((a, b) => a - b),
+  });
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs text-gray-600 space-y-1">
+          <span>Company *</span>
+          <input type="text" value={value.company} onChange={set('company')} maxLength={MAX_COMPANY_LENGTH} disabled={disabled} className={inputClass} />
+        </label>
+        <label className="text-xs text-gray-600 space-y-1">
+          <span>Role *</span>
+          <input
+            type="text"
+            value={value.role}
+            onChange={set('role')}
+            maxLength={MAX_ROLE_LENGTH}
+            placeholder="e.g. Frontend Intern"
+            disabled={disabled}
+            className={inputClass}
+          />
+        </label>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs text-gray-600 space-y-1">
+          <span>Stipend</span>
+          <input
+            type="text"
+            value={value.stipend}
+            onChange={set('stipend')}
+            maxLength={MAX_STIPEND_LENGTH}
+            placeholder="e.g. ₹15,000/month"
+            disabled={disabled}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-xs text-gray-600 space-y-1">
+          <span>Apply by *</span>
+          <input type="datetime-local" value={value.deadline} min={toLocalInputValue(new Date())} onChange={set('deadline')} disabled={disabled} className={inputClass} />
+        </label>
+      </div>
+      <label className="block text-xs text-gray-600 space-y-1">
+        <span>Apply link *</span>
+        <input
+          type="url"
+          value={value.applyUrl}
+          onChange={set('applyUrl')}
+          maxLength={MAX_APPLY_URL_LENGTH}
+          placeholder="https://"
+          disabled={disabled}
+          className={inputClass}
+        />
+      </label>
+      <label className="block text-xs text-gray-600 space-y-1">
+        <span>Departments</span>
+        <input
+          type="text"
+          value={value.departments}
+          onChange={set('departments')}
+          placeholder="Any department (or list them, separated by commas)"
+          disabled={disabled}
+          className={inputClass}
+        />
+      </label>
+      <div className="text-xs text-gray-600 space-y-1">
+        <span>Years</span>
+        <div className="flex flex-wrap gap-1.5">
+          {STUDY_YEARS.map((year) => (
+            <button
+              key={year}
+              type="button"
+              onClick={() => toggleYear(year)}
+              disabled={disabled}
+              className={`px-2 py-0.5 rounded-full border transition-colors ${value.years.includes(year)
+                ? 'bg-[#FFAF50] border-[#FFAF50] text-white'
+                : 'border-gray-300 text-gray-700 hover:border-gray-400'
+              }`}
+            >
+              {YEAR_LABELS[year]}
+            </button>
+          ))}
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        Leave departments and years empty if anyone can apply. The listing leaves the feed once applications close.
+      </p>
+    </div>
+  );
+};
+
+export default InternshipFields;
@@ -0,0 +1,110 @@
+'use client';
+
+import Image from 'next/image'
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { fetchAPI } from '../lib/dataFetcher';
+import { TRACKING_LABELS, TRACKING_STATUSES, type InternshipTrackingStatus, type InternshipView } from '../lib/internships';
+import type { MediaItem } from '../lib/postMedia';
+import InternshipDetails from './InternshipDetails';
+
+interface TrackedPost {
+  id: number;
+  content: string;
+  media: MediaItem[];
+  internship: InternshipView;
+  tracking: { status: InternshipTrackingStatus; updated_at: string };
+}
+
+interface TrackingChangedDetail {
+  postId: number;
+  state: { status: InternshipTrackingStatus | null };
+}
+
+/**
+ * The Internships view of your own profile: listings you marked interested
+ * or applied, most recently updated first. Only you see it.
+ */
+const InternshipTrackerPanel: React.FC = () => {
+  const { token } = useAuth();
+  const [filter, setFilter] = useState<InternshipTrackingStatus | 'all'>('all');
+  const [posts, setPosts] = useState<TrackedPost[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadTracked = useCallback(async () => {
+    if (!token) return;
+    setLoading(true);
+    try {
+      const query = filter === 'all' ? '' : `&status=${filter}`;
+      const data = await fetchAPI<{ posts: TrackedPost[] }>(`/api/users/me/internships?limit=50${query}`, { token, skipCache: true });
+      setPosts(data.posts || []);
+    } catch (error) {
+      console.error('Error fetching tracked internships:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [token, filter]);
+
+  useEffect(() => {
+    loadTracked();
+  }, [loadTracked]);
+
+  // Untracking or moving a listing to the other status takes it out of a filtered list
+  useEffect(() => {
+    const handleChanged = (e: Event) => {
+      const { postId, state } = (e as CustomEvent<TrackingChangedDetail>).detail || {};
+      if (!postId) return;
+      setPosts((prev) => prev.filter((post) => post.id !== postId || (state.status && (filter === 'all' || state.status === filter))));
+    };
+    window.addEventListener('internshipTrackingChanged', handleChanged);
+    return () => window.removeEventListener('internshipTrackingChanged', handleChanged);
+  }, [filter]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        {(['all', ...TRACKING_STATUSES] as const).map((option) => (
+          <button
+            key={option}
+            onClick={() => setFilter(option)}
+            className={`px-3 py-1.5 rounded-full text-xs border ${filter === option ? 'border-gray-900 text-gray-900' : 'border-gray-200 text-gray-600'} transition-colors`}
+          >
+            {option === 'all' ? 'All' : TRACKING_LABELS[option]}
+          </button>
+        ))}
+      </div>
+
+      {loading && posts.length === 0 ? (
+        <div className="flex items-center justify-center py-16">
+          <div className="w-8 h-8 border-4 border-gray-200 border-t-[#FFAF50] rounded-full animate-spin"></div>
+        </div>
+      ) : posts.length === 0 ? (
+        <div className="text-center py-16">
+          <div className="text-gray-600 text-lg font-light mb-2">No tracked internships</div>
+          <div className="text-gray-500 text-sm">Mark internship posts as interested or applied to keep track of them here.</div>
+        </div>
+      ) : (
+        <>
+          <div className="text-xs text-gray-500">Only you can see which internships you track.</div>
+          {posts.map((post) => {
+            const cover = post.media[0];
+            return (
+              <div key={post.id} className="flex gap-3 p-3 border border-gray-200 rounded-2xl">
+                <div className="relative w-20 h-20 shrink-0 rounded-xl overflow-hidden bg-gray-100">
+                  {cover && (cover.type === 'video' ? (
+                    <video src={cover.url} muted className="w-full h-full object-cover" />
+                  ) : (
+                    <Image src={cover.url} alt="" fill sizes="80px" className="object-cover" />
+                  ))}
+                </div>
+                <InternshipDetails postId={post.id} internship={post.internship} className="flex-1 min-w-0 border-0 p-0" />
+              </div>
+            );
+          })}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default InternshipTrackerPanel;
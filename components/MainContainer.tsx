@@ -2,6 +2,7 @@
 
 import React from 'react';
 import { useAuth } from '../contexts/AuthContext';
+import EmailVerificationBanner from './EmailVerificationBanner';
 
 interface MainContainerProps {
   children: React.ReactNode;
@@ -20,6 +21,7 @@ const MainContainer: React.FC<MainContainerProps> = ({ children }) => {
 
   return (
     <main className={containerClassName}>
+      <EmailVerificationBanner />
       {children}
     </main>
   );
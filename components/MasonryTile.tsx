@@ -1,11 +1,13 @@
 "use client";
 import React, { useEffect, useRef, useState, useCallback, useMemo, memo } from 'react';
 import Image from 'next/image'
+import { getPostMedia, type MediaItem } from '../lib/postMedia';
 
 interface MasonryTileProps {
   id: number;
   mediaUrl: string;
   mediaType?: 'image' | 'video';
+  media?: MediaItem[];
   title?: string;
   onClick?: () => void;
 }
@@ -13,7 +15,15 @@ interface MasonryTileProps {
 const MENU_WIDTH_PX = 176; // 11rem
 const MENU_HEIGHT_PX = 160; // approx height incl. padding
 
-const MasonryTile: React.FC<MasonryTileProps> = ({ id, mediaUrl, mediaType = 'image', title, onClick }) => {
+const MasonryTile: React.FC<MasonryTileProps> = ({ id, mediaUrl: primaryUrl, mediaType: primaryType = 'image', media, title, onClick }) => {
+  const items = useMemo(
+    () => getPostMedia({ media, media_url: primaryUrl, media_type: primaryType }),
+    [media, primaryUrl, primaryType]
+  );
+  const [mediaIndex, setMediaIndex] = useState(0);
+  const current = items[Math.min(mediaIndex, items.length - 1)];
+  const mediaUrl = current?.url ?? primaryUrl;
+  const mediaType = current?.type ?? primaryType;
   const [menuOpen, setMenuOpen] = useState(false);
   const [imgLoaded, setImgLoaded] = useState(false);
   const [imgError, setImgError] = useState(false);
@@ -104,6 +114,16 @@ const MasonryTile: React.FC<MasonryTileProps> = ({ id, mediaUrl, mediaType = 'im
     }
   }, []);
 
+  const showMediaAt = useCallback((e: React.MouseEvent, index: number) => {
+    e.stopPropagation();
+    setMediaIndex(index);
+    setImgLoaded(false);
+    setImgError(false);
+    setVideoLoaded(false);
+    setVideoError(false);
+    setVideoDuration(null);
+  }, []);
+
   const computeMenuPosition = useCallback(() => {
     const btn = menuBtnRef.current;
     if (!btn) return { top: 0, left: 0 };
@@ -143,78 +163,109 @@ const MasonryTile: React.FC<MasonryTileProps> = ({ id, mediaUrl, mediaType = 'im
 
   return (
     <div className="bg-white transition-shadow relative">
-      <button onClick={onClick} className="block w-full text-left">
-        {mediaType === 'video' ? (
-          !videoError ? (
-            <div
-              className="relative rounded-2xl overflow-hidden"
-              onMouseEnter={handleVideoMouseEnter}
-              onMouseLeave={handleVideoMouseLeave}
-            >
-              {!videoLoaded && (
-                <div className="absolute inset-0 bg-gray-100 rounded-2xl flex items-center justify-center z-10">
-                  <div className="text-center">
-                    <div className="text-2xl mb-2">🎥</div>
-                    <div className="text-sm text-gray-500">Loading video...</div>
+      <div className="relative group">
+        <button onClick={onClick} className="block w-full text-left">
+          {mediaType === 'video' ? (
+            !videoError ? (
+              <div
+                className="relative rounded-2xl overflow-hidden"
+                onMouseEnter={handleVideoMouseEnter}
+                onMouseLeave={handleVideoMouseLeave}
+              >
+                {!videoLoaded && (
+                  <div className="absolute inset-0 bg-gray-100 rounded-2xl flex items-center justify-center z-10">
+                    <div className="text-center">
+                      <div className="text-2xl mb-2">🎥</div>
+                      <div className="text-sm text-gray-500">Loading video...</div>
+                    </div>
                   </div>
-                </div>
-              )}
-              <video
-                ref={videoRef}
-                src={mediaUrl}
-                className="w-full h-max rounded-2xl block"
-                muted
-                playsInline
-                preload="metadata"
-                style={{ maxHeight: '80vh' }}
-                onLoadedMetadata={handleVideoLoadedMetadata}
-                onCanPlay={handleVideoCanPlay}
-                onError={() => {
-                  console.error('Video failed to load:', mediaUrl);
-                  setVideoError(true);
-                }}
-                onLoadStart={() => {
-                  console.log('Video loading started:', mediaUrl);
-                }}
-              />
-              {videoDuration && !isVideoHovered && videoLoaded && (
-                <div className="absolute top-2 left-2 bg-black/70 text-white text-xs px-2 py-1 rounded">
-                  {formatDuration(videoDuration)}
-                </div>
-              )}
-            </div>
-          ) : (
-            <div className="w-full h-48 flex items-center justify-center text-gray-400 rounded-2xl bg-gray-100">
-              <div className="text-center">
-                <div className="text-2xl mb-2">🎥</div>
-                <div className="text-sm">Video unavailable</div>
+                )}
+                <video
+                  key={mediaUrl}
+                  ref={videoRef}
+                  src={mediaUrl}
+                  className="w-full h-max rounded-2xl block"
+                  muted
+                  playsInline
+                  preload="metadata"
+                  style={{ maxHeight: '80vh' }}
+                  onLoadedMetadata={handleVideoLoadedMetadata}
+                  onCanPlay={handleVideoCanPlay}
+                  onError={() => {
+                    console.error('Video failed to load:', mediaUrl);
+                    setVideoError(true);
+                  }}
+                  onLoadStart={() => {
+                    console.log('Video loading started:', mediaUrl);
+                  }}
+                />
+                {videoDuration && !isVideoHovered && videoLoaded && (
+                  <div className="absolute top-2 left-2 bg-black/70 text-white text-xs px-2 py-1 rounded">
+                    {formatDuration(videoDuration)}
+                  </div>
+                )}
               </div>
-            </div>
-          )
-        ) : (
-          <div className={`bg-gray-100 rounded-2xl ${imgLoaded ? '' : 'animate-pulse'}`}>
-            {!imgError ? (
-              <Image
-                src={mediaUrl}
-                alt={title || 'post image'}
-                width={0}
-                height={0}
-                sizes="(max-width: 768px) 50vw, 33vw"
-                className="w-full h-auto object-cover rounded-2xl"
-                onLoad={() => setImgLoaded(true)}
-                onError={() => setImgError(true)}
-              />
             ) : (
               <div className="w-full h-48 flex items-center justify-center text-gray-400 rounded-2xl bg-gray-100">
                 <div className="text-center">
-                  <div className="text-2xl mb-2">🖼️</div>
-                  <div className="text-sm">Image unavailable</div>
+                  <div className="text-2xl mb-2">🎥</div>
+                  <div className="text-sm">Video unavailable</div>
                 </div>
               </div>
+            )
+          ) : (
+            <div className={`bg-gray-100 rounded-2xl ${imgLoaded ? '' : 'animate-pulse'}`}>
+              {!imgError ? (
+                <Image
+                  key={mediaUrl}
+                  src={mediaUrl}
+                  alt={title || 'post image'}
+                  width={0}
+                  height={0}
+                  sizes="(max-width: 768px) 50vw, 33vw"
+                  className="w-full h-auto object-cover rounded-2xl"
+                  onLoad={() => setImgLoaded(true)}
+                  onError={() => setImgError(true)}
+                />
+              ) : (
+                <div className="w-full h-48 flex items-center justify-center text-gray-400 rounded-2xl bg-gray-100">
+                  <div className="text-center">
+                    <div className="text-2xl mb-2">🖼️</div>
+                    <div className="text-sm">Image unavailable</div>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </button>
+
+        {/* Carousel controls sit outside the tile button so they don't open the post */}
+        {items.length > 1 && (
+          <>
+            <div className="absolute top-2 right-2 bg-black/60 text-white text-xs px-2 py-0.5 rounded-full pointer-events-none">
+              {mediaIndex + 1}/{items.length}
+            </div>
+            {mediaIndex > 0 && (
+              <button
+                onClick={(e) => showMediaAt(e, mediaIndex - 1)}
+                className="absolute left-2 top-1/2 -translate-y-1/2 w-7 h-7 rounded-full bg-white/80 text-gray-900 shadow flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
+                aria-label="Previous media"
+              >
+                ‹
+              </button>
             )}
-          </div>
+            {mediaIndex < items.length - 1 && (
+              <button
+                onClick={(e) => showMediaAt(e, mediaIndex + 1)}
+                className="absolute right-2 top-1/2 -translate-y-1/2 w-7 h-7 rounded-full bg-white/80 text-gray-900 shadow flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
+                aria-label="Next media"
+              >
+                ›
+              </button>
+            )}
+          </>
         )}
-      </button>
+      </div>
 
       <div className="p-3 flex items-center justify-between">
         <div className="text-sm text-gray-900 truncate max-w-[85%]">
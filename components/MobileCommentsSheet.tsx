@@ -5,6 +5,7 @@ import { createPortal } from 'react-dom';
 import Image from 'next/image';
 import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
+import type { MediaItem } from '../lib/postMedia';
 
 interface Comment {
   id: number;
@@ -30,6 +31,7 @@ interface MobileCommentsSheetProps {
   auraCount: number;
   hasAura: boolean;
   onAuraClick: () => void;
+  media?: MediaItem[];
 }
 
 const COMMENTS_PAGE_SIZE = 20;
@@ -45,6 +47,7 @@ const MobileCommentsSheet: React.FC<MobileCommentsSheetProps> = ({
   auraCount,
   hasAura,
   onAuraClick,
+  media = [],
 }) => {
   const { token, user } = useAuth();
   const { showToast } = useToast();
@@ -230,6 +233,29 @@ const MobileCommentsSheet: React.FC<MobileCommentsSheetProps> = ({
               <p className="text-xs text-text-tertiary mt-1">{timestamp}</p>
             </div>
           </div>
+
+          {/* Post media, swipeable when it's a carousel */}
+          {media.length > 0 && (
+            <div className="mt-3 flex gap-2 overflow-x-auto snap-x snap-mandatory">
+              {media.map((item, index) => (
+                <div
+                  key={`${item.url}-${index}`}
+                  className={`relative h-48 flex-shrink-0 snap-center rounded-xl overflow-hidden bg-black ${media.length > 1 ? 'w-4/5' : 'w-full'}`}
+                >
+                  {item.type === 'video' ? (
+                    <video src={item.url} controls playsInline preload="metadata" className="w-full h-full object-contain" />
+                  ) : (
+                    <Image src={item.url} alt={`Post media ${index + 1}`} fill sizes="80vw" className="object-contain" />
+                  )}
+                  {media.length > 1 && (
+                    <span className="absolute top-2 right-2 bg-black/60 text-white text-xs px-2 py-0.5 rounded-full">
+                      {index + 1}/{media.length}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Comments List */}
@@ -0,0 +1,107 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { fetchAPI } from '../lib/dataFetcher';
+import { PLACE_KIND_LABELS, PlaceSummary } from '../lib/places';
+
+interface PlacePickerProps {
+  value: PlaceSummary | null;
+  onChange: (place: PlaceSummary | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Search-as-you-type picker over the campus place catalog
+ */
+const PlacePicker: React.FC<PlacePickerProps> = ({ value, onChange, disabled }) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<PlaceSummary[]>([]);
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const data = await fetchAPI<{ places: PlaceSummary[] }>(
+          `/api/places?q=${encodeURIComponent(query.trim())}`,
+          { cacheTTL: 60000 }
+        );
+        if (!cancelled) setResults((data.places || []).slice(0, 8));
+      } catch {
+        if (!cancelled) setResults([]);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, open]);
+
+  if (value) {
+    return (
+      <div className="flex items-center gap-2 text-sm">
+        <svg className="w-4 h-4 text-[#FFAF50] flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
+        </svg>
+        <span className="font-medium text-gray-900 truncate">{value.name}</span>
+        <button
+          type="button"
+          onClick={() => onChange(null)}
+          disabled={disabled}
+          className="ml-auto text-xs text-gray-500 hover:text-gray-700"
+        >
+          Remove
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setTimeout(() => setOpen(false), 150)}
+        placeholder="Search campus places"
+        disabled={disabled}
+        className="w-full text-sm border border-gray-200 rounded-lg px-3 py-2 text-gray-900 placeholder-gray-400 focus:outline-none focus:ring-1 focus:ring-[#FFAF50]"
+      />
+      {open && (
+        <div className="absolute left-0 right-0 mt-1 bg-white border border-gray-100 rounded-lg shadow-lg z-20 max-h-60 overflow-y-auto">
+          {loading && results.length === 0 ? (
+            <div className="px-3 py-2 text-xs text-gray-400">Searching...</div>
+          ) : results.length === 0 ? (
+            <div className="px-3 py-2 text-xs text-gray-400">No matching places</div>
+          ) : (
+            results.map((place) => (
+              <button
+                key={place.id}
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => {
+                  onChange({ id: place.id, name: place.name, kind: place.kind });
+                  setQuery('');
+                  setOpen(false);
+                }}
+                className="w-full text-left px-3 py-2 hover:bg-gray-50 flex items-center justify-between gap-2"
+              >
+                <span className="text-sm text-gray-900 truncate">{place.name}</span>
+                <span className="text-xs text-gray-400 flex-shrink-0">{PLACE_KIND_LABELS[place.kind]}</span>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlacePicker;
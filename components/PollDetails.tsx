@@ -0,0 +1,332 @@
+'use client';
+
+import Image from 'next/image'
+import React, { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '../contexts/AuthContext';
+import { useSocket } from '../contexts/SocketContext';
+import { useToast } from '../contexts/ToastContext';
+import { fetchAPI } from '../lib/dataFetcher';
+import { YEAR_LABELS } from '../lib/internships';
+import { optionPercent, type PollBreakdownBy, type PollBreakdownGroup, type PollView } from '../lib/polls';
+
+interface PollState {
+  results: {
+    voters: number;
+    counts: Record<number, number>;
+    my_votes: number[] | null;
+  };
+  open: boolean;
+}
+
+interface Voter {
+  id: number;
+  name: string;
+  username: string | null;
+  profile_image: string | null;
+}
+
+interface PollChangedDetail {
+  postId: number;
+  state: PollState;
+}
+
+interface PollDetailsProps {
+  postId: number;
+  poll: PollView;
+  // The author also sees the results before voting and a breakdown of voters
+  isAuthor?: boolean;
+  className?: string;
+}
+
+const formatWhen = (value: string) => new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const groupLabel = (group: string | null, by: PollBreakdownBy) => {
+  if (group === null) return 'Other';
+  return by === 'year' ? YEAR_LABELS[Number(group)] || `Year ${group}` : group;
+};
+
+/**
+ * A post's poll: options to pick from, then result bars once you've voted
+ * (or the poll has closed). Counts update live over the socket while it's on
+ * screen; the card and the open modal for the same post stay in sync through
+ * the `pollVoteChanged` event.
+ */
+const PollDetails: React.FC<PollDetailsProps> = ({ postId, poll, isAuthor, className = '' }) => {
+  const router = useRouter();
+  const { token } = useAuth();
+  const { isConnected, watchPoll, unwatchPoll, announcePollVote, onPollResults } = useSocket();
+  const { showToast } = useToast();
+  const [state, setState] = useState<PollState | null>(null);
+  const [picked, setPicked] = useState<number[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [votersOption, setVotersOption] = useState<number | null>(null);
+  const [voters, setVoters] = useState<Voter[]>([]);
+  const [breakdownBy, setBreakdownBy] = useState<PollBreakdownBy | null>(null);
+  const [breakdown, setBreakdown] = useState<PollBreakdownGroup[]>([]);
+  const [listLoading, setListLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchAPI<PollState>(`/api/posts/${postId}/poll`, { token: token || undefined, skipCache: true })
+      .then((data) => { if (!cancelled) setState(data); })
+      .catch((error) => console.error('Error fetching poll:', error));
+    return () => { cancelled = true; };
+  }, [postId, token, poll.closes_at]);
+
+  useEffect(() => {
+    if (!isConnected) return;
+    watchPoll(postId);
+    const unsubscribe = onPollResults((data) => {
+      if (data.postId !== postId) return;
+      setState((prev) => prev && {
+        results: { ...prev.results, voters: data.voters, counts: data.counts },
+        open: data.open,
+      });
+    });
+    return () => {
+      unsubscribe();
+      unwatchPoll(postId);
+    };
+  }, [postId, isConnected, watchPoll, unwatchPoll, onPollResults]);
+
+  useEffect(() => {
+    const handleChanged = (e: Event) => {
+      const detail = (e as CustomEvent<PollChangedDetail>).detail;
+      if (detail?.postId === postId) setState(detail.state);
+    };
+    window.addEventListener('pollVoteChanged', handleChanged);
+    return () => window.removeEventListener('pollVoteChanged', handleChanged);
+  }, [postId]);
+
+  useEffect(() => {
+    if (votersOption === null) return;
+    let cancelled = false;
+    setListLoading(true);
+    fetchAPI<{ voters: Voter[] }>(`/api/posts/${postId}/poll/voters?option=${votersOption}`, { token: token || undefined, skipCache: true })
+      .then((data) => { if (!cancelled) setVoters(data.voters || []); })
+      .catch((error) => console.error('Error fetching poll voters:', error))
+      .finally(() => { if (!cancelled) setListLoading(false); });
+    return () => { cancelled = true; };
+  }, [votersOption, postId, token]);
+
+  useEffect(() => {
+    if (!breakdownBy || !token) return;
+    let cancelled = false;
+    setListLoading(true);
+    fetchAPI<{ groups: PollBreakdownGroup[] }>(`/api/posts/${postId}/poll/breakdown?by=${breakdownBy}`, { token, skipCache: true })
+      .then((data) => { if (!cancelled) setBreakdown(data.groups || []); })
+      .catch((error) => console.error('Error fetching poll breakdown:', error))
+      .finally(() => { if (!cancelled) setListLoading(false); });
+    return () => { cancelled = true; };
+  }, [breakdownBy, postId, token]);
+
+  const submit = useCallback(async (optionIds: number[] | null) => {
+    if (!token) {
+      showToast('Sign in to vote', 'error');
+      return;
+    }
+    setBusy(true);
+    try {
+      const data = await fetchAPI<PollState>(`/api/posts/${postId}/poll`, {
+        method: optionIds ? 'PUT' : 'DELETE',
+        token,
+        skipCache: true,
+        retries: 0,
+        ...(optionIds && { body: JSON.stringify({ option_ids: optionIds }) }),
+      });
+      setState(data);
+      setPicked([]);
+      window.dispatchEvent(new CustomEvent<PollChangedDetail>('pollVoteChanged', { detail: { postId, state: data } }));
+      announcePollVote(postId);
+    } catch (error: any) {
+      showToast(error.message || 'Failed to update vote', 'error');
+    } finally {
+      setBusy(false);
+    }
+  }, [postId, token, showToast, announcePollVote]);
+
+  const choose = (optionId: number) => {
+    if (!poll.multiple) {
+      submit([optionId]);
+      return;
+    }
+    setPicked((prev) => prev.includes(optionId) ? prev.filter((id) => id !== optionId) : [...prev, optionId]);
+  };
+
+  const results = state?.results;
+  const myVotes = results?.my_votes || null;
+  const showResults = !!state && (!!myVotes || !state.open || !!isAuthor);
+  const canVote = !!state?.open && !myVotes;
+
+  return (
+    <div className={`rounded-xl border border-gray-200 p-3 space-y-2 text-sm ${className}`} onClick={(e) => e.stopPropagation()}>
+      <div className="space-y-1.5">
+        {poll.options.map((option) => {
+          const percent = results ? optionPercent(results, option.id) : 0;
+          const mine = !!myVotes?.includes(option.id);
+          if (!state || canVote) {
+            const selected = picked.includes(option.id);
+            return (
+              <button
+                key={option.id}
+                onClick={() => choose(option.id)}
+                disabled={busy || !state}
+                className={`relative w-full overflow-hidden text-left px-3 py-1.5 rounded-lg border transition-colors disabled:opacity-50 ${selected
+                  ? 'border-[#FFAF50] text-gray-900'
+                  : 'border-gray-300 text-gray-700 hover:border-gray-400'
+                }`}
+              >
+                {showResults && <span className="absolute inset-y-0 left-0 bg-gray-100" style={{ width: `${percent}%` }} />}
+                <span className="relative flex items-center justify-between gap-2">
+                  <span>
+                    {poll.multiple && <span className="mr-2">{selected ? '☑' : '☐'}</span>}
+                    {option.text}
+                  </span>
+                  {showResults && <span className="text-xs text-gray-500">{percent}%</span>}
+                </span>
+              </button>
+            );
+          }
+          return (
+            <div key={option.id} className="relative overflow-hidden rounded-lg border border-gray-200 px-3 py-1.5">
+              <div
+                className={`absolute inset-y-0 left-0 transition-all duration-500 ${mine ? 'bg-orange-100' : 'bg-gray-100'}`}
+                style={{ width: `${percent}%` }}
+              />
+              <div className="relative flex items-center justify-between gap-2">
+                <span className={mine ? 'font-semibold text-gray-900' : 'text-gray-700'}>
+                  {option.text}
+                  {mine && <span className="ml-1 text-xs text-[#FFAF50]">✓</span>}
+                </span>
+                {!poll.anonymous && results?.counts[option.id] ? (
+                  <button onClick={() => setVotersOption(option.id)} className="text-xs text-gray-500 hover:text-gray-900">
+                    {percent}%
+                  </button>
+                ) : (
+                  <span className="text-xs text-gray-500">{percent}%</span>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {canVote && poll.multiple && (
+        <button
+          onClick={() => submit(picked)}
+          disabled={busy || picked.length === 0}
+          className="px-3 py-1 rounded-full text-xs font-semibold bg-[#FFAF50] text-white disabled:opacity-50"
+        >
+          Vote
+        </button>
+      )}
+
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-500">
+        <span>{results?.voters || 0} {results?.voters === 1 ? 'vote' : 'votes'}</span>
+        <span>{poll.anonymous ? 'Anonymous' : 'Votes are public'}{poll.multiple ? ' · Pick any' : ''}</span>
+        {state && (state.open
+          ? poll.closes_at && <span>Closes {formatWhen(poll.closes_at)}</span>
+          : <span className="font-semibold">Final results</span>)}
+        {state?.open && myVotes && (
+          <button onClick={() => submit(null)} disabled={busy} className="font-semibold text-gray-900 hover:text-gray-600 disabled:opacity-50">
+            Undo vote
+          </button>
+        )}
+        {isAuthor && !!results?.voters && (
+          <button onClick={() => setBreakdownBy('department')} className="font-semibold text-gray-900 hover:text-gray-600">
+            See breakdown
+          </button>
+        )}
+      </div>
+
+      {(votersOption !== null || breakdownBy) && (
+        <div
+          className="fixed inset-0 bg-black/50 flex items-center justify-center z-popover p-4"
+          onClick={(e) => {
+            e.stopPropagation();
+            if (e.target === e.currentTarget) { setVotersOption(null); setBreakdownBy(null); }
+          }}
+        >
+          <div className="bg-white rounded-2xl shadow-xl w-full max-w-sm max-h-[80vh] flex flex-col">
+            <div className="flex items-center justify-between px-5 py-3 border-b border-gray-100">
+              <h3 className="font-semibold text-gray-900 truncate">
+                {breakdownBy ? 'Results breakdown' : poll.options.find((option) => option.id === votersOption)?.text}
+              </h3>
+              <button onClick={() => { setVotersOption(null); setBreakdownBy(null); }} className="text-sm text-gray-600 hover:text-gray-900">Close</button>
+            </div>
+            {breakdownBy && (
+              <div className="flex gap-3 px-5 pt-3 text-xs font-semibold border-b border-gray-100">
+                {(['department', 'year'] as const).map((by) => (
+                  <button
+                    key={by}
+                    onClick={() => setBreakdownBy(by)}
+                    className={`pb-2 border-b-2 ${breakdownBy === by ? 'border-gray-900 text-gray-900' : 'border-transparent text-gray-500'}`}
+                  >
+                    {by === 'department' ? 'By department' : 'By year'}
+                  </button>
+                ))}
+              </div>
+            )}
+            <div className="overflow-auto">
+              {listLoading ? (
+                <div className="flex items-center justify-center py-10">
+                  <div className="w-6 h-6 border-4 border-gray-200 border-t-[#FFAF50] rounded-full animate-spin"></div>
+                </div>
+              ) : breakdownBy ? (
+                <div className="divide-y divide-gray-100">
+                  {breakdown.map((group) => (
+                    <div key={group.group ?? 'other'} className="px-5 py-3 space-y-1">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="font-semibold text-gray-900 truncate">{groupLabel(group.group, breakdownBy)}</span>
+                        <span className="text-xs text-gray-500">{group.voters} {group.voters === 1 ? 'vote' : 'votes'}</span>
+                      </div>
+                      {poll.options.map((option) => {
+                        const percent = optionPercent(group, option.id);
+                        return (
+                          <div key={option.id} className="flex items-center gap-2 text-xs text-gray-600">
+                            <span className="w-24 truncate">{option.text}</span>
+                            <div className="flex-1 h-1.5 rounded-full bg-gray-100 overflow-hidden">
+                              <div className="h-full bg-[#FFAF50]" style={{ width: `${percent}%` }} />
+                            </div>
+                            <span className="w-8 text-right">{percent}%</span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  ))}
+                  {poll.anonymous && (
+                    <p className="px-5 py-3 text-xs text-gray-500">Small groups are combined so nobody&apos;s vote can be picked out.</p>
+                  )}
+                </div>
+              ) : voters.length === 0 ? (
+                <div className="text-center text-sm text-gray-500 py-10">Nobody yet</div>
+              ) : (
+                <ul className="divide-y divide-gray-100">
+                  {voters.map((person) => (
+                    <li key={person.id}>
+                      <button
+                        onClick={() => router.push(`/profile/${person.id}`)}
+                        className="w-full flex items-center gap-3 px-5 py-2.5 text-left hover:bg-gray-50"
+                      >
+                        <div className="relative w-8 h-8 rounded-full overflow-hidden bg-gray-200 shrink-0">
+                          {person.profile_image && <Image src={person.profile_image} alt="" fill sizes="32px" className="object-cover" />}
+                        </div>
+                        <div className="min-w-0">
+                          <div className="text-sm font-semibold text-gray-900 truncate">{person.name}</div>
+                          {person.username && <div className="text-xs text-gray-500 truncate">@{person.username}</div>}
+                        </div>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PollDetails;
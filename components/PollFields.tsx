@@ -0,0 +1,165 @@
+'use client';
+
+import React from 'react';
+import { MAX_POLL_OPTIONS, MAX_POLL_OPTION_LENGTH, MIN_POLL_OPTIONS, type PollView } from '../lib/polls';
+import { toLocalInputValue } from '../lib/postSchedule';
+
+// The poll form as typed; closesAt is a datetime-local value in the browser's time zone
+export interface PollFormValue {
+  options: string[];
+  multiple: boolean;
+  anonymous: boolean;
+  closesAt: string;
+}
+
+export const EMPTY_POLL_FORM: PollFormValue = { options: ['', ''], multiple: false, anonymous: false, closesAt: '' };
+
+export function toPollForm(poll?: PollView | null): PollFormValue | null {
+  if (!poll) return null;
+  return {
+    options: poll.options.map((option) => option.text),
+    multiple: poll.multiple,
+    anonymous: poll.anonymous,
+    closesAt: poll.closes_at ? toLocalInputValue(new Date(poll.closes_at)) : '',
+  };
+}
+
+export function isPollFormEmpty(value: PollFormValue | null): boolean {
+  return !value || value.options.every((option) => !option.trim());
+}
+
+// The `poll` field the post routes take, or null without a poll or until it has two options
+export function toPollPayload(value: PollFormValue | null): string | null {
+  if (!value) return null;
+  const options = value.options.map((option) => option.trim()).filter(Boolean);
+  if (options.length < MIN_POLL_OPTIONS) return null;
+  return JSON.stringify({
+    options,
+    multiple: value.multiple,
+    anonymous: value.anonymous,
+    closes_at: value.closesAt ? new Date(value.closesAt).toISOString() : '',
+  });
+}
+
+interface PollFieldsProps {
+  // null while the post has no poll
+  value: PollFormValue | null;
+  onChange: (value: PollFormValue | null) => void;
+  disabled?: boolean;
+  // Once people have voted only the closing time can change
+  locked?: boolean;
+}
+
+const inputClass = 'w-full text-sm border border-gray-200 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-[#FFAF50]';
+
+/**
+ * Options, single or multiple choice, anonymous or named voting and an
+ * optional closing time for a post's poll, behind an "Add a poll" button
+ */
+const PollFields: React.FC<PollFieldsProps> = ({ value, onChange, disabled, locked }) => {
+  if (!value) {
+    return (
+      <button
+        type="button"
+        onClick={() => onChange(EMPTY_POLL_FORM)}
+        disabled={disabled}
+        className="text-xs font-semibold text-gray-900 hover:text-gray-600"
+      >
+        + Add a poll
+      </button>
+    );
+  }
+
+  const setOption = (index: number, text: string) => onChange({
+    ...value,
+    options: value.options.map((option, i) => i === index ? text : option),
+  });
+  const removeOption = (index: number) => onChange({ ...value, options: value.options.filter((_, i) => i !== index) });
+
+  return (
+    <div className="space-y-2">
+      {value.options.map((option, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <input
+            type="text"
+            value={option}
+            onChange={(e) => setOption(index, e.target.value)}
+            maxLength={MAX_POLL_OPTION_LENGTH}
+            placeholder={`Option ${index + 1}`}
+            disabled={disabled || locked}
+            className={inputClass}
+          />
+          {value.options.length > MIN_POLL_OPTIONS && !locked && (
+            <button
+              type="button"
+              onClick={() => removeOption(index)}
+              disabled={disabled}
+              className="text-xs text-gray-500 hover:text-gray-900"
+              aria-label={`Remove option ${index + 1}`}
+            >
+              ✕
+            </button>
+          )}
+        </div>
+      ))}
+      {value.options.length < MAX_POLL_OPTIONS && !locked && (
+        <button
+          type="button"
+          onClick={() => onChange({ ...value, options: [...value.options, ''] })}
+          disabled={disabled}
+          className="text-xs font-semibold text-gray-900 hover:text-gray-600"
+        >
+          + Add option
+        </button>
+      )}
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+        <label className="flex items-center gap-1.5">
+          <input
+            type="checkbox"
+            checked={value.multiple}
+            onChange={(e) => onChange({ ...value, multiple: e.target.checked })}
+            disabled={disabled || locked}
+          />
+          Allow picking more than one
+        </label>
+        <label className="flex items-center gap-1.5">
+          <input
+            type="checkbox"
+            checked={value.anonymous}
+            onChange={(e) => onChange({ ...value, anonymous: e.target.checked })}
+            disabled={disabled || locked}
+          />
+          Anonymous voting
+        </label>
+      </div>
+      <label className="block text-xs text-gray-600 space-y-1">
+        <span>Closes</span>
+        <input
+          type="datetime-local"
+          value={value.closesAt}
+          min={toLocalInputValue(new Date())}
+          onChange={(e) => onChange({ ...value, closesAt: e.target.value })}
+          disabled={disabled}
+          className={inputClass}
+        />
+      </label>
+      <button
+        type="button"
+        onClick={() => onChange(null)}
+        disabled={disabled}
+        className="text-xs font-semibold text-red-600 hover:text-red-700"
+      >
+        Remove poll
+      </button>
+      <p className="text-xs text-gray-500">
+        {locked
+          ? 'People have voted, so only the closing time can change.'
+          : value.anonymous
+            ? 'Nobody, including you, can see who voted for what.'
+            : 'Anyone who can see the post can see who voted for each option.'}
+      </p>
+    </div>
+  );
+};
+
+export default PollFields;
@@ -9,6 +9,24 @@ import { fetchAPI, dataFetcher } from '../lib/dataFetcher';
 import Image from 'next/image';
 import MobileCommentsSheet from './MobileCommentsSheet';
 import ShareModal from './ShareModal';
+import RoleBadge from './RoleBadge';
+import SaveButton from './SaveButton';
+import PostEditHistory from './PostEditHistory';
+import EventDetails from './EventDetails';
+import InternshipDetails from './InternshipDetails';
+import PollDetails from './PollDetails';
+import RepostButton from './RepostButton';
+import QuotedPost from './QuotedPost';
+import type { UserRole } from '../lib/roles';
+import { getPostMedia, type MediaItem } from '../lib/postMedia';
+import type { PlaceSummary } from '../lib/places';
+import type { EventView } from '../lib/events';
+import type { PollView } from '../lib/polls';
+import type { InternshipView } from '../lib/internships';
+import { describeAudience, type AudienceView } from '../lib/postAudience';
+import type { PostTagView } from '../lib/postTags';
+import type { QuotedPostView, RepostedBy } from '../lib/reposts';
+import { splitHashtags } from '../lib/hashtags';
 
 interface PostCardProps {
   id: number;
@@ -16,15 +34,37 @@ interface PostCardProps {
   authorName: string;
   authorDept: string;
   authorYear: number;
+  authorRole?: UserRole;
   content: string;
   category?: string;
   auraCount: number;
   commentCount: number;
   timestamp: string;
+  // When the post was last edited, if ever
+  editedAt?: string | null;
   profilePic?: string;
   mediaUrl?: string;
   mediaType?: 'image' | 'video';
+  media?: MediaItem[];
+  place?: PlaceSummary | null;
+  // Structured details of event and internship posts
+  event?: EventView | null;
+  internship?: InternshipView | null;
+  // Who may see the post; null when it's public
+  audience?: AudienceView | null;
+  poll?: PollView | null;
+  // Set when the post is in the feed because someone the viewer follows reposted it
+  repostedBy?: RepostedBy | null;
+  // Quote posts: the quoted post's id, and the post itself (null once unavailable)
+  quoteOf?: number | null;
+  quotedPost?: QuotedPostView | null;
+  repostCount?: number;
+  userReposted?: boolean;
+  tags?: PostTagView[];
   userLiked?: boolean;
+  userSaved?: boolean;
+  // Hashtags on this post that the viewer follows, if that's why it's in their feed
+  followedHashtags?: string[];
   isFollowingUser?: boolean;
   onPostClick?: (post: PostCardProps) => void;
   edgeToEdge?: boolean;
@@ -38,15 +78,31 @@ const PostCard: React.FC<PostCardProps> = memo(({
   authorName,
   authorDept,
   authorYear,
+  authorRole,
   content,
   category,
   auraCount: initialAuraCount,
   commentCount,
   timestamp,
+  editedAt,
   profilePic,
   mediaUrl,
   mediaType,
+  media,
+  place,
+  event,
+  internship,
+  audience,
+  poll,
+  repostedBy,
+  quoteOf,
+  quotedPost,
+  repostCount,
+  userReposted,
+  tags,
   userLiked,
+  userSaved,
+  followedHashtags,
   isFollowingUser,
   onPostClick,
   edgeToEdge,
@@ -67,6 +123,7 @@ const PostCard: React.FC<PostCardProps> = memo(({
   const [showOptions, setShowOptions] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [editText, setEditText] = useState(content || '');
+  const captionParts = useMemo(() => splitHashtags(editText || ''), [editText]);
   const [isSaving, setIsSaving] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [isDeleted, setIsDeleted] = useState(false);
@@ -78,11 +135,51 @@ const PostCard: React.FC<PostCardProps> = memo(({
   const [showPlayPauseIndicator, setShowPlayPauseIndicator] = useState(false);
   const [manuallyPaused, setManuallyPaused] = useState(false);
   const [showMobileComments, setShowMobileComments] = useState(false);
+  const [mediaIndex, setMediaIndex] = useState(0);
+  const [postTags, setPostTags] = useState<PostTagView[]>(tags || []);
+  const [showTags, setShowTags] = useState(false);
   const containerRef = React.useRef<HTMLDivElement>(null);
 
+  // Pick up edits made elsewhere (e.g. from the post modal)
+  useEffect(() => {
+    setEditText(content || '');
+  }, [content]);
+  useEffect(() => {
+    setPostTags(tags || []);
+  }, [tags]);
+
+  // Carousel items, falling back to the single mediaUrl for older posts
+  const mediaItems = useMemo(
+    () => getPostMedia({ media, media_url: mediaUrl, media_type: mediaType }),
+    [media, mediaUrl, mediaType]
+  );
+  const currentMedia = mediaItems[Math.min(mediaIndex, mediaItems.length - 1)];
+  const currentTags = postTags.filter((tag) => tag.media_index === mediaIndex);
+  const isViewerTagged = !!user && postTags.some((tag) => tag.user.id === user.id);
+
+  const handleRemoveMyTag = useCallback(async () => {
+    if (!token || !user) return;
+    try {
+      await fetchAPI(`/api/posts/${id}/tags`, { method: 'DELETE', token, skipCache: true, retries: 0 });
+      setPostTags((prev) => prev.filter((tag) => tag.user.id !== user.id));
+      showToast('Removed you from this post', 'success');
+    } catch (error: any) {
+      showToast(error.message || 'Failed to remove tag', 'error');
+    }
+  }, [id, token, user, showToast]);
+
+  const showMediaAt = useCallback((index: number) => {
+    setMediaIndex(index);
+    setMediaError(false);
+    setImageAspectRatio(null);
+    setManuallyPaused(false);
+    setShowTags(false);
+  }, []);
+
   // Use video visibility hook for auto-play/pause (feed video)
+  // Keyed by slide so the observer re-attaches when the carousel moves to another video
   const videoRef = useVideoVisibility({
-    videoId: `post-${id}`,
+    videoId: `post-${id}-${mediaIndex}`,
     isFirstVideo: isFirstPost,
     isFeedVideo: true, // Mark as feed video (will pause when modal opens)
     threshold: 0.5,
@@ -117,19 +214,6 @@ const PostCard: React.FC<PostCardProps> = memo(({
   // Note: Follow status is managed optimistically
   // Initial state is false (not following), updates after user clicks follow
 
-  const inferMediaType = useCallback((
-    url?: string,
-    declared?: 'image' | 'video'
-  ): 'image' | 'video' | undefined => {
-    if (!url) return undefined;
-    if (declared === 'image' || declared === 'video') return declared;
-    const lower = url.toLowerCase();
-    if (lower.includes('/video/') || /(\.mp4|\.webm|\.mov|\.avi|\.wmv)$/i.test(lower)) {
-      return 'video';
-    }
-    return 'image';
-  }, []);
-
   const handleAuraClick = useCallback(async () => {
     // Prevent multiple clicks while processing
     if (!token || isLiking) return;
@@ -253,9 +337,20 @@ const PostCard: React.FC<PostCardProps> = memo(({
         auraCount,
         commentCount,
         timestamp,
+        editedAt,
         profilePic,
         mediaUrl,
         mediaType,
+        media: mediaItems,
+        place,
+        event,
+        internship,
+        audience,
+        poll,
+        quoteOf,
+        quotedPost,
+        repostCount,
+        userReposted,
         userLiked: hasAura,
         onPostClick,
         edgeToEdge,
@@ -264,7 +359,15 @@ const PostCard: React.FC<PostCardProps> = memo(({
     } else {
       alert('Comments feature is coming soon! 💬');
     }
-  }, [isMobile, onPostClick, id, authorId, authorName, authorDept, authorYear, editText, category, auraCount, commentCount, timestamp, profilePic, mediaUrl, mediaType, hasAura, edgeToEdge, masonry]);
+  }, [isMobile, onPostClick, id, authorId, authorName, authorDept, authorYear, editText, category, auraCount, commentCount, timestamp, editedAt, profilePic, mediaUrl, mediaType, mediaItems, place, event, internship, audience, poll, quoteOf, quotedPost, repostCount, userReposted, hasAura, edgeToEdge, masonry]);
+
+  // This post as a quote of it would show it
+  const quotePreview = useMemo(() => authorId !== undefined ? {
+    id,
+    content: editText,
+    media: mediaItems,
+    author: { id: authorId, name: authorName, profile_image: profilePic },
+  } : null, [id, editText, mediaItems, authorId, authorName, profilePic]);
 
   const handleShareClick = useCallback(async () => {
     setShowShareModal(true);
@@ -283,16 +386,27 @@ const PostCard: React.FC<PostCardProps> = memo(({
         auraCount,
         commentCount,
         timestamp,
+        editedAt,
         profilePic,
         mediaUrl,
         mediaType,
+        media: mediaItems,
+        place,
+        event,
+        internship,
+        audience,
+        poll,
+        quoteOf,
+        quotedPost,
+        repostCount,
+        userReposted,
         userLiked: hasAura, // Pass current aura status
         onPostClick,
         edgeToEdge,
         masonry,
       });
     }
-  }, [onPostClick, id, authorId, authorName, authorDept, authorYear, editText, category, auraCount, commentCount, timestamp, profilePic, mediaUrl, mediaType, hasAura, edgeToEdge, masonry]);
+  }, [onPostClick, id, authorId, authorName, authorDept, authorYear, editText, category, auraCount, commentCount, timestamp, editedAt, profilePic, mediaUrl, mediaType, mediaItems, place, event, internship, audience, poll, quoteOf, quotedPost, repostCount, userReposted, hasAura, edgeToEdge, masonry]);
 
   const handleEditSave = useCallback(async () => {
     if (!token) return;
@@ -304,6 +418,9 @@ const PostCard: React.FC<PostCardProps> = memo(({
       return;
     }
 
+    const formData = new FormData();
+    formData.append('caption', trimmed);
+
     setIsSaving(true);
     try {
       const data = await fetchAPI<{ post: { caption: string } }>(
@@ -311,7 +428,7 @@ const PostCard: React.FC<PostCardProps> = memo(({
         {
           method: 'PUT',
           token: token || '',
-          body: JSON.stringify({ caption: trimmed }),
+          body: formData,
           skipCache: true
         }
       );
@@ -430,6 +547,35 @@ const PostCard: React.FC<PostCardProps> = memo(({
 
   return (
     <div ref={containerRef} className={`${edgeToEdge ? 'bg-white border-b border-border-light' : 'bg-white border border-border-light rounded-xl mb-4'} overflow-hidden`}>
+      {followedHashtags && followedHashtags.length > 0 && (
+        <div className="px-4 pt-3 -mb-1 text-xs text-gray-500">
+          Because you follow{' '}
+          <button
+            onClick={() => router.push(`/explore/tags/${encodeURIComponent(followedHashtags[0])}`)}
+            className="font-semibold text-gray-900 hover:underline"
+          >
+            #{followedHashtags[0]}
+          </button>
+        </div>
+      )}
+      {repostedBy && (
+        <div className="px-4 pt-3 -mb-1 flex items-center gap-1.5 text-xs text-gray-500">
+          <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" viewBox="0 0 24 24">
+            <polyline points="17 1 21 5 17 9" />
+            <path d="M3 11V9a4 4 0 0 1 4-4h14" />
+            <polyline points="7 23 3 19 7 15" />
+            <path d="M21 13v2a4 4 0 0 1-4 4H3" />
+          </svg>
+          <button
+            onClick={() => router.push(`/profile/${repostedBy.id}`)}
+            className="font-semibold text-gray-900 hover:underline"
+          >
+            {repostedBy.name}
+          </button>
+          reposted
+        </div>
+      )}
+
       {/* Header - Instagram Style */}
       <div className="flex items-center justify-between px-4 py-3">
         <div className="flex items-center gap-3">
@@ -446,12 +592,10 @@ const PostCard: React.FC<PostCardProps> = memo(({
               onError={(e) => { (e.currentTarget as HTMLImageElement).src = '/uploads/DefaultProfile.jpg'; }}
             />
           </div>
-          <div
-            className="cursor-pointer"
-            onClick={handleAuthorClick}
-          >
-            <p className="font-semibold text-sm text-gray-900">
+          <div>
+            <p className="font-semibold text-sm text-gray-900 cursor-pointer" onClick={handleAuthorClick}>
               {authorName}
+              <RoleBadge role={authorRole} className="ml-1.5" />
               {user && authorId && user.id !== authorId && !isFollowingUser && (
                 <>
                   <span className="text-gray-400 mx-1">•</span>
@@ -465,6 +609,14 @@ const PostCard: React.FC<PostCardProps> = memo(({
                 </>
               )}
             </p>
+            {place && (
+              <button
+                onClick={() => router.push(`/explore/locations/${place.id}`)}
+                className="block text-xs text-gray-600 hover:underline truncate max-w-[220px] text-left"
+              >
+                {place.name}
+              </button>
+            )}
           </div>
         </div>
 
@@ -478,13 +630,14 @@ const PostCard: React.FC<PostCardProps> = memo(({
       </div>
 
       {/* Media - Instagram Style */}
-      {mediaUrl && (
-        <div className="w-full">
-          {inferMediaType(mediaUrl, mediaType) === 'image' ? (
+      {currentMedia && (
+        <div className="relative w-full">
+          {currentMedia.type === 'image' ? (
             <div className={`relative w-full ${imageAspectRatio && Math.abs(imageAspectRatio - 1) < 0.1 ? 'bg-gray-100' : 'bg-black'}`} style={{ maxHeight: '600px' }}>
               {!mediaError ? (
                 <Image
-                  src={mediaUrl}
+                  key={currentMedia.url}
+                  src={currentMedia.url}
                   alt="Post media"
                   width={600}
                   height={600}
@@ -504,13 +657,14 @@ const PostCard: React.FC<PostCardProps> = memo(({
                 </div>
               )}
             </div>
-          ) : inferMediaType(mediaUrl, mediaType) === 'video' ? (
+          ) : currentMedia.type === 'video' ? (
             <div className="relative w-full bg-black" style={{ maxHeight: '600px' }}>
               {!mediaError ? (
                 <div className="relative w-full">
                   <video
+                    key={currentMedia.url}
                     ref={videoRef}
-                    src={mediaUrl}
+                    src={currentMedia.url}
                     muted={isMuted}
                     loop
                     playsInline
@@ -561,6 +715,109 @@ const PostCard: React.FC<PostCardProps> = memo(({
               )}
             </div>
           ) : null}
+
+          {/* People tagged on this item */}
+          {currentTags.length > 0 && (
+            <>
+              {showTags && (
+                <div className="absolute inset-0" onClick={() => setShowTags(false)}>
+                  {currentTags.map((tag) => tag.x !== null && tag.y !== null && (
+                    <button
+                      key={tag.user.id}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        router.push(`/profile/${tag.user.id}`);
+                      }}
+                      className="absolute -translate-x-1/2 -translate-y-1/2 px-2 py-1 rounded bg-black/75 text-white text-xs font-semibold whitespace-nowrap"
+                      style={{ left: `${tag.x * 100}%`, top: `${tag.y * 100}%` }}
+                    >
+                      {tag.user.username || tag.user.name}
+                    </button>
+                  ))}
+                  <div className="absolute bottom-12 left-3 right-3 flex flex-wrap gap-1.5">
+                    {currentTags.filter((tag) => tag.x === null || tag.y === null).map((tag) => (
+                      <button
+                        key={tag.user.id}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          router.push(`/profile/${tag.user.id}`);
+                        }}
+                        className="px-2 py-1 rounded bg-black/75 text-white text-xs font-semibold"
+                      >
+                        {tag.user.username || tag.user.name}
+                      </button>
+                    ))}
+                    {isViewerTagged && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleRemoveMyTag();
+                        }}
+                        className="px-2 py-1 rounded bg-white/90 text-gray-900 text-xs font-semibold"
+                      >
+                        Remove me
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
+              <button
+                onClick={() => setShowTags((prev) => !prev)}
+                className="absolute bottom-3 left-3 bg-black/60 text-white p-2 rounded-full hover:bg-black/80 transition-all"
+                title="Tagged people"
+                aria-label="Show tagged people"
+              >
+                <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                  <path d="M12 12c2.21 0 4-1.79 4-4s-1.79-4-4-4-4 1.79-4 4 1.79 4 4 4zm0 2c-2.67 0-8 1.34-8 4v2h16v-2c0-2.66-5.33-4-8-4z" />
+                </svg>
+              </button>
+            </>
+          )}
+
+          {/* Carousel controls */}
+          {mediaItems.length > 1 && (
+            <>
+              {mediaIndex > 0 && (
+                <button
+                  onClick={() => showMediaAt(mediaIndex - 1)}
+                  className="absolute left-3 top-1/2 -translate-y-1/2 bg-white/80 hover:bg-white text-gray-900 w-8 h-8 rounded-full shadow flex items-center justify-center transition-all"
+                  aria-label="Previous media"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                  </svg>
+                </button>
+              )}
+              {mediaIndex < mediaItems.length - 1 && (
+                <button
+                  onClick={() => showMediaAt(mediaIndex + 1)}
+                  className="absolute right-3 top-1/2 -translate-y-1/2 bg-white/80 hover:bg-white text-gray-900 w-8 h-8 rounded-full shadow flex items-center justify-center transition-all"
+                  aria-label="Next media"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                  </svg>
+                </button>
+              )}
+              <div className="absolute top-3 right-3 bg-black/60 text-white text-xs px-2 py-0.5 rounded-full">
+                {mediaIndex + 1}/{mediaItems.length}
+              </div>
+              <div className="absolute bottom-3 left-1/2 -translate-x-1/2 flex gap-1">
+                {mediaItems.map((item, index) => (
+                  <span
+                    key={`${item.url}-${index}`}
+                    className={`w-1.5 h-1.5 rounded-full ${index === mediaIndex ? 'bg-white' : 'bg-white/50'}`}
+                  />
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {quoteOf && (
+        <div className="px-4 pt-3">
+          <QuotedPost post={quotedPost ?? null} />
         </div>
       )}
 
@@ -611,14 +868,15 @@ const PostCard: React.FC<PostCardProps> = memo(({
                 <polygon points="22 2 15 22 11 13 2 9 22 2" />
               </svg>
             </button>
+
+            {/* Only public posts can be reposted */}
+            {quotePreview && !audience && (
+              <RepostButton post={quotePreview} initialReposted={userReposted} initialCount={repostCount} />
+            )}
           </div>
 
           {/* Bookmark Button */}
-          <button className="hover:opacity-60 transition-opacity duration-fast">
-            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="#000000" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-              <path d="M19 21l-7-5-7 5V5a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2z" />
-            </svg>
-          </button>
+          <SaveButton postId={id} initialSaved={userSaved} />
         </div>
 
         {/* Like Count */}
@@ -629,6 +887,24 @@ const PostCard: React.FC<PostCardProps> = memo(({
         )}
       </div>
 
+      {event && (
+        <div className="px-4 pb-3">
+          <EventDetails postId={id} event={event} isOrganizer={!!user && user.id === authorId} />
+        </div>
+      )}
+
+      {poll && (
+        <div className="px-4 pb-3">
+          <PollDetails postId={id} poll={poll} isAuthor={!!user && user.id === authorId} />
+        </div>
+      )}
+
+      {internship && (
+        <div className="px-4 pb-3">
+          <InternshipDetails postId={id} internship={internship} />
+        </div>
+      )}
+
       {/* Caption - Instagram Style */}
       <div className="px-4 pb-2">
         {!isEditing ? (
@@ -636,7 +912,20 @@ const PostCard: React.FC<PostCardProps> = memo(({
             <p className="text-sm text-gray-900 leading-tight">
               <span className="font-semibold mr-1.5">{authorName}</span>
               <span className={!isExpanded && editText && editText.length > 150 ? 'line-clamp-2' : ''}>
-                {editText}
+                {captionParts.map((part, index) => part.tag ? (
+                  <button
+                    key={index}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      router.push(`/explore/tags/${encodeURIComponent(part.tag as string)}`);
+                    }}
+                    className="text-info hover:underline"
+                  >
+                    {part.text}
+                  </button>
+                ) : (
+                  <React.Fragment key={index}>{part.text}</React.Fragment>
+                ))}
               </span>
             </p>
             {editText && editText.length > 150 && (
@@ -679,8 +968,13 @@ const PostCard: React.FC<PostCardProps> = memo(({
         )}
 
         {/* Timestamp */}
-        <div className="mt-2">
+        <div className="mt-2 flex items-center gap-1">
           <span className="text-xs text-text-tertiary">{timestamp}</span>
+          {audience && (
+            <span className="text-xs text-text-tertiary" title="Who can see this post">· {describeAudience(audience)}</span>
+          )}
+          {editedAt && <span className="text-xs text-text-tertiary">·</span>}
+          <PostEditHistory postId={id} editedAt={editedAt} />
         </div>
       </div>
 
@@ -697,6 +991,7 @@ const PostCard: React.FC<PostCardProps> = memo(({
           auraCount={auraCount}
           hasAura={hasAura}
           onAuraClick={handleAuraClick}
+          media={mediaItems}
         />
       )}
 
@@ -710,6 +1005,7 @@ const PostCard: React.FC<PostCardProps> = memo(({
         postMediaType={mediaType}
         authorName={authorName}
         authorId={authorId}
+        audience={audience}
       />
     </div>
   );
@@ -0,0 +1,117 @@
+'use client';
+
+import Image from 'next/image'
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { fetchAPI } from '../lib/dataFetcher';
+import type { MediaItem } from '../lib/postMedia';
+import type { PlaceSummary } from '../lib/places';
+
+interface PostRevisionView {
+  id: number;
+  content: string;
+  category: string;
+  place: PlaceSummary | null;
+  media: MediaItem[];
+  created_at: string;
+  replaced_at: string;
+}
+
+interface PostEditHistoryProps {
+  postId: number;
+  editedAt?: string | null;
+  className?: string;
+}
+
+const formatWhen = (value: string) => new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * The "Edited" marker on a post; opens the post's earlier versions. Renders
+ * nothing for posts that were never edited.
+ */
+const PostEditHistory: React.FC<PostEditHistoryProps> = ({ postId, editedAt, className = '' }) => {
+  const { token } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [revisions, setRevisions] = useState<PostRevisionView[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setLoading(true);
+    fetchAPI<{ revisions: PostRevisionView[] }>(`/api/posts/${postId}/revisions`, { token: token || undefined, skipCache: true })
+      .then((data) => { if (!cancelled) setRevisions(data.revisions || []); })
+      .catch((error) => console.error('Error fetching edit history:', error))
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [isOpen, postId, token]);
+
+  if (!editedAt) return null;
+
+  return (
+    <>
+      <button
+        onClick={(e) => { e.stopPropagation(); setIsOpen(true); }}
+        className={`text-xs text-text-tertiary hover:underline ${className}`}
+        title={`Edited ${formatWhen(editedAt)}`}
+      >
+        Edited
+      </button>
+
+      {isOpen && (
+        <div
+          className="fixed inset-0 bg-black/50 flex items-center justify-center z-popover p-4"
+          onClick={(e) => { e.stopPropagation(); if (e.target === e.currentTarget) setIsOpen(false); }}
+        >
+          <div className="bg-white rounded-2xl shadow-xl w-full max-w-md max-h-[80vh] overflow-auto">
+            <div className="sticky top-0 flex items-center justify-between px-5 py-3 border-b border-gray-100 bg-white">
+              <h3 className="font-semibold text-gray-900">Edit history</h3>
+              <button onClick={() => setIsOpen(false)} className="text-sm text-gray-600 hover:text-gray-900">Close</button>
+            </div>
+            <div className="px-5 py-3 text-xs text-gray-500 border-b border-gray-100">
+              Last edited {formatWhen(editedAt)}
+            </div>
+
+            {loading ? (
+              <div className="flex items-center justify-center py-10">
+                <div className="w-6 h-6 border-4 border-gray-200 border-t-[#FFAF50] rounded-full animate-spin"></div>
+              </div>
+            ) : revisions.length === 0 ? (
+              <div className="text-center text-sm text-gray-500 py-10">No earlier versions</div>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {revisions.map((revision) => (
+                  <li key={revision.id} className="px-5 py-4 space-y-2">
+                    <div className="text-xs text-gray-500">
+                      {formatWhen(revision.created_at)} – {formatWhen(revision.replaced_at)}
+                    </div>
+                    {revision.media.length > 0 && (
+                      <div className="flex gap-1.5 overflow-x-auto">
+                        {revision.media.map((item, index) => (
+                          <div key={index} className="relative w-16 h-16 shrink-0 rounded-md overflow-hidden bg-gray-100">
+                            {item.type === 'video' ? (
+                              <video src={item.url} muted className="w-full h-full object-cover" />
+                            ) : (
+                              <Image src={item.url} alt="" fill sizes="64px" className="object-cover" />
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    <p className="text-sm text-gray-900 whitespace-pre-wrap break-words">{revision.content}</p>
+                    <div className="flex flex-wrap gap-2 text-xs text-gray-500">
+                      <span className="capitalize">{revision.category.toLowerCase().replace('_', ' ')}</span>
+                      {revision.place && <span>· {revision.place.name}</span>}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default PostEditHistory;
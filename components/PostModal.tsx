@@ -6,12 +6,28 @@ import { useToast } from '../contexts/ToastContext';
 import { useVideoVisibility } from '../hooks/useVideoVisibility';
 import { useVideoContext } from '../contexts/VideoContext';
 import Image from 'next/image'
+import SaveButton from './SaveButton';
+import EditPostModal from './EditPostModal';
+import PostEditHistory from './PostEditHistory';
+import EventDetails from './EventDetails';
+import InternshipDetails from './InternshipDetails';
+import PollDetails from './PollDetails';
+import RepostButton from './RepostButton';
+import QuotedPost from './QuotedPost';
+import { splitHashtags } from '../lib/hashtags';
+import type { PlaceSummary } from '../lib/places';
+import type { EventView } from '../lib/events';
+import type { PollView } from '../lib/polls';
+import type { InternshipView } from '../lib/internships';
+import { describeAudience, type AudienceView } from '../lib/postAudience';
+import type { QuotedPostView } from '../lib/reposts';
 
 interface PostModalProps {
   isOpen: boolean;
   onClose: () => void;
   post: {
     id: number;
+    authorId?: number;
     authorName: string;
     authorDept: string;
     authorYear: number;
@@ -24,13 +40,28 @@ interface PostModalProps {
     mediaUrl?: string;
     mediaType?: 'image' | 'video';
     location?: string;
+    place?: PlaceSummary | null;
+    editedAt?: string | null;
+    event?: EventView | null;
+    internship?: InternshipView | null;
+    audience?: AudienceView | null;
+    poll?: PollView | null;
+    quoteOf?: number | null;
+    quotedPost?: QuotedPostView | null;
+    repostCount?: number;
+    userReposted?: boolean;
     userLiked?: boolean;
+    userSaved?: boolean;
     mediaCarousel?: Array<{
       url: string;
       type: 'image' | 'video';
     }>;
   };
   canManage?: boolean;
+  // Render in the page instead of over it, e.g. on the post's own page
+  inline?: boolean;
+  // Scroll to the comments and focus the comment box on open
+  focusComments?: boolean;
 }
 
 interface Comment {
@@ -48,7 +79,10 @@ interface Comment {
   userLiked: boolean;
 }
 
-const PostModal: React.FC<PostModalProps> = ({ isOpen, onClose, post, canManage }) => {
+const PostModal: React.FC<PostModalProps> = ({ isOpen, onClose, post: initialPost, canManage, inline, focusComments }) => {
+  // Kept locally so an edit made from here shows straight away
+  const [post, setPost] = useState(initialPost);
+  useEffect(() => setPost(initialPost), [initialPost]);
   const { user, token } = useAuth();
   const { showToast } = useToast();
   const isMobile = useIsMobile();
@@ -62,9 +96,7 @@ const PostModal: React.FC<PostModalProps> = ({ isOpen, onClose, post, canManage
   const [currentMediaIndex, setCurrentMediaIndex] = useState(0);
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
   const [replyingTo, setReplyingTo] = useState<number | null>(null);
-  const [isEditingCaption, setIsEditingCaption] = useState(false);
-  const [editCaption, setEditCaption] = useState(post.content);
-  const [isSavingCaption, setIsSavingCaption] = useState(false);
+  const [isEditingPost, setIsEditingPost] = useState(false);
   const [showOptions, setShowOptions] = useState(false);
   const commentInputRef = useRef<HTMLInputElement>(null);
   const [showFullCaption, setShowFullCaption] = useState(false);
@@ -322,46 +354,22 @@ const PostModal: React.FC<PostModalProps> = ({ isOpen, onClose, post, canManage
     }
   };
 
-  const handleCaptionSave = async () => {
-    if (!token) return;
-    const trimmed = editCaption.trim();
-
-    // Validate caption is not empty
-    if (!trimmed) {
-      alert('Caption cannot be empty');
-      return;
-    }
-
-    setIsSavingCaption(true);
-    try {
-      const response = await fetch(`/api/posts/${post.id}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify({ caption: trimmed })
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        const newContent = data.post?.caption ?? trimmed;
-        // Update the post content in the modal
-        post.content = newContent;
-        setEditCaption(newContent);
-        setIsEditingCaption(false);
-        // Dispatch event to update other components
-        window.dispatchEvent(new CustomEvent('postUpdated', { detail: { id: post.id, content: newContent } }));
-      } else {
-        const err = await response.json().catch(() => ({}));
-        alert(err.error || 'Failed to update caption');
-      }
-    } catch (error) {
-      console.error('Update caption failed', error);
-      alert('Failed to update caption');
-    } finally {
-      setIsSavingCaption(false);
-    }
+  const handlePostEdited = (updated: any) => {
+    if (!updated) return;
+    setPost((prev) => ({
+      ...prev,
+      content: updated.content ?? prev.content,
+      category: updated.category ?? prev.category,
+      place: updated.place ?? null,
+      location: updated.place?.name,
+      editedAt: updated.edited_at ?? prev.editedAt,
+      event: updated.event ?? null,
+      internship: updated.internship ?? null,
+      audience: updated.audience ?? null,
+      poll: updated.poll ?? null,
+      mediaCarousel: updated.media ?? prev.mediaCarousel,
+    }));
+    setCurrentMediaIndex(0);
   };
 
   const handleCommentButtonClick = useCallback(() => {
@@ -371,6 +379,10 @@ const PostModal: React.FC<PostModalProps> = ({ isOpen, onClose, post, canManage
     } catch { }
   }, []);
 
+  useEffect(() => {
+    if (isOpen && focusComments) handleCommentButtonClick();
+  }, [isOpen, focusComments, handleCommentButtonClick]);
+
   const handleShareClick = useCallback(async () => {
     try {
       const url = typeof window !== 'undefined' ? window.location.origin : '';
@@ -522,16 +534,14 @@ const PostModal: React.FC<PostModalProps> = ({ isOpen, onClose, post, canManage
 
   // Parse caption for hashtags and mentions
   const parseCaption = (text: string) => {
-    return text.replace(
-      /(#[\w]+)|(@[\w]+)/g,
-      (match) => {
-        if (match.startsWith('#')) {
-          return `<span class="text-blue-600 hover:underline cursor-pointer">${match}</span>`;
-        } else {
-          return `<span class="text-blue-600 hover:underline cursor-pointer font-semibold">${match}</span>`;
-        }
-      }
-    );
+    return splitHashtags(text)
+      .map((part) => part.tag
+        ? `<a href="/explore/tags/${encodeURIComponent(part.tag)}" class="text-blue-600 hover:underline cursor-pointer">${part.text}</a>`
+        : part.text.replace(
+          /@[\w]+/g,
+          (match) => `<span class="text-blue-600 hover:underline cursor-pointer font-semibold">${match}</span>`
+        ))
+      .join('');
   };
 
   // Truncate caption if longer than 125 characters
@@ -562,7 +572,10 @@ const PostModal: React.FC<PostModalProps> = ({ isOpen, onClose, post, canManage
   ];
 
   return (
-    <div className="fixed inset-0 bg-black/65 backdrop-blur-sm flex items-center justify-center z-modal" onClick={onClose}>
+    <div
+      className={inline ? 'flex justify-center h-[100dvh] md:h-auto md:py-6' : 'fixed inset-0 bg-black/65 backdrop-blur-sm flex items-center justify-center z-modal'}
+      onClick={inline ? undefined : onClose}
+    >
       <div 
         className="bg-white w-full h-full md:max-w-4xl md:w-full md:h-[85vh] flex flex-col md:flex-row md:rounded-lg overflow-hidden shadow-modal"
         onClick={(e) => e.stopPropagation()}
@@ -727,7 +740,12 @@ const PostModal: React.FC<PostModalProps> = ({ isOpen, onClose, post, canManage
                 className="w-8 h-8 rounded-full object-cover"
                 onError={(e) => { (e.currentTarget as HTMLImageElement).src = '/uploads/DefaultProfile.jpg'; }}
               />
-              <span className="font-semibold text-sm">{post.authorName || 'Unknown User'}</span>
+              <div className="min-w-0">
+                <span className="font-semibold text-sm">{post.authorName || 'Unknown User'}</span>
+                {post.location && (
+                  <p className="text-xs text-gray-600 truncate">{post.location}</p>
+                )}
+              </div>
             </div>
             <div className="flex items-center gap-1">
               {/* Mobile Close Button */}
@@ -756,10 +774,10 @@ const PostModal: React.FC<PostModalProps> = ({ isOpen, onClose, post, canManage
                   {showOptions && (
                     <div className="absolute right-0 mt-1 w-40 bg-white border border-gray-100 rounded-lg shadow-xl z-20 overflow-hidden">
                       <button
-                        onClick={() => { setIsEditingCaption(true); setShowOptions(false); }}
+                        onClick={() => { setIsEditingPost(true); setShowOptions(false); }}
                         className="w-full text-left px-4 py-3 text-sm hover:bg-gray-50 border-b border-gray-100"
                       >
-                        Edit caption
+                        Edit post
                       </button>
                       <button
                         onClick={async () => {
@@ -803,58 +821,42 @@ const PostModal: React.FC<PostModalProps> = ({ isOpen, onClose, post, canManage
                   onError={(e) => { (e.currentTarget as HTMLImageElement).src = '/uploads/DefaultProfile.jpg'; }}
                 />
                 <div className="flex-1 min-w-0">
-                  {!isEditingCaption ? (
-                    <>
-                      <p className="text-xs">
-                        <span className="font-semibold mr-1.5">{post.authorName || 'Unknown User'}</span>
-                        <span
-                          className="text-gray-900"
-                          dangerouslySetInnerHTML={{ __html: parseCaption(displayContent) }}
-                        />
-                      </p>
-                      {shouldTruncate && (
-                        <button
-                          onClick={() => setShowFullCaption(!showFullCaption)}
-                          className="text-gray-400 text-sm mt-1"
-                        >
-                          {showFullCaption ? 'less' : 'more'}
-                        </button>
-                      )}
-                      <p className="text-xs text-gray-400 mt-2 uppercase tracking-wide">{post.timestamp}</p>
-                    </>
-                  ) : (
-                    <div className="w-full">
-                      <textarea
-                        className="w-full border border-gray-200 rounded p-2 text-sm focus:outline-none focus:border-gray-300"
-                        rows={3}
-                        maxLength={2200}
-                        value={editCaption}
-                        onChange={(e) => setEditCaption(e.target.value)}
-                      />
-                      <div className="flex items-center gap-2 mt-2">
-                        <button
-                          onClick={handleCaptionSave}
-                          disabled={isSavingCaption || !editCaption.trim()}
-                          className="px-4 py-1.5 rounded bg-blue-500 text-white text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
-                        >
-                          {isSavingCaption ? 'Saving...' : 'Save'}
-                        </button>
-                        <button
-                          onClick={() => { setIsEditingCaption(false); setEditCaption(post.content); }}
-                          className="px-4 py-1.5 rounded bg-gray-100 text-gray-700 text-sm"
-                        >
-                          Cancel
-                        </button>
-                      </div>
+                  <p className="text-xs">
+                    <span className="font-semibold mr-1.5">{post.authorName || 'Unknown User'}</span>
+                    <span
+                      className="text-gray-900"
+                      dangerouslySetInnerHTML={{ __html: parseCaption(displayContent) }}
+                    />
+                  </p>
+                  {shouldTruncate && (
+                    <button
+                      onClick={() => setShowFullCaption(!showFullCaption)}
+                      className="text-gray-400 text-sm mt-1"
+                    >
+                      {showFullCaption ? 'less' : 'more'}
+                    </button>
+                  )}
+                  <p className="text-xs text-gray-400 mt-2 uppercase tracking-wide">
+                    {post.timestamp}
+                    {post.audience && <span className="normal-case"> · {describeAudience(post.audience)}</span>}
+                    {post.editedAt && <span className="mx-1">·</span>}
+                    <PostEditHistory postId={post.id} editedAt={post.editedAt} className="uppercase" />
+                  </p>
+                  {post.event && <EventDetails postId={post.id} event={post.event} isOrganizer={canManage} className="mt-3" />}
+                  {post.poll && <PollDetails postId={post.id} poll={post.poll} isAuthor={canManage} className="mt-3" />}
+                  {post.quoteOf && (
+                    <div className="mt-3">
+                      <QuotedPost post={post.quotedPost ?? null} />
                     </div>
                   )}
+                  {post.internship && <InternshipDetails postId={post.id} internship={post.internship} className="mt-3" />}
                 </div>
               </div>
             </div>
           )}
 
           {/* Comments */}
-          <div className="flex-1 overflow-y-auto px-4 py-3">
+          <div id="comments" className="flex-1 overflow-y-auto px-4 py-3">
             {isLoadingComments && comments.length === 0 && (
               <div className="text-center text-gray-400 text-sm py-8">Loading comments...</div>
             )}
@@ -1075,13 +1077,24 @@ const PostModal: React.FC<PostModalProps> = ({ isOpen, onClose, post, canManage
                     <polygon points="22 2 15 22 11 13 2 9 22 2" />
                   </svg>
                 </button>
+
+                {/* Only public posts can be reposted */}
+                {post.authorId !== undefined && !post.audience && (
+                  <RepostButton
+                    post={{
+                      id: post.id,
+                      content: post.content,
+                      media: mediaItems,
+                      author: { id: post.authorId, name: post.authorName, profile_image: post.profilePic },
+                    }}
+                    initialReposted={post.userReposted}
+                    initialCount={post.repostCount}
+                    strokeColor="currentColor"
+                  />
+                )}
               </div>
 
-              <button className="hover:opacity-60 transition-opacity duration-fast">
-                <svg width="24" height="24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                  <path d="M19 21l-7-5-7 5V5a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2z" />
-                </svg>
-              </button>
+              <SaveButton postId={post.id} initialSaved={post.userSaved} strokeColor="currentColor" />
             </div>
 
             <div className="px-4 pb-2 border-b border-gray-100">
@@ -1155,6 +1168,15 @@ const PostModal: React.FC<PostModalProps> = ({ isOpen, onClose, post, canManage
           </div>
         </div>
       </div>
+
+      {canManage && (
+        <EditPostModal
+          isOpen={isEditingPost}
+          onClose={() => setIsEditingPost(false)}
+          post={{ id: post.id, content: post.content, category: post.category, place: post.place, event: post.event, internship: post.internship, audience: post.audience, poll: post.poll, media: mediaItems }}
+          onSaved={handlePostEdited}
+        />
+      )}
     </div>
   );
 };
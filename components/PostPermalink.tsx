@@ -0,0 +1,171 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import PostModal from './PostModal';
+import { useAuth } from '../contexts/AuthContext';
+import { fetchAPI } from '../lib/dataFetcher';
+import type { MediaItem } from '../lib/postMedia';
+import type { PlaceSummary } from '../lib/places';
+import type { EventView } from '../lib/events';
+import type { InternshipView } from '../lib/internships';
+import type { AudienceView } from '../lib/postAudience';
+import type { PollView } from '../lib/polls';
+import type { QuotedPostView } from '../lib/reposts';
+
+// A post as GET /api/posts/[postId] returns it
+export interface PermalinkPost {
+  id: number;
+  content: string;
+  category: string;
+  media_url?: string;
+  media_type?: string;
+  media?: MediaItem[];
+  place?: PlaceSummary | null;
+  aura_count: number;
+  comment_count: number;
+  user_liked: boolean;
+  user_saved?: boolean;
+  created_at: string;
+  edited_at?: string | null;
+  event?: EventView | null;
+  internship?: InternshipView | null;
+  audience?: AudienceView | null;
+  poll?: PollView | null;
+  quote_of?: number | null;
+  quoted_post?: QuotedPostView | null;
+  repost_count?: number;
+  user_reposted?: boolean;
+  author: {
+    id: number;
+    name: string;
+    department: string;
+    year: number;
+    profile_image?: string | null;
+  };
+}
+
+interface PostPermalinkProps {
+  postId: number;
+  // What a signed-out viewer sees; null when the post is private to them
+  initialPost: PermalinkPost | null;
+}
+
+/**
+ * The post behind a shared link (/post/[id]), shown with the same layout as
+ * the post modal. Signed-in viewers load it again with their own access, so
+ * followers and audience members see private posts; everyone else gets a
+ * "this post is private" shell. Links ending in #comments open at the
+ * comments.
+ */
+const PostPermalink: React.FC<PostPermalinkProps> = ({ postId, initialPost }) => {
+  const router = useRouter();
+  const { user, token, isLoading } = useAuth();
+  const [post, setPost] = useState<PermalinkPost | null>(initialPost);
+  const [loading, setLoading] = useState(true);
+  const [focusComments, setFocusComments] = useState(false);
+
+  useEffect(() => {
+    setFocusComments(window.location.hash === '#comments');
+  }, []);
+
+  useEffect(() => {
+    if (isLoading) return;
+    if (!token) {
+      setPost(initialPost);
+      setLoading(false);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    fetchAPI<{ post: PermalinkPost }>(`/api/posts/${postId}`, { token, skipCache: true })
+      .then((data) => {
+        if (!cancelled) setPost(data.post);
+      })
+      .catch(() => {
+        // Blocked, or not in the audience: the signed-out view doesn't apply either
+        if (!cancelled) setPost(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isLoading, token, postId, initialPost]);
+
+  // Kept stable so PostModal doesn't reset its local copy on every render
+  const modalPost = useMemo(() => post && {
+    id: post.id,
+    authorId: post.author.id,
+    authorName: post.author.name,
+    authorDept: post.author.department,
+    authorYear: post.author.year,
+    content: post.content,
+    category: post.category,
+    auraCount: post.aura_count,
+    commentCount: post.comment_count,
+    timestamp: new Date(post.created_at).toLocaleDateString(),
+    profilePic: post.author.profile_image || undefined,
+    mediaUrl: post.media_url,
+    mediaType: post.media_type as 'image' | 'video',
+    mediaCarousel: post.media,
+    userLiked: post.user_liked,
+    userSaved: post.user_saved,
+    location: post.place?.name,
+    place: post.place,
+    editedAt: post.edited_at,
+    event: post.event,
+    internship: post.internship,
+    audience: post.audience,
+    poll: post.poll,
+    quoteOf: post.quote_of,
+    quotedPost: post.quoted_post,
+    repostCount: post.repost_count,
+    userReposted: post.user_reposted,
+  }, [post]);
+
+  if (isLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="w-16 h-16 border-4 border-accent border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!post || !modalPost) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center px-4">
+        <div className="text-center space-y-3 max-w-sm">
+          <div className="w-16 h-16 mx-auto rounded-full bg-gray-100 flex items-center justify-center">
+            <svg className="w-7 h-7 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+            </svg>
+          </div>
+          <h1 className="text-xl font-bold text-text">This post is private</h1>
+          <p className="text-sm text-text-secondary">
+            It&apos;s from a private account or shared with a limited audience.
+            {user ? ' You don’t have access to it.' : ' Log in to see it if you have access.'}
+          </p>
+          <Link href={user ? '/' : '/landing'} className="btn-primary inline-block">
+            {user ? 'Back to feed' : 'Log in'}
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <PostModal
+      isOpen
+      inline
+      focusComments={focusComments}
+      onClose={() => router.push(user ? '/' : '/landing')}
+      canManage={!!user && user.id === post.author.id}
+      post={modalPost}
+    />
+  );
+};
+
+export default PostPermalink;
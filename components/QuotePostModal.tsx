@@ -0,0 +1,120 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { fetchAPI, dataFetcher } from '../lib/dataFetcher';
+import QuotedPost, { type QuotedPostPreview } from './QuotedPost';
+
+interface QuotePostModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // The post being quoted, shown under the caption as it will appear
+  post: QuotedPostPreview;
+}
+
+/**
+ * Write a caption and post it with someone's post quoted underneath. The new
+ * post goes out as the viewer's own, to everyone who can see their posts.
+ */
+export default function QuotePostModal({ isOpen, onClose, post }: QuotePostModalProps) {
+  const { token } = useAuth();
+  const { showToast } = useToast();
+  const [caption, setCaption] = useState('');
+  const [posting, setPosting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = 'hidden';
+      document.body.classList.add('modal-open');
+    } else {
+      document.body.style.overflow = '';
+      document.body.classList.remove('modal-open');
+      setCaption('');
+    }
+    return () => {
+      document.body.style.overflow = '';
+      document.body.classList.remove('modal-open');
+    };
+  }, [isOpen]);
+
+  const handlePost = async () => {
+    const trimmed = caption.trim();
+    if (!token || !trimmed || posting) return;
+
+    const formData = new FormData();
+    formData.append('caption', trimmed);
+    formData.append('category', 'general');
+    formData.append('quote_of', String(post.id));
+
+    setPosting(true);
+    try {
+      const data = await fetchAPI<{ post: unknown }>('/api/posts', {
+        method: 'POST',
+        token,
+        body: formData,
+        skipCache: true,
+        retries: 0,
+      });
+      dataFetcher.clearCache('/api/posts');
+      dataFetcher.clearCache('/api/users/me');
+      window.dispatchEvent(new CustomEvent('postCreated', { detail: data.post }));
+      showToast('Quote posted', 'success');
+      onClose();
+    } catch (error: any) {
+      showToast(error.message || 'Failed to quote post', 'error');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const modalContent = (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center p-4 bg-black/50" onClick={(e) => e.stopPropagation()}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md max-h-[80vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-gray-100 rounded-full transition-colors"
+            aria-label="Close"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+          <h2 className="text-lg font-semibold text-gray-900">Quote</h2>
+          <button
+            onClick={handlePost}
+            disabled={!caption.trim() || posting}
+            className={`text-sm font-semibold px-3 py-1 rounded-lg transition-colors ${
+              !caption.trim() || posting
+                ? 'text-gray-400 cursor-not-allowed'
+                : 'text-[#FFAF50] hover:text-orange-600'
+            }`}
+          >
+            {posting ? 'Posting...' : 'Post'}
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          <textarea
+            value={caption}
+            onChange={(e) => setCaption(e.target.value)}
+            placeholder="Add your thoughts..."
+            rows={3}
+            maxLength={2200}
+            autoFocus
+            className="w-full p-2 border border-gray-200 rounded-lg text-sm text-gray-900 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-[#FFAF50]"
+          />
+          <div className="pointer-events-none">
+            <QuotedPost post={post} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+
+  return typeof document !== 'undefined' ? createPortal(modalContent, document.body) : null;
+}
@@ -0,0 +1,70 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import type { QuotedPostView } from '../lib/reposts';
+
+// A post about to be quoted may not know when it was posted
+export type QuotedPostPreview = Omit<QuotedPostView, 'created_at'> & { created_at?: string };
+
+interface QuotedPostProps {
+  // null once the original was deleted, went private or its author turned reposts off
+  post: QuotedPostPreview | null;
+}
+
+/**
+ * The original shown under a quote post's caption, linking to its page
+ */
+const QuotedPost: React.FC<QuotedPostProps> = ({ post }) => {
+  if (!post) {
+    return (
+      <div className="border border-gray-200 rounded-xl px-3 py-4 text-sm text-gray-500 bg-gray-50">
+        This post is unavailable
+      </div>
+    );
+  }
+
+  const cover = post.media?.[0];
+
+  return (
+    <Link
+      href={`/post/${post.id}`}
+      onClick={(e) => e.stopPropagation()}
+      className="block border border-gray-200 rounded-xl overflow-hidden hover:bg-gray-50 transition-colors"
+    >
+      <div className="flex items-center gap-2 px-3 pt-3">
+        <div className="w-5 h-5 rounded-full overflow-hidden bg-gray-200 flex-shrink-0">
+          {post.author.profile_image && (
+            <Image src={post.author.profile_image} alt={post.author.name} width={20} height={20} className="w-full h-full object-cover" />
+          )}
+        </div>
+        <span className="text-sm font-semibold text-gray-900 truncate">{post.author.name}</span>
+        {post.created_at && (
+          <span className="text-xs text-gray-500 flex-shrink-0">· {new Date(post.created_at).toLocaleDateString()}</span>
+        )}
+      </div>
+      {post.content && (
+        <p className="px-3 pt-1 text-sm text-gray-900 line-clamp-3 whitespace-pre-line">{post.content}</p>
+      )}
+      {cover ? (
+        <div className="relative mt-2 w-full bg-black" style={{ maxHeight: '280px' }}>
+          {cover.type === 'video' ? (
+            <video src={cover.url} muted playsInline preload="metadata" className="w-full h-auto object-contain" style={{ maxHeight: '280px' }} />
+          ) : (
+            <Image src={cover.url} alt="Quoted post media" width={600} height={600} className="w-full h-auto object-contain" style={{ maxHeight: '280px' }} />
+          )}
+          {post.media.length > 1 && (
+            <div className="absolute top-2 right-2 bg-black/60 text-white text-xs px-2 py-0.5 rounded-full">
+              1/{post.media.length}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="pb-3" />
+      )}
+    </Link>
+  );
+};
+
+export default QuotedPost;
@@ -0,0 +1,152 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { fetchAPI, dataFetcher } from '../lib/dataFetcher';
+import QuotePostModal from './QuotePostModal';
+import type { QuotedPostPreview } from './QuotedPost';
+
+interface RepostButtonProps {
+  // The post as a quote would show it
+  post: QuotedPostPreview;
+  initialReposted?: boolean;
+  initialCount?: number;
+  strokeColor?: string;
+}
+
+interface RepostChangedDetail {
+  postId: number;
+  reposted: boolean;
+  count: number;
+}
+
+/**
+ * Repost menu for a post: repost it to your followers (or undo that) or quote
+ * it in a post of your own. Your own posts can only be quoted. Other buttons
+ * for the same post stay in sync through the `postRepostChanged` event.
+ */
+const RepostButton: React.FC<RepostButtonProps> = ({ post, initialReposted, initialCount, strokeColor = '#000000' }) => {
+  const { token, user } = useAuth();
+  const { showToast } = useToast();
+  const [reposted, setReposted] = useState(!!initialReposted);
+  const [count, setCount] = useState(initialCount || 0);
+  const [busy, setBusy] = useState(false);
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [quoting, setQuoting] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const isOwnPost = !!user && user.id === post.author.id;
+
+  useEffect(() => {
+    setReposted(!!initialReposted);
+  }, [initialReposted]);
+
+  useEffect(() => {
+    setCount(initialCount || 0);
+  }, [initialCount]);
+
+  useEffect(() => {
+    const handleRepostChanged = (event: Event) => {
+      const detail = (event as CustomEvent<RepostChangedDetail>).detail;
+      if (detail?.postId !== post.id) return;
+      setReposted(detail.reposted);
+      setCount(detail.count);
+    };
+    window.addEventListener('postRepostChanged', handleRepostChanged);
+    return () => window.removeEventListener('postRepostChanged', handleRepostChanged);
+  }, [post.id]);
+
+  useEffect(() => {
+    if (!menuOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) setMenuOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [menuOpen]);
+
+  const handleRepost = async () => {
+    if (!token || busy) return;
+    setMenuOpen(false);
+    setBusy(true);
+    try {
+      const data = await fetchAPI<{ post_id: number; reposted: boolean; repost_count: number }>(`/api/posts/${post.id}/repost`, {
+        method: reposted ? 'DELETE' : 'PUT',
+        token,
+        skipCache: true,
+        retries: 0,
+      });
+      setReposted(data.reposted);
+      setCount(data.repost_count);
+      dataFetcher.clearCache('/api/posts');
+      window.dispatchEvent(new CustomEvent<RepostChangedDetail>('postRepostChanged', {
+        detail: { postId: post.id, reposted: data.reposted, count: data.repost_count },
+      }));
+      showToast(data.reposted ? 'Reposted to your followers' : 'Repost removed', 'success');
+    } catch (error: any) {
+      showToast(error.message || 'Failed to update repost', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="relative flex items-center gap-1" ref={menuRef} onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => setMenuOpen((open) => !open)}
+        disabled={busy || !token}
+        className="hover:opacity-60 transition-opacity duration-fast"
+        aria-label="Repost or quote"
+        aria-pressed={reposted}
+        aria-haspopup="menu"
+      >
+        <svg
+          width="24"
+          height="24"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke={reposted ? '#FFAF50' : strokeColor}
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <polyline points="17 1 21 5 17 9" />
+          <path d="M3 11V9a4 4 0 0 1 4-4h14" />
+          <polyline points="7 23 3 19 7 15" />
+          <path d="M21 13v2a4 4 0 0 1-4 4H3" />
+        </svg>
+      </button>
+      {count > 0 && <span className="text-sm text-gray-700">{count}</span>}
+
+      {menuOpen && (
+        <div role="menu" className="absolute left-0 bottom-full mb-2 w-44 bg-white border border-gray-100 rounded-xl shadow-lg z-30 py-1 text-left">
+          {!isOwnPost && (
+            <button
+              type="button"
+              role="menuitem"
+              onClick={handleRepost}
+              className="w-full px-3 py-2 text-sm text-gray-900 hover:bg-gray-50 text-left"
+            >
+              {reposted ? 'Undo repost' : 'Repost'}
+            </button>
+          )}
+          <button
+            type="button"
+            role="menuitem"
+            onClick={() => {
+              setMenuOpen(false);
+              setQuoting(true);
+            }}
+            className="w-full px-3 py-2 text-sm text-gray-900 hover:bg-gray-50 text-left"
+          >
+            Quote
+          </button>
+        </div>
+      )}
+
+      <QuotePostModal isOpen={quoting} onClose={() => setQuoting(false)} post={post} />
+    </div>
+  );
+};
+
+export default RepostButton;
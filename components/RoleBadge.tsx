@@ -0,0 +1,34 @@
+'use client';
+
+import React from 'react';
+import { ROLE_LABELS, UserRole } from '../lib/roles';
+
+interface RoleBadgeProps {
+  role?: UserRole | null;
+  className?: string;
+}
+
+const ROLE_STYLES: Record<Exclude<UserRole, 'student'>, string> = {
+  faculty: 'bg-blue-100 text-blue-700',
+  staff: 'bg-green-100 text-green-700',
+  alumni: 'bg-purple-100 text-purple-700',
+  admin: 'bg-red-100 text-red-700',
+};
+
+/**
+ * Small pill shown next to a verified user's name. Students (the default) get none.
+ */
+const RoleBadge: React.FC<RoleBadgeProps> = ({ role, className = '' }) => {
+  if (!role || role === 'student') return null;
+
+  return (
+    <span
+      title={`Verified ${ROLE_LABELS[role].toLowerCase()}`}
+      className={`inline-flex items-center px-1.5 py-0.5 text-[10px] font-semibold leading-none rounded-full align-middle ${ROLE_STYLES[role]} ${className}`}
+    >
+      {ROLE_LABELS[role]}
+    </span>
+  );
+};
+
+export default RoleBadge;
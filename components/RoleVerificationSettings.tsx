@@ -0,0 +1,176 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { fetchAPI } from '../lib/dataFetcher';
+import { REQUESTABLE_ROLES, ROLE_LABELS, RequestableRole, UserRole, hasPermission } from '../lib/roles';
+import RoleBadge from './RoleBadge';
+
+interface RoleVerificationSettingsProps {
+  token: string | null;
+  onMessage: (message: string) => void;
+  onError: (error: string) => void;
+}
+
+interface PendingRoleRequest {
+  id: number;
+  requested_role: RequestableRole;
+  note: string | null;
+  created_at: string;
+}
+
+interface RoleStatus {
+  role: UserRole;
+  pending_request: PendingRoleRequest | null;
+}
+
+const inputClassName = 'w-full px-4 py-2.5 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-[#FFAF50] focus:border-transparent outline-none';
+
+/**
+ * Settings card showing the user's verified role and letting faculty, staff
+ * and alumni ask an admin to verify theirs.
+ */
+const RoleVerificationSettings: React.FC<RoleVerificationSettingsProps> = ({ token, onMessage, onError }) => {
+  const [status, setStatus] = useState<RoleStatus | null>(null);
+  const [requestedRole, setRequestedRole] = useState<RequestableRole>('faculty');
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const requestableRoles = REQUESTABLE_ROLES.filter((role) => role !== status?.role);
+  const selectedRole = requestableRoles.includes(requestedRole) ? requestedRole : requestableRoles[0];
+
+  useEffect(() => {
+    const loadStatus = async () => {
+      if (!token) return;
+      try {
+        const data = await fetchAPI<RoleStatus>('/api/users/me/role', { token, skipCache: true });
+        setStatus(data);
+      } catch (err: any) {
+        console.error('Failed to load role status:', err);
+      }
+    };
+    loadStatus();
+  }, [token]);
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+    setBusy(true);
+    try {
+      const data = await fetchAPI<{ pending_request: PendingRoleRequest; message: string }>('/api/users/me/role', {
+        method: 'POST',
+        token,
+        skipCache: true,
+        retries: 0,
+        body: JSON.stringify({ role: selectedRole, note: note.trim() }),
+      });
+      setStatus((prev) => prev ? { ...prev, pending_request: data.pending_request } : prev);
+      setNote('');
+      onMessage(data.message || 'Request sent');
+    } catch (err: any) {
+      onError(err.message || 'Failed to send request');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (!token) return;
+    setBusy(true);
+    try {
+      await fetchAPI('/api/users/me/role', { method: 'DELETE', token, skipCache: true, retries: 0 });
+      setStatus((prev) => prev ? { ...prev, pending_request: null } : prev);
+      onMessage('Request withdrawn');
+    } catch (err: any) {
+      onError(err.message || 'Failed to withdraw request');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <svg className="w-5 h-5 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+          </svg>
+          Campus role
+        </h3>
+        {status && <RoleBadge role={status.role} />}
+      </div>
+
+      <div className="p-6 space-y-4">
+        {!status ? (
+          <div className="flex items-center justify-center py-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-4 border-orange-500 border-t-transparent"></div>
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              {status.role === 'student'
+                ? 'Faculty, staff and alumni can ask to be verified. Verified roles get a badge, and faculty and staff can post academic announcements.'
+                : `You're verified as ${ROLE_LABELS[status.role]}.`}
+            </p>
+
+            {hasPermission(status.role, 'review_roles') && (
+              <Link href="/admin/roles" className="inline-block text-sm font-semibold text-[#FFAF50] hover:text-orange-600">
+                Review role requests →
+              </Link>
+            )}
+
+            {hasPermission(status.role, 'manage_places') && (
+              <Link href="/admin/places" className="inline-block text-sm font-semibold text-[#FFAF50] hover:text-orange-600">
+                Manage campus places →
+              </Link>
+            )}
+
+            {status.pending_request ? (
+              <div className="p-4 bg-orange-50 border border-orange-200 rounded-xl flex items-center justify-between gap-4">
+                <p className="text-sm text-gray-700">
+                  Your request to be verified as <strong>{ROLE_LABELS[status.pending_request.requested_role]}</strong> is waiting for an admin.
+                </p>
+                <button
+                  onClick={handleWithdraw}
+                  disabled={busy}
+                  className="px-4 py-1.5 bg-white hover:bg-gray-50 text-gray-700 text-sm font-semibold rounded-lg border border-gray-300 disabled:opacity-50"
+                >
+                  Withdraw
+                </button>
+              </div>
+            ) : requestableRoles.length > 0 && status.role !== 'admin' && (
+              <form onSubmit={handleRequest} className="space-y-3">
+                <select
+                  value={selectedRole}
+                  onChange={(e) => setRequestedRole(e.target.value as RequestableRole)}
+                  className={inputClassName}
+                >
+                  {requestableRoles.map((role) => (
+                    <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+                <textarea
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  maxLength={500}
+                  rows={2}
+                  className={`${inputClassName} resize-none`}
+                  placeholder="Anything that helps an admin confirm it (staff ID, graduation year...)"
+                />
+                <button
+                  type="submit"
+                  disabled={busy}
+                  className="px-5 py-2 bg-[#FFAF50] hover:bg-orange-500 text-black text-sm font-semibold rounded-lg transition-colors disabled:opacity-50"
+                >
+                  {busy ? 'Sending...' : 'Request verification'}
+                </button>
+              </form>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RoleVerificationSettings;
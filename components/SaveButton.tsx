@@ -0,0 +1,228 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { fetchAPI } from '../lib/dataFetcher';
+import { MAX_COLLECTION_NAME_LENGTH, SavedCollectionView } from '../lib/savedPosts';
+
+interface SaveButtonProps {
+  postId: number;
+  // Left out where the caller doesn't know; the button then asks the API
+  initialSaved?: boolean;
+  strokeColor?: string;
+}
+
+interface SaveChangedDetail {
+  postId: number;
+  saved: boolean;
+}
+
+/**
+ * Bookmark toggle for a post. After saving, a small menu offers filing the post
+ * into one of the viewer's collections. Other buttons for the same post (feed
+ * card and open modal) stay in sync through the `postSaveChanged` event.
+ */
+const SaveButton: React.FC<SaveButtonProps> = ({ postId, initialSaved, strokeColor = '#000000' }) => {
+  const { token } = useAuth();
+  const { showToast } = useToast();
+  const [saved, setSaved] = useState(!!initialSaved);
+  const [busy, setBusy] = useState(false);
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [collections, setCollections] = useState<SavedCollectionView[] | null>(null);
+  const [collectionId, setCollectionId] = useState<number | null>(null);
+  const [newName, setNewName] = useState('');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (initialSaved !== undefined) setSaved(initialSaved);
+  }, [initialSaved]);
+
+  useEffect(() => {
+    if (initialSaved !== undefined || !token) return;
+    let cancelled = false;
+    fetchAPI<{ saved: boolean; collection_id: number | null }>(`/api/users/me/saved/${postId}`, { token, skipCache: true })
+      .then((data) => {
+        if (cancelled) return;
+        setSaved(data.saved);
+        setCollectionId(data.collection_id);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [postId, initialSaved, token]);
+
+  useEffect(() => {
+    const handleSaveChanged = (event: Event) => {
+      const detail = (event as CustomEvent<SaveChangedDetail>).detail;
+      if (detail?.postId === postId) setSaved(detail.saved);
+    };
+    window.addEventListener('postSaveChanged', handleSaveChanged);
+    return () => window.removeEventListener('postSaveChanged', handleSaveChanged);
+  }, [postId]);
+
+  useEffect(() => {
+    if (!menuOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) setMenuOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [menuOpen]);
+
+  const announce = (nowSaved: boolean) => {
+    window.dispatchEvent(new CustomEvent<SaveChangedDetail>('postSaveChanged', { detail: { postId, saved: nowSaved } }));
+  };
+
+  const loadCollections = useCallback(async () => {
+    if (!token) return;
+    try {
+      const data = await fetchAPI<{ collections: SavedCollectionView[] }>('/api/users/me/collections', { token, skipCache: true });
+      setCollections(data.collections || []);
+    } catch {
+      setCollections([]);
+    }
+  }, [token]);
+
+  const handleToggle = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!token || busy) return;
+
+    const nowSaved = !saved;
+    setBusy(true);
+    setSaved(nowSaved);
+    try {
+      if (nowSaved) {
+        await fetchAPI('/api/users/me/saved', {
+          method: 'POST',
+          token,
+          skipCache: true,
+          retries: 0,
+          body: JSON.stringify({ post_id: postId }),
+        });
+        setCollectionId(null);
+        setMenuOpen(true);
+        loadCollections();
+      } else {
+        await fetchAPI(`/api/users/me/saved/${postId}`, { method: 'DELETE', token, skipCache: true, retries: 0 });
+        setMenuOpen(false);
+      }
+      announce(nowSaved);
+    } catch (error: any) {
+      setSaved(!nowSaved);
+      showToast(error.message || 'Failed to update saved posts', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const fileInto = async (targetId: number | null) => {
+    if (!token) return;
+    try {
+      await fetchAPI(`/api/users/me/saved/${postId}`, {
+        method: 'PATCH',
+        token,
+        skipCache: true,
+        retries: 0,
+        body: JSON.stringify({ collection_id: targetId }),
+      });
+      setCollectionId(targetId);
+      const name = collections?.find((c) => c.id === targetId)?.name;
+      showToast(name ? `Saved to ${name}` : 'Removed from collection', 'success');
+      setMenuOpen(false);
+    } catch (error: any) {
+      showToast(error.message || 'Failed to move post', 'error');
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const name = newName.trim();
+    if (!token || !name) return;
+    try {
+      const data = await fetchAPI<{ collection: SavedCollectionView }>('/api/users/me/collections', {
+        method: 'POST',
+        token,
+        skipCache: true,
+        retries: 0,
+        body: JSON.stringify({ name }),
+      });
+      setCollections((prev) => [...(prev || []), data.collection]);
+      setNewName('');
+      await fileInto(data.collection.id);
+    } catch (error: any) {
+      showToast(error.message || 'Failed to create collection', 'error');
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef} onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={handleToggle}
+        disabled={busy}
+        className="hover:opacity-60 transition-opacity duration-fast"
+        aria-label={saved ? 'Remove from saved' : 'Save post'}
+        aria-pressed={saved}
+      >
+        <svg
+          width="24"
+          height="24"
+          viewBox="0 0 24 24"
+          fill={saved ? strokeColor : 'none'}
+          stroke={strokeColor}
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <path d="M19 21l-7-5-7 5V5a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2z" />
+        </svg>
+      </button>
+
+      {menuOpen && saved && (
+        <div className="absolute right-0 bottom-full mb-2 w-60 bg-white border border-gray-100 rounded-xl shadow-lg z-30 text-left">
+          <div className="px-3 py-2 border-b border-gray-100 text-xs font-semibold text-gray-500">Save to collection</div>
+          <div className="max-h-48 overflow-y-auto py-1">
+            {collections === null ? (
+              <div className="px-3 py-2 text-xs text-gray-400">Loading...</div>
+            ) : collections.length === 0 ? (
+              <div className="px-3 py-2 text-xs text-gray-400">No collections yet</div>
+            ) : (
+              collections.map((collection) => (
+                <button
+                  key={collection.id}
+                  type="button"
+                  onClick={() => fileInto(collection.id === collectionId ? null : collection.id)}
+                  className="w-full flex items-center justify-between px-3 py-2 text-sm text-gray-900 hover:bg-gray-50"
+                >
+                  <span className="truncate">{collection.name}</span>
+                  {collection.id === collectionId && <span className="text-[#FFAF50] text-xs font-semibold">✓</span>}
+                </button>
+              ))
+            )}
+          </div>
+          <form onSubmit={handleCreate} className="flex gap-1.5 p-2 border-t border-gray-100">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="New collection"
+              maxLength={MAX_COLLECTION_NAME_LENGTH}
+              className="flex-1 min-w-0 text-sm border border-gray-200 rounded-lg px-2 py-1 text-gray-900 placeholder-gray-400 focus:outline-none focus:ring-1 focus:ring-[#FFAF50]"
+            />
+            <button
+              type="submit"
+              disabled={!newName.trim()}
+              className="px-2 py-1 text-xs font-semibold text-black bg-[#FFAF50] hover:bg-orange-500 rounded-lg disabled:opacity-50"
+            >
+              Add
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SaveButton;
@@ -0,0 +1,316 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { fetchAPI } from '../lib/dataFetcher';
+import { SavedCollectionView, validateCollectionName } from '../lib/savedPosts';
+
+const PAGE_SIZE = 24;
+
+interface SavedPostsPanelProps<T extends { id: number }> {
+  renderTile: (post: T) => React.ReactNode;
+  // Keeps the profile page's copy (used by the mobile full-screen list) current
+  onPostsChange?: (posts: T[]) => void;
+}
+
+/**
+ * The Saved tab of your own profile: collections along the top, the saved
+ * posts of the selected one below, and an Organize mode for moving and
+ * reordering them
+ */
+function SavedPostsPanel<T extends { id: number }>({ renderTile, onPostsChange }: SavedPostsPanelProps<T>) {
+  const { token } = useAuth();
+  const { showToast } = useToast();
+  const [collections, setCollections] = useState<SavedCollectionView[]>([]);
+  // undefined shows everything saved
+  const [selectedId, setSelectedId] = useState<number | undefined>(undefined);
+  const [posts, setPosts] = useState<T[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  // Offset into the saved list; can run ahead of posts.length when some saved
+  // posts are hidden (e.g. their author deactivated)
+  const [nextOffset, setNextOffset] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [organizing, setOrganizing] = useState(false);
+  const [busyPostId, setBusyPostId] = useState<number | null>(null);
+
+  const selected = collections.find((c) => c.id === selectedId);
+
+  const loadCollections = useCallback(async () => {
+    if (!token) return;
+    try {
+      const data = await fetchAPI<{ collections: SavedCollectionView[] }>('/api/users/me/collections', { token, skipCache: true });
+      setCollections(data.collections || []);
+    } catch (error) {
+      console.error('Error fetching collections:', error);
+    }
+  }, [token]);
+
+  const loadPosts = useCallback(async (offset: number) => {
+    if (!token) return;
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+      if (selectedId !== undefined) params.set('collection_id', String(selectedId));
+      const data = await fetchAPI<{ posts: T[]; has_more: boolean }>(`/api/users/me/saved?${params}`, { token, skipCache: true });
+      setPosts((prev) => {
+        if (offset === 0) return data.posts || [];
+        const seen = new Set(prev.map((p) => p.id));
+        return [...prev, ...(data.posts || []).filter((p) => !seen.has(p.id))];
+      });
+      setHasMore(!!data.has_more);
+      setNextOffset(offset + PAGE_SIZE);
+    } catch (error) {
+      console.error('Error fetching saved posts:', error);
+      if (offset === 0) setPosts([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [token, selectedId]);
+
+  useEffect(() => {
+    loadCollections();
+  }, [loadCollections]);
+
+  useEffect(() => {
+    loadPosts(0);
+  }, [loadPosts]);
+
+  useEffect(() => {
+    onPostsChange?.(posts);
+  }, [posts, onPostsChange]);
+
+  // Unsaving from an open post takes it off this list too
+  useEffect(() => {
+    const handleSaveChanged = (event: Event) => {
+      const { postId, saved } = (event as CustomEvent<{ postId: number; saved: boolean }>).detail || {};
+      if (saved === false) {
+        setPosts((prev) => prev.filter((p) => p.id !== postId));
+        setNextOffset((n) => Math.max(n - 1, 0));
+        loadCollections();
+      }
+    };
+    window.addEventListener('postSaveChanged', handleSaveChanged);
+    return () => window.removeEventListener('postSaveChanged', handleSaveChanged);
+  }, [loadCollections]);
+
+  const handleCreate = async () => {
+    const name = prompt('Name your collection, e.g. "Exam notes"');
+    if (name === null || !token) return;
+    const validation = validateCollectionName(name);
+    if (!validation.valid) {
+      showToast(validation.message || 'Invalid collection name', 'error');
+      return;
+    }
+    try {
+      const data = await fetchAPI<{ collection: SavedCollectionView }>('/api/users/me/collections', {
+        method: 'POST',
+        token,
+        skipCache: true,
+        retries: 0,
+        body: JSON.stringify({ name: validation.name }),
+      });
+      setCollections((prev) => [...prev, data.collection]);
+      setSelectedId(data.collection.id);
+    } catch (error: any) {
+      showToast(error.message || 'Failed to create collection', 'error');
+    }
+  };
+
+  const handleRename = async () => {
+    if (!selected || !token) return;
+    const name = prompt('Rename collection', selected.name);
+    if (name === null || name.trim() === selected.name) return;
+    try {
+      await fetchAPI(`/api/users/me/collections/${selected.id}`, {
+        method: 'PATCH',
+        token,
+        skipCache: true,
+        retries: 0,
+        body: JSON.stringify({ name }),
+      });
+      loadCollections();
+    } catch (error: any) {
+      showToast(error.message || 'Failed to rename collection', 'error');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !token) return;
+    if (!confirm(`Delete "${selected.name}"? Its posts stay in your saved posts.`)) return;
+    try {
+      await fetchAPI(`/api/users/me/collections/${selected.id}`, { method: 'DELETE', token, skipCache: true, retries: 0 });
+      setCollections((prev) => prev.filter((c) => c.id !== selected.id));
+      setSelectedId(undefined);
+    } catch (error: any) {
+      showToast(error.message || 'Failed to delete collection', 'error');
+    }
+  };
+
+  const patchSaved = async (postId: number, body: { collection_id?: number | null; before_post_id?: number | null }) => {
+    if (!token) return false;
+    setBusyPostId(postId);
+    try {
+      await fetchAPI(`/api/users/me/saved/${postId}`, {
+        method: 'PATCH',
+        token,
+        skipCache: true,
+        retries: 0,
+        body: JSON.stringify(body),
+      });
+      return true;
+    } catch (error: any) {
+      showToast(error.message || 'Failed to update saved post', 'error');
+      return false;
+    } finally {
+      setBusyPostId(null);
+    }
+  };
+
+  const handleMove = async (postId: number, value: string) => {
+    const target = value === 'none' ? null : parseInt(value, 10);
+    if (!(await patchSaved(postId, { collection_id: target }))) return;
+    if (selectedId !== undefined && target !== selectedId) {
+      setPosts((prev) => prev.filter((p) => p.id !== postId));
+      setNextOffset((n) => Math.max(n - 1, 0));
+    }
+    loadCollections();
+  };
+
+  // Swap with a neighbour; the API places the post just above `before_post_id`
+  const handleShift = async (index: number, direction: -1 | 1) => {
+    const post = posts[index];
+    const target = index + direction;
+    if (!post || target < 0 || target >= posts.length) return;
+    const before = direction === -1 ? posts[target].id : posts[target + 1]?.id ?? null;
+    if (!(await patchSaved(post.id, { before_post_id: before }))) return;
+    setPosts((prev) => {
+      const next = [...prev];
+      next.splice(index, 1);
+      next.splice(target, 0, post);
+      return next;
+    });
+  };
+
+  const canReorder = organizing && selectedId !== undefined;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 overflow-x-auto pb-1">
+        <button
+          onClick={() => setSelectedId(undefined)}
+          className={`shrink-0 px-3 py-1.5 rounded-full text-xs border ${selectedId === undefined ? 'border-gray-900 text-gray-900' : 'border-gray-200 text-gray-600'} transition-colors`}
+        >
+          All posts
+        </button>
+        {collections.map((collection) => (
+          <button
+            key={collection.id}
+            onClick={() => setSelectedId(collection.id)}
+            className={`shrink-0 px-3 py-1.5 rounded-full text-xs border ${selectedId === collection.id ? 'border-gray-900 text-gray-900' : 'border-gray-200 text-gray-600'} transition-colors`}
+          >
+            {collection.name} <span className="text-gray-400">{collection.post_count}</span>
+          </button>
+        ))}
+        <button
+          onClick={handleCreate}
+          className="shrink-0 px-3 py-1.5 rounded-full text-xs border border-dashed border-gray-300 text-gray-600 hover:text-gray-900"
+        >
+          + New collection
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-gray-500">Only you can see what you&apos;ve saved.</span>
+        <div className="flex items-center gap-3">
+          {selected && (
+            <>
+              <button onClick={handleRename} className="text-gray-600 hover:text-gray-900">Rename</button>
+              <button onClick={handleDelete} className="text-red-600 hover:text-red-700">Delete</button>
+            </>
+          )}
+          {posts.length > 0 && (
+            <button
+              onClick={() => setOrganizing(!organizing)}
+              className={`font-semibold ${organizing ? 'text-[#FFAF50]' : 'text-gray-900'}`}
+            >
+              {organizing ? 'Done' : 'Organize'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {loading && posts.length === 0 ? (
+        <div className="flex items-center justify-center py-16">
+          <div className="w-8 h-8 border-4 border-gray-200 border-t-[#FFAF50] rounded-full animate-spin"></div>
+        </div>
+      ) : posts.length === 0 ? (
+        <div className="text-center py-16">
+          <div className="text-gray-600 text-lg font-light mb-2">{selected ? `Nothing in ${selected.name} yet` : 'No saved posts yet'}</div>
+          <div className="text-gray-500 text-sm">Save posts you want to see again. Only you can see what you&apos;ve saved.</div>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-1 md:gap-4">
+            {posts.map((post, index) => (
+              <div key={post.id} className="relative">
+                {renderTile(post)}
+                {organizing && (
+                  <div className="absolute inset-x-0 bottom-0 p-1.5 bg-black/60 rounded-b-2xl flex items-center gap-1">
+                    {canReorder && (
+                      <>
+                        <button
+                          onClick={() => handleShift(index, -1)}
+                          disabled={index === 0 || busyPostId === post.id}
+                          className="w-6 h-6 rounded bg-white/90 text-gray-900 text-xs disabled:opacity-40"
+                          aria-label="Move earlier"
+                        >
+                          ↑
+                        </button>
+                        <button
+                          onClick={() => handleShift(index, 1)}
+                          // Past the last loaded post the API would need a neighbour we haven't fetched
+                          disabled={index === posts.length - 1 || (hasMore && index === posts.length - 2) || busyPostId === post.id}
+                          className="w-6 h-6 rounded bg-white/90 text-gray-900 text-xs disabled:opacity-40"
+                          aria-label="Move later"
+                        >
+                          ↓
+                        </button>
+                      </>
+                    )}
+                    <select
+                      value=""
+                      onChange={(e) => handleMove(post.id, e.target.value)}
+                      disabled={busyPostId === post.id}
+                      className="flex-1 min-w-0 text-xs rounded bg-white/90 text-gray-900 px-1 py-1"
+                      aria-label="Move to collection"
+                    >
+                      <option value="" disabled>Move to…</option>
+                      {collections.filter((c) => c.id !== selectedId).map((c) => (
+                        <option key={c.id} value={c.id}>{c.name}</option>
+                      ))}
+                      {selectedId !== undefined && <option value="none">No collection</option>}
+                    </select>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+          {hasMore && (
+            <div className="flex justify-center">
+              <button
+                onClick={() => loadPosts(nextOffset)}
+                disabled={loading}
+                className="px-4 py-2 text-sm font-semibold text-gray-900 border border-gray-200 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                {loading ? 'Loading...' : 'Load more'}
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default SavedPostsPanel;
@@ -5,6 +5,7 @@ import { useAuth } from '../contexts/AuthContext'
 import { fetchAPI } from '../lib/dataFetcher'
 import FollowButton from './FollowButton'
 import Image from 'next/image'
+import { PLACE_KIND_LABELS, type PlaceKind } from '../lib/places'
 // Types for search results
 interface SearchUser {
     id: number
@@ -38,6 +39,7 @@ interface SearchHashtag {
 interface SearchLocation {
     id: string
     name: string
+    kind: PlaceKind
     count: number
 }
 interface SearchResult {
@@ -378,12 +380,12 @@ export default function SearchModal({ isOpen, onClose, variant = 'modal' }: Sear
             users: activeTab === 'accounts' ? results.users : (activeTab === 'all' ? results.users : []),
             posts: [], // Posts are not searchable
             hashtags: activeTab === 'hashtags' ? (results.hashtags || []) : (activeTab === 'all' ? (results.hashtags || []) : []),
-            locations: results.locations || []
+            locations: activeTab === 'all' ? (results.locations || []) : []
         }
     }, [results, activeTab])
     const hasResults = useMemo(() => {
         if (activeTab === 'all') {
-            return filteredResults.users.length > 0 || filteredResults.hashtags.length > 0
+            return filteredResults.users.length > 0 || filteredResults.hashtags.length > 0 || filteredResults.locations.length > 0
         }
         if (activeTab === 'accounts') return filteredResults.users.length > 0
         if (activeTab === 'hashtags') return filteredResults.hashtags.length > 0
@@ -518,6 +520,39 @@ export default function SearchModal({ isOpen, onClose, variant = 'modal' }: Sear
                                             ))}
                                         </div>
                                     )}
+                                    {filteredResults.locations.length > 0 && (
+                                        <div className="mt-2">
+                                            {filteredResults.locations.map((location) => (
+                                                <div
+                                                    key={location.id}
+                                                    className="px-4 py-3 hover:bg-gray-50 cursor-pointer transition-colors"
+                                                    onClick={() => {
+                                                        saveRecentSearch({
+                                                            type: 'location',
+                                                            value: location.id,
+                                                            displayName: location.name,
+                                                            timestamp: Date.now()
+                                                        })
+                                                        router.push(`/explore/locations/${location.id}`)
+                                                        onClose()
+                                                    }}
+                                                >
+                                                    <div className="flex items-center gap-3">
+                                                        <div className="w-12 h-12 rounded-full bg-gray-100 flex items-center justify-center">
+                                                            <svg className="w-6 h-6 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+                                                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
+                                                            </svg>
+                                                        </div>
+                                                        <div>
+                                                            <p className="font-semibold text-gray-900">{location.name}</p>
+                                                            <p className="text-gray-500 text-sm">{PLACE_KIND_LABELS[location.kind]} · {location.count} posts</p>
+                                                        </div>
+                                                    </div>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
                                 </div>
                             )}
                         </>
@@ -683,6 +718,39 @@ export default function SearchModal({ isOpen, onClose, variant = 'modal' }: Sear
                                             ))}
                                         </div>
                                     )}
+                                    {filteredResults.locations.length > 0 && (
+                                        <div className="mt-2">
+                                            {filteredResults.locations.map((location) => (
+                                                <div
+                                                    key={location.id}
+                                                    className="px-4 py-3 hover:bg-gray-50 cursor-pointer transition-colors"
+                                                    onClick={() => {
+                                                        saveRecentSearch({
+                                                            type: 'location',
+                                                            value: location.id,
+                                                            displayName: location.name,
+                                                            timestamp: Date.now()
+                                                        })
+                                                        router.push(`/explore/locations/${location.id}`)
+                                                        onClose()
+                                                    }}
+                                                >
+                                                    <div className="flex items-center gap-3">
+                                                        <div className="w-12 h-12 rounded-full bg-gray-100 flex items-center justify-center">
+                                                            <svg className="w-6 h-6 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+                                                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
+                                                            </svg>
+                                                        </div>
+                                                        <div>
+                                                            <p className="font-semibold text-gray-900">{location.name}</p>
+                                                            <p className="text-gray-500 text-sm">{PLACE_KIND_LABELS[location.kind]} · {location.count} posts</p>
+                                                        </div>
+                                                    </div>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
                                 </div>
                             )}
                         </>
@@ -816,6 +884,8 @@ export function EmbeddedSearch({ className = '' }: { className?: string }) {
             router.push(`/profile/${search.value}`)
         } else if (search.type === 'hashtag') {
             router.push(`/explore/tags/${search.value}`)
+        } else if (search.type === 'location') {
+            router.push(`/explore/locations/${search.value}`)
         } else {
             setSearchQuery(search.value)
         }
@@ -887,7 +957,7 @@ export function EmbeddedSearch({ className = '' }: { className?: string }) {
                     {/* Search Results */}
                     {showResults && !loading && (
                         <>
-                            {results.users.length === 0 && (results.hashtags || []).length === 0 ? (
+                            {results.users.length === 0 && (results.hashtags || []).length === 0 && (results.locations || []).length === 0 ? (
                                 <div className="py-8 text-center text-gray-500 text-sm">
                                     No results found
                                 </div>
@@ -934,6 +1004,40 @@ export function EmbeddedSearch({ className = '' }: { className?: string }) {
                                             ))}
                                         </div>
                                     )}
+                                    {(results.locations || []).slice(0, 5).length > 0 && (
+                                        <div className="border-t border-gray-100">
+                                            {(results.locations || []).slice(0, 5).map((location) => (
+                                                <div
+                                                    key={location.id}
+                                                    className="px-4 py-3 hover:bg-gray-50 cursor-pointer transition-colors"
+                                                    onClick={() => {
+                                                        saveRecentSearch({
+                                                            type: 'location',
+                                                            value: location.id,
+                                                            displayName: location.name,
+                                                            timestamp: Date.now()
+                                                        })
+                                                        setIsExpanded(false)
+                                                        setSearchQuery('')
+                                                        router.push(`/explore/locations/${location.id}`)
+                                                    }}
+                                                >
+                                                    <div className="flex items-center gap-3">
+                                                        <div className="w-10 h-10 rounded-full bg-gray-100 flex items-center justify-center">
+                                                            <svg className="w-5 h-5 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+                                                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
+                                                            </svg>
+                                                        </div>
+                                                        <div>
+                                                            <p className="font-semibold text-gray-900 text-sm">{location.name}</p>
+                                                            <p className="text-gray-500 text-xs">{PLACE_KIND_LABELS[location.kind]} · {location.count} posts</p>
+                                                        </div>
+                                                    </div>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
                                 </>
                             )}
                         </>
@@ -944,7 +1048,7 @@ export function EmbeddedSearch({ className = '' }: { className?: string }) {
                             <svg className="w-8 h-8 mx-auto mb-2 text-gray-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
                             </svg>
-                            Search usernames and hashtags
+                            Search usernames, hashtags and places
                         </div>
                     )}
                 </div>
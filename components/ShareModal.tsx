@@ -6,6 +6,7 @@ import Image from 'next/image';
 import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
 import { fetchAPI } from '../lib/dataFetcher';
+import { describeAudience, type AudienceView } from '../lib/postAudience';
 
 interface ShareModalProps {
   isOpen: boolean;
@@ -16,6 +17,7 @@ interface ShareModalProps {
   postMediaType?: 'image' | 'video';
   authorName: string;
   authorId?: number;
+  audience?: AudienceView | null;
 }
 
 interface Friend {
@@ -35,6 +37,7 @@ export default function ShareModal({
   postMediaUrl,
   postMediaType,
   authorName,
+  audience,
 }: ShareModalProps) {
   const { token } = useAuth();
   const { showToast } = useToast();
@@ -91,7 +94,9 @@ export default function ShareModal({
 
     setSending(true);
     try {
-      // Send to each selected friend
+      // Send to each selected friend; people outside the post's audience are refused
+      let sent = 0;
+      let lastError = '';
       for (const friendId of Array.from(selectedFriends)) {
         try {
           const messagePayload: any = {
@@ -118,18 +123,29 @@ export default function ShareModal({
             token: token || '',
             body: JSON.stringify(messagePayload),
             skipCache: true,
+            retries: 0,
           });
-        } catch (error) {
+          sent++;
+        } catch (error: any) {
           console.error(`Failed to send to friend ${friendId}:`, error);
+          lastError = error.message || 'Failed to share post';
         }
       }
 
-      showToast(
-        selectedFriends.size === 1
-          ? 'Post shared successfully!'
-          : `Post shared to ${selectedFriends.size} friends!`,
-        'success'
-      );
+      if (sent === 0) {
+        showToast(lastError || 'Failed to share post', 'error');
+        return;
+      }
+      if (sent < selectedFriends.size) {
+        showToast(`Shared with ${sent} of ${selectedFriends.size}: ${lastError}`, 'error');
+      } else {
+        showToast(
+          sent === 1
+            ? 'Post shared successfully!'
+            : `Post shared to ${sent} friends!`,
+          'success'
+        );
+      }
       onClose();
     } catch (error: any) {
       console.error('Error sharing post:', error);
@@ -254,6 +270,13 @@ export default function ShareModal({
           </div>
         )}
 
+        {/* Audience Note */}
+        {audience && (
+          <div className="px-4 py-2 border-b border-gray-200 text-xs text-gray-500">
+            Audience: {describeAudience(audience)}. People outside it can&apos;t open this post, even from a link.
+          </div>
+        )}
+
         {/* Selected Friends Count */}
         {selectedFriends.size > 0 && (
           <div className="px-4 py-2 bg-blue-50 text-blue-700 text-sm">
@@ -0,0 +1,154 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import Image from 'next/image';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { fetchAPI } from '../lib/dataFetcher';
+import type { StoryItem, StoryReel } from '../lib/stories';
+import StoryViewer from './StoryViewer';
+
+/**
+ * The row of stories above the home feed: your own first (tap + to share a
+ * photo or video), then people you follow, unwatched ones ringed.
+ */
+export default function StoriesTray() {
+  const { token, user } = useAuth();
+  const { showToast } = useToast();
+  const [reels, setReels] = useState<StoryReel[]>([]);
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadTray = useCallback(async () => {
+    if (!token) return;
+    try {
+      const data = await fetchAPI<{ reels: StoryReel[] }>('/api/stories', { token, skipCache: true, retries: 0 });
+      setReels(data.reels || []);
+    } catch (error) {
+      console.warn('Failed to load stories:', error);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    loadTray();
+  }, [loadTray]);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !token) return;
+
+    const formData = new FormData();
+    formData.append('file', file);
+    setUploading(true);
+    try {
+      await fetchAPI<{ story: StoryItem }>('/api/stories', {
+        method: 'POST',
+        token,
+        body: formData,
+        skipCache: true,
+        retries: 0,
+      });
+      showToast('Added to your story', 'success');
+      await loadTray();
+    } catch (error: any) {
+      showToast(error.message || 'Failed to share story', 'error');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const markSeen = useCallback((storyId: number) => {
+    setReels((previous) =>
+      previous.map((reel) => {
+        if (!reel.stories.some((story) => story.id === storyId)) return reel;
+        const stories = reel.stories.map((story) => (story.id === storyId ? { ...story, viewed: true } : story));
+        return { ...reel, stories, has_unseen: stories.some((story) => !story.viewed) };
+      })
+    );
+  }, []);
+
+  if (!user) return null;
+
+  const ownReelIndex = reels.findIndex((reel) => reel.author.id === user.id);
+  const otherReels = reels.map((reel, index) => ({ reel, index })).filter(({ index }) => index !== ownReelIndex);
+
+  return (
+    <div className="bg-white border-b border-border-light">
+      <div className="flex items-start gap-4 overflow-x-auto scrollbar-hide px-4 md:px-0 py-3">
+        {/* Your story */}
+        <div className="flex flex-col items-center gap-1 w-16 flex-shrink-0">
+          <div className="relative">
+            <button
+              onClick={() => (ownReelIndex !== -1 ? setOpenIndex(ownReelIndex) : fileInputRef.current?.click())}
+              className={`w-16 h-16 rounded-full p-[2px] ${ownReelIndex !== -1 ? 'bg-gray-300' : ''}`}
+              aria-label={ownReelIndex !== -1 ? 'View your story' : 'Add to your story'}
+            >
+              <div className="w-full h-full rounded-full overflow-hidden bg-gray-200 border-2 border-white">
+                <Image
+                  src={reels[ownReelIndex]?.author.profile_image || '/uploads/DefaultProfile.jpg'}
+                  alt="Your story"
+                  width={64}
+                  height={64}
+                  className="w-full h-full object-cover"
+                />
+              </div>
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploading}
+              className="absolute -bottom-0.5 -right-0.5 w-5 h-5 rounded-full bg-[#FFAF50] border-2 border-white text-white text-xs font-bold flex items-center justify-center"
+              aria-label="Add to your story"
+            >
+              {uploading ? (
+                <span className="w-2.5 h-2.5 border border-white border-t-transparent rounded-full animate-spin"></span>
+              ) : (
+                '+'
+              )}
+            </button>
+            <input ref={fileInputRef} type="file" accept="image/*,video/*" className="hidden" onChange={handleFile} />
+          </div>
+          <span className="text-xs text-gray-700 truncate w-full text-center">Your story</span>
+        </div>
+
+        {otherReels.map(({ reel, index }) => (
+          <button
+            key={reel.author.id}
+            onClick={() => setOpenIndex(index)}
+            className="flex flex-col items-center gap-1 w-16 flex-shrink-0"
+          >
+            <div
+              className={`w-16 h-16 rounded-full p-[2px] ${
+                reel.has_unseen ? 'bg-gradient-to-tr from-[#FFAF50] to-pink-500' : 'bg-gray-300'
+              }`}
+            >
+              <div className="w-full h-full rounded-full overflow-hidden bg-gray-200 border-2 border-white">
+                <Image
+                  src={reel.author.profile_image || '/uploads/DefaultProfile.jpg'}
+                  alt={reel.author.name}
+                  width={64}
+                  height={64}
+                  className="w-full h-full object-cover"
+                />
+              </div>
+            </div>
+            <span className="text-xs text-gray-700 truncate w-full text-center">{reel.author.username || reel.author.name}</span>
+          </button>
+        ))}
+      </div>
+
+      {openIndex !== null && (
+        <StoryViewer
+          reels={reels}
+          initialReelIndex={openIndex}
+          onClose={() => {
+            setOpenIndex(null);
+            loadTray();
+          }}
+          onStorySeen={markSeen}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Image from 'next/image';
+import { useAuth } from '../contexts/AuthContext';
+import { fetchAPI } from '../lib/dataFetcher';
+import type { HighlightView, StoryAuthor, StoryReel } from '../lib/stories';
+import StoryViewer from './StoryViewer';
+import HighlightModal from './HighlightModal';
+
+interface StoryHighlightsProps {
+  author: StoryAuthor;
+  isOwnProfile: boolean;
+}
+
+type Playing = { kind: 'story' } | { kind: 'highlight'; highlight: HighlightView };
+
+/**
+ * The circles under a profile header: the person's live story, if any, then
+ * their highlights. On your own profile there's a New button to make one.
+ */
+export default function StoryHighlights({ author, isOwnProfile }: StoryHighlightsProps) {
+  const { token } = useAuth();
+  const [reel, setReel] = useState<StoryReel | null>(null);
+  const [highlights, setHighlights] = useState<HighlightView[]>([]);
+  const [playing, setPlaying] = useState<Playing | null>(null);
+  const [editing, setEditing] = useState<HighlightView | null>(null);
+  const [creating, setCreating] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const [storyData, highlightData] = await Promise.all([
+        fetchAPI<{ reel: StoryReel | null }>(`/api/users/${author.id}/stories`, { token: token || undefined, skipCache: true, retries: 0 }),
+        fetchAPI<{ highlights: HighlightView[] }>(`/api/users/${author.id}/highlights`, { token: token || undefined, skipCache: true, retries: 0 }),
+      ]);
+      setReel(storyData.reel);
+      setHighlights(highlightData.highlights || []);
+    } catch {
+      // Hidden profiles just show no stories
+      setReel(null);
+      setHighlights([]);
+    }
+  }, [author.id, token]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    window.addEventListener('storyHighlightsChanged', load);
+    return () => window.removeEventListener('storyHighlightsChanged', load);
+  }, [load]);
+
+  if (!reel && highlights.length === 0 && !isOwnProfile) return null;
+
+  const circle = (cover: string | null, coverType: 'image' | 'video' | null, ringed: boolean) => (
+    <div className={`w-16 h-16 md:w-20 md:h-20 rounded-full p-[2px] ${ringed ? 'bg-gradient-to-tr from-[#FFAF50] to-pink-500' : 'bg-gray-200'}`}>
+      <div className="w-full h-full rounded-full overflow-hidden bg-gray-100 border-2 border-white">
+        {cover && coverType === 'video' ? (
+          <video src={cover} muted playsInline preload="metadata" className="w-full h-full object-cover" />
+        ) : cover ? (
+          <Image src={cover} alt="" width={80} height={80} className="w-full h-full object-cover" />
+        ) : null}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="flex items-start gap-4 md:gap-8 overflow-x-auto scrollbar-hide pb-2 mb-6">
+      {reel && (
+        <button onClick={() => setPlaying({ kind: 'story' })} className="flex flex-col items-center gap-1 flex-shrink-0">
+          {circle(author.profile_image || '/uploads/DefaultProfile.jpg', 'image', reel.has_unseen)}
+          <span className="text-xs font-medium text-gray-900">Story</span>
+        </button>
+      )}
+
+      {highlights.map((highlight) => (
+        <button
+          key={highlight.id}
+          onClick={() => setPlaying({ kind: 'highlight', highlight })}
+          className="flex flex-col items-center gap-1 flex-shrink-0 w-16 md:w-20"
+        >
+          {circle(highlight.cover_url, highlight.cover_type, false)}
+          <span className="text-xs font-medium text-gray-900 truncate w-full text-center">{highlight.title}</span>
+        </button>
+      ))}
+
+      {isOwnProfile && (
+        <button onClick={() => setCreating(true)} className="flex flex-col items-center gap-1 flex-shrink-0">
+          <div className="w-16 h-16 md:w-20 md:h-20 rounded-full border-2 border-gray-300 flex items-center justify-center text-gray-500">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+          </div>
+          <span className="text-xs font-medium text-gray-900">New</span>
+        </button>
+      )}
+
+      {playing && (
+        <StoryViewer
+          reels={[playing.kind === 'story' && reel ? reel : { author, stories: playing.kind === 'highlight' ? playing.highlight.stories : [] }]}
+          highlightTitle={playing.kind === 'highlight' ? playing.highlight.title : undefined}
+          onEditHighlight={isOwnProfile && playing.kind === 'highlight' ? () => {
+            setEditing(playing.highlight);
+            setPlaying(null);
+          } : undefined}
+          onClose={() => {
+            setPlaying(null);
+            load();
+          }}
+        />
+      )}
+
+      <HighlightModal isOpen={creating} onClose={() => setCreating(false)} />
+      <HighlightModal isOpen={!!editing} onClose={() => setEditing(null)} highlight={editing || undefined} />
+    </div>
+  );
+}
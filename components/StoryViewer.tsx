@@ -0,0 +1,384 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { fetchAPI } from '../lib/dataFetcher';
+import type { StoryAuthor, StoryItem, StoryViewer as StoryViewerEntry } from '../lib/stories';
+import HighlightModal from './HighlightModal';
+
+// How long a photo stays up before moving on
+const IMAGE_DURATION_MS = 5000;
+
+export interface StoryViewerReel {
+  author: StoryAuthor;
+  stories: StoryItem[];
+}
+
+interface StoryViewerProps {
+  reels: StoryViewerReel[];
+  initialReelIndex?: number;
+  onClose: () => void;
+  onStorySeen?: (storyId: number) => void;
+  onStoryDeleted?: (storyId: number) => void;
+  // Set when playing a highlight: its title replaces the time posted
+  highlightTitle?: string;
+  // Offered to the owner of the highlight being played
+  onEditHighlight?: () => void;
+}
+
+function timeAgo(iso: string): string {
+  const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60000);
+  if (minutes < 1) return 'now';
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h`;
+  return new Date(iso).toLocaleDateString();
+}
+
+// Reels pick up where the viewer left off
+function firstUnseen(reel?: StoryViewerReel): number {
+  const index = reel ? reel.stories.findIndex((story) => !story.viewed) : -1;
+  return index === -1 ? 0 : index;
+}
+
+/**
+ * Fullscreen story player: tap the right side (or →) for the next story, the
+ * left side (or ←) for the previous one, and it moves on to the next reel by
+ * itself. Other people's stories can be replied to, which sends a DM; your own
+ * show who watched them and can be deleted or pinned to a highlight.
+ */
+export default function StoryViewer({
+  reels,
+  initialReelIndex = 0,
+  onClose,
+  onStorySeen,
+  onStoryDeleted,
+  highlightTitle,
+  onEditHighlight,
+}: StoryViewerProps) {
+  const { token, user } = useAuth();
+  const { showToast } = useToast();
+  const [reelIndex, setReelIndex] = useState(initialReelIndex);
+  const [storyIndex, setStoryIndex] = useState(() => (highlightTitle ? 0 : firstUnseen(reels[initialReelIndex])));
+  const [progress, setProgress] = useState(0);
+  const [reply, setReply] = useState('');
+  const [sending, setSending] = useState(false);
+  const [replyFocused, setReplyFocused] = useState(false);
+  const [viewers, setViewers] = useState<StoryViewerEntry[] | null>(null);
+  const [highlighting, setHighlighting] = useState(false);
+  const [deleted, setDeleted] = useState<Set<number>>(new Set());
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const reported = useRef<Set<number>>(new Set());
+
+  const reel = reels[reelIndex];
+  const stories = reel ? reel.stories.filter((story) => !deleted.has(story.id)) : [];
+  const story = stories[Math.min(storyIndex, stories.length - 1)];
+  const isOwn = !!user && !!reel && user.id === reel.author.id;
+  const paused = replyFocused || viewers !== null || highlighting;
+
+  const goNext = useCallback(() => {
+    setProgress(0);
+    if (storyIndex < stories.length - 1) {
+      setStoryIndex(storyIndex + 1);
+    } else if (reelIndex < reels.length - 1) {
+      setReelIndex(reelIndex + 1);
+      setStoryIndex(firstUnseen(reels[reelIndex + 1]));
+    } else {
+      onClose();
+    }
+  }, [storyIndex, stories.length, reelIndex, reels, onClose]);
+
+  const goPrevious = useCallback(() => {
+    setProgress(0);
+    if (storyIndex > 0) {
+      setStoryIndex(storyIndex - 1);
+    } else if (reelIndex > 0) {
+      setReelIndex(reelIndex - 1);
+      setStoryIndex(0);
+    }
+  }, [storyIndex, reelIndex]);
+
+  useEffect(() => {
+    document.body.style.overflow = 'hidden';
+    document.body.classList.add('modal-open');
+    return () => {
+      document.body.style.overflow = '';
+      document.body.classList.remove('modal-open');
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (replyFocused) return;
+      if (event.key === 'Escape') onClose();
+      if (event.key === 'ArrowRight') goNext();
+      if (event.key === 'ArrowLeft') goPrevious();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [replyFocused, onClose, goNext, goPrevious]);
+
+  // Count the view once per story; authors watching their own aren't counted
+  useEffect(() => {
+    if (!story || !token || isOwn || reported.current.has(story.id)) return;
+    reported.current.add(story.id);
+    fetchAPI(`/api/stories/${story.id}/views`, { method: 'POST', token, skipCache: true, retries: 0 })
+      .then(() => onStorySeen?.(story.id))
+      .catch(() => {});
+  }, [story, token, isOwn, onStorySeen]);
+
+  // Photos advance on a timer; videos when they end (see onEnded)
+  useEffect(() => {
+    if (!story || story.media_type !== 'image' || paused) return;
+    const startedAt = Date.now() - progress * IMAGE_DURATION_MS;
+    const timer = setInterval(() => {
+      const elapsed = (Date.now() - startedAt) / IMAGE_DURATION_MS;
+      if (elapsed >= 1) {
+        clearInterval(timer);
+        goNext();
+      } else {
+        setProgress(elapsed);
+      }
+    }, 50);
+    return () => clearInterval(timer);
+    // progress is only read when resuming
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [story, paused, goNext]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (paused) video.pause();
+    else video.play().catch(() => {});
+  }, [paused, story]);
+
+  if (!reel || !story) return null;
+
+  const handleReply = async () => {
+    const text = reply.trim();
+    if (!token || !text || sending) return;
+    setSending(true);
+    try {
+      await fetchAPI('/api/messages/send', {
+        method: 'POST',
+        token,
+        body: JSON.stringify({ receiverId: reel.author.id, messageText: text, storyId: story.id }),
+        skipCache: true,
+        retries: 0,
+      });
+      setReply('');
+      showToast('Reply sent', 'success');
+    } catch (error: any) {
+      showToast(error.message || 'Failed to send reply', 'error');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleShowViewers = async () => {
+    if (!token) return;
+    try {
+      const data = await fetchAPI<{ viewers: StoryViewerEntry[] }>(`/api/stories/${story.id}/views`, {
+        token,
+        skipCache: true,
+        retries: 0,
+      });
+      setViewers(data.viewers);
+    } catch (error: any) {
+      showToast(error.message || 'Failed to load viewers', 'error');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!token || !confirm('Delete this story? It will also leave your highlights.')) return;
+    try {
+      await fetchAPI(`/api/stories/${story.id}`, { method: 'DELETE', token, skipCache: true, retries: 0 });
+      onStoryDeleted?.(story.id);
+      showToast('Story deleted', 'success');
+      if (stories.length === 1) {
+        onClose();
+        return;
+      }
+      setDeleted((previous) => new Set(previous).add(story.id));
+      setStoryIndex(Math.min(storyIndex, stories.length - 2));
+      setProgress(0);
+    } catch (error: any) {
+      showToast(error.message || 'Failed to delete story', 'error');
+    }
+  };
+
+  const modalContent = (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black">
+      <div className="relative w-full h-full max-w-md md:h-[90vh] md:rounded-xl overflow-hidden bg-black">
+        {/* Progress */}
+        <div className="absolute top-2 left-2 right-2 z-20 flex gap-1">
+          {stories.map((item, index) => (
+            <div key={item.id} className="h-0.5 flex-1 bg-white/30 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-white"
+                style={{ width: index < storyIndex ? '100%' : index === storyIndex ? `${progress * 100}%` : '0%' }}
+              />
+            </div>
+          ))}
+        </div>
+
+        {/* Header */}
+        <div className="absolute top-5 left-3 right-3 z-20 flex items-center gap-2 text-white">
+          <Link href={`/profile/${reel.author.id}`} onClick={onClose} className="flex items-center gap-2 min-w-0">
+            <div className="w-8 h-8 rounded-full overflow-hidden bg-gray-700 flex-shrink-0">
+              <Image
+                src={reel.author.profile_image || '/uploads/DefaultProfile.jpg'}
+                alt={reel.author.name}
+                width={32}
+                height={32}
+                className="w-full h-full object-cover"
+              />
+            </div>
+            <span className="text-sm font-semibold truncate">{reel.author.username || reel.author.name}</span>
+          </Link>
+          <span className="text-xs text-white/70 flex-shrink-0">{highlightTitle || timeAgo(story.created_at)}</span>
+          <button onClick={onClose} className="ml-auto p-1" aria-label="Close">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Media */}
+        <div className="absolute inset-0 flex items-center justify-center">
+          {story.media_type === 'video' ? (
+            <video
+              key={story.id}
+              ref={videoRef}
+              src={story.media_url}
+              autoPlay
+              playsInline
+              className="w-full h-full object-contain"
+              onTimeUpdate={(e) => {
+                const video = e.currentTarget;
+                if (video.duration) setProgress(video.currentTime / video.duration);
+              }}
+              onEnded={goNext}
+            />
+          ) : (
+            <Image
+              key={story.id}
+              src={story.media_url}
+              alt="Story"
+              width={720}
+              height={1280}
+              className="w-full h-full object-contain"
+              priority
+            />
+          )}
+        </div>
+
+        {/* Tap zones */}
+        <button className="absolute left-0 top-16 bottom-20 w-1/3 z-10" onClick={goPrevious} aria-label="Previous story" />
+        <button className="absolute right-0 top-16 bottom-20 w-2/3 z-10" onClick={goNext} aria-label="Next story" />
+
+        {/* Footer */}
+        <div className="absolute bottom-0 left-0 right-0 z-20 p-3 bg-gradient-to-t from-black/60 to-transparent">
+          {isOwn ? (
+            <div className="flex items-center justify-between text-white text-sm">
+              <button onClick={handleShowViewers} className="flex items-center gap-1 hover:opacity-80">
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                </svg>
+                Viewers
+              </button>
+              <div className="flex items-center gap-4">
+                {onEditHighlight ? (
+                  <button onClick={onEditHighlight} className="hover:opacity-80">Edit highlight</button>
+                ) : (
+                  <button onClick={() => setHighlighting(true)} className="hover:opacity-80">Highlight</button>
+                )}
+                <button onClick={handleDelete} className="hover:opacity-80">Delete</button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={reply}
+                onChange={(e) => setReply(e.target.value)}
+                onFocus={() => setReplyFocused(true)}
+                onBlur={() => setReplyFocused(false)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleReply();
+                }}
+                placeholder={`Reply to ${reel.author.name}...`}
+                maxLength={1000}
+                className="flex-1 bg-transparent border border-white/60 rounded-full px-4 py-2 text-sm text-white placeholder-white/70 focus:outline-none focus:border-white"
+              />
+              <button
+                onClick={handleReply}
+                disabled={!reply.trim() || sending}
+                className="text-sm font-semibold text-white disabled:opacity-50"
+              >
+                Send
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Viewer list */}
+        {viewers !== null && (
+          <div className="absolute inset-x-0 bottom-0 z-30 max-h-[60%] bg-white rounded-t-2xl flex flex-col">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+              <h3 className="text-sm font-semibold text-gray-900">
+                {viewers.length} {viewers.length === 1 ? 'viewer' : 'viewers'}
+              </h3>
+              <button onClick={() => setViewers(null)} className="p-1 hover:bg-gray-100 rounded-full" aria-label="Close viewers">
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+            <div className="overflow-y-auto">
+              {viewers.length === 0 ? (
+                <p className="px-4 py-6 text-sm text-gray-500 text-center">No one has seen this story yet</p>
+              ) : (
+                viewers.map((viewer) => (
+                  <Link
+                    key={viewer.id}
+                    href={`/profile/${viewer.id}`}
+                    onClick={onClose}
+                    className="flex items-center gap-3 px-4 py-2 hover:bg-gray-50"
+                  >
+                    <div className="w-9 h-9 rounded-full overflow-hidden bg-gray-200 flex-shrink-0">
+                      <Image
+                        src={viewer.profile_image || '/uploads/DefaultProfile.jpg'}
+                        alt={viewer.name}
+                        width={36}
+                        height={36}
+                        className="w-full h-full object-cover"
+                      />
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-medium text-gray-900 truncate">{viewer.username || viewer.name}</p>
+                      <p className="text-xs text-gray-500">{timeAgo(viewer.viewed_at)}</p>
+                    </div>
+                  </Link>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <HighlightModal
+        isOpen={highlighting}
+        onClose={() => setHighlighting(false)}
+        initialStoryIds={[story.id]}
+      />
+    </div>
+  );
+
+  return typeof document !== 'undefined' ? createPortal(modalContent, document.body) : null;
+}
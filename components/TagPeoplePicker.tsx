@@ -0,0 +1,132 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { useAuth } from '../contexts/AuthContext';
+import { fetchAPI } from '../lib/dataFetcher';
+import type { PostTagView } from '../lib/postTags';
+
+export type TaggedUser = PostTagView['user'];
+
+interface TagPeoplePickerProps {
+  // People already tagged on the photo or video being shown
+  tagged: TaggedUser[];
+  onAdd: (user: TaggedUser) => void;
+  onRemove: (userId: number) => void;
+  disabled?: boolean;
+  hint?: string;
+}
+
+/**
+ * Search-as-you-type picker for tagging people on one carousel item
+ */
+const TagPeoplePicker: React.FC<TagPeoplePickerProps> = ({ tagged, onAdd, onRemove, disabled, hint }) => {
+  const { token } = useAuth();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<TaggedUser[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (!q || !token) {
+      setResults([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const data = await fetchAPI<{ results: { users?: { id: number; name: string; username?: string; profile_image?: string }[] } }>(
+          `/api/search?q=${encodeURIComponent(q)}&type=users`,
+          { token, cacheTTL: 60000 }
+        );
+        if (!cancelled) {
+          setResults((data.results?.users || []).slice(0, 6).map((u) => ({
+            id: u.id,
+            name: u.name,
+            username: u.username || null,
+            profile_image: u.profile_image || null,
+          })));
+        }
+      } catch {
+        if (!cancelled) setResults([]);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, token]);
+
+  const taggedIds = new Set(tagged.map((u) => u.id));
+
+  return (
+    <div className="space-y-2">
+      {tagged.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {tagged.map((u) => (
+            <span key={u.id} className="inline-flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full bg-gray-100 text-xs text-gray-900">
+              {u.username || u.name}
+              <button
+                type="button"
+                onClick={() => onRemove(u.id)}
+                disabled={disabled}
+                className="w-4 h-4 rounded-full text-gray-500 hover:text-gray-900 flex items-center justify-center"
+                aria-label={`Untag ${u.name}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="relative">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search people to tag"
+          disabled={disabled}
+          className="w-full text-sm border border-gray-200 rounded-lg px-3 py-2 text-gray-900 placeholder-gray-400 focus:outline-none focus:ring-1 focus:ring-[#FFAF50]"
+        />
+        {query.trim() && (
+          <div className="absolute left-0 right-0 mt-1 bg-white border border-gray-100 rounded-lg shadow-lg z-20 max-h-60 overflow-y-auto">
+            {loading && results.length === 0 ? (
+              <div className="px-3 py-2 text-xs text-gray-400">Searching...</div>
+            ) : results.length === 0 ? (
+              <div className="px-3 py-2 text-xs text-gray-400">No matching people</div>
+            ) : (
+              results.map((u) => (
+                <button
+                  key={u.id}
+                  type="button"
+                  disabled={taggedIds.has(u.id)}
+                  onClick={() => {
+                    onAdd(u);
+                    setQuery('');
+                  }}
+                  className="w-full text-left px-3 py-2 hover:bg-gray-50 flex items-center gap-2 disabled:opacity-50"
+                >
+                  <Image
+                    src={u.profile_image || '/uploads/DefaultProfile.jpg'}
+                    alt={u.name}
+                    width={24}
+                    height={24}
+                    className="w-6 h-6 rounded-full object-cover"
+                  />
+                  <span className="text-sm text-gray-900 truncate">{u.name}</span>
+                  {u.username && <span className="text-xs text-gray-400 truncate">@{u.username}</span>}
+                </button>
+              ))
+            )}
+          </div>
+        )}
+      </div>
+      {hint && <p className="text-xs text-gray-400">{hint}</p>}
+    </div>
+  );
+};
+
+export default TagPeoplePicker;
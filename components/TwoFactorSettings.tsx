@@ -0,0 +1,294 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { fetchAPI } from '../lib/dataFetcher';
+
+interface TwoFactorSettingsProps {
+  token: string | null;
+  onMessage: (message: string) => void;
+  onError: (error: string) => void;
+}
+
+interface MfaStatus {
+  enabled: boolean;
+  backup_codes_remaining: number;
+}
+
+interface MfaSetup {
+  secret: string;
+  otpauth_url: string;
+  qr_code: string;
+}
+
+type ManageAction = 'disable' | 'regenerate';
+
+const inputClassName = 'w-full px-4 py-2.5 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-[#FFAF50] focus:border-transparent outline-none';
+
+/**
+ * Settings card for TOTP two-factor authentication: enroll via QR code,
+ * show backup codes once, and disable/regenerate behind password + code.
+ */
+const TwoFactorSettings: React.FC<TwoFactorSettingsProps> = ({ token, onMessage, onError }) => {
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [setup, setSetup] = useState<MfaSetup | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [manageAction, setManageAction] = useState<ManageAction | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    const loadStatus = async () => {
+      if (!token) return;
+      try {
+        const data = await fetchAPI<MfaStatus>('/api/auth/mfa', { token, skipCache: true });
+        setStatus(data);
+      } catch (err: any) {
+        console.error('Failed to load 2FA status:', err);
+      }
+    };
+    loadStatus();
+  }, [token]);
+
+  const resetForm = () => {
+    setCode('');
+    setPassword('');
+    setManageAction(null);
+  };
+
+  const handleStartSetup = async () => {
+    if (!token) return;
+    setBusy(true);
+    try {
+      const data = await fetchAPI<MfaSetup>('/api/auth/mfa/setup', {
+        method: 'POST',
+        token,
+        skipCache: true,
+        retries: 0,
+      });
+      setSetup(data);
+      setBackupCodes(null);
+      setCode('');
+    } catch (err: any) {
+      onError(err.message || 'Failed to start two-factor setup');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleConfirmSetup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+    setBusy(true);
+    try {
+      const data = await fetchAPI<{ backup_codes: string[] }>('/api/auth/mfa/enable', {
+        method: 'POST',
+        token,
+        skipCache: true,
+        retries: 0,
+        body: JSON.stringify({ code: code.trim() }),
+      });
+      setSetup(null);
+      setBackupCodes(data.backup_codes);
+      setStatus({ enabled: true, backup_codes_remaining: data.backup_codes.length });
+      setCode('');
+      onMessage('Two-factor authentication enabled');
+    } catch (err: any) {
+      onError(err.message || 'Invalid code');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleManage = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token || !manageAction) return;
+    if (manageAction === 'disable' && !confirm('Turn off two-factor authentication?')) return;
+
+    setBusy(true);
+    try {
+      const endpoint = manageAction === 'disable' ? '/api/auth/mfa/disable' : '/api/auth/mfa/backup-codes';
+      const data = await fetchAPI<{ backup_codes?: string[] }>(endpoint, {
+        method: 'POST',
+        token,
+        skipCache: true,
+        retries: 0,
+        body: JSON.stringify({ password, code: code.trim() }),
+      });
+
+      if (manageAction === 'disable') {
+        setStatus({ enabled: false, backup_codes_remaining: 0 });
+        setBackupCodes(null);
+        onMessage('Two-factor authentication disabled');
+      } else if (data.backup_codes) {
+        setBackupCodes(data.backup_codes);
+        setStatus({ enabled: true, backup_codes_remaining: data.backup_codes.length });
+        onMessage('New backup codes generated');
+      }
+      resetForm();
+    } catch (err: any) {
+      onError(err.message || 'Could not verify your identity');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <svg className="w-5 h-5 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+          </svg>
+          Two-factor authentication
+        </h3>
+        {status?.enabled && (
+          <span className="px-2 py-0.5 text-xs font-medium bg-green-100 text-green-700 rounded-full">On</span>
+        )}
+      </div>
+
+      <div className="p-6 space-y-4">
+        {!status ? (
+          <div className="flex items-center justify-center py-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-4 border-orange-500 border-t-transparent"></div>
+          </div>
+        ) : setup ? (
+          <form onSubmit={handleConfirmSetup} className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Scan this QR code with an authenticator app (Google Authenticator, Authy, 1Password), then enter the 6-digit code it shows.
+            </p>
+            <div className="flex flex-col sm:flex-row items-center gap-4">
+              {/* Data URL generated server-side; next/image adds nothing here */}
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img src={setup.qr_code} alt="Two-factor QR code" width={160} height={160} className="rounded-lg border border-gray-200" />
+              <div className="text-sm text-gray-600 space-y-2 min-w-0">
+                <p>Can&apos;t scan it? Enter this key manually:</p>
+                <code className="block px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-gray-900 break-all">{setup.secret}</code>
+                <a href={setup.otpauth_url} className="text-[#FFAF50] hover:text-orange-600 font-medium">Open in authenticator app</a>
+              </div>
+            </div>
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              required
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className={`${inputClassName} tracking-widest`}
+              placeholder="123456"
+            />
+            <div className="flex gap-3">
+              <button
+                type="submit"
+                disabled={busy}
+                className="px-5 py-2 bg-[#FFAF50] hover:bg-orange-500 text-black text-sm font-semibold rounded-lg transition-colors disabled:opacity-50"
+              >
+                {busy ? 'Verifying...' : 'Turn on'}
+              </button>
+              <button
+                type="button"
+                onClick={() => { setSetup(null); setCode(''); }}
+                className="px-5 py-2 bg-white hover:bg-gray-50 text-gray-700 text-sm font-semibold rounded-lg border border-gray-300"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              {status.enabled
+                ? `Signing in requires a code from your authenticator app. ${status.backup_codes_remaining} backup code${status.backup_codes_remaining === 1 ? '' : 's'} left.`
+                : 'Add a second step to sign-in with a code from an authenticator app. Recommended for club and faculty accounts.'}
+            </p>
+
+            {backupCodes && (
+              <div className="p-4 bg-orange-50 border border-orange-200 rounded-xl space-y-3">
+                <p className="text-sm font-semibold text-gray-900">Save your backup codes</p>
+                <p className="text-sm text-gray-600">Each code works once if you lose your phone. They won&apos;t be shown again.</p>
+                <div className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-900">
+                  {backupCodes.map((backupCode) => (
+                    <span key={backupCode} className="px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-center">{backupCode}</span>
+                  ))}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setBackupCodes(null)}
+                  className="text-sm font-semibold text-gray-700 hover:text-gray-900"
+                >
+                  I&apos;ve saved them
+                </button>
+              </div>
+            )}
+
+            {!status.enabled ? (
+              <button
+                onClick={handleStartSetup}
+                disabled={busy}
+                className="px-5 py-2 bg-[#FFAF50] hover:bg-orange-500 text-black text-sm font-semibold rounded-lg transition-colors disabled:opacity-50"
+              >
+                {busy ? 'Preparing...' : 'Set up two-factor authentication'}
+              </button>
+            ) : manageAction ? (
+              <form onSubmit={handleManage} className="space-y-3">
+                <p className="text-sm text-gray-600">Confirm it&apos;s you with your password and a current code.</p>
+                <input
+                  type="password"
+                  required
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className={inputClassName}
+                  placeholder="Current password"
+                />
+                <input
+                  type="text"
+                  autoComplete="one-time-code"
+                  required
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className={`${inputClassName} tracking-widest`}
+                  placeholder="Authentication or backup code"
+                />
+                <div className="flex gap-3">
+                  <button
+                    type="submit"
+                    disabled={busy}
+                    className={`px-5 py-2 text-sm font-semibold rounded-lg transition-colors disabled:opacity-50 ${
+                      manageAction === 'disable' ? 'bg-red-600 hover:bg-red-700 text-white' : 'bg-[#FFAF50] hover:bg-orange-500 text-black'
+                    }`}
+                  >
+                    {busy ? 'Checking...' : manageAction === 'disable' ? 'Turn off' : 'Generate new codes'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={resetForm}
+                    className="px-5 py-2 bg-white hover:bg-gray-50 text-gray-700 text-sm font-semibold rounded-lg border border-gray-300"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <div className="flex flex-wrap gap-3">
+                <button
+                  onClick={() => setManageAction('regenerate')}
+                  className="px-5 py-2 bg-white hover:bg-gray-50 text-gray-700 text-sm font-semibold rounded-lg border border-gray-300 shadow-sm"
+                >
+                  New backup codes
+                </button>
+                <button
+                  onClick={() => setManageAction('disable')}
+                  className="px-5 py-2 bg-white hover:bg-red-50 text-red-600 text-sm font-semibold rounded-lg border border-red-200 shadow-sm"
+                >
+                  Turn off
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
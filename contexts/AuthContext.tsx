@@ -2,24 +2,43 @@
 
 import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
+import { refreshAccessToken } from '../lib/dataFetcher';
+import type { UserRole } from '../lib/roles';
+
+// Refresh the access token this long before it expires
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+// Read the expiry (ms) from a JWT without verifying it
+function getTokenExpiry(token: string): number | null {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1]));
+    return payload.exp ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
 
 interface User {
   id: number;
   name: string;
   college_id: string;
   username?: string;
+  email?: string;
+  email_verified?: boolean;
   department: string;
   year: number;
-  role: string;
+  role?: UserRole;
   created_at: string;
 }
 
 interface AuthContextType {
   user: User | null;
   token: string | null;
-  login: (college_id: string, password: string) => Promise<boolean>;
+  login: (college_id: string, password: string) => Promise<LoginResult>;
+  verifyMfa: (mfaToken: string, code: string) => Promise<LoginResult>;
   register: (data: RegisterData) => Promise<{ success: boolean; message?: string }>;
   logout: () => void;
+  updateUser: (updates: Partial<User>) => void;
   isLoading: boolean;
   setSocketDisconnect?: (disconnectFn: () => void) => void;
 }
@@ -41,6 +60,29 @@ interface LoginResponse {
   success: boolean;
   user: User;
   token: string;
+  reactivated?: boolean;
+  deletion_cancelled?: boolean;
+}
+
+// Accounts with 2FA get an mfa_token instead of a session; finish with verifyMfa()
+// Logging into a deactivated account reactivates it (and cancels a pending deletion)
+export interface LoginResult {
+  success: boolean;
+  mfaRequired?: boolean;
+  mfaToken?: string;
+  message?: string;
+  reactivated?: boolean;
+  deletionCancelled?: boolean;
+}
+
+export function getReactivationNotice(result: LoginResult): string | null {
+  if (result.deletionCancelled) {
+    return 'Welcome back! Your account is no longer scheduled for deletion and is visible again.';
+  }
+  if (result.reactivated) {
+    return 'Welcome back! Your account has been reactivated and is visible again.';
+  }
+  return null;
 }
 
 interface ErrorResponse {
@@ -92,6 +134,16 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       if (socketDisconnect) {
         socketDisconnect();
       }
+
+      // Revoke this device's session on the server (fire-and-forget)
+      // The refresh cookie identifies the session even if the access token has expired
+      const storedToken = localStorage.getItem('token');
+      fetch('/api/auth/logout', {
+        method: 'POST',
+        headers: storedToken ? { 'Authorization': `Bearer ${storedToken}` } : {},
+        credentials: 'same-origin',
+        keepalive: true,
+      }).catch(() => {});
       
       // Clear user state immediately for instant UI update
       setUser(null);
@@ -130,20 +182,30 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     // Check for stored token on mount
     const storedToken = localStorage.getItem('token');
     const storedUser = localStorage.getItem('user');
-    
-    if (storedToken && storedUser) {
-      // Validate token before setting it
-      if (isTokenValid(storedToken)) {
-        setToken(storedToken);
-        setUser(JSON.parse(storedUser));
-      } else {
-        console.warn('⚠️ Stored token is invalid or expired - clearing');
-        localStorage.removeItem('token');
-        localStorage.removeItem('user');
+
+    const restoreSession = async () => {
+      if (storedToken && storedUser) {
+        if (isTokenValid(storedToken)) {
+          setToken(storedToken);
+          setUser(JSON.parse(storedUser));
+        } else {
+          // Access tokens are short-lived; the refresh cookie can usually renew it
+          console.warn('⚠️ Stored token is invalid or expired - refreshing');
+          const refreshedToken = await refreshAccessToken();
+          if (refreshedToken) {
+            setToken(refreshedToken);
+            setUser(JSON.parse(storedUser));
+          } else {
+            localStorage.removeItem('token');
+            localStorage.removeItem('user');
+          }
+        }
       }
-    }
-    
-    setIsLoading(false);
+
+      setIsLoading(false);
+    };
+
+    restoreSession();
 
     // Listen for unauthorized events from dataFetcher
     const handleUnauthorized = () => {
@@ -157,14 +219,47 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       logout();
     };
 
+    // Keep state in sync when a request refreshed the token behind the scenes
+    const handleTokenRefreshed = (event: Event) => {
+      const { token: refreshedToken } = (event as CustomEvent<{ token: string }>).detail;
+      setToken(refreshedToken);
+    };
+
     window.addEventListener('unauthorized', handleUnauthorized);
+    window.addEventListener('token-refreshed', handleTokenRefreshed);
 
     return () => {
       window.removeEventListener('unauthorized', handleUnauthorized);
+      window.removeEventListener('token-refreshed', handleTokenRefreshed);
     };
   }, [isTokenValid]);
 
-  const login = useCallback(async (college_id: string, password: string): Promise<boolean> => {
+  // Refresh the access token shortly before it expires so plain fetch() callers keep working
+  useEffect(() => {
+    if (!token) return;
+
+    const expiresAt = getTokenExpiry(token);
+    if (!expiresAt) return;
+
+    const timer = setTimeout(() => {
+      refreshAccessToken();
+    }, Math.max(expiresAt - Date.now() - TOKEN_REFRESH_MARGIN_MS, 0));
+
+    // Timers are throttled in background tabs; catch up when the tab is shown again
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible' && expiresAt - Date.now() < TOKEN_REFRESH_MARGIN_MS) {
+        refreshAccessToken();
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      clearTimeout(timer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [token]);
+
+  const login = useCallback(async (college_id: string, password: string): Promise<LoginResult> => {
     try {
       console.log('Attempting login with:', { college_id, password: '***' });
       const response = await fetch('/api/auth/login', {
@@ -179,7 +274,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       console.log('Login response ok:', response.ok);
 
       if (response.ok) {
-        const data = await response.json() as LoginResponse;
+        const data = await response.json() as LoginResponse & { mfa_required?: boolean; mfa_token?: string };
+
+        if (data.mfa_required && data.mfa_token) {
+          console.log('Login needs a two-factor code');
+          return { success: false, mfaRequired: true, mfaToken: data.mfa_token };
+        }
+
         console.log('Login successful, user data:', data.user);
         setUser(data.user);
         setToken(data.token);
@@ -187,15 +288,46 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         localStorage.setItem('token', data.token);
         localStorage.setItem('user', JSON.stringify(data.user));
         
-        return true;
+        return { success: true, reactivated: data.reactivated, deletionCancelled: data.deletion_cancelled };
       } else {
         const errorData = await response.json() as ErrorResponse;
         console.log('Login failed with error:', errorData);
-        return false;
+        // Lockouts and throttling (429) carry a message worth showing
+        return { success: false, message: response.status === 429 ? errorData.error : undefined };
       }
     } catch (error) {
       console.error('Login error:', error);
-      return false;
+      return { success: false };
+    }
+  }, []);
+
+  const verifyMfa = useCallback(async (mfaToken: string, code: string): Promise<LoginResult> => {
+    try {
+      const response = await fetch('/api/auth/mfa/verify', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ mfa_token: mfaToken, code }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (response.ok) {
+        const result = data as LoginResponse;
+        setUser(result.user);
+        setToken(result.token);
+
+        localStorage.setItem('token', result.token);
+        localStorage.setItem('user', JSON.stringify(result.user));
+
+        return { success: true, reactivated: result.reactivated, deletionCancelled: result.deletion_cancelled };
+      }
+
+      return { success: false, message: (data as ErrorResponse).error || 'Invalid authentication code' };
+    } catch (error) {
+      console.error('MFA verify error:', error);
+      return { success: false, message: 'Network error. Please check your connection.' };
     }
   }, []);
 
@@ -235,8 +367,18 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
+  // Merge server-side changes (e.g. a verified email) into the cached user
+  const updateUser = useCallback((updates: Partial<User>) => {
+    setUser((current) => {
+      if (!current) return current;
+      const next = { ...current, ...updates };
+      localStorage.setItem('user', JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
   return (
-    <AuthContext.Provider value={{ user, token, login, register, logout, isLoading, setSocketDisconnect }}>
+    <AuthContext.Provider value={{ user, token, login, verifyMfa, register, logout, updateUser, isLoading, setSocketDisconnect }}>
       {children}
     </AuthContext.Provider>
   );
@@ -3,6 +3,15 @@
 import React, { createContext, useContext, useEffect, useState, useCallback, useRef } from 'react'
 import { io, Socket } from 'socket.io-client'
 import { useAuth } from './AuthContext'
+import { refreshAccessToken } from '../lib/dataFetcher'
+
+// New counts for a poll someone else voted on
+export interface PollResultsEvent {
+  postId: number
+  voters: number
+  counts: Record<number, number>
+  open: boolean
+}
 
 interface SocketContextType {
   socket: Socket | null
@@ -27,6 +36,11 @@ interface SocketContextType {
   stopTyping: (otherUserId: number, userId: number) => void
   onTyping: (callback: (data: any) => void) => () => void
   onStoppedTyping: (callback: (data: any) => void) => () => void
+  // Live poll results for posts on screen
+  watchPoll: (postId: number) => void
+  unwatchPoll: (postId: number) => void
+  announcePollVote: (postId: number) => void
+  onPollResults: (callback: (data: PollResultsEvent) => void) => () => void
   disconnect: () => void
 }
 
@@ -97,20 +111,8 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
 
     // Validate token before attempting connection
     if (!isTokenValid(token)) {
-      console.error('❌ Cannot connect socket: Token is invalid or expired');
-      console.error('💡 Triggering logout to clear invalid token');
-
-      // Clear socket if it exists
-      if (socket) {
-        disconnect();
-      }
-
-      // Trigger logout to clear invalid token
-      if (typeof window !== 'undefined') {
-        alert('Your session has expired. Please log in again.');
-        logout();
-      }
-
+      // AuthContext refreshes expired access tokens; this effect re-runs with the new one
+      console.warn('⚠️ Socket token is invalid or expired - waiting for refresh');
       return;
     }
 
@@ -126,6 +128,8 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
 
     // Initialize single Socket.IO connection to Node.js server
     let newSocket: Socket | null = null
+    // Set while reconnecting after a token refresh, so a second auth failure logs out
+    let authRetryPending = false
 
     const baseUrl = (typeof window !== 'undefined' && window.location.origin) || ''
     const url = process.env.NEXT_PUBLIC_SOCKET_URL || baseUrl
@@ -145,11 +149,13 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
         reconnectionDelayMax: 10000,
         transports: ['polling', 'websocket'], // Start with polling for better Render compatibility
         upgrade: true, // Upgrade to WebSocket after initial connection
-        auth: { token },
+        // Read the latest token on every (re)connect, since access tokens are rotated
+        auth: (cb) => cb({ token: localStorage.getItem('token') || token }),
         withCredentials: true,
       })
 
       newSocket.on('connect', () => {
+        authRetryPending = false
         console.log('✅ Connected to Socket.io server')
         console.log('🔗 Socket ID:', newSocket!.id)
         setIsConnected(true)
@@ -163,6 +169,17 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
         console.log('🔌 Disconnected from Socket.io server:', reason)
         setIsConnected(false)
         setIsConnecting(false)
+
+        // The server drops sockets whose session ended or whose token lapsed. Those
+        // aren't retried automatically; a live session reconnects with a fresh token,
+        // an ended one fails the refresh and logs out.
+        if (reason === 'io server disconnect') {
+          refreshAccessToken().then((refreshedToken) => {
+            if (refreshedToken && newSocket) {
+              newSocket.connect()
+            }
+          })
+        }
       })
 
       newSocket.on('connect_error', (error: any) => {
@@ -176,23 +193,34 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
           error.message?.includes('Invalid token');
 
         if (isAuthError) {
-          console.error('🔐 Socket authentication failed - Session expired')
-
-          // Disconnect socket
-          if (newSocket) {
-            newSocket.close();
-          }
-
-          // Clear socket state
-          setSocket(null);
-
-          // Trigger logout
-          if (typeof window !== 'undefined') {
-            setTimeout(() => {
-              alert('Your session has expired. Please log in again.');
-              logout();
-            }, 100);
-          }
+          console.error('🔐 Socket authentication failed - refreshing session')
+
+          // Middleware rejections aren't retried automatically; reconnect once with a fresh token
+          const retry = authRetryPending ? Promise.resolve(null) : refreshAccessToken();
+          authRetryPending = true;
+
+          retry.then((refreshedToken) => {
+            if (refreshedToken && newSocket) {
+              newSocket.connect();
+              return;
+            }
+
+            // Disconnect socket
+            if (newSocket) {
+              newSocket.close();
+            }
+
+            // Clear socket state
+            setSocket(null);
+
+            // Trigger logout
+            if (typeof window !== 'undefined') {
+              setTimeout(() => {
+                alert('Your session has expired. Please log in again.');
+                logout();
+              }, 100);
+            }
+          });
         } else if (error.message?.includes('xhr poll error')) {
           console.warn('🔌 Socket server unreachable at:', url)
           console.warn('💡 Start local socket server with: node socket-server.js')
@@ -233,6 +261,13 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
     }
   }, [user?.id, token, disconnect, isTokenValid, logout])
 
+  // Hand rotated access tokens to the socket server, which uses them for API calls
+  useEffect(() => {
+    if (socket && token && isConnected) {
+      socket.emit('refresh-token', token)
+    }
+  }, [socket, token, isConnected])
+
   const joinConversation = useCallback((otherUserId: number) => {
     if (socket && user?.id) {
       const conversationId = [user.id, otherUserId].sort((a, b) => a - b).join('-')
@@ -391,6 +426,25 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
     }
   }, [socket, user?.id])
 
+  const watchPoll = useCallback((postId: number) => {
+    if (socket && isConnected) socket.emit('watch-poll', postId)
+  }, [socket, isConnected])
+
+  const unwatchPoll = useCallback((postId: number) => {
+    if (socket) socket.emit('unwatch-poll', postId)
+  }, [socket])
+
+  // Tells everyone else watching the poll to refresh its counts
+  const announcePollVote = useCallback((postId: number) => {
+    if (socket && isConnected) socket.emit('poll-voted', postId)
+  }, [socket, isConnected])
+
+  const onPollResults = useCallback((callback: (data: PollResultsEvent) => void) => {
+    if (!socket) return () => { }
+    socket.on('poll-results', callback)
+    return () => { socket.off('poll-results', callback) }
+  }, [socket])
+
   // New: Confirm message was received (for delivery status)
   const confirmMessageReceived = useCallback((messageId: number, senderId: number) => {
     if (socket) {
@@ -419,6 +473,10 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
     stopTyping,
     onTyping,
     onStoppedTyping,
+    watchPoll,
+    unwatchPoll,
+    announcePollVote,
+    onPollResults,
     disconnect
   }
 
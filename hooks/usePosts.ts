@@ -3,6 +3,16 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { fetchAPI } from '../lib/dataFetcher';
+import type { UserRole } from '../lib/roles';
+import type { MediaItem } from '../lib/postMedia';
+import type { PlaceSummary } from '../lib/places';
+import type { EventView } from '../lib/events';
+import type { InternshipView } from '../lib/internships';
+import type { AudienceView } from '../lib/postAudience';
+import type { PollView } from '../lib/polls';
+import type { PostTagView } from '../lib/postTags';
+import type { QuotedPostView, RepostedBy } from '../lib/reposts';
+import type { FeedMode, RankingExplanation } from '../lib/feedRanking';
 
 interface Post {
   id: number;
@@ -10,16 +20,34 @@ interface Post {
   category: string;
   media_url?: string;
   media_type?: string;
+  media?: MediaItem[];
+  place?: PlaceSummary | null;
+  tags?: PostTagView[];
   aura_count: number;
   user_liked: boolean;
+  user_saved?: boolean;
+  followed_hashtags?: string[];
   is_following_author?: boolean;
   created_at: string;
+  edited_at?: string | null;
+  event?: EventView | null;
+  internship?: InternshipView | null;
+  audience?: AudienceView | null;
+  poll?: PollView | null;
+  reposted_by?: RepostedBy | null;
+  quote_of?: number | null;
+  quoted_post?: QuotedPostView | null;
+  repost_count?: number;
+  user_reposted?: boolean;
+  // Set in the "For you" feed
+  ranking?: RankingExplanation | null;
   author: {
     id: number;
     name: string;
     department: string;
     year: number;
     profile_image?: string;
+    role?: UserRole;
   };
 }
 
@@ -32,7 +60,18 @@ interface UsePostsReturn {
   hasMore: boolean;
 }
 
-export function usePosts(category?: string, limit: number = 20): UsePostsReturn {
+// `eligibility` narrows the feed to internship listings open to that department and/or year;
+// `mode` picks the ranked "For you" feed over the chronological one
+export function usePosts(
+  category?: string,
+  limit: number = 20,
+  placeId?: number,
+  followedHashtags?: boolean,
+  eligibility?: { department?: string; year?: number },
+  mode: FeedMode = 'chronological'
+): UsePostsReturn {
+  const eligibleDepartment = eligibility?.department;
+  const eligibleYear = eligibility?.year;
   const [posts, setPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -60,6 +99,11 @@ export function usePosts(category?: string, limit: number = 20): UsePostsReturn
 
       const params = new URLSearchParams();
       if (category) params.append('category', category);
+      if (placeId) params.append('place_id', String(placeId));
+      if (followedHashtags) params.append('followed_hashtags', 'true');
+      if (eligibleDepartment) params.append('department', eligibleDepartment);
+      if (eligibleYear) params.append('year', String(eligibleYear));
+      if (mode === 'for_you') params.append('mode', mode);
       params.append('limit', limit.toString());
       params.append('offset', append ? String(offset) : '0');
 
@@ -86,7 +130,7 @@ export function usePosts(category?: string, limit: number = 20): UsePostsReturn
     } finally {
       setLoading(false);
     }
-  }, [category, limit, token, authLoading, offset]);
+  }, [category, limit, placeId, followedHashtags, eligibleDepartment, eligibleYear, mode, token, authLoading, offset]);
 
   const loadMore = useCallback(() => {
     if (!loading && hasMore) {
@@ -107,20 +151,23 @@ export function usePosts(category?: string, limit: number = 20): UsePostsReturn
       setHasMore(true);
       fetchPosts(false);
     }
-  }, [category, limit, token, authLoading]);
+  }, [category, limit, placeId, followedHashtags, eligibleDepartment, eligibleYear, mode, token, authLoading]);
 
   // Listen for new posts
   useEffect(() => {
     const handleNewPost = (event: CustomEvent) => {
       const newPost = event.detail;
+      // A location feed only picks up posts tagged with that place
+      if (placeId && newPost?.place?.id !== placeId) return;
       setPosts(prevPosts => [newPost, ...prevPosts]);
     };
 
+    // Full edits send the updated post along; caption-only ones just the text
     const handlePostUpdated = (event: CustomEvent) => {
-      const { id, content } = event.detail;
+      const { id, content, post: updated } = event.detail;
       setPosts(prevPosts =>
         prevPosts.map(post =>
-          post.id === id ? { ...post, content } : post
+          post.id === id ? { ...post, ...(updated && { ...updated, author: post.author }), content } : post
         )
       );
     };
@@ -139,7 +186,7 @@ export function usePosts(category?: string, limit: number = 20): UsePostsReturn
       window.removeEventListener('postUpdated', handlePostUpdated as EventListener);
       window.removeEventListener('postDeleted', handlePostDeleted as EventListener);
     };
-  }, []);
+  }, [placeId]);
 
   return {
     posts,
@@ -3,6 +3,9 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { fetchAPI } from '../lib/dataFetcher';
+import type { MediaItem } from '../lib/postMedia';
+import type { PlaceSummary } from '../lib/places';
+import type { PostTagView } from '../lib/postTags';
 
 interface Post {
   id: number;
@@ -10,6 +13,9 @@ interface Post {
   category: string;
   media_url?: string;
   media_type?: string;
+  media?: MediaItem[];
+  place?: PlaceSummary | null;
+  tags?: PostTagView[];
   aura_count: number;
   created_at: string;
 }
@@ -0,0 +1,290 @@
+/**
+ * Account deletion with a grace period
+ *
+ * Deleting an account only schedules it: the account is deactivated and signed
+ * out everywhere, and logging in again within 30 days restores it (see
+ * reactivateAccount in lib/accountStatus.ts). After that
+ * the purge job (pages/api/cron/purge-deleted-accounts.ts) removes the user's
+ * data from every collection and fixes up follower counts.
+ *
+ * Sent messages can optionally be kept, shown to recipients as from a deleted user.
+ */
+
+import { ObjectId } from 'mongodb'
+import { getCollection, getDb, withRetry, Collections, User, Post, Comment, Follower, Message, Story } from './mongodb'
+import { GraphCollections } from './socialGraph'
+import { revokeAllSessions } from './sessions'
+import { getThrottleKey } from './loginSecurity'
+import { extractHashtags } from './hashtags'
+import { releaseHashtags } from './hashtagIndex'
+import { isPublished } from './postSchedule'
+import { removeUserRsvps } from './eventAttendance'
+
+export const DELETION_GRACE_PERIOD_MS = 30 * 24 * 60 * 60 * 1000
+
+// How many accounts one purge run handles, so a backlog can't time out the request
+const PURGE_BATCH_SIZE = 25
+
+export const DELETED_USER_NAME = 'Deleted user'
+
+/**
+ * Stand-in for a purged account wherever its kept messages are displayed
+ */
+export function deletedUserPlaceholder(id: number) {
+  return { id, name: DELETED_USER_NAME, profile_image: null }
+}
+
+/**
+ * Schedule deletion and sign the user out everywhere. Returns when the purge will happen.
+ */
+export async function scheduleAccountDeletion(userId: number, options: { anonymizeMessages: boolean }): Promise<Date> {
+  const users = await getCollection<User>(Collections.USERS)
+  const now = new Date()
+  const purgeAt = new Date(now.getTime() + DELETION_GRACE_PERIOD_MS)
+
+  await withRetry(async () => {
+    return users.updateOne(
+      { id: userId },
+      {
+        $set: {
+          is_deactivated: true,
+          deactivated_at: now,
+          deletion_requested_at: now,
+          deletion_purge_at: purgeAt,
+          deletion_anonymize_messages: options.anonymizeMessages,
+        }
+      }
+    )
+  })
+
+  await revokeAllSessions(userId)
+  return purgeAt
+}
+
+interface PurgeContext {
+  user: User
+  userId: number
+  userObjectId?: ObjectId
+  postIds: number[]
+  // Each deleted post's hashtags, to take off the counts
+  postHashtags: string[][]
+  commentIds: number[]
+  storyIds: number[]
+  anonymizeMessages: boolean
+}
+
+type PurgeStep = (ctx: PurgeContext) => Promise<unknown>
+
+async function deleteWhere(collectionName: string, filter: object): Promise<unknown> {
+  const db = await getDb()
+  return withRetry(async () => {
+    return db.collection(collectionName).deleteMany(filter)
+  })
+}
+
+// One step per collection; the mapped types make adding a collection without
+// deciding what happens to a deleted user's data there a type error
+const collectionSteps: { [K in keyof typeof Collections]: PurgeStep } = {
+  // Removed last, once nothing else needs to be looked up
+  USERS: async () => {},
+  // Other people's reposts of the account's posts go with them
+  POSTS: ({ userId, postIds }) => deleteWhere(Collections.POSTS, { $or: [{ user_id: userId }, { repost_of: { $in: postIds } }] }),
+  AURAS: ({ userId, postIds }) => deleteWhere(Collections.AURAS, { $or: [{ user_id: userId }, { post_id: { $in: postIds } }] }),
+  COMMENTS: ({ commentIds }) => deleteWhere(Collections.COMMENTS, { id: { $in: commentIds } }),
+  COMMENT_LIKES: ({ userId, commentIds }) => deleteWhere(Collections.COMMENT_LIKES, { $or: [{ user_id: userId }, { comment_id: { $in: commentIds } }] }),
+  FOLLOWERS: ({ userId }) => deleteWhere(Collections.FOLLOWERS, { $or: [{ follower_id: userId }, { following_id: userId }] }),
+  FOLLOW_REQUESTS: ({ userId }) => deleteWhere(Collections.FOLLOW_REQUESTS, { $or: [{ requester_id: userId }, { target_id: userId }] }),
+  MESSAGES: purgeMessages,
+  PASSWORD_RESETS: ({ userId }) => deleteWhere(Collections.PASSWORD_RESETS, { user_id: userId }),
+  EMAIL_VERIFICATIONS: ({ userId }) => deleteWhere(Collections.EMAIL_VERIFICATIONS, { user_id: userId }),
+  // Clubs belong to their members, so they outlive whoever created them
+  CLUBS: async () => {},
+  CLUB_MEMBERS: ({ userId }) => deleteWhere(Collections.CLUB_MEMBERS, { user_id: userId }),
+  CLUB_DISCUSSIONS: ({ userId }) => deleteWhere(Collections.CLUB_DISCUSSIONS, { user_id: userId }),
+  CLUB_COMMENTS: ({ userId }) => deleteWhere(Collections.CLUB_COMMENTS, { user_id: userId }),
+  BLOCKS: ({ userId }) => deleteWhere(Collections.BLOCKS, { $or: [{ blocker_id: userId }, { blocked_user_id: userId }] }),
+  SESSIONS: ({ userId }) => revokeAllSessions(userId),
+  MFA_FACTORS: ({ userId }) => deleteWhere(Collections.MFA_FACTORS, { user_id: userId }),
+  LOGIN_THROTTLES: ({ user }) => deleteWhere(Collections.LOGIN_THROTTLES, { key: getThrottleKey(user.college_id) }),
+  LOGIN_HISTORY: ({ userId }) => deleteWhere(Collections.LOGIN_HISTORY, { user_id: userId }),
+  ROLE_REQUESTS: ({ userId }) => deleteWhere(Collections.ROLE_REQUESTS, { user_id: userId }),
+  // Shared catalog; the places an admin created outlive their account
+  PLACES: async () => {},
+  POST_TAGS: ({ userId, postIds }) => deleteWhere(Collections.POST_TAGS, { $or: [{ user_id: userId }, { post_id: { $in: postIds } }] }),
+  SAVED_POSTS: ({ userId, postIds }) => deleteWhere(Collections.SAVED_POSTS, { $or: [{ user_id: userId }, { post_id: { $in: postIds } }] }),
+  SAVED_COLLECTIONS: ({ userId }) => deleteWhere(Collections.SAVED_COLLECTIONS, { user_id: userId }),
+  // Shared across users; only the counts of the deleted posts' tags change
+  HASHTAGS: ({ postHashtags }) => releaseHashtags(postHashtags),
+  HASHTAG_FOLLOWS: ({ userId }) => deleteWhere(Collections.HASHTAG_FOLLOWS, { user_id: userId }),
+  POST_REVISIONS: ({ postIds }) => deleteWhere(Collections.POST_REVISIONS, { post_id: { $in: postIds } }),
+  // Spots the user was holding go to the next people on each waitlist
+  EVENT_RSVPS: async ({ userId, postIds }) => {
+    await removeUserRsvps(userId)
+    await deleteWhere(Collections.EVENT_RSVPS, { post_id: { $in: postIds } })
+  },
+  CALENDAR_FEEDS: ({ userId }) => deleteWhere(Collections.CALENDAR_FEEDS, { user_id: userId }),
+  INTERNSHIP_APPLICATIONS: ({ userId, postIds }) => deleteWhere(Collections.INTERNSHIP_APPLICATIONS, { $or: [{ user_id: userId }, { post_id: { $in: postIds } }] }),
+  CLOSE_FRIENDS: ({ userId }) => deleteWhere(Collections.CLOSE_FRIENDS, { $or: [{ user_id: userId }, { friend_id: userId }] }),
+  POLL_VOTES: ({ userId, postIds }) => deleteWhere(Collections.POLL_VOTES, { $or: [{ user_id: userId }, { post_id: { $in: postIds } }] }),
+  STORIES: ({ userId }) => deleteWhere(Collections.STORIES, { user_id: userId }),
+  STORY_VIEWS: ({ userId, storyIds }) => deleteWhere(Collections.STORY_VIEWS, { $or: [{ viewer_id: userId }, { story_id: { $in: storyIds } }] }),
+  STORY_HIGHLIGHTS: ({ userId }) => deleteWhere(Collections.STORY_HIGHLIGHTS, { user_id: userId }),
+  NOTIFICATIONS: ({ userId }) => deleteWhere(Collections.NOTIFICATIONS, { user_id: userId }),
+}
+
+// The graph keys users by their document _id rather than the numeric id
+const graphSteps: { [K in keyof typeof GraphCollections]: PurgeStep } = {
+  GRAPH_EDGES: ({ userObjectId }) => userObjectId
+    ? deleteWhere(GraphCollections.GRAPH_EDGES, { $or: [{ sourceUserId: userObjectId }, { targetUserId: userObjectId }] })
+    : Promise.resolve(),
+  USER_GRAPH_CACHE: ({ userObjectId }) => userObjectId
+    ? deleteWhere(GraphCollections.USER_GRAPH_CACHE, { userId: userObjectId })
+    : Promise.resolve(),
+}
+
+async function purgeMessages({ userId, anonymizeMessages }: PurgeContext): Promise<void> {
+  const messages = await getCollection<Message>(Collections.MESSAGES)
+
+  if (!anonymizeMessages) {
+    await withRetry(async () => {
+      return messages.deleteMany({ $or: [{ sender_id: userId }, { receiver_id: userId }] })
+    })
+    return
+  }
+
+  // Keep both sides of each conversation for the other person, minus anything
+  // that only made sense to the deleted user
+  await withRetry(async () => {
+    return messages.updateMany({ sender_id: userId }, { $set: { sender_deleted: true } })
+  })
+  await withRetry(async () => {
+    return messages.updateMany({ receiver_id: userId }, { $set: { reaction: null } })
+  })
+  await withRetry(async () => {
+    return messages.updateMany({ deleted_for: userId }, { $pull: { deleted_for: userId } })
+  })
+}
+
+/**
+ * The user's comments, every comment on their posts, and all replies beneath those
+ */
+async function collectCommentIds(userId: number, postIds: number[]): Promise<number[]> {
+  const comments = await getCollection<Comment>(Collections.COMMENTS)
+  const initial = await withRetry(async () => {
+    return comments
+      .find({ $or: [{ user_id: userId }, { post_id: { $in: postIds } as any }] }, { projection: { id: 1 } })
+      .toArray()
+  })
+
+  const ids = new Set(initial.map(c => c.id as number))
+  let frontier = [...ids]
+
+  while (frontier.length > 0) {
+    const replies = await withRetry(async () => {
+      return comments
+        .find({ parent_id: { $in: frontier } as any }, { projection: { id: 1 } })
+        .toArray()
+    })
+    frontier = replies.map(c => c.id as number).filter(id => !ids.has(id))
+    frontier.forEach(id => ids.add(id))
+  }
+
+  return [...ids]
+}
+
+/**
+ * Recompute stored follower/following counts from the followers collection
+ */
+async function recountFollows(userIds: number[]): Promise<void> {
+  if (userIds.length === 0) return
+
+  const users = await getCollection<User>(Collections.USERS)
+  const followers = await getCollection<Follower>(Collections.FOLLOWERS)
+
+  for (const id of userIds) {
+    const [followersCount, followingCount] = await Promise.all([
+      followers.countDocuments({ following_id: id }),
+      followers.countDocuments({ follower_id: id }),
+    ])
+    await withRetry(async () => {
+      return users.updateOne({ id }, { $set: { followers_count: followersCount, following_count: followingCount } })
+    })
+  }
+}
+
+/**
+ * Permanently remove a user and everything that belongs to them
+ * Returns false if the user no longer exists
+ */
+export async function purgeAccount(userId: number): Promise<boolean> {
+  const users = await getCollection<User>(Collections.USERS)
+  const posts = await getCollection<Post>(Collections.POSTS)
+  const followers = await getCollection<Follower>(Collections.FOLLOWERS)
+  const stories = await getCollection<Story>(Collections.STORIES)
+
+  const user = await withRetry(async () => {
+    return users.findOne({ id: userId })
+  })
+  if (!user) return false
+
+  const [userPosts, follows, userStories] = await Promise.all([
+    withRetry(async () => posts.find({ user_id: userId }, { projection: { id: 1, caption: 1, hashtags: 1, status: 1 } }).toArray()),
+    withRetry(async () => followers.find({ $or: [{ follower_id: userId }, { following_id: userId }] }).toArray()),
+    withRetry(async () => stories.find({ user_id: userId }, { projection: { id: 1 } }).toArray()),
+  ])
+
+  const postIds = userPosts.map(p => p.id as number)
+  const ctx: PurgeContext = {
+    user,
+    userId,
+    userObjectId: user._id,
+    postIds,
+    postHashtags: userPosts.filter(isPublished).map(p => p.hashtags ?? extractHashtags(p.caption)),
+    commentIds: await collectCommentIds(userId, postIds),
+    storyIds: userStories.map(story => story.id),
+    anonymizeMessages: !!user.deletion_anonymize_messages,
+  }
+
+  // Everyone on the other end of a follow needs their counts fixed afterwards
+  const affectedUserIds = [...new Set(follows.map(f => (f.follower_id === userId ? f.following_id : f.follower_id) as number))]
+
+  for (const step of [...Object.values(collectionSteps), ...Object.values(graphSteps)]) {
+    await step(ctx)
+  }
+
+  await withRetry(async () => {
+    return users.deleteOne({ id: userId })
+  })
+
+  await recountFollows(affectedUserIds)
+  return true
+}
+
+/**
+ * Purge accounts whose grace period has ended. Safe to run repeatedly.
+ */
+export async function purgeDueAccounts(limit: number = PURGE_BATCH_SIZE): Promise<{ purged: number; failed: number }> {
+  const users = await getCollection<User>(Collections.USERS)
+  const due = await withRetry(async () => {
+    return users
+      .find({ deletion_purge_at: { $lte: new Date() } }, { projection: { id: 1 } })
+      .sort({ deletion_purge_at: 1 })
+      .limit(limit)
+      .toArray()
+  })
+
+  let purged = 0
+  let failed = 0
+
+  for (const { id } of due) {
+    try {
+      if (await purgeAccount(id as number)) purged++
+    } catch (error) {
+      // Leave it scheduled; the next run tries again
+      failed++
+      console.error(`Failed to purge account ${id}:`, error)
+    }
+  }
+
+  return { purged, failed }
+}
@@ -0,0 +1,63 @@
+/**
+ * Account deactivation
+ *
+ * A deactivated account (including one scheduled for deletion) is signed out
+ * and hidden from search, suggestions, feeds and follower lists until its
+ * owner logs in again, which reactivates it.
+ */
+
+import { WithId } from 'mongodb'
+import { getCollection, withRetry, Collections, User } from './mongodb'
+import { revokeAllSessions } from './sessions'
+
+// Spread into user queries to leave out deactivated accounts
+export const ACTIVE_USER_FILTER = { is_deactivated: { $ne: true } } as const
+
+/**
+ * Ids of every deactivated account, for excluding their posts and follows
+ * from queries that don't touch the users collection
+ */
+export async function getDeactivatedUserIds(): Promise<number[]> {
+  const users = await getCollection<User>(Collections.USERS)
+  const deactivated = await withRetry(async () => {
+    return users.find({ is_deactivated: true }, { projection: { id: 1 } }).toArray()
+  })
+  return deactivated.map(u => u.id as number)
+}
+
+export async function deactivateAccount(userId: number): Promise<void> {
+  const users = await getCollection<User>(Collections.USERS)
+  await withRetry(async () => {
+    return users.updateOne(
+      { id: userId },
+      { $set: { is_deactivated: true, deactivated_at: new Date() } }
+    )
+  })
+  await revokeAllSessions(userId)
+}
+
+/**
+ * Reactivate an account on login, cancelling any scheduled deletion
+ * Returns null if the account wasn't deactivated
+ */
+export async function reactivateAccount(user: User): Promise<{ user: WithId<User>; deletionCancelled: boolean } | null> {
+  if (!user.is_deactivated && !user.deletion_purge_at) return null
+
+  const users = await getCollection<User>(Collections.USERS)
+  const result = await withRetry(async () => {
+    return users.findOneAndUpdate(
+      { id: user.id as number },
+      {
+        $set: { is_deactivated: false },
+        $unset: { deactivated_at: '', deletion_requested_at: '', deletion_purge_at: '', deletion_anonymize_messages: '' }
+      },
+      { returnDocument: 'after' }
+    )
+  })
+
+  // Support both driver typings (document directly, or { value: document })
+  const reactivated = ((result as any)?.value ?? result) as WithId<User> | null
+  if (!reactivated) return null
+
+  return { user: reactivated, deletionCancelled: !!user.deletion_purge_at }
+}
@@ -1,8 +1,9 @@
 import bcrypt from 'bcryptjs'
 import jwt from 'jsonwebtoken'
-import { NextApiRequest } from 'next'
+import { NextApiRequest, NextApiResponse } from 'next'
 import crypto from 'crypto'
 import { checkRateLimit } from './redis'
+import { recordSession, getActiveSession, rotateRefreshToken, REFRESH_TOKEN_TTL_MS } from './sessions'
 
 const JWT_SECRET = process.env.JWT_SECRET
 
@@ -18,6 +19,10 @@ if (JWT_SECRET.length < 32) {
 // Type assertion since we've verified JWT_SECRET exists
 const jwtSecret: string = JWT_SECRET
 
+// Access tokens are short-lived; the httpOnly refresh cookie keeps the session going
+export const ACCESS_TOKEN_TTL = '15m'
+export const REFRESH_COOKIE_NAME = 'unix_refresh'
+
 // Password hashing with increased rounds for better security
 export async function hashPassword(password: string): Promise<string> {
   if (!password || password.length < 8) {
@@ -31,15 +36,16 @@ export async function verifyPassword(password: string, hashedPassword: string):
   return await bcrypt.compare(password, hashedPassword)
 }
 
-export function generateToken(userId: number): string {
+// The jti identifies the session, so access tokens minted on refresh reuse it
+export function generateToken(userId: number, jti: string = crypto.randomBytes(16).toString('hex')): string {
   const payload = {
     userId,
     iat: Math.floor(Date.now() / 1000),
-    jti: crypto.randomBytes(16).toString('hex'), // Unique token ID for revocation
+    jti, // Session ID for revocation
   }
   
   return jwt.sign(payload, jwtSecret, {
-    expiresIn: '7d',
+    expiresIn: ACCESS_TOKEN_TTL,
     algorithm: 'HS256',
     issuer: 'unix-social',
     audience: 'unix-api'
@@ -73,7 +79,52 @@ export function verifyToken(token: string): { userId: number; iat: number; jti:
   }
 }
 
-export function getUserFromRequest(req: NextApiRequest): { userId: number; iat: number; jti: string } | null {
+// Short-lived proof that the password step passed for a user with 2FA enabled.
+// Uses its own audience so it can never be used as an access token.
+export function generateMfaPendingToken(userId: number): string {
+  return jwt.sign({ userId, purpose: 'mfa' }, jwtSecret, {
+    expiresIn: '5m',
+    algorithm: 'HS256',
+    issuer: 'unix-social',
+    audience: 'unix-mfa'
+  })
+}
+
+export function verifyMfaPendingToken(token: string): number | null {
+  try {
+    if (!token || typeof token !== 'string' || token.length > 1000) return null
+
+    const decoded = jwt.verify(token, jwtSecret, {
+      algorithms: ['HS256'],
+      issuer: 'unix-social',
+      audience: 'unix-mfa'
+    }) as { userId: number; purpose: string }
+
+    if (decoded.purpose !== 'mfa' || typeof decoded.userId !== 'number') return null
+    return decoded.userId
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Verify an access token and check that its session is still live, so
+ * logging out, removing a device, resetting the password or deleting the
+ * account revokes it immediately. verifyToken alone only checks the signature.
+ */
+export async function verifySessionToken(token: string): Promise<{ userId: number; iat: number; jti: string } | null> {
+  const decoded = verifyToken(token)
+  if (!decoded) return null
+
+  const session = await getActiveSession(decoded.jti)
+  if (!session || session.user_id !== decoded.userId) {
+    return null
+  }
+
+  return decoded
+}
+
+export async function getUserFromRequest(req: NextApiRequest): Promise<{ userId: number; iat: number; jti: string } | null> {
   const authHeader = req.headers.authorization
   
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -83,16 +134,86 @@ export function getUserFromRequest(req: NextApiRequest): { userId: number; iat:
   const token = authHeader.replace('Bearer ', '').trim()
   if (!token) return null
   
-  return verifyToken(token)
+  return verifySessionToken(token)
 }
 
-// Secure token refresh (generate new token before old one expires)
-export function refreshToken(oldToken: string): string | null {
-  const decoded = verifyToken(oldToken)
-  if (!decoded) return null
-  
-  // Only allow refresh if token is still valid
-  return generateToken(decoded.userId)
+// Issue an access token, register the session with device metadata and set its refresh cookie
+export async function createSessionToken(userId: number, req: NextApiRequest, res: NextApiResponse): Promise<string> {
+  const token = generateToken(userId)
+  const decoded = jwt.decode(token) as { jti: string }
+  const refreshToken = crypto.randomBytes(32).toString('hex')
+
+  await recordSession({
+    userId,
+    jti: decoded.jti,
+    refreshToken,
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    ip: getClientIp(req),
+    userAgent: req.headers['user-agent'] || '',
+  })
+
+  setRefreshCookie(res, refreshToken)
+  return token
+}
+
+// Exchange the refresh cookie for a new access token, rotating the cookie
+// Returns null (and clears the cookie) when the refresh token is invalid or was reused
+export async function refreshSessionToken(req: NextApiRequest, res: NextApiResponse): Promise<string | null> {
+  const refreshToken = getRefreshTokenFromRequest(req)
+  if (!refreshToken) return null
+
+  const result = await rotateRefreshToken(refreshToken)
+  if (!result) {
+    clearRefreshCookie(res)
+    return null
+  }
+
+  // Within the grace window a concurrent request already rotated the cookie
+  if (result.refreshToken) {
+    setRefreshCookie(res, result.refreshToken)
+  }
+
+  return generateToken(result.session.user_id, result.session.jti)
+}
+
+export function getRefreshTokenFromRequest(req: NextApiRequest): string | null {
+  const token = req.cookies?.[REFRESH_COOKIE_NAME]
+  if (!token || !/^[a-f0-9]{64}$/.test(token)) return null
+  return token
+}
+
+// Auth cookies are only sent to /api/auth routes (refresh, logout, login)
+function buildAuthCookie(name: string, value: string, maxAgeSeconds: number): string {
+  const parts = [
+    `${name}=${value}`,
+    'Path=/api/auth',
+    `Max-Age=${maxAgeSeconds}`,
+    'HttpOnly',
+    'SameSite=Strict',
+  ]
+  if (process.env.NODE_ENV === 'production') {
+    parts.push('Secure')
+  }
+  return parts.join('; ')
+}
+
+// Add a Set-Cookie header without dropping cookies already set on this response
+export function appendSetCookie(res: NextApiResponse, cookie: string): void {
+  const existing = res.getHeader('Set-Cookie')
+  const cookies = Array.isArray(existing) ? existing : existing ? [String(existing)] : []
+  res.setHeader('Set-Cookie', [...cookies, cookie])
+}
+
+export function setAuthCookie(res: NextApiResponse, name: string, value: string, maxAgeSeconds: number): void {
+  appendSetCookie(res, buildAuthCookie(name, value, maxAgeSeconds))
+}
+
+export function setRefreshCookie(res: NextApiResponse, refreshToken: string): void {
+  setAuthCookie(res, REFRESH_COOKIE_NAME, refreshToken, Math.floor(REFRESH_TOKEN_TTL_MS / 1000))
+}
+
+export function clearRefreshCookie(res: NextApiResponse): void {
+  setAuthCookie(res, REFRESH_COOKIE_NAME, '', 0)
 }
 
 // Rate limiting middleware using Redis (or in-memory fallback)
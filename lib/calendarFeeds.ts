@@ -0,0 +1,126 @@
+/**
+ * Calendar export of event posts
+ *
+ * Each event can be downloaded as an .ics file, and every user can turn on a
+ * personal iCal feed of the events they answered going, waitlisted or
+ * interested to. Calendar apps can't sign in, so the feed URL carries a random
+ * token instead; rotating it cuts off every app subscribed with the old URL.
+ */
+
+import crypto from 'crypto'
+import type { WithId } from 'mongodb'
+import {
+  getCollection,
+  withRetry,
+  Collections,
+  CalendarFeed,
+  EventRsvp,
+  Post,
+} from './mongodb'
+import { getAppUrl } from './mailer'
+import { filterVisiblePosts } from './postViews'
+import { getPlaceSummaries } from './placeCatalog'
+import { buildICalendar, eventEndsAt, eventTitle, CalendarEntry } from './events'
+
+// Ended events stay in the feed this long
+const FEED_HISTORY_DAYS = 30
+
+export function calendarFeedUrl(token: string): string {
+  return `${getAppUrl()}/api/calendar/${token}.ics`
+}
+
+export async function getCalendarFeedToken(userId: number): Promise<string | null> {
+  const feeds = await getCollection<CalendarFeed>(Collections.CALENDAR_FEEDS)
+  const feed = await withRetry(async () => {
+    return feeds.findOne({ user_id: userId })
+  })
+  return feed?.token || null
+}
+
+// Turn the feed on, or replace its URL if it already was
+export async function rotateCalendarFeedToken(userId: number): Promise<string> {
+  const feeds = await getCollection<CalendarFeed>(Collections.CALENDAR_FEEDS)
+  const token = crypto.randomBytes(24).toString('base64url')
+  await withRetry(async () => {
+    return feeds.updateOne(
+      { user_id: userId },
+      { $set: { token, created_at: new Date() } },
+      { upsert: true }
+    )
+  })
+  return token
+}
+
+export async function disableCalendarFeed(userId: number): Promise<void> {
+  const feeds = await getCollection<CalendarFeed>(Collections.CALENDAR_FEEDS)
+  await withRetry(async () => {
+    return feeds.deleteOne({ user_id: userId })
+  })
+}
+
+export async function findCalendarFeedUser(token: string): Promise<number | null> {
+  if (!token) return null
+  const feeds = await getCollection<CalendarFeed>(Collections.CALENDAR_FEEDS)
+  const feed = await withRetry(async () => {
+    return feeds.findOne({ token })
+  })
+  return feed?.user_id ?? null
+}
+
+async function toCalendarEntries(posts: WithId<Post>[], statuses: Map<number, EventRsvp['status']> = new Map()): Promise<CalendarEntry[]> {
+  const placeMap = await getPlaceSummaries(posts.map(p => p.place_id).filter(Boolean) as number[])
+  const host = new URL(getAppUrl()).host
+
+  return posts.filter(post => post.event).map(post => {
+    const event = post.event!
+    const place = post.place_id ? placeMap.get(post.place_id) : null
+    const status = statuses.get(post.id as number)
+    const details = [
+      post.caption || '',
+      event.organizer_club ? `Organized by ${event.organizer_club}` : '',
+      status === 'waitlisted' ? "You're on the waitlist" : '',
+    ].filter(Boolean)
+
+    return {
+      uid: `event-${post.id}@${host}`,
+      title: eventTitle(post.caption),
+      starts_at: new Date(event.starts_at),
+      ends_at: eventEndsAt(event),
+      location: place && place.name !== event.venue ? `${event.venue}, ${place.name}` : event.venue,
+      description: details.join('\n\n'),
+      url: `${getAppUrl()}/post/${post.id}`,
+      ...(status && { status: status === 'going' ? 'CONFIRMED' as const : 'TENTATIVE' as const }),
+      updated_at: post.edited_at || post.created_at,
+    }
+  })
+}
+
+// A single event as an .ics file
+export async function buildEventCalendar(post: WithId<Post>): Promise<string> {
+  return buildICalendar(await toCalendarEntries([post]))
+}
+
+/**
+ * The user's feed: upcoming and recent events they answered anything but
+ * "not going" to, minus posts they can no longer see
+ */
+export async function buildUserCalendar(userId: number): Promise<string> {
+  const rsvps = await getCollection<EventRsvp>(Collections.EVENT_RSVPS)
+  const posts = await getCollection<Post>(Collections.POSTS)
+
+  const answered = await withRetry(async () => {
+    return rsvps.find({ user_id: userId, status: { $in: ['going', 'waitlisted', 'interested'] } }).toArray()
+  })
+  const statuses = new Map(answered.map(rsvp => [rsvp.post_id, rsvp.status]))
+  const since = new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000)
+
+  const found = answered.length === 0 ? [] : await withRetry(async () => {
+    return posts
+      .find({ id: { $in: [...statuses.keys()] }, 'event.starts_at': { $gte: since } })
+      .sort({ 'event.starts_at': 1 })
+      .toArray()
+  })
+  const { visible } = await filterVisiblePosts(found, userId)
+
+  return buildICalendar(await toCalendarEntries(visible, statuses), { name: 'UNI-X events' })
+}
@@ -0,0 +1,163 @@
+/**
+ * Close friends lists and audience lookups
+ *
+ * Each user keeps a private list of close friends, picked from their
+ * followers; only the people on it see that user's close-friends posts.
+ * Nobody is told they were added or removed. The audience rules themselves
+ * are in lib/postAudience.ts.
+ */
+
+import {
+  getCollection,
+  withRetry,
+  Collections,
+  CloseFriend,
+  Follower,
+  Post,
+  User,
+} from './mongodb'
+import { ACTIVE_USER_FILTER } from './accountStatus'
+import { canSeeAudience, AudienceViewer, ANONYMOUS_VIEWER, MAX_CLOSE_FRIENDS } from './postAudience'
+
+export interface CloseFriendView {
+  id: number
+  name: string
+  username: string | null
+  department: string
+  year: number
+  profile_image: string | null
+}
+
+export type CloseFriendResult = { ok: true } | { error: 'not_follower' | 'limit' }
+
+/**
+ * The user's close friends, most recently added first, leaving out
+ * deactivated accounts
+ */
+export async function listCloseFriends(userId: number): Promise<CloseFriendView[]> {
+  const closeFriends = await getCollection<CloseFriend>(Collections.CLOSE_FRIENDS)
+  const users = await getCollection<User>(Collections.USERS)
+
+  const entries = await withRetry(async () => {
+    return closeFriends.find({ user_id: userId }).sort({ created_at: -1 }).toArray()
+  })
+  if (entries.length === 0) return []
+
+  const found = await withRetry(async () => {
+    return users.find({ id: { $in: entries.map(e => e.friend_id) }, ...ACTIVE_USER_FILTER }).toArray()
+  })
+  const byId = new Map(found.map(user => [user.id as number, user]))
+  return entries
+    .map(entry => byId.get(entry.friend_id))
+    .filter((user): user is NonNullable<typeof user> => !!user)
+    .map(user => ({
+      id: user.id as number,
+      name: user.name,
+      username: user.username || null,
+      department: user.department,
+      year: user.year,
+      profile_image: user.profile_image || null,
+    }))
+}
+
+export async function getCloseFriendIds(userId: number): Promise<number[]> {
+  const closeFriends = await getCollection<CloseFriend>(Collections.CLOSE_FRIENDS)
+  const entries = await withRetry(async () => {
+    return closeFriends.find({ user_id: userId }, { projection: { friend_id: 1 } }).toArray()
+  })
+  return entries.map(e => e.friend_id)
+}
+
+// Only followers can be added; adding someone twice is fine
+export async function addCloseFriend(userId: number, friendId: number): Promise<CloseFriendResult> {
+  const closeFriends = await getCollection<CloseFriend>(Collections.CLOSE_FRIENDS)
+  const followers = await getCollection<Follower>(Collections.FOLLOWERS)
+
+  const [follows, count] = await withRetry(async () => {
+    return Promise.all([
+      followers.findOne({ follower_id: friendId, following_id: userId }),
+      closeFriends.countDocuments({ user_id: userId }),
+    ])
+  })
+  if (!follows) return { error: 'not_follower' }
+  if (count >= MAX_CLOSE_FRIENDS) return { error: 'limit' }
+
+  await withRetry(async () => {
+    return closeFriends.updateOne(
+      { user_id: userId, friend_id: friendId },
+      { $setOnInsert: { user_id: userId, friend_id: friendId, created_at: new Date() } },
+      { upsert: true }
+    )
+  })
+  return { ok: true }
+}
+
+export async function removeCloseFriend(userId: number, friendId: number): Promise<void> {
+  const closeFriends = await getCollection<CloseFriend>(Collections.CLOSE_FRIENDS)
+  await withRetry(async () => {
+    return closeFriends.deleteOne({ user_id: userId, friend_id: friendId })
+  })
+}
+
+/**
+ * What the audience rules need to know about a viewer. Pass `authorIds` to
+ * look up only the relationships with those authors; without it, every
+ * author the viewer follows or is a close friend of is included.
+ */
+export async function getAudienceViewer(viewerId: number | null, authorIds?: number[]): Promise<AudienceViewer> {
+  if (!viewerId) return ANONYMOUS_VIEWER
+  if (authorIds && authorIds.length === 0) return { userId: viewerId, following: [], closeFriendOf: [] }
+
+  const users = await getCollection<User>(Collections.USERS)
+  const followers = await getCollection<Follower>(Collections.FOLLOWERS)
+  const closeFriends = await getCollection<CloseFriend>(Collections.CLOSE_FRIENDS)
+  const authors = authorIds ? [...new Set(authorIds)] : null
+
+  const [viewer, follows, lists] = await withRetry(async () => {
+    return Promise.all([
+      users.findOne({ id: viewerId }, { projection: { department: 1, year: 1 } }),
+      followers.find({ follower_id: viewerId, ...(authors && { following_id: { $in: authors } }) }).toArray(),
+      closeFriends.find({ friend_id: viewerId, ...(authors && { user_id: { $in: authors } }) }).toArray(),
+    ])
+  })
+
+  return {
+    userId: viewerId,
+    department: viewer?.department || null,
+    year: viewer?.year ?? null,
+    following: follows.map(f => f.following_id as number),
+    closeFriendOf: lists.map(entry => entry.user_id),
+  }
+}
+
+/**
+ * Which of the given users the post's audience includes, for notifications
+ * about it. Public posts include everyone.
+ */
+export async function filterAudienceMembers(post: Pick<Post, 'user_id' | 'audience'>, userIds: number[]): Promise<number[]> {
+  if (!post.audience || userIds.length === 0) return userIds
+  const authorId = post.user_id as number
+
+  const users = await getCollection<User>(Collections.USERS)
+  const followers = await getCollection<Follower>(Collections.FOLLOWERS)
+  const closeFriends = await getCollection<CloseFriend>(Collections.CLOSE_FRIENDS)
+
+  const [members, follows, lists] = await withRetry(async () => {
+    return Promise.all([
+      users.find({ id: { $in: userIds } }, { projection: { id: 1, department: 1, year: 1 } }).toArray(),
+      followers.find({ follower_id: { $in: userIds }, following_id: authorId }).toArray(),
+      closeFriends.find({ user_id: authorId, friend_id: { $in: userIds } }).toArray(),
+    ])
+  })
+  const profiles = new Map(members.map(user => [user.id as number, user]))
+  const followerIds = new Set(follows.map(f => f.follower_id as number))
+  const friendIds = new Set(lists.map(entry => entry.friend_id))
+
+  return userIds.filter(userId => canSeeAudience(post, {
+    userId,
+    department: profiles.get(userId)?.department || null,
+    year: profiles.get(userId)?.year ?? null,
+    following: followerIds.has(userId) ? [authorId] : [],
+    closeFriendOf: friendIds.has(userId) ? [authorId] : [],
+  }))
+}
@@ -0,0 +1,31 @@
+import crypto from 'crypto'
+import { NextApiRequest, NextApiResponse } from 'next'
+
+/**
+ * Check that a scheduled-job request carries `Authorization: Bearer ${CRON_SECRET}`
+ * (sent by Vercel Cron, see vercel.json, or by server.js when self-hosted),
+ * responding 405/503/401 on failure
+ *
+ *   if (!requireCronSecret(req, res)) return
+ */
+export function requireCronSecret(req: NextApiRequest, res: NextApiResponse): boolean {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.status(405).json({ error: 'Method not allowed' })
+    return false
+  }
+
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    res.status(503).json({ error: 'CRON_SECRET is not configured' })
+    return false
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`)
+  const provided = Buffer.from(req.headers.authorization || '')
+  if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return false
+  }
+
+  return true
+}
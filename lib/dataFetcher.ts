@@ -158,7 +158,8 @@ class DataFetchManager {
     url: string,
     options: RequestInit,
     retries: number,
-    retryDelay: number
+    retryDelay: number,
+    hasRefreshed = false
   ): Promise<T> {
     let lastError: Error | null = null;
 
@@ -167,6 +168,21 @@ class DataFetchManager {
         const response = await fetch(url, options);
 
         if (!response.ok) {
+          // Access tokens are short-lived: refresh once and replay the request
+          const headers = options.headers as Record<string, string> | undefined;
+          if (response.status === 401 && !hasRefreshed && headers?.['Authorization']) {
+            const newToken = await refreshAccessToken();
+            if (newToken) {
+              return this.performFetch<T>(
+                url,
+                { ...options, headers: { ...headers, 'Authorization': `Bearer ${newToken}` } },
+                retries,
+                retryDelay,
+                true
+              );
+            }
+          }
+
           // Don't retry on client errors (4xx)
           if (response.status >= 400 && response.status < 500) {
             const error = await response.json().catch(() => ({ error: 'Request failed' }));
@@ -296,6 +312,50 @@ class DataFetchManager {
 // Export singleton instance
 export const dataFetcher = new DataFetchManager();
 
+let pendingRefresh: Promise<string | null> | null = null;
+
+/**
+ * Exchange the httpOnly refresh cookie for a new access token.
+ * Concurrent callers share one request, since each refresh rotates the cookie.
+ * Stores the token and dispatches a 'token-refreshed' event on success; when the
+ * session is gone it clears the stored token and dispatches 'unauthorized'.
+ */
+export function refreshAccessToken(): Promise<string | null> {
+  if (typeof window === 'undefined') return Promise.resolve(null);
+  if (pendingRefresh) return pendingRefresh;
+
+  pendingRefresh = (async () => {
+    try {
+      const response = await fetch('/api/auth/refresh', {
+        method: 'POST',
+        credentials: 'same-origin',
+      });
+
+      if (!response.ok) {
+        if (response.status === 401 && localStorage.getItem('token')) {
+          console.warn('⚠️ Refresh token rejected - session has ended');
+          localStorage.removeItem('token');
+          localStorage.removeItem('user');
+          window.dispatchEvent(new CustomEvent('unauthorized'));
+        }
+        return null;
+      }
+
+      const data = await response.json() as { token: string };
+      localStorage.setItem('token', data.token);
+      window.dispatchEvent(new CustomEvent('token-refreshed', { detail: { token: data.token } }));
+      return data.token;
+    } catch (error) {
+      console.warn('⚠️ Token refresh failed:', error);
+      return null;
+    } finally {
+      pendingRefresh = null;
+    }
+  })();
+
+  return pendingRefresh;
+}
+
 /**
  * Convenience wrapper for authenticated requests
  */
@@ -0,0 +1,103 @@
+/**
+ * Email verification for new accounts
+ *
+ * Registration stores `email_verified: false` and emails a one-time link.
+ * Until the link is redeemed the account can browse but not post or message.
+ * Accounts created before verification existed have no flag and count as verified.
+ */
+
+import crypto from 'crypto'
+import { getCollection, withRetry, Collections, User, EmailVerification, getNextSequenceValue } from './mongodb'
+import { queueEmail, getAppUrl } from './mailer'
+
+const VERIFICATION_TOKEN_TTL_MS = 24 * 60 * 60 * 1000
+
+export const EMAIL_NOT_VERIFIED_ERROR = 'Please verify your email address to continue'
+
+/**
+ * Issue a fresh verification token, invalidating any earlier ones
+ */
+export async function createEmailVerification(user: User): Promise<string> {
+  const verifications = await getCollection<EmailVerification>(Collections.EMAIL_VERIFICATIONS)
+  const now = new Date()
+
+  await withRetry(async () => {
+    return verifications.updateMany(
+      { user_id: user.id as number, used: false },
+      { $set: { used: true, used_at: now } }
+    )
+  })
+
+  const token = crypto.randomBytes(32).toString('hex')
+  const verificationId = await getNextSequenceValue('email_verifications')
+
+  await withRetry(async () => {
+    return verifications.insertOne({
+      id: verificationId,
+      user_id: user.id as number,
+      email: user.email as string,
+      token,
+      expires_at: new Date(now.getTime() + VERIFICATION_TOKEN_TTL_MS),
+      used: false,
+      created_at: now,
+    } as any)
+  })
+
+  return token
+}
+
+/**
+ * Queue the verification email. Returns the link so development builds can show it.
+ */
+export function sendVerificationEmail(user: User, token: string): string {
+  const verifyUrl = `${getAppUrl()}/verify-email?token=${token}`
+
+  queueEmail(user.email as string, 'email_verification', {
+    name: user.name,
+    verifyUrl,
+    expiresInHours: VERIFICATION_TOKEN_TTL_MS / (60 * 60 * 1000),
+  })
+
+  return verifyUrl
+}
+
+/**
+ * Redeem a verification token. Returns the verified user's ID, or null if the
+ * token is unknown, expired or already used.
+ */
+export async function redeemEmailVerification(token: string): Promise<number | null> {
+  const verifications = await getCollection<EmailVerification>(Collections.EMAIL_VERIFICATIONS)
+  const users = await getCollection<User>(Collections.USERS)
+  const now = new Date()
+
+  // Claim the token atomically so it can only ever be redeemed once
+  const claimed = await withRetry(async () => {
+    return verifications.findOneAndUpdate(
+      { token, used: false, expires_at: { $gt: now } },
+      { $set: { used: true, used_at: now } },
+      { returnDocument: 'after' }
+    )
+  })
+
+  // Support both driver typings (document directly, or { value: document })
+  const verification = ((claimed as any)?.value ?? claimed) as EmailVerification | null
+  if (!verification) return null
+
+  // The link only confirms the address it was sent to
+  const result = await withRetry(async () => {
+    return users.updateOne(
+      { id: verification.user_id, email: verification.email },
+      { $set: { email_verified: true, email_verified_at: now } }
+    )
+  })
+
+  return result.matchedCount > 0 ? verification.user_id : null
+}
+
+export async function isEmailVerified(userId: number): Promise<boolean> {
+  const users = await getCollection<User>(Collections.USERS)
+  const user = await withRetry(async () => {
+    return users.findOne({ id: userId }, { projection: { email_verified: 1 } })
+  })
+  return user?.email_verified !== false
+}
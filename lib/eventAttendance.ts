@@ -0,0 +1,316 @@
+/**
+ * RSVPs, waitlists and reminders for event posts
+ *
+ * One RSVP per person and event. Answering "going" to a full event lands on
+ * the waitlist; whenever a spot frees up, the longest-waiting person moves up
+ * and is told so. See lib/events.ts for the event details themselves.
+ */
+
+import {
+  getCollection,
+  withRetry,
+  Collections,
+  EventRsvp,
+  EventRsvpStatus,
+  Post,
+  PostEvent,
+  User,
+} from './mongodb'
+import { ACTIVE_USER_FILTER } from './accountStatus'
+import { PUBLISHED_POST_FILTER } from './postSchedule'
+import { eventTitle, EVENT_REMINDER_LEAD_MINUTES } from './events'
+import { filterAudienceMembers } from './closeFriends'
+
+const REMINDER_BATCH_SIZE = 50
+
+type EventPost = { id?: number; caption?: string; event?: PostEvent }
+
+export interface RsvpSummary {
+  going: number
+  waitlisted: number
+  interested: number
+  not_going: number
+  // The viewer's answer, and their place in line while waitlisted
+  my_status: EventRsvpStatus | null
+  waitlist_position: number | null
+}
+
+function notifyUsers(userIds: number[], message: string, meta: Record<string, unknown>): void {
+  try {
+    if (!(global as any).io) return
+    for (const userId of userIds) {
+      ;(global as any).io.to(`user-${userId}`).emit('notification', {
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        type: 'system',
+        message,
+        time: new Date().toISOString(),
+        read: false,
+        meta,
+      })
+    }
+  } catch (notificationError) {
+    console.warn('Failed to send notification:', notificationError)
+  }
+}
+
+export async function getRsvp(postId: number, userId: number): Promise<EventRsvp | null> {
+  const rsvps = await getCollection<EventRsvp>(Collections.EVENT_RSVPS)
+  return withRetry(async () => {
+    return rsvps.findOne({ post_id: postId, user_id: userId })
+  })
+}
+
+/**
+ * Fill free spots from the waitlist, longest waiting first, and tell each
+ * person who moved up (except `quietUserId`, who is getting the answer
+ * directly). Returns who was promoted.
+ */
+export async function promoteFromWaitlist(post: EventPost, quietUserId?: number): Promise<number[]> {
+  if (!post.event) return []
+  const postId = post.id as number
+  const rsvps = await getCollection<EventRsvp>(Collections.EVENT_RSVPS)
+  const capacity = post.event.capacity
+  const promoted: number[] = []
+
+  while (true) {
+    if (capacity) {
+      const going = await withRetry(async () => {
+        return rsvps.countDocuments({ post_id: postId, status: 'going' })
+      })
+      if (going >= capacity) break
+    }
+    const result = await withRetry(async () => {
+      return rsvps.findOneAndUpdate(
+        { post_id: postId, status: 'waitlisted' },
+        { $set: { status: 'going', updated_at: new Date() } },
+        { sort: { updated_at: 1 }, returnDocument: 'after' }
+      )
+    })
+    const rsvp = ((result as any)?.value ?? result) as EventRsvp | null
+    if (!rsvp) break
+    promoted.push(rsvp.user_id)
+  }
+
+  const toNotify = promoted.filter(userId => userId !== quietUserId)
+  if (toNotify.length > 0) {
+    notifyUsers(toNotify, `A spot opened up: you're now going to "${eventTitle(post.caption)}"`, {
+      kind: 'event_waitlist_promoted',
+      postId,
+    })
+  }
+  return promoted
+}
+
+/**
+ * Record a person's answer. Going (from anything but going or the waitlist)
+ * joins the back of the waitlist and is promoted straight away if there's
+ * room; leaving "going" hands the spot to the next in line.
+ */
+export async function setRsvp(post: EventPost, userId: number, choice: EventRsvpStatus): Promise<EventRsvp> {
+  const postId = post.id as number
+  const rsvps = await getCollection<EventRsvp>(Collections.EVENT_RSVPS)
+  const existing = await getRsvp(postId, userId)
+  const now = new Date()
+
+  const keepsPlace = choice === 'going' && (existing?.status === 'going' || existing?.status === 'waitlisted')
+  if (!keepsPlace && existing?.status !== choice) {
+    const status: EventRsvpStatus = choice === 'going' ? 'waitlisted' : choice
+    await withRetry(async () => {
+      return rsvps.updateOne(
+        { post_id: postId, user_id: userId },
+        { $set: { status, updated_at: now }, $setOnInsert: { created_at: now } },
+        { upsert: true }
+      )
+    })
+    if (choice === 'going' || existing?.status === 'going') {
+      await promoteFromWaitlist(post, userId)
+    }
+  }
+
+  return (await getRsvp(postId, userId)) as EventRsvp
+}
+
+export async function removeRsvp(post: EventPost, userId: number): Promise<void> {
+  const rsvps = await getCollection<EventRsvp>(Collections.EVENT_RSVPS)
+  const result = await withRetry(async () => {
+    return rsvps.findOneAndDelete({ post_id: post.id as number, user_id: userId })
+  })
+  const removed = ((result as any)?.value ?? result) as EventRsvp | null
+  if (removed?.status === 'going') await promoteFromWaitlist(post)
+}
+
+export async function getRsvpSummary(postId: number, viewerId: number | null): Promise<RsvpSummary> {
+  const rsvps = await getCollection<EventRsvp>(Collections.EVENT_RSVPS)
+  const [counts, mine] = await Promise.all([
+    withRetry(async () => {
+      return rsvps.aggregate<{ _id: EventRsvpStatus; count: number }>([
+        { $match: { post_id: postId } },
+        { $group: { _id: '$status', count: { $sum: 1 } } },
+      ]).toArray()
+    }),
+    viewerId ? getRsvp(postId, viewerId) : Promise.resolve(null),
+  ])
+
+  const summary: RsvpSummary = {
+    going: 0,
+    waitlisted: 0,
+    interested: 0,
+    not_going: 0,
+    my_status: mine?.status || null,
+    waitlist_position: null,
+  }
+  for (const { _id, count } of counts) summary[_id] = count
+
+  if (mine?.status === 'waitlisted') {
+    const ahead = await withRetry(async () => {
+      return rsvps.countDocuments({ post_id: postId, status: 'waitlisted', updated_at: { $lt: mine.updated_at } })
+    })
+    summary.waitlist_position = ahead + 1
+  }
+  return summary
+}
+
+/**
+ * People with the given answer, in the API shape. The waitlist is in line
+ * order; other lists show the most recent answers first.
+ */
+export async function listAttendees(
+  postId: number,
+  status: EventRsvpStatus,
+  { limit = 50, offset = 0 }: { limit?: number; offset?: number } = {}
+) {
+  const rsvps = await getCollection<EventRsvp>(Collections.EVENT_RSVPS)
+  const users = await getCollection<User>(Collections.USERS)
+
+  const list = await withRetry(async () => {
+    return rsvps
+      .find({ post_id: postId, status })
+      .sort({ updated_at: status === 'waitlisted' ? 1 : -1 })
+      .skip(offset)
+      .limit(limit)
+      .toArray()
+  })
+  const people = await withRetry(async () => {
+    return users
+      .find({ id: { $in: list.map(r => r.user_id) }, ...ACTIVE_USER_FILTER })
+      .project<Pick<User, 'id' | 'name' | 'username' | 'profile_image' | 'department'>>({ id: 1, name: 1, username: 1, profile_image: 1, department: 1 })
+      .toArray()
+  })
+  const byId = new Map(people.map(person => [person.id as number, person]))
+
+  return list
+    .filter(rsvp => byId.has(rsvp.user_id))
+    .map(rsvp => {
+      const person = byId.get(rsvp.user_id)!
+      return {
+        id: person.id,
+        name: person.name,
+        username: person.username || null,
+        profile_image: person.profile_image || null,
+        department: person.department,
+        status: rsvp.status,
+        responded_at: rsvp.updated_at,
+      }
+    })
+}
+
+/**
+ * Keep RSVPs in line with an edited event: dropping the event details drops
+ * its RSVPs, more room promotes from the waitlist. A smaller capacity leaves
+ * people who are already going alone.
+ */
+export async function applyEventChange(post: EventPost, previous: PostEvent | undefined): Promise<void> {
+  if (!post.event) {
+    if (previous) await deleteEventRsvps([post.id as number])
+    return
+  }
+  const before = previous?.capacity ?? Infinity
+  const after = post.event.capacity ?? Infinity
+  if (after > before) await promoteFromWaitlist(post)
+}
+
+export async function deleteEventRsvps(postIds: number[]): Promise<void> {
+  if (postIds.length === 0) return
+  const rsvps = await getCollection<EventRsvp>(Collections.EVENT_RSVPS)
+  await withRetry(async () => {
+    return rsvps.deleteMany({ post_id: { $in: postIds } })
+  })
+}
+
+/**
+ * Drop a user's RSVPs (account deletion), handing their spots to the next
+ * people in line
+ */
+export async function removeUserRsvps(userId: number): Promise<void> {
+  const rsvps = await getCollection<EventRsvp>(Collections.EVENT_RSVPS)
+  const posts = await getCollection<Post>(Collections.POSTS)
+
+  const going = await withRetry(async () => {
+    return rsvps.find({ user_id: userId, status: 'going' }, { projection: { post_id: 1 } }).toArray()
+  })
+  await withRetry(async () => {
+    return rsvps.deleteMany({ user_id: userId })
+  })
+  if (going.length === 0) return
+
+  const freed = await withRetry(async () => {
+    return posts.find({ id: { $in: going.map(r => r.post_id) } }, { projection: { id: 1, caption: 1, event: 1 } }).toArray()
+  })
+  for (const post of freed) await promoteFromWaitlist(post)
+}
+
+/**
+ * Remind people who are going or interested that an event starts within
+ * EVENT_REMINDER_LEAD_MINUTES. Each event is claimed before anyone is
+ * notified, so overlapping runs can't remind twice. Safe to run repeatedly.
+ */
+export async function sendDueEventReminders(limit: number = REMINDER_BATCH_SIZE): Promise<{ reminded: number; failed: number }> {
+  const posts = await getCollection<Post>(Collections.POSTS)
+  const rsvps = await getCollection<EventRsvp>(Collections.EVENT_RSVPS)
+  const now = new Date()
+  const soon = new Date(now.getTime() + EVENT_REMINDER_LEAD_MINUTES * 60 * 1000)
+
+  const due = await withRetry(async () => {
+    return posts
+      .find(
+        { 'event.starts_at': { $gt: now, $lte: soon }, 'event.reminded_at': { $exists: false }, ...PUBLISHED_POST_FILTER },
+        { projection: { id: 1 } }
+      )
+      .sort({ 'event.starts_at': 1 })
+      .limit(limit)
+      .toArray()
+  })
+
+  let reminded = 0
+  let failed = 0
+
+  for (const { id } of due) {
+    try {
+      const result = await withRetry(async () => {
+        return posts.findOneAndUpdate(
+          { id, 'event.reminded_at': { $exists: false } },
+          { $set: { 'event.reminded_at': new Date() } },
+          { returnDocument: 'after' }
+        )
+      })
+      const post = ((result as any)?.value ?? result) as Post | null
+      if (!post?.event) continue
+
+      const attendees = await withRetry(async () => {
+        return rsvps.find({ post_id: id as number, status: { $in: ['going', 'interested'] } }, { projection: { user_id: 1 } }).toArray()
+      })
+      notifyUsers(await filterAudienceMembers(post, attendees.map(r => r.user_id)), `"${eventTitle(post.caption)}" starts soon at ${post.event.venue}`, {
+        kind: 'event_reminder',
+        postId: id,
+        startsAt: post.event.starts_at,
+      })
+      reminded++
+    } catch (error) {
+      // Unclaimed events are picked up again by the next run
+      failed++
+      console.error(`Failed to send reminders for event ${id}:`, error)
+    }
+  }
+
+  return { reminded, failed }
+}
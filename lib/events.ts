@@ -0,0 +1,264 @@
+/**
+ * Event posts (safe to import from client components)
+ *
+ * Posts in the EVENT/EVENTS categories can carry structured details: when and
+ * where, how many people fit, until when people can register and which club
+ * runs it. People answer going, interested or not going; once an event is full
+ * new "going" answers join a waitlist and move up as spots free. Storage,
+ * waitlists and reminders live in lib/eventAttendance.ts, calendar feeds in
+ * lib/calendarFeeds.ts.
+ */
+
+import type { EventRsvpStatus, PostEvent } from './mongodb'
+import type { PostCategory } from './postCategories'
+
+export type { EventRsvpStatus, PostEvent }
+
+// What an author sends; reminded_at is bookkeeping
+export type EventDetails = Omit<PostEvent, 'reminded_at'>
+
+// Event details as posts carry them in API responses
+export interface EventView {
+  starts_at: string
+  ends_at?: string | null
+  venue: string
+  capacity?: number | null
+  registration_deadline?: string | null
+  organizer_club?: string | null
+}
+
+// Stored details or their API shape
+type EventTimes = {
+  starts_at: Date | string
+  ends_at?: Date | string | null
+  registration_deadline?: Date | string | null
+}
+
+export const MAX_VENUE_LENGTH = 120
+export const MAX_ORGANIZER_LENGTH = 80
+export const MAX_EVENT_CAPACITY = 10000
+export const MAX_EVENT_DURATION_DAYS = 14
+export const MAX_EVENT_AHEAD_DAYS = 365
+// Used for calendars and "has it ended" when an event has no end time
+export const DEFAULT_EVENT_DURATION_MINUTES = 60
+// How long before the start people who answered going or interested are reminded
+export const EVENT_REMINDER_LEAD_MINUTES = 60
+
+// The answers people pick; "waitlisted" is given out when an event is full
+export const RSVP_CHOICES: EventRsvpStatus[] = ['going', 'interested', 'not_going']
+
+export const RSVP_LABELS: Record<EventRsvpStatus, string> = {
+  going: 'Going',
+  waitlisted: 'Waitlisted',
+  interested: 'Interested',
+  not_going: 'Not going',
+}
+
+export function isEventCategory(category: PostCategory | string | undefined): boolean {
+  return category === 'EVENT' || category === 'EVENTS'
+}
+
+export function isRsvpChoice(value: unknown): value is EventRsvpStatus {
+  return typeof value === 'string' && (RSVP_CHOICES as string[]).includes(value)
+}
+
+export function eventEndsAt(event: EventTimes): Date {
+  if (event.ends_at) return new Date(event.ends_at)
+  return new Date(new Date(event.starts_at).getTime() + DEFAULT_EVENT_DURATION_MINUTES * 60 * 1000)
+}
+
+export function hasEventEnded(event: EventTimes, now: Date = new Date()): boolean {
+  return eventEndsAt(event).getTime() <= now.getTime()
+}
+
+// Going (or joining the waitlist) is open until the deadline, or the start without one
+export function isRegistrationOpen(event: EventTimes, now: Date = new Date()): boolean {
+  const closesAt = new Date(event.registration_deadline || event.starts_at)
+  return now.getTime() < closesAt.getTime()
+}
+
+function toDate(raw: unknown): Date | null {
+  if (raw instanceof Date) return Number.isNaN(raw.getTime()) ? null : raw
+  if (typeof raw !== 'string' && typeof raw !== 'number') return null
+  const date = new Date(raw)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+function isBlank(raw: unknown): boolean {
+  return raw === undefined || raw === null || raw === ''
+}
+
+/**
+ * Validate the event details an author sends. `raw` is either the parsed
+ * object or its JSON text (multipart form field). When editing, pass the
+ * `current` details: an unchanged start time may already be in the past.
+ */
+export function validateEventInput(
+  raw: unknown,
+  now: Date = new Date(),
+  current?: Pick<EventTimes, 'starts_at'> | null
+): { valid: boolean; value?: EventDetails; message?: string } {
+  let input = raw
+  if (typeof raw === 'string') {
+    try {
+      input = JSON.parse(raw)
+    } catch {
+      return { valid: false, message: 'Invalid event details' }
+    }
+  }
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, message: 'Invalid event details' }
+  }
+  const fields = input as Record<string, unknown>
+
+  const startsAt = toDate(fields.starts_at)
+  if (!startsAt) return { valid: false, message: 'Events need a valid start time' }
+  const startMoved = !current || new Date(current.starts_at).getTime() !== startsAt.getTime()
+  if (startMoved && startsAt.getTime() <= now.getTime()) {
+    return { valid: false, message: 'Events must start in the future' }
+  }
+  if (startsAt.getTime() > now.getTime() + MAX_EVENT_AHEAD_DAYS * 24 * 60 * 60 * 1000) {
+    return { valid: false, message: `Events can be at most ${MAX_EVENT_AHEAD_DAYS} days ahead` }
+  }
+
+  const details: EventDetails = { starts_at: startsAt, venue: '' }
+
+  if (!isBlank(fields.ends_at)) {
+    const endsAt = toDate(fields.ends_at)
+    if (!endsAt || endsAt.getTime() <= startsAt.getTime()) {
+      return { valid: false, message: 'Events must end after they start' }
+    }
+    if (endsAt.getTime() - startsAt.getTime() > MAX_EVENT_DURATION_DAYS * 24 * 60 * 60 * 1000) {
+      return { valid: false, message: `Events can last at most ${MAX_EVENT_DURATION_DAYS} days` }
+    }
+    details.ends_at = endsAt
+  }
+
+  const venue = typeof fields.venue === 'string' ? fields.venue.trim().replace(/\s+/g, ' ') : ''
+  if (!venue) return { valid: false, message: 'Events need a venue' }
+  if (venue.length > MAX_VENUE_LENGTH) {
+    return { valid: false, message: `Venue must be at most ${MAX_VENUE_LENGTH} characters` }
+  }
+  details.venue = venue
+
+  if (!isBlank(fields.capacity)) {
+    const capacity = Number(fields.capacity)
+    if (!Number.isInteger(capacity) || capacity < 1 || capacity > MAX_EVENT_CAPACITY) {
+      return { valid: false, message: `Capacity must be a whole number from 1 to ${MAX_EVENT_CAPACITY}` }
+    }
+    details.capacity = capacity
+  }
+
+  if (!isBlank(fields.registration_deadline)) {
+    const deadline = toDate(fields.registration_deadline)
+    if (!deadline || deadline.getTime() > startsAt.getTime()) {
+      return { valid: false, message: 'Registration must close before the event starts' }
+    }
+    details.registration_deadline = deadline
+  }
+
+  if (!isBlank(fields.organizer_club)) {
+    const club = typeof fields.organizer_club === 'string' ? fields.organizer_club.trim().replace(/\s+/g, ' ') : ''
+    if (club.length > MAX_ORGANIZER_LENGTH) {
+      return { valid: false, message: `Club name must be at most ${MAX_ORGANIZER_LENGTH} characters` }
+    }
+    if (club) details.organizer_club = club
+  }
+
+  return { valid: true, value: details }
+}
+
+// Short event name from its caption: the first line, hashtags and all
+export function eventTitle(caption: string | undefined): string {
+  const firstLine = (caption || '').split('\n').map(line => line.trim()).find(Boolean) || ''
+  if (!firstLine) return 'Event'
+  return firstLine.length > 80 ? `${firstLine.slice(0, 79)}…` : firstLine
+}
+
+// One VEVENT of an iCalendar file
+export interface CalendarEntry {
+  uid: string
+  title: string
+  starts_at: Date
+  ends_at: Date
+  location?: string
+  description?: string
+  url?: string
+  // TENTATIVE for people who are only interested or waitlisted
+  status?: 'CONFIRMED' | 'TENTATIVE'
+  updated_at?: Date
+}
+
+function formatIcsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n')
+}
+
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0) as number
+  if (code < 0x80) return 1
+  if (code < 0x800) return 2
+  if (code < 0x10000) return 3
+  return 4
+}
+
+// Lines longer than 75 octets continue on the next line after a space (RFC 5545 3.1)
+function foldIcsLine(line: string): string {
+  const parts: string[] = []
+  let current = ''
+  let length = 0
+  for (const char of line) {
+    const size = utf8Length(char)
+    const limit = parts.length === 0 ? 75 : 74
+    if (length + size > limit) {
+      parts.push(current)
+      current = ''
+      length = 0
+    }
+    current += char
+    length += size
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+/**
+ * An iCalendar (.ics) file with the given events. `name` titles subscribed
+ * calendars; `now` stamps entries without an update time.
+ */
+export function buildICalendar(entries: CalendarEntry[], { name, now = new Date() }: { name?: string; now?: Date } = {}): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//UNI-X//Events//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...(name ? [`X-WR-CALNAME:${escapeIcsText(name)}`] : []),
+  ]
+
+  for (const entry of entries) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${entry.uid}`,
+      `DTSTAMP:${formatIcsDate(entry.updated_at || now)}`,
+      `DTSTART:${formatIcsDate(entry.starts_at)}`,
+      `DTEND:${formatIcsDate(entry.ends_at)}`,
+      `SUMMARY:${escapeIcsText(entry.title)}`,
+    )
+    if (entry.location) lines.push(`LOCATION:${escapeIcsText(entry.location)}`)
+    if (entry.description) lines.push(`DESCRIPTION:${escapeIcsText(entry.description)}`)
+    if (entry.url) lines.push(`URL:${entry.url}`)
+    if (entry.status) lines.push(`STATUS:${entry.status}`)
+    lines.push('END:VEVENT')
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n'
+}
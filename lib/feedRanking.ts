@@ -0,0 +1,142 @@
+/**
+ * "For you" feed ranking (safe to import from client components)
+ *
+ * Each candidate post gets a score from five signals, each scaled to 0-1 and
+ * multiplied by its weight:
+ *   - edge: the viewer's interaction weight towards the author on the social
+ *     graph (lib/socialGraph.ts)
+ *   - recency: halves every RECENCY_HALF_LIFE_HOURS
+ *   - aura_velocity: auras per hour over the last AURA_VELOCITY_WINDOW_HOURS,
+ *     saturating so one viral post can't drown everything else
+ *   - category_affinity: the share of the viewer's own posts and auras in
+ *     the post's category
+ *   - same_department: the author is in the viewer's department
+ *
+ * Weights default to DEFAULT_RANKING_WEIGHTS and can be tuned through the
+ * FEED_RANKING_WEIGHTS environment variable as a JSON object, e.g.
+ *   { "edge": 4, "recency": 2 }
+ * Signals are gathered in lib/feedRankingStorage.ts.
+ */
+
+export type FeedMode = 'chronological' | 'for_you'
+
+export interface RankingWeights {
+  edge: number
+  recency: number
+  aura_velocity: number
+  category_affinity: number
+  same_department: number
+}
+
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  edge: 3,
+  recency: 2,
+  aura_velocity: 1.5,
+  category_affinity: 1,
+  same_department: 0.5,
+}
+
+export const RECENCY_HALF_LIFE_HOURS = 12
+export const AURA_VELOCITY_WINDOW_HOURS = 6
+// Auras per hour at which a post gets half the velocity score
+export const AURA_VELOCITY_MIDPOINT = 2
+// How many of the newest matching posts are ranked for each request
+export const FOR_YOU_CANDIDATE_LIMIT = 300
+
+export interface RankingSignals {
+  // 0-1, from the viewer's graph edge to the author
+  edge_weight: number
+  age_hours: number
+  // Auras per hour over the velocity window
+  aura_velocity: number
+  // 0-1, share of the viewer's history in the post's category
+  category_share: number
+  same_department: boolean
+}
+
+// Each signal's contribution to the score, for debugging the ranking
+export interface RankingExplanation {
+  score: number
+  components: RankingWeights
+  signals: RankingSignals
+}
+
+export function parseFeedMode(raw: unknown): FeedMode {
+  return raw === 'for_you' ? 'for_you' : 'chronological'
+}
+
+/**
+ * Ranking weights from FEED_RANKING_WEIGHTS: unset, invalid or negative
+ * entries keep their defaults
+ */
+export function parseRankingWeights(raw: string | undefined): RankingWeights {
+  const weights = { ...DEFAULT_RANKING_WEIGHTS }
+  if (!raw || !raw.trim()) return weights
+
+  try {
+    const parsed = JSON.parse(raw)
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return weights
+    for (const key of Object.keys(weights) as (keyof RankingWeights)[]) {
+      const value = parsed[key]
+      if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+        weights[key] = value
+      }
+    }
+  } catch (error) {
+    console.error('Invalid FEED_RANKING_WEIGHTS configuration:', error)
+  }
+  return weights
+}
+
+/**
+ * How much of the viewer's history falls in each category, from the
+ * categories of the posts they made or gave auras to
+ */
+export function categoryShares(categories: string[]): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (const category of categories) {
+    counts.set(category, (counts.get(category) || 0) + 1)
+  }
+  const shares = new Map<string, number>()
+  counts.forEach((count, category) => shares.set(category, count / categories.length))
+  return shares
+}
+
+export function recencyScore(ageHours: number): number {
+  return Math.pow(0.5, Math.max(ageHours, 0) / RECENCY_HALF_LIFE_HOURS)
+}
+
+export function auraVelocityScore(aurasPerHour: number): number {
+  const velocity = Math.max(aurasPerHour, 0)
+  return velocity / (velocity + AURA_VELOCITY_MIDPOINT)
+}
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1)
+
+export function scorePost(signals: RankingSignals, weights: RankingWeights): RankingExplanation {
+  const components: RankingWeights = {
+    edge: weights.edge * clamp01(signals.edge_weight),
+    recency: weights.recency * recencyScore(signals.age_hours),
+    aura_velocity: weights.aura_velocity * auraVelocityScore(signals.aura_velocity),
+    category_affinity: weights.category_affinity * clamp01(signals.category_share),
+    same_department: signals.same_department ? weights.same_department : 0,
+  }
+  const score = Object.values(components).reduce((sum, value) => sum + value, 0)
+  return { score, components, signals }
+}
+
+/**
+ * Candidates best first, with why each scored what it did. Ties go to the
+ * newer post.
+ */
+export function rankCandidates<T>(
+  candidates: { item: T; signals: RankingSignals }[],
+  weights: RankingWeights
+): { item: T; explanation: RankingExplanation }[] {
+  return candidates
+    .map(({ item, signals }) => ({ item, explanation: scorePost(signals, weights) }))
+    .sort((a, b) =>
+      b.explanation.score - a.explanation.score ||
+      a.explanation.signals.age_hours - b.explanation.signals.age_hours
+    )
+}
@@ -0,0 +1,139 @@
+/**
+ * Signals for the "For you" feed, gathered for one viewer and a batch of
+ * candidate posts. Scoring itself is in lib/feedRanking.ts.
+ */
+
+import type { WithId } from 'mongodb'
+import { getCollection, getDb, withRetry, Collections, Aura, Post, User } from './mongodb'
+import { GraphCollections, GraphEdge } from './socialGraph'
+import {
+  categoryShares,
+  parseRankingWeights,
+  rankCandidates,
+  RankingExplanation,
+  RankingSignals,
+  RankingWeights,
+  AURA_VELOCITY_WINDOW_HOURS,
+} from './feedRanking'
+
+// How much of the viewer's history sets their category affinity
+const HISTORY_POST_LIMIT = 100
+const HISTORY_AURA_LIMIT = 200
+
+const HOUR_MS = 60 * 60 * 1000
+
+let cachedWeights: RankingWeights | null = null
+
+export function getRankingWeights(): RankingWeights {
+  if (!cachedWeights) {
+    cachedWeights = parseRankingWeights(process.env.FEED_RANKING_WEIGHTS)
+  }
+  return cachedWeights
+}
+
+// The categories of the viewer's latest posts and of the posts they gave auras to
+async function getViewerCategories(viewerId: number): Promise<string[]> {
+  const posts = await getCollection<Post>(Collections.POSTS)
+  const auras = await getCollection<Aura>(Collections.AURAS)
+
+  const [ownPosts, givenAuras] = await withRetry(async () => {
+    return Promise.all([
+      posts
+        .find({ user_id: viewerId, repost_of: { $exists: false } })
+        .sort({ created_at: -1 })
+        .limit(HISTORY_POST_LIMIT)
+        .project<Pick<Post, 'category'>>({ category: 1 })
+        .toArray(),
+      auras
+        .find({ user_id: viewerId })
+        .sort({ created_at: -1 })
+        .limit(HISTORY_AURA_LIMIT)
+        .project<Pick<Aura, 'post_id'>>({ post_id: 1 })
+        .toArray(),
+    ])
+  })
+  const liked = await withRetry(async () => {
+    return posts
+      .find({ id: { $in: givenAuras.map(aura => aura.post_id as number) } })
+      .project<Pick<Post, 'category'>>({ category: 1 })
+      .toArray()
+  })
+  return [...ownPosts, ...liked].map(post => post.category).filter(Boolean)
+}
+
+// Auras each post got over the velocity window
+async function countRecentAuras(postIds: number[], now: Date): Promise<Map<number, number>> {
+  if (postIds.length === 0) return new Map()
+  const auras = await getCollection<Aura>(Collections.AURAS)
+  const since = new Date(now.getTime() - AURA_VELOCITY_WINDOW_HOURS * HOUR_MS)
+  const counts = await withRetry(async () => {
+    return auras.aggregate<{ _id: number; count: number }>([
+      { $match: { post_id: { $in: postIds }, created_at: { $gte: since } } },
+      { $group: { _id: '$post_id', count: { $sum: 1 } } },
+    ]).toArray()
+  })
+  return new Map(counts.map(({ _id, count }) => [_id, count]))
+}
+
+/**
+ * The viewer's interaction weight towards each author. The graph keys users
+ * by their document _id; authors without an edge get 0.
+ */
+async function getEdgeWeights(viewer: WithId<User>, authors: WithId<User>[]): Promise<Map<number, number>> {
+  if (authors.length === 0) return new Map()
+  const db = await getDb()
+  const edges = await withRetry(async () => {
+    return db.collection<GraphEdge>(GraphCollections.GRAPH_EDGES)
+      .find({ sourceUserId: viewer._id, targetUserId: { $in: authors.map(author => author._id) } })
+      .project<Pick<GraphEdge, 'targetUserId' | 'interactionWeight'>>({ targetUserId: 1, interactionWeight: 1 })
+      .toArray()
+  })
+  const weightByObjectId = new Map(edges.map(edge => [edge.targetUserId.toString(), edge.interactionWeight || 0]))
+  return new Map(authors.map(author => [author.id as number, weightByObjectId.get(author._id.toString()) || 0]))
+}
+
+/**
+ * Rank candidate posts for the viewer, best first, each with the explanation
+ * of its score
+ */
+export async function rankForViewer<T extends Post>(
+  viewerId: number,
+  candidates: T[],
+  now: Date = new Date()
+): Promise<{ item: T; explanation: RankingExplanation }[]> {
+  if (candidates.length === 0) return []
+  const users = await getCollection<User>(Collections.USERS)
+
+  const authorIds = [...new Set(candidates.map(post => post.user_id as number))]
+  const people = await withRetry(async () => {
+    return users
+      .find({ id: { $in: [viewerId, ...authorIds] } })
+      .project<WithId<User>>({ id: 1, department: 1 })
+      .toArray()
+  })
+  const peopleMap = new Map(people.map(person => [person.id as number, person]))
+  const viewer = peopleMap.get(viewerId)
+  const authors = authorIds.map(id => peopleMap.get(id)).filter((author): author is WithId<User> => !!author)
+
+  const [edgeWeights, categories, recentAuras] = await Promise.all([
+    viewer ? getEdgeWeights(viewer, authors) : Promise.resolve(new Map<number, number>()),
+    getViewerCategories(viewerId),
+    countRecentAuras(candidates.map(post => post.id as number), now),
+  ])
+  const shares = categoryShares(categories)
+
+  return rankCandidates(candidates.map(post => {
+    const author = peopleMap.get(post.user_id as number)
+    const ageHours = Math.max((now.getTime() - new Date(post.created_at).getTime()) / HOUR_MS, 0)
+    // Posts younger than the window are measured over their own lifetime (at least an hour)
+    const velocityHours = Math.max(Math.min(ageHours, AURA_VELOCITY_WINDOW_HOURS), 1)
+    const signals: RankingSignals = {
+      edge_weight: edgeWeights.get(post.user_id as number) || 0,
+      age_hours: ageHours,
+      aura_velocity: (recentAuras.get(post.id as number) || 0) / velocityHours,
+      category_share: shares.get(post.category) || 0,
+      same_department: !!viewer?.department && post.user_id !== viewerId && author?.department === viewer.department,
+    }
+    return { item: post, signals }
+  }), getRankingWeights())
+}
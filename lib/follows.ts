@@ -0,0 +1,26 @@
+/**
+ * Unfollowing
+ *
+ * Every route that ends a follow goes through removeFollow, so losing access
+ * that came with the follow happens however it was ended: saves of a private
+ * account's posts, and a place on that account's close friends.
+ */
+
+import { getCollection, withRetry, Collections, Follower } from './mongodb'
+import { pruneHiddenSaves } from './savedPostStorage'
+import { removeCloseFriend } from './closeFriends'
+
+/**
+ * Stop `followerId` following `followingId`. Returns false if they weren't.
+ */
+export async function removeFollow(followerId: number, followingId: number): Promise<boolean> {
+  const followers = await getCollection<Follower>(Collections.FOLLOWERS)
+  const result = await withRetry(async () => {
+    return followers.deleteOne({ follower_id: followerId, following_id: followingId })
+  })
+  if (result.deletedCount === 0) return false
+
+  await pruneHiddenSaves(followingId, [followerId])
+  await removeCloseFriend(followingId, followerId)
+  return true
+}
@@ -0,0 +1,134 @@
+/**
+ * Hashtag counts and follows
+ *
+ * Posts carry their own `hashtags` (see lib/hashtags.ts); this keeps one
+ * document per tag with how many posts use it and when it was last used, so
+ * search can suggest tags without reading captions, plus who follows which tag.
+ * Counts are adjusted as posts are created, edited and deleted.
+ */
+
+import {
+  getCollection,
+  withRetry,
+  Collections,
+  Hashtag,
+  HashtagFollow,
+  Post,
+} from './mongodb'
+import { getDeactivatedUserIds } from './accountStatus'
+import { PUBLISHED_POST_FILTER } from './postSchedule'
+
+export async function getHashtag(tag: string): Promise<Hashtag | null> {
+  const hashtags = await getCollection<Hashtag>(Collections.HASHTAGS)
+  return withRetry(async () => {
+    return hashtags.findOne({ tag })
+  })
+}
+
+// Tags in use that start with `prefix`, most used first
+export async function searchHashtags(prefix: string, limit: number = 10): Promise<Hashtag[]> {
+  const hashtags = await getCollection<Hashtag>(Collections.HASHTAGS)
+  const escaped = prefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return withRetry(async () => {
+    return hashtags
+      .find({ tag: { $regex: `^${escaped}` }, post_count: { $gt: 0 } })
+      .sort({ post_count: -1, last_used_at: -1 })
+      .limit(limit)
+      .toArray()
+  })
+}
+
+/**
+ * Ids of the posts carrying `tag`, newest first. Deactivated authors are left
+ * out here; the rest of the visibility rules apply when the posts are built.
+ */
+export async function findHashtagPostIds(
+  tag: string,
+  { limit, offset }: { limit: number; offset: number }
+): Promise<number[]> {
+  const posts = await getCollection<Post>(Collections.POSTS)
+  const deactivatedIds = await getDeactivatedUserIds()
+  const list = await withRetry(async () => {
+    return posts
+      .find(
+        { hashtags: tag, ...PUBLISHED_POST_FILTER, ...(deactivatedIds.length > 0 && { user_id: { $nin: deactivatedIds } }) },
+        { projection: { id: 1 } }
+      )
+      .sort({ created_at: -1 })
+      .skip(offset)
+      .limit(limit)
+      .toArray()
+  })
+  return list.map(post => post.id as number)
+}
+
+async function applyHashtagDeltas(deltas: Map<string, number>, usedAt: Date | null): Promise<void> {
+  const changes = [...deltas].filter(([, delta]) => delta !== 0)
+  if (changes.length === 0) return
+
+  const hashtags = await getCollection<Hashtag>(Collections.HASHTAGS)
+  await withRetry(async () => {
+    return hashtags.bulkWrite(changes.map(([tag, delta]) => ({
+      updateOne: {
+        filter: { tag },
+        update: delta > 0 && usedAt
+          ? { $inc: { post_count: delta }, $set: { last_used_at: usedAt }, $setOnInsert: { created_at: usedAt } }
+          : { $inc: { post_count: delta } },
+        upsert: delta > 0,
+      },
+    })), { ordered: false })
+  })
+}
+
+/**
+ * Adjust counts after a post's hashtags changed from `previous` to `next`
+ * (empty `previous` for a new post, empty `next` for a deleted one)
+ */
+export async function recordHashtagChanges(previous: string[], next: string[]): Promise<void> {
+  const deltas = new Map<string, number>()
+  previous.filter(tag => !next.includes(tag)).forEach(tag => deltas.set(tag, -1))
+  next.filter(tag => !previous.includes(tag)).forEach(tag => deltas.set(tag, 1))
+  await applyHashtagDeltas(deltas, new Date())
+}
+
+// Take many posts' tags off the counts at once, e.g. when an account is purged
+export async function releaseHashtags(tagLists: string[][]): Promise<void> {
+  const deltas = new Map<string, number>()
+  tagLists.flat().forEach(tag => deltas.set(tag, (deltas.get(tag) || 0) - 1))
+  await applyHashtagDeltas(deltas, null)
+}
+
+export async function getFollowedHashtags(userId: number): Promise<string[]> {
+  const follows = await getCollection<HashtagFollow>(Collections.HASHTAG_FOLLOWS)
+  const list = await withRetry(async () => {
+    return follows.find({ user_id: userId }).sort({ created_at: -1 }).toArray()
+  })
+  return list.map(follow => follow.tag)
+}
+
+export async function isFollowingHashtag(userId: number, tag: string): Promise<boolean> {
+  const follows = await getCollection<HashtagFollow>(Collections.HASHTAG_FOLLOWS)
+  const follow = await withRetry(async () => {
+    return follows.findOne({ user_id: userId, tag })
+  })
+  return !!follow
+}
+
+// Following twice is a no-op
+export async function followHashtag(userId: number, tag: string): Promise<void> {
+  const follows = await getCollection<HashtagFollow>(Collections.HASHTAG_FOLLOWS)
+  await withRetry(async () => {
+    return follows.updateOne(
+      { user_id: userId, tag },
+      { $setOnInsert: { user_id: userId, tag, created_at: new Date() } },
+      { upsert: true }
+    )
+  })
+}
+
+export async function unfollowHashtag(userId: number, tag: string): Promise<void> {
+  const follows = await getCollection<HashtagFollow>(Collections.HASHTAG_FOLLOWS)
+  await withRetry(async () => {
+    return follows.deleteOne({ user_id: userId, tag })
+  })
+}
@@ -0,0 +1,54 @@
+/**
+ * Hashtags (safe to import from client components)
+ *
+ * Hashtags are pulled out of a caption when the post is created or edited and
+ * stored on the post, normalised to lowercase, so a hashtag feed is an indexed
+ * lookup rather than a scan of captions. Counts and follows live in
+ * lib/hashtagIndex.ts.
+ */
+
+export const MAX_HASHTAG_LENGTH = 50
+export const MAX_HASHTAGS_PER_POST = 30
+
+// A # that starts a word (not "a#b" or a URL fragment), followed by letters
+// (with their combining marks), digits or underscores in any script
+const HASHTAG_PATTERN = /(^|[^\p{L}\p{M}\p{N}_&#/])#([\p{L}\p{M}\p{N}_]+)/gu
+
+// The stored form of a tag: no leading #, lowercase. Null if it isn't a usable
+// hashtag (empty, too long, only digits like "#1", or stray symbols).
+export function normalizeHashtag(raw: unknown): string | null {
+  if (typeof raw !== 'string') return null
+  const tag = raw.trim().replace(/^#/, '').toLowerCase()
+  if (!tag || tag.length > MAX_HASHTAG_LENGTH) return null
+  if (!/^[\p{L}\p{M}\p{N}_]+$/u.test(tag) || /^\d+$/.test(tag)) return null
+  return tag
+}
+
+/**
+ * The caption split into plain text and hashtags, in order, for rendering tags
+ * as links. `tag` is the normalised form to link to; parts without one are
+ * plain text (including #words that aren't usable hashtags).
+ */
+export function splitHashtags(text: string): Array<{ text: string; tag?: string }> {
+  const parts: Array<{ text: string; tag?: string }> = []
+  let last = 0
+
+  for (const match of text.matchAll(HASHTAG_PATTERN)) {
+    const start = (match.index as number) + match[1].length
+    const tag = normalizeHashtag(match[2])
+    if (!tag) continue
+    if (start > last) parts.push({ text: text.slice(last, start) })
+    parts.push({ text: `#${match[2]}`, tag })
+    last = start + match[2].length + 1
+  }
+
+  if (last < text.length) parts.push({ text: text.slice(last) })
+  return parts
+}
+
+// The distinct hashtags in a caption, in order of first use
+export function extractHashtags(text: string | null | undefined): string[] {
+  if (!text) return []
+  const tags = splitHashtags(text).map(part => part.tag).filter(Boolean) as string[]
+  return [...new Set(tags)].slice(0, MAX_HASHTAGS_PER_POST)
+}
@@ -0,0 +1,89 @@
+/**
+ * Institution allowlist for registration
+ *
+ * Configured through the INSTITUTIONS environment variable as a JSON array:
+ *   [{ "id": "mit", "name": "MIT", "email_domains": ["mit.edu"], "college_id_pattern": "^[0-9]{9}$" }]
+ *
+ * A registration email must belong to one of the listed domains (or a
+ * subdomain, e.g. students.mit.edu). When INSTITUTIONS is unset every
+ * domain is accepted outside production, for local development; in
+ * production registration is closed until it is configured.
+ */
+
+export interface Institution {
+  id: string
+  name: string
+  email_domains: string[]
+  college_id_pattern?: string
+}
+
+let cachedInstitutions: Institution[] | null = null
+
+export function parseInstitutions(raw: string | undefined): Institution[] {
+  if (!raw || !raw.trim()) return []
+
+  try {
+    const parsed = JSON.parse(raw)
+    if (!Array.isArray(parsed)) return []
+
+    return parsed
+      .filter((item) => item && typeof item.id === 'string' && Array.isArray(item.email_domains))
+      .map((item) => ({
+        id: item.id,
+        name: typeof item.name === 'string' ? item.name : item.id,
+        email_domains: item.email_domains
+          .filter((domain: unknown) => typeof domain === 'string' && domain.trim())
+          .map((domain: string) => domain.trim().toLowerCase().replace(/^@/, '')),
+        college_id_pattern: typeof item.college_id_pattern === 'string' ? item.college_id_pattern : undefined,
+      }))
+  } catch (error) {
+    console.error('Invalid INSTITUTIONS configuration:', error)
+    return []
+  }
+}
+
+export function getInstitutions(): Institution[] {
+  if (!cachedInstitutions) {
+    cachedInstitutions = parseInstitutions(process.env.INSTITUTIONS)
+    if (cachedInstitutions.length === 0 && process.env.NODE_ENV === 'production') {
+      console.error('🚨 No INSTITUTIONS configured, registration is closed until it is set')
+    } else if (cachedInstitutions.length === 0) {
+      console.warn('⚠️ No INSTITUTIONS configured, accepting registrations from any email domain')
+    }
+  }
+  return cachedInstitutions
+}
+
+// Without an allowlist only development builds take signups
+export function isRegistrationOpen(institutions: Institution[], nodeEnv: string | undefined = process.env.NODE_ENV): boolean {
+  return institutions.length > 0 || nodeEnv !== 'production'
+}
+
+export function getEmailDomain(email: string): string {
+  const at = email.lastIndexOf('@')
+  return at === -1 ? '' : email.slice(at + 1).trim().toLowerCase()
+}
+
+/**
+ * Find the institution an email address belongs to, matching subdomains too
+ */
+export function findInstitutionForEmail(email: string, institutions: Institution[]): Institution | null {
+  const domain = getEmailDomain(email)
+  if (!domain) return null
+
+  return institutions.find((institution) =>
+    institution.email_domains.some((allowed) => domain === allowed || domain.endsWith(`.${allowed}`))
+  ) || null
+}
+
+export function isValidCollegeId(collegeId: string, institution: Institution): boolean {
+  if (!institution.college_id_pattern) return true
+
+  try {
+    return new RegExp(institution.college_id_pattern).test(collegeId)
+  } catch {
+    // A broken pattern in config shouldn't block every signup
+    console.error(`Invalid college_id_pattern for institution ${institution.id}`)
+    return true
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Personal application tracking and deadline reminders for internship posts
+ *
+ * Anyone can mark a listing interested or applied to keep track of their own
+ * pipeline. Only the owner sees their tracking; authors just see the listing.
+ * See lib/internships.ts for the listing details themselves.
+ */
+
+import {
+  getCollection,
+  withRetry,
+  Collections,
+  InternshipApplication,
+  InternshipTrackingStatus,
+  Post,
+} from './mongodb'
+import { PUBLISHED_POST_FILTER } from './postSchedule'
+import { DEADLINE_REMINDER_LEAD_HOURS } from './internships'
+import { filterAudienceMembers } from './closeFriends'
+
+const REMINDER_BATCH_SIZE = 50
+
+function notifyUsers(userIds: number[], message: string, meta: Record<string, unknown>): void {
+  try {
+    if (!(global as any).io) return
+    for (const userId of userIds) {
+      ;(global as any).io.to(`user-${userId}`).emit('notification', {
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        type: 'system',
+        message,
+        time: new Date().toISOString(),
+        read: false,
+        meta,
+      })
+    }
+  } catch (notificationError) {
+    console.warn('Failed to send notification:', notificationError)
+  }
+}
+
+export async function getTracking(postId: number, userId: number): Promise<InternshipApplication | null> {
+  const applications = await getCollection<InternshipApplication>(Collections.INTERNSHIP_APPLICATIONS)
+  return withRetry(async () => {
+    return applications.findOne({ post_id: postId, user_id: userId })
+  })
+}
+
+export async function setTracking(postId: number, userId: number, status: InternshipTrackingStatus): Promise<InternshipApplication> {
+  const applications = await getCollection<InternshipApplication>(Collections.INTERNSHIP_APPLICATIONS)
+  const now = new Date()
+  await withRetry(async () => {
+    return applications.updateOne(
+      { post_id: postId, user_id: userId },
+      { $set: { status, updated_at: now }, $setOnInsert: { created_at: now } },
+      { upsert: true }
+    )
+  })
+  return (await getTracking(postId, userId)) as InternshipApplication
+}
+
+export async function removeTracking(postId: number, userId: number): Promise<void> {
+  const applications = await getCollection<InternshipApplication>(Collections.INTERNSHIP_APPLICATIONS)
+  await withRetry(async () => {
+    return applications.deleteOne({ post_id: postId, user_id: userId })
+  })
+}
+
+// The user's tracked listings, most recently updated first
+export async function listTracking(
+  userId: number,
+  { status, limit = 50, offset = 0 }: { status?: InternshipTrackingStatus; limit?: number; offset?: number } = {}
+): Promise<InternshipApplication[]> {
+  const applications = await getCollection<InternshipApplication>(Collections.INTERNSHIP_APPLICATIONS)
+  return withRetry(async () => {
+    return applications
+      .find({ user_id: userId, ...(status && { status }) })
+      .sort({ updated_at: -1 })
+      .skip(offset)
+      .limit(limit)
+      .toArray()
+  })
+}
+
+export async function deleteInternshipTracking(postIds: number[]): Promise<void> {
+  if (postIds.length === 0) return
+  const applications = await getCollection<InternshipApplication>(Collections.INTERNSHIP_APPLICATIONS)
+  await withRetry(async () => {
+    return applications.deleteMany({ post_id: { $in: postIds } })
+  })
+}
+
+/**
+ * Remind people who marked a listing interested, but haven't applied, that
+ * its deadline is within DEADLINE_REMINDER_LEAD_HOURS. Each listing is
+ * claimed before anyone is notified, so overlapping runs can't remind twice.
+ * Safe to run repeatedly.
+ */
+export async function sendDueDeadlineReminders(limit: number = REMINDER_BATCH_SIZE): Promise<{ reminded: number; failed: number }> {
+  const posts = await getCollection<Post>(Collections.POSTS)
+  const applications = await getCollection<InternshipApplication>(Collections.INTERNSHIP_APPLICATIONS)
+  const now = new Date()
+  const soon = new Date(now.getTime() + DEADLINE_REMINDER_LEAD_HOURS * 60 * 60 * 1000)
+
+  const due = await withRetry(async () => {
+    return posts
+      .find(
+        { 'internship.deadline': { $gt: now, $lte: soon }, 'internship.reminded_at': { $exists: false }, ...PUBLISHED_POST_FILTER },
+        { projection: { id: 1 } }
+      )
+      .sort({ 'internship.deadline': 1 })
+      .limit(limit)
+      .toArray()
+  })
+
+  let reminded = 0
+  let failed = 0
+
+  for (const { id } of due) {
+    try {
+      const result = await withRetry(async () => {
+        return posts.findOneAndUpdate(
+          { id, 'internship.reminded_at': { $exists: false } },
+          { $set: { 'internship.reminded_at': new Date() } },
+          { returnDocument: 'after' }
+        )
+      })
+      const post = ((result as any)?.value ?? result) as Post | null
+      if (!post?.internship) continue
+
+      const interested = await withRetry(async () => {
+        return applications.find({ post_id: id as number, status: 'interested' }, { projection: { user_id: 1 } }).toArray()
+      })
+      notifyUsers(await filterAudienceMembers(post, interested.map(a => a.user_id)), `Applications for ${post.internship.role} at ${post.internship.company} close soon`, {
+        kind: 'internship_deadline',
+        postId: id,
+        deadline: post.internship.deadline,
+      })
+      reminded++
+    } catch (error) {
+      // Unclaimed listings are picked up again by the next run
+      failed++
+      console.error(`Failed to send deadline reminders for internship ${id}:`, error)
+    }
+  }
+
+  return { reminded, failed }
+}
@@ -0,0 +1,219 @@
+/**
+ * Internship listings (safe to import from client components)
+ *
+ * INTERNSHIP posts can carry structured details: company, role, stipend, who
+ * may apply (departments and years), where to apply and by when. Listings
+ * drop out of feeds once the deadline passes. Each user can track listings as
+ * interested or applied; that pipeline and the deadline reminders live in
+ * lib/internshipTracking.ts.
+ */
+
+import type { InternshipTrackingStatus, PostInternship } from './mongodb'
+import type { PostCategory } from './postCategories'
+
+export type { InternshipTrackingStatus, PostInternship }
+
+// What an author sends; reminded_at is bookkeeping
+export type InternshipDetails = Omit<PostInternship, 'reminded_at'>
+
+// Internship details as posts carry them in API responses
+export interface InternshipView {
+  company: string
+  role: string
+  stipend?: string | null
+  departments?: string[] | null
+  years?: number[] | null
+  apply_url: string
+  deadline: string
+}
+
+export const MAX_COMPANY_LENGTH = 80
+export const MAX_ROLE_LENGTH = 100
+export const MAX_STIPEND_LENGTH = 60
+export const MAX_DEPARTMENT_LENGTH = 80
+export const MAX_ELIGIBLE_DEPARTMENTS = 10
+export const MAX_APPLY_URL_LENGTH = 500
+export const MAX_DEADLINE_AHEAD_DAYS = 365
+// How long before the deadline people who are interested (but haven't applied) are reminded
+export const DEADLINE_REMINDER_LEAD_HOURS = 24
+
+// Years of study as profiles store them; 6 is a graduate
+export const STUDY_YEARS = [1, 2, 3, 4, 5, 6]
+
+export const YEAR_LABELS: Record<number, string> = {
+  1: '1st Year',
+  2: '2nd Year',
+  3: '3rd Year',
+  4: '4th Year',
+  5: '5th Year',
+  6: 'Graduate',
+}
+
+export const TRACKING_STATUSES: InternshipTrackingStatus[] = ['interested', 'applied']
+
+export const TRACKING_LABELS: Record<InternshipTrackingStatus, string> = {
+  interested: 'Interested',
+  applied: 'Applied',
+}
+
+export function isInternshipCategory(category: PostCategory | string | undefined): boolean {
+  return category === 'INTERNSHIP'
+}
+
+export function isTrackingStatus(value: unknown): value is InternshipTrackingStatus {
+  return typeof value === 'string' && (TRACKING_STATUSES as string[]).includes(value)
+}
+
+export function isListingOpen(internship: { deadline: Date | string }, now: Date = new Date()): boolean {
+  return now.getTime() < new Date(internship.deadline).getTime()
+}
+
+// Whether a student fits the listing; listings without limits are open to everyone
+export function isEligible(
+  internship: { departments?: string[] | null; years?: number[] | null },
+  student: { department?: string | null; year?: number | null }
+): boolean {
+  const department = (student.department || '').trim().toLowerCase()
+  if (internship.departments?.length && !internship.departments.some(d => d.toLowerCase() === department)) {
+    return false
+  }
+  if (internship.years?.length && !internship.years.includes(Number(student.year))) {
+    return false
+  }
+  return true
+}
+
+// Matches posts that aren't expired listings (other posts have no deadline)
+export function openListingFilter(now: Date = new Date()) {
+  return { 'internship.deadline': { $not: { $lte: now } } }
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Matches internship listings open to the given department and/or year.
+ * Listings store no departments or years when anyone may apply.
+ */
+export function eligibilityFilter({ department, year }: { department?: string; year?: number }) {
+  const filter: Record<string, unknown> = { internship: { $exists: true } }
+  const dept = department?.trim()
+  if (dept) filter['internship.departments'] = { $in: [new RegExp(`^${escapeRegex(dept)}$`, 'i'), null] }
+  if (year) filter['internship.years'] = { $in: [year, null] }
+  return filter
+}
+
+function toDate(raw: unknown): Date | null {
+  if (raw instanceof Date) return Number.isNaN(raw.getTime()) ? null : raw
+  if (typeof raw !== 'string' && typeof raw !== 'number') return null
+  const date = new Date(raw)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+function cleanText(raw: unknown): string {
+  return typeof raw === 'string' ? raw.trim().replace(/\s+/g, ' ') : ''
+}
+
+function isHttpUrl(text: string): boolean {
+  try {
+    const url = new URL(text)
+    return url.protocol === 'https:' || url.protocol === 'http:'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Validate the internship details an author sends. `raw` is either the parsed
+ * object or its JSON text (multipart form field). When editing, pass the
+ * `current` details: an unchanged deadline may already have passed.
+ */
+export function validateInternshipInput(
+  raw: unknown,
+  now: Date = new Date(),
+  current?: { deadline: Date | string } | null
+): { valid: boolean; value?: InternshipDetails; message?: string } {
+  let input = raw
+  if (typeof raw === 'string') {
+    try {
+      input = JSON.parse(raw)
+    } catch {
+      return { valid: false, message: 'Invalid internship details' }
+    }
+  }
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, message: 'Invalid internship details' }
+  }
+  const fields = input as Record<string, unknown>
+
+  const company = cleanText(fields.company)
+  if (!company) return { valid: false, message: 'Internships need a company' }
+  if (company.length > MAX_COMPANY_LENGTH) {
+    return { valid: false, message: `Company must be at most ${MAX_COMPANY_LENGTH} characters` }
+  }
+
+  const role = cleanText(fields.role)
+  if (!role) return { valid: false, message: 'Internships need a role' }
+  if (role.length > MAX_ROLE_LENGTH) {
+    return { valid: false, message: `Role must be at most ${MAX_ROLE_LENGTH} characters` }
+  }
+
+  const applyUrl = typeof fields.apply_url === 'string' ? fields.apply_url.trim() : ''
+  if (!applyUrl || applyUrl.length > MAX_APPLY_URL_LENGTH || !isHttpUrl(applyUrl)) {
+    return { valid: false, message: 'Internships need a valid http(s) link to apply' }
+  }
+
+  const deadline = toDate(fields.deadline)
+  if (!deadline) return { valid: false, message: 'Internships need a valid deadline' }
+  const deadlineMoved = !current || new Date(current.deadline).getTime() !== deadline.getTime()
+  if (deadlineMoved && deadline.getTime() <= now.getTime()) {
+    return { valid: false, message: 'The deadline must be in the future' }
+  }
+  if (deadline.getTime() > now.getTime() + MAX_DEADLINE_AHEAD_DAYS * 24 * 60 * 60 * 1000) {
+    return { valid: false, message: `The deadline can be at most ${MAX_DEADLINE_AHEAD_DAYS} days ahead` }
+  }
+
+  const details: InternshipDetails = { company, role, apply_url: applyUrl, deadline }
+
+  const stipend = cleanText(fields.stipend)
+  if (stipend.length > MAX_STIPEND_LENGTH) {
+    return { valid: false, message: `Stipend must be at most ${MAX_STIPEND_LENGTH} characters` }
+  }
+  if (stipend) details.stipend = stipend
+
+  if (fields.departments !== undefined && fields.departments !== null) {
+    if (!Array.isArray(fields.departments)) return { valid: false, message: 'Invalid departments' }
+    const departments: string[] = []
+    for (const entry of fields.departments) {
+      const department = cleanText(entry)
+      if (!department) continue
+      if (department.length > MAX_DEPARTMENT_LENGTH) {
+        return { valid: false, message: `Departments must be at most ${MAX_DEPARTMENT_LENGTH} characters` }
+      }
+      if (!departments.some(d => d.toLowerCase() === department.toLowerCase())) departments.push(department)
+    }
+    if (departments.length > MAX_ELIGIBLE_DEPARTMENTS) {
+      return { valid: false, message: `List at most ${MAX_ELIGIBLE_DEPARTMENTS} departments` }
+    }
+    if (departments.length > 0) details.departments = departments
+  }
+
+  if (fields.years !== undefined && fields.years !== null) {
+    if (!Array.isArray(fields.years)) return { valid: false, message: 'Invalid years' }
+    const years = [...new Set(fields.years.map(Number))].sort((a, b) => a - b)
+    if (years.some(year => !STUDY_YEARS.includes(year))) {
+      return { valid: false, message: 'Invalid years' }
+    }
+    // Every year is the same as no limit
+    if (years.length > 0 && years.length < STUDY_YEARS.length) details.years = years
+  }
+
+  return { valid: true, value: details }
+}
+
+// Human-readable list of the years a listing is open to
+export function formatEligibleYears(years?: number[] | null): string {
+  if (!years?.length) return 'All years'
+  return years.map(year => YEAR_LABELS[year] || `Year ${year}`).join(', ')
+}
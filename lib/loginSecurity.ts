@@ -0,0 +1,226 @@
+/**
+ * Per-account brute-force protection and login history
+ *
+ * IP rate limits don't stop a botnet guessing one college ID, so failures are
+ * also counted per account key. After a few misses each further attempt must
+ * wait progressively longer, and enough misses lock the key for a while.
+ * Keys are counted whether or not the account exists, so responses don't
+ * reveal which college IDs are registered.
+ *
+ * Wrong MFA codes count against the same key as wrong passwords, so the
+ * second step can't be guessed at leisure once the password is known.
+ *
+ * Successful logins are recorded with IP, user agent and a device cookie;
+ * a login from a device the account hasn't used before triggers an alert.
+ */
+
+import crypto from 'crypto'
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getCollection, withRetry, getNextSequenceValue, Collections, User, LoginThrottle, LoginHistory } from './mongodb'
+import { getClientIp, setAuthCookie } from './auth'
+import { describeDevice } from './sessions'
+import { queueEmail, getAppUrl } from './mailer'
+import { notifyUser } from './notifications'
+
+// Failures are forgotten this long after the last one
+const FAILURE_WINDOW_MS = 60 * 60 * 1000
+// Attempts allowed before delays start
+const FREE_ATTEMPTS = 3
+const MAX_DELAY_MS = 30 * 1000
+export const LOCKOUT_THRESHOLD = 10
+export const LOCKOUT_DURATION_MS = 15 * 60 * 1000
+
+const DEVICE_COOKIE_NAME = 'unix_device'
+const DEVICE_COOKIE_MAX_AGE_SECONDS = 365 * 24 * 60 * 60
+
+export function getThrottleKey(collegeId: string): string {
+  return String(collegeId).trim().toLowerCase()
+}
+
+/**
+ * Required wait after the latest failure: 0 for the first few, then 1s, 2s, 4s... up to 30s
+ */
+export function getLoginDelayMs(failedCount: number): number {
+  if (failedCount < FREE_ATTEMPTS) return 0
+  return Math.min(1000 * 2 ** (failedCount - FREE_ATTEMPTS), MAX_DELAY_MS)
+}
+
+/**
+ * Whether an account key may attempt a login right now
+ */
+export async function checkLoginThrottle(collegeId: string): Promise<{ allowed: boolean; locked: boolean; retryAfterMs: number }> {
+  const throttles = await getCollection<LoginThrottle>(Collections.LOGIN_THROTTLES)
+  const throttle = await withRetry(async () => {
+    return throttles.findOne({ key: getThrottleKey(collegeId) })
+  })
+
+  if (!throttle) return { allowed: true, locked: false, retryAfterMs: 0 }
+
+  const now = Date.now()
+  if (throttle.locked_until && new Date(throttle.locked_until).getTime() > now) {
+    return { allowed: false, locked: true, retryAfterMs: new Date(throttle.locked_until).getTime() - now }
+  }
+
+  const nextAllowedAt = new Date(throttle.last_failed_at).getTime() + getLoginDelayMs(throttle.failed_count)
+  if (nextAllowedAt > now) {
+    return { allowed: false, locked: false, retryAfterMs: nextAllowedAt - now }
+  }
+
+  return { allowed: true, locked: false, retryAfterMs: 0 }
+}
+
+/**
+ * Count a failed password or MFA code attempt, locking the key once it crosses the threshold
+ * Returns the new failure count
+ */
+export async function recordFailedLogin(collegeId: string): Promise<number> {
+  const throttles = await getCollection<LoginThrottle>(Collections.LOGIN_THROTTLES)
+  const key = getThrottleKey(collegeId)
+  const now = new Date()
+
+  const updated = await withRetry(async () => {
+    return throttles.findOneAndUpdate(
+      { key },
+      {
+        $inc: { failed_count: 1 },
+        $set: { last_failed_at: now, expires_at: new Date(now.getTime() + FAILURE_WINDOW_MS) },
+        $setOnInsert: { key },
+      },
+      { upsert: true, returnDocument: 'after' }
+    )
+  })
+
+  // Support both driver typings (document directly, or { value: document })
+  const throttle = ((updated as any)?.value ?? updated) as LoginThrottle | null
+  const failedCount = throttle?.failed_count ?? 1
+
+  if (failedCount >= LOCKOUT_THRESHOLD) {
+    const lockedUntil = new Date(now.getTime() + LOCKOUT_DURATION_MS)
+    // Start counting afresh once the lockout ends
+    await withRetry(async () => {
+      return throttles.updateOne(
+        { key },
+        { $set: { locked_until: lockedUntil, failed_count: 0, expires_at: new Date(lockedUntil.getTime() + FAILURE_WINDOW_MS) } }
+      )
+    })
+  }
+
+  return failedCount
+}
+
+export async function clearFailedLogins(collegeId: string): Promise<void> {
+  const throttles = await getCollection<LoginThrottle>(Collections.LOGIN_THROTTLES)
+  await withRetry(async () => {
+    return throttles.deleteOne({ key: getThrottleKey(collegeId) })
+  })
+}
+
+/**
+ * Log a failed attempt against a real account so it shows in the user's history
+ */
+export async function recordFailedLoginHistory(req: NextApiRequest, userId: number, reason: NonNullable<LoginHistory['reason']>): Promise<void> {
+  const history = await getCollection<LoginHistory>(Collections.LOGIN_HISTORY)
+  const userAgent = (req.headers['user-agent'] || '').slice(0, 500)
+
+  await withRetry(async () => {
+    return history.insertOne({
+      id: await getNextSequenceValue('login_history'),
+      user_id: userId,
+      ip: getClientIp(req),
+      user_agent: userAgent,
+      device: describeDevice(userAgent),
+      device_id: getDeviceId(req) || undefined,
+      success: false,
+      reason,
+      created_at: new Date(),
+    } as any)
+  })
+}
+
+function getDeviceId(req: NextApiRequest): string | null {
+  const deviceId = req.cookies?.[DEVICE_COOKIE_NAME]
+  if (!deviceId || !/^[a-f0-9]{32}$/.test(deviceId)) return null
+  return deviceId
+}
+
+/**
+ * Record a successful sign-in and alert the user when it's from a new device
+ */
+export async function recordSuccessfulLogin(req: NextApiRequest, res: NextApiResponse, user: User): Promise<void> {
+  const history = await getCollection<LoginHistory>(Collections.LOGIN_HISTORY)
+  const userId = user.id as number
+  const userAgent = (req.headers['user-agent'] || '').slice(0, 500)
+  const ip = getClientIp(req)
+  const device = describeDevice(userAgent)
+
+  let deviceId = getDeviceId(req)
+  const knownDevice = deviceId
+    ? await withRetry(async () => {
+        return history.findOne({ user_id: userId, device_id: deviceId as string, success: true })
+      })
+    : null
+
+  if (!deviceId) {
+    deviceId = crypto.randomBytes(16).toString('hex')
+    setAuthCookie(res, DEVICE_COOKIE_NAME, deviceId, DEVICE_COOKIE_MAX_AGE_SECONDS)
+  }
+
+  const isNewDevice = !knownDevice
+
+  // Accounts with no history yet (just registered, or first login since history
+  // was added) have nothing to compare against
+  const hasPriorLogins = isNewDevice
+    ? (await withRetry(async () => {
+        return history.countDocuments({ user_id: userId, success: true }, { limit: 1 })
+      })) > 0
+    : true
+
+  await withRetry(async () => {
+    return history.insertOne({
+      id: await getNextSequenceValue('login_history'),
+      user_id: userId,
+      ip,
+      user_agent: userAgent,
+      device,
+      device_id: deviceId as string,
+      success: true,
+      new_device: isNewDevice,
+      created_at: new Date(),
+    } as any)
+  })
+
+  if (isNewDevice && hasPriorLogins) {
+    await sendNewDeviceAlert(user, { ip, device })
+  }
+}
+
+export async function listLoginHistory(userId: number, limit: number = 20): Promise<LoginHistory[]> {
+  const history = await getCollection<LoginHistory>(Collections.LOGIN_HISTORY)
+  return withRetry(async () => {
+    return history
+      .find({ user_id: userId })
+      .sort({ created_at: -1 })
+      .limit(limit)
+      .toArray()
+  })
+}
+
+async function sendNewDeviceAlert(user: User, login: { ip: string; device: string }): Promise<void> {
+  const time = new Date()
+
+  await notifyUser(user.id as number, {
+    type: 'system',
+    message: `New login from ${login.device}`,
+    meta: { kind: 'new_login', ip: login.ip, device: login.device },
+  })
+
+  if (!user.email) return
+
+  queueEmail(user.email, 'new_login', {
+    name: user.name,
+    device: login.device,
+    ip: login.ip,
+    time,
+    settingsUrl: `${getAppUrl()}/settings`,
+  })
+}
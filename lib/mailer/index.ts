@@ -0,0 +1,45 @@
+/**
+ * Outgoing email
+ *
+ * Features render a typed template and queue it:
+ *
+ *   queueEmail(user.email, 'password_reset', { name, resetUrl, expiresInMinutes: 60 })
+ *
+ * Delivery goes through the transport chosen by MAIL_TRANSPORT (see ./transports)
+ * and failed sends are retried by the queue (see ./queue).
+ */
+
+import { EmailTemplateData, EmailTemplateName, renderEmail } from './templates'
+import { enqueueMail } from './queue'
+import { getMailTransport } from './transports'
+
+export type { EmailTemplateData, EmailTemplateName, RenderedEmail, DigestHighlight } from './templates'
+export type { MailMessage, MailTransport, MailTransportName } from './transports'
+export { renderEmail, escapeHtml } from './templates'
+export { enqueueMail, drainMailQueue, getPendingMailCount } from './queue'
+export {
+  createSmtpTransport,
+  createConsoleTransport,
+  createFileTransport,
+  getMailTransport,
+  setMailTransport,
+} from './transports'
+
+/**
+ * Render a template and queue it for delivery. Returns the queued message ID.
+ */
+export function queueEmail<K extends EmailTemplateName>(to: string, template: K, data: EmailTemplateData[K]): string {
+  return enqueueMail({ to, ...renderEmail(template, data) })
+}
+
+/**
+ * Render a template and send it right away, throwing if the transport fails.
+ * Prefer queueEmail unless the caller must know the message went out.
+ */
+export async function sendEmailNow<K extends EmailTemplateName>(to: string, template: K, data: EmailTemplateData[K]): Promise<void> {
+  await getMailTransport().send({ to, ...renderEmail(template, data) })
+}
+
+export function getAppUrl(): string {
+  return process.env.NEXTAUTH_URL || 'http://localhost:3000'
+}
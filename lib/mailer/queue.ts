@@ -0,0 +1,108 @@
+/**
+ * In-process send queue
+ *
+ * Messages are handed to the transport one at a time; a failed send is
+ * retried with exponential backoff before being dropped with an error log.
+ * The queue lives in memory, so mail still pending when the server process
+ * exits is lost.
+ */
+
+import crypto from 'crypto'
+import { MailMessage, getMailTransport } from './transports'
+
+export const MAX_SEND_ATTEMPTS = 5
+const BASE_RETRY_DELAY_MS = 2000
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000
+
+interface QueuedMail {
+  id: string
+  message: MailMessage
+  attempts: number
+  nextAttemptAt: number
+}
+
+const pending: QueuedMail[] = []
+let draining = false
+let drainTimer: ReturnType<typeof setTimeout> | null = null
+
+/**
+ * Wait before the next attempt after `attempts` failures: 2s, 4s, 8s... up to 5 minutes
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS)
+}
+
+function scheduleDrain(delayMs: number): void {
+  if (drainTimer) clearTimeout(drainTimer)
+  drainTimer = setTimeout(() => {
+    drainTimer = null
+    drainMailQueue().catch((error) => {
+      console.error('Mail queue error:', error)
+    })
+  }, delayMs)
+  // Don't keep the process alive just for pending mail
+  drainTimer.unref?.()
+}
+
+function nextDueJob(): QueuedMail | undefined {
+  const now = Date.now()
+  return pending.find((job) => job.nextAttemptAt <= now)
+}
+
+function removeJob(job: QueuedMail): void {
+  const index = pending.indexOf(job)
+  if (index !== -1) pending.splice(index, 1)
+}
+
+/**
+ * Add a message to the queue and return its ID. Delivery happens in the background.
+ */
+export function enqueueMail(message: MailMessage): string {
+  const job: QueuedMail = {
+    id: crypto.randomBytes(8).toString('hex'),
+    message,
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+  }
+  pending.push(job)
+  scheduleDrain(0)
+  return job.id
+}
+
+/**
+ * Send every message that is due, then schedule a wake-up for the next retry
+ */
+export async function drainMailQueue(): Promise<void> {
+  if (draining) return
+  draining = true
+
+  try {
+    let job = nextDueJob()
+    while (job) {
+      job.attempts++
+      try {
+        await getMailTransport().send(job.message)
+        removeJob(job)
+      } catch (error: any) {
+        if (job.attempts >= MAX_SEND_ATTEMPTS) {
+          removeJob(job)
+          console.error(`Giving up on email "${job.message.subject}" to ${job.message.to} after ${job.attempts} attempts:`, error?.message || error)
+        } else {
+          job.nextAttemptAt = Date.now() + getRetryDelayMs(job.attempts)
+          console.warn(`Email "${job.message.subject}" failed (attempt ${job.attempts}), retrying:`, error?.message || error)
+        }
+      }
+      job = nextDueJob()
+    }
+  } finally {
+    draining = false
+    if (pending.length > 0) {
+      const nextAttemptAt = Math.min(...pending.map((queued) => queued.nextAttemptAt))
+      scheduleDrain(Math.max(0, nextAttemptAt - Date.now()))
+    }
+  }
+}
+
+export function getPendingMailCount(): number {
+  return pending.length
+}
@@ -0,0 +1,197 @@
+/**
+ * Email templates
+ *
+ * Each template renders a subject, an HTML body and a plain-text fallback
+ * from typed data. Anything user-supplied is HTML-escaped.
+ */
+
+export interface DigestHighlight {
+  title: string
+  url: string
+  author?: string
+}
+
+export interface EmailTemplateData {
+  password_reset: {
+    name: string
+    resetUrl: string
+    expiresInMinutes: number
+  }
+  email_verification: {
+    name: string
+    verifyUrl: string
+    expiresInHours: number
+  }
+  new_login: {
+    name: string
+    device: string
+    ip: string
+    time: Date
+    settingsUrl: string
+  }
+  weekly_digest: {
+    name: string
+    periodLabel: string
+    newFollowers: number
+    unreadMessages: number
+    highlights: DigestHighlight[]
+    feedUrl: string
+    settingsUrl: string
+  }
+}
+
+export type EmailTemplateName = keyof EmailTemplateData
+
+export interface RenderedEmail {
+  subject: string
+  html: string
+  text: string
+}
+
+const BRAND_COLOR = '#FFAF50'
+const FOOTER_TEXT = 'UNIX - College Social Network'
+
+export function escapeHtml(value: string): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function layout(heading: string, body: string): string {
+  return `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: ${BRAND_COLOR};">${heading}</h2>
+      ${body}
+      <hr style="margin: 24px 0; border: 1px solid #eee;">
+      <p style="color: #666; font-size: 12px;">${FOOTER_TEXT}</p>
+    </div>
+  `
+}
+
+function button(url: string, label: string): string {
+  return `<a href="${escapeHtml(url)}" style="display: inline-block; background-color: ${BRAND_COLOR}; color: black; padding: 12px 24px; text-decoration: none; border-radius: 8px; font-weight: bold; margin: 16px 0;">${label}</a>`
+}
+
+function linkFallback(url: string): string {
+  return `
+      <p>Or copy and paste this link into your browser:</p>
+      <p style="word-break: break-all; color: #666;">${escapeHtml(url)}</p>`
+}
+
+function textFooter(lines: string[]): string {
+  return [...lines, '', '--', FOOTER_TEXT].join('\n')
+}
+
+type TemplateRenderer<K extends EmailTemplateName> = (data: EmailTemplateData[K]) => RenderedEmail
+
+const templates: { [K in EmailTemplateName]: TemplateRenderer<K> } = {
+  password_reset: (data) => ({
+    subject: 'Password Reset Request - UNIX Social Network',
+    html: layout('Password Reset Request', `
+      <p>Hello ${escapeHtml(data.name)},</p>
+      <p>We received a request to reset your password for your UNIX account.</p>
+      <p>Click the button below to reset your password:</p>
+      ${button(data.resetUrl, 'Reset Password')}
+      ${linkFallback(data.resetUrl)}
+      <p><strong>This link will expire in ${data.expiresInMinutes} minutes.</strong></p>
+      <p>If you didn't request this password reset, please ignore this email.</p>
+    `),
+    text: textFooter([
+      `Hello ${data.name},`,
+      '',
+      'We received a request to reset your password for your UNIX account.',
+      'Open this link to reset it:',
+      data.resetUrl,
+      '',
+      `This link will expire in ${data.expiresInMinutes} minutes.`,
+      "If you didn't request this password reset, please ignore this email.",
+    ]),
+  }),
+
+  email_verification: (data) => ({
+    subject: 'Verify your email - UNIX Social Network',
+    html: layout('Confirm your email', `
+      <p>Hello ${escapeHtml(data.name)},</p>
+      <p>Thanks for joining UNIX. Confirm this is your college email to start posting and messaging.</p>
+      ${button(data.verifyUrl, 'Verify Email')}
+      ${linkFallback(data.verifyUrl)}
+      <p><strong>This link will expire in ${data.expiresInHours} hours.</strong></p>
+      <p>If you didn't create an account, you can ignore this email.</p>
+    `),
+    text: textFooter([
+      `Hello ${data.name},`,
+      '',
+      'Thanks for joining UNIX. Confirm this is your college email to start posting and messaging:',
+      data.verifyUrl,
+      '',
+      `This link will expire in ${data.expiresInHours} hours.`,
+      "If you didn't create an account, you can ignore this email.",
+    ]),
+  }),
+
+  new_login: (data) => ({
+    subject: 'New login to your UNIX account',
+    html: layout('New login detected', `
+      <p>Hello ${escapeHtml(data.name)},</p>
+      <p>Your account was just signed in from a device we haven't seen before:</p>
+      <p><strong>${escapeHtml(data.device)}</strong><br>IP address: ${escapeHtml(data.ip)}<br>Time: ${data.time.toUTCString()}</p>
+      <p>If this was you, no action is needed.</p>
+      <p>If it wasn't, reset your password and sign out other devices from your settings:</p>
+      ${button(data.settingsUrl, 'Review Account Activity')}
+    `),
+    text: textFooter([
+      `Hello ${data.name},`,
+      '',
+      "Your account was just signed in from a device we haven't seen before:",
+      `${data.device}`,
+      `IP address: ${data.ip}`,
+      `Time: ${data.time.toUTCString()}`,
+      '',
+      'If this was you, no action is needed.',
+      "If it wasn't, reset your password and sign out other devices from your settings:",
+      data.settingsUrl,
+    ]),
+  }),
+
+  weekly_digest: (data) => {
+    const summary = `${data.newFollowers} new follower${data.newFollowers === 1 ? '' : 's'} and ${data.unreadMessages} unread message${data.unreadMessages === 1 ? '' : 's'}`
+    const highlightsHtml = data.highlights.length > 0
+      ? `<ul style="padding-left: 20px;">${data.highlights.map((highlight) => (
+          `<li style="margin-bottom: 8px;"><a href="${escapeHtml(highlight.url)}" style="color: #333;">${escapeHtml(highlight.title)}</a>${highlight.author ? ` <span style="color: #666;">by ${escapeHtml(highlight.author)}</span>` : ''}</li>`
+        )).join('')}</ul>`
+      : '<p style="color: #666;">It was a quiet week on campus.</p>'
+
+    return {
+      subject: `Your week on UNIX (${data.periodLabel})`,
+      html: layout('Your weekly digest', `
+        <p>Hello ${escapeHtml(data.name)},</p>
+        <p>Here's what you missed ${escapeHtml(data.periodLabel)}: ${summary}.</p>
+        <h3 style="color: #333;">Popular on campus</h3>
+        ${highlightsHtml}
+        ${button(data.feedUrl, 'Open UNIX')}
+        <p style="color: #666; font-size: 12px;">Don't want these emails? <a href="${escapeHtml(data.settingsUrl)}" style="color: #666;">Change your email settings</a>.</p>
+      `),
+      text: textFooter([
+        `Hello ${data.name},`,
+        '',
+        `Here's what you missed ${data.periodLabel}: ${summary}.`,
+        '',
+        'Popular on campus:',
+        ...(data.highlights.length > 0
+          ? data.highlights.map((highlight) => `- ${highlight.title}${highlight.author ? ` by ${highlight.author}` : ''}: ${highlight.url}`)
+          : ['It was a quiet week on campus.']),
+        '',
+        `Open UNIX: ${data.feedUrl}`,
+        `Change your email settings: ${data.settingsUrl}`,
+      ]),
+    }
+  },
+}
+
+export function renderEmail<K extends EmailTemplateName>(template: K, data: EmailTemplateData[K]): RenderedEmail {
+  const render = templates[template] as TemplateRenderer<K>
+  return render(data)
+}
@@ -0,0 +1,123 @@
+/**
+ * Mail transports
+ *
+ * MAIL_TRANSPORT picks where outgoing mail goes:
+ * - smtp: deliver through SMTP_HOST (default in production)
+ * - console: print to the server log (default everywhere else)
+ * - file: write each message as JSON to MAIL_OUTBOX_DIR, for local and test runs
+ */
+
+import fs from 'fs/promises'
+import path from 'path'
+import crypto from 'crypto'
+import nodemailer from 'nodemailer'
+
+export interface MailMessage {
+  to: string
+  subject: string
+  html: string
+  text: string
+  from?: string
+}
+
+export interface MailTransport {
+  name: string
+  send(message: MailMessage): Promise<void>
+}
+
+export type MailTransportName = 'smtp' | 'console' | 'file'
+
+const DEFAULT_OUTBOX_DIR = '.outbox'
+
+export function getDefaultFromAddress(): string {
+  return process.env.FROM_EMAIL || 'noreply@university.edu'
+}
+
+export function createSmtpTransport(): MailTransport {
+  const port = parseInt(process.env.SMTP_PORT || '587', 10)
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST || 'smtp.gmail.com',
+    port,
+    // Port 465 is implicit TLS; everything else upgrades with STARTTLS
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    auth: {
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS
+    }
+  })
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail({
+        from: message.from || getDefaultFromAddress(),
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text
+      })
+    }
+  }
+}
+
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log('=== EMAIL ===')
+      console.log(`To: ${message.to}`)
+      console.log(`Subject: ${message.subject}`)
+      console.log(message.text)
+      console.log('=============')
+    }
+  }
+}
+
+export function createFileTransport(outboxDir: string = process.env.MAIL_OUTBOX_DIR || DEFAULT_OUTBOX_DIR): MailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await fs.mkdir(outboxDir, { recursive: true })
+      const createdAt = new Date()
+      const fileName = `${createdAt.getTime()}-${crypto.randomBytes(4).toString('hex')}.json`
+      const entry = {
+        from: message.from || getDefaultFromAddress(),
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        created_at: createdAt.toISOString()
+      }
+      await fs.writeFile(path.join(outboxDir, fileName), JSON.stringify(entry, null, 2))
+    }
+  }
+}
+
+export function resolveTransportName(value: string | undefined = process.env.MAIL_TRANSPORT): MailTransportName {
+  if (value === 'smtp' || value === 'console' || value === 'file') return value
+  if (value) {
+    console.warn(`Unknown MAIL_TRANSPORT "${value}", falling back to the default`)
+  }
+  return process.env.NODE_ENV === 'production' ? 'smtp' : 'console'
+}
+
+let activeTransport: MailTransport | null = null
+
+export function getMailTransport(): MailTransport {
+  if (!activeTransport) {
+    const name = resolveTransportName()
+    activeTransport = name === 'smtp'
+      ? createSmtpTransport()
+      : name === 'file'
+        ? createFileTransport()
+        : createConsoleTransport()
+  }
+  return activeTransport
+}
+
+/**
+ * Replace the transport (tests), or pass null to go back to the configured one
+ */
+export function setMailTransport(transport: MailTransport | null): void {
+  activeTransport = transport
+}
@@ -0,0 +1,61 @@
+/**
+ * Who a post mentions, and telling them
+ *
+ * Posts store the ids of the people their caption mentions (see
+ * lib/mentions.ts). Usernames that don't belong to an active account, the
+ * author's own, and anyone on either side of a block with the author are
+ * left out. Like tags, mentions are only announced once the post is live,
+ * and an edit only announces the people it adds.
+ */
+
+import { getCollection, withRetry, Collections, User } from './mongodb'
+import { ACTIVE_USER_FILTER } from './accountStatus'
+import { extractMentions } from './mentions'
+import { notifyUser } from './notifications'
+
+/**
+ * The ids of the people a caption by `authorId` mentions, in order of first mention
+ */
+export async function findMentionedUsers(authorId: number, caption: string | null | undefined): Promise<number[]> {
+  const usernames = extractMentions(caption)
+  if (usernames.length === 0) return []
+
+  const users = await getCollection<User>(Collections.USERS)
+  const blocks = await getCollection(Collections.BLOCKS)
+
+  const found = await withRetry(async () => {
+    return users
+      .find({ username: { $in: usernames }, id: { $ne: authorId }, ...ACTIVE_USER_FILTER })
+      .project<Pick<User, 'id' | 'username'>>({ id: 1, username: 1 })
+      .toArray()
+  })
+  if (found.length === 0) return []
+
+  const ids = found.map(user => user.id as number)
+  const blockDocs = await withRetry(async () => {
+    return blocks.find({
+      $or: [
+        { blocker_id: authorId, blocked_user_id: { $in: ids } },
+        { blocker_id: { $in: ids }, blocked_user_id: authorId },
+      ]
+    }).toArray()
+  })
+  const blocked = new Set(blockDocs.map(b => (b.blocker_id === authorId ? b.blocked_user_id : b.blocker_id) as number))
+
+  const byUsername = new Map(found.map(user => [(user.username as string).toLowerCase(), user.id as number]))
+  return usernames
+    .map(username => byUsername.get(username))
+    .filter((userId): userId is number => userId !== undefined && !blocked.has(userId))
+}
+
+// Pass only people the post's audience includes (see filterAudienceMembers in lib/closeFriends.ts)
+export async function notifyMentionedUsers(postId: number, author: { id: number; name: string }, userIds: number[]): Promise<void> {
+  for (const userId of userIds) {
+    if (userId === author.id) continue
+    await notifyUser(userId, {
+      type: 'mention',
+      message: `${author.name} mentioned you in a post`,
+      meta: { kind: 'post_mention', postId, actorId: author.id },
+    })
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * @mentions (safe to import from client components)
+ *
+ * Usernames mentioned in a caption are pulled out when the post is created or
+ * edited, and the people they belong to are stored on the post as `mentions`
+ * (user ids), so an edit can tell who was mentioned before. Resolving
+ * usernames and notifying live in lib/mentionIndex.ts.
+ */
+
+export const MAX_MENTIONS_PER_POST = 20
+
+// An @ that starts a word (not an email address), followed by a whole
+// username: 3-30 letters, digits, underscores or hyphens
+const MENTION_PATTERN = /(^|[^\w@.-])@([a-z0-9_-]{3,30})(?![a-z0-9_-])/gi
+
+// The distinct usernames mentioned in a caption, lowercase, in order of first use
+export function extractMentions(text: string | null | undefined): string[] {
+  if (!text) return []
+  const usernames = [...text.matchAll(MENTION_PATTERN)].map(match => match[2].toLowerCase())
+  return [...new Set(usernames)].slice(0, MAX_MENTIONS_PER_POST)
+}
+
+// The people an edit mentions who weren't mentioned before, for notifying
+export function newMentions(before: number[], after: number[]): number[] {
+  const previous = new Set(before)
+  return after.filter(userId => !previous.has(userId))
+}
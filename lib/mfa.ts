@@ -0,0 +1,234 @@
+/**
+ * TOTP two-factor authentication
+ *
+ * Enrollment stores a pending secret until the user proves their authenticator
+ * works, then promotes it and issues one-time backup codes. Backup codes are
+ * only stored as SHA-256 hashes and are shown to the user exactly once.
+ */
+
+import crypto from 'crypto'
+import { NextApiRequest } from 'next'
+import { getCollection, withRetry, Collections, User, MfaFactor } from './mongodb'
+import { generateTotpSecret, verifyTotp } from './totp'
+import { verifyPassword } from './auth'
+import { checkLoginThrottle, recordFailedLogin, recordFailedLoginHistory, clearFailedLogins } from './loginSecurity'
+
+const BACKUP_CODE_COUNT = 10
+
+// Pending secrets that were never confirmed are discarded after this long
+const PENDING_ENROLLMENT_TTL_MS = 15 * 60 * 1000
+
+export function hashBackupCode(code: string): string {
+  const normalized = code.replace(/[\s-]/g, '').toLowerCase()
+  return crypto.createHash('sha256').update(normalized).digest('hex')
+}
+
+// Codes look like "a1b2-c3d4"
+export function generateBackupCodes(count: number = BACKUP_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const raw = crypto.randomBytes(4).toString('hex')
+    return `${raw.slice(0, 4)}-${raw.slice(4)}`
+  })
+}
+
+export async function getMfaStatus(userId: number): Promise<{ enabled: boolean; backup_codes_remaining: number }> {
+  const factors = await getCollection<MfaFactor>(Collections.MFA_FACTORS)
+  const factor = await withRetry(async () => {
+    return factors.findOne({ user_id: userId })
+  })
+
+  return {
+    enabled: !!factor?.secret,
+    backup_codes_remaining: factor?.secret ? factor.backup_code_hashes.length : 0,
+  }
+}
+
+/**
+ * Start (or restart) enrollment with a fresh pending secret
+ */
+export async function startMfaEnrollment(userId: number): Promise<string> {
+  const factors = await getCollection<MfaFactor>(Collections.MFA_FACTORS)
+  const secret = generateTotpSecret()
+
+  await withRetry(async () => {
+    return factors.updateOne(
+      { user_id: userId },
+      {
+        $set: { pending_secret: secret, pending_created_at: new Date() },
+        $setOnInsert: { user_id: userId, backup_code_hashes: [] },
+      },
+      { upsert: true }
+    )
+  })
+
+  return secret
+}
+
+/**
+ * Confirm enrollment with a code from the authenticator app
+ * Returns the plaintext backup codes, or null if the code was wrong
+ */
+export async function confirmMfaEnrollment(userId: number, code: string): Promise<string[] | null> {
+  const factors = await getCollection<MfaFactor>(Collections.MFA_FACTORS)
+  const users = await getCollection<User>(Collections.USERS)
+
+  const factor = await withRetry(async () => {
+    return factors.findOne({ user_id: userId })
+  })
+
+  if (!factor?.pending_secret || !factor.pending_created_at) return null
+  if (Date.now() - new Date(factor.pending_created_at).getTime() > PENDING_ENROLLMENT_TTL_MS) return null
+
+  const step = verifyTotp(factor.pending_secret, code)
+  if (step === null) return null
+
+  const backupCodes = generateBackupCodes()
+
+  await withRetry(async () => {
+    return factors.updateOne(
+      { user_id: userId },
+      {
+        $set: {
+          secret: factor.pending_secret,
+          backup_code_hashes: backupCodes.map(hashBackupCode),
+          last_used_step: step,
+          enabled_at: new Date(),
+        },
+        $unset: { pending_secret: '', pending_created_at: '' },
+      }
+    )
+  })
+
+  await withRetry(async () => {
+    return users.updateOne({ id: userId }, { $set: { mfa_enabled: true } })
+  })
+
+  return backupCodes
+}
+
+/**
+ * Check a TOTP or backup code for a user with 2FA enabled
+ * TOTP codes can't be replayed within their window; backup codes are consumed.
+ */
+export async function verifyMfaCode(userId: number, code: string): Promise<'totp' | 'backup' | null> {
+  if (!code || typeof code !== 'string') return null
+
+  const factors = await getCollection<MfaFactor>(Collections.MFA_FACTORS)
+  const factor = await withRetry(async () => {
+    return factors.findOne({ user_id: userId })
+  })
+
+  if (!factor?.secret) return null
+
+  const step = verifyTotp(factor.secret, code)
+  if (step !== null) {
+    // Only accept steps newer than the last one used, atomically
+    const result = await withRetry(async () => {
+      return factors.updateOne(
+        {
+          user_id: userId,
+          $or: [{ last_used_step: { $lt: step } }, { last_used_step: { $exists: false } }],
+        },
+        { $set: { last_used_step: step } }
+      )
+    })
+    return result.modifiedCount > 0 ? 'totp' : null
+  }
+
+  const hash = hashBackupCode(code)
+  const result = await withRetry(async () => {
+    return factors.updateOne(
+      { user_id: userId, backup_code_hashes: hash },
+      { $pull: { backup_code_hashes: hash } }
+    )
+  })
+  return result.modifiedCount > 0 ? 'backup' : null
+}
+
+/**
+ * Replace all backup codes, invalidating the old ones
+ */
+export async function regenerateBackupCodes(userId: number): Promise<string[]> {
+  const factors = await getCollection<MfaFactor>(Collections.MFA_FACTORS)
+  const backupCodes = generateBackupCodes()
+
+  await withRetry(async () => {
+    return factors.updateOne(
+      { user_id: userId, secret: { $exists: true } },
+      { $set: { backup_code_hashes: backupCodes.map(hashBackupCode) } }
+    )
+  })
+
+  return backupCodes
+}
+
+export async function disableMfa(userId: number): Promise<void> {
+  const factors = await getCollection<MfaFactor>(Collections.MFA_FACTORS)
+  const users = await getCollection<User>(Collections.USERS)
+
+  await withRetry(async () => {
+    return factors.deleteOne({ user_id: userId })
+  })
+
+  await withRetry(async () => {
+    return users.updateOne({ id: userId }, { $set: { mfa_enabled: false } })
+  })
+}
+
+/**
+ * Re-authenticate a signed-in user before sensitive 2FA changes
+ * Requires the current password and a TOTP or backup code.
+ * Returns null on success, otherwise the status and error to respond with.
+ */
+export async function reauthenticateForMfa(
+  req: NextApiRequest,
+  userId: number,
+  password: unknown,
+  code: unknown
+): Promise<{ status: number; error: string } | null> {
+  if (!password || typeof password !== 'string' || !code || typeof code !== 'string') {
+    return { status: 400, error: 'Password and authentication code are required' }
+  }
+
+  const users = await getCollection<User>(Collections.USERS)
+  const user = await withRetry(async () => {
+    return users.findOne({ id: userId })
+  })
+
+  if (!user) {
+    return { status: 404, error: 'User not found' }
+  }
+
+  if (!user.mfa_enabled) {
+    return { status: 400, error: 'Two-factor authentication is not enabled' }
+  }
+
+  // A stolen session shouldn't be a way around the login throttle
+  const throttle = await checkLoginThrottle(user.college_id)
+  if (!throttle.allowed) {
+    return {
+      status: 429,
+      error: throttle.locked
+        ? `Too many failed attempts. Try again in ${Math.ceil(throttle.retryAfterMs / 60000)} minute(s).`
+        : `Please wait ${Math.ceil(throttle.retryAfterMs / 1000)} second(s) before trying again.`,
+    }
+  }
+
+  const isValidPassword = await verifyPassword(password, user.password_hash)
+  if (!isValidPassword) {
+    await recordFailedLogin(user.college_id)
+    await recordFailedLoginHistory(req, userId, 'bad_password')
+    // 403 rather than 401: the session itself is fine, so clients shouldn't refresh and retry
+    return { status: 403, error: 'Incorrect password' }
+  }
+
+  const method = await verifyMfaCode(userId, code)
+  if (!method) {
+    await recordFailedLogin(user.college_id)
+    await recordFailedLoginHistory(req, userId, 'bad_mfa_code')
+    return { status: 403, error: 'Invalid authentication code' }
+  }
+
+  await clearFailedLogins(user.college_id)
+  return null
+}
@@ -150,6 +150,11 @@ export async function getCollection<T extends Document = Document>(name: string)
 }
 
 // Type definitions for collections
+export type UserRole = 'student' | 'faculty' | 'staff' | 'alumni' | 'admin'
+
+// Who may tag a user in posts; 'followers' means people who follow them
+export type TagPermission = 'everyone' | 'followers' | 'no_one'
+
 export interface User {
   _id?: ObjectId
   id?: number
@@ -157,7 +162,16 @@ export interface User {
   username?: string
   username_changed_at?: Date
   email?: string
+  // Only false for accounts still awaiting confirmation; older accounts predate verification
+  email_verified?: boolean
+  email_verified_at?: Date
+  institution_id?: string
+  mfa_enabled?: boolean
+  // Only set through an approved role request (or scripts/set-user-role.js); missing means student
+  role?: UserRole
+  role_verified_at?: Date
   password_hash: string
+  password_changed_at?: Date
   name: string
   department: string
   year: number
@@ -166,6 +180,10 @@ export interface User {
   is_private: boolean
   is_deactivated?: boolean
   deactivated_at?: Date
+  // Set while a deletion is pending; logging in before deletion_purge_at cancels it
+  deletion_requested_at?: Date
+  deletion_purge_at?: Date
+  deletion_anonymize_messages?: boolean
   followers_count: number
   following_count: number
   created_at: Date
@@ -174,16 +192,269 @@ export interface User {
   show_read_receipts?: boolean
   who_can_message?: 'everyone' | 'followers'
   who_can_comment?: 'everyone' | 'followers'
+  who_can_tag?: TagPermission
+  // Whether others may repost or quote this user's posts (see lib/reposts.ts); unset means yes
+  allow_reposts?: boolean
 }
 
+export interface PostMedia {
+  url: string
+  type: 'IMAGE' | 'VIDEO'
+}
+
+export type PostStatus = 'draft' | 'scheduled' | 'published'
+
 export interface Post {
   _id?: ObjectId
   id?: number
   user_id: number | ObjectId
   caption?: string
+  // Ordered carousel (see lib/postMedia.ts); media_url/media_type mirror the first item
+  media?: PostMedia[]
   media_url: string
   media_type: 'IMAGE' | 'VIDEO' | 'NONE'
   category: 'INTERNSHIP' | 'WORKSHOP' | 'LIBRARY_MEMORY' | 'ACADEMIC' | 'EVENT' | 'EVENTS' | 'CLUBS' | 'SPORTS' | 'SOCIAL' | 'GENERAL'
+  // Optional campus place (see lib/places.ts)
+  place_id?: number
+  // Lowercased tags from the caption (see lib/hashtags.ts)
+  hashtags?: string[]
+  // Ids of the people the caption @mentions (see lib/mentionIndex.ts)
+  mentions?: number[]
+  // Drafts and scheduled posts are only visible to their author (see
+  // lib/postSchedule.ts); posts from before drafts have no status
+  status?: PostStatus
+  scheduled_at?: Date
+  // Set while a draft is being edited; for live posts created_at is when they went out
+  updated_at?: Date
+  // Last edit after publishing; earlier versions are in post_revisions
+  edited_at?: Date
+  // Structured details of EVENT/EVENTS posts (see lib/events.ts)
+  event?: PostEvent
+  // Structured details of INTERNSHIP posts (see lib/internships.ts)
+  internship?: PostInternship
+  // Who may see the post (see lib/postAudience.ts); unset means everyone
+  audience?: PostAudience
+  // Poll attached to the post (see lib/polls.ts)
+  poll?: PostPoll
+  // Reposts have no content of their own and show this post instead;
+  // quote posts show it under their caption (see lib/reposts.ts)
+  repost_of?: number
+  quote_of?: number
+  created_at: Date
+}
+
+export interface PollOption {
+  // Position-based, 1 to the number of options
+  id: number
+  text: string
+}
+
+export interface PostPoll {
+  options: PollOption[]
+  // Whether voters may pick more than one option
+  multiple: boolean
+  // Anonymous polls never reveal who voted for what, not even to the author
+  anonymous: boolean
+  // Voting stops at this time; unset means the poll stays open
+  closes_at?: Date
+}
+
+// One person's vote on a poll; changing it replaces the picked options
+export interface PollVote {
+  _id?: ObjectId
+  post_id: number
+  user_id: number
+  option_ids: number[]
+  updated_at: Date
+  created_at: Date
+}
+
+// An image or video shared for a day; TTL-deleted at `expires_at`, which is
+// cleared while the story is pinned to a highlight
+export interface Story {
+  _id?: ObjectId
+  id: number
+  user_id: number
+  media_url: string
+  media_type: 'image' | 'video'
+  created_at: Date
+  expires_at?: Date
+}
+
+// Someone having watched a story, kept as long as the story can be live
+export interface StoryView {
+  _id?: ObjectId
+  story_id: number
+  viewer_id: number
+  viewed_at: Date
+}
+
+// Stories pinned to a profile under a title, kept past their 24 hours
+export interface StoryHighlight {
+  _id?: ObjectId
+  id: number
+  user_id: number
+  title: string
+  story_ids: number[]
+  created_at: Date
+  updated_at?: Date
+}
+
+export type AudienceType = 'public' | 'followers' | 'close_friends' | 'department'
+
+export interface PostAudience {
+  type: Exclude<AudienceType, 'public'>
+  // For department posts: the department (matched case-insensitively) and
+  // optionally one year of study
+  department?: string
+  year?: number
+}
+
+export interface PostEvent {
+  starts_at: Date
+  ends_at?: Date
+  venue: string
+  // Going spots; further RSVPs join the waitlist. No limit when unset
+  capacity?: number
+  // Last moment to RSVP going
+  registration_deadline?: Date
+  // Name of the club running it
+  organizer_club?: string
+  // Set once the reminder has gone out; cleared when the start time moves
+  reminded_at?: Date
+}
+
+export type EventRsvpStatus = 'going' | 'waitlisted' | 'interested' | 'not_going'
+
+// One user's answer to an event post
+export interface EventRsvp {
+  _id?: ObjectId
+  post_id: number
+  user_id: number
+  status: EventRsvpStatus
+  // When the status last changed; the waitlist is served in this order
+  updated_at: Date
+  created_at: Date
+}
+
+export interface PostInternship {
+  company: string
+  role: string
+  // Free text such as "₹15,000/month" or "Unpaid"
+  stipend?: string
+  // Who may apply; unset means anyone. Departments match case-insensitively
+  departments?: string[]
+  years?: number[]
+  apply_url: string
+  // The listing leaves feeds once this passes
+  deadline: Date
+  // Set once the deadline reminder has gone out; cleared when the deadline moves
+  reminded_at?: Date
+}
+
+export type InternshipTrackingStatus = 'interested' | 'applied'
+
+// One user's own progress on an internship listing; only they see it
+export interface InternshipApplication {
+  _id?: ObjectId
+  post_id: number
+  user_id: number
+  status: InternshipTrackingStatus
+  updated_at: Date
+  created_at: Date
+}
+
+// Secret token behind a user's personal iCal feed of the events they RSVPed to
+export interface CalendarFeed {
+  _id?: ObjectId
+  user_id: number
+  token: string
+  created_at: Date
+}
+
+// A version of a live post as it was before an edit (see lib/postRevisions.ts)
+export interface PostRevision {
+  _id?: ObjectId
+  id?: number
+  post_id: number
+  caption: string
+  category: Post['category']
+  place_id?: number
+  media: PostMedia[]
+  // When this version went live (the post's publish time or an earlier edit)
+  created_at: Date
+  // When the edit that replaced it was made
+  replaced_at: Date
+}
+
+export type PlaceKind = 'building' | 'hostel' | 'canteen' | 'sports_ground'
+
+// Campus place catalog, managed by admins
+export interface Place {
+  _id?: ObjectId
+  id?: number
+  name: string
+  // Lowercased name, unique so the catalog has no duplicates
+  name_key: string
+  kind: PlaceKind
+  description?: string
+  // Archived places can't be picked for new posts, but existing posts keep them
+  is_archived?: boolean
+  created_by: number
+  created_at: Date
+  updated_at?: Date
+}
+
+// A person tagged on one carousel item of a post (see lib/postTags.ts)
+export interface PostTag {
+  _id?: ObjectId
+  post_id: number
+  user_id: number
+  tagged_by: number
+  media_index: number
+  // Label position on images, as fractions of the width and height
+  x?: number
+  y?: number
+  created_at: Date
+}
+
+// A user's private, named group of saved posts (see lib/savedPosts.ts)
+export interface SavedCollection {
+  _id?: ObjectId
+  id?: number
+  user_id: number
+  name: string
+  // Lowercased name, unique per user
+  name_key: string
+  created_at: Date
+  updated_at?: Date
+}
+
+export interface SavedPost {
+  _id?: ObjectId
+  user_id: number
+  post_id: number
+  // null while the post isn't in any collection
+  collection_id: number | null
+  // Sort key within the collection, highest first
+  position: number
+  created_at: Date
+}
+
+// One document per hashtag ever used, keyed by the normalised tag
+export interface Hashtag {
+  _id?: ObjectId
+  tag: string
+  // Posts currently carrying the tag
+  post_count: number
+  last_used_at: Date
+  created_at: Date
+}
+
+export interface HashtagFollow {
+  _id?: ObjectId
+  user_id: number
+  tag: string
   created_at: Date
 }
 
@@ -221,6 +492,14 @@ export interface Follower {
   created_at: Date
 }
 
+// Someone on a user's close friends list; they see that user's close-friends posts
+export interface CloseFriend {
+  _id?: ObjectId
+  user_id: number
+  friend_id: number
+  created_at: Date
+}
+
 export interface FollowRequest {
   _id?: ObjectId
   id?: number
@@ -238,7 +517,9 @@ export interface Message {
   media_url?: string
   reaction?: string | null
   reply_to_id?: number | null
+  story_id?: number | null // Sent as a reply to this story
   deleted_for?: number[] // Array of user IDs who deleted this message
+  sender_deleted?: boolean // Sender's account was purged; message kept for the recipient
   created_at: Date
 }
 
@@ -249,6 +530,96 @@ export interface PasswordReset {
   token: string
   expires_at: Date
   used: boolean
+  used_at?: Date
+  created_at: Date
+}
+
+export interface EmailVerification {
+  _id?: ObjectId
+  id?: number
+  user_id: number
+  email: string
+  token: string
+  expires_at: Date
+  used: boolean
+  used_at?: Date
+  created_at: Date
+}
+
+// Failed password attempts per college ID (whether or not the account exists)
+export interface LoginThrottle {
+  _id?: ObjectId
+  key: string
+  failed_count: number
+  last_failed_at: Date
+  locked_until?: Date
+  expires_at: Date
+}
+
+export interface LoginHistory {
+  _id?: ObjectId
+  id?: number
+  user_id: number
+  ip: string
+  user_agent: string
+  device: string
+  device_id?: string
+  success: boolean
+  reason?: 'bad_password' | 'bad_mfa_code' | 'locked'
+  new_device?: boolean
+  created_at: Date
+}
+
+export interface RoleRequest {
+  _id?: ObjectId
+  id?: number
+  user_id: number
+  requested_role: Exclude<UserRole, 'student' | 'admin'>
+  note?: string
+  status: 'pending' | 'approved' | 'rejected'
+  reviewed_by?: number
+  reviewed_at?: Date
+  review_note?: string
+  created_at: Date
+}
+
+// Kept out of the users collection so secrets never leak through serialized users
+export interface MfaFactor {
+  _id?: ObjectId
+  user_id: number
+  secret?: string
+  pending_secret?: string
+  pending_created_at?: Date
+  backup_code_hashes: string[]
+  last_used_step?: number
+  enabled_at?: Date
+}
+
+export interface Session {
+  _id?: ObjectId
+  id?: number
+  user_id: number
+  jti: string
+  refresh_token_hash?: string
+  previous_refresh_token_hash?: string
+  rotated_at?: Date
+  ip: string
+  user_agent: string
+  device: string
+  created_at: Date
+  last_seen_at: Date
+  expires_at: Date
+}
+
+// In-app notifications kept for users who weren't connected when they were sent
+export interface UserNotification {
+  _id?: ObjectId
+  id: string
+  user_id: number
+  type: 'like' | 'comment' | 'follow' | 'mention' | 'system'
+  message: string
+  meta?: Record<string, unknown>
+  read: boolean
   created_at: Date
 }
 
@@ -263,11 +634,33 @@ export const Collections = {
   FOLLOW_REQUESTS: 'follow_requests',
   MESSAGES: 'messages',
   PASSWORD_RESETS: 'password_resets',
+  EMAIL_VERIFICATIONS: 'email_verifications',
   CLUBS: 'clubs',
   CLUB_MEMBERS: 'club_members',
   CLUB_DISCUSSIONS: 'club_discussions',
   CLUB_COMMENTS: 'club_comments',
   BLOCKS: 'blocks',
+  SESSIONS: 'sessions',
+  MFA_FACTORS: 'mfa_factors',
+  LOGIN_THROTTLES: 'login_throttles',
+  LOGIN_HISTORY: 'login_history',
+  ROLE_REQUESTS: 'role_requests',
+  PLACES: 'places',
+  POST_TAGS: 'post_tags',
+  SAVED_POSTS: 'saved_posts',
+  SAVED_COLLECTIONS: 'saved_collections',
+  HASHTAGS: 'hashtags',
+  HASHTAG_FOLLOWS: 'hashtag_follows',
+  POST_REVISIONS: 'post_revisions',
+  EVENT_RSVPS: 'event_rsvps',
+  CALENDAR_FEEDS: 'calendar_feeds',
+  INTERNSHIP_APPLICATIONS: 'internship_applications',
+  CLOSE_FRIENDS: 'close_friends',
+  POLL_VOTES: 'poll_votes',
+  STORIES: 'stories',
+  STORY_VIEWS: 'story_views',
+  STORY_HIGHLIGHTS: 'story_highlights',
+  NOTIFICATIONS: 'notifications',
 }
 
 // Helper function to get next sequential ID
@@ -357,12 +750,15 @@ export async function initializeIndexes(): Promise<void> {
     await users.createIndex({ username: 1 }, { unique: true, sparse: true })
     await users.createIndex({ email: 1 }, { unique: true, sparse: true })
     await users.createIndex({ name: 'text', username: 'text' })
+    await users.createIndex({ is_deactivated: 1 }, { sparse: true })
+    await users.createIndex({ deletion_purge_at: 1 }, { sparse: true })
     
     // Posts indexes
     const posts = db.collection(Collections.POSTS)
     await posts.createIndex({ user_id: 1 })
     await posts.createIndex({ category: 1 })
     await posts.createIndex({ created_at: -1 })
+    await posts.createIndex({ place_id: 1, created_at: -1 }, { sparse: true })
     
     // Auras indexes
     const auras = db.collection(Collections.AURAS)
@@ -401,6 +797,123 @@ export async function initializeIndexes(): Promise<void> {
     await passwordResets.createIndex({ user_id: 1 })
     await passwordResets.createIndex({ expires_at: 1 })
     
+    // Email Verifications indexes
+    const emailVerifications = db.collection(Collections.EMAIL_VERIFICATIONS)
+    await emailVerifications.createIndex({ token: 1 }, { unique: true })
+    await emailVerifications.createIndex({ user_id: 1 })
+    await emailVerifications.createIndex({ expires_at: 1 })
+    
+    // Sessions indexes (TTL index drops sessions once their refresh token has expired)
+    const sessions = db.collection(Collections.SESSIONS)
+    await sessions.createIndex({ jti: 1 }, { unique: true })
+    await sessions.createIndex({ user_id: 1 })
+    await sessions.createIndex({ refresh_token_hash: 1 }, { sparse: true })
+    await sessions.createIndex({ previous_refresh_token_hash: 1 }, { sparse: true })
+    await sessions.createIndex({ expires_at: 1 }, { expireAfterSeconds: 0 })
+    
+    // MFA factors indexes
+    const mfaFactors = db.collection(Collections.MFA_FACTORS)
+    await mfaFactors.createIndex({ user_id: 1 }, { unique: true })
+    
+    // Login throttle indexes (TTL index forgets failures after the counting window)
+    const loginThrottles = db.collection(Collections.LOGIN_THROTTLES)
+    await loginThrottles.createIndex({ key: 1 }, { unique: true })
+    await loginThrottles.createIndex({ expires_at: 1 }, { expireAfterSeconds: 0 })
+    
+    // Login history indexes (kept for 90 days)
+    const loginHistory = db.collection(Collections.LOGIN_HISTORY)
+    await loginHistory.createIndex({ user_id: 1, created_at: -1 })
+    await loginHistory.createIndex({ user_id: 1, device_id: 1 })
+    await loginHistory.createIndex({ created_at: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 })
+    
+    // Role request indexes
+    const roleRequests = db.collection(Collections.ROLE_REQUESTS)
+    await roleRequests.createIndex({ user_id: 1, status: 1 })
+    await roleRequests.createIndex({ status: 1, created_at: 1 })
+
+    // Campus place indexes
+    const places = db.collection(Collections.PLACES)
+    await places.createIndex({ name_key: 1 }, { unique: true })
+    await places.createIndex({ kind: 1, name_key: 1 })
+
+    // Post tag indexes (one tag per person per carousel item)
+    const postTags = db.collection(Collections.POST_TAGS)
+    await postTags.createIndex({ post_id: 1, user_id: 1, media_index: 1 }, { unique: true })
+    await postTags.createIndex({ user_id: 1, created_at: -1 })
+
+    // Saved post indexes (a post is saved at most once per user)
+    const savedPosts = db.collection(Collections.SAVED_POSTS)
+    await savedPosts.createIndex({ user_id: 1, post_id: 1 }, { unique: true })
+    await savedPosts.createIndex({ user_id: 1, collection_id: 1, position: -1 })
+    await savedPosts.createIndex({ post_id: 1 })
+
+    const savedCollections = db.collection(Collections.SAVED_COLLECTIONS)
+    await savedCollections.createIndex({ user_id: 1, name_key: 1 }, { unique: true })
+
+    // Hashtag indexes (posts carry their tags; counts are kept per tag)
+    await posts.createIndex({ hashtags: 1, created_at: -1 })
+    await posts.createIndex({ mentions: 1 }, { sparse: true })
+    // Drafts and scheduled posts, per author and for the publishing job
+    await posts.createIndex({ user_id: 1, status: 1 })
+    await posts.createIndex({ status: 1, scheduled_at: 1 })
+    const hashtags = db.collection(Collections.HASHTAGS)
+    await hashtags.createIndex({ tag: 1 }, { unique: true })
+    await hashtags.createIndex({ post_count: -1 })
+
+    const hashtagFollows = db.collection(Collections.HASHTAG_FOLLOWS)
+    await hashtagFollows.createIndex({ user_id: 1, tag: 1 }, { unique: true })
+    await hashtagFollows.createIndex({ tag: 1 })
+
+    const postRevisions = db.collection(Collections.POST_REVISIONS)
+    await postRevisions.createIndex({ post_id: 1, replaced_at: -1 })
+
+    await posts.createIndex({ 'event.starts_at': 1 }, { sparse: true })
+
+    const eventRsvps = db.collection(Collections.EVENT_RSVPS)
+    await eventRsvps.createIndex({ post_id: 1, user_id: 1 }, { unique: true })
+    await eventRsvps.createIndex({ post_id: 1, status: 1, updated_at: 1 })
+    await eventRsvps.createIndex({ user_id: 1 })
+
+    const calendarFeeds = db.collection(Collections.CALENDAR_FEEDS)
+    await calendarFeeds.createIndex({ user_id: 1 }, { unique: true })
+    await calendarFeeds.createIndex({ token: 1 }, { unique: true })
+
+    await posts.createIndex({ 'internship.deadline': 1 }, { sparse: true })
+
+    const internshipApplications = db.collection(Collections.INTERNSHIP_APPLICATIONS)
+    await internshipApplications.createIndex({ post_id: 1, user_id: 1 }, { unique: true })
+    await internshipApplications.createIndex({ user_id: 1, updated_at: -1 })
+
+    const closeFriends = db.collection(Collections.CLOSE_FRIENDS)
+    await closeFriends.createIndex({ user_id: 1, friend_id: 1 }, { unique: true })
+    await closeFriends.createIndex({ friend_id: 1 })
+
+    const pollVotes = db.collection(Collections.POLL_VOTES)
+    await pollVotes.createIndex({ post_id: 1, user_id: 1 }, { unique: true })
+    await pollVotes.createIndex({ user_id: 1 })
+
+    // One repost per person and post
+    await posts.createIndex({ repost_of: 1, user_id: 1 }, { unique: true, partialFilterExpression: { repost_of: { $exists: true } } })
+    await posts.createIndex({ quote_of: 1 }, { sparse: true })
+
+    const stories = db.collection(Collections.STORIES)
+    await stories.createIndex({ user_id: 1, created_at: -1 })
+    await stories.createIndex({ expires_at: 1 }, { expireAfterSeconds: 0 })
+
+    // Views outlive the 24 hours a story is live by a day, then go
+    const storyViews = db.collection(Collections.STORY_VIEWS)
+    await storyViews.createIndex({ story_id: 1, viewer_id: 1 }, { unique: true })
+    await storyViews.createIndex({ viewed_at: 1 }, { expireAfterSeconds: 2 * 24 * 60 * 60 })
+
+    const storyHighlights = db.collection(Collections.STORY_HIGHLIGHTS)
+    await storyHighlights.createIndex({ user_id: 1, created_at: 1 })
+    await storyHighlights.createIndex({ story_ids: 1 })
+
+    const notifications = db.collection(Collections.NOTIFICATIONS)
+    await notifications.createIndex({ user_id: 1, created_at: -1 })
+    await notifications.createIndex({ user_id: 1, id: 1 }, { unique: true })
+    await notifications.createIndex({ created_at: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 })
+    
     console.log('✅ MongoDB indexes initialized')
   } catch (error) {
     console.error('Error initializing indexes:', error)
@@ -0,0 +1,94 @@
+/**
+ * Stored in-app notifications
+ *
+ * A socket emit only reaches people who are connected at that moment, and
+ * `global.io` isn't set at all when the socket server runs on its own. So
+ * notifications are saved first and pushed live as a bonus; the
+ * notifications page loads the saved ones and marks them read here.
+ */
+
+import crypto from 'crypto'
+import { getCollection, withRetry, Collections, UserNotification } from './mongodb'
+
+export const NOTIFICATIONS_PAGE_SIZE = 50
+
+export type NotificationInput = Pick<UserNotification, 'type' | 'message' | 'meta'>
+
+export interface NotificationView {
+  id: string
+  type: UserNotification['type']
+  message: string
+  time: string
+  read: boolean
+  meta?: Record<string, unknown>
+}
+
+function toView(notification: UserNotification): NotificationView {
+  return {
+    id: notification.id,
+    type: notification.type,
+    message: notification.message,
+    time: new Date(notification.created_at).toISOString(),
+    read: notification.read,
+    ...(notification.meta ? { meta: notification.meta } : {}),
+  }
+}
+
+/**
+ * Save a notification for a user and push it to any open sessions
+ * Never throws: a notification going missing shouldn't fail what caused it
+ */
+export async function notifyUser(userId: number, input: NotificationInput): Promise<void> {
+  const notification: UserNotification = {
+    id: `${Date.now()}-${crypto.randomBytes(4).toString('hex')}`,
+    user_id: userId,
+    type: input.type,
+    message: input.message,
+    ...(input.meta ? { meta: input.meta } : {}),
+    read: false,
+    created_at: new Date(),
+  }
+
+  try {
+    const notifications = await getCollection<UserNotification>(Collections.NOTIFICATIONS)
+    await withRetry(async () => {
+      return notifications.insertOne({ ...notification })
+    })
+  } catch (error) {
+    console.error('Failed to store notification:', error)
+  }
+
+  try {
+    if ((global as any).io) {
+      ;(global as any).io.to(`user-${userId}`).emit('notification', toView(notification))
+    }
+  } catch (notificationError) {
+    console.warn('Failed to send notification:', notificationError)
+  }
+}
+
+/**
+ * The user's notifications, newest first
+ */
+export async function listNotifications(userId: number, limit: number = NOTIFICATIONS_PAGE_SIZE): Promise<NotificationView[]> {
+  const notifications = await getCollection<UserNotification>(Collections.NOTIFICATIONS)
+  const found = await withRetry(async () => {
+    return notifications
+      .find({ user_id: userId })
+      .sort({ created_at: -1 })
+      .limit(limit)
+      .toArray()
+  })
+  return found.map(toView)
+}
+
+/**
+ * Mark some (or, without ids, all) of the user's notifications read
+ */
+export async function markNotificationsRead(userId: number, ids?: string[]): Promise<void> {
+  const notifications = await getCollection<UserNotification>(Collections.NOTIFICATIONS)
+  const filter = ids ? { user_id: userId, id: { $in: ids }, read: false } : { user_id: userId, read: false }
+  await withRetry(async () => {
+    return notifications.updateMany(filter, { $set: { read: true } })
+  })
+}
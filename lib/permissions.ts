@@ -0,0 +1,51 @@
+/**
+ * Server-side role checks for API routes
+ *
+ * Roles are read from the database on every check rather than from the JWT,
+ * so an approval or demotion takes effect immediately.
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getCollection, withRetry, Collections, User, UserRole } from './mongodb'
+import { getUserFromRequest } from './auth'
+import { Permission, getUserRole, hasPermission } from './roles'
+
+export const PERMISSION_DENIED_ERROR = "You don't have permission to do that"
+
+export async function getRoleForUser(userId: number): Promise<UserRole> {
+  const users = await getCollection<User>(Collections.USERS)
+  const user = await withRetry(async () => {
+    return users.findOne({ id: userId }, { projection: { role: 1 } })
+  })
+  return getUserRole(user)
+}
+
+export async function userHasPermission(userId: number, permission: Permission): Promise<boolean> {
+  return hasPermission(await getRoleForUser(userId), permission)
+}
+
+/**
+ * Authenticate the request and check a permission, responding 401/403 on failure
+ *
+ *   const actor = await requirePermission(req, res, 'review_roles')
+ *   if (!actor) return
+ */
+export async function requirePermission(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  permission: Permission
+): Promise<{ userId: number; role: UserRole } | null> {
+  const auth = await getUserFromRequest(req)
+  if (!auth) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return null
+  }
+
+  const role = await getRoleForUser(auth.userId)
+  if (!hasPermission(role, permission)) {
+    res.status(403).json({ error: PERMISSION_DENIED_ERROR })
+    return null
+  }
+
+  return { userId: auth.userId, role }
+}
@@ -0,0 +1,174 @@
+/**
+ * Campus place catalog storage
+ *
+ * Places are created and edited by admins (the `manage_places` permission).
+ * Removing a place archives it: it disappears from pickers and search, but
+ * posts already tagged with it keep their location.
+ */
+
+import { getCollection, withRetry, getNextSequenceValue, Collections, Place, Post } from './mongodb'
+import { PlaceInput, PlaceKind, PlaceSummary, placeNameKey } from './places'
+import { PUBLISHED_POST_FILTER } from './postSchedule'
+
+export const PLACE_NAME_TAKEN_ERROR = 'A place with that name already exists'
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+export function toPlaceSummary(place: Place): PlaceSummary {
+  return { id: place.id as number, name: place.name, kind: place.kind }
+}
+
+// API shape for a catalog entry
+export function serializePlace(place: Place, postCount?: number) {
+  return {
+    id: place.id,
+    name: place.name,
+    kind: place.kind,
+    description: place.description || null,
+    is_archived: !!place.is_archived,
+    ...(postCount !== undefined && { post_count: postCount }),
+  }
+}
+
+export async function listPlaces(options: {
+  query?: string
+  kind?: PlaceKind
+  includeArchived?: boolean
+  limit?: number
+} = {}): Promise<Place[]> {
+  const places = await getCollection<Place>(Collections.PLACES)
+  const filter: any = {}
+  if (!options.includeArchived) filter.is_archived = { $ne: true }
+  if (options.kind) filter.kind = options.kind
+  if (options.query?.trim()) {
+    filter.name_key = { $regex: escapeRegex(placeNameKey(options.query)) }
+  }
+
+  return withRetry(async () => {
+    return places.find(filter).sort({ name_key: 1 }).limit(options.limit ?? 100).toArray()
+  })
+}
+
+export async function getPlace(placeId: number): Promise<Place | null> {
+  const places = await getCollection<Place>(Collections.PLACES)
+  return withRetry(async () => {
+    return places.findOne({ id: placeId })
+  })
+}
+
+/**
+ * The place a new or edited post may be tagged with; archived places are refused
+ */
+export async function getTaggablePlace(placeId: number): Promise<Place | null> {
+  const place = await getPlace(placeId)
+  return place && !place.is_archived ? place : null
+}
+
+export async function getPlaceSummaries(placeIds: number[]): Promise<Map<number, PlaceSummary>> {
+  if (placeIds.length === 0) return new Map()
+  const places = await getCollection<Place>(Collections.PLACES)
+  const found = await withRetry(async () => {
+    return places.find({ id: { $in: [...new Set(placeIds)] } }).toArray()
+  })
+  return new Map(found.map(place => [place.id as number, toPlaceSummary(place)]))
+}
+
+/**
+ * Number of public posts tagged with each place, leaving out the given
+ * authors (e.g. deactivated accounts). Posts limited to an audience aren't
+ * counted: the counts are shown to everyone.
+ */
+export async function countPostsByPlace(placeIds: number[], excludeUserIds: number[] = []): Promise<Map<number, number>> {
+  if (placeIds.length === 0) return new Map()
+  const posts = await getCollection<Post>(Collections.POSTS)
+  const match: any = { place_id: { $in: placeIds }, ...PUBLISHED_POST_FILTER, audience: { $exists: false } }
+  if (excludeUserIds.length > 0) match.user_id = { $nin: excludeUserIds }
+
+  const counts = await withRetry(async () => {
+    return posts.aggregate<{ _id: number; count: number }>([
+      { $match: match },
+      { $group: { _id: '$place_id', count: { $sum: 1 } } },
+    ]).toArray()
+  })
+  return new Map(counts.map(c => [c._id, c.count]))
+}
+
+/**
+ * Returns null if the name is already in the catalog
+ */
+export async function createPlace(input: Required<Pick<PlaceInput, 'name' | 'kind'>> & PlaceInput, createdBy: number): Promise<Place | null> {
+  const places = await getCollection<Place>(Collections.PLACES)
+  const nameKey = placeNameKey(input.name)
+
+  const existing = await withRetry(async () => {
+    return places.findOne({ name_key: nameKey })
+  })
+  if (existing) return null
+
+  const place: Place = {
+    id: await getNextSequenceValue('places'),
+    name: input.name,
+    name_key: nameKey,
+    kind: input.kind,
+    ...(input.description && { description: input.description }),
+    created_by: createdBy,
+    created_at: new Date(),
+  }
+
+  try {
+    await withRetry(async () => {
+      return places.insertOne(place as any)
+    })
+  } catch (error: any) {
+    // Lost a race with another admin adding the same name
+    if (error?.code === 11000) return null
+    throw error
+  }
+
+  return place
+}
+
+export type PlaceUpdateResult = { place: Place } | { error: 'not_found' | 'name_taken' }
+
+export async function updatePlace(
+  placeId: number,
+  changes: PlaceInput & { is_archived?: boolean }
+): Promise<PlaceUpdateResult> {
+  const places = await getCollection<Place>(Collections.PLACES)
+  const $set: Partial<Place> = { updated_at: new Date() }
+  const $unset: Record<string, ''> = {}
+
+  if (changes.name !== undefined) {
+    const nameKey = placeNameKey(changes.name)
+    const clash = await withRetry(async () => {
+      return places.findOne({ name_key: nameKey, id: { $ne: placeId } })
+    })
+    if (clash) return { error: 'name_taken' }
+    $set.name = changes.name
+    $set.name_key = nameKey
+  }
+  if (changes.kind !== undefined) $set.kind = changes.kind
+  if (changes.description !== undefined) {
+    if (changes.description) $set.description = changes.description
+    else $unset.description = ''
+  }
+  if (changes.is_archived !== undefined) $set.is_archived = changes.is_archived
+
+  try {
+    const result = await withRetry(async () => {
+      return places.findOneAndUpdate(
+        { id: placeId },
+        Object.keys($unset).length > 0 ? { $set, $unset } : { $set },
+        { returnDocument: 'after' }
+      )
+    })
+    // Support both driver typings (document directly, or { value: document })
+    const updated = ((result as any)?.value ?? result) as Place | null
+    return updated ? { place: updated } : { error: 'not_found' }
+  } catch (error: any) {
+    if (error?.code === 11000) return { error: 'name_taken' }
+    throw error
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Campus places (safe to import from client components)
+ *
+ * Admins keep a catalog of buildings, hostels, canteens and sports grounds.
+ * A post can optionally be tagged with one of them via `place_id`.
+ * Database access lives in lib/placeCatalog.ts.
+ */
+
+import type { PlaceKind } from './mongodb'
+
+export type { PlaceKind }
+
+export const PLACE_KINDS: PlaceKind[] = ['building', 'hostel', 'canteen', 'sports_ground']
+
+export const PLACE_KIND_LABELS: Record<PlaceKind, string> = {
+  building: 'Building',
+  hostel: 'Hostel',
+  canteen: 'Canteen',
+  sports_ground: 'Sports ground',
+}
+
+export const MAX_PLACE_NAME_LENGTH = 80
+export const MAX_PLACE_DESCRIPTION_LENGTH = 300
+
+// What posts and search results carry about their place
+export interface PlaceSummary {
+  id: number
+  name: string
+  kind: PlaceKind
+}
+
+export interface PlaceInput {
+  name?: string
+  kind?: PlaceKind
+  description?: string
+}
+
+export function isPlaceKind(value: unknown): value is PlaceKind {
+  return typeof value === 'string' && (PLACE_KINDS as string[]).includes(value)
+}
+
+// Catalog names are unique regardless of case and spacing
+export function placeNameKey(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+/**
+ * Validate an admin's create/update body. With `partial`, missing fields are
+ * left out instead of rejected; an empty description clears it.
+ */
+export function validatePlaceInput(
+  body: any,
+  partial: boolean = false
+): { valid: boolean; value?: PlaceInput; message?: string } {
+  const value: PlaceInput = {}
+
+  if (body?.name !== undefined || !partial) {
+    const name = typeof body?.name === 'string' ? body.name.trim().replace(/\s+/g, ' ') : ''
+    if (!name) {
+      return { valid: false, message: 'Place name is required' }
+    }
+    if (name.length > MAX_PLACE_NAME_LENGTH) {
+      return { valid: false, message: `Place name must be at most ${MAX_PLACE_NAME_LENGTH} characters` }
+    }
+    value.name = name
+  }
+
+  if (body?.kind !== undefined || !partial) {
+    if (!isPlaceKind(body?.kind)) {
+      return { valid: false, message: `Kind must be one of: ${PLACE_KINDS.join(', ')}` }
+    }
+    value.kind = body.kind
+  }
+
+  if (body?.description !== undefined && body?.description !== null) {
+    if (typeof body.description !== 'string') {
+      return { valid: false, message: 'Description must be text' }
+    }
+    value.description = body.description.trim().slice(0, MAX_PLACE_DESCRIPTION_LENGTH)
+  }
+
+  return { valid: true, value }
+}
@@ -0,0 +1,162 @@
+/**
+ * Votes, results and breakdowns for polls on posts
+ *
+ * One vote per person and poll; voting again replaces the picked options.
+ * Results are counts only. Who voted for what is only ever read back for
+ * named polls. See lib/polls.ts for the poll itself.
+ */
+
+import {
+  getCollection,
+  withRetry,
+  Collections,
+  PollVote,
+  PostPoll,
+  User,
+} from './mongodb'
+import { ACTIVE_USER_FILTER } from './accountStatus'
+import { foldBreakdown, PollBreakdownBy, PollBreakdownGroup, PollResults } from './polls'
+
+export interface PollState extends PollResults {
+  // The viewer's picks, or null if they haven't voted
+  my_votes: number[] | null
+}
+
+export async function getVote(postId: number, userId: number): Promise<PollVote | null> {
+  const votes = await getCollection<PollVote>(Collections.POLL_VOTES)
+  return withRetry(async () => {
+    return votes.findOne({ post_id: postId, user_id: userId })
+  })
+}
+
+export async function castVote(postId: number, userId: number, optionIds: number[]): Promise<void> {
+  const votes = await getCollection<PollVote>(Collections.POLL_VOTES)
+  const now = new Date()
+  await withRetry(async () => {
+    return votes.updateOne(
+      { post_id: postId, user_id: userId },
+      { $set: { option_ids: optionIds, updated_at: now }, $setOnInsert: { created_at: now } },
+      { upsert: true }
+    )
+  })
+}
+
+export async function removeVote(postId: number, userId: number): Promise<void> {
+  const votes = await getCollection<PollVote>(Collections.POLL_VOTES)
+  await withRetry(async () => {
+    return votes.deleteOne({ post_id: postId, user_id: userId })
+  })
+}
+
+export async function countPollVoters(postId: number): Promise<number> {
+  const votes = await getCollection<PollVote>(Collections.POLL_VOTES)
+  return withRetry(async () => {
+    return votes.countDocuments({ post_id: postId })
+  })
+}
+
+export async function getPollResults(postId: number): Promise<PollResults> {
+  const votes = await getCollection<PollVote>(Collections.POLL_VOTES)
+  const [voters, counts] = await Promise.all([
+    countPollVoters(postId),
+    withRetry(async () => {
+      return votes.aggregate<{ _id: number; count: number }>([
+        { $match: { post_id: postId } },
+        { $unwind: '$option_ids' },
+        { $group: { _id: '$option_ids', count: { $sum: 1 } } },
+      ]).toArray()
+    }),
+  ])
+  return { voters, counts: Object.fromEntries(counts.map(({ _id, count }) => [_id, count])) }
+}
+
+export async function getPollState(postId: number, viewerId: number | null): Promise<PollState> {
+  const [results, mine] = await Promise.all([
+    getPollResults(postId),
+    viewerId ? getVote(postId, viewerId) : Promise.resolve(null),
+  ])
+  return { ...results, my_votes: mine?.option_ids || null }
+}
+
+/**
+ * People who picked an option on a named poll, most recent votes first.
+ * Callers must check the poll isn't anonymous.
+ */
+export async function listOptionVoters(
+  postId: number,
+  optionId: number,
+  { limit = 50, offset = 0 }: { limit?: number; offset?: number } = {}
+) {
+  const votes = await getCollection<PollVote>(Collections.POLL_VOTES)
+  const users = await getCollection<User>(Collections.USERS)
+
+  const list = await withRetry(async () => {
+    return votes
+      .find({ post_id: postId, option_ids: optionId })
+      .sort({ updated_at: -1 })
+      .skip(offset)
+      .limit(limit)
+      .toArray()
+  })
+  const people = await withRetry(async () => {
+    return users
+      .find({ id: { $in: list.map(v => v.user_id) }, ...ACTIVE_USER_FILTER })
+      .project<Pick<User, 'id' | 'name' | 'username' | 'profile_image'>>({ id: 1, name: 1, username: 1, profile_image: 1 })
+      .toArray()
+  })
+  const byId = new Map(people.map(person => [person.id as number, person]))
+
+  return list
+    .filter(vote => byId.has(vote.user_id))
+    .map(vote => {
+      const person = byId.get(vote.user_id)!
+      return {
+        id: person.id,
+        name: person.name,
+        username: person.username || null,
+        profile_image: person.profile_image || null,
+        voted_at: vote.updated_at,
+      }
+    })
+}
+
+/**
+ * The author's view of who voted how, grouped by the voters' department or
+ * year of study. Anonymous polls get small groups folded together.
+ */
+export async function getPollBreakdown(postId: number, poll: PostPoll, by: PollBreakdownBy): Promise<PollBreakdownGroup[]> {
+  const votes = await getCollection<PollVote>(Collections.POLL_VOTES)
+  const users = await getCollection<User>(Collections.USERS)
+
+  const all = await withRetry(async () => {
+    return votes.find({ post_id: postId }, { projection: { user_id: 1, option_ids: 1 } }).toArray()
+  })
+  const profiles = await withRetry(async () => {
+    return users
+      .find({ id: { $in: all.map(v => v.user_id) } }, { projection: { id: 1, department: 1, year: 1 } })
+      .toArray()
+  })
+  const byId = new Map(profiles.map(user => [user.id as number, user]))
+
+  const groups = new Map<string | null, PollBreakdownGroup>()
+  for (const vote of all) {
+    const profile = byId.get(vote.user_id)
+    const raw = by === 'department' ? profile?.department?.trim() : profile?.year ? String(profile.year) : ''
+    const key = raw || null
+    // Departments are free text, so group them case-insensitively
+    const groupKey = key && by === 'department' ? key.toLowerCase() : key
+    const group = groups.get(groupKey) || { group: key, voters: 0, counts: {} }
+    group.voters++
+    for (const optionId of vote.option_ids) group.counts[optionId] = (group.counts[optionId] || 0) + 1
+    groups.set(groupKey, group)
+  }
+  return foldBreakdown([...groups.values()], poll.anonymous)
+}
+
+export async function deletePollVotes(postIds: number[]): Promise<void> {
+  if (postIds.length === 0) return
+  const votes = await getCollection<PollVote>(Collections.POLL_VOTES)
+  await withRetry(async () => {
+    return votes.deleteMany({ post_id: { $in: postIds } })
+  })
+}
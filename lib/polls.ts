@@ -0,0 +1,187 @@
+/**
+ * Polls on posts (safe to import from client components)
+ *
+ * Any post can carry a poll with 2–6 options, single or multiple choice, an
+ * optional closing time, and anonymous or named voting. Named polls show who
+ * picked each option; anonymous ones never do, and the author's breakdown of
+ * an anonymous poll folds small groups together so it can't single anyone
+ * out. Storage, results and breakdowns live in lib/pollVotes.ts.
+ */
+
+import type { PollOption, PostPoll } from './mongodb'
+
+export type { PollOption, PostPoll }
+
+// Poll details as posts carry them in API responses
+export interface PollView {
+  options: PollOption[]
+  multiple: boolean
+  anonymous: boolean
+  closes_at?: string | null
+}
+
+// Vote counts by option id; `voters` counts people, not picks
+export interface PollResults {
+  voters: number
+  counts: Record<number, number>
+}
+
+export type PollBreakdownBy = 'department' | 'year'
+
+// One group of voters in the author's breakdown; `group` is null for "Other"
+export interface PollBreakdownGroup {
+  group: string | null
+  voters: number
+  counts: Record<number, number>
+}
+
+export const MIN_POLL_OPTIONS = 2
+export const MAX_POLL_OPTIONS = 6
+export const MAX_POLL_OPTION_LENGTH = 80
+export const MAX_POLL_DURATION_DAYS = 30
+// Smallest group an anonymous poll's breakdown shows on its own
+export const MIN_BREAKDOWN_GROUP = 3
+
+export const POLL_BREAKDOWNS: PollBreakdownBy[] = ['department', 'year']
+
+export function isPollBreakdown(value: unknown): value is PollBreakdownBy {
+  return typeof value === 'string' && (POLL_BREAKDOWNS as string[]).includes(value)
+}
+
+export function isPollOpen(poll: { closes_at?: Date | string | null }, now: Date = new Date()): boolean {
+  return !poll.closes_at || now.getTime() < new Date(poll.closes_at).getTime()
+}
+
+function toFlag(raw: unknown): boolean {
+  return raw === true || raw === 'true'
+}
+
+/**
+ * Validate the poll an author sends. `raw` is either the parsed object or its
+ * JSON text (multipart form field); options are a list of strings. When
+ * editing, pass the `current` poll: an unchanged closing time may already
+ * have passed.
+ */
+export function validatePollInput(
+  raw: unknown,
+  now: Date = new Date(),
+  current?: Pick<PostPoll, 'closes_at'> | null
+): { valid: boolean; value?: PostPoll; message?: string } {
+  let input = raw
+  if (typeof raw === 'string') {
+    try {
+      input = JSON.parse(raw)
+    } catch {
+      return { valid: false, message: 'Invalid poll' }
+    }
+  }
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, message: 'Invalid poll' }
+  }
+  const fields = input as Record<string, unknown>
+
+  if (!Array.isArray(fields.options)) return { valid: false, message: 'Invalid poll' }
+  if (fields.options.length < MIN_POLL_OPTIONS || fields.options.length > MAX_POLL_OPTIONS) {
+    return { valid: false, message: `Polls need ${MIN_POLL_OPTIONS} to ${MAX_POLL_OPTIONS} options` }
+  }
+  const texts: string[] = []
+  for (const option of fields.options) {
+    const text = typeof option === 'string' ? option.trim().replace(/\s+/g, ' ') : ''
+    if (!text) return { valid: false, message: 'Poll options cannot be empty' }
+    if (text.length > MAX_POLL_OPTION_LENGTH) {
+      return { valid: false, message: `Poll options must be at most ${MAX_POLL_OPTION_LENGTH} characters` }
+    }
+    if (texts.some(other => other.toLowerCase() === text.toLowerCase())) {
+      return { valid: false, message: 'Poll options must be different' }
+    }
+    texts.push(text)
+  }
+
+  const poll: PostPoll = {
+    options: texts.map((text, index) => ({ id: index + 1, text })),
+    multiple: toFlag(fields.multiple),
+    anonymous: toFlag(fields.anonymous),
+  }
+
+  if (fields.closes_at !== undefined && fields.closes_at !== null && fields.closes_at !== '') {
+    const closesAt = new Date(fields.closes_at as string)
+    if (typeof fields.closes_at !== 'string' || Number.isNaN(closesAt.getTime())) {
+      return { valid: false, message: 'Invalid closing time' }
+    }
+    const unchanged = !!current?.closes_at && new Date(current.closes_at).getTime() === closesAt.getTime()
+    if (!unchanged && closesAt.getTime() <= now.getTime()) {
+      return { valid: false, message: 'Polls must close in the future' }
+    }
+    if (closesAt.getTime() > now.getTime() + MAX_POLL_DURATION_DAYS * 24 * 60 * 60 * 1000) {
+      return { valid: false, message: `Polls can run for at most ${MAX_POLL_DURATION_DAYS} days` }
+    }
+    poll.closes_at = closesAt
+  }
+
+  return { valid: true, value: poll }
+}
+
+/**
+ * Why an edit can't be applied to a poll people already voted on, or null.
+ * Only the closing time can change once there are votes: new options would
+ * skew the results, and going from anonymous to named would expose voters.
+ */
+export function lockedPollChange(current: PostPoll, next: PostPoll): string | null {
+  const sameOptions = current.options.length === next.options.length &&
+    current.options.every((option, index) => option.text === next.options[index].text)
+  if (!sameOptions) return 'Poll options cannot change after people have voted'
+  if (current.multiple !== next.multiple) return 'Single or multiple choice cannot change after people have voted'
+  if (current.anonymous !== next.anonymous) return 'Anonymous voting cannot change after people have voted'
+  return null
+}
+
+/**
+ * Validate the options someone picks: at least one, each on the poll, and
+ * only one unless the poll is multiple choice. Returns them sorted.
+ */
+export function validateVoteInput(
+  poll: Pick<PostPoll, 'options' | 'multiple'>,
+  raw: unknown
+): { valid: boolean; value?: number[]; message?: string } {
+  if (!Array.isArray(raw) || raw.length === 0) return { valid: false, message: 'Pick an option' }
+  const ids = [...new Set(raw.map(Number))]
+  if (ids.some(id => !poll.options.some(option => option.id === id))) {
+    return { valid: false, message: 'Invalid option' }
+  }
+  if (!poll.multiple && ids.length > 1) return { valid: false, message: 'This poll allows one option' }
+  return { valid: true, value: ids.sort((a, b) => a - b) }
+}
+
+// Share of voters who picked the option, as a whole percentage
+export function optionPercent(results: PollResults, optionId: number): number {
+  if (!results.voters) return 0
+  return Math.round(((results.counts[optionId] || 0) / results.voters) * 100)
+}
+
+function mergeGroup(into: PollBreakdownGroup, group: PollBreakdownGroup): void {
+  into.voters += group.voters
+  for (const [optionId, votes] of Object.entries(group.counts)) {
+    into.counts[Number(optionId)] = (into.counts[Number(optionId)] || 0) + votes
+  }
+}
+
+/**
+ * Order the author's breakdown, largest groups first. For anonymous polls,
+ * groups smaller than MIN_BREAKDOWN_GROUP are folded into "Other" (null),
+ * and the smallest named groups follow until "Other" is big enough itself.
+ */
+export function foldBreakdown(groups: PollBreakdownGroup[], anonymous: boolean): PollBreakdownGroup[] {
+  const sorted = [...groups].sort((a, b) => b.voters - a.voters || String(a.group).localeCompare(String(b.group)))
+  if (!anonymous) return sorted
+
+  const other: PollBreakdownGroup = { group: null, voters: 0, counts: {} }
+  const named = sorted.filter(group => {
+    if (group.group !== null && group.voters >= MIN_BREAKDOWN_GROUP) return true
+    mergeGroup(other, group)
+    return false
+  })
+  while (other.voters > 0 && other.voters < MIN_BREAKDOWN_GROUP && named.length > 0) {
+    mergeGroup(other, named.pop() as PollBreakdownGroup)
+  }
+  return other.voters > 0 ? [...named, other] : named
+}
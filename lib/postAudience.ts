@@ -0,0 +1,153 @@
+/**
+ * Per-post audiences (safe to import from client components)
+ *
+ * A post can be limited to the author's followers, their close friends list,
+ * or members of one department (optionally one year of study). Posts without
+ * an audience are public. Audiences only narrow who sees a post: private
+ * accounts, blocks and deactivation still apply on top. The close friends
+ * list and the viewer lookups live in lib/closeFriends.ts.
+ */
+
+import type { AudienceType, PostAudience } from './mongodb'
+import { MAX_DEPARTMENT_LENGTH, STUDY_YEARS, YEAR_LABELS } from './internships'
+
+export type { AudienceType, PostAudience }
+
+// Audiences as posts carry them in API responses; null means public
+export interface AudienceView {
+  type: Exclude<AudienceType, 'public'>
+  department?: string | null
+  year?: number | null
+}
+
+// Who is asking, as far as audiences go: their profile and which of the
+// authors in question they follow or are a close friend of
+export interface AudienceViewer {
+  userId: number | null
+  department?: string | null
+  year?: number | null
+  following: number[]
+  closeFriendOf: number[]
+}
+
+export const AUDIENCE_TYPES: AudienceType[] = ['public', 'followers', 'close_friends', 'department']
+
+export const AUDIENCE_LABELS: Record<AudienceType, string> = {
+  public: 'Everyone',
+  followers: 'Followers',
+  close_friends: 'Close friends',
+  department: 'Department',
+}
+
+export const MAX_CLOSE_FRIENDS = 500
+
+export const ANONYMOUS_VIEWER: AudienceViewer = { userId: null, following: [], closeFriendOf: [] }
+
+export function isAudienceType(value: unknown): value is AudienceType {
+  return typeof value === 'string' && (AUDIENCE_TYPES as string[]).includes(value)
+}
+
+// Whether the viewer is in the post's audience; authors always see their own posts
+export function canSeeAudience(
+  post: { user_id: unknown; audience?: PostAudience | AudienceView | null },
+  viewer: AudienceViewer
+): boolean {
+  const audience = post.audience
+  if (!audience) return true
+  const authorId = Number(post.user_id)
+  if (viewer.userId === null) return false
+  if (viewer.userId === authorId) return true
+
+  switch (audience.type) {
+    case 'followers':
+      return viewer.following.includes(authorId)
+    case 'close_friends':
+      // The list can outlive the follow, so both are required
+      return viewer.following.includes(authorId) && viewer.closeFriendOf.includes(authorId)
+    case 'department': {
+      const department = (viewer.department || '').trim().toLowerCase()
+      if (!department || department !== (audience.department || '').toLowerCase()) return false
+      return !audience.year || audience.year === Number(viewer.year)
+    }
+    default:
+      return false
+  }
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Matches the posts whose audience includes the viewer, for feeds that page
+ * in the database. `following` and `closeFriendOf` must cover every author
+ * the query can return.
+ */
+export function audienceFilter(viewer: AudienceViewer) {
+  const allowed: Record<string, unknown>[] = [{ audience: { $exists: false } }]
+  if (viewer.userId !== null) {
+    allowed.push({ user_id: viewer.userId })
+    if (viewer.following.length > 0) {
+      allowed.push({ 'audience.type': 'followers', user_id: { $in: viewer.following } })
+    }
+    const closeFriendOf = viewer.closeFriendOf.filter(id => viewer.following.includes(id))
+    if (closeFriendOf.length > 0) {
+      allowed.push({ 'audience.type': 'close_friends', user_id: { $in: closeFriendOf } })
+    }
+    const department = viewer.department?.trim()
+    if (department) {
+      allowed.push({
+        'audience.type': 'department',
+        'audience.department': new RegExp(`^${escapeRegex(department)}$`, 'i'),
+        'audience.year': { $in: [Number(viewer.year) || null, null] },
+      })
+    }
+  }
+  return { $or: allowed }
+}
+
+/**
+ * Validate the audience an author picks. `raw` is either the parsed object or
+ * its JSON text (multipart form field). Public comes back as null: public
+ * posts store no audience.
+ */
+export function validateAudienceInput(raw: unknown): { valid: boolean; value?: PostAudience | null; message?: string } {
+  let input = raw
+  if (typeof raw === 'string') {
+    try {
+      input = JSON.parse(raw)
+    } catch {
+      return { valid: false, message: 'Invalid audience' }
+    }
+  }
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, message: 'Invalid audience' }
+  }
+  const fields = input as Record<string, unknown>
+
+  if (!isAudienceType(fields.type)) return { valid: false, message: 'Invalid audience' }
+  if (fields.type === 'public') return { valid: true, value: null }
+  if (fields.type !== 'department') return { valid: true, value: { type: fields.type } }
+
+  const department = typeof fields.department === 'string' ? fields.department.trim().replace(/\s+/g, ' ') : ''
+  if (!department) return { valid: false, message: 'Choose a department' }
+  if (department.length > MAX_DEPARTMENT_LENGTH) {
+    return { valid: false, message: `Department must be at most ${MAX_DEPARTMENT_LENGTH} characters` }
+  }
+  const audience: PostAudience = { type: 'department', department }
+
+  if (fields.year !== undefined && fields.year !== null && fields.year !== '') {
+    const year = Number(fields.year)
+    if (!STUDY_YEARS.includes(year)) return { valid: false, message: 'Invalid year' }
+    audience.year = year
+  }
+  return { valid: true, value: audience }
+}
+
+// Short label for who can see a post, e.g. "Close friends" or "Computer Science · 2nd Year"
+export function describeAudience(audience?: PostAudience | AudienceView | null): string {
+  if (!audience) return AUDIENCE_LABELS.public
+  if (audience.type !== 'department') return AUDIENCE_LABELS[audience.type]
+  const department = audience.department || AUDIENCE_LABELS.department
+  return audience.year ? `${department} · ${YEAR_LABELS[audience.year] || `Year ${audience.year}`}` : department
+}
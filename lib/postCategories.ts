@@ -0,0 +1,28 @@
+/**
+ * Post categories as the app sends them (lowercase, some aliases) mapped to the
+ * stored values. Safe to import from client components.
+ */
+
+import type { Post } from './mongodb'
+
+export type PostCategory = Post['category']
+
+const CATEGORY_MAP: { [key: string]: PostCategory } = {
+  'general': 'GENERAL',
+  'academic': 'ACADEMIC',
+  'events': 'EVENTS',
+  'event': 'EVENT', // Support both singular and plural
+  'clubs': 'CLUBS',
+  'sports': 'SPORTS',
+  'social': 'SOCIAL',
+  'internship': 'INTERNSHIP',
+  'workshop': 'WORKSHOP',
+  'library': 'LIBRARY_MEMORY',
+  'library_memory': 'LIBRARY_MEMORY',
+  'memory': 'LIBRARY_MEMORY',
+}
+
+// Unknown values fall back to GENERAL
+export function toPostCategory(input: string): PostCategory {
+  return CATEGORY_MAP[input.toLowerCase()] || 'GENERAL'
+}
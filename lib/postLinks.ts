@@ -0,0 +1,39 @@
+/**
+ * Looking up the post behind a shared link (/post/[id])
+ *
+ * The page is built for a signed-out viewer; signed-in viewers with access
+ * load the post again from the API. See lib/postPreview.ts for the previews.
+ */
+
+import { getCollection, withRetry, Collections, User } from './mongodb'
+import { ACTIVE_USER_FILTER } from './accountStatus'
+import { isPublished } from './postSchedule'
+import { buildPostViews, findPostsInOrder } from './postViews'
+import { resolveReposts } from './repostStorage'
+import type { PreviewPost } from './postPreview'
+
+export type PostPreview =
+  | { status: 'public'; post: PreviewPost }
+  | { status: 'private' }
+  | { status: 'missing' }
+
+/**
+ * What a signed-out viewer may know about a post. Drafts, scheduled posts and
+ * posts by deactivated accounts are missing; anything else they can't see is
+ * private.
+ */
+export async function getPostPreview(postId: number): Promise<PostPreview> {
+  const [found] = await findPostsInOrder([postId])
+  // A repost's link shows its original
+  const [post] = found?.repost_of ? await findPostsInOrder([found.repost_of]) : [found]
+  if (!post || !isPublished(post)) return { status: 'missing' }
+
+  const [view] = await resolveReposts(await buildPostViews([post], null), null)
+  if (view) return { status: 'public', post: view }
+
+  const users = await getCollection<User>(Collections.USERS)
+  const author = await withRetry(async () => {
+    return users.findOne({ id: post.user_id as number, ...ACTIVE_USER_FILTER }, { projection: { id: 1 } })
+  })
+  return author ? { status: 'private' } : { status: 'missing' }
+}
@@ -0,0 +1,129 @@
+/**
+ * Post media helpers (safe to import from client components)
+ *
+ * A post carries up to MAX_POST_MEDIA ordered images and videos in `media`.
+ * `media_url`/`media_type` mirror the first item so older readers keep working,
+ * and posts created before carousels only have those two fields.
+ */
+
+import type { PostMedia } from './mongodb'
+
+export const MAX_POST_MEDIA = 10
+
+export interface MediaItem {
+  url: string
+  type: 'image' | 'video'
+}
+
+interface PostMediaSource {
+  media?: PostMedia[] | MediaItem[] | null
+  media_url?: string | null
+  media_type?: string | null
+}
+
+/**
+ * Guess image vs video from a declared type (any case) or, failing that, the URL
+ */
+export function inferMediaType(url: string, declared?: string | null): 'image' | 'video' {
+  const normalized = declared?.toLowerCase()
+  if (normalized === 'image' || normalized === 'video') return normalized
+  const lower = url.toLowerCase()
+  if (lower.includes('/video/') || /(\.mp4|\.webm|\.mov|\.avi|\.wmv)$/i.test(lower)) {
+    return 'video'
+  }
+  return 'image'
+}
+
+/**
+ * Ordered media for a post, falling back to the single legacy media_url
+ */
+export function getPostMedia(post: PostMediaSource): MediaItem[] {
+  if (post.media && post.media.length > 0) {
+    return post.media
+      .filter(item => item && item.url)
+      .map(item => ({ url: item.url, type: inferMediaType(item.url, item.type) }))
+  }
+
+  if (post.media_url && post.media_type !== 'NONE') {
+    return [{ url: post.media_url, type: inferMediaType(post.media_url, post.media_type) }]
+  }
+
+  return []
+}
+
+/**
+ * A still for a video, e.g. for link previews. Cloudinary serves a frame when
+ * a video URL asks for .jpg; videos stored elsewhere have no still.
+ */
+export function videoThumbnailUrl(url: string): string | null {
+  if (!/^https:\/\/res\.cloudinary\.com\/[^/]+\/video\/upload\//.test(url)) return null
+  return url.replace(/\.[a-z0-9]+$/i, '') + '.jpg'
+}
+
+/**
+ * Move one item to a new position, e.g. when reordering uploads before posting
+ */
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (from === to || from < 0 || from >= items.length || to < 0 || to >= items.length) {
+    return items
+  }
+  const next = [...items]
+  const [moved] = next.splice(from, 1)
+  next.splice(to, 0, moved)
+  return next
+}
+
+// One slot of an edited carousel: an existing item by its index, or null for
+// the next newly uploaded file
+export type MediaLayoutSlot = number | null
+
+/**
+ * Validate how an edit rearranges a post's media. `raw` is an array (or its
+ * JSON text) of existing item indexes and "new" for each uploaded file, in the
+ * new order; items left out are removed. `uploadCount` files must all be used.
+ */
+export function parseMediaLayout(
+  raw: unknown,
+  existingCount: number,
+  uploadCount: number
+): { valid: boolean; layout?: MediaLayoutSlot[]; message?: string } {
+  let list = raw
+  if (typeof raw === 'string') {
+    try {
+      list = JSON.parse(raw)
+    } catch {
+      return { valid: false, message: 'Invalid media layout' }
+    }
+  }
+  if (!Array.isArray(list)) {
+    return { valid: false, message: 'Invalid media layout' }
+  }
+  if (list.length === 0) {
+    return { valid: false, message: 'A post needs at least one photo or video' }
+  }
+  if (list.length > MAX_POST_MEDIA) {
+    return { valid: false, message: `A post can have at most ${MAX_POST_MEDIA} photos and videos` }
+  }
+
+  const layout: MediaLayoutSlot[] = []
+  const seen = new Set<number>()
+  for (const slot of list) {
+    if (slot === 'new') {
+      layout.push(null)
+      continue
+    }
+    if (!Number.isInteger(slot) || slot < 0 || slot >= existingCount) {
+      return { valid: false, message: 'Media layout refers to a missing photo or video' }
+    }
+    if (seen.has(slot)) {
+      return { valid: false, message: 'A photo or video appears twice in the media layout' }
+    }
+    seen.add(slot)
+    layout.push(slot)
+  }
+
+  if (layout.filter(slot => slot === null).length !== uploadCount) {
+    return { valid: false, message: 'Every uploaded file needs a place in the media layout' }
+  }
+  return { valid: true, layout }
+}
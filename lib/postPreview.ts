@@ -0,0 +1,93 @@
+/**
+ * Social previews for shared post links (/post/[id])
+ *
+ * Link preview crawlers never sign in, so only posts a signed-out viewer may
+ * see put their caption and media into the Open Graph and Twitter card tags.
+ * Posts from private accounts or for a limited audience get a generic
+ * "private" card that doesn't say who posted them or what they say. Looking
+ * the post up lives in lib/postLinks.ts.
+ */
+
+import type { Metadata } from 'next'
+import type { PostEvent, PostInternship } from './mongodb'
+import { videoThumbnailUrl, type MediaItem } from './postMedia'
+
+// The parts of a post's API view (see buildPostViews) that previews use
+export interface PreviewPost {
+  id: number
+  content: string
+  created_at: Date | string
+  edited_at?: Date | string | null
+  media: MediaItem[]
+  event?: Pick<PostEvent, 'venue'> | null
+  internship?: Pick<PostInternship, 'role' | 'company'> | null
+  author: { name: string }
+}
+
+// Longest caption excerpt used as the preview description
+const PREVIEW_DESCRIPTION_LENGTH = 200
+// Most images a preview lists; crawlers only show the first
+const PREVIEW_IMAGE_LIMIT = 4
+
+function excerpt(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim()
+  if (flat.length <= PREVIEW_DESCRIPTION_LENGTH) return flat
+  return flat.slice(0, PREVIEW_DESCRIPTION_LENGTH - 1).trimEnd() + '…'
+}
+
+/**
+ * Open Graph and Twitter card tags for a public post. Videos are previewed by
+ * their still where one exists (see videoThumbnailUrl).
+ */
+export function postPreviewMetadata(post: PreviewPost, appUrl: string): Metadata {
+  const path = `/post/${post.id}`
+  const title = `${post.author.name} on UNIX`
+  const description = excerpt(post.content) ||
+    (post.event ? `Event at ${post.event.venue}` : '') ||
+    (post.internship ? `${post.internship.role} internship at ${post.internship.company}` : '') ||
+    `A post by ${post.author.name}`
+
+  const images = post.media
+    .map(item => item.type === 'image' ? item.url : videoThumbnailUrl(item.url))
+    .filter((url): url is string => !!url)
+    .slice(0, PREVIEW_IMAGE_LIMIT)
+  const videos = post.media.filter(item => item.type === 'video').map(item => ({ url: item.url }))
+
+  return {
+    metadataBase: new URL(appUrl),
+    title,
+    description,
+    alternates: { canonical: path },
+    openGraph: {
+      type: 'article',
+      siteName: 'UNIX',
+      url: path,
+      title,
+      description,
+      publishedTime: new Date(post.created_at).toISOString(),
+      ...(post.edited_at && { modifiedTime: new Date(post.edited_at).toISOString() }),
+      authors: [post.author.name],
+      ...(images.length > 0 && { images }),
+      ...(videos.length > 0 && { videos }),
+    },
+    twitter: {
+      card: images.length > 0 ? 'summary_large_image' : 'summary',
+      title,
+      description,
+      ...(images.length > 0 && { images }),
+    },
+  }
+}
+
+// The same card for every post a signed-out viewer can't see
+export function privatePostMetadata(): Metadata {
+  const title = 'This post is private'
+  const description = 'Log in to UNIX to see it if you have access.'
+  return {
+    title,
+    description,
+    robots: { index: false, follow: false },
+    openGraph: { type: 'website', siteName: 'UNIX', title, description },
+    twitter: { card: 'summary', title, description },
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Publishing drafts and scheduled posts
+ *
+ * Everything that announces a post (hashtag counts, tag, mention and
+ * quote notifications) waits until it goes live, so it happens here rather than
+ * when the draft is saved.
+ * See lib/postSchedule.ts for the statuses.
+ */
+
+import type { WithId } from 'mongodb'
+import {
+  getCollection,
+  withRetry,
+  serializeDoc,
+  Collections,
+  Post,
+  PostTag,
+  User,
+} from './mongodb'
+import { recordHashtagChanges } from './hashtagIndex'
+import { getPostMedia } from './postMedia'
+import { getPlaceSummaries } from './placeCatalog'
+import { getPostTags, notifyTaggedUsers } from './postTagging'
+import { filterAudienceMembers } from './closeFriends'
+import { findQuoteTarget, notifyRepost, recordShare } from './repostStorage'
+import { notifyUser } from './notifications'
+import { notifyMentionedUsers } from './mentionIndex'
+
+const PUBLISH_BATCH_SIZE = 50
+
+/**
+ * The author's drafts and scheduled posts: scheduled ones first, soonest first,
+ * then drafts, most recently edited first
+ */
+export async function listDrafts(userId: number): Promise<WithId<Post>[]> {
+  const posts = await getCollection<Post>(Collections.POSTS)
+  const [scheduled, drafts] = await withRetry(async () => {
+    return Promise.all([
+      posts.find({ user_id: userId, status: 'scheduled' }).sort({ scheduled_at: 1 }).toArray(),
+      posts.find({ user_id: userId, status: 'draft' }).sort({ updated_at: -1, created_at: -1 }).toArray(),
+    ])
+  })
+  return [...scheduled, ...drafts]
+}
+
+export async function countDrafts(userId: number): Promise<number> {
+  const posts = await getCollection<Post>(Collections.POSTS)
+  return withRetry(async () => {
+    return posts.countDocuments({ user_id: userId, status: { $in: ['draft', 'scheduled'] } })
+  })
+}
+
+export async function getDraft(userId: number, postId: number): Promise<WithId<Post> | null> {
+  const posts = await getCollection<Post>(Collections.POSTS)
+  return withRetry(async () => {
+    return posts.findOne({ id: postId, user_id: userId, status: { $in: ['draft', 'scheduled'] } })
+  })
+}
+
+// Drafts in the API shape, for their author to pick up again
+export async function buildDraftViews(drafts: WithId<Post>[]) {
+  const draftIds = drafts.map(d => d.id as number)
+  const [placeMap, tagMap] = await Promise.all([
+    getPlaceSummaries(drafts.map(d => d.place_id).filter(Boolean) as number[]),
+    getPostTags(draftIds),
+  ])
+  return drafts.map(draft => ({
+    ...serializeDoc(draft),
+    media: getPostMedia(draft),
+    place: draft.place_id ? placeMap.get(draft.place_id) || null : null,
+    tags: tagMap.get(draft.id as number) || [],
+    content: draft.caption || '',
+  }))
+}
+
+/**
+ * Take a draft or scheduled post live now. Returns false if it was already
+ * published (or deleted) in the meantime, so running twice is harmless.
+ * A quote whose post can no longer be quoted goes back to the drafts instead.
+ */
+export async function publishPost(postId: number): Promise<boolean> {
+  const posts = await getCollection<Post>(Collections.POSTS)
+  const postTags = await getCollection<PostTag>(Collections.POST_TAGS)
+  const users = await getCollection<User>(Collections.USERS)
+
+  const now = new Date()
+  const pending = await withRetry(async () => {
+    return posts.findOne(
+      { id: postId, status: { $in: ['draft', 'scheduled'] } },
+      { projection: { user_id: 1, quote_of: 1 } }
+    )
+  })
+  if (!pending) return false
+
+  // The quoted post may have gone private or been deleted since the quote was written
+  const quoted = pending.quote_of ? await findQuoteTarget(pending.user_id as number, pending.quote_of) : null
+  if (quoted && 'error' in quoted) {
+    const moved = await withRetry(async () => {
+      return posts.updateOne(
+        { id: postId, status: { $in: ['draft', 'scheduled'] } },
+        { $set: { status: 'draft', updated_at: now }, $unset: { scheduled_at: '' } }
+      )
+    })
+    // Saved, not just pushed: scheduled posts go out with nobody watching
+    if (moved.modifiedCount > 0) {
+      await notifyUser(pending.user_id as number, {
+        type: 'system',
+        message: `Your quote post wasn't published and is back in your drafts: ${quoted.error}`,
+        meta: { kind: 'quote_unpublished', postId, reason: quoted.reason },
+      })
+    }
+    return false
+  }
+
+  const result = await withRetry(async () => {
+    return posts.findOneAndUpdate(
+      { id: postId, status: { $in: ['draft', 'scheduled'] } },
+      { $set: { status: 'published', created_at: now }, $unset: { scheduled_at: '', updated_at: '' } },
+      { returnDocument: 'after' }
+    )
+  })
+  const post = ((result as any)?.value ?? result) as Post | null
+  if (!post) return false
+
+  await recordHashtagChanges([], post.hashtags || [])
+
+  // Tagged tabs order by tag time, so tags count from when the post went live
+  await withRetry(async () => {
+    return postTags.updateMany({ post_id: postId }, { $set: { created_at: now } })
+  })
+  const tagged = (await getPostTags([postId])).get(postId) || []
+  const author = await users.findOne({ id: post.user_id as number })
+  if (author && tagged.length > 0) {
+    notifyTaggedUsers(postId, { id: author.id as number, name: author.name }, await filterAudienceMembers(post, [...new Set(tagged.map(tag => tag.user.id))]))
+  }
+  if (author && post.mentions && post.mentions.length > 0) {
+    await notifyMentionedUsers(postId, { id: author.id as number, name: author.name }, await filterAudienceMembers(post, post.mentions))
+  }
+  if (author && quoted) {
+    const quotedAuthorId = quoted.post.user_id as number
+    recordShare(author.id as number, quotedAuthorId).catch(error => console.warn('Failed to record share:', error))
+    notifyRepost(quotedAuthorId, { id: author.id as number, name: author.name }, quoted.post.id as number, true)
+  }
+  return true
+}
+
+/**
+ * Publish scheduled posts whose time has come. Safe to run repeatedly.
+ */
+export async function publishDuePosts(limit: number = PUBLISH_BATCH_SIZE): Promise<{ published: number; failed: number }> {
+  const posts = await getCollection<Post>(Collections.POSTS)
+  const due = await withRetry(async () => {
+    return posts
+      .find({ status: 'scheduled', scheduled_at: { $lte: new Date() } }, { projection: { id: 1 } })
+      .sort({ scheduled_at: 1 })
+      .limit(limit)
+      .toArray()
+  })
+
+  let published = 0
+  let failed = 0
+
+  for (const { id } of due) {
+    try {
+      if (await publishPost(id as number)) published++
+    } catch (error) {
+      // Still scheduled unless the status flip went through; the next run retries
+      failed++
+      console.error(`Failed to publish post ${id}:`, error)
+    }
+  }
+
+  return { published, failed }
+}
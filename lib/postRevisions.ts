@@ -0,0 +1,70 @@
+/**
+ * Edit history of live posts
+ *
+ * Before an edit changes what people see (caption, category, location or
+ * media), the post as it was is copied here, and the post gets `edited_at`.
+ * Anyone who can see a post can see its earlier versions. Tag changes alone
+ * aren't kept; drafts aren't either, since nobody else has seen them.
+ */
+
+import {
+  getCollection,
+  withRetry,
+  getNextSequenceValue,
+  serializeDoc,
+  Collections,
+  Post,
+  PostMedia,
+  PostRevision,
+} from './mongodb'
+import { getPostMedia } from './postMedia'
+import { getPlaceSummaries } from './placeCatalog'
+
+/**
+ * Keep the post's current version before `replacedAt`'s edit overwrites it
+ */
+export async function recordPostRevision(post: Post, replacedAt: Date): Promise<void> {
+  const revisions = await getCollection<PostRevision>(Collections.POST_REVISIONS)
+  const media: PostMedia[] = getPostMedia(post).map(item => ({
+    url: item.url,
+    type: item.type === 'video' ? 'VIDEO' : 'IMAGE',
+  }))
+
+  const revision: PostRevision = {
+    id: await getNextSequenceValue('post_revisions'),
+    post_id: post.id as number,
+    caption: post.caption || '',
+    category: post.category,
+    ...(post.place_id && { place_id: post.place_id }),
+    media,
+    created_at: post.edited_at || post.created_at,
+    replaced_at: replacedAt,
+  }
+  await withRetry(async () => {
+    return revisions.insertOne(revision as any)
+  })
+}
+
+// Earlier versions of a post in the API shape, most recent first
+export async function getPostRevisionViews(postId: number) {
+  const revisions = await getCollection<PostRevision>(Collections.POST_REVISIONS)
+  const list = await withRetry(async () => {
+    return revisions.find({ post_id: postId }).sort({ replaced_at: -1 }).toArray()
+  })
+  const placeMap = await getPlaceSummaries(list.map(r => r.place_id).filter(Boolean) as number[])
+
+  return list.map(revision => ({
+    ...serializeDoc(revision),
+    media: getPostMedia(revision),
+    place: revision.place_id ? placeMap.get(revision.place_id) || null : null,
+    content: revision.caption,
+  }))
+}
+
+export async function deletePostRevisions(postIds: number[]): Promise<void> {
+  if (postIds.length === 0) return
+  const revisions = await getCollection<PostRevision>(Collections.POST_REVISIONS)
+  await withRetry(async () => {
+    return revisions.deleteMany({ post_id: { $in: postIds } })
+  })
+}
@@ -0,0 +1,63 @@
+/**
+ * Drafts and scheduled posts (safe to import from client components)
+ *
+ * A post starts as a draft (autosaved from the create dialog), can be given a
+ * `scheduled_at` to go out later, and is published either right away or by the
+ * publishing job (pages/api/cron/publish-scheduled-posts.ts). Until then only
+ * its author sees it. Server-side publishing lives in lib/postPublishing.ts.
+ */
+
+import type { PostPoll, PostStatus } from './mongodb'
+
+export type { PostStatus }
+
+// Scheduling needs a little lead time so the job can't miss the slot
+export const MIN_SCHEDULE_LEAD_MINUTES = 5
+export const MAX_SCHEDULE_AHEAD_DAYS = 60
+// Drafts and scheduled posts together
+export const MAX_DRAFTS_PER_USER = 50
+
+// Matches live posts; posts from before drafts have no status
+export const PUBLISHED_POST_FILTER = { status: { $nin: ['draft', 'scheduled'] as PostStatus[] } }
+
+export function isPublished(post: { status?: PostStatus | null }): boolean {
+  return !post.status || post.status === 'published'
+}
+
+/**
+ * Parse a requested publish time. Must be at least MIN_SCHEDULE_LEAD_MINUTES
+ * and at most MAX_SCHEDULE_AHEAD_DAYS from `now`.
+ */
+export function validateScheduledAt(raw: unknown, now: Date = new Date()): { valid: boolean; value?: Date; message?: string } {
+  const date = typeof raw === 'string' || typeof raw === 'number' ? new Date(raw) : null
+  if (!date || Number.isNaN(date.getTime())) {
+    return { valid: false, message: 'Invalid publish time' }
+  }
+  if (date.getTime() < now.getTime() + MIN_SCHEDULE_LEAD_MINUTES * 60 * 1000) {
+    return { valid: false, message: `Schedule posts at least ${MIN_SCHEDULE_LEAD_MINUTES} minutes ahead` }
+  }
+  if (date.getTime() > now.getTime() + MAX_SCHEDULE_AHEAD_DAYS * 24 * 60 * 60 * 1000) {
+    return { valid: false, message: `Posts can be scheduled at most ${MAX_SCHEDULE_AHEAD_DAYS} days ahead` }
+  }
+  return { valid: true, value: date }
+}
+
+/**
+ * A poll has to still be open when its post goes up: `goesUpAt` is the
+ * scheduled time, or now for a post published right away.
+ */
+export function validatePollSchedule(
+  poll: Pick<PostPoll, 'closes_at'> | null | undefined,
+  goesUpAt: Date
+): { valid: boolean; message?: string } {
+  if (poll?.closes_at && new Date(poll.closes_at).getTime() <= goesUpAt.getTime()) {
+    return { valid: false, message: 'The poll must close after the post goes up' }
+  }
+  return { valid: true }
+}
+
+// Value for a datetime-local input, in the browser's time zone
+export function toLocalInputValue(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
@@ -0,0 +1,186 @@
+/**
+ * Post tag storage
+ *
+ * Tags live in their own collection so "posts I'm tagged in" is a single
+ * indexed lookup. Only the author sets a post's tags; a tagged person can
+ * remove themselves, and their `who_can_tag` setting decides who may tag them
+ * in the first place.
+ */
+
+import { getCollection, withRetry, Collections, PostTag, User, Follower } from './mongodb'
+import { ACTIVE_USER_FILTER } from './accountStatus'
+import { allowsTagging, PostTagView, TagInput } from './postTags'
+
+/**
+ * Of the given users, the ones the tagger may not tag: missing or deactivated
+ * accounts, anyone on either side of a block, and anyone whose tag setting
+ * says no
+ */
+export async function findUntaggableUsers(taggerId: number, userIds: number[]): Promise<number[]> {
+  const ids = [...new Set(userIds)]
+  if (ids.length === 0) return []
+
+  const users = await getCollection<User>(Collections.USERS)
+  const followers = await getCollection<Follower>(Collections.FOLLOWERS)
+  const blocks = await getCollection(Collections.BLOCKS)
+
+  const [targets, follows, blockDocs] = await withRetry(async () => {
+    return Promise.all([
+      users.find({ id: { $in: ids }, ...ACTIVE_USER_FILTER }, { projection: { id: 1, who_can_tag: 1 } }).toArray(),
+      followers.find({ follower_id: taggerId, following_id: { $in: ids } }).toArray(),
+      blocks.find({
+        $or: [
+          { blocker_id: taggerId, blocked_user_id: { $in: ids } },
+          { blocker_id: { $in: ids }, blocked_user_id: taggerId },
+        ]
+      }).toArray(),
+    ])
+  })
+
+  const followed = new Set(follows.map(f => f.following_id as number))
+  const blocked = new Set(blockDocs.map(b => (b.blocker_id === taggerId ? b.blocked_user_id : b.blocker_id) as number))
+  const allowed = new Set(
+    targets
+      .filter(user => !blocked.has(user.id as number) && allowsTagging(user.who_can_tag, {
+        isSelf: user.id === taggerId,
+        followsTarget: followed.has(user.id as number),
+      }))
+      .map(user => user.id as number)
+  )
+
+  return ids.filter(id => !allowed.has(id))
+}
+
+/**
+ * Replace a post's tags. Returns the users who weren't tagged on it before,
+ * for notifying.
+ */
+export async function replacePostTags(postId: number, taggedBy: number, tags: TagInput[]): Promise<number[]> {
+  const postTags = await getCollection<PostTag>(Collections.POST_TAGS)
+  const existing = await withRetry(async () => {
+    return postTags.find({ post_id: postId }).toArray()
+  })
+  const previousUserIds = new Set(existing.map(tag => tag.user_id))
+  // Re-saving a tag keeps when it was first added
+  const firstTaggedAt = new Map(existing.map(tag => [`${tag.media_index}:${tag.user_id}`, tag.created_at]))
+
+  const now = new Date()
+  const docs: PostTag[] = tags.map(tag => ({
+    post_id: postId,
+    user_id: tag.user_id,
+    tagged_by: taggedBy,
+    media_index: tag.media_index,
+    ...(tag.x !== undefined && tag.y !== undefined && { x: tag.x, y: tag.y }),
+    created_at: firstTaggedAt.get(`${tag.media_index}:${tag.user_id}`) || now,
+  }))
+
+  await withRetry(async () => {
+    await postTags.deleteMany({ post_id: postId })
+    if (docs.length > 0) await postTags.insertMany(docs as any[])
+  })
+
+  return [...new Set(tags.map(tag => tag.user_id))].filter(id => !previousUserIds.has(id))
+}
+
+export async function deletePostTags(postId: number): Promise<void> {
+  const postTags = await getCollection<PostTag>(Collections.POST_TAGS)
+  await withRetry(async () => {
+    return postTags.deleteMany({ post_id: postId })
+  })
+}
+
+/**
+ * Untag a user from every item of a post. Returns false if they weren't tagged.
+ */
+export async function removeTag(postId: number, userId: number): Promise<boolean> {
+  const postTags = await getCollection<PostTag>(Collections.POST_TAGS)
+  const result = await withRetry(async () => {
+    return postTags.deleteMany({ post_id: postId, user_id: userId })
+  })
+  return result.deletedCount > 0
+}
+
+/**
+ * Tags for each of the given posts, leaving out deactivated accounts
+ */
+export async function getPostTags(postIds: number[]): Promise<Map<number, PostTagView[]>> {
+  if (postIds.length === 0) return new Map()
+  const postTags = await getCollection<PostTag>(Collections.POST_TAGS)
+  const users = await getCollection<User>(Collections.USERS)
+
+  const tags = await withRetry(async () => {
+    return postTags.find({ post_id: { $in: postIds } }).sort({ media_index: 1, created_at: 1 }).toArray()
+  })
+  if (tags.length === 0) return new Map()
+
+  const taggedUsers = await withRetry(async () => {
+    return users.find(
+      { id: { $in: [...new Set(tags.map(tag => tag.user_id))] }, ...ACTIVE_USER_FILTER },
+      { projection: { id: 1, name: 1, username: 1, profile_image: 1 } }
+    ).toArray()
+  })
+  const userMap = new Map(taggedUsers.map(user => [user.id as number, user]))
+
+  const byPost = new Map<number, PostTagView[]>()
+  for (const tag of tags) {
+    const user = userMap.get(tag.user_id)
+    if (!user) continue
+    const list = byPost.get(tag.post_id) || []
+    list.push({
+      user: {
+        id: user.id as number,
+        name: user.name,
+        username: user.username || null,
+        profile_image: user.profile_image || null,
+      },
+      media_index: tag.media_index,
+      x: tag.x ?? null,
+      y: tag.y ?? null,
+    })
+    byPost.set(tag.post_id, list)
+  }
+  return byPost
+}
+
+// Pass only people the post's audience includes (see filterAudienceMembers in lib/closeFriends.ts)
+export function notifyTaggedUsers(postId: number, tagger: { id: number; name: string }, userIds: number[]): void {
+  try {
+    if (!(global as any).io) return
+    for (const userId of userIds) {
+      if (userId === tagger.id) continue
+      ;(global as any).io.to(`user-${userId}`).emit('notification', {
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        type: 'mention',
+        message: `${tagger.name} tagged you in a post`,
+        time: new Date().toISOString(),
+        read: false,
+        meta: { kind: 'post_tag', postId, actorId: tagger.id }
+      })
+    }
+  } catch (notificationError) {
+    console.warn('Failed to send notification:', notificationError)
+  }
+}
+
+/**
+ * Ids of the posts a user is tagged in, newest tag first. Whether the viewer
+ * may see each one is decided by buildPostViews in lib/postViews.ts; people
+ * always see the posts they're tagged in themselves, unless the post's
+ * audience leaves them out.
+ */
+export async function findTaggedPostIds(
+  userId: number,
+  { limit = 20, offset = 0 }: { limit?: number; offset?: number } = {}
+): Promise<number[]> {
+  const postTags = await getCollection<PostTag>(Collections.POST_TAGS)
+  const tagged = await withRetry(async () => {
+    return postTags.aggregate<{ _id: number }>([
+      { $match: { user_id: userId } },
+      { $group: { _id: '$post_id', tagged_at: { $max: '$created_at' } } },
+      { $sort: { tagged_at: -1 } },
+      { $skip: offset },
+      { $limit: limit },
+    ]).toArray()
+  })
+  return tagged.map(t => t._id)
+}
@@ -0,0 +1,135 @@
+/**
+ * People tagged in posts (safe to import from client components)
+ *
+ * The author tags people on a specific carousel item. Tags on images can also
+ * carry an x/y label position, as fractions of the image's width and height.
+ * Database access lives in lib/postTagging.ts.
+ */
+
+import type { TagPermission } from './mongodb'
+
+export type { TagPermission }
+
+export const MAX_TAGS_PER_POST = 20
+
+export const TAG_PERMISSIONS: TagPermission[] = ['everyone', 'followers', 'no_one']
+
+export interface TagInput {
+  user_id: number
+  media_index: number
+  x?: number
+  y?: number
+}
+
+// What posts carry about each tag
+export interface PostTagView {
+  user: {
+    id: number
+    name: string
+    username: string | null
+    profile_image: string | null
+  }
+  media_index: number
+  x: number | null
+  y: number | null
+}
+
+export function isTagPermission(value: unknown): value is TagPermission {
+  return typeof value === 'string' && (TAG_PERMISSIONS as string[]).includes(value)
+}
+
+/**
+ * Whether a user's tag setting lets someone tag them. Everyone may tag
+ * themselves.
+ */
+export function allowsTagging(
+  setting: TagPermission | undefined,
+  { isSelf, followsTarget }: { isSelf: boolean; followsTarget: boolean }
+): boolean {
+  if (isSelf) return true
+  switch (setting ?? 'everyone') {
+    case 'everyone':
+      return true
+    case 'followers':
+      return followsTarget
+    default:
+      return false
+  }
+}
+
+function isFraction(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1
+}
+
+/**
+ * Validate the tags an author sends with a post. `raw` is either the parsed
+ * array or its JSON text (multipart form field); `media` is the post's
+ * carousel in order.
+ */
+export function parseTagInput(
+  raw: unknown,
+  media: { type: 'image' | 'video' }[]
+): { valid: boolean; tags?: TagInput[]; message?: string } {
+  let list = raw
+  if (typeof raw === 'string') {
+    if (!raw.trim()) return { valid: true, tags: [] }
+    try {
+      list = JSON.parse(raw)
+    } catch {
+      return { valid: false, message: 'Invalid tags' }
+    }
+  }
+  if (list === undefined || list === null) return { valid: true, tags: [] }
+  if (!Array.isArray(list)) {
+    return { valid: false, message: 'Invalid tags' }
+  }
+  if (list.length > MAX_TAGS_PER_POST) {
+    return { valid: false, message: `A post can tag at most ${MAX_TAGS_PER_POST} people` }
+  }
+
+  const tags: TagInput[] = []
+  const seen = new Set<string>()
+  for (const item of list) {
+    const userId = item?.user_id
+    const mediaIndex = item?.media_index ?? 0
+    if (!Number.isInteger(userId) || userId <= 0) {
+      return { valid: false, message: 'Invalid tagged user' }
+    }
+    if (!Number.isInteger(mediaIndex) || mediaIndex < 0 || mediaIndex >= media.length) {
+      return { valid: false, message: 'Tag refers to a missing photo or video' }
+    }
+
+    const key = `${mediaIndex}:${userId}`
+    if (seen.has(key)) {
+      return { valid: false, message: 'Someone is tagged twice on the same photo or video' }
+    }
+    seen.add(key)
+
+    const tag: TagInput = { user_id: userId, media_index: mediaIndex }
+    if (item.x !== undefined || item.y !== undefined) {
+      if (media[mediaIndex].type !== 'image') {
+        return { valid: false, message: 'Only tags on photos can have a position' }
+      }
+      if (!isFraction(item.x) || !isFraction(item.y)) {
+        return { valid: false, message: 'Tag position must be between 0 and 1' }
+      }
+      tag.x = Math.round(item.x * 10000) / 10000
+      tag.y = Math.round(item.y * 10000) / 10000
+    }
+    tags.push(tag)
+  }
+
+  return { valid: true, tags }
+}
+
+/**
+ * Move tags along with their items when an edit rearranges the carousel (see
+ * parseMediaLayout in lib/postMedia.ts). Tags on removed or replaced items are
+ * dropped.
+ */
+export function remapTags<T extends { media_index: number }>(tags: T[], layout: Array<number | null>): T[] {
+  return tags.flatMap(tag => {
+    const index = layout.indexOf(tag.media_index)
+    return index === -1 ? [] : [{ ...tag, media_index: index }]
+  })
+}
@@ -0,0 +1,163 @@
+/**
+ * Posts as a particular viewer may see them
+ *
+ * Shared by the lists that gather posts from many authors outside the feed
+ * (tagged posts, saved posts): the visibility rules and the API shape live here
+ * so those lists can't drift apart.
+ */
+
+import type { WithId } from 'mongodb'
+import {
+  getCollection,
+  withRetry,
+  serializeDoc,
+  Collections,
+  Post,
+  User,
+  Aura,
+  Comment,
+  Follower,
+} from './mongodb'
+import { ACTIVE_USER_FILTER } from './accountStatus'
+import { getPostMedia } from './postMedia'
+import { getPlaceSummaries } from './placeCatalog'
+import { getPostTags } from './postTagging'
+import { getUserRole } from './roles'
+import { getSavedPostIds } from './savedPostStorage'
+import { isPublished } from './postSchedule'
+import { canSeeAudience, ANONYMOUS_VIEWER } from './postAudience'
+import { getAudienceViewer } from './closeFriends'
+
+/**
+ * Which of the given authors' posts the viewer may not see: deactivated
+ * authors, authors on either side of a block with the viewer, and private
+ * authors the viewer doesn't follow (unless `includePrivate`).
+ */
+export async function findHiddenAuthors(
+  authorIds: number[],
+  viewerId: number | null,
+  { includePrivate = false }: { includePrivate?: boolean } = {}
+): Promise<{ hidden: Set<number>; authors: Map<number, User> }> {
+  const ids = [...new Set(authorIds)]
+  if (ids.length === 0) return { hidden: new Set(), authors: new Map() }
+
+  const users = await getCollection<User>(Collections.USERS)
+  const followers = await getCollection<Follower>(Collections.FOLLOWERS)
+  const blocks = await getCollection(Collections.BLOCKS)
+
+  const [activeAuthors, viewerFollows, blockDocs] = await withRetry(async () => {
+    return Promise.all([
+      users.find({ id: { $in: ids }, ...ACTIVE_USER_FILTER }).toArray(),
+      viewerId ? followers.find({ follower_id: viewerId, following_id: { $in: ids } }).toArray() : Promise.resolve([]),
+      viewerId ? blocks.find({
+        $or: [
+          { blocker_id: viewerId, blocked_user_id: { $in: ids } },
+          { blocker_id: { $in: ids }, blocked_user_id: viewerId },
+        ]
+      }).toArray() : Promise.resolve([]),
+    ])
+  })
+
+  const authors = new Map(activeAuthors.map(a => [a.id as number, a]))
+  const followedIds = new Set(viewerFollows.map(f => f.following_id as number))
+  const blockedIds = new Set(blockDocs.map(b => (b.blocker_id === viewerId ? b.blocked_user_id : b.blocker_id) as number))
+
+  const hidden = new Set(ids.filter(id => {
+    const author = authors.get(id)
+    if (!author || blockedIds.has(id)) return true
+    if (!author.is_private || includePrivate || viewerId === id) return false
+    return !followedIds.has(id)
+  }))
+  return { hidden, authors }
+}
+
+/**
+ * The published posts the viewer may see: not hidden by findHiddenAuthors and
+ * with the viewer in their audience (see lib/postAudience.ts)
+ */
+export async function filterVisiblePosts<T extends Post>(
+  postList: T[],
+  viewerId: number | null,
+  options: { includePrivate?: boolean } = {}
+): Promise<{ visible: T[]; authors: Map<number, User> }> {
+  const authorIds = postList.map(p => p.user_id as number)
+  const limitedAuthors = postList.filter(post => post.audience).map(post => post.user_id as number)
+  const [{ hidden, authors }, viewer] = await Promise.all([
+    findHiddenAuthors(authorIds, viewerId, options),
+    limitedAuthors.length > 0 ? getAudienceViewer(viewerId, limitedAuthors) : Promise.resolve(ANONYMOUS_VIEWER),
+  ])
+  const visible = postList.filter(post => isPublished(post) && !hidden.has(post.user_id as number) && canSeeAudience(post, viewer))
+  return { visible, authors }
+}
+
+export async function canViewPost(viewerId: number | null, post: Post): Promise<boolean> {
+  const { visible } = await filterVisiblePosts([post], viewerId)
+  return visible.length > 0
+}
+
+/**
+ * The posts the viewer may see, in the order given, in the API shape. Drafts
+ * and scheduled posts are left out for everyone, their author included.
+ */
+export async function buildPostViews(
+  postList: WithId<Post>[],
+  viewerId: number | null,
+  options: { includePrivate?: boolean } = {}
+) {
+  const { visible, authors } = await filterVisiblePosts(postList, viewerId, options)
+  if (visible.length === 0) return []
+
+  const auras = await getCollection<Aura>(Collections.AURAS)
+  const comments = await getCollection<Comment>(Collections.COMMENTS)
+
+  const visibleIds = visible.map(p => p.id as number)
+  const [postAuras, postComments, savedIds, placeMap, tagMap] = await Promise.all([
+    auras.find({ post_id: { $in: visibleIds } }).toArray(),
+    comments.find({ post_id: { $in: visibleIds } }, { projection: { post_id: 1 } }).toArray(),
+    viewerId ? getSavedPostIds(viewerId, visibleIds) : Promise.resolve(new Set<number>()),
+    getPlaceSummaries(visible.map(p => p.place_id).filter(Boolean) as number[]),
+    getPostTags(visibleIds),
+  ])
+
+  return visible.map(post => {
+    const author = authors.get(post.user_id as number)!
+    const postAuraList = postAuras.filter(a => a.post_id === post.id)
+    const commentCount = postComments.filter(c => c.post_id === post.id).length
+    const authorView = {
+      id: author.id,
+      name: author.name,
+      department: author.department,
+      year: author.year,
+      profile_image: author.profile_image || null,
+      role: getUserRole(author),
+    }
+
+    return {
+      ...(serializeDoc(post) as Post & { id: number }),
+      media: getPostMedia(post),
+      place: post.place_id ? placeMap.get(post.place_id) || null : null,
+      tags: tagMap.get(post.id as number) || [],
+      content: post.caption || '',
+      author: authorView,
+      user: authorView,
+      aura_count: postAuraList.length,
+      comment_count: commentCount,
+      user_liked: viewerId ? postAuraList.some(a => a.user_id === viewerId) : false,
+      user_saved: savedIds.has(post.id as number),
+    }
+  })
+}
+
+// A post in the API shape
+export type PostView = Awaited<ReturnType<typeof buildPostViews>>[number]
+
+// Fetch posts by id and keep the order of `postIds`
+export async function findPostsInOrder(postIds: number[]): Promise<WithId<Post>[]> {
+  if (postIds.length === 0) return []
+  const posts = await getCollection<Post>(Collections.POSTS)
+  const found = await withRetry(async () => {
+    return posts.find({ id: { $in: postIds } }).toArray()
+  })
+  const byId = new Map(found.map(post => [post.id as number, post]))
+  return postIds.map(id => byId.get(id)).filter(Boolean) as WithId<Post>[]
+}
@@ -48,7 +48,7 @@ class InMemoryStore {
   
   // Cleanup expired entries periodically
   startCleanup() {
-    setInterval(() => {
+    const timer = setInterval(() => {
       const now = Date.now()
       for (const [key, entry] of this.store.entries()) {
         if (now > entry.resetTime) {
@@ -56,6 +56,9 @@ class InMemoryStore {
         }
       }
     }, 60000) // Clean up every minute
+
+    // Don't keep the process alive just for cleanup
+    timer.unref?.()
   }
 }
 
@@ -0,0 +1,298 @@
+/**
+ * Storage and feeds for reposts and quote posts
+ *
+ * Reposts are posts with no content of their own, visible to the reposter's
+ * followers; feeds replace each one with the original, credited to its author
+ * and marked with who reposted it. Whether the original may still be shown is
+ * checked every time it's read (see repostBlockReason in lib/reposts.ts), so
+ * reposts disappear as soon as the original is deleted, goes private or its
+ * author turns reposts off.
+ */
+
+import type { WithId } from 'mongodb'
+import {
+  getCollection,
+  getNextSequenceValue,
+  withRetry,
+  Collections,
+  Post,
+  User,
+} from './mongodb'
+import { ACTIVE_USER_FILTER } from './accountStatus'
+import { PUBLISHED_POST_FILTER } from './postSchedule'
+import { buildPostViews, canViewPost, findPostsInOrder, PostView } from './postViews'
+import { socialGraph } from './socialGraph'
+import {
+  isRepost,
+  repostBlockReason,
+  repostTargetId,
+  QUOTE_BLOCK_MESSAGES,
+  QuotedPostView,
+  RepostBlockReason,
+  RepostedBy,
+} from './reposts'
+
+/**
+ * The post a repost or quote of `postId` would share, with its author's
+ * account (null once it's gone). Reposts resolve to their original.
+ */
+export async function findRepostTarget(postId: number): Promise<{ post: WithId<Post> | null; author: User | null }> {
+  const posts = await getCollection<Post>(Collections.POSTS)
+  const users = await getCollection<User>(Collections.USERS)
+
+  const found = await withRetry(async () => {
+    return posts.findOne({ id: postId })
+  })
+  const targetId = found ? repostTargetId(found) : undefined
+  const post = found && targetId !== found.id
+    ? await withRetry(async () => posts.findOne({ id: targetId }))
+    : found
+  if (!post) return { post: null, author: null }
+
+  const author = await withRetry(async () => {
+    return users.findOne({ id: post.user_id as number, ...ACTIVE_USER_FILTER })
+  })
+  return { post, author }
+}
+
+/**
+ * The post the user would quote by quoting `postId`, or why they can't.
+ * Checked when the quote is written and again when it goes live.
+ */
+export async function findQuoteTarget(
+  userId: number,
+  postId: number
+): Promise<{ post: WithId<Post> } | { reason: RepostBlockReason; error: string }> {
+  const { post, author } = await findRepostTarget(postId)
+  const blocked = !post || !(await canViewPost(userId, post)) ? 'not_found' : repostBlockReason(post, author)
+  if (blocked) return { reason: blocked, error: QUOTE_BLOCK_MESSAGES[blocked] }
+  return { post: post as WithId<Post> }
+}
+
+/**
+ * Repost `original` to the user's followers. Returns false if they had
+ * already reposted it.
+ */
+export async function createRepost(userId: number, original: Post): Promise<boolean> {
+  const posts = await getCollection<Post>(Collections.POSTS)
+  const existing = await withRetry(async () => {
+    return posts.findOne({ repost_of: original.id, user_id: userId }, { projection: { _id: 1 } })
+  })
+  if (existing) return false
+
+  const repost: Post = {
+    id: await getNextSequenceValue('posts'),
+    user_id: userId,
+    repost_of: original.id,
+    // Feeds show the original's category; the repost itself is uncategorized
+    category: 'GENERAL',
+    media_url: '',
+    media_type: 'NONE',
+    audience: { type: 'followers' },
+    created_at: new Date(),
+  }
+  try {
+    await withRetry(async () => {
+      return posts.insertOne(repost as any)
+    })
+  } catch (error: any) {
+    // Reposted twice at once; the unique index kept the first
+    if (error?.code === 11000) return false
+    throw error
+  }
+  return true
+}
+
+export async function removeRepost(userId: number, originalId: number): Promise<boolean> {
+  const posts = await getCollection<Post>(Collections.POSTS)
+  const result = await withRetry(async () => {
+    return posts.deleteOne({ repost_of: originalId, user_id: userId })
+  })
+  return result.deletedCount > 0
+}
+
+// Reposts of deleted posts; quote posts keep their caption
+export async function deleteRepostsOf(postIds: number[]): Promise<void> {
+  if (postIds.length === 0) return
+  const posts = await getCollection<Post>(Collections.POSTS)
+  await withRetry(async () => {
+    return posts.deleteMany({ repost_of: { $in: postIds } })
+  })
+}
+
+/**
+ * How many times each post was reposted or quoted, and which of them the
+ * viewer reposted
+ */
+export async function getRepostStats(
+  postIds: number[],
+  viewerId: number | null
+): Promise<{ counts: Map<number, number>; mine: Set<number> }> {
+  if (postIds.length === 0) return { counts: new Map(), mine: new Set() }
+  const posts = await getCollection<Post>(Collections.POSTS)
+
+  const [counts, mine] = await Promise.all([
+    withRetry(async () => {
+      return posts.aggregate<{ _id: number; count: number }>([
+        { $match: { $or: [{ repost_of: { $in: postIds } }, { quote_of: { $in: postIds } }], ...PUBLISHED_POST_FILTER } },
+        { $group: { _id: { $ifNull: ['$repost_of', '$quote_of'] }, count: { $sum: 1 } } },
+      ]).toArray()
+    }),
+    viewerId
+      ? withRetry(async () => {
+        return posts.find({ user_id: viewerId, repost_of: { $in: postIds } }, { projection: { repost_of: 1 } }).toArray()
+      })
+      : Promise.resolve([]),
+  ])
+  return {
+    counts: new Map(counts.map(({ _id, count }) => [_id, count])),
+    mine: new Set(mine.map(post => post.repost_of as number)),
+  }
+}
+
+/**
+ * Strengthen the reposter's edge to the author on the social graph. The
+ * graph keys users by their document id; it only has edges for follows.
+ */
+export async function recordShare(userId: number, authorId: number): Promise<void> {
+  if (userId === authorId) return
+  const users = await getCollection<User>(Collections.USERS)
+  const [from, to] = await withRetry(async () => {
+    return Promise.all([
+      users.findOne({ id: userId }, { projection: { _id: 1 } }),
+      users.findOne({ id: authorId }, { projection: { _id: 1 } }),
+    ])
+  })
+  if (!from?._id || !to?._id) return
+  await socialGraph.updateEdgeWeight(from._id, to._id, 'share')
+}
+
+export function notifyRepost(authorId: number, actor: { id: number; name: string }, postId: number, quoted: boolean): void {
+  try {
+    if (!(global as any).io || authorId === actor.id) return
+    ;(global as any).io.to(`user-${authorId}`).emit('notification', {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      type: 'mention',
+      message: quoted ? `${actor.name} quoted your post` : `${actor.name} reposted your post`,
+      time: new Date().toISOString(),
+      read: false,
+      meta: { kind: quoted ? 'post_quote' : 'post_repost', postId, actorId: actor.id }
+    })
+  } catch (notificationError) {
+    console.warn('Failed to send notification:', notificationError)
+  }
+}
+
+/**
+ * The originals of the given posts that may still be shown, in the API shape
+ * for the viewer. Blocks between the viewer and the original's author hide
+ * it too.
+ */
+async function loadOriginals(postIds: number[], viewerId: number | null): Promise<Map<number, PostView>> {
+  if (postIds.length === 0) return new Map()
+  const users = await getCollection<User>(Collections.USERS)
+
+  const originals = await findPostsInOrder(postIds)
+  const authors = await withRetry(async () => {
+    return users
+      .find({ id: { $in: originals.map(post => post.user_id as number) }, ...ACTIVE_USER_FILTER })
+      .project<Pick<User, 'id' | 'is_private' | 'is_deactivated' | 'allow_reposts'>>({ id: 1, is_private: 1, is_deactivated: 1, allow_reposts: 1 })
+      .toArray()
+  })
+  const authorMap = new Map(authors.map(author => [author.id as number, author]))
+
+  const shown = originals.filter(post => !repostBlockReason(post, authorMap.get(post.user_id as number) || null))
+  const views = await buildPostViews(shown, viewerId)
+  return new Map(views.map(view => [view.id, view]))
+}
+
+function toQuotedPost(view: PostView): QuotedPostView {
+  return {
+    id: view.id,
+    content: view.content,
+    media: view.media,
+    created_at: new Date(view.created_at).toISOString(),
+    author: { id: view.author.id as number, name: view.author.name, profile_image: view.author.profile_image },
+  }
+}
+
+// Who a post is by, as resolveReposts reads it: the routes that build their
+// own post shape (profiles, the feed) name it as `user`, maybe with a username
+interface ViewAuthor {
+  id?: number
+  name: string
+  username?: string | null
+  profile_image?: string | null
+}
+
+interface RepostableView {
+  id: number
+  created_at: Date
+  repost_of?: number | null
+  quote_of?: number | null
+  author?: ViewAuthor
+  user?: ViewAuthor
+}
+
+interface RepostFields {
+  reposted_by?: RepostedBy
+  repost_id?: number
+  reposted_at?: Date
+  quoted_post?: QuotedPostView | null
+}
+
+// A post as resolveReposts returns it; reposts come back as their original
+export type ResolvedPostView<T extends RepostableView = PostView> = (T | PostView) & RepostFields & {
+  repost_count: number
+  user_reposted: boolean
+}
+
+/**
+ * Finish a list of posts in the API shape: each repost becomes its original
+ * with `reposted_by`, or is dropped once the original can't be shown; quote
+ * posts get `quoted_post` (null once unavailable). A post shown twice, e.g.
+ * reposted by two people the viewer follows, keeps its first place. Every
+ * post gets `repost_count` and whether the viewer reposted it.
+ */
+export async function resolveReposts<T extends RepostableView>(
+  views: T[],
+  viewerId: number | null
+): Promise<ResolvedPostView<T>[]> {
+  const originalIds = [...new Set(views.flatMap(view => [view.repost_of, view.quote_of]))]
+    .filter((id): id is number => typeof id === 'number')
+  const originals = await loadOriginals(originalIds, viewerId)
+
+  const seen = new Set<number>()
+  const resolved: ((T | PostView) & RepostFields)[] = []
+  for (const view of views) {
+    if (isRepost(view)) {
+      const original = originals.get(view.repost_of as number)
+      if (!original || seen.has(original.id)) continue
+      seen.add(original.id)
+      const reposter = (view.author || view.user) as ViewAuthor
+      const repostedBy: RepostedBy = {
+        id: reposter.id as number,
+        name: reposter.name,
+        username: reposter.username || null,
+        profile_image: reposter.profile_image || null,
+      }
+      resolved.push({ ...original, reposted_by: repostedBy, repost_id: view.id, reposted_at: view.created_at })
+      continue
+    }
+    if (seen.has(view.id)) continue
+    seen.add(view.id)
+    if (typeof view.quote_of === 'number') {
+      const quoted = originals.get(view.quote_of)
+      resolved.push({ ...view, quoted_post: quoted ? toQuotedPost(quoted) : null })
+    } else {
+      resolved.push(view)
+    }
+  }
+
+  const { counts, mine } = await getRepostStats(resolved.map(view => view.id), viewerId)
+  return resolved.map(view => ({
+    ...view,
+    repost_count: counts.get(view.id) || 0,
+    user_reposted: mine.has(view.id),
+  }))
+}
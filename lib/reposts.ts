@@ -0,0 +1,93 @@
+/**
+ * Reposts and quote posts (safe to import from client components)
+ *
+ * A repost shares someone's post with the reposter's followers, credited to
+ * its author; a quote post is the quoter's own post with the original shown
+ * under its caption. Both are posts pointing at the original (`repost_of`,
+ * `quote_of`). Only public posts can be reposted or quoted, and only while
+ * their author allows it: once the original is deleted, goes private or its
+ * author turns reposts off, reposts of it disappear and quote posts show it
+ * as unavailable. Storage and feeds live in lib/repostStorage.ts.
+ */
+
+import type { PostAudience, PostStatus } from './mongodb'
+import type { MediaItem } from './postMedia'
+import { isPublished } from './postSchedule'
+
+// Who reposted a post, shown above it in feeds
+export interface RepostedBy {
+  id: number
+  name: string
+  username: string | null
+  profile_image: string | null
+}
+
+// The original under a quote post
+export interface QuotedPostView {
+  id: number
+  content: string
+  media: MediaItem[]
+  created_at: string
+  author: {
+    id: number
+    name: string
+    profile_image?: string | null
+  }
+}
+
+interface OriginalPost {
+  status?: PostStatus
+  audience?: PostAudience
+}
+
+interface OriginalAuthor {
+  is_private?: boolean
+  is_deactivated?: boolean
+  allow_reposts?: boolean
+}
+
+/**
+ * The post a repost or quote of `post` points at: reposting a repost shares
+ * the original instead
+ */
+export function repostTargetId(post: { id?: number; repost_of?: number }): number | undefined {
+  return post.repost_of ?? post.id
+}
+
+export type RepostBlockReason = 'not_found' | 'not_public' | 'reposts_off'
+
+// What to tell someone trying to repost, or quote, a post they can't
+export const REPOST_BLOCK_MESSAGES: Record<RepostBlockReason, string> = {
+  not_found: 'Post not found',
+  not_public: 'Only public posts can be reposted',
+  reposts_off: "This account doesn't allow reposts",
+}
+
+export const QUOTE_BLOCK_MESSAGES: Record<RepostBlockReason, string> = {
+  not_found: 'Quoted post not found',
+  not_public: 'Only public posts can be quoted',
+  reposts_off: "This account doesn't allow quotes",
+}
+
+/**
+ * Why the post can't be reposted or quoted (or shown under existing reposts
+ * and quotes), or null if it can. `author` is null when the account is gone.
+ */
+export function repostBlockReason(
+  original: OriginalPost | null,
+  author: OriginalAuthor | null
+): RepostBlockReason | null {
+  if (!original || !author || author.is_deactivated || !isPublished(original)) return 'not_found'
+  if (author.is_private || original.audience) return 'not_public'
+  if (author.allow_reposts === false) return 'reposts_off'
+  return null
+}
+
+// Leaves out plain reposts: profiles and category feeds list only posts of
+// their own (quote posts included)
+export const NOT_REPOST_FILTER = { repost_of: { $exists: false } }
+
+// Reposts show the original in place of their own (empty) content
+export function isRepost(post: { repost_of?: number | null }): boolean {
+  return typeof post.repost_of === 'number'
+}
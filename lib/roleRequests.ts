@@ -0,0 +1,144 @@
+/**
+ * Role verification requests
+ *
+ * Everyone starts as a student. Faculty, staff and alumni ask for their role
+ * with a short note (e.g. staff ID or graduation year) and an admin approves
+ * or rejects it. A user has at most one pending request at a time.
+ */
+
+import { getCollection, withRetry, getNextSequenceValue, Collections, User, RoleRequest } from './mongodb'
+import { RequestableRole, ROLE_LABELS } from './roles'
+
+const MAX_NOTE_LENGTH = 500
+
+function trimNote(note: unknown): string | undefined {
+  return typeof note === 'string' ? note.trim().slice(0, MAX_NOTE_LENGTH) || undefined : undefined
+}
+
+export async function getPendingRoleRequest(userId: number): Promise<RoleRequest | null> {
+  const requests = await getCollection<RoleRequest>(Collections.ROLE_REQUESTS)
+  return withRetry(async () => {
+    return requests.findOne({ user_id: userId, status: 'pending' })
+  })
+}
+
+/**
+ * Open a request, or replace the role/note on the user's pending one
+ */
+export async function createRoleRequest(userId: number, role: RequestableRole, note?: string): Promise<RoleRequest> {
+  const requests = await getCollection<RoleRequest>(Collections.ROLE_REQUESTS)
+  const trimmedNote = trimNote(note)
+
+  const existing = await getPendingRoleRequest(userId)
+  if (existing) {
+    await withRetry(async () => {
+      return requests.updateOne(
+        { id: existing.id, status: 'pending' },
+        trimmedNote
+          ? { $set: { requested_role: role, note: trimmedNote, created_at: new Date() } }
+          : { $set: { requested_role: role, created_at: new Date() }, $unset: { note: '' } }
+      )
+    })
+    return { ...existing, requested_role: role, note: trimmedNote }
+  }
+
+  const request: RoleRequest = {
+    id: await getNextSequenceValue('role_requests'),
+    user_id: userId,
+    requested_role: role,
+    ...(trimmedNote && { note: trimmedNote }),
+    status: 'pending',
+    created_at: new Date(),
+  }
+
+  await withRetry(async () => {
+    return requests.insertOne(request as any)
+  })
+
+  return request
+}
+
+export async function cancelRoleRequest(userId: number): Promise<boolean> {
+  const requests = await getCollection<RoleRequest>(Collections.ROLE_REQUESTS)
+  const result = await withRetry(async () => {
+    return requests.deleteOne({ user_id: userId, status: 'pending' })
+  })
+  return result.deletedCount > 0
+}
+
+export async function listRoleRequests(status: RoleRequest['status'] = 'pending', limit: number = 50): Promise<RoleRequest[]> {
+  const requests = await getCollection<RoleRequest>(Collections.ROLE_REQUESTS)
+  return withRetry(async () => {
+    return requests
+      .find({ status })
+      // Oldest pending first; most recent decisions first
+      .sort({ created_at: status === 'pending' ? 1 : -1 })
+      .limit(limit)
+      .toArray()
+  })
+}
+
+/**
+ * Approve or reject a pending request. Approval sets the user's role.
+ * Returns the reviewed request, or null if it doesn't exist or was already reviewed.
+ */
+export async function reviewRoleRequest(
+  requestId: number,
+  reviewerId: number,
+  decision: 'approved' | 'rejected',
+  reviewNote?: string
+): Promise<RoleRequest | null> {
+  const requests = await getCollection<RoleRequest>(Collections.ROLE_REQUESTS)
+  const users = await getCollection<User>(Collections.USERS)
+  const now = new Date()
+  const trimmedReviewNote = trimNote(reviewNote)
+
+  // Claim the request atomically so two admins can't both act on it
+  const claimed = await withRetry(async () => {
+    return requests.findOneAndUpdate(
+      { id: requestId, status: 'pending' },
+      {
+        $set: {
+          status: decision,
+          reviewed_by: reviewerId,
+          reviewed_at: now,
+          ...(trimmedReviewNote && { review_note: trimmedReviewNote }),
+        },
+      },
+      { returnDocument: 'after' }
+    )
+  })
+
+  // Support both driver typings (document directly, or { value: document })
+  const request = ((claimed as any)?.value ?? claimed) as RoleRequest | null
+  if (!request) return null
+
+  if (decision === 'approved') {
+    await withRetry(async () => {
+      return users.updateOne(
+        { id: request.user_id },
+        { $set: { role: request.requested_role, role_verified_at: now } }
+      )
+    })
+  }
+
+  try {
+    if ((global as any).io) {
+      const label = ROLE_LABELS[request.requested_role]
+      ;(global as any).io.to(`user-${request.user_id}`).emit('notification', {
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        type: 'system',
+        message: decision === 'approved'
+          ? `You're now verified as ${label}`
+          : `Your request to be verified as ${label} was not approved`,
+        time: now.toISOString(),
+        read: false,
+        meta: { kind: 'role_request', status: decision, role: request.requested_role }
+      })
+    }
+  } catch (notificationError) {
+    console.warn('Failed to send notification:', notificationError)
+  }
+
+  return request
+}
@@ -0,0 +1,59 @@
+/**
+ * User roles and what each one is allowed to do
+ *
+ * Safe to import from client components: no database access here.
+ * Server-side checks live in lib/permissions.ts.
+ */
+
+import type { UserRole, RoleRequest } from './mongodb'
+
+export type { UserRole }
+
+export type RequestableRole = RoleRequest['requested_role']
+
+export type Permission =
+  | 'post_announcements' // official ACADEMIC posts
+  | 'moderate_content'   // remove other people's posts and comments
+  | 'review_roles'       // approve or reject role requests
+  | 'manage_places'      // edit the campus place catalog
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  student: 'Student',
+  faculty: 'Faculty',
+  staff: 'Staff',
+  alumni: 'Alumni',
+  admin: 'Admin',
+}
+
+// Students are the default; admins are appointed, never requested
+export const REQUESTABLE_ROLES: RequestableRole[] = ['faculty', 'staff', 'alumni']
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  student: [],
+  alumni: [],
+  faculty: ['post_announcements'],
+  staff: ['post_announcements'],
+  admin: ['post_announcements', 'moderate_content', 'review_roles', 'manage_places'],
+}
+
+// Post categories that need a permission to publish in
+const RESTRICTED_CATEGORIES: Record<string, Permission> = {
+  ACADEMIC: 'post_announcements',
+}
+
+export function getUserRole(user: { role?: UserRole | null } | null | undefined): UserRole {
+  return user?.role || 'student'
+}
+
+export function hasPermission(role: UserRole | null | undefined, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role || 'student']?.includes(permission) ?? false
+}
+
+export function canPostInCategory(role: UserRole | null | undefined, category: string): boolean {
+  const required = RESTRICTED_CATEGORIES[category.toUpperCase()]
+  return !required || hasPermission(role, required)
+}
+
+export function isRequestableRole(value: unknown): value is RequestableRole {
+  return typeof value === 'string' && (REQUESTABLE_ROLES as string[]).includes(value)
+}
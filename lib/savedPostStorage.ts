@@ -0,0 +1,375 @@
+/**
+ * Saved post storage
+ *
+ * One document per saved post, filed under at most one of the saver's
+ * collections. Saves go away with the post, and pruneHiddenSaves drops the ones
+ * a privacy change has hidden from the saver; anything hidden more briefly
+ * (e.g. a deactivated author) is only filtered out when listing.
+ */
+
+import {
+  getCollection,
+  withRetry,
+  getNextSequenceValue,
+  Collections,
+  SavedCollection,
+  SavedPost,
+  Post,
+  User,
+  Follower,
+} from './mongodb'
+import { getPostMedia } from './postMedia'
+import { collectionNameKey, positionBetween, SavedCollectionView } from './savedPosts'
+
+export const COLLECTION_NAME_TAKEN_ERROR = 'You already have a collection with that name'
+
+// Below this gap between neighbours, a collection is renumbered before inserting
+const MIN_POSITION_GAP = 1e-6
+
+export async function getCollectionForUser(userId: number, collectionId: number): Promise<SavedCollection | null> {
+  const collections = await getCollection<SavedCollection>(Collections.SAVED_COLLECTIONS)
+  return withRetry(async () => {
+    return collections.findOne({ id: collectionId, user_id: userId })
+  })
+}
+
+/**
+ * The user's collections, oldest first, with their item counts and covers
+ */
+export async function listCollections(userId: number): Promise<SavedCollectionView[]> {
+  const collections = await getCollection<SavedCollection>(Collections.SAVED_COLLECTIONS)
+  const savedPosts = await getCollection<SavedPost>(Collections.SAVED_POSTS)
+  const posts = await getCollection<Post>(Collections.POSTS)
+
+  const [list, tops] = await withRetry(async () => {
+    return Promise.all([
+      collections.find({ user_id: userId }).sort({ created_at: 1 }).toArray(),
+      savedPosts.aggregate<{ _id: number; count: number; top_post_id: number }>([
+        { $match: { user_id: userId, collection_id: { $ne: null } } },
+        { $sort: { position: -1 } },
+        { $group: { _id: '$collection_id', count: { $sum: 1 }, top_post_id: { $first: '$post_id' } } },
+      ]).toArray(),
+    ])
+  })
+
+  const coverPosts = await withRetry(async () => {
+    return posts.find({ id: { $in: tops.map(t => t.top_post_id) } }).toArray()
+  })
+  const coverByPost = new Map(coverPosts.map(post => [post.id as number, getPostMedia(post)[0]?.url || null]))
+  const statsByCollection = new Map(tops.map(t => [t._id, t]))
+
+  return list.map(collection => {
+    const stats = statsByCollection.get(collection.id as number)
+    return {
+      id: collection.id as number,
+      name: collection.name,
+      post_count: stats?.count || 0,
+      cover_url: stats ? coverByPost.get(stats.top_post_id) || null : null,
+    }
+  })
+}
+
+export async function countCollections(userId: number): Promise<number> {
+  const collections = await getCollection<SavedCollection>(Collections.SAVED_COLLECTIONS)
+  return withRetry(async () => {
+    return collections.countDocuments({ user_id: userId })
+  })
+}
+
+/**
+ * Returns null if the user already has a collection with that name
+ */
+export async function createCollection(userId: number, name: string): Promise<SavedCollection | null> {
+  const collections = await getCollection<SavedCollection>(Collections.SAVED_COLLECTIONS)
+  const nameKey = collectionNameKey(name)
+
+  const existing = await withRetry(async () => {
+    return collections.findOne({ user_id: userId, name_key: nameKey })
+  })
+  if (existing) return null
+
+  const collection: SavedCollection = {
+    id: await getNextSequenceValue('saved_collections'),
+    user_id: userId,
+    name,
+    name_key: nameKey,
+    created_at: new Date(),
+  }
+
+  try {
+    await withRetry(async () => {
+      return collections.insertOne(collection as any)
+    })
+  } catch (error: any) {
+    if (error?.code === 11000) return null
+    throw error
+  }
+
+  return collection
+}
+
+export type CollectionRenameResult = { collection: SavedCollection } | { error: 'not_found' | 'name_taken' }
+
+export async function renameCollection(userId: number, collectionId: number, name: string): Promise<CollectionRenameResult> {
+  const collections = await getCollection<SavedCollection>(Collections.SAVED_COLLECTIONS)
+  const nameKey = collectionNameKey(name)
+
+  const clash = await withRetry(async () => {
+    return collections.findOne({ user_id: userId, name_key: nameKey, id: { $ne: collectionId } })
+  })
+  if (clash) return { error: 'name_taken' }
+
+  try {
+    const result = await withRetry(async () => {
+      return collections.findOneAndUpdate(
+        { id: collectionId, user_id: userId },
+        { $set: { name, name_key: nameKey, updated_at: new Date() } },
+        { returnDocument: 'after' }
+      )
+    })
+    // Support both driver typings (document directly, or { value: document })
+    const updated = ((result as any)?.value ?? result) as SavedCollection | null
+    return updated ? { collection: updated } : { error: 'not_found' }
+  } catch (error: any) {
+    if (error?.code === 11000) return { error: 'name_taken' }
+    throw error
+  }
+}
+
+/**
+ * Delete a collection. Its posts stay saved, just no longer filed anywhere.
+ * Returns false if the user has no such collection.
+ */
+export async function deleteCollection(userId: number, collectionId: number): Promise<boolean> {
+  const collections = await getCollection<SavedCollection>(Collections.SAVED_COLLECTIONS)
+  const result = await withRetry(async () => {
+    return collections.deleteOne({ id: collectionId, user_id: userId })
+  })
+  if (result.deletedCount === 0) return false
+
+  const top = await topPosition(userId, null)
+  const savedPosts = await getCollection<SavedPost>(Collections.SAVED_POSTS)
+  const items = await withRetry(async () => {
+    return savedPosts.find({ user_id: userId, collection_id: collectionId }).sort({ position: 1 }).toArray()
+  })
+  if (items.length > 0) {
+    // Keep their order, on top of the posts that were already unfiled
+    await withRetry(async () => {
+      return savedPosts.bulkWrite(items.map((item, index) => ({
+        updateOne: {
+          filter: { _id: item._id },
+          update: { $set: { collection_id: null, position: (top ?? 0) + index + 1 } },
+        },
+      })))
+    })
+  }
+  return true
+}
+
+async function topPosition(userId: number, collectionId: number | null): Promise<number | null> {
+  const savedPosts = await getCollection<SavedPost>(Collections.SAVED_POSTS)
+  const top = await withRetry(async () => {
+    return savedPosts.find({ user_id: userId, collection_id: collectionId }).sort({ position: -1 }).limit(1).toArray()
+  })
+  return top[0]?.position ?? null
+}
+
+// Spread a collection's positions back out to whole numbers, keeping the order
+async function renumberCollection(userId: number, collectionId: number | null): Promise<void> {
+  const savedPosts = await getCollection<SavedPost>(Collections.SAVED_POSTS)
+  const items = await withRetry(async () => {
+    return savedPosts.find({ user_id: userId, collection_id: collectionId }).sort({ position: 1 }).toArray()
+  })
+  if (items.length === 0) return
+  await withRetry(async () => {
+    return savedPosts.bulkWrite(items.map((item, index) => ({
+      updateOne: { filter: { _id: item._id }, update: { $set: { position: index } } },
+    })))
+  })
+}
+
+// Which of the given posts the user has saved
+export async function getSavedPostIds(userId: number, postIds: number[]): Promise<Set<number>> {
+  if (postIds.length === 0) return new Set()
+  const savedPosts = await getCollection<SavedPost>(Collections.SAVED_POSTS)
+  const saved = await withRetry(async () => {
+    return savedPosts.find({ user_id: userId, post_id: { $in: postIds } }, { projection: { post_id: 1 } }).toArray()
+  })
+  return new Set(saved.map(s => s.post_id))
+}
+
+export async function getSavedPost(userId: number, postId: number): Promise<SavedPost | null> {
+  const savedPosts = await getCollection<SavedPost>(Collections.SAVED_POSTS)
+  return withRetry(async () => {
+    return savedPosts.findOne({ user_id: userId, post_id: postId })
+  })
+}
+
+/**
+ * Save a post, or file an already saved one, at the top of the collection
+ */
+export async function savePost(userId: number, postId: number, collectionId: number | null): Promise<SavedPost> {
+  const savedPosts = await getCollection<SavedPost>(Collections.SAVED_POSTS)
+  const existing = await getSavedPost(userId, postId)
+  if (existing && existing.collection_id === collectionId) return existing
+
+  const top = await topPosition(userId, collectionId)
+  const position = positionBetween(null, top)
+
+  if (existing) {
+    await withRetry(async () => {
+      return savedPosts.updateOne({ _id: existing._id }, { $set: { collection_id: collectionId, position } })
+    })
+    return { ...existing, collection_id: collectionId, position }
+  }
+
+  const saved: SavedPost = {
+    user_id: userId,
+    post_id: postId,
+    collection_id: collectionId,
+    position,
+    created_at: new Date(),
+  }
+  try {
+    await withRetry(async () => {
+      return savedPosts.insertOne(saved as any)
+    })
+  } catch (error: any) {
+    // Saved twice at once (e.g. double tap); the first save wins
+    if (error?.code === 11000) return (await getSavedPost(userId, postId)) || saved
+    throw error
+  }
+  return saved
+}
+
+export async function unsavePost(userId: number, postId: number): Promise<boolean> {
+  const savedPosts = await getCollection<SavedPost>(Collections.SAVED_POSTS)
+  const result = await withRetry(async () => {
+    return savedPosts.deleteOne({ user_id: userId, post_id: postId })
+  })
+  return result.deletedCount > 0
+}
+
+export type MoveSavedPostResult = { saved: SavedPost } | { error: 'not_saved' | 'before_not_found' }
+
+/**
+ * Move a saved post into `collectionId` (its current one if undefined), placed
+ * just above `beforePostId`, or at the bottom when that's null. Without
+ * `beforePostId` a move into another collection goes on top.
+ */
+export async function moveSavedPost(
+  userId: number,
+  postId: number,
+  { collectionId, beforePostId }: { collectionId?: number | null; beforePostId?: number | null }
+): Promise<MoveSavedPostResult> {
+  const existing = await getSavedPost(userId, postId)
+  if (!existing) return { error: 'not_saved' }
+  const target = collectionId === undefined ? existing.collection_id : collectionId
+
+  if (beforePostId === undefined) {
+    return { saved: await savePost(userId, postId, target) }
+  }
+
+  if (beforePostId === postId) return { saved: existing }
+
+  const savedPosts = await getCollection<SavedPost>(Collections.SAVED_POSTS)
+  const others = { user_id: userId, collection_id: target, post_id: { $ne: postId } }
+  const neighbours = async (): Promise<{ above: number | null; below: number | null } | null> => {
+    if (beforePostId === null) {
+      const bottom = await withRetry(async () => {
+        return savedPosts.find(others).sort({ position: 1 }).limit(1).toArray()
+      })
+      return { above: bottom[0]?.position ?? null, below: null }
+    }
+    const below = await withRetry(async () => {
+      return savedPosts.findOne({ user_id: userId, collection_id: target, post_id: beforePostId })
+    })
+    if (!below) return null
+    const above = await withRetry(async () => {
+      return savedPosts.find({ ...others, position: { $gt: below.position } }).sort({ position: 1 }).limit(1).toArray()
+    })
+    return { above: above[0]?.position ?? null, below: below.position }
+  }
+
+  let gap = await neighbours()
+  if (!gap) return { error: 'before_not_found' }
+  if (gap.above !== null && gap.below !== null && gap.above - gap.below < MIN_POSITION_GAP) {
+    await renumberCollection(userId, target)
+    gap = await neighbours()
+    if (!gap) return { error: 'before_not_found' }
+  }
+
+  const position = positionBetween(gap.above, gap.below)
+  await withRetry(async () => {
+    return savedPosts.updateOne({ _id: existing._id }, { $set: { collection_id: target, position } })
+  })
+  return { saved: { ...existing, collection_id: target, position } }
+}
+
+/**
+ * A page of the user's saved post ids: everything they saved (newest save
+ * first) when `collectionId` is undefined, otherwise one collection (or the
+ * unfiled posts, for null) in its own order
+ */
+export async function findSavedPostIds(
+  userId: number,
+  { collectionId, limit = 20, offset = 0 }: { collectionId?: number | null; limit?: number; offset?: number }
+): Promise<number[]> {
+  const savedPosts = await getCollection<SavedPost>(Collections.SAVED_POSTS)
+  const saved = await withRetry(async () => {
+    return savedPosts
+      .find(collectionId === undefined ? { user_id: userId } : { user_id: userId, collection_id: collectionId })
+      .sort(collectionId === undefined ? { created_at: -1 } : { position: -1 })
+      .skip(offset)
+      .limit(limit)
+      .toArray()
+  })
+  return saved.map(s => s.post_id)
+}
+
+export async function deleteSavesOfPost(postId: number): Promise<void> {
+  const savedPosts = await getCollection<SavedPost>(Collections.SAVED_POSTS)
+  await withRetry(async () => {
+    return savedPosts.deleteMany({ post_id: postId })
+  })
+}
+
+/**
+ * Drop saves of an author's posts by people who can no longer see them after
+ * the author went private or lost a follower. Pass `saverIds` to only check
+ * those people.
+ */
+export async function pruneHiddenSaves(authorId: number, saverIds?: number[]): Promise<void> {
+  const users = await getCollection<User>(Collections.USERS)
+  const author = await withRetry(async () => {
+    return users.findOne({ id: authorId }, { projection: { is_private: 1 } })
+  })
+  if (!author?.is_private) return
+
+  const posts = await getCollection<Post>(Collections.POSTS)
+  const savedPosts = await getCollection<SavedPost>(Collections.SAVED_POSTS)
+  const followers = await getCollection<Follower>(Collections.FOLLOWERS)
+
+  const postIds = (await withRetry(async () => {
+    return posts.find({ user_id: authorId }, { projection: { id: 1 } }).toArray()
+  })).map(p => p.id as number)
+  if (postIds.length === 0) return
+
+  const savers = (await withRetry(async () => {
+    return savedPosts.distinct('user_id', {
+      post_id: { $in: postIds },
+      user_id: saverIds ? { $in: saverIds.filter(id => id !== authorId) } : { $ne: authorId },
+    })
+  })) as number[]
+  if (savers.length === 0) return
+
+  const stillFollowing = new Set((await withRetry(async () => {
+    return followers.find({ following_id: authorId, follower_id: { $in: savers } }).toArray()
+  })).map(f => f.follower_id as number))
+  const lostAccess = savers.filter(id => !stillFollowing.has(id))
+  if (lostAccess.length === 0) return
+
+  await withRetry(async () => {
+    return savedPosts.deleteMany({ user_id: { $in: lostAccess }, post_id: { $in: postIds } })
+  })
+}
@@ -0,0 +1,61 @@
+/**
+ * Saved posts and collections (safe to import from client components)
+ *
+ * Saving is private: only the saver sees what they saved. Each saved post can
+ * sit in at most one named collection ("Exam notes", "Internships to apply");
+ * posts not filed anywhere still show under All. Storage lives in
+ * lib/savedPostStorage.ts.
+ */
+
+export const MAX_COLLECTION_NAME_LENGTH = 40
+export const MAX_COLLECTIONS_PER_USER = 50
+
+export interface SavedCollectionView {
+  id: number
+  name: string
+  post_count: number
+  // First item's media, for the collection tile
+  cover_url: string | null
+}
+
+// Collection names are unique per user regardless of case and spacing
+export function collectionNameKey(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+export function validateCollectionName(raw: unknown): { valid: boolean; name?: string; message?: string } {
+  const name = typeof raw === 'string' ? raw.trim().replace(/\s+/g, ' ') : ''
+  if (!name) {
+    return { valid: false, message: 'Collection name is required' }
+  }
+  if (name.length > MAX_COLLECTION_NAME_LENGTH) {
+    return { valid: false, message: `Collection name must be at most ${MAX_COLLECTION_NAME_LENGTH} characters` }
+  }
+  return { valid: true, name }
+}
+
+/**
+ * The `collection_id` a request names: a collection id, null for "not in any
+ * collection", or undefined when it's left out. Anything else is invalid.
+ */
+export function parseCollectionId(raw: unknown): { valid: boolean; value?: number | null } {
+  if (raw === undefined) return { valid: true, value: undefined }
+  if (raw === null || raw === 'none') return { valid: true, value: null }
+  const id = typeof raw === 'string' ? Number(raw) : raw
+  if (typeof id !== 'number' || !Number.isInteger(id) || id <= 0) {
+    return { valid: false }
+  }
+  return { valid: true, value: id }
+}
+
+/**
+ * Sort key for an item dropped between two neighbours. Lists are ordered by
+ * position, highest first, so `above` has the larger position; either side may
+ * be missing at the ends of the list.
+ */
+export function positionBetween(above: number | null, below: number | null): number {
+  if (above === null && below === null) return 0
+  if (above === null) return (below as number) + 1
+  if (below === null) return above - 1
+  return (above + below) / 2
+}
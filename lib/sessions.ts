@@ -0,0 +1,225 @@
+/**
+ * Server-side session registry
+ *
+ * Every session is recorded here under its `jti`, which all of its access
+ * tokens carry. A token is only accepted while its session document exists,
+ * so deleting the document revokes it immediately (logout, password reset,
+ * device removal). Expired sessions are cleaned up by a TTL index on `expires_at`.
+ *
+ * Each session also holds the hash of its current refresh token. Refresh
+ * tokens are single-use: every refresh rotates them, and presenting an
+ * already-rotated token outside a short grace window is treated as theft
+ * and revokes the whole session.
+ */
+
+import crypto from 'crypto'
+import { getCollection, Collections, Session, getNextSequenceValue, withRetry } from './mongodb'
+
+// Only write last_seen_at when it is older than this, to avoid a write per request
+const LAST_SEEN_UPDATE_INTERVAL_MS = 5 * 60 * 1000
+
+// Sessions live this long after their last refresh
+export const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000
+
+// Parallel tabs may refresh with the same cookie; tolerate the previous token briefly
+const REFRESH_REUSE_GRACE_MS = 30 * 1000
+
+export function hashRefreshToken(refreshToken: string): string {
+  return crypto.createHash('sha256').update(refreshToken).digest('hex')
+}
+
+/**
+ * Turn a user agent string into a short label like "Chrome on Windows"
+ */
+export function describeDevice(userAgent: string): string {
+  if (!userAgent) return 'Unknown device'
+
+  let browser = 'Unknown browser'
+  if (/Edg\//.test(userAgent)) browser = 'Edge'
+  else if (/OPR\/|Opera/.test(userAgent)) browser = 'Opera'
+  else if (/Chrome\//.test(userAgent) && !/Chromium/.test(userAgent)) browser = 'Chrome'
+  else if (/Firefox\//.test(userAgent)) browser = 'Firefox'
+  else if (/Safari\//.test(userAgent)) browser = 'Safari'
+
+  let os = 'Unknown OS'
+  if (/Windows/.test(userAgent)) os = 'Windows'
+  else if (/iPhone|iPad|iPod/.test(userAgent)) os = 'iOS'
+  else if (/Android/.test(userAgent)) os = 'Android'
+  else if (/Mac OS X|Macintosh/.test(userAgent)) os = 'macOS'
+  else if (/Linux/.test(userAgent)) os = 'Linux'
+
+  return `${browser} on ${os}`
+}
+
+/**
+ * Register a newly issued token as an active session
+ */
+export async function recordSession(data: {
+  userId: number
+  jti: string
+  refreshToken: string
+  expiresAt: Date
+  ip: string
+  userAgent: string
+}): Promise<Session> {
+  const sessions = await getCollection<Session>(Collections.SESSIONS)
+  const now = new Date()
+  const userAgent = data.userAgent.slice(0, 500)
+
+  const session: Session = {
+    id: await getNextSequenceValue('sessions'),
+    user_id: data.userId,
+    jti: data.jti,
+    refresh_token_hash: hashRefreshToken(data.refreshToken),
+    ip: data.ip,
+    user_agent: userAgent,
+    device: describeDevice(userAgent),
+    created_at: now,
+    last_seen_at: now,
+    expires_at: data.expiresAt,
+  }
+
+  await withRetry(async () => {
+    return sessions.insertOne(session as any)
+  })
+
+  return session
+}
+
+/**
+ * Look up the active session for a token ID, refreshing its last-seen time
+ * Returns null when the session was revoked or has expired
+ */
+export async function getActiveSession(jti: string): Promise<Session | null> {
+  if (!jti) return null
+
+  const sessions = await getCollection<Session>(Collections.SESSIONS)
+  const now = new Date()
+  const session = await sessions.findOne({ jti, expires_at: { $gt: now } })
+  if (!session) return null
+
+  if (now.getTime() - new Date(session.last_seen_at).getTime() > LAST_SEEN_UPDATE_INTERVAL_MS) {
+    // Fire-and-forget; a missed update only makes the timestamp a little stale
+    sessions.updateOne({ jti }, { $set: { last_seen_at: now } }).catch((error) => {
+      console.warn('Failed to update session last_seen_at:', error)
+    })
+  }
+
+  return session
+}
+
+/**
+ * Rotate a refresh token, returning the session and its new refresh token
+ * `refreshToken` is null when the previous token was presented within the
+ * grace window; the caller should mint an access token but leave the cookie.
+ * Returns null for unknown tokens, and revokes the session on reuse.
+ */
+export async function rotateRefreshToken(
+  refreshToken: string
+): Promise<{ session: Session; refreshToken: string | null } | null> {
+  const sessions = await getCollection<Session>(Collections.SESSIONS)
+  const hash = hashRefreshToken(refreshToken)
+  const now = new Date()
+  const nextToken = crypto.randomBytes(32).toString('hex')
+
+  // Swap atomically so two requests can't both rotate the same token
+  const rotated = await withRetry(async () => {
+    return sessions.findOneAndUpdate(
+      { refresh_token_hash: hash, expires_at: { $gt: now } },
+      {
+        $set: {
+          refresh_token_hash: hashRefreshToken(nextToken),
+          previous_refresh_token_hash: hash,
+          rotated_at: now,
+          last_seen_at: now,
+          expires_at: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS),
+        },
+      },
+      { returnDocument: 'after' }
+    )
+  })
+
+  // Support both driver typings (document directly, or { value: document })
+  const session = ((rotated as any)?.value ?? rotated) as Session | null
+  if (session) {
+    return { session, refreshToken: nextToken }
+  }
+
+  const previous = await sessions.findOne({ previous_refresh_token_hash: hash, expires_at: { $gt: now } })
+  if (!previous) return null
+
+  const rotatedAt = previous.rotated_at ? new Date(previous.rotated_at).getTime() : 0
+  if (now.getTime() - rotatedAt <= REFRESH_REUSE_GRACE_MS) {
+    return { session: previous, refreshToken: null }
+  }
+
+  // An old refresh token came back: assume it was stolen and end the session
+  console.warn(`Refresh token reuse detected for session ${previous.id} (user ${previous.user_id}); revoking`)
+  await withRetry(async () => {
+    return sessions.deleteOne({ jti: previous.jti })
+  })
+  return null
+}
+
+/**
+ * List a user's active sessions, most recently used first
+ */
+export async function listSessions(userId: number): Promise<Session[]> {
+  const sessions = await getCollection<Session>(Collections.SESSIONS)
+  return withRetry(async () => {
+    return sessions
+      .find({ user_id: userId, expires_at: { $gt: new Date() } })
+      .sort({ last_seen_at: -1 })
+      .toArray()
+  })
+}
+
+/**
+ * Revoke one of a user's sessions by its numeric ID
+ * Returns false when no such session belongs to the user
+ */
+export async function revokeSession(userId: number, sessionId: number): Promise<boolean> {
+  const sessions = await getCollection<Session>(Collections.SESSIONS)
+  const result = await withRetry(async () => {
+    return sessions.deleteOne({ id: sessionId, user_id: userId })
+  })
+  return result.deletedCount > 0
+}
+
+/**
+ * Revoke the session behind a specific token ID (used by logout)
+ */
+export async function revokeSessionByJti(jti: string): Promise<void> {
+  const sessions = await getCollection<Session>(Collections.SESSIONS)
+  await withRetry(async () => {
+    return sessions.deleteOne({ jti })
+  })
+}
+
+/**
+ * Revoke the session holding a refresh token (logout with an expired access token)
+ */
+export async function revokeSessionByRefreshToken(refreshToken: string): Promise<void> {
+  const sessions = await getCollection<Session>(Collections.SESSIONS)
+  const hash = hashRefreshToken(refreshToken)
+  await withRetry(async () => {
+    return sessions.deleteOne({ refresh_token_hash: hash })
+  })
+}
+
+/**
+ * Revoke every session of a user, optionally keeping the current one
+ * Returns the number of sessions revoked
+ */
+export async function revokeAllSessions(userId: number, exceptJti?: string): Promise<number> {
+  const sessions = await getCollection<Session>(Collections.SESSIONS)
+  const filter: any = { user_id: userId }
+  if (exceptJti) {
+    filter.jti = { $ne: exceptJti }
+  }
+
+  const result = await withRetry(async () => {
+    return sessions.deleteMany(filter)
+  })
+  return result.deletedCount
+}
@@ -13,16 +13,14 @@
  */
 
 import { ObjectId, Document, WithId, Collection } from 'mongodb'
-import { getDb, getCollection, Collections, User, withRetry } from './mongodb'
+import { getDb, getCollection, Collections, User, UserRole, withRetry } from './mongodb'
 
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
 
-/**
- * User role in the college ecosystem
- */
-export type UserRole = 'student' | 'faculty' | 'staff' | 'alumni'
+// User role in the college ecosystem (persisted on the user, see lib/roles.ts)
+export type { UserRole }
 
 /**
  * Interaction types that affect edge weight
@@ -327,17 +325,19 @@ export class SocialGraph {
         // Fetch user data for each follower
         const followerIds = edges.map(e => new ObjectId(e.sourceUserId.toString()))
         const users = await usersCollection
-            .find({ _id: { $in: followerIds } })
+            .find({ _id: { $in: followerIds }, is_deactivated: { $ne: true } })
             .toArray()
 
         // Map users by ID for quick lookup
         const userMap = new Map(users.map(u => [u._id!.toString(), u]))
 
-        // Combine user data with edge data
-        return edges.map(edge => ({
-            user: this.userToNode(userMap.get(edge.sourceUserId.toString())!),
-            edge,
-        })).filter(item => item.user) // Filter out any missing users
+        // Combine user data with edge data, skipping missing or deactivated users
+        return edges
+            .filter(edge => userMap.has(edge.sourceUserId.toString()))
+            .map(edge => ({
+                user: this.userToNode(userMap.get(edge.sourceUserId.toString())!),
+                edge,
+            }))
     }
 
     /**
@@ -368,17 +368,19 @@ export class SocialGraph {
         // Fetch user data for each followed user
         const followingIds = edges.map(e => new ObjectId(e.targetUserId.toString()))
         const users = await usersCollection
-            .find({ _id: { $in: followingIds } })
+            .find({ _id: { $in: followingIds }, is_deactivated: { $ne: true } })
             .toArray()
 
         // Map users by ID for quick lookup
         const userMap = new Map(users.map(u => [u._id!.toString(), u]))
 
-        // Combine user data with edge data
-        return edges.map(edge => ({
-            user: this.userToNode(userMap.get(edge.targetUserId.toString())!),
-            edge,
-        })).filter(item => item.user)
+        // Combine user data with edge data, skipping missing or deactivated users
+        return edges
+            .filter(edge => userMap.has(edge.targetUserId.toString()))
+            .map(edge => ({
+                user: this.userToNode(userMap.get(edge.targetUserId.toString())!),
+                edge,
+            }))
     }
 
     /**
@@ -508,23 +510,22 @@ export class SocialGraph {
         const increment = weightIncrements[interactionType]
         const countField = `interactionCounts.${interactionType}s` as const
 
-        // Update the edge with new interaction data
+        // Update the edge with new interaction data. A pipeline update, since
+        // $inc and $min can't both touch interactionWeight in one update
+        const now = new Date()
         await edgesCollection.updateOne(
             {
                 sourceUserId: new ObjectId(sourceUserId.toString()),
                 targetUserId: new ObjectId(targetUserId.toString()),
             },
-            {
-                $inc: {
-                    interactionWeight: increment,
-                    [countField]: 1,
-                },
+            [{
                 $set: {
-                    lastInteractionTimestamp: new Date(),
-                    updatedAt: new Date(),
+                    interactionWeight: { $min: [{ $add: ['$interactionWeight', increment] }, 1.0] }, // Cap at 1.0
+                    [countField]: { $add: [{ $ifNull: [`$${countField}`, 0] }, 1] },
+                    lastInteractionTimestamp: now,
+                    updatedAt: now,
                 },
-                $min: { interactionWeight: 1.0 }, // Cap at 1.0
-            }
+            }]
         )
 
         // Invalidate cache
@@ -603,7 +604,7 @@ export class SocialGraph {
 
         // Fetch user details for mutual connections
         const users = await usersCollection
-            .find({ _id: { $in: mutualIds } })
+            .find({ _id: { $in: mutualIds }, is_deactivated: { $ne: true } })
             .toArray()
 
         return users.map(u => this.userToNode(u))
@@ -646,7 +647,7 @@ export class SocialGraph {
 
         // Fetch user details
         const users = await usersCollection
-            .find({ _id: { $in: mutualIds } })
+            .find({ _id: { $in: mutualIds }, is_deactivated: { $ne: true } })
             .toArray()
 
         return users.map(u => this.userToNode(u))
@@ -744,7 +745,7 @@ export class SocialGraph {
         }
 
         const potentialUsers = await usersCollection
-            .find({ _id: { $in: potentialSuggestionIds } })
+            .find({ _id: { $in: potentialSuggestionIds }, is_deactivated: { $ne: true } })
             .toArray()
 
         // Score and filter suggestions
@@ -881,8 +882,10 @@ export class SocialGraph {
      * Infer user role from user document
      */
     private inferRole(user: User): UserRole {
-        // This could be enhanced based on your user schema
-        // Currently inferring from year field
+        // Verified roles win; otherwise guess from the year field
+        if (user.role) {
+            return user.role
+        }
         if (!user.year || user.year === 0) {
             return 'faculty'
         }
@@ -990,6 +993,18 @@ export class SocialGraph {
 // Export singleton instance for consistent usage across the application
 export const socialGraph = new SocialGraph()
 
+/**
+ * The graph keys users by their document _id; API routes know them by their
+ * numeric id. Null for users that don't exist.
+ */
+export async function getGraphUserId(userId: number): Promise<string | null> {
+    const users = await getCollection<User>(Collections.USERS)
+    const user = await withRetry(async () => {
+        return users.findOne({ id: userId }, { projection: { _id: 1 } })
+    })
+    return user ? user._id.toString() : null
+}
+
 // Initialize indexes on module load (in production)
 if (process.env.NODE_ENV === 'production') {
     socialGraph.initializeIndexes().catch(console.error)
@@ -0,0 +1,122 @@
+/**
+ * Stories and highlights (safe to import from client components)
+ *
+ * A story is a single image or video that's live for 24 hours, to the same
+ * people who may see its author's posts; after that a TTL index deletes it,
+ * unless it's pinned to one of the author's highlights, which keep stories on
+ * their profile until removed. Storage lives in lib/storyStorage.ts.
+ */
+
+export const STORY_LIFETIME_MS = 24 * 60 * 60 * 1000
+export const MAX_HIGHLIGHTS_PER_USER = 30
+export const MAX_HIGHLIGHT_TITLE_LENGTH = 30
+export const MAX_STORIES_PER_HIGHLIGHT = 100
+
+export interface StoryItem {
+  id: number
+  media_url: string
+  media_type: 'image' | 'video'
+  created_at: string
+  // Whether the viewer has watched it; always true for their own stories
+  viewed: boolean
+}
+
+export interface StoryAuthor {
+  id: number
+  name: string
+  username: string | null
+  profile_image: string | null
+}
+
+// One author's live stories, oldest first, as the tray plays them
+export interface StoryReel {
+  author: StoryAuthor
+  stories: StoryItem[]
+  has_unseen: boolean
+}
+
+export interface HighlightView {
+  id: number
+  title: string
+  // The first story stands in as the cover
+  cover_url: string | null
+  cover_type: 'image' | 'video' | null
+  story_count: number
+  stories: StoryItem[]
+}
+
+export interface StoryViewer {
+  id: number
+  name: string
+  username: string | null
+  profile_image: string | null
+  viewed_at: string
+}
+
+export function storyExpiresAt(createdAt: Date): Date {
+  return new Date(createdAt.getTime() + STORY_LIFETIME_MS)
+}
+
+// Stories posted since then are still live
+export function activeStorySince(now: Date = new Date()): Date {
+  return new Date(now.getTime() - STORY_LIFETIME_MS)
+}
+
+/**
+ * Whether the story is within its 24 hours. Highlighted stories outlive that
+ * but only show in their highlights.
+ */
+export function isStoryLive(story: { created_at: Date | string }, now: Date = new Date()): boolean {
+  return new Date(story.created_at).getTime() > activeStorySince(now).getTime()
+}
+
+/**
+ * Tray order: the viewer's own reel first, then reels with stories they
+ * haven't seen, each group by its latest story
+ */
+export function orderReels(reels: StoryReel[], viewerId: number | null): StoryReel[] {
+  const latest = (reel: StoryReel) => {
+    const last = reel.stories[reel.stories.length - 1]
+    return last ? new Date(last.created_at).getTime() : 0
+  }
+  return [...reels].sort((a, b) => {
+    const ownA = a.author.id === viewerId
+    const ownB = b.author.id === viewerId
+    if (ownA !== ownB) return ownA ? -1 : 1
+    if (a.has_unseen !== b.has_unseen) return a.has_unseen ? -1 : 1
+    return latest(b) - latest(a)
+  })
+}
+
+export function validateHighlightTitle(raw: unknown): { valid: boolean; title?: string; message?: string } {
+  const title = typeof raw === 'string' ? raw.trim().replace(/\s+/g, ' ') : ''
+  if (!title) {
+    return { valid: false, message: 'Highlight title is required' }
+  }
+  if (title.length > MAX_HIGHLIGHT_TITLE_LENGTH) {
+    return { valid: false, message: `Highlight title must be at most ${MAX_HIGHLIGHT_TITLE_LENGTH} characters` }
+  }
+  return { valid: true, title }
+}
+
+/**
+ * The story ids a highlight request names, deduplicated in the order given:
+ * at least one and at most MAX_STORIES_PER_HIGHLIGHT positive integers
+ */
+export function parseStoryIds(raw: unknown): { valid: boolean; ids?: number[]; message?: string } {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return { valid: false, message: 'Pick at least one story' }
+  }
+  const ids: number[] = []
+  for (const value of raw) {
+    const id = typeof value === 'string' ? Number(value) : value
+    if (typeof id !== 'number' || !Number.isInteger(id) || id <= 0) {
+      return { valid: false, message: 'Invalid story id' }
+    }
+    if (!ids.includes(id)) ids.push(id)
+  }
+  if (ids.length > MAX_STORIES_PER_HIGHLIGHT) {
+    return { valid: false, message: `A highlight can hold at most ${MAX_STORIES_PER_HIGHLIGHT} stories` }
+  }
+  return { valid: true, ids }
+}
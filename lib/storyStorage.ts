@@ -0,0 +1,387 @@
+/**
+ * Storage for stories, who watched them and profile highlights
+ *
+ * Stories carry an `expires_at` 24 hours out that a TTL index deletes them
+ * at. Pinning a story to a highlight clears it, and taking the story out of
+ * its last highlight puts it back, so a story that's past its 24 hours by
+ * then goes on the TTL monitor's next pass. Who may watch follows the
+ * author's posts: see findHiddenAuthors in lib/postViews.ts.
+ */
+
+import type { WithId } from 'mongodb'
+import {
+  getCollection,
+  getNextSequenceValue,
+  withRetry,
+  Collections,
+  Follower,
+  Story,
+  StoryHighlight,
+  StoryView,
+  User,
+} from './mongodb'
+import { ACTIVE_USER_FILTER } from './accountStatus'
+import { findHiddenAuthors } from './postViews'
+import {
+  activeStorySince,
+  orderReels,
+  storyExpiresAt,
+  HighlightView,
+  StoryAuthor,
+  StoryItem,
+  StoryReel,
+  StoryViewer,
+  MAX_HIGHLIGHTS_PER_USER,
+  STORY_LIFETIME_MS,
+} from './stories'
+
+function toStoryItem(story: Story, viewed: boolean): StoryItem {
+  return {
+    id: story.id,
+    media_url: story.media_url,
+    media_type: story.media_type,
+    created_at: story.created_at.toISOString(),
+    viewed,
+  }
+}
+
+function toStoryAuthor(user: User): StoryAuthor {
+  return {
+    id: user.id as number,
+    name: user.name,
+    username: user.username || null,
+    profile_image: user.profile_image || null,
+  }
+}
+
+export async function createStory(userId: number, mediaUrl: string, mediaType: 'image' | 'video'): Promise<Story> {
+  const stories = await getCollection<Story>(Collections.STORIES)
+  const createdAt = new Date()
+  const story: Story = {
+    id: await getNextSequenceValue('stories'),
+    user_id: userId,
+    media_url: mediaUrl,
+    media_type: mediaType,
+    created_at: createdAt,
+    expires_at: storyExpiresAt(createdAt),
+  }
+  await withRetry(async () => {
+    return stories.insertOne(story as any)
+  })
+  return story
+}
+
+// The TTL monitor only runs once a minute, so expired stories can linger;
+// pinned ones have no `expires_at` and stay
+export async function findStory(storyId: number): Promise<WithId<Story> | null> {
+  const stories = await getCollection<Story>(Collections.STORIES)
+  return withRetry(async () => {
+    return stories.findOne({
+      id: storyId,
+      $or: [{ expires_at: { $exists: false } }, { expires_at: { $gt: new Date() } }],
+    })
+  })
+}
+
+// Stories follow their author's posts: hidden across blocks, from deactivated
+// accounts and from people who don't follow a private account
+export async function canViewStoriesOf(viewerId: number | null, authorId: number): Promise<boolean> {
+  const { hidden } = await findHiddenAuthors([authorId], viewerId)
+  return !hidden.has(authorId)
+}
+
+async function findViewedStoryIds(viewerId: number | null, storyIds: number[]): Promise<Set<number>> {
+  if (!viewerId || storyIds.length === 0) return new Set()
+  const storyViews = await getCollection<StoryView>(Collections.STORY_VIEWS)
+  const views = await withRetry(async () => {
+    return storyViews
+      .find({ viewer_id: viewerId, story_id: { $in: storyIds } })
+      .project<Pick<StoryView, 'story_id'>>({ story_id: 1 })
+      .toArray()
+  })
+  return new Set(views.map(view => view.story_id))
+}
+
+/**
+ * Live stories grouped into one reel per author, each marked seen or not
+ * for the viewer; the viewer's own stories always count as seen
+ */
+async function buildReels(storyList: Story[], authors: Map<number, User>, viewerId: number | null): Promise<StoryReel[]> {
+  const viewed = await findViewedStoryIds(viewerId, storyList.map(story => story.id))
+  const reels = new Map<number, StoryReel>()
+  for (const story of storyList) {
+    const author = authors.get(story.user_id)
+    if (!author) continue
+    let reel = reels.get(story.user_id)
+    if (!reel) {
+      reel = { author: toStoryAuthor(author), stories: [], has_unseen: false }
+      reels.set(story.user_id, reel)
+    }
+    const seen = story.user_id === viewerId || viewed.has(story.id)
+    reel.stories.push(toStoryItem(story, seen))
+    if (!seen) reel.has_unseen = true
+  }
+  return orderReels([...reels.values()], viewerId)
+}
+
+/**
+ * The stories tray above the home feed: live stories from the viewer and
+ * everyone they follow
+ */
+export async function getStoryTray(viewerId: number): Promise<StoryReel[]> {
+  const followers = await getCollection<Follower>(Collections.FOLLOWERS)
+  const stories = await getCollection<Story>(Collections.STORIES)
+
+  const follows = await withRetry(async () => {
+    return followers.find({ follower_id: viewerId }).project<Pick<Follower, 'following_id'>>({ following_id: 1 }).toArray()
+  })
+  const authorIds = [viewerId, ...follows.map(follow => follow.following_id as number)]
+
+  const live = await withRetry(async () => {
+    return stories
+      .find({ user_id: { $in: authorIds }, created_at: { $gt: activeStorySince() } })
+      .sort({ created_at: 1 })
+      .toArray()
+  })
+  const { hidden, authors } = await findHiddenAuthors(live.map(story => story.user_id), viewerId)
+  return buildReels(live.filter(story => !hidden.has(story.user_id)), authors, viewerId)
+}
+
+// One author's live stories, or null if there are none the viewer may watch
+export async function getUserStories(authorId: number, viewerId: number | null): Promise<StoryReel | null> {
+  const { hidden, authors } = await findHiddenAuthors([authorId], viewerId)
+  if (hidden.has(authorId)) return null
+
+  const stories = await getCollection<Story>(Collections.STORIES)
+  const live = await withRetry(async () => {
+    return stories
+      .find({ user_id: authorId, created_at: { $gt: activeStorySince() } })
+      .sort({ created_at: 1 })
+      .toArray()
+  })
+  const [reel] = await buildReels(live, authors, viewerId)
+  return reel || null
+}
+
+// Authors watching their own stories aren't counted
+export async function recordStoryView(story: Story, viewerId: number): Promise<void> {
+  if (story.user_id === viewerId) return
+  const storyViews = await getCollection<StoryView>(Collections.STORY_VIEWS)
+  try {
+    await withRetry(async () => {
+      return storyViews.updateOne(
+        { story_id: story.id, viewer_id: viewerId },
+        { $setOnInsert: { story_id: story.id, viewer_id: viewerId, viewed_at: new Date() } },
+        { upsert: true }
+      )
+    })
+  } catch (error: any) {
+    // Watched twice at once; the unique index kept the first
+    if (error?.code !== 11000) throw error
+  }
+}
+
+// Who watched a story, most recent first; deactivated accounts are left out
+export async function getStoryViewers(storyId: number): Promise<StoryViewer[]> {
+  const storyViews = await getCollection<StoryView>(Collections.STORY_VIEWS)
+  const users = await getCollection<User>(Collections.USERS)
+
+  const views = await withRetry(async () => {
+    return storyViews.find({ story_id: storyId }).sort({ viewed_at: -1 }).toArray()
+  })
+  const viewers = await withRetry(async () => {
+    return users.find({ id: { $in: views.map(view => view.viewer_id) }, ...ACTIVE_USER_FILTER }).toArray()
+  })
+  const viewerMap = new Map(viewers.map(viewer => [viewer.id as number, viewer]))
+
+  return views.flatMap(view => {
+    const viewer = viewerMap.get(view.viewer_id)
+    return viewer ? [{ ...toStoryAuthor(viewer), viewed_at: view.viewed_at.toISOString() }] : []
+  })
+}
+
+/**
+ * Delete one of the user's stories, taking it out of their highlights (and
+ * dropping highlights it leaves empty). Returns false if it wasn't theirs.
+ */
+export async function deleteStory(userId: number, storyId: number): Promise<boolean> {
+  const stories = await getCollection<Story>(Collections.STORIES)
+  const storyViews = await getCollection<StoryView>(Collections.STORY_VIEWS)
+  const highlights = await getCollection<StoryHighlight>(Collections.STORY_HIGHLIGHTS)
+
+  const result = await withRetry(async () => {
+    return stories.deleteOne({ id: storyId, user_id: userId })
+  })
+  if (result.deletedCount === 0) return false
+
+  await withRetry(async () => {
+    return Promise.all([
+      storyViews.deleteMany({ story_id: storyId }),
+      highlights.updateMany({ user_id: userId, story_ids: storyId }, { $pull: { story_ids: storyId } }),
+    ])
+  })
+  await withRetry(async () => {
+    return highlights.deleteMany({ user_id: userId, story_ids: { $size: 0 } })
+  })
+  return true
+}
+
+/**
+ * Every story the user still has, newest first: live ones and those kept by
+ * highlights. What they can pick from when making a highlight.
+ */
+export async function listOwnStories(userId: number): Promise<StoryItem[]> {
+  const stories = await getCollection<Story>(Collections.STORIES)
+  const own = await withRetry(async () => {
+    return stories.find({ user_id: userId }).sort({ created_at: -1 }).toArray()
+  })
+  return own.map(story => toStoryItem(story, true))
+}
+
+/**
+ * The user's highlights, oldest first, with their stories in the order they
+ * were picked. Stories since deleted are skipped.
+ */
+export async function listHighlights(ownerId: number, viewerId: number | null): Promise<HighlightView[]> {
+  const highlights = await getCollection<StoryHighlight>(Collections.STORY_HIGHLIGHTS)
+  const stories = await getCollection<Story>(Collections.STORIES)
+
+  const list = await withRetry(async () => {
+    return highlights.find({ user_id: ownerId }).sort({ created_at: 1 }).toArray()
+  })
+  const storyIds = [...new Set(list.flatMap(highlight => highlight.story_ids))]
+  const [pinned, viewed] = await Promise.all([
+    withRetry(async () => {
+      return stories.find({ id: { $in: storyIds }, user_id: ownerId }).toArray()
+    }),
+    ownerId === viewerId ? Promise.resolve(new Set(storyIds)) : findViewedStoryIds(viewerId, storyIds),
+  ])
+  const storyMap = new Map(pinned.map(story => [story.id, story]))
+
+  return list.flatMap(highlight => {
+    const items = highlight.story_ids.flatMap(id => {
+      const story = storyMap.get(id)
+      return story ? [toStoryItem(story, viewed.has(id))] : []
+    })
+    if (items.length === 0) return []
+    return [{
+      id: highlight.id,
+      title: highlight.title,
+      cover_url: items[0].media_url,
+      cover_type: items[0].media_type,
+      story_count: items.length,
+      stories: items,
+    }]
+  })
+}
+
+// Whether every one of the ids is a story the user still has
+async function ownsStories(userId: number, storyIds: number[]): Promise<boolean> {
+  const stories = await getCollection<Story>(Collections.STORIES)
+  const count = await withRetry(async () => {
+    return stories.countDocuments({ id: { $in: storyIds }, user_id: userId })
+  })
+  return count === storyIds.length
+}
+
+// Pinned stories no longer expire
+async function pinStories(storyIds: number[]): Promise<void> {
+  if (storyIds.length === 0) return
+  const stories = await getCollection<Story>(Collections.STORIES)
+  await withRetry(async () => {
+    return stories.updateMany({ id: { $in: storyIds } }, { $unset: { expires_at: '' } })
+  })
+}
+
+/**
+ * Stories taken out of a highlight expire again 24 hours after they were
+ * posted, unless another of the user's highlights still holds them
+ */
+async function releaseStories(userId: number, storyIds: number[]): Promise<void> {
+  if (storyIds.length === 0) return
+  const highlights = await getCollection<StoryHighlight>(Collections.STORY_HIGHLIGHTS)
+  const stories = await getCollection<Story>(Collections.STORIES)
+
+  const stillPinned = await withRetry(async () => {
+    return highlights.distinct('story_ids', { user_id: userId, story_ids: { $in: storyIds } })
+  })
+  const released = storyIds.filter(id => !stillPinned.includes(id))
+  if (released.length === 0) return
+  await withRetry(async () => {
+    return stories.updateMany(
+      { id: { $in: released } },
+      [{ $set: { expires_at: { $add: ['$created_at', STORY_LIFETIME_MS] } } }]
+    )
+  })
+}
+
+export type HighlightSaveResult =
+  | { highlight: StoryHighlight }
+  | { error: 'not_found' | 'stories_not_found' | 'limit_reached' }
+
+export async function createHighlight(userId: number, title: string, storyIds: number[]): Promise<HighlightSaveResult> {
+  const highlights = await getCollection<StoryHighlight>(Collections.STORY_HIGHLIGHTS)
+
+  const count = await withRetry(async () => {
+    return highlights.countDocuments({ user_id: userId })
+  })
+  if (count >= MAX_HIGHLIGHTS_PER_USER) return { error: 'limit_reached' }
+  if (!(await ownsStories(userId, storyIds))) return { error: 'stories_not_found' }
+
+  const highlight: StoryHighlight = {
+    id: await getNextSequenceValue('story_highlights'),
+    user_id: userId,
+    title,
+    story_ids: storyIds,
+    created_at: new Date(),
+  }
+  await withRetry(async () => {
+    return highlights.insertOne(highlight as any)
+  })
+  await pinStories(storyIds)
+  return { highlight }
+}
+
+// Rename a highlight and/or replace the stories it holds
+export async function updateHighlight(
+  userId: number,
+  highlightId: number,
+  changes: { title?: string; storyIds?: number[] }
+): Promise<HighlightSaveResult> {
+  const highlights = await getCollection<StoryHighlight>(Collections.STORY_HIGHLIGHTS)
+
+  const existing = await withRetry(async () => {
+    return highlights.findOne({ id: highlightId, user_id: userId })
+  })
+  if (!existing) return { error: 'not_found' }
+  if (changes.storyIds && !(await ownsStories(userId, changes.storyIds))) return { error: 'stories_not_found' }
+
+  const update: Partial<StoryHighlight> = { updated_at: new Date() }
+  if (changes.title !== undefined) update.title = changes.title
+  if (changes.storyIds) update.story_ids = changes.storyIds
+
+  const updated = await withRetry(async () => {
+    return highlights.findOneAndUpdate(
+      { id: highlightId, user_id: userId },
+      { $set: update },
+      { returnDocument: 'after' }
+    )
+  })
+  if (!updated) return { error: 'not_found' }
+
+  if (changes.storyIds) {
+    await pinStories(changes.storyIds)
+    await releaseStories(userId, existing.story_ids.filter(id => !changes.storyIds!.includes(id)))
+  }
+  return { highlight: updated }
+}
+
+export async function deleteHighlight(userId: number, highlightId: number): Promise<boolean> {
+  const highlights = await getCollection<StoryHighlight>(Collections.STORY_HIGHLIGHTS)
+  const deleted = await withRetry(async () => {
+    return highlights.findOneAndDelete({ id: highlightId, user_id: userId })
+  })
+  if (!deleted) return false
+  await releaseStories(userId, deleted.story_ids)
+  return true
+}
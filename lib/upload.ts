@@ -24,7 +24,7 @@ const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp
 const ALLOWED_VIDEO_TYPES = ['video/mp4', 'video/quicktime', 'video/webm']
 const ALLOWED_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.gif', '.webp', '.mp4', '.mov', '.webm']
 
-export async function parseForm(req: NextApiRequest): Promise<{
+export async function parseForm(req: NextApiRequest, options: { maxFiles?: number } = {}): Promise<{
   fields: formidable.Fields
   files: formidable.Files
 }> {
@@ -47,12 +47,16 @@ export async function parseForm(req: NextApiRequest): Promise<{
     console.warn('Failed to create upload subdirectory, falling back to os.tmpdir():', e)
   }
 
+  const maxFiles = options.maxFiles ?? 1
+  const maxFileSize = 10 * 1024 * 1024 // 10MB per file
+
   const form = formidable({
     uploadDir: fs.existsSync(uploadDir) ? uploadDir : os.tmpdir(),
     keepExtensions: true,
-    maxFileSize: 10 * 1024 * 1024, // 10MB limit
-    maxFiles: 1, // Only allow single file uploads
-    multiples: false,
+    maxFileSize,
+    // formidable caps the whole request at maxFileSize unless told otherwise
+    maxTotalFileSize: maxFileSize * maxFiles,
+    maxFiles,
     allowEmptyFiles: false,
     // Explicitly disable JSON parsing - we only want multipart form data
     hashAlgorithm: false,
@@ -86,7 +90,9 @@ export async function parseForm(req: NextApiRequest): Promise<{
         } else if (err.message?.includes('maxFileSize')) {
           reject(new Error('File upload failed: File size exceeds 10MB limit'))
         } else if (err.message?.includes('maxFiles')) {
-          reject(new Error('File upload failed: Only one file upload is allowed'))
+          reject(new Error(maxFiles === 1
+            ? 'File upload failed: Only one file upload is allowed'
+            : `File upload failed: At most ${maxFiles} files are allowed`))
         } else {
           reject(new Error('File upload failed: ' + err.message))
         }
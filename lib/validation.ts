@@ -268,6 +268,18 @@ export function validatePrivacySettings(settings: any): { valid: boolean; error?
       return { valid: false, error: 'who_can_comment must be "everyone" or "followers"' }
     }
   }
+
+  // Validate who_can_tag
+  if (settings.who_can_tag !== undefined) {
+    if (!['everyone', 'followers', 'no_one'].includes(settings.who_can_tag)) {
+      return { valid: false, error: 'who_can_tag must be "everyone", "followers" or "no_one"' }
+    }
+  }
+
+  // Validate allow_reposts
+  if (settings.allow_reposts !== undefined && typeof settings.allow_reposts !== 'boolean') {
+    return { valid: false, error: 'allow_reposts must be a boolean' }
+  }
   
   return { valid: true }
 }
@@ -0,0 +1,40 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { requirePermission } from '../../../../lib/permissions'
+import { reviewRoleRequest } from '../../../../lib/roleRequests'
+
+// Approve or reject a pending role request
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const requestId = parseInt(String(req.query.requestId))
+  if (Number.isNaN(requestId)) {
+    return res.status(400).json({ error: 'Invalid request id' })
+  }
+
+  try {
+    const actor = await requirePermission(req, res, 'review_roles')
+    if (!actor) return
+
+    const { decision, note } = req.body || {}
+    if (decision !== 'approve' && decision !== 'reject') {
+      return res.status(400).json({ error: 'Decision must be approve or reject' })
+    }
+
+    const reviewed = await reviewRoleRequest(
+      requestId,
+      actor.userId,
+      decision === 'approve' ? 'approved' : 'rejected',
+      typeof note === 'string' ? note : undefined
+    )
+    if (!reviewed) {
+      return res.status(404).json({ error: 'Request not found or already reviewed' })
+    }
+
+    res.status(200).json({ id: reviewed.id, status: reviewed.status })
+  } catch (error) {
+    console.error('Review role request error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+}
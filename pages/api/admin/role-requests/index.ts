@@ -0,0 +1,64 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getCollection, withRetry, Collections, User } from '../../../../lib/mongodb'
+import { requirePermission } from '../../../../lib/permissions'
+import { listRoleRequests } from '../../../../lib/roleRequests'
+import { getUserRole } from '../../../../lib/roles'
+
+const STATUSES = ['pending', 'approved', 'rejected'] as const
+
+// Role verification queue for admins
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const actor = await requirePermission(req, res, 'review_roles')
+    if (!actor) return
+
+    const statusParam = typeof req.query.status === 'string' ? req.query.status : 'pending'
+    const status = (STATUSES as readonly string[]).includes(statusParam) ? statusParam as typeof STATUSES[number] : 'pending'
+
+    const requests = await listRoleRequests(status)
+
+    const userIds = [...new Set(requests.map(r => r.user_id))]
+    const users = await getCollection<User>(Collections.USERS)
+    const requestUsers = userIds.length > 0
+      ? await withRetry(async () => {
+          return users
+            .find({ id: { $in: userIds } as any }, { projection: { id: 1, name: 1, college_id: 1, email: 1, department: 1, year: 1, profile_image: 1, role: 1 } })
+            .toArray()
+        })
+      : []
+    const userMap = new Map(requestUsers.map(u => [u.id, u]))
+
+    res.setHeader('Cache-Control', 'private, no-store')
+    res.status(200).json({
+      requests: requests.map((request) => {
+        const user = userMap.get(request.user_id)
+        return {
+          id: request.id,
+          requested_role: request.requested_role,
+          note: request.note || null,
+          status: request.status,
+          created_at: request.created_at,
+          reviewed_at: request.reviewed_at || null,
+          review_note: request.review_note || null,
+          user: user ? {
+            id: user.id,
+            name: user.name,
+            college_id: user.college_id,
+            email: user.email || null,
+            department: user.department,
+            year: user.year,
+            profile_image: user.profile_image || null,
+            role: getUserRole(user),
+          } : null,
+        }
+      })
+    })
+  } catch (error) {
+    console.error('List role requests error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+}
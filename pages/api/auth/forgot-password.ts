@@ -1,7 +1,7 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { getCollection, withRetry, Collections, User, PasswordReset, getNextSequenceValue } from '../../../lib/mongodb';
 import crypto from 'crypto';
-import nodemailer from 'nodemailer';
+import { queueEmail, getAppUrl } from '../../../lib/mailer';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -51,52 +51,15 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
 
     // Create reset URL
-    const resetUrl = `${process.env.NEXTAUTH_URL || 'http://localhost:3000'}/reset-password?token=${resetToken}`;
+    const resetUrl = `${getAppUrl()}/reset-password?token=${resetToken}`;
 
-    // Configure email transporter (you'll need to set up your email service)
-    const transporter = nodemailer.createTransport({
-      // For development, you can use a service like Ethereal Email or Gmail
-      host: process.env.SMTP_HOST || 'smtp.gmail.com',
-      port: 587,
-      secure: false,
-      auth: {
-        user: process.env.SMTP_USER,
-        pass: process.env.SMTP_PASS
-      }
+    // Queued so delivery retries don't hold up (or reveal anything through) the response
+    queueEmail(user.email || email, 'password_reset', {
+      name: user.name,
+      resetUrl,
+      expiresInMinutes: 60
     });
 
-    // Email content
-    const mailOptions = {
-      from: process.env.FROM_EMAIL || 'noreply@university.edu',
-      to: email,
-      subject: 'Password Reset Request - UNIX Social Network',
-      html: `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <h2 style="color: #FFAF50;">Password Reset Request</h2>
-          <p>Hello ${user.name},</p>
-          <p>We received a request to reset your password for your UNIX account.</p>
-          <p>Click the button below to reset your password:</p>
-          <a href="${resetUrl}" style="display: inline-block; background-color: #FFAF50; color: black; padding: 12px 24px; text-decoration: none; border-radius: 8px; font-weight: bold; margin: 16px 0;">Reset Password</a>
-          <p>Or copy and paste this link into your browser:</p>
-          <p style="word-break: break-all; color: #666;">${resetUrl}</p>
-          <p><strong>This link will expire in 1 hour.</strong></p>
-          <p>If you didn't request this password reset, please ignore this email.</p>
-          <hr style="margin: 24px 0; border: 1px solid #eee;">
-          <p style="color: #666; font-size: 12px;">UNIX - College Social Network</p>
-        </div>
-      `
-    };
-
-    // Send email (in development, you might want to just log the reset URL)
-    if (process.env.NODE_ENV === 'development') {
-      console.log('=== PASSWORD RESET EMAIL ===');
-      console.log(`To: ${email}`);
-      console.log(`Reset URL: ${resetUrl}`);
-      console.log('===========================');
-    } else {
-      await transporter.sendMail(mailOptions);
-    }
-
     return res.status(200).json({ 
       message: 'If this email exists in our system, you will receive a password reset link.',
       // In development, include the reset URL for testing
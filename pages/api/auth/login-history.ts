@@ -0,0 +1,34 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getUserFromRequest } from '../../../lib/auth'
+import { listLoginHistory } from '../../../lib/loginSecurity'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const auth = await getUserFromRequest(req)
+    if (!auth) {
+      return res.status(401).json({ error: 'Unauthorized' })
+    }
+
+    const history = await listLoginHistory(auth.userId)
+
+    res.setHeader('Cache-Control', 'no-store')
+    res.status(200).json({
+      history: history.map(entry => ({
+        id: entry.id,
+        device: entry.device,
+        ip: entry.ip,
+        success: entry.success,
+        reason: entry.reason || null,
+        new_device: !!entry.new_device,
+        created_at: entry.created_at,
+      }))
+    })
+  } catch (error) {
+    console.error('Login history error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -1,6 +1,14 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { getCollection, withRetry, Collections, User, serializeDoc } from '../../../lib/mongodb'
-import { verifyPassword, generateToken } from '../../../lib/auth'
+import { verifyPassword, createSessionToken, generateMfaPendingToken } from '../../../lib/auth'
+import { reactivateAccount } from '../../../lib/accountStatus'
+import {
+  checkLoginThrottle,
+  recordFailedLogin,
+  recordFailedLoginHistory,
+  clearFailedLogins,
+  recordSuccessfulLogin
+} from '../../../lib/loginSecurity'
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -10,7 +18,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   try {
     const { college_id, password } = req.body
 
-    if (!college_id || !password) {
+    if (!college_id || !password || typeof college_id !== 'string' || typeof password !== 'string') {
       return res.status(400).json({ error: 'College ID and password are required' })
     }
 
@@ -20,26 +28,68 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return users.findOne({ college_id })
     })
 
+    // Per-account throttle: progressive delays, then a temporary lockout
+    const throttle = await checkLoginThrottle(college_id)
+    if (!throttle.allowed) {
+      const retryAfterSeconds = Math.ceil(throttle.retryAfterMs / 1000)
+      res.setHeader('Retry-After', retryAfterSeconds.toString())
+
+      if (throttle.locked) {
+        if (user) {
+          await recordFailedLoginHistory(req, user.id as number, 'locked')
+        }
+        return res.status(429).json({
+          error: `Too many failed attempts. Try again in ${Math.ceil(retryAfterSeconds / 60)} minute(s).`,
+          retry_after: retryAfterSeconds
+        })
+      }
+
+      return res.status(429).json({
+        error: `Please wait ${retryAfterSeconds} second(s) before trying again.`,
+        retry_after: retryAfterSeconds
+      })
+    }
+
     if (!user) {
+      await recordFailedLogin(college_id)
       return res.status(401).json({ error: 'Invalid credentials' })
     }
 
     // Verify password
     const isValidPassword = await verifyPassword(password, user.password_hash)
     if (!isValidPassword) {
+      await recordFailedLogin(college_id)
+      await recordFailedLoginHistory(req, user.id as number, 'bad_password')
       return res.status(401).json({ error: 'Invalid credentials' })
     }
 
-    // Generate token
+    // With 2FA on, the password alone only earns a pending token for the code step;
+    // failures are cleared once the code is right too
+    if (user.mfa_enabled) {
+      return res.status(200).json({
+        mfa_required: true,
+        mfa_token: generateMfaPendingToken(user.id as number),
+        message: 'Enter the code from your authenticator app'
+      })
+    }
+
+    await clearFailedLogins(college_id)
+
+    // Generate token and register the session for this device
     const userId = user.id || user._id?.toString()
-    const token = generateToken(userId as any)
+    const token = await createSessionToken(userId as any, req, res)
+    await recordSuccessfulLogin(req, res, user)
+
+    // Logging in reactivates a deactivated account and cancels any pending deletion
+    const reactivation = await reactivateAccount(user)
 
     // Return user data without password
-    const { password_hash: _, ...userWithoutPassword } = serializeDoc(user)
+    const { password_hash: _, ...userWithoutPassword } = serializeDoc(reactivation?.user ?? user)
 
     res.status(200).json({
       user: userWithoutPassword,
       token,
+      ...(reactivation && { reactivated: true, deletion_cancelled: reactivation.deletionCancelled }),
       message: 'Login successful'
     })
   } catch (error) {
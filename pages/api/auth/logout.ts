@@ -0,0 +1,30 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getUserFromRequest, getRefreshTokenFromRequest, clearRefreshCookie } from '../../../lib/auth'
+import { revokeSessionByJti, revokeSessionByRefreshToken } from '../../../lib/sessions'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const auth = await getUserFromRequest(req)
+
+    // Already signed out (or revoked elsewhere) is still a successful logout
+    if (auth) {
+      await revokeSessionByJti(auth.jti)
+    } else {
+      // The access token may simply have expired; the refresh cookie still identifies the session
+      const refreshToken = getRefreshTokenFromRequest(req)
+      if (refreshToken) {
+        await revokeSessionByRefreshToken(refreshToken)
+      }
+    }
+
+    clearRefreshCookie(res)
+    res.status(200).json({ message: 'Logged out successfully' })
+  } catch (error) {
+    console.error('Logout error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+}
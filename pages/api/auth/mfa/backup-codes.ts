@@ -0,0 +1,35 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getUserFromRequest, rateLimitMiddleware } from '../../../../lib/auth'
+import { reauthenticateForMfa, regenerateBackupCodes } from '../../../../lib/mfa'
+
+// Replace the backup codes; the old set stops working immediately
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const auth = await getUserFromRequest(req)
+    if (!auth) {
+      return res.status(401).json({ error: 'Unauthorized' })
+    }
+
+    const { allowed } = await rateLimitMiddleware(`mfa-manage:${auth.userId}`, 5, 300)
+    if (!allowed) {
+      return res.status(429).json({ error: 'Too many attempts. Please try again later.' })
+    }
+
+    const { password, code } = req.body || {}
+    const failure = await reauthenticateForMfa(req, auth.userId, password, code)
+    if (failure) {
+      return res.status(failure.status).json({ error: failure.error })
+    }
+
+    const backupCodes = await regenerateBackupCodes(auth.userId)
+    res.setHeader('Cache-Control', 'no-store')
+    res.status(200).json({ backup_codes: backupCodes })
+  } catch (error) {
+    console.error('MFA backup codes error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -0,0 +1,34 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getUserFromRequest, rateLimitMiddleware } from '../../../../lib/auth'
+import { reauthenticateForMfa, disableMfa } from '../../../../lib/mfa'
+
+// Turning 2FA off requires the current password and a TOTP or backup code
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const auth = await getUserFromRequest(req)
+    if (!auth) {
+      return res.status(401).json({ error: 'Unauthorized' })
+    }
+
+    const { allowed } = await rateLimitMiddleware(`mfa-manage:${auth.userId}`, 5, 300)
+    if (!allowed) {
+      return res.status(429).json({ error: 'Too many attempts. Please try again later.' })
+    }
+
+    const { password, code } = req.body || {}
+    const failure = await reauthenticateForMfa(req, auth.userId, password, code)
+    if (failure) {
+      return res.status(failure.status).json({ error: failure.error })
+    }
+
+    await disableMfa(auth.userId)
+    res.status(200).json({ enabled: false, message: 'Two-factor authentication has been disabled' })
+  } catch (error) {
+    console.error('MFA disable error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+}
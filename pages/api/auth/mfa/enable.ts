@@ -0,0 +1,37 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getUserFromRequest } from '../../../../lib/auth'
+import { confirmMfaEnrollment } from '../../../../lib/mfa'
+
+// Finish enrollment with a code from the app; the backup codes are only ever returned here
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const auth = await getUserFromRequest(req)
+    if (!auth) {
+      return res.status(401).json({ error: 'Unauthorized' })
+    }
+
+    const { code } = req.body || {}
+    if (!code || typeof code !== 'string') {
+      return res.status(400).json({ error: 'Authentication code is required' })
+    }
+
+    const backupCodes = await confirmMfaEnrollment(auth.userId, code)
+    if (!backupCodes) {
+      return res.status(400).json({ error: 'Invalid or expired code. Please try again.' })
+    }
+
+    res.setHeader('Cache-Control', 'no-store')
+    res.status(200).json({
+      enabled: true,
+      backup_codes: backupCodes,
+      message: 'Two-factor authentication is now enabled'
+    })
+  } catch (error) {
+    console.error('MFA enable error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+}
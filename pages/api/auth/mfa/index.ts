@@ -0,0 +1,23 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getUserFromRequest } from '../../../../lib/auth'
+import { getMfaStatus } from '../../../../lib/mfa'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const auth = await getUserFromRequest(req)
+    if (!auth) {
+      return res.status(401).json({ error: 'Unauthorized' })
+    }
+
+    const status = await getMfaStatus(auth.userId)
+    res.setHeader('Cache-Control', 'no-store')
+    res.status(200).json(status)
+  } catch (error) {
+    console.error('MFA status error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -0,0 +1,48 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import QRCode from 'qrcode'
+import { getCollection, withRetry, Collections, User } from '../../../../lib/mongodb'
+import { getUserFromRequest } from '../../../../lib/auth'
+import { startMfaEnrollment, getMfaStatus } from '../../../../lib/mfa'
+import { buildOtpauthUri } from '../../../../lib/totp'
+
+// Begin enrollment: returns the provisioning URI (and a QR image of it) for the authenticator app
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const auth = await getUserFromRequest(req)
+    if (!auth) {
+      return res.status(401).json({ error: 'Unauthorized' })
+    }
+
+    const status = await getMfaStatus(auth.userId)
+    if (status.enabled) {
+      return res.status(400).json({ error: 'Two-factor authentication is already enabled' })
+    }
+
+    const users = await getCollection<User>(Collections.USERS)
+    const user = await withRetry(async () => {
+      return users.findOne({ id: auth.userId })
+    })
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' })
+    }
+
+    const secret = await startMfaEnrollment(auth.userId)
+    const otpauthUrl = buildOtpauthUri(secret, user.username || user.email || user.college_id)
+    const qrCode = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 200 })
+
+    res.setHeader('Cache-Control', 'no-store')
+    res.status(200).json({
+      secret,
+      otpauth_url: otpauthUrl,
+      qr_code: qrCode,
+    })
+  } catch (error) {
+    console.error('MFA setup error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -0,0 +1,93 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getCollection, withRetry, Collections, User, serializeDoc } from '../../../../lib/mongodb'
+import { createSessionToken, verifyMfaPendingToken, rateLimitMiddleware } from '../../../../lib/auth'
+import { verifyMfaCode } from '../../../../lib/mfa'
+import {
+  checkLoginThrottle,
+  recordFailedLogin,
+  recordFailedLoginHistory,
+  clearFailedLogins,
+  recordSuccessfulLogin
+} from '../../../../lib/loginSecurity'
+import { reactivateAccount } from '../../../../lib/accountStatus'
+
+// Second login step: exchange the pending token and a TOTP/backup code for a session
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const { mfa_token, code } = req.body || {}
+
+    const userId = verifyMfaPendingToken(mfa_token)
+    if (!userId) {
+      return res.status(401).json({ error: 'Your sign-in attempt expired. Please log in again.' })
+    }
+
+    // Six digits are guessable without a tight per-account limit
+    const { allowed, remaining, resetTime } = await rateLimitMiddleware(`mfa-verify:${userId}`, 5, 300)
+
+    res.setHeader('X-RateLimit-Limit', '5')
+    res.setHeader('X-RateLimit-Remaining', remaining.toString())
+    res.setHeader('X-RateLimit-Reset', new Date(resetTime).toISOString())
+
+    if (!allowed) {
+      return res.status(429).json({ error: 'Too many attempts. Please try again later.' })
+    }
+
+    const users = await getCollection<User>(Collections.USERS)
+    const user = await withRetry(async () => {
+      return users.findOne({ id: userId })
+    })
+
+    if (!user) {
+      return res.status(401).json({ error: 'Invalid authentication code' })
+    }
+
+    // Wrong codes share the password throttle, so a known password doesn't
+    // leave the code open to guessing
+    const throttle = await checkLoginThrottle(user.college_id)
+    if (!throttle.allowed) {
+      const retryAfterSeconds = Math.ceil(throttle.retryAfterMs / 1000)
+      res.setHeader('Retry-After', retryAfterSeconds.toString())
+
+      if (throttle.locked) {
+        await recordFailedLoginHistory(req, userId, 'locked')
+        return res.status(429).json({
+          error: `Too many failed attempts. Try again in ${Math.ceil(retryAfterSeconds / 60)} minute(s).`,
+          retry_after: retryAfterSeconds
+        })
+      }
+
+      return res.status(429).json({
+        error: `Please wait ${retryAfterSeconds} second(s) before trying again.`,
+        retry_after: retryAfterSeconds
+      })
+    }
+
+    const method = await verifyMfaCode(userId, code)
+    if (!method) {
+      await recordFailedLogin(user.college_id)
+      await recordFailedLoginHistory(req, userId, 'bad_mfa_code')
+      return res.status(401).json({ error: 'Invalid authentication code' })
+    }
+
+    await clearFailedLogins(user.college_id)
+    const token = await createSessionToken(userId, req, res)
+    await recordSuccessfulLogin(req, res, user)
+    const reactivation = await reactivateAccount(user)
+    const { password_hash: _, ...userWithoutPassword } = serializeDoc(reactivation?.user ?? user)
+
+    res.status(200).json({
+      user: userWithoutPassword,
+      token,
+      ...(reactivation && { reactivated: true, deletion_cancelled: reactivation.deletionCancelled }),
+      used_backup_code: method === 'backup',
+      message: 'Login successful'
+    })
+  } catch (error) {
+    console.error('MFA verify error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -0,0 +1,33 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { refreshSessionToken, rateLimitMiddleware, getClientIp } from '../../../lib/auth'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const clientIp = getClientIp(req)
+  const { allowed, remaining, resetTime } = await rateLimitMiddleware(`refresh:${clientIp}`, 60, 900)
+
+  res.setHeader('X-RateLimit-Limit', '60')
+  res.setHeader('X-RateLimit-Remaining', remaining.toString())
+  res.setHeader('X-RateLimit-Reset', new Date(resetTime).toISOString())
+
+  if (!allowed) {
+    return res.status(429).json({ error: 'Too many requests. Please try again later.' })
+  }
+
+  try {
+    const token = await refreshSessionToken(req, res)
+
+    if (!token) {
+      return res.status(401).json({ error: 'Session expired. Please log in again.' })
+    }
+
+    res.setHeader('Cache-Control', 'no-store')
+    res.status(200).json({ token })
+  } catch (error) {
+    console.error('Token refresh error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+}
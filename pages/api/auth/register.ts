@@ -1,6 +1,10 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { getCollection, withRetry, Collections, User, getNextSequenceValue, serializeDoc } from '../../../lib/mongodb'
-import { hashPassword, generateToken } from '../../../lib/auth'
+import { hashPassword, createSessionToken } from '../../../lib/auth'
+import { isValidEmail } from '../../../lib/validation'
+import { getInstitutions, findInstitutionForEmail, isRegistrationOpen, isValidCollegeId } from '../../../lib/institutions'
+import { createEmailVerification, sendVerificationEmail } from '../../../lib/emailVerification'
+import { recordSuccessfulLogin } from '../../../lib/loginSecurity'
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -15,7 +19,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   })
 
   try {
-    const { name, username, email, college_id, password, department, year, bio, profile_image } = req.body
+    const { name, username, college_id, password, department, year, bio, profile_image } = req.body
+    const email = typeof req.body.email === 'string' ? req.body.email.trim().toLowerCase() : ''
     console.log('📝 Registration data received:', { name, username, email, college_id, department, year })
 
     // Validate required fields
@@ -24,6 +29,25 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(400).json({ error: 'All fields are required' })
     }
 
+    if (!isValidEmail(email)) {
+      return res.status(400).json({ error: 'Please enter a valid email address' })
+    }
+
+    // Only addresses from a participating institution may register
+    const institutions = getInstitutions()
+    if (!isRegistrationOpen(institutions)) {
+      return res.status(503).json({ error: 'Registration is not open yet' })
+    }
+    const institution = institutions.length > 0 ? findInstitutionForEmail(email, institutions) : null
+    if (institutions.length > 0 && !institution) {
+      console.log('❌ Email domain not allowed:', email)
+      return res.status(400).json({ error: 'Please register with your college email address' })
+    }
+
+    if (institution && !isValidCollegeId(String(college_id), institution)) {
+      return res.status(400).json({ error: `College ID is not valid for ${institution.name}` })
+    }
+
     console.log('🔍 Checking for existing user with college_id:', college_id)
     
     const users = await getCollection<User>(Collections.USERS)
@@ -76,6 +100,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       name,
       username,
       email,
+      email_verified: false,
+      institution_id: institution?.id,
       college_id,
       password_hash: hashedPassword,
       department,
@@ -98,9 +124,20 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       throw new Error('Failed to retrieve created user')
     }
 
+    // A failed email shouldn't fail the signup; the user can resend from the app
+    let verifyUrl: string | undefined
+    try {
+      const verificationToken = await createEmailVerification(createdUser)
+      verifyUrl = sendVerificationEmail(createdUser, verificationToken)
+    } catch (error) {
+      console.error('❌ Failed to send verification email:', error)
+    }
+
     console.log('🎫 Generating JWT token...')
     // Generate token
-    const token = generateToken(userId)
+    const token = await createSessionToken(userId, req, res)
+    // Remember this browser so the first real login from it isn't flagged as new
+    await recordSuccessfulLogin(req, res, createdUser)
 
     const userResponse = serializeDoc(createdUser)
     delete userResponse.password_hash
@@ -109,7 +146,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     res.status(201).json({
       user: userResponse,
       token,
-      message: 'User created successfully'
+      message: 'User created successfully. Check your email to verify your account.',
+      // In development, include the verification URL for testing
+      ...(process.env.NODE_ENV === 'development' && verifyUrl && { verifyUrl })
     })
   } catch (error) {
     console.error('❌ Registration error details:', {
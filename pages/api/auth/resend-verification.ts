@@ -0,0 +1,53 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getCollection, withRetry, Collections, User } from '../../../lib/mongodb'
+import { getUserFromRequest, rateLimitMiddleware } from '../../../lib/auth'
+import { createEmailVerification, sendVerificationEmail } from '../../../lib/emailVerification'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const auth = await getUserFromRequest(req)
+    if (!auth) {
+      return res.status(401).json({ error: 'Unauthorized' })
+    }
+
+    // A handful of resends per hour is plenty and keeps the mail server quiet
+    const { allowed, remaining, resetTime } = await rateLimitMiddleware(`resend-verification:${auth.userId}`, 3, 3600)
+
+    res.setHeader('X-RateLimit-Limit', '3')
+    res.setHeader('X-RateLimit-Remaining', remaining.toString())
+    res.setHeader('X-RateLimit-Reset', new Date(resetTime).toISOString())
+
+    if (!allowed) {
+      return res.status(429).json({ error: 'Too many verification emails requested. Please try again later.' })
+    }
+
+    const users = await getCollection<User>(Collections.USERS)
+    const user = await withRetry(async () => {
+      return users.findOne({ id: auth.userId })
+    })
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' })
+    }
+
+    if (user.email_verified !== false) {
+      return res.status(400).json({ error: 'Your email is already verified' })
+    }
+
+    const token = await createEmailVerification(user)
+    const verifyUrl = sendVerificationEmail(user, token)
+
+    return res.status(200).json({
+      message: `We sent a new verification link to ${user.email}.`,
+      // In development, include the verification URL for testing
+      ...(process.env.NODE_ENV === 'development' && { verifyUrl })
+    })
+  } catch (error) {
+    console.error('Resend verification error:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
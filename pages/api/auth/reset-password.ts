@@ -0,0 +1,89 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getCollection, withRetry, Collections, User, PasswordReset } from '../../../lib/mongodb'
+import { hashPassword, rateLimitMiddleware, getClientIp } from '../../../lib/auth'
+import { isStrongPassword } from '../../../lib/validation'
+import { revokeAllSessions } from '../../../lib/sessions'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  // Rate limiting to slow down token guessing
+  const clientIp = getClientIp(req)
+  const { allowed, remaining, resetTime } = await rateLimitMiddleware(`reset-password:${clientIp}`, 10, 900)
+
+  res.setHeader('X-RateLimit-Limit', '10')
+  res.setHeader('X-RateLimit-Remaining', remaining.toString())
+  res.setHeader('X-RateLimit-Reset', new Date(resetTime).toISOString())
+
+  if (!allowed) {
+    return res.status(429).json({ error: 'Too many attempts. Please try again later.' })
+  }
+
+  try {
+    const { token, password } = req.body || {}
+
+    if (!token || typeof token !== 'string' || !/^[a-f0-9]{64}$/.test(token)) {
+      return res.status(400).json({ error: 'Invalid or expired reset link' })
+    }
+
+    const passwordCheck = isStrongPassword(password)
+    if (!passwordCheck.valid) {
+      return res.status(400).json({ error: passwordCheck.message })
+    }
+
+    const passwordResets = await getCollection<PasswordReset>(Collections.PASSWORD_RESETS)
+    const users = await getCollection<User>(Collections.USERS)
+
+    // Claim the token atomically so it can only ever be redeemed once
+    const now = new Date()
+    const claimed = await withRetry(async () => {
+      return passwordResets.findOneAndUpdate(
+        { token, used: false, expires_at: { $gt: now } },
+        { $set: { used: true, used_at: now } },
+        { returnDocument: 'after' }
+      )
+    })
+
+    // Support both driver typings (document directly, or { value: document })
+    const reset = ((claimed as any)?.value ?? claimed) as PasswordReset | null
+
+    if (!reset) {
+      return res.status(400).json({ error: 'Invalid or expired reset link' })
+    }
+
+    const user = await withRetry(async () => {
+      return users.findOne({ id: reset.user_id as number })
+    })
+
+    if (!user) {
+      return res.status(400).json({ error: 'Invalid or expired reset link' })
+    }
+
+    const hashedPassword = await hashPassword(password)
+
+    await withRetry(async () => {
+      return users.updateOne(
+        { id: user.id },
+        { $set: { password_hash: hashedPassword, password_changed_at: now } }
+      )
+    })
+
+    // Sign the user out everywhere; whoever had the old password loses access
+    await revokeAllSessions(user.id as number)
+
+    // Any other outstanding reset links for this user are no longer needed
+    await withRetry(async () => {
+      return passwordResets.updateMany(
+        { user_id: user.id, used: false },
+        { $set: { used: true, used_at: now } }
+      )
+    })
+
+    return res.status(200).json({ message: 'Password has been reset. Please sign in with your new password.' })
+  } catch (error) {
+    console.error('Reset password error:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -0,0 +1,22 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getUserFromRequest } from '../../../../lib/auth'
+
+// Lightweight check used by the socket server to confirm a token's session is still active
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const auth = await getUserFromRequest(req)
+    if (!auth) {
+      return res.status(401).json({ error: 'Session is no longer active' })
+    }
+
+    res.setHeader('Cache-Control', 'no-store')
+    res.status(200).json({ active: true, userId: auth.userId })
+  } catch (error) {
+    console.error('Session check error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+}
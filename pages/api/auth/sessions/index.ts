@@ -0,0 +1,69 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getUserFromRequest } from '../../../../lib/auth'
+import { listSessions, revokeSession, revokeAllSessions } from '../../../../lib/sessions'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const auth = await getUserFromRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  if (req.method === 'GET') {
+    return handleListSessions(req, res, auth)
+  }
+
+  if (req.method === 'DELETE') {
+    return handleRevokeSessions(req, res, auth)
+  }
+
+  res.setHeader('Allow', ['GET', 'DELETE'])
+  return res.status(405).json({ error: 'Method not allowed' })
+}
+
+async function handleListSessions(req: NextApiRequest, res: NextApiResponse, auth: { userId: number; jti: string }) {
+  try {
+    const sessions = await listSessions(auth.userId)
+
+    res.status(200).json({
+      sessions: sessions.map(session => ({
+        id: session.id,
+        device: session.device,
+        ip: session.ip,
+        user_agent: session.user_agent,
+        created_at: session.created_at,
+        last_seen_at: session.last_seen_at,
+        current: session.jti === auth.jti,
+      }))
+    })
+  } catch (error) {
+    console.error('List sessions error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+}
+
+// DELETE ?id=<sessionId> revokes one device, DELETE ?scope=others signs out everywhere else
+async function handleRevokeSessions(req: NextApiRequest, res: NextApiResponse, auth: { userId: number; jti: string }) {
+  try {
+    const { id, scope } = req.query
+
+    if (scope === 'others') {
+      const revoked = await revokeAllSessions(auth.userId, auth.jti)
+      return res.status(200).json({ revoked, message: 'Signed out of all other sessions' })
+    }
+
+    const sessionId = parseInt(id as string)
+    if (!id || Array.isArray(id) || isNaN(sessionId)) {
+      return res.status(400).json({ error: 'Session ID is required' })
+    }
+
+    const revoked = await revokeSession(auth.userId, sessionId)
+    if (!revoked) {
+      return res.status(404).json({ error: 'Session not found' })
+    }
+
+    res.status(200).json({ revoked: 1, message: 'Session revoked' })
+  } catch (error) {
+    console.error('Revoke session error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -0,0 +1,39 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { rateLimitMiddleware, getClientIp } from '../../../lib/auth'
+import { redeemEmailVerification } from '../../../lib/emailVerification'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  // Rate limiting to slow down token guessing
+  const clientIp = getClientIp(req)
+  const { allowed, remaining, resetTime } = await rateLimitMiddleware(`verify-email:${clientIp}`, 10, 900)
+
+  res.setHeader('X-RateLimit-Limit', '10')
+  res.setHeader('X-RateLimit-Remaining', remaining.toString())
+  res.setHeader('X-RateLimit-Reset', new Date(resetTime).toISOString())
+
+  if (!allowed) {
+    return res.status(429).json({ error: 'Too many attempts. Please try again later.' })
+  }
+
+  try {
+    const { token } = req.body || {}
+
+    if (!token || typeof token !== 'string' || !/^[a-f0-9]{64}$/.test(token)) {
+      return res.status(400).json({ error: 'Invalid or expired verification link' })
+    }
+
+    const userId = await redeemEmailVerification(token)
+    if (!userId) {
+      return res.status(400).json({ error: 'Invalid or expired verification link' })
+    }
+
+    return res.status(200).json({ message: 'Your email has been verified.', userId })
+  } catch (error) {
+    console.error('Verify email error:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
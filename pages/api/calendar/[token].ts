@@ -0,0 +1,29 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { buildUserCalendar, findCalendarFeedUser } from '../../../lib/calendarFeeds'
+
+/**
+ * A user's personal iCal feed, for calendar apps to subscribe to. The token
+ * in the URL (from /api/users/me/calendar) is the only credential.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET'])
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const token = String(req.query.token || '').replace(/\.ics$/, '')
+
+  try {
+    const userId = await findCalendarFeedUser(token)
+    if (!userId) {
+      return res.status(404).json({ error: 'Calendar not found' })
+    }
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8')
+    res.setHeader('Cache-Control', 'private, max-age=300')
+    return res.status(200).send(await buildUserCalendar(userId))
+  } catch (error) {
+    console.error('Calendar feed error:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -1,6 +1,9 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { getCollection, Collections, Comment, CommentLike, Post, User, getNextSequenceValue, serializeDoc } from '../../lib/mongodb'
 import { getUserFromRequest } from '../../lib/auth'
+import { userHasPermission } from '../../lib/permissions'
+import { PUBLISHED_POST_FILTER } from '../../lib/postSchedule'
+import { isEmailVerified, EMAIL_NOT_VERIFIED_ERROR } from '../../lib/emailVerification'
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method === 'GET') {
@@ -15,7 +18,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       console.log('📝 Fetching comments for post:', postId)
 
       // Get current user for like status
-      const auth = getUserFromRequest(req)
+      const auth = await getUserFromRequest(req)
       const currentUserId = auth?.userId
       console.log('👤 Current user:', currentUserId)
 
@@ -113,7 +116,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   } else if (req.method === 'POST') {
     // Create a new comment
     try {
-      const auth = getUserFromRequest(req)
+      const auth = await getUserFromRequest(req)
       if (!auth) {
         return res.status(401).json({ error: 'Unauthorized' })
       }
@@ -137,12 +140,16 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       const users = await getCollection<User>(Collections.USERS)
 
       // Check if post exists
-      const post = await posts.findOne({ id: parseInt(postId) })
+      const post = await posts.findOne({ id: parseInt(postId), ...PUBLISHED_POST_FILTER })
 
       if (!post) {
         return res.status(404).json({ error: 'Post not found' })
       }
 
+      if (!(await isEmailVerified(auth.userId))) {
+        return res.status(403).json({ error: EMAIL_NOT_VERIFIED_ERROR })
+      }
+
       // Create the comment
       const commentId = await getNextSequenceValue('comments')
       const newComment: Comment = {
@@ -195,7 +202,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
   } else if (req.method === 'DELETE') {
     try {
-      const auth = getUserFromRequest(req)
+      const auth = await getUserFromRequest(req)
       if (!auth) return res.status(401).json({ error: 'Unauthorized' })
 
       const { id } = req.query
@@ -205,7 +212,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       const comment = await comments.findOne({ id: parseInt(id as string) })
       
       if (!comment) return res.status(404).json({ error: 'Comment not found' })
-      if (comment.user_id !== auth.userId) return res.status(403).json({ error: 'Forbidden' })
+      // Moderators may remove anyone's comment
+      if (comment.user_id !== auth.userId && !(await userHasPermission(auth.userId, 'moderate_content'))) {
+        return res.status(403).json({ error: 'Forbidden' })
+      }
 
       await comments.deleteOne({ id: comment.id })
       return res.status(204).end()
@@ -8,7 +8,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const auth = getUserFromRequest(req)
+    const auth = await getUserFromRequest(req)
     if (!auth) return res.status(401).json({ error: 'Unauthorized' })
 
     const { commentId } = req.body || {}
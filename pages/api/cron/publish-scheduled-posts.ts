@@ -0,0 +1,19 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { publishDuePosts } from '../../../lib/postPublishing'
+import { requireCronSecret } from '../../../lib/cron'
+
+/**
+ * Publishes scheduled posts whose time has come.
+ * Called every few minutes by Vercel Cron (see vercel.json) or by server.js when self-hosted.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!requireCronSecret(req, res)) return
+
+  try {
+    const result = await publishDuePosts()
+    res.status(200).json(result)
+  } catch (error) {
+    console.error('Scheduled post publishing error:', error)
+    res.status(500).json({ error: 'Failed to publish scheduled posts' })
+  }
+}
@@ -0,0 +1,19 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { purgeDueAccounts } from '../../../lib/accountDeletion'
+import { requireCronSecret } from '../../../lib/cron'
+
+/**
+ * Permanently deletes accounts whose deletion grace period has ended.
+ * Called daily by Vercel Cron (see vercel.json) or by server.js when self-hosted.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!requireCronSecret(req, res)) return
+
+  try {
+    const result = await purgeDueAccounts()
+    res.status(200).json(result)
+  } catch (error) {
+    console.error('Account purge error:', error)
+    res.status(500).json({ error: 'Failed to purge accounts' })
+  }
+}
@@ -0,0 +1,19 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { sendDueEventReminders } from '../../../lib/eventAttendance'
+import { requireCronSecret } from '../../../lib/cron'
+
+/**
+ * Reminds people who are going to or interested in events starting soon.
+ * Called every few minutes by Vercel Cron (see vercel.json) or by server.js when self-hosted.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!requireCronSecret(req, res)) return
+
+  try {
+    const result = await sendDueEventReminders()
+    res.status(200).json(result)
+  } catch (error) {
+    console.error('Event reminder error:', error)
+    res.status(500).json({ error: 'Failed to send event reminders' })
+  }
+}
@@ -0,0 +1,19 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { sendDueDeadlineReminders } from '../../../lib/internshipTracking'
+import { requireCronSecret } from '../../../lib/cron'
+
+/**
+ * Reminds people tracking an internship as interested that its deadline is near.
+ * Called hourly by Vercel Cron (see vercel.json) or by server.js when self-hosted.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!requireCronSecret(req, res)) return
+
+  try {
+    const result = await sendDueDeadlineReminders()
+    res.status(200).json(result)
+  } catch (error) {
+    console.error('Internship reminder error:', error)
+    res.status(500).json({ error: 'Failed to send internship reminders' })
+  }
+}
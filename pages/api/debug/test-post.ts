@@ -26,7 +26,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
 
     // Authentication test
-    const auth = getUserFromRequest(req)
+    const auth = await getUserFromRequest(req)
     if (!auth) {
       return res.status(200).json({
         success: false,
@@ -6,39 +6,20 @@
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next'
-import { socialGraph } from '../../../lib/socialGraph'
+import { socialGraph, getGraphUserId } from '../../../lib/socialGraph'
 import { getCollection, Collections, withRetry } from '../../../lib/mongodb'
 import { ObjectId } from 'mongodb'
-import jwt from 'jsonwebtoken'
-
-// JWT secret for auth verification
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key'
-
-/**
- * Extract user ID from authorization header
- */
-function getUserIdFromToken(req: NextApiRequest): string | null {
-    const authHeader = req.headers.authorization
-    if (!authHeader?.startsWith('Bearer ')) {
-        return null
-    }
-
-    try {
-        const token = authHeader.split(' ')[1]
-        const decoded = jwt.verify(token, JWT_SECRET) as { userId: string }
-        return decoded.userId
-    } catch {
-        return null
-    }
-}
+import { getUserFromRequest } from '../../../lib/auth'
+import { removeFollow } from '../../../lib/follows'
 
 export default async function handler(
     req: NextApiRequest,
     res: NextApiResponse
 ) {
     // Authenticate the request
-    const userId = getUserIdFromToken(req)
-    if (!userId) {
+    const auth = await getUserFromRequest(req)
+    const userId = auth ? await getGraphUserId(auth.userId) : null
+    if (!auth || !userId) {
         return res.status(401).json({ error: 'Unauthorized' })
     }
 
@@ -83,12 +64,14 @@ export default async function handler(
             }
 
             case 'DELETE': {
-                // Unfollow the user
+                // Unfollow the user: the graph edge, then the follow itself
+                // and everything that came with it
                 const unfollowed = await withRetry(() =>
                     socialGraph.unfollowUser(userId, targetUserId as string)
                 )
+                const removed = await removeFollow(auth.userId, targetUser.id as number)
 
-                if (!unfollowed) {
+                if (!unfollowed && !removed) {
                     return res.status(400).json({
                         error: 'Not following this user'
                     })
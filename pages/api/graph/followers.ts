@@ -6,30 +6,10 @@
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next'
-import { socialGraph } from '../../../lib/socialGraph'
+import { socialGraph, getGraphUserId } from '../../../lib/socialGraph'
 import { withRetry } from '../../../lib/mongodb'
 import { ObjectId } from 'mongodb'
-import jwt from 'jsonwebtoken'
-
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key'
-
-/**
- * Extract user ID from authorization header
- */
-function getUserIdFromToken(req: NextApiRequest): string | null {
-    const authHeader = req.headers.authorization
-    if (!authHeader?.startsWith('Bearer ')) {
-        return null
-    }
-
-    try {
-        const token = authHeader.split(' ')[1]
-        const decoded = jwt.verify(token, JWT_SECRET) as { userId: string }
-        return decoded.userId
-    } catch {
-        return null
-    }
-}
+import { getUserFromRequest } from '../../../lib/auth'
 
 export default async function handler(
     req: NextApiRequest,
@@ -41,7 +21,8 @@ export default async function handler(
     }
 
     // Authenticate the request
-    const currentUserId = getUserIdFromToken(req)
+    const auth = await getUserFromRequest(req)
+    const currentUserId = auth ? await getGraphUserId(auth.userId) : null
     if (!currentUserId) {
         return res.status(401).json({ error: 'Unauthorized' })
     }
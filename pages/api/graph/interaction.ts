@@ -8,36 +8,16 @@
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next'
-import { socialGraph, InteractionType } from '../../../lib/socialGraph'
+import { socialGraph, InteractionType, getGraphUserId } from '../../../lib/socialGraph'
 import { withRetry } from '../../../lib/mongodb'
 import { ObjectId } from 'mongodb'
-import jwt from 'jsonwebtoken'
-
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key'
+import { getUserFromRequest } from '../../../lib/auth'
 
 // Valid interaction types
 const VALID_INTERACTION_TYPES: InteractionType[] = [
     'like', 'comment', 'message', 'share', 'mention'
 ]
 
-/**
- * Extract user ID from authorization header
- */
-function getUserIdFromToken(req: NextApiRequest): string | null {
-    const authHeader = req.headers.authorization
-    if (!authHeader?.startsWith('Bearer ')) {
-        return null
-    }
-
-    try {
-        const token = authHeader.split(' ')[1]
-        const decoded = jwt.verify(token, JWT_SECRET) as { userId: string }
-        return decoded.userId
-    } catch {
-        return null
-    }
-}
-
 export default async function handler(
     req: NextApiRequest,
     res: NextApiResponse
@@ -48,7 +28,8 @@ export default async function handler(
     }
 
     // Authenticate the request
-    const currentUserId = getUserIdFromToken(req)
+    const auth = await getUserFromRequest(req)
+    const currentUserId = auth ? await getGraphUserId(auth.userId) : null
     if (!currentUserId) {
         return res.status(401).json({ error: 'Unauthorized' })
     }
@@ -0,0 +1,49 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getUserFromRequest } from '../../../lib/auth'
+import { normalizeHashtag } from '../../../lib/hashtags'
+import { findHashtagPostIds, getHashtag, isFollowingHashtag } from '../../../lib/hashtagIndex'
+import { buildPostViews, findPostsInOrder } from '../../../lib/postViews'
+import { resolveReposts } from '../../../lib/repostStorage'
+
+// A hashtag's page: its stats and the posts carrying it, newest first
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET'])
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const tag = normalizeHashtag(req.query.tag)
+    if (!tag) {
+      return res.status(400).json({ error: 'Invalid hashtag' })
+    }
+
+    // Authentication optional for reading
+    const auth = await getUserFromRequest(req)
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 24, 50)
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0)
+    const [hashtag, isFollowing, postIds] = await Promise.all([
+      getHashtag(tag),
+      auth ? isFollowingHashtag(auth.userId, tag) : Promise.resolve(false),
+      findHashtagPostIds(tag, { limit, offset }),
+    ])
+    const viewerId = auth?.userId ?? null
+    const posts = await resolveReposts(await buildPostViews(await findPostsInOrder(postIds), viewerId), viewerId)
+
+    res.setHeader('Cache-Control', 'private, max-age=10, stale-while-revalidate=30')
+    return res.status(200).json({
+      hashtag: {
+        tag,
+        post_count: Math.max(hashtag?.post_count || 0, 0),
+        last_used_at: hashtag?.last_used_at || null,
+        is_following: isFollowing,
+      },
+      posts,
+      has_more: postIds.length === limit,
+    })
+  } catch (error) {
+    console.error('Get hashtag error:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -0,0 +1,38 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getUserFromRequest } from '../../../../lib/auth'
+import { normalizeHashtag } from '../../../../lib/hashtags'
+import { followHashtag, unfollowHashtag } from '../../../../lib/hashtagIndex'
+
+// Follow a hashtag so its posts show up in the home feed
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const auth = await getUserFromRequest(req)
+  if (!auth) return res.status(401).json({ error: 'Unauthorized' })
+
+  const tag = normalizeHashtag(req.query.tag)
+  if (!tag) {
+    return res.status(400).json({ error: 'Invalid hashtag' })
+  }
+
+  if (req.method === 'POST') {
+    try {
+      await followHashtag(auth.userId, tag)
+      return res.status(200).json({ tag, is_following: true })
+    } catch (error) {
+      console.error('Follow hashtag error:', error)
+      return res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+
+  if (req.method === 'DELETE') {
+    try {
+      await unfollowHashtag(auth.userId, tag)
+      return res.status(200).json({ tag, is_following: false })
+    } catch (error) {
+      console.error('Unfollow hashtag error:', error)
+      return res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+
+  res.setHeader('Allow', ['POST', 'DELETE'])
+  return res.status(405).json({ error: 'Method not allowed' })
+}
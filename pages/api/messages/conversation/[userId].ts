@@ -1,6 +1,7 @@
 import { NextApiRequest, NextApiResponse } from 'next'
-import { getCollection, Collections } from '../../../../lib/mongodb'
+import { getCollection, Collections, Story } from '../../../../lib/mongodb'
 import { getUserFromRequest } from '../../../../lib/auth'
+import { deletedUserPlaceholder } from '../../../../lib/accountDeletion'
 
 interface Message {
   id: number
@@ -10,6 +11,7 @@ interface Message {
   media_url: string | null
   post_id?: number | null
   reply_to_id?: number | null
+  story_id?: number | null
   reaction?: string | null
   deleted_for?: number[]
   created_at: Date
@@ -27,7 +29,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const auth = getUserFromRequest(req)
+    const auth = await getUserFromRequest(req)
     if (!auth) {
       return res.status(401).json({ error: 'Unauthorized' })
     }
@@ -90,19 +92,29 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     const messageUsers = await users.find({ id: { $in: userIds } as any }).toArray()
     const userMap = new Map(messageUsers.map(u => [u.id, u]))
 
-    const otherUser = userMap.get(otherUserId)
+    // Messages kept from a purged account still show, under a placeholder
+    const otherUser = userMap.get(otherUserId) || (totalCount > 0 ? deletedUserPlaceholder(otherUserId) : null)
 
     if (!otherUser) {
       return res.status(404).json({ error: 'User not found' })
     }
 
+    // Story replies show the story while it lasts
+    const storyIds = [...new Set(messageList.map(msg => msg.story_id).filter((id): id is number => typeof id === 'number'))]
+    const storyMap = new Map<number, Story>()
+    if (storyIds.length > 0) {
+      const stories = await getCollection<Story>(Collections.STORIES)
+      const found = await stories.find({ id: { $in: storyIds } }).toArray()
+      found.forEach(story => storyMap.set(story.id, story))
+    }
+
     // Build replyTo data for messages
     const messagesWithReply = await Promise.all(messageList.map(async (msg) => {
       let replyTo = null
       if (msg.reply_to_id) {
         const replyToMsg = await messages.findOne({ id: msg.reply_to_id })
         if (replyToMsg) {
-          const replyToSender = userMap.get(replyToMsg.sender_id)
+          const replyToSender = userMap.get(replyToMsg.sender_id) || (replyToMsg.sender_id === otherUserId ? otherUser : null)
           replyTo = {
             id: replyToMsg.id,
             text: replyToMsg.message_text,
@@ -121,9 +133,14 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         reaction: msg.reaction || null,
         deleted_for: msg.deleted_for || [],
         createdAt: msg.created_at.toISOString(),
-        sender: userMap.get(msg.sender_id) || null,
-        receiver: userMap.get(msg.receiver_id) || null,
-        replyTo
+        sender: userMap.get(msg.sender_id) || (msg.sender_id === otherUserId ? otherUser : null),
+        receiver: userMap.get(msg.receiver_id) || (msg.receiver_id === otherUserId ? otherUser : null),
+        replyTo,
+        storyReply: msg.story_id ? {
+          id: msg.story_id,
+          mediaUrl: storyMap.get(msg.story_id)?.media_url || null,
+          mediaType: storyMap.get(msg.story_id)?.media_type || null
+        } : null
       }
     }))
 
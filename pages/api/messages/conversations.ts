@@ -1,6 +1,7 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { getCollection, Collections } from '../../../lib/mongodb'
 import { getUserFromRequest } from '../../../lib/auth'
+import { deletedUserPlaceholder } from '../../../lib/accountDeletion'
 
 interface Message {
   id: number
@@ -24,7 +25,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
   try {
     console.log('[API Conversations] Request received');
-    const auth = getUserFromRequest(req)
+    const auth = await getUserFromRequest(req)
     if (!auth) {
       console.log('[API Conversations] Unauthorized - no auth');
       return res.status(401).json({ error: 'Unauthorized' })
@@ -65,9 +66,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     conversations.forEach(message => {
       const otherUserId = message.sender_id === auth.userId ? message.receiver_id : message.sender_id
-      const otherUser = userMap.get(otherUserId)
+      // A purged account's kept messages show under a placeholder
+      const otherUser = userMap.get(otherUserId) || deletedUserPlaceholder(otherUserId)
 
-      if (!conversationMap.has(otherUserId) && otherUser) {
+      if (!conversationMap.has(otherUserId)) {
         const conversationId = [auth.userId, otherUserId].sort().join('-')
         
         conversationMap.set(otherUserId, {
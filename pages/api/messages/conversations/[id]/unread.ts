@@ -1,5 +1,5 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { verify } from 'jsonwebtoken';
+import { getUserFromRequest } from '../../../../../lib/auth';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -7,25 +7,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const { authorization } = req.headers;
     const { id: conversationId } = req.query;
 
-    if (!authorization) {
-      return res.status(401).json({ error: 'Authorization header required' });
-    }
-
-    const token = authorization.split(' ')[1];
-    if (!token) {
-      return res.status(401).json({ error: 'Token required' });
-    }
-
-    // Verify token
-    const decoded = verify(token, process.env.JWT_SECRET!) as { userId: number };
-    const userId = decoded.userId;
-
-    if (!userId) {
-      return res.status(401).json({ error: 'Invalid token' });
+    const auth = await getUserFromRequest(req);
+    if (!auth) {
+      return res.status(401).json({ error: 'Unauthorized' });
     }
+    const userId = auth.userId;
 
     if (!conversationId || typeof conversationId !== 'string') {
       return res.status(400).json({ error: 'Invalid conversation ID' });
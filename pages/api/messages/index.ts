@@ -1,6 +1,7 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { getCollection, Collections, getNextSequenceValue } from '../../../lib/mongodb'
 import { getUserFromRequest } from '../../../lib/auth'
+import { isEmailVerified, EMAIL_NOT_VERIFIED_ERROR } from '../../../lib/emailVerification'
 
 interface Message {
   id: number
@@ -34,7 +35,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
 async function handleGetMessages(req: NextApiRequest, res: NextApiResponse) {
   try {
-    const auth = getUserFromRequest(req)
+    const auth = await getUserFromRequest(req)
     if (!auth) {
       return res.status(401).json({ error: 'Unauthorized' })
     }
@@ -101,11 +102,15 @@ async function handleGetMessages(req: NextApiRequest, res: NextApiResponse) {
 
 async function handleSendMessage(req: NextApiRequest, res: NextApiResponse) {
   try {
-    const auth = getUserFromRequest(req)
+    const auth = await getUserFromRequest(req)
     if (!auth) {
       return res.status(401).json({ error: 'Unauthorized' })
     }
 
+    if (!(await isEmailVerified(auth.userId))) {
+      return res.status(403).json({ error: EMAIL_NOT_VERIFIED_ERROR })
+    }
+
     const { receiverId, messageText, replyToId, isMeta = false } = req.body
 
     if (!receiverId || !messageText) {
@@ -1,6 +1,9 @@
 import { NextApiRequest, NextApiResponse } from 'next'
-import { getCollection, Collections, getNextSequenceValue } from '../../../lib/mongodb'
+import { getCollection, Collections, getNextSequenceValue, Post } from '../../../lib/mongodb'
 import { getUserFromRequest } from '../../../lib/auth'
+import { isEmailVerified, EMAIL_NOT_VERIFIED_ERROR } from '../../../lib/emailVerification'
+import { canViewPost } from '../../../lib/postViews'
+import { canViewStoriesOf, findStory } from '../../../lib/storyStorage'
 
 // Extend global to include io
 declare global {
@@ -14,6 +17,7 @@ interface Message {
   message_text: string
   media_url: string | null
   post_id?: number | null
+  story_id?: number | null
   created_at: Date
 }
 
@@ -29,12 +33,16 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const auth = getUserFromRequest(req)
+    const auth = await getUserFromRequest(req)
     if (!auth) {
       return res.status(401).json({ error: 'Unauthorized' })
     }
 
-    const { receiverId, messageText, mediaUrl, postId } = req.body
+    if (!(await isEmailVerified(auth.userId))) {
+      return res.status(403).json({ error: EMAIL_NOT_VERIFIED_ERROR })
+    }
+
+    const { receiverId, messageText, mediaUrl, postId, storyId } = req.body
 
     if (!receiverId || (!messageText && !mediaUrl && !postId)) {
       return res.status(400).json({ error: 'Receiver ID and message content are required' })
@@ -68,6 +76,35 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(403).json({ error: 'Cannot send message to this user' })
     }
 
+    // A shared post has to be one both people may see: its audience still applies
+    if (postId) {
+      const posts = await getCollection<Post>(Collections.POSTS)
+      const post = await posts.findOne({ id: parseInt(postId) })
+      if (!post || !(await canViewPost(auth.userId, post))) {
+        return res.status(404).json({ error: 'Post not found' })
+      }
+      if (!(await canViewPost(parseInt(receiverId), post))) {
+        return res.status(403).json({ error: "This post isn't visible to them" })
+      }
+    }
+
+    // A story reply goes to the story's author, who the sender must still be
+    // able to watch
+    let story: { id: number; media_url: string; media_type: 'image' | 'video' } | null = null
+    if (storyId) {
+      const found = await findStory(parseInt(storyId))
+      if (!found || !(await canViewStoriesOf(auth.userId, found.user_id))) {
+        return res.status(404).json({ error: 'Story not found' })
+      }
+      if (found.user_id !== parseInt(receiverId)) {
+        return res.status(400).json({ error: 'Story replies go to the story author' })
+      }
+      if (!messageText || !String(messageText).trim()) {
+        return res.status(400).json({ error: 'Reply text is required' })
+      }
+      story = { id: found.id, media_url: found.media_url, media_type: found.media_type }
+    }
+
     // Get sender info
     const sender = await users.findOne({ id: auth.userId })
 
@@ -80,11 +117,14 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       message_text: messageText || '',
       media_url: mediaUrl || null,
       post_id: postId ? parseInt(postId) : null,
+      story_id: story ? story.id : null,
       created_at: new Date()
     }
 
     await messages.insertOne(newMessage as any)
 
+    const storyReply = story ? { id: story.id, mediaUrl: story.media_url, mediaType: story.media_type } : null
+
     // Create conversation ID (consistent regardless of who sends first)
     const conversationId = [auth.userId, parseInt(receiverId)].sort().join('-')
 
@@ -97,6 +137,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         messageText: newMessage.message_text,
         mediaUrl: newMessage.media_url,
         postId: newMessage.post_id,
+        storyReply,
         createdAt: newMessage.created_at.toISOString(),
         sender: sender,
         receiver: receiver,
@@ -122,6 +163,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         messageText: newMessage.message_text,
         mediaUrl: newMessage.media_url,
         postId: newMessage.post_id,
+        storyReply,
         createdAt: newMessage.created_at.toISOString(),
         sender: sender,
         receiver: receiver,
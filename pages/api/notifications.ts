@@ -0,0 +1,40 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getUserFromRequest } from '../../lib/auth'
+import { listNotifications, markNotificationsRead } from '../../lib/notifications'
+
+const MAX_IDS = 100
+
+// The caller's saved notifications (GET), or mark them read (POST { ids? }; no ids marks all)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const auth = await getUserFromRequest(req)
+  if (!auth) return res.status(401).json({ error: 'Unauthorized' })
+
+  if (req.method === 'GET') {
+    try {
+      const notifications = await listNotifications(auth.userId)
+      res.setHeader('Cache-Control', 'private, no-store')
+      return res.status(200).json({ notifications })
+    } catch (error) {
+      console.error('Get notifications error:', error)
+      return res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+
+  if (req.method === 'POST') {
+    const { ids } = req.body || {}
+    if (ids !== undefined && (!Array.isArray(ids) || ids.length > MAX_IDS || ids.some(id => typeof id !== 'string'))) {
+      return res.status(400).json({ error: 'ids must be a list of notification ids' })
+    }
+
+    try {
+      await markNotificationsRead(auth.userId, ids)
+      return res.status(200).json({ success: true })
+    } catch (error) {
+      console.error('Mark notifications read error:', error)
+      return res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+
+  res.setHeader('Allow', ['GET', 'POST'])
+  return res.status(405).json({ error: 'Method not allowed' })
+}
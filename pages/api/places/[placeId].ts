@@ -0,0 +1,75 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { requirePermission } from '../../../lib/permissions'
+import { getDeactivatedUserIds } from '../../../lib/accountStatus'
+import { getPlace, updatePlace, countPostsByPlace, serializePlace, PLACE_NAME_TAKEN_ERROR } from '../../../lib/placeCatalog'
+import { validatePlaceInput } from '../../../lib/places'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const placeId = parseInt(String(req.query.placeId))
+  if (Number.isNaN(placeId)) {
+    return res.status(400).json({ error: 'Invalid place id' })
+  }
+
+  if (req.method === 'GET') {
+    try {
+      const place = await getPlace(placeId)
+      if (!place) return res.status(404).json({ error: 'Place not found' })
+
+      const counts = await countPostsByPlace([placeId], await getDeactivatedUserIds())
+      res.setHeader('Cache-Control', 'public, max-age=60, stale-while-revalidate=300')
+      return res.status(200).json({ place: serializePlace(place, counts.get(placeId) || 0) })
+    } catch (error) {
+      console.error('Get place error:', error)
+      return res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+
+  // Edit, archive (is_archived: true) or restore a place
+  if (req.method === 'PATCH') {
+    try {
+      const actor = await requirePermission(req, res, 'manage_places')
+      if (!actor) return
+
+      const validation = validatePlaceInput(req.body, true)
+      if (!validation.valid) {
+        return res.status(400).json({ error: validation.message })
+      }
+      const isArchived = req.body?.is_archived
+      if (isArchived !== undefined && typeof isArchived !== 'boolean') {
+        return res.status(400).json({ error: 'is_archived must be true or false' })
+      }
+
+      const result = await updatePlace(placeId, { ...validation.value, is_archived: isArchived })
+      if ('error' in result) {
+        return result.error === 'name_taken'
+          ? res.status(409).json({ error: PLACE_NAME_TAKEN_ERROR })
+          : res.status(404).json({ error: 'Place not found' })
+      }
+
+      return res.status(200).json({ place: serializePlace(result.place) })
+    } catch (error) {
+      console.error('Update place error:', error)
+      return res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+
+  // Places are archived rather than deleted so tagged posts keep their location
+  if (req.method === 'DELETE') {
+    try {
+      const actor = await requirePermission(req, res, 'manage_places')
+      if (!actor) return
+
+      const result = await updatePlace(placeId, { is_archived: true })
+      if ('error' in result) {
+        return res.status(404).json({ error: 'Place not found' })
+      }
+      return res.status(204).end()
+    } catch (error) {
+      console.error('Archive place error:', error)
+      return res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+
+  res.setHeader('Allow', ['GET', 'PATCH', 'DELETE'])
+  return res.status(405).json({ error: 'Method not allowed' })
+}
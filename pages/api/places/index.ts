@@ -0,0 +1,60 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getUserFromRequest } from '../../../lib/auth'
+import { requirePermission, userHasPermission } from '../../../lib/permissions'
+import { getDeactivatedUserIds } from '../../../lib/accountStatus'
+import { listPlaces, createPlace, countPostsByPlace, serializePlace, PLACE_NAME_TAKEN_ERROR } from '../../../lib/placeCatalog'
+import { isPlaceKind, validatePlaceInput } from '../../../lib/places'
+
+// Campus place catalog: anyone can browse, admins add places
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === 'GET') {
+    try {
+      const query = typeof req.query.q === 'string' ? req.query.q : undefined
+      const kind = isPlaceKind(req.query.kind) ? req.query.kind : undefined
+
+      // Archived places are only listed for the admins who can restore them
+      let includeArchived = false
+      if (req.query.include_archived === 'true') {
+        const auth = await getUserFromRequest(req)
+        includeArchived = !!auth && await userHasPermission(auth.userId, 'manage_places')
+      }
+
+      const places = await listPlaces({ query, kind, includeArchived })
+      const counts = await countPostsByPlace(places.map(p => p.id as number), await getDeactivatedUserIds())
+
+      res.setHeader('Cache-Control', includeArchived ? 'private, no-store' : 'public, max-age=60, stale-while-revalidate=300')
+      return res.status(200).json({
+        places: places.map(place => serializePlace(place, counts.get(place.id as number) || 0))
+      })
+    } catch (error) {
+      console.error('List places error:', error)
+      return res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+
+  if (req.method === 'POST') {
+    try {
+      const actor = await requirePermission(req, res, 'manage_places')
+      if (!actor) return
+
+      const validation = validatePlaceInput(req.body)
+      if (!validation.valid || !validation.value?.name || !validation.value.kind) {
+        return res.status(400).json({ error: validation.message || 'Invalid place' })
+      }
+
+      const { name, kind, description } = validation.value
+      const place = await createPlace({ name, kind, description }, actor.userId)
+      if (!place) {
+        return res.status(409).json({ error: PLACE_NAME_TAKEN_ERROR })
+      }
+
+      return res.status(201).json({ place: serializePlace(place, 0) })
+    } catch (error) {
+      console.error('Create place error:', error)
+      return res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+
+  res.setHeader('Allow', ['GET', 'POST'])
+  return res.status(405).json({ error: 'Method not allowed' })
+}
@@ -1,14 +1,58 @@
 import { NextApiRequest, NextApiResponse } from 'next'
-import { getCollection, Collections, withRetry, serializeDoc } from '../../../lib/mongodb'
+import { getCollection, Collections, withRetry, serializeDoc, UserRole, PostMedia, PostEvent, PostInternship, PostAudience, PostPoll, Post as PostDoc } from '../../../lib/mongodb'
 import { getUserFromRequest } from '../../../lib/auth'
+import { parseForm, uploadToCloudinary, getFileType } from '../../../lib/upload'
+import { getRoleForUser, userHasPermission } from '../../../lib/permissions'
+import { canPostInCategory, getUserRole } from '../../../lib/roles'
+import { getPostMedia, parseMediaLayout, MAX_POST_MEDIA, MediaItem, MediaLayoutSlot } from '../../../lib/postMedia'
+import { getPlace, getTaggablePlace, toPlaceSummary } from '../../../lib/placeCatalog'
+import { parseTagInput, remapTags, TagInput } from '../../../lib/postTags'
+import { deletePostTags, findUntaggableUsers, getPostTags, notifyTaggedUsers, replacePostTags } from '../../../lib/postTagging'
+import { deleteSavesOfPost } from '../../../lib/savedPostStorage'
+import { extractHashtags } from '../../../lib/hashtags'
+import { recordHashtagChanges } from '../../../lib/hashtagIndex'
+import { newMentions } from '../../../lib/mentions'
+import { findMentionedUsers, notifyMentionedUsers } from '../../../lib/mentionIndex'
+import { isPublished, PostStatus } from '../../../lib/postSchedule'
+import { toPostCategory } from '../../../lib/postCategories'
+import { deletePostRevisions, recordPostRevision } from '../../../lib/postRevisions'
+import { isEventCategory, validateEventInput } from '../../../lib/events'
+import { applyEventChange, deleteEventRsvps } from '../../../lib/eventAttendance'
+import { isInternshipCategory, validateInternshipInput } from '../../../lib/internships'
+import { deleteInternshipTracking } from '../../../lib/internshipTracking'
+import { validateAudienceInput } from '../../../lib/postAudience'
+import { filterAudienceMembers } from '../../../lib/closeFriends'
+import { lockedPollChange, validatePollInput } from '../../../lib/polls'
+import { countPollVoters, deletePollVotes } from '../../../lib/pollVotes'
+import { buildPostViews, findPostsInOrder } from '../../../lib/postViews'
+import { isRepost } from '../../../lib/reposts'
+import { deleteRepostsOf, resolveReposts } from '../../../lib/repostStorage'
+
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+}
 
 interface Post {
   id: number
   user_id: number
   caption: string
-  category: string
+  category: PostDoc['category']
+  media?: PostMedia[]
   media_url: string
-  media_type: string
+  media_type: PostDoc['media_type']
+  place_id?: number
+  hashtags?: string[]
+  mentions?: number[]
+  status?: PostStatus
+  edited_at?: Date
+  event?: PostEvent
+  internship?: PostInternship
+  audience?: PostAudience
+  poll?: PostPoll
+  repost_of?: number
+  quote_of?: number
   created_at: Date
 }
 
@@ -18,6 +62,7 @@ interface User {
   department: string
   year: string
   profile_image: string | null
+  role?: UserRole
 }
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
@@ -30,16 +75,28 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   const id = parseInt(postId)
   if (Number.isNaN(id)) return res.status(400).json({ error: 'Invalid post id' })
 
+  if (req.method === 'GET') {
+    try {
+      // Authentication optional for reading; posts the viewer may not see are not found
+      const auth = await getUserFromRequest(req)
+      const viewerId = auth?.userId ?? null
+      // A repost's link shows its original
+      const [post] = await resolveReposts(await buildPostViews(await findPostsInOrder([id]), viewerId), viewerId)
+      if (!post) return res.status(404).json({ error: 'Post not found' })
+
+      res.setHeader('Cache-Control', 'private, max-age=10, stale-while-revalidate=30')
+      return res.status(200).json({ post })
+    } catch (error) {
+      console.error('Get post error:', error)
+      return res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+
   if (req.method === 'PUT') {
     try {
-      const auth = getUserFromRequest(req)
+      const auth = await getUserFromRequest(req)
       if (!auth) return res.status(401).json({ error: 'Unauthorized' })
 
-      const { caption } = req.body || {}
-      if (typeof caption !== 'string' || caption.trim().length === 0) {
-        return res.status(400).json({ error: 'Caption is required' })
-      }
-
       const posts = await getCollection<Post>(Collections.POSTS)
       const users = await getCollection<User>(Collections.USERS)
 
@@ -48,14 +105,217 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       })
       if (!post) return res.status(404).json({ error: 'Post not found' })
       if (post.user_id !== auth.userId) return res.status(403).json({ error: 'Forbidden' })
+      if (isRepost(post)) return res.status(400).json({ error: "Reposts can't be edited" })
 
-      await withRetry(async () => {
-        return posts.updateOne({ id }, { $set: { caption: caption.trim() } })
-      })
+      const { fields, files } = await parseForm(req, { maxFiles: MAX_POST_MEDIA })
+      const field = (name: string) => {
+        const value = fields[name]
+        return Array.isArray(value) ? value[0] : value
+      }
+
+      const now = new Date()
+      const $set: Partial<Post> = {}
+      const $unset: Record<string, ''> = {}
+
+      const captionField = field('caption')
+      const caption = captionField !== undefined ? captionField.toString().trim() : post.caption
+      if (captionField !== undefined) {
+        if (!caption) return res.status(400).json({ error: 'Caption is required' })
+        $set.caption = caption
+        $set.hashtags = extractHashtags(caption)
+        $set.mentions = await findMentionedUsers(auth.userId, caption)
+      }
+
+      const categoryField = field('category')
+      if (categoryField) {
+        const category = toPostCategory(categoryField)
+        // Keeping a category you can no longer post in is fine; switching to one is not
+        if (category !== post.category && !canPostInCategory(await getRoleForUser(auth.userId), category)) {
+          return res.status(403).json({ error: 'Only verified faculty and staff can post academic announcements' })
+        }
+        $set.category = category
+      }
+
+      // place_id is optional: omit to keep the location, '' to remove it
+      const placeField = field('place_id')
+      if (placeField === '') {
+        $unset.place_id = ''
+      } else if (placeField !== undefined) {
+        const placeId = parseInt(placeField)
+        // Keeping an archived place is fine; switching to one is not
+        if (Number.isNaN(placeId) || (placeId !== post.place_id && !(await getTaggablePlace(placeId)))) {
+          return res.status(400).json({ error: 'Unknown place' })
+        }
+        $set.place_id = placeId
+      }
+
+      // event is optional: omit to keep the details, '' to remove them (and
+      // their RSVPs). Moving out of the event categories removes them too.
+      const nextCategory = $set.category || post.category
+      const eventField = field('event')
+      if (eventField) {
+        if (!isEventCategory(nextCategory)) {
+          return res.status(400).json({ error: 'Only event posts can have event details' })
+        }
+        const eventInput = validateEventInput(eventField, now, post.event)
+        if (!eventInput.valid) return res.status(400).json({ error: eventInput.message })
+        const event: PostEvent = eventInput.value as PostEvent
+        // Already reminded about this start time; a new one gets a new reminder
+        if (post.event?.reminded_at && new Date(post.event.starts_at).getTime() === event.starts_at.getTime()) {
+          event.reminded_at = post.event.reminded_at
+        }
+        $set.event = event
+      } else if (post.event && (eventField === '' || !isEventCategory(nextCategory))) {
+        $unset.event = ''
+      }
+
+      // internship works the same way for INTERNSHIP posts; removing the
+      // details drops everyone's tracking of the listing
+      const internshipField = field('internship')
+      if (internshipField) {
+        if (!isInternshipCategory(nextCategory)) {
+          return res.status(400).json({ error: 'Only internship posts can have internship details' })
+        }
+        const internshipInput = validateInternshipInput(internshipField, now, post.internship)
+        if (!internshipInput.valid) return res.status(400).json({ error: internshipInput.message })
+        const internship: PostInternship = internshipInput.value as PostInternship
+        // Already reminded about this deadline; a new one gets a new reminder
+        if (post.internship?.reminded_at && new Date(post.internship.deadline).getTime() === internship.deadline.getTime()) {
+          internship.reminded_at = post.internship.reminded_at
+        }
+        $set.internship = internship
+      } else if (post.internship && (internshipField === '' || !isInternshipCategory(nextCategory))) {
+        $unset.internship = ''
+      }
+
+      // audience is optional: omit to keep it; {"type":"public"} opens the post to everyone
+      const audienceField = field('audience')
+      if (audienceField) {
+        const audienceInput = validateAudienceInput(audienceField)
+        if (!audienceInput.valid) return res.status(400).json({ error: audienceInput.message })
+        if (audienceInput.value) {
+          $set.audience = audienceInput.value
+        } else if (post.audience) {
+          $unset.audience = ''
+        }
+      }
+
+      // poll (JSON) replaces the poll, '' removes it along with its votes.
+      // Once people have voted only the closing time can change
+      const pollField = field('poll')
+      if (pollField) {
+        const pollInput = validatePollInput(pollField, now, post.poll)
+        if (!pollInput.valid) return res.status(400).json({ error: pollInput.message })
+        const poll = pollInput.value as PostPoll
+        const locked = post.poll && (await countPollVoters(id)) > 0 ? lockedPollChange(post.poll, poll) : null
+        if (locked) return res.status(400).json({ error: locked })
+        $set.poll = poll
+      } else if (post.poll && pollField === '') {
+        $unset.poll = ''
+      }
+
+      // media_layout lists kept items by index and "new" for each uploaded
+      // file, in the new order; files without a layout replace everything
+      const currentMedia = getPostMedia(post)
+      const mediaFiles = (Array.isArray(files.media) ? files.media : files.media ? [files.media] : [])
+        .filter(file => file && file.filepath)
+      const fileTypes = mediaFiles.map(file => getFileType(file.originalFilename || ''))
+      if (fileTypes.includes('unknown')) {
+        return res.status(400).json({ error: 'Unsupported file type' })
+      }
+      const layoutField = field('media_layout')
+      let layout: MediaLayoutSlot[] | null = null
+      if (layoutField !== undefined) {
+        const parsed = parseMediaLayout(layoutField, currentMedia.length, mediaFiles.length)
+        if (!parsed.valid) return res.status(400).json({ error: parsed.message })
+        layout = parsed.layout as MediaLayoutSlot[]
+      } else if (mediaFiles.length > 0) {
+        layout = mediaFiles.map(() => null)
+      }
+      const mediaChanged = !!layout && (layout.length !== currentMedia.length || layout.some((slot, index) => slot !== index))
+
+      let nextMedia = currentMedia
+      if (layout && mediaChanged) {
+        let uploaded: MediaItem[]
+        try {
+          const uploadResults = await Promise.all(
+            mediaFiles.map((file, index) => uploadToCloudinary(file.filepath, fileTypes[index] as 'image' | 'video'))
+          )
+          uploaded = uploadResults.map(result => ({ url: result.url, type: result.type === 'video' ? 'video' : 'image' }))
+        } catch (uploadError) {
+          console.error('Post edit upload failed:', uploadError)
+          return res.status(500).json({ error: 'File upload failed' })
+        }
+        let nextUpload = 0
+        nextMedia = layout.map(slot => slot === null ? uploaded[nextUpload++] : currentMedia[slot])
+        const media: PostMedia[] = nextMedia.map(item => ({ url: item.url, type: item.type === 'video' ? 'VIDEO' : 'IMAGE' }))
+        $set.media = media
+        $set.media_url = media[0].url
+        $set.media_type = media[0].type
+      }
+
+      // tags is optional: omit to keep them (following their items if the
+      // media moved), or send the full new list
+      const currentTags = (await getPostTags([id])).get(id) || []
+      let tags: TagInput[] | null = null
+      const tagsField = field('tags')
+      if (tagsField !== undefined) {
+        const tagInput = parseTagInput(tagsField, nextMedia)
+        if (!tagInput.valid) return res.status(400).json({ error: tagInput.message })
+        tags = tagInput.tags || []
+
+        // Only people being added need to allow it; existing tags stay
+        const currentIds = new Set(currentTags.map(tag => tag.user.id))
+        const untaggable = await findUntaggableUsers(auth.userId, tags.map(tag => tag.user_id).filter(userId => !currentIds.has(userId)))
+        if (untaggable.length > 0) {
+          return res.status(400).json({ error: "Some of these people can't be tagged", user_ids: untaggable })
+        }
+      } else if (layout && mediaChanged) {
+        tags = remapTags(currentTags, layout).map(tag => ({
+          user_id: tag.user.id,
+          media_index: tag.media_index,
+          ...(tag.x !== null && tag.y !== null && { x: tag.x, y: tag.y }),
+        }))
+      }
+
+      // Drafts announce nothing until they're published, and have no history
+      const live = isPublished(post)
+      const edited = (captionField !== undefined && caption !== post.caption)
+        || (!!$set.category && $set.category !== post.category)
+        || ($unset.place_id !== undefined && !!post.place_id)
+        || ($set.place_id !== undefined && $set.place_id !== post.place_id)
+        || mediaChanged
+      if (live && edited) {
+        await recordPostRevision(post, now)
+        $set.edited_at = now
+      }
+
+      if (Object.keys($set).length > 0 || Object.keys($unset).length > 0) {
+        await withRetry(async () => {
+          return posts.updateOne({ id }, { ...(Object.keys($set).length > 0 && { $set }), ...(Object.keys($unset).length > 0 && { $unset }) })
+        })
+      }
+      if (live && $set.hashtags) {
+        // Posts from before hashtags were stored fall back to their old caption
+        await recordHashtagChanges(post.hashtags ?? extractHashtags(post.caption), $set.hashtags)
+      }
+      const newlyTagged = tags ? await replacePostTags(id, auth.userId, tags) : []
 
       // Fetch updated post with user data
       const updated = await posts.findOne({ id })
+      if (updated && ($set.event || $unset.event !== undefined)) await applyEventChange(updated, post.event)
+      if ($unset.internship !== undefined) await deleteInternshipTracking([id])
+      if ($unset.poll !== undefined) await deletePollVotes([id])
       const user = await users.findOne({ id: updated?.user_id })
+      const place = updated?.place_id ? await getPlace(updated.place_id) : null
+      const tagMap = await getPostTags([id])
+      if (user && live && updated) notifyTaggedUsers(id, { id: auth.userId, name: user.name }, await filterAudienceMembers(updated, newlyTagged))
+      if (user && live && updated && $set.mentions) {
+        // Only people the edit adds hear about it; posts from before mentions
+        // were stored fall back to their old caption
+        const mentionedBefore = post.mentions ?? await findMentionedUsers(post.user_id, post.caption)
+        await notifyMentionedUsers(id, { id: auth.userId, name: user.name }, await filterAudienceMembers(updated, newMentions(mentionedBefore, $set.mentions)))
+      }
 
       // Get counts
       const auras = await getCollection(Collections.AURAS)
@@ -65,6 +325,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
       const transformed = {
         ...serializeDoc(updated),
+        media: updated ? getPostMedia(updated) : [],
+        place: place ? toPlaceSummary(place) : null,
+        tags: tagMap.get(id) || [],
         content: updated?.caption || '',
         author: user ? {
           id: user.id,
@@ -72,12 +335,14 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           department: user.department,
           year: user.year,
           profile_image: user.profile_image,
+          role: getUserRole(user),
         } : null,
         aura_count: auraCount,
         comment_count: commentCount,
       }
 
-      return res.status(200).json({ post: transformed, message: 'Post updated' })
+      const [resolved] = await resolveReposts([transformed], auth.userId)
+      return res.status(200).json({ post: resolved, message: 'Post updated' })
     } catch (error) {
       console.error('Update post error:', error)
       return res.status(500).json({ error: 'Internal server error' })
@@ -86,7 +351,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
   if (req.method === 'DELETE') {
     try {
-      const auth = getUserFromRequest(req)
+      const auth = await getUserFromRequest(req)
       if (!auth) return res.status(401).json({ error: 'Unauthorized' })
 
       const posts = await getCollection<Post>(Collections.POSTS)
@@ -95,11 +360,22 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         return posts.findOne({ id })
       })
       if (!post) return res.status(404).json({ error: 'Post not found' })
-      if (post.user_id !== auth.userId) return res.status(403).json({ error: 'Forbidden' })
+      // Moderators may remove anyone's post
+      if (post.user_id !== auth.userId && !(await userHasPermission(auth.userId, 'moderate_content'))) {
+        return res.status(403).json({ error: 'Forbidden' })
+      }
 
       await withRetry(async () => {
         return posts.deleteOne({ id })
       })
+      await deletePostTags(id)
+      await deleteSavesOfPost(id)
+      await deletePostRevisions([id])
+      await deleteEventRsvps([id])
+      await deleteInternshipTracking([id])
+      await deletePollVotes([id])
+      await deleteRepostsOf([id])
+      if (isPublished(post)) await recordHashtagChanges(post.hashtags ?? extractHashtags(post.caption), [])
       return res.status(204).end()
     } catch (error) {
       console.error('Delete post error:', error)
@@ -107,6 +383,6 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
   }
 
-  res.setHeader('Allow', ['PUT', 'DELETE'])
+  res.setHeader('Allow', ['GET', 'PUT', 'DELETE'])
   return res.status(405).json({ error: 'Method not allowed' })
 }
@@ -0,0 +1,53 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getCollection, Collections, withRetry, Post } from '../../../../lib/mongodb'
+import { getUserFromRequest } from '../../../../lib/auth'
+import { canViewPost } from '../../../../lib/postViews'
+import { listAttendees } from '../../../../lib/eventAttendance'
+import type { EventRsvpStatus } from '../../../../lib/events'
+
+// Anyone who can see the event sees who's going or interested; the waitlist
+// and who declined are for the organizer
+const PUBLIC_LISTS: EventRsvpStatus[] = ['going', 'interested']
+const ORGANIZER_LISTS: EventRsvpStatus[] = ['waitlisted', 'not_going']
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET'])
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const postId = parseInt(req.query.postId as string)
+  if (Number.isNaN(postId)) {
+    return res.status(400).json({ error: 'Invalid post id' })
+  }
+
+  const status = (req.query.status || 'going') as EventRsvpStatus
+  if (![...PUBLIC_LISTS, ...ORGANIZER_LISTS].includes(status)) {
+    return res.status(400).json({ error: 'Invalid status' })
+  }
+  const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 100)
+  const offset = Math.max(parseInt(req.query.offset as string) || 0, 0)
+
+  try {
+    // Authentication optional for reading
+    const auth = await getUserFromRequest(req)
+
+    const posts = await getCollection<Post>(Collections.POSTS)
+    const post = await withRetry(async () => {
+      return posts.findOne({ id: postId })
+    })
+    if (!post || !post.event || !(await canViewPost(auth?.userId ?? null, post))) {
+      return res.status(404).json({ error: 'Event not found' })
+    }
+    if (ORGANIZER_LISTS.includes(status) && post.user_id !== auth?.userId) {
+      return res.status(403).json({ error: 'Only the organizer can see this list' })
+    }
+
+    const attendees = await listAttendees(postId, status, { limit, offset })
+    res.setHeader('Cache-Control', 'private, no-store')
+    return res.status(200).json({ attendees })
+  } catch (error) {
+    console.error('Get event attendees error:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -0,0 +1,39 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getCollection, Collections, withRetry, Post } from '../../../../lib/mongodb'
+import { getUserFromRequest } from '../../../../lib/auth'
+import { canViewPost } from '../../../../lib/postViews'
+import { buildEventCalendar } from '../../../../lib/calendarFeeds'
+
+// The event as an .ics file, to add to any calendar app
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET'])
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const postId = parseInt(req.query.postId as string)
+  if (Number.isNaN(postId)) {
+    return res.status(400).json({ error: 'Invalid post id' })
+  }
+
+  try {
+    // Authentication optional for reading
+    const auth = await getUserFromRequest(req)
+
+    const posts = await getCollection<Post>(Collections.POSTS)
+    const post = await withRetry(async () => {
+      return posts.findOne({ id: postId })
+    })
+    if (!post || !post.event || !(await canViewPost(auth?.userId ?? null, post))) {
+      return res.status(404).json({ error: 'Event not found' })
+    }
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8')
+    res.setHeader('Content-Disposition', `attachment; filename="event-${postId}.ics"`)
+    res.setHeader('Cache-Control', 'private, no-store')
+    return res.status(200).send(await buildEventCalendar(post))
+  } catch (error) {
+    console.error('Event calendar export error:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -0,0 +1,66 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getCollection, Collections, withRetry, Post } from '../../../../lib/mongodb'
+import { getUserFromRequest } from '../../../../lib/auth'
+import { canViewPost } from '../../../../lib/postViews'
+import { isPollOpen, validateVoteInput } from '../../../../lib/polls'
+import { castVote, getPollState, removeVote } from '../../../../lib/pollVotes'
+
+/**
+ * A post's poll results and the caller's vote.
+ *
+ * GET works signed out. PUT takes { option_ids: number[] } and replaces any
+ * earlier vote; DELETE takes the vote back. Both stop once the poll closes.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!['GET', 'PUT', 'DELETE'].includes(req.method || '')) {
+    res.setHeader('Allow', ['GET', 'PUT', 'DELETE'])
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const postId = parseInt(req.query.postId as string)
+  if (Number.isNaN(postId)) {
+    return res.status(400).json({ error: 'Invalid post id' })
+  }
+
+  try {
+    const auth = await getUserFromRequest(req)
+    if (!auth && req.method !== 'GET') {
+      return res.status(401).json({ error: 'Unauthorized' })
+    }
+
+    const posts = await getCollection<Post>(Collections.POSTS)
+    const post = await withRetry(async () => {
+      return posts.findOne({ id: postId })
+    })
+    if (!post || !(await canViewPost(auth?.userId ?? null, post))) {
+      return res.status(404).json({ error: 'Post not found' })
+    }
+    if (!post.poll) {
+      return res.status(404).json({ error: 'This post has no poll' })
+    }
+
+    const open = isPollOpen(post.poll)
+    if (req.method !== 'GET' && !open) {
+      return res.status(400).json({ error: 'This poll has closed' })
+    }
+
+    if (req.method === 'PUT' && auth) {
+      const vote = validateVoteInput(post.poll, req.body?.option_ids)
+      if (!vote.valid) {
+        return res.status(400).json({ error: vote.message })
+      }
+      await castVote(postId, auth.userId, vote.value as number[])
+    }
+
+    if (req.method === 'DELETE' && auth) {
+      await removeVote(postId, auth.userId)
+    }
+
+    const results = await getPollState(postId, auth?.userId ?? null)
+    res.setHeader('Cache-Control', 'private, no-store')
+    return res.status(200).json({ results, open })
+  } catch (error) {
+    console.error('Poll vote error:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
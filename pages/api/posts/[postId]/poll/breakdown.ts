@@ -0,0 +1,45 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getCollection, Collections, withRetry, Post } from '../../../../../lib/mongodb'
+import { getUserFromRequest } from '../../../../../lib/auth'
+import { isPollBreakdown } from '../../../../../lib/polls'
+import { getPollBreakdown } from '../../../../../lib/pollVotes'
+
+// The author's results by voters' department or year (`?by=`); never names anyone
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET'])
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const postId = parseInt(req.query.postId as string)
+  if (Number.isNaN(postId)) {
+    return res.status(400).json({ error: 'Invalid post id' })
+  }
+  const by = req.query.by || 'department'
+  if (!isPollBreakdown(by)) {
+    return res.status(400).json({ error: 'Breakdown must be by department or year' })
+  }
+
+  try {
+    const auth = await getUserFromRequest(req)
+    if (!auth) return res.status(401).json({ error: 'Unauthorized' })
+
+    const posts = await getCollection<Post>(Collections.POSTS)
+    const post = await withRetry(async () => {
+      return posts.findOne({ id: postId })
+    })
+    if (!post || !post.poll) {
+      return res.status(404).json({ error: 'Poll not found' })
+    }
+    if (post.user_id !== auth.userId) {
+      return res.status(403).json({ error: 'Only the author can see the breakdown' })
+    }
+
+    const groups = await getPollBreakdown(postId, post.poll, by)
+    res.setHeader('Cache-Control', 'private, no-store')
+    return res.status(200).json({ by, groups })
+  } catch (error) {
+    console.error('Get poll breakdown error:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
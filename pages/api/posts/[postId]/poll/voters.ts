@@ -0,0 +1,47 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getCollection, Collections, withRetry, Post } from '../../../../../lib/mongodb'
+import { getUserFromRequest } from '../../../../../lib/auth'
+import { canViewPost } from '../../../../../lib/postViews'
+import { listOptionVoters } from '../../../../../lib/pollVotes'
+
+// Who picked an option (`?option=`), for named polls; anyone who can see the post can look
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET'])
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const postId = parseInt(req.query.postId as string)
+  const optionId = parseInt(req.query.option as string)
+  if (Number.isNaN(postId) || Number.isNaN(optionId)) {
+    return res.status(400).json({ error: 'Invalid post or option id' })
+  }
+  const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 100)
+  const offset = Math.max(parseInt(req.query.offset as string) || 0, 0)
+
+  try {
+    // Authentication optional for reading
+    const auth = await getUserFromRequest(req)
+
+    const posts = await getCollection<Post>(Collections.POSTS)
+    const post = await withRetry(async () => {
+      return posts.findOne({ id: postId })
+    })
+    if (!post || !post.poll || !(await canViewPost(auth?.userId ?? null, post))) {
+      return res.status(404).json({ error: 'Poll not found' })
+    }
+    if (post.poll.anonymous) {
+      return res.status(403).json({ error: 'Votes on this poll are anonymous' })
+    }
+    if (!post.poll.options.some(option => option.id === optionId)) {
+      return res.status(400).json({ error: 'Invalid option' })
+    }
+
+    const voters = await listOptionVoters(postId, optionId, { limit, offset })
+    res.setHeader('Cache-Control', 'private, no-store')
+    return res.status(200).json({ voters })
+  } catch (error) {
+    console.error('Get poll voters error:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -0,0 +1,79 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getCollection, Collections, withRetry, User } from '../../../../lib/mongodb'
+import { getUserFromRequest } from '../../../../lib/auth'
+import { isEmailVerified, EMAIL_NOT_VERIFIED_ERROR } from '../../../../lib/emailVerification'
+import { canViewPost } from '../../../../lib/postViews'
+import { repostBlockReason, REPOST_BLOCK_MESSAGES } from '../../../../lib/reposts'
+import {
+  createRepost,
+  findRepostTarget,
+  getRepostStats,
+  notifyRepost,
+  recordShare,
+  removeRepost,
+} from '../../../../lib/repostStorage'
+
+/**
+ * Repost a post to your followers (PUT) or take the repost back (DELETE).
+ * Reposting a repost shares its original. Only public posts whose author
+ * allows reposts can be reposted; taking a repost back always works.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!['PUT', 'DELETE'].includes(req.method || '')) {
+    res.setHeader('Allow', ['PUT', 'DELETE'])
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const postId = parseInt(req.query.postId as string)
+  if (Number.isNaN(postId)) {
+    return res.status(400).json({ error: 'Invalid post id' })
+  }
+
+  try {
+    const auth = await getUserFromRequest(req)
+    if (!auth) {
+      return res.status(401).json({ error: 'Unauthorized' })
+    }
+
+    const { post, author } = await findRepostTarget(postId)
+    const originalId = (post?.id as number | undefined) ?? postId
+
+    if (req.method === 'PUT') {
+      if (!post || !(await canViewPost(auth.userId, post))) {
+        return res.status(404).json({ error: 'Post not found' })
+      }
+      if (!(await isEmailVerified(auth.userId))) {
+        return res.status(403).json({ error: EMAIL_NOT_VERIFIED_ERROR })
+      }
+      if (post.user_id === auth.userId) {
+        return res.status(400).json({ error: "You can't repost your own post" })
+      }
+      const blocked = repostBlockReason(post, author)
+      if (blocked) {
+        return res.status(400).json({ error: REPOST_BLOCK_MESSAGES[blocked] })
+      }
+
+      if (await createRepost(auth.userId, post)) {
+        recordShare(auth.userId, post.user_id as number).catch(error => console.warn('Failed to record share:', error))
+        const users = await getCollection<User>(Collections.USERS)
+        const reposter = await withRetry(async () => {
+          return users.findOne({ id: auth.userId }, { projection: { id: 1, name: 1 } })
+        })
+        if (reposter) notifyRepost(post.user_id as number, { id: auth.userId, name: reposter.name }, originalId, false)
+      }
+    } else {
+      await removeRepost(auth.userId, originalId)
+    }
+
+    const { counts, mine } = await getRepostStats([originalId], auth.userId)
+    res.setHeader('Cache-Control', 'private, no-store')
+    return res.status(200).json({
+      post_id: originalId,
+      reposted: mine.has(originalId),
+      repost_count: counts.get(originalId) || 0,
+    })
+  } catch (error) {
+    console.error('Repost error:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -0,0 +1,38 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getCollection, Collections, withRetry, Post } from '../../../../lib/mongodb'
+import { getUserFromRequest } from '../../../../lib/auth'
+import { canViewPost } from '../../../../lib/postViews'
+import { getPostRevisionViews } from '../../../../lib/postRevisions'
+
+// Earlier versions of an edited post, for anyone who can see the post
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET'])
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const postId = parseInt(req.query.postId as string)
+  if (Number.isNaN(postId)) {
+    return res.status(400).json({ error: 'Invalid post id' })
+  }
+
+  try {
+    // Authentication optional for reading
+    const auth = await getUserFromRequest(req)
+
+    const posts = await getCollection<Post>(Collections.POSTS)
+    const post = await withRetry(async () => {
+      return posts.findOne({ id: postId })
+    })
+    if (!post || !(await canViewPost(auth?.userId ?? null, post))) {
+      return res.status(404).json({ error: 'Post not found' })
+    }
+
+    const revisions = await getPostRevisionViews(postId)
+    res.setHeader('Cache-Control', 'private, max-age=10, stale-while-revalidate=30')
+    return res.status(200).json({ edited_at: post.edited_at || null, revisions })
+  } catch (error) {
+    console.error('Get post revisions error:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -0,0 +1,76 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getCollection, Collections, withRetry, Post } from '../../../../lib/mongodb'
+import { getUserFromRequest } from '../../../../lib/auth'
+import { canViewPost } from '../../../../lib/postViews'
+import { hasEventEnded, isRegistrationOpen, isRsvpChoice } from '../../../../lib/events'
+import { getRsvp, getRsvpSummary, removeRsvp, setRsvp } from '../../../../lib/eventAttendance'
+
+/**
+ * The caller's answer to an event post, plus the event's counts.
+ *
+ * GET works signed out. PUT takes { status: 'going' | 'interested' | 'not_going' };
+ * "going" to a full event joins the waitlist. DELETE clears the answer.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!['GET', 'PUT', 'DELETE'].includes(req.method || '')) {
+    res.setHeader('Allow', ['GET', 'PUT', 'DELETE'])
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const postId = parseInt(req.query.postId as string)
+  if (Number.isNaN(postId)) {
+    return res.status(400).json({ error: 'Invalid post id' })
+  }
+
+  try {
+    const auth = await getUserFromRequest(req)
+    if (!auth && req.method !== 'GET') {
+      return res.status(401).json({ error: 'Unauthorized' })
+    }
+
+    const posts = await getCollection<Post>(Collections.POSTS)
+    const post = await withRetry(async () => {
+      return posts.findOne({ id: postId })
+    })
+    if (!post || !(await canViewPost(auth?.userId ?? null, post))) {
+      return res.status(404).json({ error: 'Post not found' })
+    }
+    if (!post.event) {
+      return res.status(404).json({ error: 'This post is not an event' })
+    }
+
+    if (req.method === 'PUT' && auth) {
+      const { status } = req.body || {}
+      if (!isRsvpChoice(status)) {
+        return res.status(400).json({ error: 'Status must be going, interested or not_going' })
+      }
+      if (hasEventEnded(post.event)) {
+        return res.status(400).json({ error: 'This event has already ended' })
+      }
+      if (status === 'going' && !isRegistrationOpen(post.event)) {
+        // Anyone already holding a spot or a place in line keeps it
+        const current = await getRsvp(postId, auth.userId)
+        if (current?.status !== 'going' && current?.status !== 'waitlisted') {
+          return res.status(400).json({ error: 'Registration for this event has closed' })
+        }
+      }
+      await setRsvp(post, auth.userId, status)
+    }
+
+    if (req.method === 'DELETE' && auth) {
+      await removeRsvp(post, auth.userId)
+    }
+
+    const rsvp = await getRsvpSummary(postId, auth?.userId ?? null)
+    res.setHeader('Cache-Control', 'private, no-store')
+    return res.status(200).json({
+      rsvp,
+      capacity: post.event.capacity ?? null,
+      registration_open: isRegistrationOpen(post.event),
+      ended: hasEventEnded(post.event),
+    })
+  } catch (error) {
+    console.error('Event RSVP error:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
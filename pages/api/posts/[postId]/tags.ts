@@ -0,0 +1,29 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getUserFromRequest } from '../../../../lib/auth'
+import { removeTag } from '../../../../lib/postTagging'
+
+// Tagged people take themselves off a post; authors edit tags through PUT /api/posts/[postId]
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'DELETE') {
+    res.setHeader('Allow', ['DELETE'])
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const postId = parseInt(req.query.postId as string)
+  if (Number.isNaN(postId)) {
+    return res.status(400).json({ error: 'Invalid post id' })
+  }
+
+  try {
+    const auth = await getUserFromRequest(req)
+    if (!auth) return res.status(401).json({ error: 'Unauthorized' })
+
+    if (!(await removeTag(postId, auth.userId))) {
+      return res.status(404).json({ error: 'You are not tagged in this post' })
+    }
+    return res.status(204).end()
+  } catch (error) {
+    console.error('Remove tag error:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -0,0 +1,71 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getCollection, Collections, withRetry, Post } from '../../../../lib/mongodb'
+import { getUserFromRequest } from '../../../../lib/auth'
+import { canViewPost } from '../../../../lib/postViews'
+import { isListingOpen, isTrackingStatus } from '../../../../lib/internships'
+import { getTracking, removeTracking, setTracking } from '../../../../lib/internshipTracking'
+
+/**
+ * The caller's own tracking of an internship post.
+ *
+ * GET works signed out (status is then null). PUT takes
+ * { status: 'interested' | 'applied' }; only applied can still be recorded
+ * once the deadline has passed. DELETE stops tracking it.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!['GET', 'PUT', 'DELETE'].includes(req.method || '')) {
+    res.setHeader('Allow', ['GET', 'PUT', 'DELETE'])
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const postId = parseInt(req.query.postId as string)
+  if (Number.isNaN(postId)) {
+    return res.status(400).json({ error: 'Invalid post id' })
+  }
+
+  try {
+    const auth = await getUserFromRequest(req)
+    if (!auth && req.method !== 'GET') {
+      return res.status(401).json({ error: 'Unauthorized' })
+    }
+
+    const posts = await getCollection<Post>(Collections.POSTS)
+    const post = await withRetry(async () => {
+      return posts.findOne({ id: postId })
+    })
+    if (!post || !(await canViewPost(auth?.userId ?? null, post))) {
+      return res.status(404).json({ error: 'Post not found' })
+    }
+    if (!post.internship) {
+      return res.status(404).json({ error: 'This post is not an internship listing' })
+    }
+
+    const open = isListingOpen(post.internship)
+
+    if (req.method === 'PUT' && auth) {
+      const { status } = req.body || {}
+      if (!isTrackingStatus(status)) {
+        return res.status(400).json({ error: 'Status must be interested or applied' })
+      }
+      if (status === 'interested' && !open) {
+        return res.status(400).json({ error: 'Applications for this internship have closed' })
+      }
+      await setTracking(postId, auth.userId, status)
+    }
+
+    if (req.method === 'DELETE' && auth) {
+      await removeTracking(postId, auth.userId)
+    }
+
+    const tracking = auth ? await getTracking(postId, auth.userId) : null
+    res.setHeader('Cache-Control', 'private, no-store')
+    return res.status(200).json({
+      status: tracking?.status || null,
+      updated_at: tracking?.updated_at || null,
+      open,
+    })
+  } catch (error) {
+    console.error('Internship tracking error:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -1,6 +1,7 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { getCollection, Collections, Post, Aura, withRetry, getNextSequenceValue } from '../../../lib/mongodb'
 import { getUserFromRequest } from '../../../lib/auth'
+import { PUBLISHED_POST_FILTER } from '../../../lib/postSchedule'
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -8,7 +9,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const auth = getUserFromRequest(req)
+    const auth = await getUserFromRequest(req)
     if (!auth) {
       return res.status(401).json({ error: 'Unauthorized' })
     }
@@ -31,7 +32,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     // Check if post exists and process aura
     const result = await withRetry(async () => {
       // Check if post exists
-      const post = await posts.findOne({ id: validPostId })
+      const post = await posts.findOne({ id: validPostId, ...PUBLISHED_POST_FILTER })
 
       if (!post) {
         return { error: 'Post not found', status: 404 }
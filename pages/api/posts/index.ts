@@ -1,7 +1,31 @@
 import { NextApiRequest, NextApiResponse } from 'next'
-import { getCollection, Collections, withRetry, User, Post, Aura, Comment, Follower, getNextSequenceValue, serializeDoc } from '../../../lib/mongodb'
+import { getCollection, Collections, withRetry, User, Post, PostMedia, Aura, Comment, Follower, getNextSequenceValue, serializeDoc } from '../../../lib/mongodb'
 import { getUserFromRequest } from '../../../lib/auth'
 import { parseForm, uploadToCloudinary, getFileType } from '../../../lib/upload'
+import { isEmailVerified, EMAIL_NOT_VERIFIED_ERROR } from '../../../lib/emailVerification'
+import { getRoleForUser } from '../../../lib/permissions'
+import { canPostInCategory, getUserRole } from '../../../lib/roles'
+import { getDeactivatedUserIds } from '../../../lib/accountStatus'
+import { getPostMedia, MAX_POST_MEDIA } from '../../../lib/postMedia'
+import { getPlaceSummaries, getTaggablePlace, toPlaceSummary } from '../../../lib/placeCatalog'
+import { parseTagInput } from '../../../lib/postTags'
+import { findUntaggableUsers, getPostTags, notifyTaggedUsers, replacePostTags } from '../../../lib/postTagging'
+import { getSavedPostIds } from '../../../lib/savedPostStorage'
+import { extractHashtags } from '../../../lib/hashtags'
+import { findMentionedUsers, notifyMentionedUsers } from '../../../lib/mentionIndex'
+import { getFollowedHashtags, recordHashtagChanges } from '../../../lib/hashtagIndex'
+import { MAX_DRAFTS_PER_USER, PUBLISHED_POST_FILTER, validatePollSchedule, validateScheduledAt } from '../../../lib/postSchedule'
+import { countDrafts } from '../../../lib/postPublishing'
+import { toPostCategory } from '../../../lib/postCategories'
+import { isEventCategory, validateEventInput, EventDetails } from '../../../lib/events'
+import { eligibilityFilter, isInternshipCategory, openListingFilter, validateInternshipInput, InternshipDetails } from '../../../lib/internships'
+import { audienceFilter, validateAudienceInput, PostAudience } from '../../../lib/postAudience'
+import { filterAudienceMembers, getAudienceViewer } from '../../../lib/closeFriends'
+import { validatePollInput, PostPoll } from '../../../lib/polls'
+import { NOT_REPOST_FILTER } from '../../../lib/reposts'
+import { findQuoteTarget, notifyRepost, recordShare, resolveReposts } from '../../../lib/repostStorage'
+import { parseFeedMode, FOR_YOU_CANDIDATE_LIMIT, RankingExplanation } from '../../../lib/feedRanking'
+import { rankForViewer } from '../../../lib/feedRankingStorage'
 
 export const config = {
   api: {
@@ -24,42 +48,62 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 async function handleGetPosts(req: NextApiRequest, res: NextApiResponse) {
   try {
     // Authentication optional for reading posts
-    const auth = getUserFromRequest(req)
+    const auth = await getUserFromRequest(req)
 
     const { category, limit = '20', offset = '0' } = req.query
 
-    // Map frontend category values to database enum values
-    const categoryMap: { [key: string]: string } = {
-      'general': 'GENERAL',
-      'academic': 'ACADEMIC',
-      'events': 'EVENTS',
-      'event': 'EVENT', // Support both singular and plural
-      'clubs': 'CLUBS',
-      'sports': 'SPORTS',
-      'social': 'SOCIAL',
-      'internship': 'INTERNSHIP',
-      'workshop': 'WORKSHOP',
-      'library': 'LIBRARY_MEMORY',
-      'library_memory': 'LIBRARY_MEMORY',
-      'memory': 'LIBRARY_MEMORY',
-    }
-
     const posts = await getCollection<Post>(Collections.POSTS)
     const users = await getCollection<User>(Collections.USERS)
     const comments = await getCollection<Comment>(Collections.COMMENTS)
     const auras = await getCollection<Aura>(Collections.AURAS)
     const followers = await getCollection<Follower>(Collections.FOLLOWERS)
 
-    // Convert category using mapping instead of just uppercase
-    const filter: any = {}
+    const filter: any = { ...PUBLISHED_POST_FILTER }
     if (category && category !== 'all') {
-      filter.category = categoryMap[(category as string).toLowerCase()] || 'GENERAL'
+      filter.category = toPostCategory(category as string)
+      Object.assign(filter, NOT_REPOST_FILTER)
+    }
+
+    // Location feed: posts tagged with one campus place
+    if (typeof req.query.place_id === 'string') {
+      const placeId = parseInt(req.query.place_id)
+      if (Number.isNaN(placeId)) {
+        return res.status(400).json({ error: 'Invalid place id' })
+      }
+      filter.place_id = placeId
+    }
+
+    // Followed hashtags: `followed_hashtags=true` narrows the feed to posts
+    // carrying them, and every post says which of them it carries
+    const followedTags = auth ? await getFollowedHashtags(auth.userId) : []
+    if (req.query.followed_hashtags === 'true') {
+      if (followedTags.length === 0) {
+        res.setHeader('Cache-Control', 'private, max-age=10, stale-while-revalidate=30')
+        return res.status(200).json({ posts: [] })
+      }
+      filter.hashtags = { $in: followedTags }
+    }
+    const followedTagSet = new Set(followedTags)
+
+    // Internship listings open to a department and/or year of study
+    // (`department`, `year`); other posts are left out while filtering
+    const eligibleDepartment = typeof req.query.department === 'string' ? req.query.department : undefined
+    const eligibleYear = typeof req.query.year === 'string' ? parseInt(req.query.year) : undefined
+    if (eligibleYear !== undefined && Number.isNaN(eligibleYear)) {
+      return res.status(400).json({ error: 'Invalid year' })
+    }
+    if (eligibleDepartment || eligibleYear) {
+      Object.assign(filter, eligibilityFilter({ department: eligibleDepartment, year: eligibleYear }))
     }
 
     // If viewing another user's posts and they are private and not followed, gate results
     const viewingUserId = (req.query as any).userId ? parseInt((req.query as any).userId) : undefined
     if (viewingUserId && !isNaN(viewingUserId)) {
       const target = await users.findOne({ id: viewingUserId })
+      if (target?.is_deactivated) {
+        res.setHeader('Cache-Control', 'private, max-age=10, stale-while-revalidate=30')
+        return res.status(200).json({ posts: [] })
+      }
       if (target?.is_private) {
         const following = auth ? await followers.findOne({ 
           follower_id: auth.userId, 
@@ -72,15 +116,47 @@ async function handleGetPosts(req: NextApiRequest, res: NextApiResponse) {
         }
       }
       filter.user_id = viewingUserId
+      Object.assign(filter, NOT_REPOST_FILTER)
+    } else {
+      // Expired internship listings drop out of feeds but stay on profiles
+      Object.assign(filter, openListingFilter())
+
+      // Deactivated accounts' posts stay hidden until they log back in
+      const deactivatedIds = await getDeactivatedUserIds()
+      if (deactivatedIds.length > 0) {
+        filter.user_id = { $nin: deactivatedIds }
+      }
     }
 
-    const postList = await withRetry(async () => {
-      return posts.find(filter)
-        .sort({ created_at: -1 })
-        .limit(parseInt(limit as string))
-        .skip(parseInt(offset as string))
-        .toArray()
-    })
+    // Posts limited to an audience only reach the people in it
+    Object.assign(filter, audienceFilter(await getAudienceViewer(auth?.userId ?? null, viewingUserId ? [viewingUserId] : undefined)))
+
+    // `mode=for_you` ranks the newest matching posts for the viewer (see
+    // lib/feedRanking.ts) and pages through that ranking; profiles and
+    // signed-out readers always get the chronological feed
+    const mode = auth && !viewingUserId ? parseFeedMode(req.query.mode) : 'chronological'
+    let rankings = new Map<number, RankingExplanation>()
+    let postList: Post[]
+    if (mode === 'for_you' && auth) {
+      const candidates = await withRetry(async () => {
+        return posts.find(filter)
+          .sort({ created_at: -1 })
+          .limit(FOR_YOU_CANDIDATE_LIMIT)
+          .toArray()
+      })
+      const ranked = await rankForViewer(auth.userId, candidates)
+      const start = parseInt(offset as string) || 0
+      postList = ranked.slice(start, start + parseInt(limit as string)).map(({ item }) => item)
+      rankings = new Map(ranked.map(({ item, explanation }) => [item.id as number, explanation]))
+    } else {
+      postList = await withRetry(async () => {
+        return posts.find(filter)
+          .sort({ created_at: -1 })
+          .limit(parseInt(limit as string))
+          .skip(parseInt(offset as string))
+          .toArray()
+      })
+    }
 
     if (postList.length === 0) {
       res.setHeader('Cache-Control', 'private, max-age=10, stale-while-revalidate=30')
@@ -90,6 +166,7 @@ async function handleGetPosts(req: NextApiRequest, res: NextApiResponse) {
     // Get all unique user IDs and post IDs
     const userIds = [...new Set(postList.map(p => p.user_id))].filter(Boolean) as number[]
     const postIds = postList.map(p => p.id).filter(Boolean) as number[]
+    const placeIds = postList.map(p => p.place_id).filter(Boolean) as number[]
     
     console.log('📊 Posts data:', {
       totalPosts: postList.length,
@@ -99,12 +176,15 @@ async function handleGetPosts(req: NextApiRequest, res: NextApiResponse) {
     })
 
     // Fetch related data in parallel
-    const [postUsers, postComments, postAuras, likedPosts, followingRelations] = await Promise.all([
+    const [postUsers, postComments, postAuras, likedPosts, followingRelations, placeMap, tagMap, savedPostIdSet] = await Promise.all([
       users.find({ id: { $in: userIds } as any }).toArray(),
       comments.find({ post_id: { $in: postIds } as any }).toArray(),
       auras.find({ post_id: { $in: postIds } as any }).toArray(),
       auth ? auras.find({ user_id: auth.userId, post_id: { $in: postIds } as any }).toArray() : Promise.resolve([]),
-      auth ? followers.find({ follower_id: auth.userId, following_id: { $in: userIds } as any }).toArray() : Promise.resolve([])
+      auth ? followers.find({ follower_id: auth.userId, following_id: { $in: userIds } as any }).toArray() : Promise.resolve([]),
+      getPlaceSummaries(placeIds),
+      getPostTags(postIds),
+      auth ? getSavedPostIds(auth.userId, postIds) : Promise.resolve(new Set<number>())
     ])
 
     // Create lookup maps
@@ -182,6 +262,9 @@ async function handleGetPosts(req: NextApiRequest, res: NextApiResponse) {
 
       return {
         ...serializeDoc(post),
+        media: getPostMedia(post),
+        place: post.place_id ? placeMap.get(post.place_id) || null : null,
+        tags: tagMap.get(post.id) || [],
         content: post.caption || '',
         user: {
           id: author?.id || post.user_id,
@@ -189,6 +272,7 @@ async function handleGetPosts(req: NextApiRequest, res: NextApiResponse) {
           department: author?.department || 'Unknown',
           year: author?.year || 1,
           profile_image: author?.profile_image || null,
+          role: getUserRole(author),
         },
         author: {
           id: author?.id || post.user_id,
@@ -196,10 +280,13 @@ async function handleGetPosts(req: NextApiRequest, res: NextApiResponse) {
           department: author?.department || 'Unknown',
           year: author?.year || 1,
           profile_image: author?.profile_image || null,
+          role: getUserRole(author),
         },
         aura_count: auraCount,
         comment_count: commentCount,
         user_liked: auth ? likedPostIdSet.has(post.id) : false,
+        user_saved: savedPostIdSet.has(post.id),
+        followed_hashtags: (post.hashtags || []).filter((tag: string) => followedTagSet.has(tag)),
         is_following_author: auth && author?.id ? followingIdSet.has(author.id) : false,
         recent_comments: postCommentsData,
         comments: postCommentsData,
@@ -210,9 +297,18 @@ async function handleGetPosts(req: NextApiRequest, res: NextApiResponse) {
       }
     })
 
+    // Reposts show their original, or drop out once it can't be shown
+    const resolved = await resolveReposts(transformedPosts, auth?.userId ?? null)
+
+    // Ranked items say why they scored what they did; reposts were ranked
+    // as the repost, not the original
+    const feed = mode === 'for_you'
+      ? resolved.map(item => ({ ...item, ranking: rankings.get(item.repost_id ?? item.id) || null }))
+      : resolved
+
     // Small cache to improve perceived performance
     res.setHeader('Cache-Control', 'private, max-age=10, stale-while-revalidate=30')
-    res.status(200).json({ posts: transformedPosts })
+    res.status(200).json({ posts: feed })
   } catch (error) {
     console.error('Get posts error:', error)
     res.status(500).json({ error: 'Internal server error' })
@@ -229,16 +325,21 @@ async function handleCreatePost(req: NextApiRequest, res: NextApiResponse) {
 
   try {
     // Verify authentication
-    const auth = getUserFromRequest(req)
+    const auth = await getUserFromRequest(req)
     if (!auth) {
       console.log('❌ Authentication failed')
       return res.status(401).json({ error: 'Unauthorized' })
     }
     console.log('✅ Authentication successful for user:', auth.userId)
 
+    // Unverified accounts can browse but not post
+    if (!(await isEmailVerified(auth.userId))) {
+      return res.status(403).json({ error: EMAIL_NOT_VERIFIED_ERROR })
+    }
+
     // Parse form data
     console.log('📝 Parsing form data...')
-    const { fields, files } = await parseForm(req)
+    const { fields, files } = await parseForm(req, { maxFiles: MAX_POST_MEDIA })
     console.log('✅ Form parsed. Fields:', Object.keys(fields), 'Files:', Object.keys(files))
 
     // Accept either caption or legacy content field
@@ -249,76 +350,139 @@ async function handleCreatePost(req: NextApiRequest, res: NextApiResponse) {
 
     console.log('📝 Parsed data:', { caption: caption.substring(0, 50) + '...', categoryInput })
 
-    // Map category to valid enum values
-    const categoryMap: { [key: string]: string } = {
-      'general': 'GENERAL',
-      'academic': 'ACADEMIC',
-      'events': 'EVENTS',
-      'event': 'EVENT',
-      'clubs': 'CLUBS',
-      'sports': 'SPORTS',
-      'social': 'SOCIAL',
-      'internship': 'INTERNSHIP',
-      'workshop': 'WORKSHOP',
-      'library': 'LIBRARY_MEMORY',
-      'library_memory': 'LIBRARY_MEMORY',
-      'memory': 'LIBRARY_MEMORY',
+    const category = toPostCategory(categoryInput)
+
+    // `draft=true` saves without publishing (caption and media may still be
+    // missing); `scheduled_at` publishes later. Either way only the author sees it.
+    const draftField = Array.isArray(fields.draft) ? fields.draft[0] : fields.draft
+    const scheduledField = Array.isArray(fields.scheduled_at) ? fields.scheduled_at[0] : fields.scheduled_at
+    const isDraft = draftField === 'true'
+    let scheduledAt: Date | null = null
+    if (scheduledField && !isDraft) {
+      const schedule = validateScheduledAt(scheduledField)
+      if (!schedule.valid) {
+        return res.status(400).json({ error: schedule.message })
+      }
+      scheduledAt = schedule.value as Date
+    }
+    const status = isDraft ? 'draft' : scheduledAt ? 'scheduled' : 'published'
+    if (status !== 'published' && (await countDrafts(auth.userId)) >= MAX_DRAFTS_PER_USER) {
+      return res.status(400).json({ error: `You can have at most ${MAX_DRAFTS_PER_USER} drafts and scheduled posts` })
     }
 
-    const category = categoryMap[categoryInput.toLowerCase()] || 'GENERAL'
+    // Optional campus place
+    const placeField = Array.isArray(fields.place_id) ? fields.place_id[0] : fields.place_id
+    let place = null
+    if (placeField) {
+      const placeId = parseInt(placeField)
+      place = Number.isNaN(placeId) ? null : await getTaggablePlace(placeId)
+      if (!place) {
+        return res.status(400).json({ error: 'Unknown place' })
+      }
+    }
 
-    let mediaUrl = null
-    let mediaType = 'NONE'
+    // Official announcements are limited to verified faculty and staff
+    if (!canPostInCategory(await getRoleForUser(auth.userId), category)) {
+      return res.status(403).json({ error: 'Only verified faculty and staff can post academic announcements' })
+    }
 
-    // Handle file upload if present
-    if (files.media) {
-      console.log('📁 Processing file upload...')
-      const file = Array.isArray(files.media) ? files.media[0] : files.media
-      if (file && file.filepath) {
-        console.log('📁 File details:', {
-          originalFilename: file.originalFilename,
-          filepath: file.filepath,
-          size: file.size
-        })
+    // Optional event details (JSON), for EVENT/EVENTS posts only
+    const eventField = Array.isArray(fields.event) ? fields.event[0] : fields.event
+    let event: EventDetails | null = null
+    if (eventField) {
+      if (!isEventCategory(category)) {
+        return res.status(400).json({ error: 'Only event posts can have event details' })
+      }
+      const eventInput = validateEventInput(eventField)
+      if (!eventInput.valid) {
+        return res.status(400).json({ error: eventInput.message })
+      }
+      event = eventInput.value as EventDetails
+    }
 
-        const fileType = getFileType(file.originalFilename || '')
-        console.log('📁 File type detected:', fileType)
-
-        if (fileType !== 'unknown') {
-          try {
-            console.log('☁️ Uploading to Cloudinary...')
-            const uploadResult = await uploadToCloudinary(file.filepath, fileType)
-
-            if (uploadResult && uploadResult.url) {
-              mediaUrl = uploadResult.url
-              mediaType = fileType === 'image' ? 'IMAGE' : 'VIDEO'
-              console.log('✅ Upload successful:', mediaUrl)
-            } else {
-              console.warn('⚠️ Upload returned invalid result:', uploadResult)
-              mediaUrl = null
-              mediaType = 'NONE'
-            }
-          } catch (uploadError) {
-            console.error('❌ Upload failed:', uploadError)
-            return res.status(500).json({
-              error: 'File upload failed',
-              details: uploadError instanceof Error ? uploadError.message : 'Unknown upload error',
-              cloudinaryConfigured: !!(process.env.CLOUDINARY_CLOUD_NAME && process.env.CLOUDINARY_API_KEY && process.env.CLOUDINARY_API_SECRET)
-            })
-          }
-        } else {
-          console.log('❌ Unknown file type')
-          return res.status(400).json({ error: 'Unsupported file type' })
-        }
+    // Optional internship details (JSON), for INTERNSHIP posts only
+    const internshipField = Array.isArray(fields.internship) ? fields.internship[0] : fields.internship
+    let internship: InternshipDetails | null = null
+    if (internshipField) {
+      if (!isInternshipCategory(category)) {
+        return res.status(400).json({ error: 'Only internship posts can have internship details' })
+      }
+      const internshipInput = validateInternshipInput(internshipField)
+      if (!internshipInput.valid) {
+        return res.status(400).json({ error: internshipInput.message })
+      }
+      internship = internshipInput.value as InternshipDetails
+    }
+
+    // Optional audience (JSON); public when omitted
+    const audienceField = Array.isArray(fields.audience) ? fields.audience[0] : fields.audience
+    let audience: PostAudience | null = null
+    if (audienceField) {
+      const audienceInput = validateAudienceInput(audienceField)
+      if (!audienceInput.valid) {
+        return res.status(400).json({ error: audienceInput.message })
+      }
+      audience = audienceInput.value ?? null
+    }
+
+    // Optional poll (JSON), on any kind of post
+    const pollField = Array.isArray(fields.poll) ? fields.poll[0] : fields.poll
+    let poll: PostPoll | null = null
+    if (pollField) {
+      const pollInput = validatePollInput(pollField)
+      if (!pollInput.valid) {
+        return res.status(400).json({ error: pollInput.message })
+      }
+      poll = pollInput.value as PostPoll
+      const pollSchedule = validatePollSchedule(poll, scheduledAt || new Date())
+      if (!pollSchedule.valid) {
+        return res.status(400).json({ error: pollSchedule.message })
+      }
+    }
+
+    // Optional quoted post (id); quote posts show it under the caption and need no media
+    const quoteField = Array.isArray(fields.quote_of) ? fields.quote_of[0] : fields.quote_of
+    let quoted: { id: number; authorId: number } | null = null
+    if (quoteField) {
+      const target = await findQuoteTarget(auth.userId, parseInt(quoteField))
+      if ('error' in target) {
+        return res.status(400).json({ error: target.error })
       }
+      quoted = { id: target.post.id as number, authorId: target.post.user_id as number }
     }
 
-    // Validate required fields
-    if (!caption || caption.trim().length === 0) {
+    // Files arrive in the order the author arranged them
+    const mediaFiles = (Array.isArray(files.media) ? files.media : files.media ? [files.media] : [])
+      .filter(file => file && file.filepath)
+
+    if (mediaFiles.length > MAX_POST_MEDIA) {
+      return res.status(400).json({ error: `A post can have at most ${MAX_POST_MEDIA} photos and videos` })
+    }
+
+    const fileTypes = mediaFiles.map(file => getFileType(file.originalFilename || ''))
+    if (fileTypes.includes('unknown')) {
+      console.log('❌ Unknown file type')
+      return res.status(400).json({ error: 'Unsupported file type' })
+    }
+
+    // Optional people tags, checked before anything is uploaded
+    const tagsField = Array.isArray(fields.tags) ? fields.tags[0] : fields.tags
+    const tagInput = parseTagInput(tagsField, fileTypes.map(type => ({ type: type as 'image' | 'video' })))
+    if (!tagInput.valid) {
+      return res.status(400).json({ error: tagInput.message })
+    }
+    const tags = tagInput.tags || []
+    const untaggable = await findUntaggableUsers(auth.userId, tags.map(tag => tag.user_id))
+    if (untaggable.length > 0) {
+      return res.status(400).json({ error: "Some of these people can't be tagged", user_ids: untaggable })
+    }
+
+    // Validate required fields before anything is uploaded
+    if (!isDraft && (!caption || caption.trim().length === 0)) {
       console.log('❌ Validation failed: Caption is required')
       return res.status(400).json({ error: 'Caption is required' })
     }
-    if (!mediaUrl) {
+    if (!isDraft && mediaFiles.length === 0 && !quoted) {
       console.log('❌ Validation failed: Media file is required')
       return res.status(400).json({ error: 'Media file is required for posts' })
     }
@@ -333,6 +497,28 @@ async function handleCreatePost(req: NextApiRequest, res: NextApiResponse) {
 
     console.log('✅ All validations passed')
 
+    let media: PostMedia[] = []
+    if (mediaFiles.length > 0) {
+      console.log(`📁 Processing ${mediaFiles.length} file upload(s)...`)
+      try {
+        console.log('☁️ Uploading to Cloudinary...')
+        const uploadResults = await Promise.all(
+          mediaFiles.map((file, index) => uploadToCloudinary(file.filepath, fileTypes[index] as 'image' | 'video'))
+        )
+        media = uploadResults
+          .filter(result => result && result.url)
+          .map(result => ({ url: result.url, type: result.type === 'video' ? 'VIDEO' : 'IMAGE' }))
+        console.log('✅ Upload successful:', media.map(item => item.url))
+      } catch (uploadError) {
+        console.error('❌ Upload failed:', uploadError)
+        return res.status(500).json({
+          error: 'File upload failed',
+          details: uploadError instanceof Error ? uploadError.message : 'Unknown upload error',
+          cloudinaryConfigured: !!(process.env.CLOUDINARY_CLOUD_NAME && process.env.CLOUDINARY_API_KEY && process.env.CLOUDINARY_API_SECRET)
+        })
+      }
+    }
+
     // Create post in MongoDB
     console.log('🗄️ Creating post in database...')
     const posts = await getCollection<Post>(Collections.POSTS)
@@ -341,32 +527,58 @@ async function handleCreatePost(req: NextApiRequest, res: NextApiResponse) {
     let post
     try {
       const postId = await getNextSequenceValue('posts')
+      const hashtags = extractHashtags(caption)
+      const mentions = await findMentionedUsers(auth.userId, caption)
       const newPost: Post = {
         id: postId,
         user_id: auth.userId,
         caption: caption.trim(),
-        category: category as any,
-        media_url: String(mediaUrl),
-        media_type: mediaType as any,
+        category,
+        media,
+        media_url: media[0]?.url || '',
+        media_type: media[0]?.type || 'NONE',
+        ...(place && { place_id: place.id }),
+        ...(event && { event }),
+        ...(internship && { internship }),
+        ...(audience && { audience }),
+        ...(poll && { poll }),
+        ...(quoted && { quote_of: quoted.id }),
+        hashtags,
+        mentions,
+        ...(status !== 'published' && { status, updated_at: new Date() }),
+        ...(scheduledAt && { scheduled_at: scheduledAt }),
         created_at: new Date(),
       }
 
       await withRetry(async () => {
         return posts.insertOne(newPost as any)
       })
+      if (status === 'published') await recordHashtagChanges([], hashtags)
+      const taggedUserIds = tags.length > 0 ? await replacePostTags(postId, auth.userId, tags) : []
 
       // Fetch the created post with user data
       const createdPost = await posts.findOne({ id: postId })
       const postUser = await users.findOne({ id: auth.userId })
+      const tagMap = await getPostTags(taggedUserIds.length > 0 ? [postId] : [])
+      if (postUser && status === 'published') notifyTaggedUsers(postId, { id: auth.userId, name: postUser.name }, await filterAudienceMembers(newPost, taggedUserIds))
+      if (postUser && status === 'published') await notifyMentionedUsers(postId, { id: auth.userId, name: postUser.name }, await filterAudienceMembers(newPost, mentions))
+      if (postUser && quoted && status === 'published') {
+        recordShare(auth.userId, quoted.authorId).catch(error => console.warn('Failed to record share:', error))
+        notifyRepost(quoted.authorId, { id: auth.userId, name: postUser.name }, quoted.id, true)
+      }
 
       post = {
         ...serializeDoc(createdPost),
+        media: getPostMedia(createdPost || newPost),
+        place: place ? toPlaceSummary(place) : null,
+        tags: tagMap.get(postId) || [],
         user: postUser ? {
           id: postUser.id,
           name: postUser.name,
           department: postUser.department,
           year: postUser.year,
           profile_image: postUser.profile_image,
+          role: getUserRole(postUser),
         } : null,
         _count: {
           auras: 0,
@@ -387,10 +599,16 @@ async function handleCreatePost(req: NextApiRequest, res: NextApiResponse) {
       aura_count: 0,
       comment_count: 0,
       user_liked: false,
+      user_saved: false,
     }
+    // Quote posts come back with the original, as feeds show them
+    const [responsePost] = quoted ? await resolveReposts([transformedPost], auth.userId) : [transformedPost]
 
     console.log('✅ Post creation completed successfully')
-    res.status(201).json({ post: transformedPost, message: 'Post created successfully' })
+    res.status(201).json({
+      post: responsePost,
+      message: status === 'draft' ? 'Draft saved' : status === 'scheduled' ? 'Post scheduled' : 'Post created successfully',
+    })
   } catch (error) {
     console.error('❌ Create post error:', error)
     res.status(500).json({
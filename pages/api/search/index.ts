@@ -1,5 +1,10 @@
 import { NextApiRequest, NextApiResponse } from 'next'
-import { getCollection, Collections, User, Post } from '../../../lib/mongodb'
+import { getCollection, Collections, User } from '../../../lib/mongodb'
+import { ACTIVE_USER_FILTER, getDeactivatedUserIds } from '../../../lib/accountStatus'
+import { listPlaces, countPostsByPlace } from '../../../lib/placeCatalog'
+import type { PlaceKind } from '../../../lib/places'
+import { normalizeHashtag } from '../../../lib/hashtags'
+import { searchHashtags } from '../../../lib/hashtagIndex'
 
 // Define search results interface
 interface SearchUser {
@@ -36,6 +41,7 @@ interface SearchHashtag {
 interface SearchLocation {
   id: string
   name: string
+  kind: PlaceKind
   count: number
 }
 
@@ -65,6 +71,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     if (type === 'all' || type === 'users') {
       const users = await getCollection<User>(Collections.USERS)
       const userResults = await users.find({
+        ...ACTIVE_USER_FILTER,
         $or: [
           { username: { $regex: searchTerm, $options: 'i' } },
           { name: { $regex: searchTerm, $options: 'i' } }
@@ -87,47 +94,37 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     // Users can only search for usernames and hashtags
     results.posts = []
 
-    // Search hashtags (extract from post captions)
+    // Search hashtags by prefix, most used first
     if (type === 'all' || type === 'hashtags') {
       try {
-        const posts = await getCollection<Post>(Collections.POSTS)
-
-        // Find posts with hashtags matching the search term
-        const hashtagRegex = new RegExp(`#${searchTerm}\\w*`, 'gi')
-        const postsWithHashtags = await posts.find({
-          caption: { $regex: hashtagRegex }
-        })
-          .limit(100)
-          .toArray()
-
-        // Extract and count hashtags
-        const hashtagCounts: Record<string, number> = {}
-        postsWithHashtags.forEach(post => {
-          const hashtags = post.caption?.match(/#\w+/g) || []
-          hashtags.forEach(tag => {
-            const cleanTag = tag.slice(1).toLowerCase()
-            if (cleanTag.includes(searchTerm)) {
-              hashtagCounts[cleanTag] = (hashtagCounts[cleanTag] || 0) + 1
-            }
-          })
-        })
-
-        results.hashtags = Object.entries(hashtagCounts)
-          .map(([tag, count]) => ({ tag, count }))
-          .sort((a, b) => b.count - a.count)
-          .slice(0, 10)
+        const prefix = normalizeHashtag(searchTerm)
+        const hashtags = prefix ? await searchHashtags(prefix, 10) : []
+        results.hashtags = hashtags.map(h => ({ tag: h.tag, count: h.post_count }))
       } catch (error) {
         console.error('Hashtag search error:', error)
         results.hashtags = []
       }
     }
 
-    // Search locations (from post locations)
-    // Location search - currently disabled as Post model doesn't have location field
-    // Uncomment when location field is added to the Post model
-    if (type === 'locations') {
-      // Placeholder - return empty array for now
-      results.locations = []
+    // Search campus places, busiest first
+    if (type === 'all' || type === 'locations') {
+      try {
+        const places = await listPlaces({ query: searchTerm, limit: 50 })
+        const counts = await countPostsByPlace(places.map(p => p.id as number), await getDeactivatedUserIds())
+
+        results.locations = places
+          .map(place => ({
+            id: String(place.id),
+            name: place.name,
+            kind: place.kind,
+            count: counts.get(place.id as number) || 0,
+          }))
+          .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+          .slice(0, 10)
+      } catch (error) {
+        console.error('Location search error:', error)
+        results.locations = []
+      }
     }
 
     res.status(200).json({ results })
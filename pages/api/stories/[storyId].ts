@@ -0,0 +1,29 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getUserFromRequest } from '../../../lib/auth'
+import { deleteStory } from '../../../lib/storyStorage'
+
+// Authors can take a story down early; it leaves their highlights with it
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'DELETE') {
+    res.setHeader('Allow', ['DELETE'])
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const storyId = parseInt(req.query.storyId as string)
+  if (Number.isNaN(storyId)) {
+    return res.status(400).json({ error: 'Invalid story id' })
+  }
+
+  try {
+    const auth = await getUserFromRequest(req)
+    if (!auth) return res.status(401).json({ error: 'Unauthorized' })
+
+    if (!(await deleteStory(auth.userId, storyId))) {
+      return res.status(404).json({ error: 'Story not found' })
+    }
+    return res.status(204).end()
+  } catch (error) {
+    console.error('Delete story error:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
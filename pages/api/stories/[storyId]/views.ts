@@ -0,0 +1,44 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getUserFromRequest } from '../../../../lib/auth'
+import { canViewStoriesOf, findStory, getStoryViewers, recordStoryView } from '../../../../lib/storyStorage'
+
+/**
+ * Mark a story as watched (POST), or list who watched it (GET, its author
+ * only). Views are kept for a day after the story's 24 hours are up.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!['GET', 'POST'].includes(req.method || '')) {
+    res.setHeader('Allow', ['GET', 'POST'])
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const storyId = parseInt(req.query.storyId as string)
+  if (Number.isNaN(storyId)) {
+    return res.status(400).json({ error: 'Invalid story id' })
+  }
+
+  try {
+    const auth = await getUserFromRequest(req)
+    if (!auth) return res.status(401).json({ error: 'Unauthorized' })
+
+    const story = await findStory(storyId)
+    if (!story || !(await canViewStoriesOf(auth.userId, story.user_id))) {
+      return res.status(404).json({ error: 'Story not found' })
+    }
+
+    if (req.method === 'POST') {
+      await recordStoryView(story, auth.userId)
+      return res.status(204).end()
+    }
+
+    if (story.user_id !== auth.userId) {
+      return res.status(403).json({ error: 'Only the author can see who viewed a story' })
+    }
+    const viewers = await getStoryViewers(storyId)
+    res.setHeader('Cache-Control', 'private, no-store')
+    return res.status(200).json({ viewers, count: viewers.length })
+  } catch (error) {
+    console.error('Story views error:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
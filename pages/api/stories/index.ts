@@ -0,0 +1,75 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getUserFromRequest } from '../../../lib/auth'
+import { isEmailVerified, EMAIL_NOT_VERIFIED_ERROR } from '../../../lib/emailVerification'
+import { parseForm, uploadToCloudinary, getFileType } from '../../../lib/upload'
+import { createStory, getStoryTray } from '../../../lib/storyStorage'
+import { storyExpiresAt } from '../../../lib/stories'
+
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+}
+
+/**
+ * The stories tray (GET): live stories from the viewer and everyone they
+ * follow, one reel per author. POST shares a new story: one image or video
+ * as `file`, live for 24 hours.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const auth = await getUserFromRequest(req)
+  if (!auth) return res.status(401).json({ error: 'Unauthorized' })
+
+  if (req.method === 'GET') {
+    try {
+      const reels = await getStoryTray(auth.userId)
+      res.setHeader('Cache-Control', 'private, no-store')
+      return res.status(200).json({ reels })
+    } catch (error) {
+      console.error('Get story tray error:', error)
+      return res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+
+  if (req.method === 'POST') {
+    try {
+      if (!(await isEmailVerified(auth.userId))) {
+        return res.status(403).json({ error: EMAIL_NOT_VERIFIED_ERROR })
+      }
+
+      const { files } = await parseForm(req, { maxFiles: 1 })
+      const file = Array.isArray(files.file) ? files.file[0] : files.file
+      if (!file?.filepath) {
+        return res.status(400).json({ error: 'Add a photo or video' })
+      }
+
+      const fileType = getFileType(file.originalFilename || '')
+      if (fileType === 'unknown') {
+        return res.status(400).json({ error: 'Unsupported file type' })
+      }
+
+      const uploadResult = await uploadToCloudinary(file.filepath, fileType)
+      if (!uploadResult?.url) {
+        return res.status(500).json({ error: 'Upload failed' })
+      }
+
+      const story = await createStory(auth.userId, uploadResult.url, uploadResult.type === 'video' ? 'video' : 'image')
+      return res.status(201).json({
+        story: {
+          id: story.id,
+          media_url: story.media_url,
+          media_type: story.media_type,
+          created_at: story.created_at.toISOString(),
+          expires_at: storyExpiresAt(story.created_at).toISOString(),
+          viewed: true,
+        },
+      })
+    } catch (error) {
+      console.error('Create story error:', error)
+      return res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+
+  res.setHeader('Allow', ['GET', 'POST'])
+  return res.status(405).json({ error: 'Method not allowed' })
+}
@@ -1,6 +1,15 @@
 import { NextApiRequest, NextApiResponse } from 'next'
-import { getCollection, Collections, withRetry, serializeDoc } from '../../../lib/mongodb'
+import { getCollection, Collections, withRetry, serializeDoc, PostMedia, PostEvent, PostInternship, PostAudience, PostPoll } from '../../../lib/mongodb'
 import { getUserFromRequest } from '../../../lib/auth'
+import { getPostMedia } from '../../../lib/postMedia'
+import { getPlaceSummaries } from '../../../lib/placeCatalog'
+import { getPostTags } from '../../../lib/postTagging'
+import { getSavedPostIds } from '../../../lib/savedPostStorage'
+import { PUBLISHED_POST_FILTER } from '../../../lib/postSchedule'
+import { audienceFilter } from '../../../lib/postAudience'
+import { getAudienceViewer } from '../../../lib/closeFriends'
+import { NOT_REPOST_FILTER } from '../../../lib/reposts'
+import { resolveReposts } from '../../../lib/repostStorage'
 
 interface User {
   id: number
@@ -12,6 +21,7 @@ interface User {
   bio: string | null
   profile_image: string | null
   is_private: boolean
+  is_deactivated?: boolean
   created_at: Date
 }
 
@@ -20,8 +30,16 @@ interface Post {
   user_id: number
   caption: string
   category: string
+  media?: PostMedia[]
   media_url: string
   media_type: string
+  place_id?: number
+  edited_at?: Date
+  event?: PostEvent
+  internship?: PostInternship
+  audience?: PostAudience
+  poll?: PostPoll
+  quote_of?: number
   created_at: Date
 }
 
@@ -46,7 +64,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 async function handleGetUser(req: NextApiRequest, res: NextApiResponse) {
   try {
     const { userId } = req.query
-    const auth = getUserFromRequest(req)
+    const auth = await getUserFromRequest(req)
 
     // If userId is 'me', get current user
     let targetUserId: number
@@ -76,7 +94,8 @@ async function handleGetUser(req: NextApiRequest, res: NextApiResponse) {
       return users.findOne({ id: targetUserId })
     })
 
-    if (!user) {
+    // Deactivated accounts look the same as missing ones until they log back in
+    if (!user || (user.is_deactivated && auth?.userId !== targetUserId)) {
       return res.status(404).json({ error: 'User not found' })
     }
 
@@ -97,10 +116,16 @@ async function handleGetUser(req: NextApiRequest, res: NextApiResponse) {
       }
     }
 
-    // Get user's posts
+    // Get user's posts, leaving out reposts and the ones limited to an audience the viewer isn't in
+    const postFilter = {
+      user_id: targetUserId,
+      ...PUBLISHED_POST_FILTER,
+      ...NOT_REPOST_FILTER,
+      ...audienceFilter(await getAudienceViewer(auth?.userId ?? null, [targetUserId])),
+    }
     const userPosts = await withRetry(async () => {
       console.log('🔍 Fetching posts for user:', targetUserId)
-      const foundPosts = await posts.find({ user_id: targetUserId }).sort({ created_at: -1 }).limit(20).toArray()
+      const foundPosts = await posts.find(postFilter).sort({ created_at: -1 }).limit(20).toArray()
       console.log('📝 Found', foundPosts.length, 'posts for user', targetUserId)
       
       // Debug: Check if posts exist with different field
@@ -148,8 +173,15 @@ async function handleGetUser(req: NextApiRequest, res: NextApiResponse) {
       canViewPrivate = !!isFollowingDoc || (!!auth && auth.userId === targetUserId)
     }
 
+    const visiblePosts = canViewPrivate ? userPosts : []
+    const [placeMap, tagMap, savedPostIds] = await Promise.all([
+      getPlaceSummaries(visiblePosts.map(p => p.place_id).filter(Boolean) as number[]),
+      getPostTags(visiblePosts.map(p => p.id)),
+      auth ? getSavedPostIds(auth.userId, visiblePosts.map(p => p.id)) : Promise.resolve(new Set<number>())
+    ])
+
     // Transform posts
-    const transformedPosts = (canViewPrivate ? userPosts : []).map((post) => {
+    const transformedPosts = visiblePosts.map((post) => {
       const postAuraList = postAuras.filter(a => a.post_id === post.id)
       const auraCount = postAuraList.length
       const commentCount = commentCounts.get(post.id) || 0
@@ -160,21 +192,31 @@ async function handleGetUser(req: NextApiRequest, res: NextApiResponse) {
         user_id: post.user_id,
         caption: post.caption,
         category: post.category,
+        media: getPostMedia(post),
         media_url: post.media_url,
         media_type: post.media_type,
+        place: post.place_id ? placeMap.get(post.place_id) || null : null,
+        tags: tagMap.get(post.id) || [],
         created_at: post.created_at,
+        edited_at: post.edited_at || null,
+        event: post.event || null,
+        internship: post.internship || null,
+        audience: post.audience || null,
+        poll: post.poll || null,
+        quote_of: post.quote_of ?? null,
         content: post.caption || '',
         aura_count: auraCount,
         comment_count: commentCount,
         user_liked: userLiked,
+        user_saved: savedPostIds.has(post.id),
       }
     })
 
-    const postCount = await posts.countDocuments({ user_id: targetUserId })
+    const postCount = await posts.countDocuments(postFilter)
 
     const transformedUser = {
       ...serializeDoc(user),
-      posts: transformedPosts,
+      posts: await resolveReposts(transformedPosts, auth?.userId ?? null),
       follower_count: followerCount,
       following_count: followingCount,
       post_count: postCount,
@@ -193,7 +235,7 @@ async function handleGetUser(req: NextApiRequest, res: NextApiResponse) {
 
 async function handleUpdateUser(req: NextApiRequest, res: NextApiResponse) {
   try {
-    const auth = getUserFromRequest(req)
+    const auth = await getUserFromRequest(req)
     if (!auth) {
       return res.status(401).json({ error: 'Unauthorized' })
     }
@@ -1,6 +1,7 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { getCollection, Collections, withRetry, getNextSequenceValue } from '../../../../lib/mongodb'
 import { getUserFromRequest } from '../../../../lib/auth'
+import { removeFollow } from '../../../../lib/follows'
 
 interface User {
   id: number
@@ -24,7 +25,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   if (req.method === 'POST') {
     // Follow user
     try {
-      const auth = getUserFromRequest(req)
+      const auth = await getUserFromRequest(req)
       if (!auth) {
         return res.status(401).json({ error: 'Unauthorized' })
       }
@@ -126,7 +127,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   } else if (req.method === 'DELETE') {
     // Unfollow user
     try {
-      const auth = getUserFromRequest(req)
+      const auth = await getUserFromRequest(req)
       if (!auth) {
         return res.status(401).json({ error: 'Unauthorized' })
       }
@@ -179,12 +180,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         })
       }
 
-      await withRetry(async () => {
-        return followers.deleteOne({
-          follower_id: auth.userId,
-          following_id: targetUserId
-        })
-      })
+      await removeFollow(auth.userId, targetUserId)
 
       const followerCount = await followers.countDocuments({ following_id: targetUserId })
       const followingCount = await followers.countDocuments({ follower_id: auth.userId })
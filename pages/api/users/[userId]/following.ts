@@ -1,6 +1,7 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { getCollection, Collections } from '../../../../lib/mongodb'
 import { getUserFromRequest } from '../../../../lib/auth'
+import { getDeactivatedUserIds } from '../../../../lib/accountStatus'
 
 interface User {
   id: number
@@ -24,7 +25,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
   try {
     const { userId, limit = '20', offset = '0' } = req.query
-    const auth = getUserFromRequest(req)
+    const auth = await getUserFromRequest(req)
 
     if (!userId || Array.isArray(userId)) {
       return res.status(400).json({ error: 'Invalid user id' })
@@ -38,9 +39,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     const followers = await getCollection<Follower>(Collections.FOLLOWERS)
     const users = await getCollection<User>(Collections.USERS)
 
-    // Following of targetId (people targetId is following)
+    // Following of targetId (people targetId is following), minus deactivated accounts
     const followingDocs = await followers
-      .find({ follower_id: targetId })
+      .find({ follower_id: targetId, following_id: { $nin: await getDeactivatedUserIds() } })
       .skip(parseInt(offset as string))
       .limit(parseInt(limit as string))
       .toArray()
@@ -0,0 +1,31 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getUserFromRequest } from '../../../../lib/auth'
+import { canViewStoriesOf, listHighlights } from '../../../../lib/storyStorage'
+
+// A profile's highlights, shown to whoever may see its posts
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET'])
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const userId = parseInt(req.query.userId as string)
+  if (Number.isNaN(userId)) {
+    return res.status(400).json({ error: 'Invalid user id' })
+  }
+
+  try {
+    const auth = await getUserFromRequest(req)
+    const viewerId = auth?.userId ?? null
+    if (!(await canViewStoriesOf(viewerId, userId))) {
+      return res.status(403).json({ error: 'User not accessible' })
+    }
+
+    const highlights = await listHighlights(userId, viewerId)
+    res.setHeader('Cache-Control', 'private, no-store')
+    return res.status(200).json({ highlights })
+  } catch (error) {
+    console.error('Get highlights error:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -0,0 +1,27 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getUserFromRequest } from '../../../../lib/auth'
+import { getUserStories } from '../../../../lib/storyStorage'
+
+// A profile's live stories, watched from its avatar; null when there are none
+// or the viewer may not see them
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET'])
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const userId = parseInt(req.query.userId as string)
+  if (Number.isNaN(userId)) {
+    return res.status(400).json({ error: 'Invalid user id' })
+  }
+
+  try {
+    const auth = await getUserFromRequest(req)
+    const reel = await getUserStories(userId, auth?.userId ?? null)
+    res.setHeader('Cache-Control', 'private, no-store')
+    return res.status(200).json({ reel })
+  } catch (error) {
+    console.error('Get user stories error:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -0,0 +1,71 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getCollection, Collections, withRetry, User, Follower } from '../../../../lib/mongodb'
+import { getUserFromRequest } from '../../../../lib/auth'
+import { findTaggedPostIds } from '../../../../lib/postTagging'
+import { buildPostViews, findPostsInOrder } from '../../../../lib/postViews'
+import { resolveReposts } from '../../../../lib/repostStorage'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET'])
+    return res.status(405).json({ error: `Method ${req.method} not allowed` })
+  }
+
+  try {
+    const { userId } = req.query
+    const auth = await getUserFromRequest(req)
+
+    if (!userId || Array.isArray(userId)) {
+      return res.status(400).json({ error: 'Invalid user id' })
+    }
+
+    const targetId = userId === 'me' ? auth?.userId : parseInt(userId)
+    if (!targetId || Number.isNaN(targetId)) {
+      return res.status(400).json({ error: 'Invalid user id' })
+    }
+
+    const users = await getCollection<User>(Collections.USERS)
+    const target = await withRetry(async () => {
+      return users.findOne({ id: targetId })
+    })
+    if (!target || (target.is_deactivated && auth?.userId !== targetId)) {
+      return res.status(404).json({ error: 'User not found' })
+    }
+
+    const viewerId = auth?.userId ?? null
+    if (viewerId !== targetId) {
+      const blocks = await getCollection(Collections.BLOCKS)
+      const blockExists = viewerId ? await blocks.findOne({
+        $or: [
+          { blocker_id: viewerId, blocked_user_id: targetId },
+          { blocker_id: targetId, blocked_user_id: viewerId }
+        ]
+      }) : null
+      if (blockExists) {
+        return res.status(403).json({ error: 'User not accessible', blocked: true })
+      }
+
+      // A private profile's Tagged tab is gated like its posts
+      if (target.is_private) {
+        const followers = await getCollection<Follower>(Collections.FOLLOWERS)
+        const following = viewerId ? await followers.findOne({ follower_id: viewerId, following_id: targetId }) : null
+        if (!following) {
+          return res.status(200).json({ posts: [], can_view: false })
+        }
+      }
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 50)
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0)
+    const postIds = await findTaggedPostIds(targetId, { limit, offset })
+    const posts = await resolveReposts(
+      await buildPostViews(await findPostsInOrder(postIds), viewerId, { includePrivate: viewerId === targetId }),
+      viewerId
+    )
+
+    return res.status(200).json({ posts, can_view: true })
+  } catch (error) {
+    console.error('Get tagged posts error:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -1,6 +1,7 @@
 import { NextApiRequest, NextApiResponse } from 'next'
-import { getCollection, Collections, withRetry, User, Post, Message, Comment, Aura, Follower, FollowRequest } from '../../../lib/mongodb'
+import { getCollection, Collections, withRetry, User } from '../../../lib/mongodb'
 import { getUserFromRequest, rateLimitMiddleware, getClientIp, verifyPassword } from '../../../lib/auth'
+import { deactivateAccount } from '../../../lib/accountStatus'
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   // Rate limiting
@@ -16,7 +17,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
   
   // Authenticate user
-  const auth = getUserFromRequest(req)
+  const auth = await getUserFromRequest(req)
   if (!auth) {
     return res.status(401).json({ error: 'Unauthorized' })
   }
@@ -49,25 +50,16 @@ async function handleDeactivateAccount(req: NextApiRequest, res: NextApiResponse
     
     const isValidPassword = await verifyPassword(password, user.password_hash)
     if (!isValidPassword) {
-      return res.status(401).json({ error: 'Invalid password' })
+      // 403 rather than 401 so the client doesn't treat it as an expired session
+      return res.status(403).json({ error: 'Invalid password' })
     }
     
-    // Mark account as deactivated (soft delete)
-    await withRetry(async () => {
-      return users.updateOne(
-        { id: userId },
-        { 
-          $set: { 
-            is_deactivated: true,
-            deactivated_at: new Date()
-          } 
-        }
-      )
-    })
+    // Hide the account everywhere and sign it out; logging in again reactivates it
+    await deactivateAccount(userId)
     
     res.status(200).json({ 
       message: 'Account deactivated successfully',
-      info: 'You can reactivate your account by logging in again within 30 days'
+      info: 'You can reactivate your account at any time by logging in again'
     })
   } catch (error: any) {
     console.error('Deactivate account error:', error)
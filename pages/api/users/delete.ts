@@ -1,6 +1,7 @@
 import { NextApiRequest, NextApiResponse } from 'next'
-import { getCollection, Collections, withRetry, User, Post, Message, Comment, Aura, Follower, FollowRequest } from '../../../lib/mongodb'
+import { getCollection, Collections, withRetry, User } from '../../../lib/mongodb'
 import { getUserFromRequest, rateLimitMiddleware, getClientIp, verifyPassword } from '../../../lib/auth'
+import { scheduleAccountDeletion } from '../../../lib/accountDeletion'
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   // Strict rate limiting for delete operations
@@ -16,7 +17,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
   
   // Authenticate user
-  const auth = getUserFromRequest(req)
+  const auth = await getUserFromRequest(req)
   if (!auth) {
     return res.status(401).json({ error: 'Unauthorized' })
   }
@@ -30,7 +31,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
 async function handleDeleteAccount(req: NextApiRequest, res: NextApiResponse, userId: number) {
   try {
-    const { password, confirmation } = req.body
+    const { password, confirmation, anonymize_messages } = req.body
     
     if (!password || confirmation !== 'DELETE MY ACCOUNT') {
       return res.status(400).json({ 
@@ -52,36 +53,23 @@ async function handleDeleteAccount(req: NextApiRequest, res: NextApiResponse, us
     
     const isValidPassword = await verifyPassword(password, user.password_hash)
     if (!isValidPassword) {
-      return res.status(401).json({ error: 'Invalid password' })
+      // 403 rather than 401 so the client doesn't treat it as an expired session
+      return res.status(403).json({ error: 'Invalid password' })
     }
     
-    // Delete user data (GDPR compliance)
-    await withRetry(async () => {
-      const posts = await getCollection<Post>(Collections.POSTS)
-      const messages = await getCollection<Message>(Collections.MESSAGES)
-      const comments = await getCollection<Comment>(Collections.COMMENTS)
-      const auras = await getCollection<Aura>(Collections.AURAS)
-      const followers = await getCollection<Follower>(Collections.FOLLOWERS)
-      const followRequests = await getCollection<FollowRequest>(Collections.FOLLOW_REQUESTS)
-      
-      // Delete in parallel for better performance
-      await Promise.all([
-        posts.deleteMany({ user_id: userId }),
-        messages.deleteMany({ $or: [{ sender_id: userId }, { receiver_id: userId }] }),
-        comments.deleteMany({ user_id: userId }),
-        auras.deleteMany({ user_id: userId }),
-        followers.deleteMany({ $or: [{ follower_id: userId }, { following_id: userId }] }),
-        followRequests.deleteMany({ $or: [{ requester_id: userId }, { target_id: userId }] }),
-        users.deleteOne({ id: userId })
-      ])
+    // Nothing is removed yet: the account is hidden and signed out, and the
+    // purge job deletes it once the grace period is over
+    const purgeAt = await scheduleAccountDeletion(userId, {
+      anonymizeMessages: anonymize_messages === true
     })
     
     res.status(200).json({ 
-      message: 'Account permanently deleted',
-      info: 'All your data has been removed from our servers'
+      message: 'Account scheduled for deletion',
+      info: `Your account and data will be permanently deleted on ${purgeAt.toDateString()}. Log in before then to cancel.`,
+      purge_at: purgeAt.toISOString()
     })
   } catch (error: any) {
     console.error('Delete account error:', error)
-    res.status(500).json({ error: 'Failed to delete account' })
+    res.status(500).json({ error: 'Failed to schedule account deletion' })
   }
 }
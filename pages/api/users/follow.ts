@@ -1,6 +1,7 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { getCollection, Collections, User, Follower, getNextSequenceValue, serializeDoc } from '../../../lib/mongodb'
 import { getUserFromRequest } from '../../../lib/auth'
+import { removeFollow } from '../../../lib/follows'
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -8,7 +9,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const auth = getUserFromRequest(req)
+    const auth = await getUserFromRequest(req)
     if (!auth) {
       return res.status(401).json({ error: 'Unauthorized' })
     }
@@ -44,10 +45,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     if (existingFollow) {
       // Unfollow the user
-      await followers.deleteOne({
-        follower_id: auth.userId,
-        following_id: parseInt(userId)
-      })
+      await removeFollow(auth.userId, parseInt(userId))
       action = 'unfollowed'
     } else {
       // Follow the user
@@ -1,9 +1,16 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { getCollection, Collections, User, Post, Aura, Comment, Follower, serializeDoc, withRetry } from '../../../lib/mongodb'
 import { getUserFromRequest } from '../../../lib/auth'
+import { getPostMedia } from '../../../lib/postMedia'
+import { getPlaceSummaries } from '../../../lib/placeCatalog'
+import { getPostTags } from '../../../lib/postTagging'
+import { getSavedPostIds } from '../../../lib/savedPostStorage'
+import { PUBLISHED_POST_FILTER } from '../../../lib/postSchedule'
+import { NOT_REPOST_FILTER } from '../../../lib/reposts'
+import { resolveReposts } from '../../../lib/repostStorage'
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  const auth = getUserFromRequest(req)
+  const auth = await getUserFromRequest(req)
   if (!auth) return res.status(401).json({ error: 'Unauthorized' })
 
   if (req.method === 'GET') {
@@ -26,7 +33,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
       // Get user's posts with retry
       const userPosts = await withRetry(() => 
-        posts.find({ user_id: auth.userId })
+        posts.find({ user_id: auth.userId, ...PUBLISHED_POST_FILTER, ...NOT_REPOST_FILTER })
           .sort({ created_at: -1 })
           .limit(20)
           .toArray()
@@ -35,7 +42,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       // Get counts for each post
       const postIds = userPosts.map(p => p.id).filter(Boolean) as number[]
       
-      const [postAuras, postComments, followerCount, followingCount, postCount] = await Promise.all([
+      const [postAuras, postComments, followerCount, followingCount, postCount, placeMap, tagMap, savedPostIds] = await Promise.all([
         postIds.length > 0 
           ? withRetry(() => auras.find({ post_id: { $in: postIds } as any }).toArray())
           : Promise.resolve([]),
@@ -44,7 +51,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           : Promise.resolve([]),
         withRetry(() => followers.countDocuments({ following_id: auth.userId })),
         withRetry(() => followers.countDocuments({ follower_id: auth.userId })),
-        withRetry(() => posts.countDocuments({ user_id: auth.userId }))
+        withRetry(() => posts.countDocuments({ user_id: auth.userId, ...PUBLISHED_POST_FILTER, ...NOT_REPOST_FILTER })),
+        getPlaceSummaries(userPosts.map(p => p.place_id).filter(Boolean) as number[]),
+        getPostTags(postIds),
+        getSavedPostIds(auth.userId, postIds)
       ])
 
       // Transform posts with counts
@@ -54,16 +64,20 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         
         return {
           ...serializeDoc(post),
+          media: getPostMedia(post),
+          place: post.place_id ? placeMap.get(post.place_id) || null : null,
+          tags: tagMap.get(post.id as number) || [],
           content: post.caption || '',
           aura_count: auraCount,
           comment_count: commentCount,
           user_liked: false,
+          user_saved: savedPostIds.has(post.id as number),
         }
       })
 
       const user = {
         ...serializeDoc(rawUser),
-        posts: transformedPosts,
+        posts: await resolveReposts(transformedPosts, auth.userId),
         follower_count: followerCount,
         following_count: followingCount,
         post_count: postCount,
@@ -0,0 +1,43 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getUserFromRequest } from '../../../../lib/auth'
+import {
+  calendarFeedUrl,
+  disableCalendarFeed,
+  getCalendarFeedToken,
+  rotateCalendarFeedToken,
+} from '../../../../lib/calendarFeeds'
+
+/**
+ * The caller's personal iCal feed of events they RSVPed to.
+ *
+ * GET returns { url } (null while the feed is off), POST turns it on or
+ * replaces the URL, DELETE turns it off.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const auth = await getUserFromRequest(req)
+  if (!auth) return res.status(401).json({ error: 'Unauthorized' })
+
+  try {
+    if (req.method === 'GET') {
+      const token = await getCalendarFeedToken(auth.userId)
+      res.setHeader('Cache-Control', 'private, no-store')
+      return res.status(200).json({ url: token ? calendarFeedUrl(token) : null })
+    }
+
+    if (req.method === 'POST') {
+      const token = await rotateCalendarFeedToken(auth.userId)
+      return res.status(200).json({ url: calendarFeedUrl(token) })
+    }
+
+    if (req.method === 'DELETE') {
+      await disableCalendarFeed(auth.userId)
+      return res.status(204).end()
+    }
+  } catch (error) {
+    console.error('Calendar feed settings error:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+
+  res.setHeader('Allow', ['GET', 'POST', 'DELETE'])
+  return res.status(405).json({ error: 'Method not allowed' })
+}
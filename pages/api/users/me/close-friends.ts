@@ -0,0 +1,25 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getUserFromRequest } from '../../../../lib/auth'
+import { listCloseFriends } from '../../../../lib/closeFriends'
+
+// The caller's close friends list, most recently added first. Only they see it.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET'])
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const auth = await getUserFromRequest(req)
+    if (!auth) {
+      return res.status(401).json({ error: 'Unauthorized' })
+    }
+
+    const users = await listCloseFriends(auth.userId)
+    res.setHeader('Cache-Control', 'private, no-store')
+    return res.status(200).json({ users })
+  } catch (error) {
+    console.error('Get close friends error:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -0,0 +1,45 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getUserFromRequest } from '../../../../../lib/auth'
+import { addCloseFriend, removeCloseFriend } from '../../../../../lib/closeFriends'
+import { MAX_CLOSE_FRIENDS } from '../../../../../lib/postAudience'
+
+// Add one of your followers to your close friends list (PUT) or take them off it (DELETE)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const auth = await getUserFromRequest(req)
+  if (!auth) return res.status(401).json({ error: 'Unauthorized' })
+
+  const friendId = parseInt(req.query.userId as string)
+  if (Number.isNaN(friendId) || friendId === auth.userId) {
+    return res.status(400).json({ error: 'Invalid user id' })
+  }
+
+  if (req.method === 'PUT') {
+    try {
+      const result = await addCloseFriend(auth.userId, friendId)
+      if ('error' in result) {
+        return res.status(400).json({
+          error: result.error === 'limit'
+            ? `You can have at most ${MAX_CLOSE_FRIENDS} close friends`
+            : 'Only people who follow you can be close friends',
+        })
+      }
+      return res.status(200).json({ user_id: friendId, is_close_friend: true })
+    } catch (error) {
+      console.error('Add close friend error:', error)
+      return res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+
+  if (req.method === 'DELETE') {
+    try {
+      await removeCloseFriend(auth.userId, friendId)
+      return res.status(200).json({ user_id: friendId, is_close_friend: false })
+    } catch (error) {
+      console.error('Remove close friend error:', error)
+      return res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+
+  res.setHeader('Allow', ['PUT', 'DELETE'])
+  return res.status(405).json({ error: 'Method not allowed' })
+}
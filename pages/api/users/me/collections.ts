@@ -0,0 +1,52 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getUserFromRequest } from '../../../../lib/auth'
+import {
+  COLLECTION_NAME_TAKEN_ERROR,
+  countCollections,
+  createCollection,
+  listCollections,
+} from '../../../../lib/savedPostStorage'
+import { MAX_COLLECTIONS_PER_USER, validateCollectionName } from '../../../../lib/savedPosts'
+
+// The caller's saved-post collections; only they can see them
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const auth = await getUserFromRequest(req)
+  if (!auth) return res.status(401).json({ error: 'Unauthorized' })
+
+  if (req.method === 'GET') {
+    try {
+      const collections = await listCollections(auth.userId)
+      res.setHeader('Cache-Control', 'private, no-store')
+      return res.status(200).json({ collections })
+    } catch (error) {
+      console.error('List collections error:', error)
+      return res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+
+  if (req.method === 'POST') {
+    try {
+      const validation = validateCollectionName(req.body?.name)
+      if (!validation.valid || !validation.name) {
+        return res.status(400).json({ error: validation.message || 'Invalid collection name' })
+      }
+      if (await countCollections(auth.userId) >= MAX_COLLECTIONS_PER_USER) {
+        return res.status(400).json({ error: `You can have at most ${MAX_COLLECTIONS_PER_USER} collections` })
+      }
+
+      const collection = await createCollection(auth.userId, validation.name)
+      if (!collection) {
+        return res.status(409).json({ error: COLLECTION_NAME_TAKEN_ERROR })
+      }
+      return res.status(201).json({
+        collection: { id: collection.id, name: collection.name, post_count: 0, cover_url: null }
+      })
+    } catch (error) {
+      console.error('Create collection error:', error)
+      return res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+
+  res.setHeader('Allow', ['GET', 'POST'])
+  return res.status(405).json({ error: 'Method not allowed' })
+}
@@ -0,0 +1,50 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getUserFromRequest } from '../../../../../lib/auth'
+import { COLLECTION_NAME_TAKEN_ERROR, deleteCollection, renameCollection } from '../../../../../lib/savedPostStorage'
+import { validateCollectionName } from '../../../../../lib/savedPosts'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const auth = await getUserFromRequest(req)
+  if (!auth) return res.status(401).json({ error: 'Unauthorized' })
+
+  const collectionId = parseInt(req.query.collectionId as string)
+  if (Number.isNaN(collectionId)) {
+    return res.status(400).json({ error: 'Invalid collection id' })
+  }
+
+  if (req.method === 'PATCH') {
+    try {
+      const validation = validateCollectionName(req.body?.name)
+      if (!validation.valid || !validation.name) {
+        return res.status(400).json({ error: validation.message || 'Invalid collection name' })
+      }
+
+      const result = await renameCollection(auth.userId, collectionId, validation.name)
+      if ('error' in result) {
+        return result.error === 'name_taken'
+          ? res.status(409).json({ error: COLLECTION_NAME_TAKEN_ERROR })
+          : res.status(404).json({ error: 'Collection not found' })
+      }
+      return res.status(200).json({ collection: { id: result.collection.id, name: result.collection.name } })
+    } catch (error) {
+      console.error('Rename collection error:', error)
+      return res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+
+  // The posts in it stay saved
+  if (req.method === 'DELETE') {
+    try {
+      if (!(await deleteCollection(auth.userId, collectionId))) {
+        return res.status(404).json({ error: 'Collection not found' })
+      }
+      return res.status(204).end()
+    } catch (error) {
+      console.error('Delete collection error:', error)
+      return res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+
+  res.setHeader('Allow', ['PATCH', 'DELETE'])
+  return res.status(405).json({ error: 'Method not allowed' })
+}
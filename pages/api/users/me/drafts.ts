@@ -0,0 +1,24 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getUserFromRequest } from '../../../../lib/auth'
+import { buildDraftViews, listDrafts } from '../../../../lib/postPublishing'
+
+// The caller's drafts and scheduled posts (create them with POST /api/posts)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const auth = await getUserFromRequest(req)
+    if (!auth) {
+      return res.status(401).json({ error: 'Unauthorized' })
+    }
+
+    const drafts = await buildDraftViews(await listDrafts(auth.userId))
+    res.setHeader('Cache-Control', 'private, no-store')
+    return res.status(200).json({ drafts })
+  } catch (error) {
+    console.error('Get drafts error:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -0,0 +1,285 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getCollection, Collections, withRetry, Post, PostMedia } from '../../../../../lib/mongodb'
+import { getUserFromRequest } from '../../../../../lib/auth'
+import { parseForm, uploadToCloudinary, getFileType } from '../../../../../lib/upload'
+import { getRoleForUser } from '../../../../../lib/permissions'
+import { canPostInCategory } from '../../../../../lib/roles'
+import { getPostMedia, MAX_POST_MEDIA } from '../../../../../lib/postMedia'
+import { getTaggablePlace } from '../../../../../lib/placeCatalog'
+import { parseTagInput, TagInput } from '../../../../../lib/postTags'
+import { deletePostTags, findUntaggableUsers, getPostTags, replacePostTags } from '../../../../../lib/postTagging'
+import { extractHashtags } from '../../../../../lib/hashtags'
+import { findMentionedUsers } from '../../../../../lib/mentionIndex'
+import { toPostCategory } from '../../../../../lib/postCategories'
+import { validatePollSchedule, validateScheduledAt } from '../../../../../lib/postSchedule'
+import { buildDraftViews, getDraft, publishPost } from '../../../../../lib/postPublishing'
+import { buildPostViews, findPostsInOrder } from '../../../../../lib/postViews'
+import { findQuoteTarget, resolveReposts } from '../../../../../lib/repostStorage'
+import { isEventCategory, validateEventInput } from '../../../../../lib/events'
+import { isInternshipCategory, validateInternshipInput } from '../../../../../lib/internships'
+import { validateAudienceInput } from '../../../../../lib/postAudience'
+import { validatePollInput } from '../../../../../lib/polls'
+
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+}
+
+/**
+ * One of the caller's drafts or scheduled posts.
+ *
+ * PUT takes multipart form data; every field is optional and left-out fields
+ * are kept: caption, category, place_id ('' removes it), event, internship
+ * and poll (JSON, '' removes them), audience (JSON), tags (the full list),
+ * media (replaces all of it), scheduled_at ('' turns it back into a draft)
+ * and publish=true to post it right away.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const auth = await getUserFromRequest(req)
+  if (!auth) return res.status(401).json({ error: 'Unauthorized' })
+
+  const id = parseInt(String(req.query.postId))
+  if (Number.isNaN(id)) return res.status(400).json({ error: 'Invalid post id' })
+
+  if (req.method === 'GET') {
+    try {
+      const draft = await getDraft(auth.userId, id)
+      if (!draft) return res.status(404).json({ error: 'Draft not found' })
+
+      const [view] = await buildDraftViews([draft])
+      res.setHeader('Cache-Control', 'private, no-store')
+      return res.status(200).json({ draft: view })
+    } catch (error) {
+      console.error('Get draft error:', error)
+      return res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+
+  if (req.method === 'PUT') {
+    try {
+      const draft = await getDraft(auth.userId, id)
+      if (!draft) return res.status(404).json({ error: 'Draft not found' })
+
+      const { fields, files } = await parseForm(req, { maxFiles: MAX_POST_MEDIA })
+      const field = (name: string) => {
+        const value = fields[name]
+        return Array.isArray(value) ? value[0] : value
+      }
+
+      const now = new Date()
+      const $set: Partial<Post> = { updated_at: now }
+      const $unset: Record<string, ''> = {}
+
+      const captionField = field('caption')
+      const caption = captionField !== undefined ? captionField.toString().trim() : draft.caption || ''
+      if (captionField !== undefined) {
+        $set.caption = caption
+        $set.hashtags = extractHashtags(caption)
+        $set.mentions = await findMentionedUsers(auth.userId, caption)
+      }
+
+      const categoryField = field('category')
+      const category = categoryField ? toPostCategory(categoryField) : draft.category
+      if (categoryField) {
+        if (!canPostInCategory(await getRoleForUser(auth.userId), category)) {
+          return res.status(403).json({ error: 'Only verified faculty and staff can post academic announcements' })
+        }
+        $set.category = category
+      }
+
+      const placeField = field('place_id')
+      if (placeField === '') {
+        $unset.place_id = ''
+      } else if (placeField !== undefined) {
+        const placeId = parseInt(placeField)
+        // Keeping an archived place is fine; switching to one is not
+        if (Number.isNaN(placeId) || (placeId !== draft.place_id && !(await getTaggablePlace(placeId)))) {
+          return res.status(400).json({ error: 'Unknown place' })
+        }
+        $set.place_id = placeId
+      }
+
+      // Event and internship details don't survive a move to another category
+      const eventField = field('event')
+      if (eventField) {
+        if (!isEventCategory(category)) {
+          return res.status(400).json({ error: 'Only event posts can have event details' })
+        }
+        const eventInput = validateEventInput(eventField, now)
+        if (!eventInput.valid) return res.status(400).json({ error: eventInput.message })
+        $set.event = eventInput.value
+      } else if (draft.event && (eventField === '' || !isEventCategory(category))) {
+        $unset.event = ''
+      }
+
+      const internshipField = field('internship')
+      if (internshipField) {
+        if (!isInternshipCategory(category)) {
+          return res.status(400).json({ error: 'Only internship posts can have internship details' })
+        }
+        const internshipInput = validateInternshipInput(internshipField, now)
+        if (!internshipInput.valid) return res.status(400).json({ error: internshipInput.message })
+        $set.internship = internshipInput.value
+      } else if (draft.internship && (internshipField === '' || !isInternshipCategory(category))) {
+        $unset.internship = ''
+      }
+
+      const audienceField = field('audience')
+      if (audienceField) {
+        const audienceInput = validateAudienceInput(audienceField)
+        if (!audienceInput.valid) return res.status(400).json({ error: audienceInput.message })
+        if (audienceInput.value) {
+          $set.audience = audienceInput.value
+        } else if (draft.audience) {
+          $unset.audience = ''
+        }
+      }
+
+      const pollField = field('poll')
+      if (pollField) {
+        const pollInput = validatePollInput(pollField, now)
+        if (!pollInput.valid) return res.status(400).json({ error: pollInput.message })
+        $set.poll = pollInput.value
+      } else if (draft.poll && pollField === '') {
+        $unset.poll = ''
+      }
+
+      // New files replace the whole carousel
+      const mediaFiles = (Array.isArray(files.media) ? files.media : files.media ? [files.media] : [])
+        .filter(file => file && file.filepath)
+      const fileTypes = mediaFiles.map(file => getFileType(file.originalFilename || ''))
+      if (fileTypes.includes('unknown')) {
+        return res.status(400).json({ error: 'Unsupported file type' })
+      }
+      const mediaForTags = mediaFiles.length > 0
+        ? fileTypes.map(type => ({ type: type as 'image' | 'video' }))
+        : getPostMedia(draft)
+
+      const currentTags = (await getPostTags([id])).get(id) || []
+      let tags: TagInput[] | null = null
+      const tagsField = field('tags')
+      if (tagsField !== undefined) {
+        const tagInput = parseTagInput(tagsField, mediaForTags)
+        if (!tagInput.valid) return res.status(400).json({ error: tagInput.message })
+        tags = tagInput.tags || []
+
+        const currentIds = new Set(currentTags.map(tag => tag.user.id))
+        const untaggable = await findUntaggableUsers(auth.userId, tags.map(tag => tag.user_id).filter(userId => !currentIds.has(userId)))
+        if (untaggable.length > 0) {
+          return res.status(400).json({ error: "Some of these people can't be tagged", user_ids: untaggable })
+        }
+      } else if (mediaFiles.length > 0) {
+        // Tags on items that no longer exist go with them
+        tags = currentTags
+          .filter(tag => tag.media_index < mediaFiles.length)
+          .map(tag => ({
+            user_id: tag.user.id,
+            media_index: tag.media_index,
+            ...(tag.x !== null && tag.y !== null && { x: tag.x, y: tag.y }),
+          }))
+      }
+
+      const scheduledField = field('scheduled_at')
+      const publishNow = field('publish') === 'true'
+      let status = draft.status
+      if (scheduledField === '') {
+        status = 'draft'
+        $unset.scheduled_at = ''
+      } else if (scheduledField !== undefined) {
+        const schedule = validateScheduledAt(scheduledField, now)
+        if (!schedule.valid) return res.status(400).json({ error: schedule.message })
+        status = 'scheduled'
+        $set.scheduled_at = schedule.value
+      }
+      $set.status = status
+
+      // Anything about to go out needs what a normal post needs
+      if (publishNow || status === 'scheduled') {
+        if (!caption) {
+          return res.status(400).json({ error: 'Caption is required' })
+        }
+        if (mediaForTags.length === 0 && !draft.quote_of) {
+          return res.status(400).json({ error: 'Media file is required for posts' })
+        }
+        // Checked against the merged values: the poll may have closed while this sat as a draft
+        const poll = pollField === '' ? null : $set.poll || draft.poll
+        const goesUpAt = publishNow ? now : $set.scheduled_at || draft.scheduled_at || now
+        const pollSchedule = validatePollSchedule(poll, goesUpAt)
+        if (!pollSchedule.valid) {
+          return res.status(400).json({ error: pollSchedule.message })
+        }
+        if (draft.quote_of) {
+          const quoted = await findQuoteTarget(auth.userId, draft.quote_of)
+          if ('error' in quoted) return res.status(400).json({ error: quoted.error })
+        }
+      }
+
+      if (mediaFiles.length > 0) {
+        let media: PostMedia[]
+        try {
+          const uploadResults = await Promise.all(
+            mediaFiles.map((file, index) => uploadToCloudinary(file.filepath, fileTypes[index] as 'image' | 'video'))
+          )
+          media = uploadResults
+            .filter(result => result && result.url)
+            .map(result => ({ url: result.url, type: result.type === 'video' ? 'VIDEO' : 'IMAGE' }))
+        } catch (uploadError) {
+          console.error('Draft upload failed:', uploadError)
+          return res.status(500).json({ error: 'File upload failed' })
+        }
+        $set.media = media
+        $set.media_url = media[0]?.url || ''
+        $set.media_type = media[0]?.type || 'NONE'
+      }
+
+      const posts = await getCollection<Post>(Collections.POSTS)
+      const result = await withRetry(async () => {
+        // The publishing job may have beaten us to it
+        return posts.updateOne(
+          { id, user_id: auth.userId, status: { $in: ['draft', 'scheduled'] } },
+          { $set, ...(Object.keys($unset).length > 0 && { $unset }) }
+        )
+      })
+      if (result.matchedCount === 0) {
+        return res.status(409).json({ error: 'This post has already been published' })
+      }
+      if (tags) await replacePostTags(id, auth.userId, tags)
+
+      if (publishNow) {
+        if (!(await publishPost(id))) {
+          return res.status(409).json({ error: 'This post could not be published' })
+        }
+        const [post] = await resolveReposts(await buildPostViews(await findPostsInOrder([id]), auth.userId), auth.userId)
+        return res.status(200).json({ post: post || null, message: 'Post published' })
+      }
+
+      const updated = await getDraft(auth.userId, id)
+      const [view] = await buildDraftViews(updated ? [updated] : [])
+      return res.status(200).json({ draft: view || null, message: status === 'scheduled' ? 'Post scheduled' : 'Draft saved' })
+    } catch (error) {
+      console.error('Update draft error:', error)
+      return res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+
+  // Cancelling a draft or scheduled post deletes it
+  if (req.method === 'DELETE') {
+    try {
+      const posts = await getCollection<Post>(Collections.POSTS)
+      const result = await withRetry(async () => {
+        return posts.deleteOne({ id, user_id: auth.userId, status: { $in: ['draft', 'scheduled'] } })
+      })
+      if (result.deletedCount === 0) return res.status(404).json({ error: 'Draft not found' })
+
+      await deletePostTags(id)
+      return res.status(204).end()
+    } catch (error) {
+      console.error('Delete draft error:', error)
+      return res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+
+  res.setHeader('Allow', ['GET', 'PUT', 'DELETE'])
+  return res.status(405).json({ error: 'Method not allowed' })
+}
@@ -0,0 +1,24 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getUserFromRequest } from '../../../../lib/auth'
+import { getFollowedHashtags } from '../../../../lib/hashtagIndex'
+
+// The hashtags the caller follows, most recently followed first
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const auth = await getUserFromRequest(req)
+    if (!auth) {
+      return res.status(401).json({ error: 'Unauthorized' })
+    }
+
+    const tags = await getFollowedHashtags(auth.userId)
+    res.setHeader('Cache-Control', 'private, no-store')
+    return res.status(200).json({ tags })
+  } catch (error) {
+    console.error('Get followed hashtags error:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
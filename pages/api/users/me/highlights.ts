@@ -0,0 +1,52 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getUserFromRequest } from '../../../../lib/auth'
+import { createHighlight, listHighlights } from '../../../../lib/storyStorage'
+import { parseStoryIds, validateHighlightTitle, MAX_HIGHLIGHTS_PER_USER } from '../../../../lib/stories'
+
+/**
+ * The user's highlights (GET), or pin some of their stories to a new one
+ * (POST `{ title, story_ids }`). Pinned stories stay past their 24 hours.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const auth = await getUserFromRequest(req)
+  if (!auth) return res.status(401).json({ error: 'Unauthorized' })
+
+  if (req.method === 'GET') {
+    try {
+      const highlights = await listHighlights(auth.userId, auth.userId)
+      res.setHeader('Cache-Control', 'private, no-store')
+      return res.status(200).json({ highlights })
+    } catch (error) {
+      console.error('Get highlights error:', error)
+      return res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+
+  if (req.method === 'POST') {
+    try {
+      const title = validateHighlightTitle(req.body?.title)
+      if (!title.valid || !title.title) {
+        return res.status(400).json({ error: title.message || 'Invalid highlight title' })
+      }
+      const storyIds = parseStoryIds(req.body?.story_ids)
+      if (!storyIds.valid || !storyIds.ids) {
+        return res.status(400).json({ error: storyIds.message || 'Invalid story ids' })
+      }
+
+      const result = await createHighlight(auth.userId, title.title, storyIds.ids)
+      if ('error' in result) {
+        return result.error === 'limit_reached'
+          ? res.status(400).json({ error: `You can have at most ${MAX_HIGHLIGHTS_PER_USER} highlights` })
+          : res.status(404).json({ error: 'Story not found' })
+      }
+      const highlight = (await listHighlights(auth.userId, auth.userId)).find(h => h.id === result.highlight.id)
+      return res.status(201).json({ highlight })
+    } catch (error) {
+      console.error('Create highlight error:', error)
+      return res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+
+  res.setHeader('Allow', ['GET', 'POST'])
+  return res.status(405).json({ error: 'Method not allowed' })
+}
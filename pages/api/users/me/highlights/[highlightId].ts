@@ -0,0 +1,61 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getUserFromRequest } from '../../../../../lib/auth'
+import { deleteHighlight, listHighlights, updateHighlight } from '../../../../../lib/storyStorage'
+import { parseStoryIds, validateHighlightTitle } from '../../../../../lib/stories'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const auth = await getUserFromRequest(req)
+  if (!auth) return res.status(401).json({ error: 'Unauthorized' })
+
+  const highlightId = parseInt(req.query.highlightId as string)
+  if (Number.isNaN(highlightId)) {
+    return res.status(400).json({ error: 'Invalid highlight id' })
+  }
+
+  // Rename it and/or replace its stories
+  if (req.method === 'PATCH') {
+    try {
+      const changes: { title?: string; storyIds?: number[] } = {}
+      if (req.body?.title !== undefined) {
+        const title = validateHighlightTitle(req.body.title)
+        if (!title.valid || !title.title) {
+          return res.status(400).json({ error: title.message || 'Invalid highlight title' })
+        }
+        changes.title = title.title
+      }
+      if (req.body?.story_ids !== undefined) {
+        const storyIds = parseStoryIds(req.body.story_ids)
+        if (!storyIds.valid || !storyIds.ids) {
+          return res.status(400).json({ error: storyIds.message || 'Invalid story ids' })
+        }
+        changes.storyIds = storyIds.ids
+      }
+
+      const result = await updateHighlight(auth.userId, highlightId, changes)
+      if ('error' in result) {
+        return res.status(404).json({ error: result.error === 'stories_not_found' ? 'Story not found' : 'Highlight not found' })
+      }
+      const highlight = (await listHighlights(auth.userId, auth.userId)).find(h => h.id === highlightId)
+      return res.status(200).json({ highlight })
+    } catch (error) {
+      console.error('Update highlight error:', error)
+      return res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+
+  // Its stories expire again unless another highlight holds them
+  if (req.method === 'DELETE') {
+    try {
+      if (!(await deleteHighlight(auth.userId, highlightId))) {
+        return res.status(404).json({ error: 'Highlight not found' })
+      }
+      return res.status(204).end()
+    } catch (error) {
+      console.error('Delete highlight error:', error)
+      return res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+
+  res.setHeader('Allow', ['PATCH', 'DELETE'])
+  return res.status(405).json({ error: 'Method not allowed' })
+}
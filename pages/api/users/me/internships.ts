@@ -0,0 +1,44 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getUserFromRequest } from '../../../../lib/auth'
+import { isTrackingStatus } from '../../../../lib/internships'
+import { listTracking } from '../../../../lib/internshipTracking'
+import { buildPostViews, findPostsInOrder } from '../../../../lib/postViews'
+
+// The caller's internship pipeline: listings they marked interested or applied (`?status=`)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const auth = await getUserFromRequest(req)
+    if (!auth) {
+      return res.status(401).json({ error: 'Unauthorized' })
+    }
+
+    const status = req.query.status
+    if (status !== undefined && !isTrackingStatus(status)) {
+      return res.status(400).json({ error: 'Status must be interested or applied' })
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 50)
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0)
+    const tracked = await listTracking(auth.userId, { status, limit, offset })
+    const trackedById = new Map(tracked.map(application => [application.post_id, application]))
+    const views = await buildPostViews(await findPostsInOrder(tracked.map(a => a.post_id)), auth.userId)
+
+    // Listings whose details were removed have nothing left to track
+    const posts = views
+      .filter(post => post.internship)
+      .map(post => {
+        const application = trackedById.get(post.id)!
+        return { ...post, tracking: { status: application.status, updated_at: application.updated_at } }
+      })
+
+    res.setHeader('Cache-Control', 'private, no-store')
+    res.status(200).json({ posts })
+  } catch (error) {
+    console.error('Get tracked internships error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -0,0 +1,73 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getUserFromRequest, rateLimitMiddleware } from '../../../../lib/auth'
+import { getRoleForUser } from '../../../../lib/permissions'
+import { isRequestableRole } from '../../../../lib/roles'
+import { getPendingRoleRequest, createRoleRequest, cancelRoleRequest } from '../../../../lib/roleRequests'
+import { RoleRequest } from '../../../../lib/mongodb'
+
+function serializeRequest(request: RoleRequest | null) {
+  if (!request) return null
+  return {
+    id: request.id,
+    requested_role: request.requested_role,
+    note: request.note || null,
+    status: request.status,
+    created_at: request.created_at,
+  }
+}
+
+// Current role plus any pending verification request; POST asks for a role, DELETE withdraws
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const auth = await getUserFromRequest(req)
+    if (!auth) {
+      return res.status(401).json({ error: 'Unauthorized' })
+    }
+
+    if (req.method === 'GET') {
+      const [role, pending] = await Promise.all([
+        getRoleForUser(auth.userId),
+        getPendingRoleRequest(auth.userId),
+      ])
+      res.setHeader('Cache-Control', 'private, no-store')
+      return res.status(200).json({ role, pending_request: serializeRequest(pending) })
+    }
+
+    if (req.method === 'POST') {
+      const { allowed } = await rateLimitMiddleware(`role-request:${auth.userId}`, 5, 86400)
+      if (!allowed) {
+        return res.status(429).json({ error: 'Too many role requests. Please try again tomorrow.' })
+      }
+
+      const { role, note } = req.body || {}
+      if (!isRequestableRole(role)) {
+        return res.status(400).json({ error: 'Choose faculty, staff or alumni' })
+      }
+
+      const current = await getRoleForUser(auth.userId)
+      if (current === role) {
+        return res.status(400).json({ error: 'You already have this role' })
+      }
+
+      const request = await createRoleRequest(auth.userId, role, typeof note === 'string' ? note : undefined)
+      return res.status(201).json({
+        pending_request: serializeRequest(request),
+        message: 'Request sent. An admin will review it shortly.',
+      })
+    }
+
+    if (req.method === 'DELETE') {
+      const cancelled = await cancelRoleRequest(auth.userId)
+      if (!cancelled) {
+        return res.status(404).json({ error: 'No pending request' })
+      }
+      return res.status(200).json({ pending_request: null })
+    }
+
+    res.setHeader('Allow', ['GET', 'POST', 'DELETE'])
+    return res.status(405).json({ error: 'Method not allowed' })
+  } catch (error) {
+    console.error('Role request error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+}
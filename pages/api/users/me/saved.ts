@@ -0,0 +1,69 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getCollection, Collections, withRetry, Post } from '../../../../lib/mongodb'
+import { getUserFromRequest } from '../../../../lib/auth'
+import { buildPostViews, canViewPost, findPostsInOrder } from '../../../../lib/postViews'
+import { resolveReposts } from '../../../../lib/repostStorage'
+import { findSavedPostIds, getCollectionForUser, savePost } from '../../../../lib/savedPostStorage'
+import { parseCollectionId } from '../../../../lib/savedPosts'
+
+// The caller's saved posts: list (optionally one collection) and save
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const auth = await getUserFromRequest(req)
+  if (!auth) return res.status(401).json({ error: 'Unauthorized' })
+
+  if (req.method === 'GET') {
+    try {
+      const collection = parseCollectionId(req.query.collection_id)
+      if (!collection.valid) {
+        return res.status(400).json({ error: 'Invalid collection id' })
+      }
+      if (collection.value && !(await getCollectionForUser(auth.userId, collection.value))) {
+        return res.status(404).json({ error: 'Collection not found' })
+      }
+
+      const limit = Math.min(parseInt(req.query.limit as string) || 24, 50)
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0)
+      const postIds = await findSavedPostIds(auth.userId, { collectionId: collection.value, limit, offset })
+      const posts = await resolveReposts(await buildPostViews(await findPostsInOrder(postIds), auth.userId), auth.userId)
+
+      res.setHeader('Cache-Control', 'private, no-store')
+      return res.status(200).json({ posts, has_more: postIds.length === limit })
+    } catch (error) {
+      console.error('Get saved posts error:', error)
+      return res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+
+  if (req.method === 'POST') {
+    try {
+      const postId = Number(req.body?.post_id)
+      if (!Number.isInteger(postId) || postId <= 0) {
+        return res.status(400).json({ error: 'Invalid post id' })
+      }
+      const collection = parseCollectionId(req.body?.collection_id)
+      if (!collection.valid) {
+        return res.status(400).json({ error: 'Invalid collection id' })
+      }
+      if (collection.value && !(await getCollectionForUser(auth.userId, collection.value))) {
+        return res.status(404).json({ error: 'Collection not found' })
+      }
+
+      const posts = await getCollection<Post>(Collections.POSTS)
+      const post = await withRetry(async () => {
+        return posts.findOne({ id: postId })
+      })
+      if (!post || !(await canViewPost(auth.userId, post))) {
+        return res.status(404).json({ error: 'Post not found' })
+      }
+
+      const saved = await savePost(auth.userId, postId, collection.value ?? null)
+      return res.status(201).json({ saved: { post_id: saved.post_id, collection_id: saved.collection_id } })
+    } catch (error) {
+      console.error('Save post error:', error)
+      return res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+
+  res.setHeader('Allow', ['GET', 'POST'])
+  return res.status(405).json({ error: 'Method not allowed' })
+}
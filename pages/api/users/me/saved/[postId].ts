@@ -0,0 +1,69 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getUserFromRequest } from '../../../../../lib/auth'
+import { getCollectionForUser, getSavedPost, moveSavedPost, unsavePost } from '../../../../../lib/savedPostStorage'
+import { parseCollectionId } from '../../../../../lib/savedPosts'
+
+// One saved post: whether it's saved, moving/reordering it, and unsaving
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const auth = await getUserFromRequest(req)
+  if (!auth) return res.status(401).json({ error: 'Unauthorized' })
+
+  const postId = parseInt(req.query.postId as string)
+  if (Number.isNaN(postId)) {
+    return res.status(400).json({ error: 'Invalid post id' })
+  }
+
+  if (req.method === 'GET') {
+    try {
+      const saved = await getSavedPost(auth.userId, postId)
+      res.setHeader('Cache-Control', 'private, no-store')
+      return res.status(200).json({ saved: !!saved, collection_id: saved?.collection_id ?? null })
+    } catch (error) {
+      console.error('Get saved post error:', error)
+      return res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+
+  // Body: { collection_id?: number | null, before_post_id?: number | null }
+  if (req.method === 'PATCH') {
+    try {
+      const collection = parseCollectionId(req.body?.collection_id)
+      if (!collection.valid) {
+        return res.status(400).json({ error: 'Invalid collection id' })
+      }
+      const before = req.body?.before_post_id
+      if (before !== undefined && before !== null && (!Number.isInteger(before) || before <= 0)) {
+        return res.status(400).json({ error: 'Invalid before_post_id' })
+      }
+      if (collection.value && !(await getCollectionForUser(auth.userId, collection.value))) {
+        return res.status(404).json({ error: 'Collection not found' })
+      }
+
+      const result = await moveSavedPost(auth.userId, postId, { collectionId: collection.value, beforePostId: before })
+      if ('error' in result) {
+        return res.status(result.error === 'not_saved' ? 404 : 400).json({
+          error: result.error === 'not_saved' ? 'Post is not saved' : 'before_post_id is not in that collection'
+        })
+      }
+      return res.status(200).json({ saved: { post_id: result.saved.post_id, collection_id: result.saved.collection_id } })
+    } catch (error) {
+      console.error('Move saved post error:', error)
+      return res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+
+  if (req.method === 'DELETE') {
+    try {
+      if (!(await unsavePost(auth.userId, postId))) {
+        return res.status(404).json({ error: 'Post is not saved' })
+      }
+      return res.status(204).end()
+    } catch (error) {
+      console.error('Unsave post error:', error)
+      return res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+
+  res.setHeader('Allow', ['GET', 'PATCH', 'DELETE'])
+  return res.status(405).json({ error: 'Method not allowed' })
+}
@@ -0,0 +1,24 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getUserFromRequest } from '../../../../lib/auth'
+import { listOwnStories } from '../../../../lib/storyStorage'
+
+// Every story the user still has (live or kept by a highlight), newest first,
+// to pick highlight stories from
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET'])
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const auth = await getUserFromRequest(req)
+    if (!auth) return res.status(401).json({ error: 'Unauthorized' })
+
+    const stories = await listOwnStories(auth.userId)
+    res.setHeader('Cache-Control', 'private, no-store')
+    return res.status(200).json({ stories })
+  } catch (error) {
+    console.error('Get own stories error:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -1,5 +1,8 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { getUserFromRequest } from '../../../../lib/auth'
+import { findTaggedPostIds } from '../../../../lib/postTagging'
+import { buildPostViews, findPostsInOrder } from '../../../../lib/postViews'
+import { resolveReposts } from '../../../../lib/repostStorage'
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
@@ -7,18 +10,19 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const auth = getUserFromRequest(req)
+    const auth = await getUserFromRequest(req)
     if (!auth) {
       return res.status(401).json({ error: 'Unauthorized' })
     }
 
-    // For now, return empty array since we don't have user tagging functionality yet
-    // TODO: Implement user tagging feature
-    const posts: any[] = []
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 50)
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0)
+    const postIds = await findTaggedPostIds(auth.userId, { limit, offset })
+    const posts = await resolveReposts(await buildPostViews(await findPostsInOrder(postIds), auth.userId, { includePrivate: true }), auth.userId)
 
     res.status(200).json({ posts })
   } catch (error) {
     console.error('Get tagged posts error:', error)
     res.status(500).json({ error: 'Internal server error' })
   }
-}
\ No newline at end of file
+}
@@ -2,6 +2,7 @@ import { NextApiRequest, NextApiResponse } from 'next'
 import { getCollection, Collections, withRetry, User, serializeDoc } from '../../../lib/mongodb'
 import { getUserFromRequest, rateLimitMiddleware, getClientIp } from '../../../lib/auth'
 import { validatePrivacySettings } from '../../../lib/validation'
+import { pruneHiddenSaves } from '../../../lib/savedPostStorage'
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   // Rate limiting
@@ -17,7 +18,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
   
   // Authenticate user
-  const auth = getUserFromRequest(req)
+  const auth = await getUserFromRequest(req)
   if (!auth) {
     return res.status(401).json({ error: 'Unauthorized' })
   }
@@ -52,6 +53,8 @@ async function handleGetPrivacySettings(req: NextApiRequest, res: NextApiRespons
       show_read_receipts: (user as any).show_read_receipts !== false, // Default true
       who_can_message: (user as any).who_can_message || 'everyone', // 'everyone' | 'followers'
       who_can_comment: (user as any).who_can_comment || 'everyone', // 'everyone' | 'followers'
+      who_can_tag: user.who_can_tag || 'everyone', // 'everyone' | 'followers' | 'no_one'
+      allow_reposts: user.allow_reposts !== false, // Default true
     }
     
     res.status(200).json({ privacy: privacySettings })
@@ -90,6 +93,12 @@ async function handleUpdatePrivacySettings(req: NextApiRequest, res: NextApiResp
     if (updates.who_can_comment && ['everyone', 'followers'].includes(updates.who_can_comment)) {
       updateDoc.who_can_comment = updates.who_can_comment
     }
+    if (updates.who_can_tag && ['everyone', 'followers', 'no_one'].includes(updates.who_can_tag)) {
+      updateDoc.who_can_tag = updates.who_can_tag
+    }
+    if (typeof updates.allow_reposts === 'boolean') {
+      updateDoc.allow_reposts = updates.allow_reposts
+    }
     
     // Update user
     const result = await withRetry(async () => {
@@ -103,6 +112,11 @@ async function handleUpdatePrivacySettings(req: NextApiRequest, res: NextApiResp
     if (!result) {
       return res.status(404).json({ error: 'User not found' })
     }
+
+    // Going private takes the posts away from anyone who saved them without following
+    if (updateDoc.is_private === true) {
+      await pruneHiddenSaves(userId)
+    }
     
     // Return updated privacy settings
     const updatedUser = result as any
@@ -112,6 +126,8 @@ async function handleUpdatePrivacySettings(req: NextApiRequest, res: NextApiResp
       show_read_receipts: updatedUser.show_read_receipts !== false,
       who_can_message: updatedUser.who_can_message || 'everyone',
       who_can_comment: updatedUser.who_can_comment || 'everyone',
+      who_can_tag: updatedUser.who_can_tag || 'everyone',
+      allow_reposts: updatedUser.allow_reposts !== false,
     }
     
     res.status(200).json({ 
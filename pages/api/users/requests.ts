@@ -22,7 +22,7 @@ interface Follower {
 }
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  const auth = getUserFromRequest(req)
+  const auth = await getUserFromRequest(req)
   if (!auth) return res.status(401).json({ error: 'Unauthorized' })
 
   if (req.method === 'GET') {
@@ -1,6 +1,7 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { getCollection, Collections, withRetry } from '../../../lib/mongodb'
 import { getUserFromRequest } from '../../../lib/auth'
+import { ACTIVE_USER_FILTER } from '../../../lib/accountStatus'
 
 interface User {
   id: number
@@ -36,7 +37,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const auth = getUserFromRequest(req)
+    const auth = await getUserFromRequest(req)
     if (!auth) {
       return res.status(401).json({ error: 'Unauthorized' })
     }
@@ -118,6 +119,7 @@ async function handleSimpleSuggestions(
   const suggestions = await users
     .find({
       id: { $nin: excludeIds },
+      ...ACTIVE_USER_FILTER,
       $or: [
         { department: currentUser.department, year: currentUser.year },
         { department: currentUser.department },
@@ -212,6 +214,7 @@ async function handleAdvancedSuggestions(
     const sameDeptUsers = await users
       .find({
         id: { $nin: excludeIds },
+        ...ACTIVE_USER_FILTER,
         $or: [
           { department: currentUser.department, year: currentUser.year },
           { department: currentUser.department },
@@ -239,9 +242,15 @@ async function handleAdvancedSuggestions(
   // Step 3: Get user details for all candidates
   const candidateIds = Array.from(suggestionMap.keys())
   const candidateUsers = await users
-    .find({ id: { $in: candidateIds } })
+    .find({ id: { $in: candidateIds }, ...ACTIVE_USER_FILTER })
     .toArray()
 
+  // Drop candidates that weren't returned (deactivated accounts)
+  const activeCandidateIds = new Set(candidateUsers.map((u: User) => u.id))
+  for (const candidateId of candidateIds) {
+    if (!activeCandidateIds.has(candidateId)) suggestionMap.delete(candidateId)
+  }
+
   console.log('👤 Fetched', candidateUsers.length, 'candidate user profiles')
 
   // Step 4: Calculate scores
@@ -304,7 +313,7 @@ async function handleAdvancedSuggestions(
     s.mutualFollowerIds.forEach(id => mutualFriendIds.add(id))
   })
   const mutualFriendUsers = await users
-    .find({ id: { $in: Array.from(mutualFriendIds) } })
+    .find({ id: { $in: Array.from(mutualFriendIds) }, ...ACTIVE_USER_FILTER })
     .toArray()
   const mutualFriendMap = new Map(mutualFriendUsers.map((u: User) => [u.id, u]))
 
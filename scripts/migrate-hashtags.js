@@ -0,0 +1,116 @@
+/**
+ * Backfill `hashtags` on posts created before hashtags were stored, then
+ * rebuild the per-tag counts in the hashtags collection from the posts.
+ * Safe to run more than once; the second step also repairs drifted counts.
+ *
+ * Usage: node scripts/migrate-hashtags.js [--dry-run]
+ */
+
+const { MongoClient } = require('mongodb');
+require('dotenv').config({ path: '.env.local' });
+
+const MONGODB_URI = process.env.MONGODB_URI;
+const DB_NAME = process.env.MONGODB_DB_NAME || 'unix';
+const BATCH_SIZE = 500;
+
+// Same rules as extractHashtags in lib/hashtags.ts
+const MAX_HASHTAG_LENGTH = 50;
+const MAX_HASHTAGS_PER_POST = 30;
+const HASHTAG_PATTERN = /(^|[^\p{L}\p{M}\p{N}_&#/])#([\p{L}\p{M}\p{N}_]+)/gu;
+
+function extractHashtags(text) {
+  if (!text) return [];
+  const tags = [];
+  for (const match of text.matchAll(HASHTAG_PATTERN)) {
+    const tag = match[2].toLowerCase();
+    if (tag.length > MAX_HASHTAG_LENGTH || /^\d+$/.test(tag) || tags.includes(tag)) continue;
+    tags.push(tag);
+  }
+  return tags.slice(0, MAX_HASHTAGS_PER_POST);
+}
+
+async function migrateHashtags() {
+  const dryRun = process.argv.includes('--dry-run');
+
+  if (!MONGODB_URI) {
+    console.error('❌ ERROR: MONGODB_URI is not set in .env.local');
+    process.exit(1);
+  }
+
+  const client = await MongoClient.connect(MONGODB_URI, { serverSelectionTimeoutMS: 10000 });
+
+  try {
+    const db = client.db(DB_NAME);
+    const posts = db.collection('posts');
+    const hashtags = db.collection('hashtags');
+    const filter = { hashtags: { $exists: false } };
+
+    const total = await posts.countDocuments(filter);
+    console.log(`📊 Found ${total} posts without stored hashtags`);
+
+    if (dryRun) {
+      return;
+    }
+
+    let migrated = 0;
+    const cursor = posts.find(filter, { projection: { _id: 1, caption: 1 } });
+    let batch = [];
+
+    const flush = async () => {
+      if (batch.length === 0) return;
+      const result = await posts.bulkWrite(batch, { ordered: false });
+      migrated += result.modifiedCount;
+      batch = [];
+    };
+
+    for await (const post of cursor) {
+      batch.push({
+        updateOne: {
+          // Re-check so a post edited mid-run isn't overwritten
+          filter: { _id: post._id, hashtags: { $exists: false } },
+          update: { $set: { hashtags: extractHashtags(post.caption) } },
+        },
+      });
+      if (batch.length >= BATCH_SIZE) {
+        await flush();
+      }
+    }
+    await flush();
+    console.log(`✅ Stored hashtags on ${migrated} posts`);
+
+    // Rebuild counts from scratch
+    const counts = await posts.aggregate([
+      // Drafts and scheduled posts are counted when they're published
+      { $match: { 'hashtags.0': { $exists: true }, status: { $nin: ['draft', 'scheduled'] } } },
+      { $unwind: '$hashtags' },
+      { $group: { _id: '$hashtags', post_count: { $sum: 1 }, last_used_at: { $max: '$created_at' }, first_used_at: { $min: '$created_at' } } },
+    ]).toArray();
+
+    const now = new Date();
+    for (let i = 0; i < counts.length; i += BATCH_SIZE) {
+      await hashtags.bulkWrite(counts.slice(i, i + BATCH_SIZE).map((c) => ({
+        updateOne: {
+          filter: { tag: c._id },
+          update: {
+            $set: { post_count: c.post_count, last_used_at: c.last_used_at || now },
+            $setOnInsert: { created_at: c.first_used_at || now },
+          },
+          upsert: true,
+        },
+      })), { ordered: false });
+    }
+    const cleared = await hashtags.updateMany(
+      { tag: { $nin: counts.map((c) => c._id) }, post_count: { $ne: 0 } },
+      { $set: { post_count: 0 } }
+    );
+
+    console.log(`✅ Counted ${counts.length} hashtags (${cleared.modifiedCount} no longer used)`);
+  } finally {
+    await client.close();
+  }
+}
+
+migrateHashtags().catch((error) => {
+  console.error('❌ Migration failed:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,74 @@
+/**
+ * Backfill the `media` carousel array on posts created before carousels,
+ * from their single media_url/media_type. Safe to run more than once.
+ *
+ * Usage: node scripts/migrate-post-media.js [--dry-run]
+ */
+
+const { MongoClient } = require('mongodb');
+require('dotenv').config({ path: '.env.local' });
+
+const MONGODB_URI = process.env.MONGODB_URI;
+const DB_NAME = process.env.MONGODB_DB_NAME || 'unix';
+const BATCH_SIZE = 500;
+
+async function migratePostMedia() {
+  const dryRun = process.argv.includes('--dry-run');
+
+  if (!MONGODB_URI) {
+    console.error('❌ ERROR: MONGODB_URI is not set in .env.local');
+    process.exit(1);
+  }
+
+  const client = await MongoClient.connect(MONGODB_URI, { serverSelectionTimeoutMS: 10000 });
+
+  try {
+    const posts = client.db(DB_NAME).collection('posts');
+    const filter = {
+      media: { $exists: false },
+      media_url: { $nin: [null, ''] },
+      media_type: { $in: ['IMAGE', 'VIDEO'] },
+    };
+
+    const total = await posts.countDocuments(filter);
+    console.log(`📊 Found ${total} single-media posts to migrate`);
+
+    if (dryRun || total === 0) {
+      return;
+    }
+
+    let migrated = 0;
+    const cursor = posts.find(filter, { projection: { _id: 1, media_url: 1, media_type: 1 } });
+    let batch = [];
+
+    const flush = async () => {
+      if (batch.length === 0) return;
+      const result = await posts.bulkWrite(batch, { ordered: false });
+      migrated += result.modifiedCount;
+      batch = [];
+    };
+
+    for await (const post of cursor) {
+      batch.push({
+        updateOne: {
+          // Re-check so a post edited mid-run isn't overwritten
+          filter: { _id: post._id, media: { $exists: false } },
+          update: { $set: { media: [{ url: post.media_url, type: post.media_type }] } },
+        },
+      });
+      if (batch.length >= BATCH_SIZE) {
+        await flush();
+      }
+    }
+    await flush();
+
+    console.log(`✅ Migrated ${migrated} posts`);
+  } finally {
+    await client.close();
+  }
+}
+
+migratePostMedia().catch((error) => {
+  console.error('❌ Migration failed:', error.message);
+  process.exit(1);
+});
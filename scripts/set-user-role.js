@@ -0,0 +1,52 @@
+/**
+ * Set a user's role directly, e.g. to appoint the first admin
+ * (after that, admins verify roles from /admin/roles)
+ *
+ * Usage: node scripts/set-user-role.js <college_id> <student|faculty|staff|alumni|admin>
+ */
+
+const { MongoClient } = require('mongodb');
+require('dotenv').config({ path: '.env.local' });
+
+const MONGODB_URI = process.env.MONGODB_URI;
+const DB_NAME = process.env.MONGODB_DB_NAME || 'unix';
+const ROLES = ['student', 'faculty', 'staff', 'alumni', 'admin'];
+
+async function setUserRole() {
+  const [collegeId, role] = process.argv.slice(2);
+
+  if (!collegeId || !ROLES.includes(role)) {
+    console.error(`Usage: node scripts/set-user-role.js <college_id> <${ROLES.join('|')}>`);
+    process.exit(1);
+  }
+
+  if (!MONGODB_URI) {
+    console.error('❌ ERROR: MONGODB_URI is not set in .env.local');
+    process.exit(1);
+  }
+
+  const client = await MongoClient.connect(MONGODB_URI, { serverSelectionTimeoutMS: 10000 });
+
+  try {
+    const users = client.db(DB_NAME).collection('users');
+    const result = await users.updateOne(
+      { college_id: collegeId },
+      { $set: { role, role_verified_at: new Date() } }
+    );
+
+    if (result.matchedCount === 0) {
+      console.error(`❌ No user with college ID ${collegeId}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    console.log(`✅ ${collegeId} is now ${role}`);
+  } finally {
+    await client.close();
+  }
+}
+
+setUserRole().catch((error) => {
+  console.error('❌ Failed to set role:', error.message);
+  process.exit(1);
+});
@@ -36,6 +36,68 @@ function startDatabaseKeeper() {
   console.log('🚀 Database connection keeper started (4min intervals)');
 }
 
+// Self-hosted stand-in for the crons in vercel.json: runs `fn` now and then
+// every `defaultMs`, or every `envVar` milliseconds when that is set
+function startPoller(name, envVar, defaultMs, fn) {
+  const configured = parseInt(process.env[envVar], 10);
+  const interval = configured > 0 ? configured : defaultMs;
+
+  const run = async () => {
+    try {
+      await fn();
+    } catch (error) {
+      console.warn(`⚠️ ${name} error:`, error.message);
+    }
+  };
+
+  run();
+  setInterval(run, interval);
+
+  console.log(`🚀 ${name} started (${Math.round(interval / 60000)}min intervals)`);
+}
+
+// POST to one of the /api/cron routes and return its summary
+async function runCronJob(path) {
+  const response = await fetch(`http://localhost:${port}/api/cron/${path}`, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${process.env.CRON_SECRET}` }
+  });
+  if (!response.ok) {
+    throw new Error(`server response ${response.status}`);
+  }
+  return response.json();
+}
+
+function startCronJobs() {
+  startPoller('Deleted account purger', 'ACCOUNT_PURGE_INTERVAL_MS', 6 * 60 * 60 * 1000, async () => {
+    const { purged, failed } = await runCronJob('purge-deleted-accounts');
+    if (purged || failed) {
+      console.log(`🗑️ Purged ${purged} deleted account(s), ${failed} failed`);
+    }
+  });
+
+  startPoller('Scheduled post publisher', 'POST_PUBLISH_INTERVAL_MS', 60 * 1000, async () => {
+    const { published, failed } = await runCronJob('publish-scheduled-posts');
+    if (published || failed) {
+      console.log(`🗓️ Published ${published} scheduled post(s), ${failed} failed`);
+    }
+  });
+
+  startPoller('Event reminder', 'EVENT_REMINDER_INTERVAL_MS', 60 * 1000, async () => {
+    const { reminded, failed } = await runCronJob('send-event-reminders');
+    if (reminded || failed) {
+      console.log(`⏰ Sent reminders for ${reminded} event(s), ${failed} failed`);
+    }
+  });
+
+  startPoller('Internship reminder', 'INTERNSHIP_REMINDER_INTERVAL_MS', 15 * 60 * 1000, async () => {
+    const { reminded, failed } = await runCronJob('send-internship-reminders');
+    if (reminded || failed) {
+      console.log(`⏰ Sent deadline reminders for ${reminded} internship(s), ${failed} failed`);
+    }
+  });
+}
+
 app.prepare().then(() => {
   const server = createServer((req, res) => {
     handle(req, res, parse(req.url, true));
@@ -225,6 +287,9 @@ app.prepare().then(() => {
   // Start database connection keeper
   setTimeout(() => {
     startDatabaseKeeper();
+    if (process.env.CRON_SECRET) {
+      startCronJobs();
+    }
   }, 10000); // Wait 10 seconds after server start
 
   server
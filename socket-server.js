@@ -5,6 +5,7 @@ const express = require('express');
 
 const app = express();
 const port = process.env.SOCKET_PORT || process.env.PORT || 3001;
+const apiUrl = process.env.NEXTJS_API_URL || 'http://localhost:3000';
 
 // Health check endpoint
 app.get('/health', (req, res) => {
@@ -41,6 +42,23 @@ const io = new Server(server, {
   allowEIO3: true
 });
 
+// How often connected sockets re-check that their session is still live
+const SESSION_RECHECK_INTERVAL_MS = parseInt(process.env.SESSION_RECHECK_INTERVAL_MS, 10) || 5 * 60 * 1000;
+
+// 'active', 'revoked' (logged out, device removed, password reset, account
+// deleted, or the token lapsed) or 'unknown' when the API can't be reached
+async function checkSession(token) {
+  try {
+    const response = await fetch(`${apiUrl}/api/auth/sessions/current`, {
+      headers: { 'Authorization': `Bearer ${token}` }
+    });
+    if (response.status === 401) return 'revoked';
+    return response.ok ? 'active' : 'unknown';
+  } catch {
+    return 'unknown';
+  }
+}
+
 // Authentication middleware
 io.use(async (socket, next) => {
   try {
@@ -66,6 +84,15 @@ io.use(async (socket, next) => {
       return next(new Error('Invalid token'));
     }
 
+    // Reject tokens whose session was revoked (logout, password reset, removed device)
+    const session = await checkSession(token);
+    if (session === 'revoked') {
+      return next(new Error('Authentication failed: Session revoked'));
+    }
+    if (session !== 'active') {
+      return next(new Error('Authentication failed: Unable to verify session'));
+    }
+
     socket.userId = decoded.userId;
     socket.userName = decoded.name || `User ${decoded.userId}`;
     socket.tokenJti = decoded.jti; // Store token ID for potential revocation
@@ -94,6 +121,34 @@ io.on('connection', (socket) => {
   socket.join(`user-${socket.userId}`);
   console.log(`👤 User ${socket.userId} auto-joined room user-${socket.userId}`);
 
+  // Access tokens are short-lived; the client sends each rotated token so API calls keep working
+  socket.on('refresh-token', async (newToken) => {
+    try {
+      const decoded = jwt.verify(newToken, process.env.JWT_SECRET, {
+        algorithms: ['HS256'],
+        issuer: 'unix-social',
+        audience: 'unix-api'
+      });
+
+      // Only accept tokens for the same session this socket authenticated with
+      if (decoded.userId !== socket.userId || decoded.jti !== socket.tokenJti) {
+        console.warn(`⚠️ Rejected refresh-token for a different session from socket ${socket.id}`);
+        return;
+      }
+
+      socket.handshake.auth.token = newToken;
+    } catch (error) {
+      console.warn(`⚠️ Invalid refresh-token from socket ${socket.id}:`, error.message);
+      return;
+    }
+
+    // A session revoked since the handshake ends the socket too
+    if (await checkSession(newToken) === 'revoked') {
+      console.log(`🔒 Session ended for user ${socket.userId}, disconnecting socket ${socket.id}`);
+      socket.disconnect(true);
+    }
+  });
+
   // Join conversation room
   socket.on('join-conversation', (conversationId) => {
     socket.join(`conversation-${conversationId}`);
@@ -182,6 +237,48 @@ io.on('connection', (socket) => {
     }
   });
 
+  // Live poll results. Watching a poll is checked against the API, so only
+  // people who can see the post get its counts; after voting, a client sends
+  // poll-voted and everyone else watching gets the new counts (never who voted)
+  const fetchPoll = async (postId) => {
+    const apiUrl = process.env.NEXTJS_API_URL || 'http://localhost:3000';
+    const response = await fetch(`${apiUrl}/api/posts/${postId}/poll`, {
+      headers: { 'Authorization': `Bearer ${socket.handshake.auth.token}` }
+    });
+    return response.ok ? response.json() : null;
+  };
+
+  socket.on('watch-poll', async (postId) => {
+    const id = parseInt(postId);
+    if (Number.isNaN(id)) return;
+    try {
+      if (await fetchPoll(id)) socket.join(`poll-${id}`);
+    } catch (error) {
+      console.error(`Failed to watch poll ${id}:`, error.message);
+    }
+  });
+
+  socket.on('unwatch-poll', (postId) => {
+    socket.leave(`poll-${parseInt(postId)}`);
+  });
+
+  socket.on('poll-voted', async (postId) => {
+    const id = parseInt(postId);
+    if (Number.isNaN(id)) return;
+    try {
+      const data = await fetchPoll(id);
+      if (!data) return;
+      socket.to(`poll-${id}`).emit('poll-results', {
+        postId: id,
+        voters: data.results.voters,
+        counts: data.results.counts,
+        open: data.open
+      });
+    } catch (error) {
+      console.error(`Failed to relay poll ${id} results:`, error.message);
+    }
+  });
+
   // Typing indicators
   socket.on('typing', ({ otherUserId, userId, userName }) => {
     io.to(`user-${otherUserId}`).emit('user-typing', { userId, userName });
@@ -210,6 +307,20 @@ io.on('connection', (socket) => {
   });
 });
 
+// Sessions can end while a socket stays connected; drop those sockets. The
+// client refreshes its token and reconnects if its session is still live.
+const sessionRecheck = setInterval(async () => {
+  const checked = new Map();
+  for (const socket of io.sockets.sockets.values()) {
+    const token = socket.handshake.auth.token;
+    if (!checked.has(token)) checked.set(token, await checkSession(token));
+    if (checked.get(token) === 'revoked') {
+      console.log(`🔒 Session ended for user ${socket.userId}, disconnecting socket ${socket.id}`);
+      socket.disconnect(true);
+    }
+  }
+}, SESSION_RECHECK_INTERVAL_MS);
+
 server.listen(port, () => {
   console.log(`🚀 Socket.IO server running on port ${port}`);
   console.log(`📡 Accepting connections from: ${process.env.CORS_ORIGIN || '*'}`);
@@ -219,6 +330,7 @@ server.listen(port, () => {
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM signal received: closing HTTP server');
+  clearInterval(sessionRecheck);
   server.close(() => {
     console.log('HTTP server closed');
   });